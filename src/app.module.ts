@@ -15,6 +15,9 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
+import { FriendshipsModule } from './friendships/friendships.module';
+import { OrganizationsModule } from './organizations/organizations.module';
+import { PairedDevicesModule } from './paired-devices/paired-devices.module';
 import { MediaModule } from './media/media.module';
 import { QrModule } from './qr/qr.module';
 import {
@@ -28,7 +31,8 @@ import {
   r2Config,
 } from './shared/config';
 import { configValidationSchema } from './shared/config/schema';
-import { CacheModule, RabbitmqModule, MailModule } from './shared/services';
+import { CacheModule, RabbitmqModule } from './shared/services';
+import { MailModule } from './shared/services/mail/mail.module';
 import { UsersModule } from './users/users.module';
 import { WorkerModule } from './workers/worker.module';
 import { RateLimitModule } from './rate-limit/rate-limit.module';
@@ -89,6 +93,9 @@ import { RateLimitModule } from './rate-limit/rate-limit.module';
     MediaModule,
     AuthModule,
     QrModule,
+    FriendshipsModule,
+    OrganizationsModule,
+    PairedDevicesModule,
     RateLimitModule,
   ],
   controllers: [AppController],
@@ -0,0 +1,54 @@
+import { Auth } from 'src/common/decorators';
+import { AuthPayload } from 'src/common/interface';
+import { SnowflakeIdPipe } from 'src/common/pipes';
+import { USER_CONSTANTS } from 'src/shared/constants';
+
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Request,
+} from '@nestjs/common';
+
+import { LoginProtectionService } from './login-protection.service';
+
+const ADMIN_ROLES = [
+  USER_CONSTANTS.ROLES.ADMIN,
+  USER_CONSTANTS.ROLES.SUPER_ADMIN,
+];
+
+/**
+ * Support endpoints for account security
+ * Restricted to admins
+ */
+@Controller('admin/auth')
+export class AuthAdminController {
+  constructor(private readonly loginProtection: LoginProtectionService) {}
+
+  @Get('lockouts')
+  @HttpCode(HttpStatus.OK)
+  @Auth(ADMIN_ROLES)
+  async listLockouts() {
+    return this.loginProtection.listLockouts();
+  }
+
+  @Get('lockouts/users/:id')
+  @HttpCode(HttpStatus.OK)
+  @Auth(ADMIN_ROLES)
+  async getLockoutStatus(@Param('id', new SnowflakeIdPipe()) id: string) {
+    return this.loginProtection.getLockoutStatus(id);
+  }
+
+  @Delete('lockouts/users/:id')
+  @HttpCode(HttpStatus.OK)
+  @Auth(ADMIN_ROLES)
+  async unlockUser(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+  ) {
+    return this.loginProtection.unlockUser(id, req.user.uid);
+  }
+}
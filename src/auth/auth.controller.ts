@@ -1,12 +1,41 @@
-import { Auth, ClientInfo } from 'src/common/decorators';
+import {
+  Auth,
+  Authorize,
+  AuthorizedResource,
+  ClientInfo,
+  NoImpersonation,
+} from 'src/common/decorators';
 import { AuthPayload } from 'src/common/interface';
-import { CreateDeviceTokenDto, LoginDto, RegisterDto } from 'src/users/dto';
+import {
+  CreateDeviceTokenDto,
+  LoginDto,
+  OAuthLoginDto,
+  RegisterDto,
+} from 'src/users/dto';
+import { UserSession } from 'src/users/entities';
 import { UpdatePasswordDto } from 'src/users/dto/update-password.dto';
-import { OtpRequestDto, OtpVerifyDto } from './dto';
+import {
+  AccountUnlockDto,
+  ConfirmEmailVerificationDto,
+  ConfirmPhoneVerificationDto,
+  ForgotPasswordDto,
+  OAuthCallbackDto,
+  OtpRequestDto,
+  OtpVerifyDto,
+  RequestEmailChangeDto,
+  ResetPasswordDto,
+  SignInReportDto,
+  TwoFactorCodeDto,
+  TwoFactorVerifyDto,
+  WebAuthnLoginOptionsDto,
+  WebAuthnLoginVerifyDto,
+  WebAuthnRegisterVerifyDto,
+} from './dto';
 
 import {
   Body,
   Controller,
+  Delete,
   HttpCode,
   HttpStatus,
   Get,
@@ -19,9 +48,14 @@ import {
 } from '@nestjs/common';
 
 import { AuthService } from './auth.service';
+import { LoginProtectionService } from './login-protection.service';
+import { LoginRiskService } from './login-risk.service';
+import { VerificationService } from './verification.service';
+import { SessionPolicy } from './policies';
 import { JwtAccessTokenGuard } from './guard/jwt-access-token.guard';
 import { JwtRefreshTokenGuard } from './guard/jwt-refresh-token.guard';
 import { AdvancedPaginationDto, CursorPaginationDto } from 'src/common/dto';
+import { SnowflakeIdPipe } from 'src/common/pipes';
 import {
   CustomRateLimit,
   RateLimit,
@@ -29,7 +63,12 @@ import {
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly verificationService: VerificationService,
+    private readonly loginProtection: LoginProtectionService,
+    private readonly loginRisk: LoginRiskService,
+  ) {}
 
   @Post('register')
   async register(
@@ -67,6 +106,7 @@ export class AuthController {
   @Post('logout-all')
   @HttpCode(HttpStatus.OK)
   @UseGuards(JwtAccessTokenGuard)
+  @NoImpersonation()
   async logoutAll(@Request() req: Request & { user: AuthPayload }) {
     const authPayload = req.user;
     return this.authService.logoutAll(authPayload);
@@ -75,6 +115,7 @@ export class AuthController {
   @Put('update-password')
   @HttpCode(HttpStatus.OK)
   @UseGuards(JwtAccessTokenGuard)
+  @NoImpersonation()
   async updatePassword(
     @Request() req: Request & { user: AuthPayload },
     @Body() updatePasswordDto: UpdatePasswordDto,
@@ -83,6 +124,119 @@ export class AuthController {
     return this.authService.updatePassword(authPayload, updatePasswordDto);
   }
 
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(5, 15 * 60)
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto);
+  }
+
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 15 * 60)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.authService.resetPassword(resetPasswordDto);
+  }
+
+  @Post('unlock')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 15 * 60)
+  async unlockAccount(@Body() accountUnlockDto: AccountUnlockDto) {
+    return this.loginProtection.unlockWithToken(accountUnlockDto);
+  }
+
+  @Post('sessions/report')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 15 * 60)
+  async reportSignIn(@Body() signInReportDto: SignInReportDto) {
+    return this.loginRisk.reportSignIn(signInReportDto);
+  }
+
+  @Post('verify/email/send')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @CustomRateLimit(5, 15 * 60)
+  async sendEmailVerification(@Request() req: Request & { user: AuthPayload }) {
+    return this.verificationService.sendEmailVerification(req.user);
+  }
+
+  @Post('verify/email/confirm')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 15 * 60)
+  async confirmEmailVerification(
+    @Body() confirmEmailVerificationDto: ConfirmEmailVerificationDto,
+  ) {
+    return this.verificationService.confirmEmailVerification(
+      confirmEmailVerificationDto,
+    );
+  }
+
+  @Post('verify/email/change')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @CustomRateLimit(5, 15 * 60)
+  @NoImpersonation()
+  async requestEmailChange(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() requestEmailChangeDto: RequestEmailChangeDto,
+  ) {
+    return this.verificationService.requestEmailChange(
+      req.user,
+      requestEmailChangeDto,
+    );
+  }
+
+  @Post('verify/email/change/confirm')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 15 * 60)
+  async confirmEmailChange(
+    @Body() confirmEmailVerificationDto: ConfirmEmailVerificationDto,
+  ) {
+    return this.verificationService.confirmEmailChange(
+      confirmEmailVerificationDto,
+    );
+  }
+
+  @Post('verify/email/change/revert')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 15 * 60)
+  async revertEmailChange(
+    @Body() confirmEmailVerificationDto: ConfirmEmailVerificationDto,
+  ) {
+    return this.verificationService.revertEmailChange(
+      confirmEmailVerificationDto,
+    );
+  }
+
+  @Post('verify/phone/send')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @CustomRateLimit(5, 15 * 60)
+  async sendPhoneVerification(@Request() req: Request & { user: AuthPayload }) {
+    return this.verificationService.sendPhoneVerification(req.user);
+  }
+
+  @Post('verify/phone/confirm')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @CustomRateLimit(10, 15 * 60)
+  async confirmPhoneVerification(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() confirmPhoneVerificationDto: ConfirmPhoneVerificationDto,
+  ) {
+    return this.verificationService.confirmPhoneVerification(
+      req.user,
+      confirmPhoneVerificationDto,
+    );
+  }
+
+  @Get('verify/status')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  async getVerificationStatus(@Request() req: Request & { user: AuthPayload }) {
+    return this.verificationService.getVerificationStatus(req.user);
+  }
+
   @Post('device-token')
   @HttpCode(HttpStatus.OK)
   @UseGuards(JwtAccessTokenGuard)
@@ -104,8 +258,7 @@ export class AuthController {
     @Request() req: Request & { user: AuthPayload },
     @Query() paginationDto: AdvancedPaginationDto,
   ) {
-    Object.assign(paginationDto, { userId: req.user.uid });
-    return this.authService.getSessions(paginationDto);
+    return this.authService.getSessions(req.user, paginationDto);
   }
 
   @Get('sessions-cursor')
@@ -115,15 +268,35 @@ export class AuthController {
     @Request() req: Request & { user: AuthPayload },
     @Query() paginationDto: CursorPaginationDto,
   ) {
-    Object.assign(paginationDto, { userId: req.user.uid });
-    return this.authService.getSessionsCursor(paginationDto);
+    return this.authService.getSessionsCursor(req.user, paginationDto);
   }
 
   @Get('sessions/:id')
   @HttpCode(HttpStatus.OK)
   @Auth()
-  async getSessionById(@Param('id') id: string) {
-    return this.authService.getSessionById(id);
+  @Authorize(SessionPolicy, 'read')
+  async getSessionById(
+    @Request() req: Request & { user: AuthPayload },
+    @AuthorizedResource() session: UserSession,
+  ) {
+    return this.authService.getSessionById(req.user, session);
+  }
+
+  @Delete('sessions')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @NoImpersonation()
+  async revokeOtherSessions(@Request() req: Request & { user: AuthPayload }) {
+    return this.authService.revokeOtherSessions(req.user);
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @Authorize(SessionPolicy, 'delete')
+  @NoImpersonation()
+  async revokeSession(@AuthorizedResource() session: UserSession) {
+    return this.authService.revokeSession(session);
   }
 
   @Post('otp/request')
@@ -141,4 +314,148 @@ export class AuthController {
   ) {
     return this.authService.verifyOtp(otpVerifyDto, clientInfo);
   }
+
+  @Post('2fa/enroll')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @NoImpersonation()
+  async enrollTwoFactor(@Request() req: Request & { user: AuthPayload }) {
+    return this.authService.enrollTwoFactor(req.user);
+  }
+
+  @Post('2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @NoImpersonation()
+  async confirmTwoFactor(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.authService.confirmTwoFactor(req.user, twoFactorCodeDto);
+  }
+
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @NoImpersonation()
+  async disableTwoFactor(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.authService.disableTwoFactor(req.user, twoFactorCodeDto);
+  }
+
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 5 * 60)
+  async verifyTwoFactorLogin(
+    @Body() twoFactorVerifyDto: TwoFactorVerifyDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.authService.verifyTwoFactorLogin(
+      twoFactorVerifyDto,
+      clientInfo,
+    );
+  }
+
+  @Post('webauthn/register/options')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @NoImpersonation()
+  async getWebAuthnRegistrationOptions(
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.authService.getWebAuthnRegistrationOptions(req.user);
+  }
+
+  @Post('webauthn/register/verify')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  @NoImpersonation()
+  async verifyWebAuthnRegistration(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() webAuthnRegisterVerifyDto: WebAuthnRegisterVerifyDto,
+  ) {
+    return this.authService.verifyWebAuthnRegistration(
+      req.user,
+      webAuthnRegisterVerifyDto,
+    );
+  }
+
+  @Post('webauthn/login/options')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(20, 60)
+  async getWebAuthnLoginOptions(
+    @Body() webAuthnLoginOptionsDto: WebAuthnLoginOptionsDto,
+  ) {
+    return this.authService.getWebAuthnLoginOptions(webAuthnLoginOptionsDto);
+  }
+
+  @Post('webauthn/login/verify')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(10, 5 * 60)
+  async verifyWebAuthnLogin(
+    @Body() webAuthnLoginVerifyDto: WebAuthnLoginVerifyDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.authService.verifyWebAuthnLogin(
+      webAuthnLoginVerifyDto,
+      clientInfo,
+    );
+  }
+
+  @Get('webauthn/credentials')
+  @Auth()
+  async listWebAuthnCredentials(
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.authService.listWebAuthnCredentials(req.user);
+  }
+
+  @Delete('webauthn/credentials/:id')
+  @Auth()
+  @NoImpersonation()
+  async deleteWebAuthnCredential(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+  ) {
+    return this.authService.deleteWebAuthnCredential(req.user, id);
+  }
+
+  @Get('oauth/providers')
+  @HttpCode(HttpStatus.OK)
+  getOAuthProviders() {
+    return this.authService.getOAuthProviders();
+  }
+
+  @Post('oauth/:provider')
+  @HttpCode(HttpStatus.OK)
+  async oauthLogin(
+    @Param('provider') provider: string,
+    @Body() oauthLoginDto: OAuthLoginDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.authService.oauthLogin(provider, oauthLoginDto, clientInfo);
+  }
+
+  @Get('oauth/:provider/authorize')
+  @HttpCode(HttpStatus.OK)
+  @CustomRateLimit(20, 60)
+  async getOAuthAuthorizationUrl(@Param('provider') provider: string) {
+    return this.authService.getOAuthAuthorizationUrl(provider);
+  }
+
+  @Get('oauth/:provider/callback')
+  @HttpCode(HttpStatus.OK)
+  async handleOAuthCallback(
+    @Param('provider') provider: string,
+    @Query() callbackDto: OAuthCallbackDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.authService.handleOAuthCallback(
+      provider,
+      callbackDto,
+      clientInfo,
+    );
+  }
 }
@@ -1,18 +1,52 @@
 import { UsersModule } from 'src/users/users.module';
 import { MailModule } from 'src/shared/services/mail/mail.module';
+import { AxiosModule } from 'src/shared/services/axios/axios.module';
 
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { AuthAdminController } from './auth-admin.controller';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
-import { RedisOtpStore, MailerEmailOtpSender } from './providers';
+import { AdminAuditLog } from './entities';
+import { ImpersonationAuditInterceptor } from './interceptors';
+import { JwksController } from './jwks.controller';
+import { JwtKeyRingModule } from './jwt-key-ring.module';
+import { SessionRevocationModule } from './session-revocation.module';
+import { LoginProtectionService } from './login-protection.service';
+import { LoginRiskService } from './login-risk.service';
+import { PermissionModule } from './permission.module';
+import { RoleAdminController } from './role-admin.controller';
+import { UserAdminController } from './user-admin.controller';
+import { UserAdminService } from './user-admin.service';
+import { VerificationService } from './verification.service';
+import {
+  AppleOAuthProvider,
+  FirebasePushNotificationSender,
+  GithubOAuthProvider,
+  GoogleOAuthProvider,
+  KakaoOAuthProvider,
+  HttpSmsSender,
+  MailerEmailOtpSender,
+  MailerEmailVerificationSender,
+  MailerPasswordResetSender,
+  MailerSecurityAlertSender,
+  NaverOAuthProvider,
+  OAuthProviderRegistry,
+  RedisOtpStore,
+  WebAuthnVerifier,
+} from './providers';
 
 @Module({
   imports: [
-    UsersModule,
+    // UsersModule re-authenticates account deletion with AuthService
+    forwardRef(() => UsersModule),
     MailModule,
+    AxiosModule,
+    TypeOrmModule.forFeature([AdminAuditLog]),
     JwtModule.registerAsync({
       global: true,
       useFactory: (configService: ConfigService) => ({
@@ -20,8 +54,39 @@ import { RedisOtpStore, MailerEmailOtpSender } from './providers';
       }),
       inject: [ConfigService],
     }),
+    JwtKeyRingModule,
+    SessionRevocationModule,
+    PermissionModule,
   ],
-  controllers: [AuthController],
-  providers: [AuthService, RedisOtpStore, MailerEmailOtpSender],
+  controllers: [
+    AuthController,
+    AuthAdminController,
+    UserAdminController,
+    RoleAdminController,
+    JwksController,
+  ],
+  providers: [
+    AuthService,
+    RedisOtpStore,
+    MailerEmailOtpSender,
+    MailerSecurityAlertSender,
+    MailerPasswordResetSender,
+    MailerEmailVerificationSender,
+    HttpSmsSender,
+    VerificationService,
+    LoginProtectionService,
+    FirebasePushNotificationSender,
+    LoginRiskService,
+    UserAdminService,
+    GoogleOAuthProvider,
+    GithubOAuthProvider,
+    KakaoOAuthProvider,
+    NaverOAuthProvider,
+    AppleOAuthProvider,
+    OAuthProviderRegistry,
+    WebAuthnVerifier,
+    { provide: APP_INTERCEPTOR, useClass: ImpersonationAuditInterceptor },
+  ],
+  exports: [AuthService],
 })
 export class AuthModule {}
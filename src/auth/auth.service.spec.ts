@@ -0,0 +1,1139 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import * as bcrypt from 'bcrypt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { UnauthorizedException } from '@nestjs/common';
+import {
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+  sha256Hex,
+} from 'src/common/utils';
+import { CacheService } from 'src/shared/services';
+import { User, UserSession } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { AuthService } from './auth.service';
+import { JwtKeyRingService } from './jwt-key-ring.service';
+import { LoginProtectionService } from './login-protection.service';
+import { LoginRiskService } from './login-risk.service';
+import { PermissionService } from './permission.service';
+import { SessionActivityService } from './session-activity.service';
+import { SessionRevocationService } from './session-revocation.service';
+import { VerificationService } from './verification.service';
+import {
+  MailerEmailOtpSender,
+  MailerPasswordResetSender,
+  MailerSecurityAlertSender,
+  OAuthProviderRegistry,
+  RedisOtpStore,
+  WebAuthnVerifier,
+} from './providers';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let usersService: jest.Mocked<UsersService>;
+  let cacheService: jest.Mocked<CacheService>;
+  let configService: { get: jest.Mock };
+  let securityAlertSender: jest.Mocked<MailerSecurityAlertSender>;
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  let otpStore: jest.Mocked<RedisOtpStore>;
+  let webAuthnVerifier: jest.Mocked<WebAuthnVerifier>;
+  let passwordResetSender: jest.Mocked<MailerPasswordResetSender>;
+  let loginProtection: jest.Mocked<LoginProtectionService>;
+
+  const mockUser = {
+    id: '123',
+    email: 'test@example.com',
+    name: 'Test User',
+    role: 'user',
+  } as User;
+
+  const buildSession = (overrides: Partial<UserSession> = {}) =>
+    Object.assign(new UserSession(), {
+      id: 'session123',
+      userId: '123',
+      revoked: false,
+      userAgent: 'jest',
+      ipAddress: '127.0.0.1',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      createdAt: new Date(),
+      refreshTokenHash: sha256Hex('current-jti'),
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        SessionRevocationService,
+        SessionActivityService,
+        {
+          provide: JwtKeyRingService,
+          useValue: {
+            sign: jest.fn(
+              (payload: Record<string, unknown>, options: JwtSignOptions) =>
+                jwtService.signAsync(payload, options),
+            ),
+          },
+        },
+        {
+          provide: PermissionService,
+          useValue: { getVersion: jest.fn().mockResolvedValue(1700000000000) },
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            createSession: jest.fn(),
+            findSessionById: jest.fn(),
+            findSessionsByUserId: jest.fn(),
+            findById: jest.fn(),
+            revokeSession: jest.fn(),
+            rotateSessionRefreshToken: jest.fn(),
+            getTwoFactorSecret: jest.fn(),
+            enableTwoFactor: jest.fn(),
+            consumeRecoveryCode: jest.fn(),
+            countRemainingRecoveryCodes: jest.fn(),
+            findOne: jest.fn(),
+            findWebAuthnCredentialByCredentialId: jest.fn(),
+            updateWebAuthnCredentialCounter: jest.fn(),
+            setPassword: jest.fn(),
+            markEmailVerified: jest.fn(),
+            revokeSessionsByUserId: jest.fn(),
+            updateUser: jest.fn(),
+            findActiveSessionIdsByUserId: jest
+              .fn()
+              .mockResolvedValue(['session123', 'session456']),
+          },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            get: jest.fn().mockResolvedValue(null),
+            set: jest.fn(),
+            delete: jest.fn(),
+            getAndDelete: jest.fn(),
+            deleteKeysByPrefix: jest.fn(),
+            getRedisClient: jest.fn(() => ({ publish: jest.fn() })),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+        {
+          provide: MailerSecurityAlertSender,
+          useValue: { sendAlert: jest.fn() },
+        },
+        {
+          provide: RedisOtpStore,
+          useValue: {
+            set: jest.fn(),
+            get: jest.fn(),
+            delete: jest.fn(),
+            incrementAttempts: jest.fn(),
+            markAsUsed: jest.fn(),
+          },
+        },
+        { provide: MailerEmailOtpSender, useValue: {} },
+        { provide: OAuthProviderRegistry, useValue: {} },
+        {
+          provide: WebAuthnVerifier,
+          useValue: { verifyAuthentication: jest.fn() },
+        },
+        {
+          provide: MailerPasswordResetSender,
+          useValue: { sendResetLink: jest.fn() },
+        },
+        {
+          provide: VerificationService,
+          useValue: { sendWelcomeVerification: jest.fn() },
+        },
+        {
+          provide: LoginProtectionService,
+          useValue: {
+            assertLoginAllowed: jest.fn(),
+            recordFailure: jest.fn(),
+            recordSuccess: jest.fn(),
+            clearForUser: jest.fn(),
+          },
+        },
+        {
+          provide: LoginRiskService,
+          useValue: {
+            assess: jest.fn().mockResolvedValue({
+              score: 0,
+              level: 'low',
+              reasons: [],
+              deviceFingerprint: 'fingerprint',
+            }),
+            alertIfRisky: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(AuthService);
+    usersService = module.get(UsersService);
+    cacheService = module.get(CacheService);
+    configService = module.get(ConfigService);
+    securityAlertSender = module.get(MailerSecurityAlertSender);
+    otpStore = module.get(RedisOtpStore);
+    webAuthnVerifier = module.get(WebAuthnVerifier);
+    passwordResetSender = module.get(MailerPasswordResetSender);
+    loginProtection = module.get(LoginProtectionService);
+    usersService.findById.mockResolvedValue(mockUser);
+  });
+
+  describe('generateToken', () => {
+    it('should store the refresh token hash on the new session', async () => {
+      usersService.createSession.mockImplementation((dto) =>
+        Promise.resolve(buildSession({ ...dto, id: 'session123' })),
+      );
+
+      const { refreshToken } = await service.generateToken(mockUser, {
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest',
+      } as never);
+
+      const payload = jwtService.decode<{ jti: string; ssid: string }>(
+        refreshToken,
+      );
+      const dto = usersService.createSession.mock.calls[0][0];
+      expect(dto.refreshTokenHash).toBe(sha256Hex(payload.jti));
+      expect(cacheService.set).toHaveBeenCalledWith(
+        'auth:user:123:refreshToken:session123',
+        sha256Hex(payload.jti),
+        expect.any(Number),
+      );
+    });
+
+    it('should expire the session after the idle timeout', async () => {
+      usersService.createSession.mockImplementation((dto) =>
+        Promise.resolve(buildSession({ ...dto, id: 'session123' })),
+      );
+
+      const { refreshToken } = await service.generateToken(mockUser, {
+        ipAddress: '127.0.0.1',
+        userAgent: 'jest',
+      } as never);
+
+      const { exp, iat } = jwtService.decode<{ exp: number; iat: number }>(
+        refreshToken,
+      );
+      const dto = usersService.createSession.mock.calls[0][0];
+      expect(exp - iat).toBe(7 * 24 * 60 * 60);
+      expect(dto.expiresAt!.getTime()).toBe(
+        dto.lastActiveAt!.getTime() + 7 * 24 * 60 * 60 * 1000,
+      );
+    });
+  });
+
+  describe('login', () => {
+    const clientInfo = { ipAddress: '10.0.0.1', userAgent: 'jest' } as never;
+    const loginDto = { email: 'test@example.com', password: 'secret1' };
+
+    it('should fail the same way for an unknown email', async () => {
+      usersService.findOne.mockResolvedValue(null);
+
+      await expect(service.login(loginDto, clientInfo)).rejects.toMatchObject({
+        status: 401,
+        response: { messageKey: 'auth.INVALID_CREDENTIALS' },
+      });
+      expect(loginProtection.recordFailure).toHaveBeenCalledWith(
+        'test@example.com',
+        null,
+        '10.0.0.1',
+      );
+    });
+
+    it('should count a wrong password as a failed attempt', async () => {
+      const user = {
+        ...mockUser,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        password: await bcrypt.hash('other-password', 4),
+      } as User;
+      usersService.findOne.mockResolvedValue(user);
+
+      await expect(service.login(loginDto, clientInfo)).rejects.toMatchObject({
+        status: 401,
+        response: { messageKey: 'auth.INVALID_CREDENTIALS' },
+      });
+      expect(loginProtection.recordFailure).toHaveBeenCalledWith(
+        'test@example.com',
+        user,
+        '10.0.0.1',
+      );
+      expect(loginProtection.recordSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should not check the password of a locked account', async () => {
+      loginProtection.assertLoginAllowed.mockRejectedValue(new Error('locked'));
+
+      await expect(service.login(loginDto, clientInfo)).rejects.toThrow(
+        'locked',
+      );
+      expect(usersService.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should reset the counters on success', async () => {
+      usersService.findOne.mockResolvedValue({
+        ...mockUser,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        password: await bcrypt.hash('secret1', 4),
+      } as User);
+      usersService.createSession.mockImplementation((dto) =>
+        Promise.resolve(buildSession({ ...dto, id: 'session123' })),
+      );
+
+      const result = await service.login(loginDto, clientInfo);
+
+      expect(result.messageKey).toBe('user.LOGIN_SUCCESS');
+      expect(loginProtection.recordSuccess).toHaveBeenCalledWith(
+        'test@example.com',
+      );
+    });
+
+    it('should not sign in a suspended account', async () => {
+      usersService.findOne.mockResolvedValue({
+        ...mockUser,
+        status: 'suspended',
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        password: await bcrypt.hash('secret1', 4),
+      } as User);
+
+      await expect(service.login(loginDto, clientInfo)).rejects.toMatchObject({
+        status: 403,
+        response: { messageKey: 'auth.ACCOUNT_SUSPENDED' },
+      });
+      expect(usersService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should cache the access token for as long as it is valid', async () => {
+      configService.get.mockImplementation((key: string) =>
+        key === 'app.jwt.accessTokenExpiresIn' ? '15m' : undefined,
+      );
+      usersService.findOne.mockResolvedValue({
+        ...mockUser,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        password: await bcrypt.hash('secret1', 4),
+      } as User);
+      usersService.createSession.mockImplementation((dto) =>
+        Promise.resolve(buildSession({ ...dto, id: 'session123' })),
+      );
+
+      const result = await service.login(loginDto, clientInfo);
+
+      const { token } = result.data as { token: { accessToken: string } };
+      const payload = jwtService.decode<{ exp: number; iat: number }>(
+        token.accessToken,
+      );
+      expect(payload.exp - payload.iat).toBe(15 * 60);
+      expect(cacheService.set).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session123',
+        '123',
+        15 * 60,
+      );
+    });
+  });
+
+  describe('createImpersonationSession', () => {
+    it('should issue a short-lived access token naming the admin', async () => {
+      usersService.createSession.mockImplementation((dto) =>
+        Promise.resolve(buildSession({ ...dto, id: 'session789' })),
+      );
+
+      const result = await service.createImpersonationSession(
+        mockUser,
+        'admin1',
+        15 * 60,
+        { ipAddress: '10.0.0.2', userAgent: 'jest' },
+      );
+
+      const payload = jwtService.decode<{
+        uid: string;
+        ssid: string;
+        pv: number;
+        impersonatorId: string;
+        exp: number;
+        iat: number;
+      }>(result.accessToken);
+      expect(payload).toMatchObject({
+        uid: '123',
+        ssid: 'session789',
+        pv: 1700000000000,
+        impersonatorId: 'admin1',
+      });
+      expect(payload.exp - payload.iat).toBe(15 * 60);
+      const dto = usersService.createSession.mock.calls[0][0];
+      expect(dto.authType).toBe('impersonation');
+      expect(dto.metadata).toMatchObject({ impersonatorId: 'admin1' });
+      expect(cacheService.set).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session789',
+        '123',
+        15 * 60,
+      );
+      expect(cacheService.set).not.toHaveBeenCalledWith(
+        expect.stringContaining(':refreshToken:'),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('refreshToken', () => {
+    it('should rotate the refresh token', async () => {
+      const session = buildSession();
+      usersService.findSessionById.mockResolvedValue(session);
+      usersService.rotateSessionRefreshToken.mockResolvedValue(true);
+
+      const result = await service.refreshToken({
+        uid: '123',
+        ssid: 'session123',
+        jti: 'current-jti',
+      });
+      const token = result.data as {
+        accessToken: string;
+        refreshToken: string;
+      };
+
+      const newJti = jwtService.decode<{ jti: string }>(token.refreshToken).jti;
+      expect(newJti).not.toBe('current-jti');
+      expect(usersService.rotateSessionRefreshToken).toHaveBeenCalledWith(
+        'session123',
+        sha256Hex('current-jti'),
+        sha256Hex(newJti),
+        expect.any(Date),
+      );
+      expect(token.accessToken).toEqual(expect.any(String));
+      expect(usersService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should never slide the session past its absolute lifetime', async () => {
+      const createdAt = new Date(Date.now() - 29 * 24 * 60 * 60 * 1000);
+      usersService.findSessionById.mockResolvedValue(
+        buildSession({ createdAt }),
+      );
+      usersService.rotateSessionRefreshToken.mockResolvedValue(true);
+
+      const result = await service.refreshToken({
+        uid: '123',
+        ssid: 'session123',
+        jti: 'current-jti',
+      });
+      const { refreshToken } = result.data as { refreshToken: string };
+
+      const [, , , expiresAt] =
+        usersService.rotateSessionRefreshToken.mock.calls[0];
+      expect(expiresAt).toEqual(
+        new Date(createdAt.getTime() + 30 * 24 * 60 * 60 * 1000),
+      );
+      const { exp } = jwtService.decode<{ exp: number }>(refreshToken);
+      expect(exp * 1000).toBeLessThanOrEqual(expiresAt!.getTime());
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      usersService.findSessionById.mockResolvedValue(buildSession());
+
+      await expect(
+        service.refreshToken({
+          uid: '123',
+          ssid: 'session123',
+          jti: 'previous-jti',
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(usersService.rotateSessionRefreshToken).not.toHaveBeenCalled();
+      expect(usersService.revokeSession).toHaveBeenCalledWith('session123');
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:refreshToken:session123',
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session123',
+      );
+      expect(securityAlertSender.sendAlert).toHaveBeenCalledWith(
+        { email: 'test@example.com', name: 'Test User' },
+        expect.objectContaining({ title: expect.any(String) as string }),
+      );
+    });
+
+    it('should answer a conflict when a concurrent refresh won the race', async () => {
+      usersService.findSessionById.mockResolvedValue(buildSession());
+      usersService.rotateSessionRefreshToken.mockResolvedValue(false);
+
+      await expect(
+        service.refreshToken({
+          uid: '123',
+          ssid: 'session123',
+          jti: 'current-jti',
+        }),
+      ).rejects.toMatchObject({
+        status: 409,
+        response: { messageKey: 'auth.REFRESH_TOKEN_ALREADY_ROTATED' },
+      });
+
+      expect(usersService.revokeSession).not.toHaveBeenCalled();
+      expect(securityAlertSender.sendAlert).not.toHaveBeenCalled();
+    });
+
+    it('should answer a conflict to a retry of a token rotated moments ago', async () => {
+      usersService.findSessionById.mockResolvedValue(buildSession());
+      cacheService.get.mockImplementation((key: string) =>
+        Promise.resolve(
+          key === 'auth:user:123:refreshToken:session123:previous'
+            ? sha256Hex('previous-jti')
+            : null,
+        ),
+      );
+
+      await expect(
+        service.refreshToken({
+          uid: '123',
+          ssid: 'session123',
+          jti: 'previous-jti',
+        }),
+      ).rejects.toMatchObject({ status: 409 });
+
+      expect(usersService.revokeSession).not.toHaveBeenCalled();
+      expect(securityAlertSender.sendAlert).not.toHaveBeenCalled();
+    });
+
+    it('should keep the rotated token for a short grace window', async () => {
+      usersService.findSessionById.mockResolvedValue(buildSession());
+      usersService.rotateSessionRefreshToken.mockResolvedValue(true);
+
+      await service.refreshToken({
+        uid: '123',
+        ssid: 'session123',
+        jti: 'current-jti',
+      });
+
+      expect(cacheService.set).toHaveBeenCalledWith(
+        'auth:user:123:refreshToken:session123:previous',
+        sha256Hex('current-jti'),
+        30,
+      );
+    });
+
+    it('should let sessions without a stored hash adopt rotation', async () => {
+      usersService.findSessionById.mockResolvedValue(
+        buildSession({ refreshTokenHash: null }),
+      );
+      usersService.rotateSessionRefreshToken.mockResolvedValue(true);
+
+      await service.refreshToken({ uid: '123', ssid: 'session123' });
+
+      expect(usersService.rotateSessionRefreshToken).toHaveBeenCalledWith(
+        'session123',
+        null,
+        expect.any(String),
+        expect.any(Date),
+      );
+    });
+
+    it('should reject revoked or expired sessions', async () => {
+      usersService.findSessionById.mockResolvedValue(
+        buildSession({ expiresAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(
+        service.refreshToken({
+          uid: '123',
+          ssid: 'session123',
+          jti: 'current-jti',
+        }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'user.SESSION_EXPIRED' },
+      });
+    });
+  });
+
+  describe('session revocation', () => {
+    const authPayload = { uid: '123', ssid: 'session123' };
+
+    it('should cut off the current session on logout', async () => {
+      await service.logout(authPayload);
+
+      expect(usersService.revokeSession).toHaveBeenCalledWith('session123');
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session123',
+      );
+    });
+
+    it('should cut off every session on logout-all', async () => {
+      await service.logoutAll(authPayload);
+
+      expect(usersService.revokeSessionsByUserId).toHaveBeenCalledWith(
+        '123',
+        undefined,
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session123',
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session456',
+      );
+    });
+
+    it('should sign out the other devices on password change', async () => {
+      usersService.findById.mockResolvedValue({
+        ...mockUser,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        password: await bcrypt.hash('oldpass1', 4),
+      } as User);
+
+      await service.updatePassword(authPayload, {
+        currentPassword: 'oldpass1',
+        newPassword: 'newpass1',
+        confirmPassword: 'newpass1',
+      });
+
+      expect(usersService.revokeSessionsByUserId).toHaveBeenCalledWith(
+        '123',
+        'session123',
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session456',
+      );
+      expect(cacheService.delete).not.toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session123',
+      );
+    });
+  });
+
+  describe('sessions API', () => {
+    const authPayload = { uid: '123', ssid: 'session123' };
+    const edgeOnWindows =
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0';
+
+    it('should list the sessions of the caller with device details', async () => {
+      const lastRefreshedAt = new Date();
+      usersService.findSessionsByUserId.mockResolvedValue({
+        result: [
+          buildSession({
+            userAgent: edgeOnWindows,
+            metadata: { country: 'VN', city: 'Hanoi' },
+          }),
+          buildSession({ id: 'session456', lastRefreshedAt }),
+        ],
+        metaData: { pageSize: 10 },
+      });
+      const paginationDto = { page: 1, limit: 10 };
+
+      const { result } = await service.getSessions(
+        authPayload,
+        paginationDto as never,
+      );
+
+      expect(usersService.findSessionsByUserId).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: '123' }),
+      );
+      expect(result[0]).toMatchObject({
+        id: 'session123',
+        device: {
+          type: 'desktop',
+          browser: 'Edge',
+          operatingSystem: 'Windows',
+          name: 'Edge on Windows',
+        },
+        location: { country: 'VN', city: 'Hanoi' },
+        isCurrent: true,
+      });
+      expect(result[1]).toMatchObject({
+        id: 'session456',
+        lastActiveAt: lastRefreshedAt,
+        isCurrent: false,
+      });
+    });
+
+    it('should revoke one session of the caller', async () => {
+      const result = await service.revokeSession(
+        buildSession({ id: 'session456' }),
+      );
+
+      expect(result.messageKey).toBe('auth.SESSION_REVOKED');
+      expect(usersService.revokeSession).toHaveBeenCalledWith('session456');
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session456',
+      );
+    });
+
+    it('should clear the token keys of the session owner', async () => {
+      await service.revokeSession(
+        buildSession({ id: 'session999', userId: '456' }),
+      );
+
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:456:accessToken:session999',
+      );
+    });
+
+    it('should revoke every session except the current one', async () => {
+      const result = await service.revokeOtherSessions(authPayload);
+
+      expect(result.messageKey).toBe('auth.OTHER_SESSIONS_REVOKED');
+      expect(usersService.revokeSessionsByUserId).toHaveBeenCalledWith(
+        '123',
+        'session123',
+      );
+      expect(cacheService.delete).not.toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session123',
+      );
+    });
+  });
+
+  describe('password reset', () => {
+    it('should store only the token hash and email the raw token', async () => {
+      await service.sendPasswordResetLink(mockUser);
+
+      const [, resetLink, ttlSeconds] =
+        passwordResetSender.sendResetLink.mock.calls[0];
+      const token = new URL(resetLink).searchParams.get('token') as string;
+      expect(cacheService.set).toHaveBeenCalledWith(
+        `auth:password-reset:${sha256Hex(token)}`,
+        expect.objectContaining({ userId: '123', email: 'test@example.com' }),
+        ttlSeconds,
+      );
+      expect(cacheService.set).toHaveBeenCalledWith(
+        'auth:user:123:passwordReset',
+        sha256Hex(token),
+        ttlSeconds,
+      );
+    });
+
+    it('should invalidate the previous link of the user', async () => {
+      cacheService.get.mockResolvedValueOnce('previous-hash');
+
+      await service.sendPasswordResetLink(mockUser);
+
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:password-reset:previous-hash',
+      );
+    });
+
+    it('should answer without waiting for the mail', async () => {
+      usersService.findOne.mockResolvedValue(mockUser);
+      passwordResetSender.sendResetLink.mockReturnValue(new Promise(() => {}));
+
+      const result = await service.forgotPassword({
+        email: 'test@example.com',
+      });
+
+      expect(result.messageKey).toBe('auth.PASSWORD_RESET_REQUESTED');
+    });
+
+    it('should answer the same way when the mail fails', async () => {
+      usersService.findOne.mockResolvedValue(mockUser);
+      passwordResetSender.sendResetLink.mockRejectedValue(new Error('smtp'));
+
+      await expect(
+        service.forgotPassword({ email: 'test@example.com' }),
+      ).resolves.toEqual(
+        expect.objectContaining({
+          messageKey: 'auth.PASSWORD_RESET_REQUESTED',
+        }),
+      );
+    });
+
+    it('should answer the same way for unknown emails', async () => {
+      usersService.findOne.mockResolvedValue(null);
+
+      const result = await service.forgotPassword({
+        email: 'nobody@example.com',
+      });
+
+      expect(result.messageKey).toBe('auth.PASSWORD_RESET_REQUESTED');
+      expect(passwordResetSender.sendResetLink).not.toHaveBeenCalled();
+      expect(cacheService.set).not.toHaveBeenCalled();
+    });
+
+    it('should set the password and revoke every session', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        createdAt: Date.now(),
+      });
+      usersService.findOne.mockResolvedValue(mockUser);
+
+      const result = await service.resetPassword({
+        token: 'reset-token',
+        newPassword: 'newpass1',
+        confirmPassword: 'newpass1',
+      });
+
+      expect(result.messageKey).toBe('auth.PASSWORD_RESET_SUCCESS');
+      expect(cacheService.getAndDelete).toHaveBeenCalledWith(
+        `auth:password-reset:${sha256Hex('reset-token')}`,
+      );
+      expect(usersService.setPassword).toHaveBeenCalledWith(
+        '123',
+        expect.any(String),
+      );
+      expect(usersService.revokeSessionsByUserId).toHaveBeenCalledWith(
+        '123',
+        undefined,
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session456',
+      );
+      expect(cacheService.deleteKeysByPrefix).toHaveBeenCalledWith(
+        'auth:user:123:',
+      );
+    });
+
+    it('should verify the email the reset link was sent to', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        email: 'test@example.com',
+        createdAt: Date.now(),
+      });
+      usersService.findOne.mockResolvedValue(
+        Object.assign(new User(), mockUser, { isEmailVerified: false }),
+      );
+
+      await service.resetPassword({
+        token: 'reset-token',
+        newPassword: 'newpass1',
+        confirmPassword: 'newpass1',
+      });
+
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith(
+        '123',
+        'test@example.com',
+      );
+    });
+
+    it('should reject a used or expired token', async () => {
+      cacheService.getAndDelete.mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword({
+          token: 'reset-token',
+          newPassword: 'newpass1',
+          confirmPassword: 'newpass1',
+        }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.PASSWORD_RESET_TOKEN_INVALID' },
+      });
+      expect(usersService.setPassword).not.toHaveBeenCalled();
+      expect(usersService.revokeSessionsByUserId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    const secret = generateTotpSecret();
+    const currentCode = () => generateTotpCode(secret, getTotpStep());
+    let redisSet: jest.Mock;
+
+    const challenge = {
+      code: '',
+      email: 'test@example.com',
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 60_000,
+      attempts: 0,
+      maxAttempts: 5,
+      isUsed: false,
+      requestId: 'req-1',
+      userId: '123',
+      authType: 'email_password' as const,
+    };
+
+    beforeEach(() => {
+      usersService.createSession.mockImplementation((dto) =>
+        Promise.resolve(buildSession({ ...dto, id: 'session123' })),
+      );
+      usersService.getTwoFactorSecret.mockResolvedValue(secret);
+      redisSet = jest.fn().mockResolvedValue('OK');
+      cacheService.getRedisClient.mockReturnValue({
+        publish: jest.fn(),
+        set: redisSet,
+      } as never);
+    });
+
+    it('should confirm enrollment with a valid code and return recovery codes', async () => {
+      cacheService.get.mockResolvedValueOnce(secret);
+
+      const result = await service.confirmTwoFactor(
+        { uid: '123', ssid: 'session123' },
+        { code: currentCode() },
+      );
+
+      const { recoveryCodes } = result.data as { recoveryCodes: string[] };
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toBe(10);
+      expect(usersService.enableTwoFactor).toHaveBeenCalledWith(
+        '123',
+        secret,
+        recoveryCodes.map((code) => sha256Hex(code.replace('-', ''))),
+      );
+    });
+
+    it('should complete an MFA challenge with a valid TOTP code', async () => {
+      otpStore.get.mockResolvedValue(challenge);
+      otpStore.markAsUsed.mockResolvedValue(true);
+
+      const result = await service.verifyTwoFactorLogin(
+        { mfaToken: 'mfa-token', code: currentCode() },
+        { ipAddress: '127.0.0.1', userAgent: 'jest' } as never,
+      );
+
+      expect(result.messageKey).toBe('user.LOGIN_SUCCESS');
+      expect(otpStore.markAsUsed).toHaveBeenCalledWith('mfa:login:mfa-token');
+      expect(usersService.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ authType: 'email_password' }),
+      );
+      expect(redisSet).toHaveBeenCalledWith(
+        expect.stringMatching(/^auth:2fa:used-step:123:\d+$/),
+        '1',
+        'EX',
+        90,
+        'NX',
+      );
+    });
+
+    it('should reject a replayed TOTP code', async () => {
+      otpStore.get.mockResolvedValue(challenge);
+      otpStore.incrementAttempts.mockResolvedValue({
+        ...challenge,
+        attempts: 1,
+      });
+      // The step was already claimed by an earlier login
+      redisSet.mockResolvedValueOnce(null);
+
+      await expect(
+        service.verifyTwoFactorLogin(
+          { mfaToken: 'mfa-token', code: currentCode() },
+          {} as never,
+        ),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.TWO_FACTOR_INVALID_CODE' },
+      });
+      expect(usersService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should accept a recovery code once', async () => {
+      otpStore.get.mockResolvedValue(challenge);
+      otpStore.markAsUsed.mockResolvedValue(true);
+      usersService.consumeRecoveryCode.mockResolvedValue(true);
+
+      await service.verifyTwoFactorLogin(
+        { mfaToken: 'mfa-token', code: 'abcde-fghij' },
+        {} as never,
+      );
+
+      expect(usersService.consumeRecoveryCode).toHaveBeenCalledWith(
+        '123',
+        sha256Hex('ABCDEFGHIJ'),
+      );
+    });
+
+    it('should drop the challenge after too many failures', async () => {
+      otpStore.get.mockResolvedValue(challenge);
+      otpStore.incrementAttempts.mockResolvedValue({
+        ...challenge,
+        attempts: 5,
+      });
+
+      await expect(
+        service.verifyTwoFactorLogin(
+          { mfaToken: 'mfa-token', code: '000000' },
+          {} as never,
+        ),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.OTP_MAX_ATTEMPTS_EXCEEDED' },
+      });
+      expect(otpStore.delete).toHaveBeenCalledWith('mfa:login:mfa-token');
+    });
+  });
+
+  describe('assertReauthenticated', () => {
+    const authPayload = { uid: '123', ssid: 'session123' };
+
+    it('should accept the current password', async () => {
+      usersService.findOne.mockResolvedValue({
+        ...mockUser,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        password: await bcrypt.hash('secret1', 4),
+      } as User);
+
+      await expect(
+        service.assertReauthenticated(authPayload, {
+          currentPassword: 'secret1',
+        }),
+      ).resolves.toBeUndefined();
+      expect(usersService.findOne).toHaveBeenCalledWith({ id: '123' });
+    });
+
+    it('should reject a wrong password', async () => {
+      usersService.findOne.mockResolvedValue({
+        ...mockUser,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+        password: await bcrypt.hash('secret1', 4),
+      } as User);
+
+      await expect(
+        service.assertReauthenticated(authPayload, {
+          currentPassword: 'wrong-password',
+        }),
+      ).rejects.toMatchObject({
+        status: 401,
+        response: { messageKey: 'user.INVALID_PASSWORD' },
+      });
+    });
+
+    it('should reject a code when 2FA is not enabled', async () => {
+      usersService.getTwoFactorSecret.mockResolvedValue(null);
+
+      await expect(
+        service.assertReauthenticated(authPayload, { code: '123456' }),
+      ).rejects.toMatchObject({
+        status: 401,
+        response: { messageKey: 'auth.TWO_FACTOR_INVALID_CODE' },
+      });
+    });
+
+    it('should reject a passkey of another user', async () => {
+      cacheService.get.mockResolvedValueOnce({
+        type: 'authentication',
+        createdAt: Date.now(),
+      });
+      usersService.findWebAuthnCredentialByCredentialId.mockResolvedValue({
+        id: '7',
+        userId: '456',
+        signCount: 4,
+      } as never);
+
+      await expect(
+        service.assertReauthenticated(authPayload, {
+          passkey: {
+            id: 'cred-1',
+            rawId: 'cred-1',
+            type: 'public-key',
+            response: {
+              clientDataJSON: Buffer.from(
+                JSON.stringify({ challenge: 'challenge' }),
+              ).toString('base64url'),
+              authenticatorData: 'auth-data',
+              signature: 'signature',
+            },
+          },
+        }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED' },
+      });
+      expect(webAuthnVerifier.verifyAuthentication).not.toHaveBeenCalled();
+    });
+
+    it('should require a factor', async () => {
+      await expect(
+        service.assertReauthenticated(authPayload, {}),
+      ).rejects.toMatchObject({
+        status: 401,
+        response: { messageKey: 'auth.REAUTHENTICATION_REQUIRED' },
+      });
+    });
+  });
+
+  describe('verifyWebAuthnLogin', () => {
+    const challenge = 'login-challenge';
+    const dto = {
+      id: 'cred-1',
+      rawId: 'cred-1',
+      type: 'public-key' as const,
+      response: {
+        clientDataJSON: Buffer.from(
+          JSON.stringify({ type: 'webauthn.get', challenge }),
+        ).toString('base64url'),
+        authenticatorData: 'auth-data',
+        signature: 'signature',
+      },
+    };
+    const credential = {
+      id: '7',
+      userId: '123',
+      credentialId: 'cred-1',
+      publicKey: 'cose-key',
+      signCount: 4,
+    };
+
+    beforeEach(() => {
+      cacheService.get.mockResolvedValueOnce({
+        type: 'authentication',
+        createdAt: Date.now(),
+      });
+      usersService.findWebAuthnCredentialByCredentialId.mockResolvedValue(
+        credential as never,
+      );
+      usersService.findOne.mockResolvedValue(mockUser);
+      usersService.updateWebAuthnCredentialCounter.mockResolvedValue(true);
+      usersService.createSession.mockImplementation((sessionDto) =>
+        Promise.resolve(buildSession({ ...sessionDto, id: 'session123' })),
+      );
+    });
+
+    it('should issue passkey tokens for a user-verified assertion', async () => {
+      webAuthnVerifier.verifyAuthentication.mockReturnValue({
+        signCount: 5,
+        userVerified: true,
+      });
+
+      const result = await service.verifyWebAuthnLogin(dto, {} as never);
+
+      expect(result.messageKey).toBe('auth.WEBAUTHN_LOGIN_SUCCESS');
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        `auth:webauthn:challenge:${challenge}`,
+      );
+      expect(usersService.updateWebAuthnCredentialCounter).toHaveBeenCalledWith(
+        '7',
+        4,
+        5,
+      );
+      expect(usersService.createSession).toHaveBeenCalledWith(
+        expect.objectContaining({ authType: 'passkey' }),
+      );
+    });
+
+    it('should still ask for TOTP when the user was not verified', async () => {
+      webAuthnVerifier.verifyAuthentication.mockReturnValue({
+        signCount: 5,
+        userVerified: false,
+      });
+      usersService.findOne.mockResolvedValue({
+        ...mockUser,
+        twoFactorEnabled: true,
+      } as User);
+
+      const result = await service.verifyWebAuthnLogin(dto, {} as never);
+
+      expect(result.messageKey).toBe('auth.MFA_REQUIRED');
+      expect(usersService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject when another assertion moved the counter first', async () => {
+      webAuthnVerifier.verifyAuthentication.mockReturnValue({
+        signCount: 5,
+        userVerified: true,
+      });
+      usersService.updateWebAuthnCredentialCounter.mockResolvedValue(false);
+
+      await expect(
+        service.verifyWebAuthnLogin(dto, {} as never),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED' },
+      });
+      expect(usersService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown or reused challenge', async () => {
+      cacheService.get.mockReset();
+      cacheService.get.mockResolvedValue(null);
+
+      await expect(
+        service.verifyWebAuthnLogin(dto, {} as never),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.WEBAUTHN_CHALLENGE_INVALID' },
+      });
+      expect(webAuthnVerifier.verifyAuthentication).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,29 +1,84 @@
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
 import { AdvancedPaginationDto, CursorPaginationDto } from 'src/common/dto';
 import { ClientInfo } from 'src/common/decorators';
 import { AuthPayload } from 'src/common/interface';
 import { buildResponse } from 'src/shared/helpers/build-response';
 import { CacheService } from 'src/shared/services';
+import { AuthType, USER_CONSTANTS } from 'src/shared/constants';
 import {
   CreateDeviceTokenDto,
   LoginDto,
+  OAuthLoginDto,
   RegisterDto,
   UpdatePasswordDto,
 } from 'src/users/dto';
 import { User } from 'src/users/entities';
 import { UsersService } from 'src/users/users.service';
-import { OtpRequestDto, OtpVerifyDto } from './dto';
-import { OtpData } from './interfaces';
+import {
+  ForgotPasswordDto,
+  OAuthCallbackDto,
+  OtpRequestDto,
+  OtpVerifyDto,
+  ReauthenticateDto,
+  ResetPasswordDto,
+  TwoFactorCodeDto,
+  TwoFactorVerifyDto,
+  WebAuthnLoginOptionsDto,
+  WebAuthnLoginVerifyDto,
+  WebAuthnRegisterVerifyDto,
+} from './dto';
+import {
+  OAuthAuthorizationState,
+  OAuthProfile,
+  OtpData,
+  PasswordResetState,
+  SessionView,
+  WebAuthnChallengeState,
+  WebAuthnExpectations,
+} from './interfaces';
 import {
   generateOtpCode,
   generateOtpRequestId,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotpSecret,
+  getDeviceName,
   maskEmail,
+  parseDurationSeconds,
+  parseUserAgent,
+  sha256Hex,
+  verifyTotpCode,
 } from 'src/common/utils';
+import { UserSession } from 'src/users/entities';
 
-import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import {
+  ConflictException,
+  forwardRef,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { JwtService } from '@nestjs/jwt';
-import { RedisOtpStore, MailerEmailOtpSender } from './providers';
+import {
+  RedisOtpStore,
+  MailerEmailOtpSender,
+  MailerPasswordResetSender,
+  MailerSecurityAlertSender,
+  OAuthProviderRegistry,
+  WEBAUTHN_ALGORITHMS,
+  WebAuthnVerifier,
+} from './providers';
+import { JwtKeyRingService } from './jwt-key-ring.service';
+import { LoginProtectionService } from './login-protection.service';
+import { LoginRiskService } from './login-risk.service';
+import { PermissionService } from './permission.service';
+import { SessionActivityService } from './session-activity.service';
+import { SessionRevocationService } from './session-revocation.service';
+import { VerificationService } from './verification.service';
 
 @Injectable()
 export class AuthService {
@@ -35,18 +90,56 @@ export class AuthService {
   private readonly MAX_ATTEMPTS = 5;
   private readonly OTP_PREFIX = 'otp:login:';
 
+  // Session token configuration constants
+  private readonly DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+  // A refresh token rotated this recently is a retry or a second tab
+  private readonly REFRESH_ROTATION_GRACE_SECONDS = 30;
+
+  // Two-factor configuration constants
+  private readonly MFA_CHALLENGE_PREFIX = 'mfa:login:';
+  private readonly MFA_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+  private readonly TWO_FACTOR_ENROLL_PREFIX = 'auth:2fa:enroll:';
+  private readonly TWO_FACTOR_ENROLL_TTL_SECONDS = 10 * 60; // 10 minutes
+  private readonly TWO_FACTOR_USED_STEP_PREFIX = 'auth:2fa:used-step:';
+  private readonly RECOVERY_CODE_COUNT = 10;
+
+  // OAuth configuration constants
+  private readonly OAUTH_STATE_PREFIX = 'auth:oauth:state:';
+
+  // Password reset configuration constants
+  private readonly PASSWORD_RESET_PREFIX = 'auth:password-reset:';
+
+  // WebAuthn configuration constants
+  private readonly WEBAUTHN_CHALLENGE_PREFIX = 'auth:webauthn:challenge:';
+  private readonly WEBAUTHN_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+
+  // Hash compared against when the email is unknown, see login()
+  private dummyPasswordHash?: Promise<string>;
+
   constructor(
     private readonly usersService: UsersService,
-    private readonly jwtService: JwtService,
+    private readonly keyRing: JwtKeyRingService,
+    private readonly sessionRevocation: SessionRevocationService,
+    private readonly sessionActivity: SessionActivityService,
+    private readonly permissionService: PermissionService,
     private readonly configService: ConfigService,
     private readonly cacheService: CacheService,
     private readonly otpStore: RedisOtpStore,
     private readonly emailOtpSender: MailerEmailOtpSender,
+    private readonly oauthProviders: OAuthProviderRegistry,
+    private readonly securityAlertSender: MailerSecurityAlertSender,
+    private readonly webAuthnVerifier: WebAuthnVerifier,
+    private readonly passwordResetSender: MailerPasswordResetSender,
+    @Inject(forwardRef(() => VerificationService))
+    private readonly verificationService: VerificationService,
+    private readonly loginProtection: LoginProtectionService,
+    private readonly loginRisk: LoginRiskService,
   ) {}
 
   async register(registerDto: RegisterDto, clientInfo: ClientInfo) {
     const user = await this.usersService.register(registerDto);
     const token = await this.generateToken(user, clientInfo);
+    await this.verificationService.sendWelcomeVerification(user);
     return buildResponse({
       messageKey: 'user.REGISTER_SUCCESS',
       data: {
@@ -56,103 +149,99 @@ export class AuthService {
     });
   }
 
+  /**
+   * Sign in with email and password
+   * Unknown emails and wrong passwords fail with the same error, after the
+   * same bcrypt work, so the response does not reveal which accounts exist.
+   * Failures feed the per-account and per-IP brute-force counters.
+   */
   async login(loginDto: LoginDto, clientInfo: ClientInfo) {
+    await this.loginProtection.assertLoginAllowed(
+      loginDto.email,
+      clientInfo.ipAddress,
+    );
+
     const user = await this.usersService.findOne({
       email: loginDto.email,
     });
-    if (!user) {
-      throw new HttpException(
-        { messageKey: 'user.USER_NOT_FOUND' },
-        HttpStatus.NOT_FOUND,
-      );
-    }
 
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-    const isPasswordValid = await bcrypt.compare(
+    const isPasswordValid: boolean = await bcrypt.compare(
       loginDto.password,
-      user.password,
+      user?.password || (await this.getDummyPasswordHash()),
     );
 
-    if (!isPasswordValid) {
-      throw new HttpException(
-        { messageKey: 'user.INVALID_PASSWORD' },
-        HttpStatus.UNAUTHORIZED,
+    if (!user || !isPasswordValid) {
+      await this.loginProtection.recordFailure(
+        loginDto.email,
+        user,
+        clientInfo.ipAddress,
       );
+      throw new UnauthorizedException({
+        messageKey: 'auth.INVALID_CREDENTIALS',
+      });
     }
-    return buildResponse({
-      messageKey: 'user.LOGIN_SUCCESS',
-      data: {
-        user,
-        token: await this.generateToken(user, clientInfo),
-      },
-    });
+
+    await this.loginProtection.recordSuccess(loginDto.email);
+    return this.completeLogin(
+      user,
+      clientInfo,
+      USER_CONSTANTS.AUTH_TYPES.EMAIL_PASSWORD,
+      'user.LOGIN_SUCCESS',
+    );
   }
 
   async generateToken(
     user: User,
     clientInfo: ClientInfo,
+    authType: AuthType = USER_CONSTANTS.AUTH_TYPES.EMAIL_PASSWORD,
   ): Promise<{ accessToken: string; refreshToken: string }> {
+    this.assertAccountActive(user);
     const { id, uuid } = user;
-    const accessTokenExpiresIn =
-      this.configService.get<string>('app.jwt.accessTokenExpiresIn') || '1h';
-    const refreshTokenExpiresIn =
-      this.configService.get<string>('app.jwt.refreshTokenExpiresIn') || '7d';
+    const refreshTokenId = this.generateRefreshTokenId();
+    const risk = await this.loginRisk.assess(id, clientInfo);
+    const now = new Date();
+    const expiresAt = this.sessionActivity.getExpiresAt(now, now);
 
     const session = await this.usersService.createSession({
       userId: id,
-      metadata: { ...clientInfo, uuid },
+      metadata: {
+        ...clientInfo,
+        uuid,
+        deviceFingerprint: risk.deviceFingerprint,
+        risk: { score: risk.score, level: risk.level, reasons: risk.reasons },
+      },
       ipAddress: clientInfo.ipAddress || 'unknown',
       userAgent: clientInfo.userAgent || 'unknown',
-      expiresAt: new Date(Date.now() + 60 * 60 * 24 * 7 * 1000),
-    }); // 7 days in seconds
+      expiresAt,
+      lastActiveAt: now,
+      authType,
+      refreshTokenHash: sha256Hex(refreshTokenId),
+    });
 
-    const [accessToken, refreshToken] = await Promise.all([
-      this.jwtService.sign(
-        { uid: id, ssid: session.id, role: user.role },
-        {
-          expiresIn: accessTokenExpiresIn,
-          algorithm: 'HS256',
-        },
-      ),
-      this.jwtService.sign(
-        { uid: id, ssid: session.id },
-        {
-          expiresIn: refreshTokenExpiresIn,
-          algorithm: 'HS512',
-        },
-      ),
-    ]);
-    await Promise.all([
-      this.cacheService.set(
-        `auth:user:${id}:accessToken:${session.id}`,
-        id,
-        60 * 60, // 1 hour in seconds
-      ),
-      this.cacheService.set(
-        `auth:user:${id}:refreshToken:${session.id}`,
-        id,
-        60 * 60 * 24 * 7, // 7 days in seconds
-      ),
-    ]);
+    // Not awaited, the email and push must not delay the sign-in response
+    void this.loginRisk.alertIfRisky(user, session, risk);
 
-    return { accessToken, refreshToken };
+    return this.issueSessionTokens(
+      user,
+      session,
+      refreshTokenId,
+      Math.floor((expiresAt.getTime() - now.getTime()) / 1000),
+    );
   }
 
   async logout(authPayload: AuthPayload) {
-    await Promise.all([
-      this.usersService.revokeSession(authPayload.ssid),
-      this.cacheService.deleteKeysBySuffix(`*${authPayload.ssid}`),
-    ]);
+    await this.sessionRevocation.revokeSession(
+      authPayload.uid,
+      authPayload.ssid,
+    );
     return buildResponse({
       messageKey: 'user.LOGOUT_SUCCESS',
     });
   }
 
   async logoutAll(authPayload: AuthPayload) {
-    await Promise.all([
-      this.usersService.revokeSessionsByUserId(authPayload.uid),
-      this.cacheService.deleteKeysBySuffix(`auth:user:${authPayload.uid}:*`),
-    ]);
+    await this.sessionRevocation.revokeAllSessions(authPayload.uid);
     return buildResponse({
       messageKey: 'user.LOGOUT_ALL_DEVICES_SUCCESS',
     });
@@ -188,14 +277,228 @@ export class AuthService {
       // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
       password: hashedPassword,
     });
+    // Sign out every other device, the current session stays signed in
+    await this.sessionRevocation.revokeAllSessions(
+      authPayload.uid,
+      authPayload.ssid,
+    );
     return buildResponse({
       messageKey: 'user.PASSWORD_UPDATED_SUCCESS',
     });
   }
 
+  /**
+   * Make the user prove they are present before a sensitive account change
+   * One factor is enough: the current password, a TOTP or recovery code, or
+   * a user-verified passkey assertion for one of their own credentials
+   * @param authPayload - Authenticated user
+   * @param dto - Factor given by the user
+   * @throws HttpException 401 when no factor is given or it does not match
+   */
+  async assertReauthenticated(
+    authPayload: AuthPayload,
+    dto: ReauthenticateDto,
+  ): Promise<void> {
+    if (dto.currentPassword) {
+      const user = await this.usersService.findOne({ id: authPayload.uid });
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+      const isPasswordValid: boolean = await bcrypt.compare(
+        dto.currentPassword,
+        user?.password || (await this.getDummyPasswordHash()),
+      );
+      if (!user?.password || !isPasswordValid) {
+        throw new HttpException(
+          { messageKey: 'user.INVALID_PASSWORD' },
+          HttpStatus.UNAUTHORIZED,
+        );
+      }
+      return;
+    }
+
+    if (dto.code) {
+      const secret = await this.usersService.getTwoFactorSecret(
+        authPayload.uid,
+      );
+      if (
+        !secret ||
+        !(await this.verifySecondFactor(authPayload.uid, secret, dto.code))
+      ) {
+        throw new HttpException(
+          { messageKey: 'auth.TWO_FACTOR_INVALID_CODE' },
+          HttpStatus.UNAUTHORIZED,
+        );
+      }
+      return;
+    }
+
+    if (dto.passkey) {
+      const expected = await this.consumeWebAuthnChallenge(
+        dto.passkey.response.clientDataJSON,
+        'authentication',
+      );
+      const credential =
+        await this.usersService.findWebAuthnCredentialByCredentialId(
+          dto.passkey.rawId,
+        );
+      if (!credential || credential.userId !== authPayload.uid) {
+        throw new UnauthorizedException({
+          messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED',
+        });
+      }
+
+      const verified = this.webAuthnVerifier.verifyAuthentication(
+        dto.passkey.response,
+        credential,
+        expected.expectations,
+      );
+      const updated = await this.usersService.updateWebAuthnCredentialCounter(
+        credential.id,
+        credential.signCount,
+        verified.signCount,
+      );
+      // Without user verification the assertion only proves possession
+      if (!updated || !verified.userVerified) {
+        throw new UnauthorizedException({
+          messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED',
+        });
+      }
+      return;
+    }
+
+    throw new UnauthorizedException({
+      messageKey: 'auth.REAUTHENTICATION_REQUIRED',
+    });
+  }
+
+  /**
+   * Send a password reset link
+   * The response is the same whether or not the email belongs to an
+   * account, so the endpoint cannot be used to discover users
+   * @param dto - Email of the account
+   */
+  async forgotPassword(dto: ForgotPasswordDto) {
+    const user = await this.usersService.findOne({ email: dto.email });
+
+    if (user) {
+      // Not awaited, waiting for the mail would make known emails slower
+      this.sendPasswordResetLink(user).catch((error) =>
+        this.logger.error(
+          `Failed to send password reset link to user ${user.id}:`,
+          error,
+        ),
+      );
+      this.logger.log(`Password reset requested for user ${user.id}`);
+    }
+
+    return buildResponse({
+      messageKey: 'auth.PASSWORD_RESET_REQUESTED',
+    });
+  }
+
+  /**
+   * Email a single-use password reset link, invalidating any earlier link
+   * @param user - User to send the link to
+   */
+  async sendPasswordResetLink(user: User): Promise<void> {
+    const ttlSeconds = this.getPasswordResetTtlSeconds();
+    const token = randomBytes(32).toString('base64url');
+    const tokenHash = sha256Hex(token);
+    const userKey = `auth:user:${user.id}:passwordReset`;
+
+    // Only the latest link stays valid
+    const previousHash = await this.cacheService.get<string>(userKey);
+    if (previousHash) {
+      await this.cacheService.delete(
+        `${this.PASSWORD_RESET_PREFIX}${previousHash}`,
+      );
+    }
+
+    const state: PasswordResetState = {
+      userId: user.id,
+      email: user.email,
+      createdAt: Date.now(),
+    };
+    await Promise.all([
+      this.cacheService.set(
+        `${this.PASSWORD_RESET_PREFIX}${tokenHash}`,
+        state,
+        ttlSeconds,
+      ),
+      this.cacheService.set(userKey, tokenHash, ttlSeconds),
+    ]);
+
+    const resetUrl = new URL(
+      this.configService.get<string>('app.passwordReset.url') ||
+        'http://localhost:3000/reset-password',
+    );
+    resetUrl.searchParams.set('token', token);
+    await this.passwordResetSender.sendResetLink(
+      { email: user.email, name: user.name },
+      resetUrl.toString(),
+      ttlSeconds,
+    );
+  }
+
+  /**
+   * Set a new password with a reset token
+   * The token is single-use; on success every session of the user is
+   * revoked and their cached tokens are dropped
+   * @param dto - Reset token and new password
+   */
+  async resetPassword(dto: ResetPasswordDto) {
+    const state = await this.cacheService.getAndDelete<PasswordResetState>(
+      `${this.PASSWORD_RESET_PREFIX}${sha256Hex(dto.token)}`,
+    );
+    const user = state
+      ? await this.usersService.findOne({ id: state.userId })
+      : null;
+    if (!state || !user) {
+      throw new HttpException(
+        { messageKey: 'auth.PASSWORD_RESET_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    const hashedPassword: string = await bcrypt.hash(dto.newPassword, 10);
+    await this.usersService.setPassword(user.id, hashedPassword);
+    await Promise.all([
+      this.sessionRevocation.revokeAllSessions(user.id),
+      this.cacheService.deleteKeysByPrefix(`auth:user:${user.id}:`),
+      // Resetting proves ownership of the email, lift any login lockout
+      this.loginProtection.clearForUser(user),
+      ...(state.email && !user.isEmailVerified
+        ? [this.usersService.markEmailVerified(user.id, state.email)]
+        : []),
+    ]);
+
+    this.logger.log(`Password reset completed for user ${user.id}`);
+    await this.securityAlertSender.sendAlert(
+      { email: user.email, name: user.name },
+      {
+        title: 'Your password was changed',
+        message:
+          'The password of your account was reset and all devices were signed out. If you did not do this, contact support immediately.',
+        details: [{ label: 'Time', value: new Date().toISOString() }],
+      },
+    );
+
+    return buildResponse({
+      messageKey: 'auth.PASSWORD_RESET_SUCCESS',
+    });
+  }
+
+  /**
+   * Rotate the refresh token of a session
+   * Every refresh issues a new refresh token and invalidates the presented one.
+   * Presenting a refresh token that was already rotated is treated as theft:
+   * the whole session is revoked and the user is notified. Losing the race
+   * to a concurrent refresh of the same token, or retrying it within a few
+   * seconds, is a conflict instead.
+   * @param authPayload - Verified refresh token payload
+   * @returns New access and refresh tokens
+   */
   async refreshToken(authPayload: AuthPayload) {
-    const accessTokenExpiresIn =
-      this.configService.get<string>('app.jwt.accessTokenExpiresIn') || '1h';
     const session = await this.usersService.findSessionById(authPayload.ssid);
 
     if (!session || session.isExpired() || !session.isValid()) {
@@ -204,23 +507,57 @@ export class AuthService {
         HttpStatus.UNAUTHORIZED,
       );
     }
-    const user = await this.usersService.findById(session.userId);
-    const accessToken = await this.jwtService.signAsync(
-      { uid: session.userId, ssid: session.id, role: user.role },
-      {
-        expiresIn: accessTokenExpiresIn,
-        algorithm: 'HS256',
-      },
+
+    // Sessions created before rotation have no hash and adopt it on first refresh
+    const presentedHash = authPayload.jti ? sha256Hex(authPayload.jti) : null;
+    if (
+      session.refreshTokenHash &&
+      session.refreshTokenHash !== presentedHash
+    ) {
+      const recentlyRotated = await this.cacheService.get<string>(
+        `auth:user:${session.userId}:refreshToken:${session.id}:previous`,
+      );
+      if (presentedHash && recentlyRotated === presentedHash) {
+        this.throwRefreshConflict();
+      }
+      return this.handleRefreshTokenReuse(session);
+    }
+
+    // Each refresh slides the idle deadline, never past the absolute lifetime
+    const expiresAt = this.sessionActivity.getExpiresAt(session.createdAt);
+    const refreshTokenId = this.generateRefreshTokenId();
+    const rotated = await this.usersService.rotateSessionRefreshToken(
+      session.id,
+      session.refreshTokenHash,
+      sha256Hex(refreshTokenId),
+      expiresAt,
     );
-    await this.cacheService.set(
-      `auth:user:${session.userId}:accessToken:${session.id}`,
-      accessToken,
-      60 * 60, // 1 hour in seconds
+    if (!rotated) {
+      // Another request rotated the same token first, two tabs or a retry
+      this.throwRefreshConflict();
+    }
+    if (presentedHash) {
+      await this.cacheService.set(
+        `auth:user:${session.userId}:refreshToken:${session.id}:previous`,
+        presentedHash,
+        this.REFRESH_ROTATION_GRACE_SECONDS,
+      );
+    }
+
+    const remainingSeconds = Math.floor(
+      (expiresAt.getTime() - Date.now()) / 1000,
     );
+    const user = await this.usersService.findById(session.userId);
+    this.assertAccountActive(user);
+    const token = await this.issueSessionTokens(
+      user,
+      session,
+      refreshTokenId,
+      Math.max(remainingSeconds, 1),
+    );
+
     return buildResponse({
-      data: {
-        accessToken,
-      },
+      data: token,
       messageKey: 'user.ACCESS_TOKEN_REFRESHED_SUCCESS',
     });
   }
@@ -235,16 +572,100 @@ export class AuthService {
     );
   }
 
-  async getSessions(paginationDto: AdvancedPaginationDto) {
-    return await this.usersService.findSessionsByUserId(paginationDto);
+  async getSessions(
+    authPayload: AuthPayload,
+    paginationDto: AdvancedPaginationDto,
+  ) {
+    Object.assign(paginationDto, { userId: authPayload.uid });
+    const { result, metaData } =
+      await this.usersService.findSessionsByUserId(paginationDto);
+    return {
+      result: result.map((session) => this.toSessionView(session, authPayload)),
+      metaData,
+    };
+  }
+
+  async getSessionsCursor(
+    authPayload: AuthPayload,
+    paginationDto: CursorPaginationDto,
+  ) {
+    Object.assign(paginationDto, { userId: authPayload.uid });
+    const { result, metaData } =
+      await this.usersService.findSessionsByUserIdCursor(paginationDto);
+    return {
+      result: result.map((session) => this.toSessionView(session, authPayload)),
+      metaData,
+    };
+  }
+
+  /**
+   * @param authPayload - Authenticated user
+   * @param session - Session authorized by `SessionPolicy`
+   */
+  getSessionById(authPayload: AuthPayload, session: UserSession) {
+    return this.toSessionView(session, authPayload);
+  }
+
+  /**
+   * Sign one session out, the caller's own or, with `sessions:delete:any`,
+   * one of another user
+   * Revoking the current session works like logout
+   * @param session - Session authorized by `SessionPolicy`
+   */
+  async revokeSession(session: UserSession) {
+    await this.sessionRevocation.revokeSession(session.userId, session.id);
+    return buildResponse({ messageKey: 'auth.SESSION_REVOKED' });
   }
 
-  async getSessionsCursor(paginationDto: CursorPaginationDto) {
-    return await this.usersService.findSessionsByUserIdCursor(paginationDto);
+  /**
+   * Sign every session of the authenticated user out except the current one
+   * @param authPayload - Authenticated user
+   */
+  async revokeOtherSessions(authPayload: AuthPayload) {
+    await this.sessionRevocation.revokeAllSessions(
+      authPayload.uid,
+      authPayload.ssid,
+    );
+    return buildResponse({ messageKey: 'auth.OTHER_SESSIONS_REVOKED' });
   }
 
-  async getSessionById(id: string) {
-    return await this.usersService.findSessionById(id);
+  /**
+   * The device is parsed again from the user agent, the metadata of older
+   * sessions was written by a parser that mistook Edge for Chrome and
+   * Android for Linux
+   */
+  private toSessionView(
+    session: UserSession,
+    authPayload: AuthPayload,
+  ): SessionView {
+    const device = parseUserAgent(session.userAgent);
+    const metadata = session.metadata ?? {};
+    const toLocation = (value: unknown) =>
+      typeof value === 'string' && value ? value : null;
+
+    return {
+      id: session.id,
+      authType: session.authType,
+      ipAddress:
+        session.ipAddress && session.ipAddress !== 'unknown'
+          ? session.ipAddress
+          : null,
+      device: {
+        type: device.deviceType,
+        browser: device.browser,
+        operatingSystem: device.operatingSystem,
+        name: getDeviceName(device),
+      },
+      location: {
+        country: toLocation(metadata.country),
+        city: toLocation(metadata.city),
+      },
+      createdAt: session.createdAt,
+      lastActiveAt:
+        session.lastActiveAt ?? session.lastRefreshedAt ?? session.createdAt,
+      expiresAt: session.expiresAt ?? null,
+      isCurrent: session.id === authPayload.ssid,
+    };
   }
 
   /**
@@ -454,16 +875,13 @@ export class AuthService {
         );
       }
 
-      // Generate JWT tokens (reuse existing logic)
-      const token = await this.generateToken(user, clientInfo);
-
-      return buildResponse({
-        messageKey: 'auth.OTP_LOGIN_SUCCESS',
-        data: {
-          user,
-          token,
-        },
-      });
+      // Generate JWT tokens, or an MFA challenge when 2FA is enabled
+      return await this.completeLogin(
+        user,
+        clientInfo,
+        USER_CONSTANTS.AUTH_TYPES.EMAIL_PASSWORD,
+        'auth.OTP_LOGIN_SUCCESS',
+      );
     } catch (error) {
       if (error instanceof HttpException) {
         throw error;
@@ -482,6 +900,1013 @@ export class AuthService {
     }
   }
 
+  /**
+   * Login with a provider access token or ID token
+   * @param provider - Provider name from the route
+   * @param oauthLoginDto - Tokens obtained by the client SDK
+   * @param clientInfo - Client information
+   * @returns Login result with JWT tokens
+   */
+  async oauthLogin(
+    provider: string,
+    oauthLoginDto: OAuthLoginDto,
+    clientInfo: ClientInfo,
+  ) {
+    const strategy = this.oauthProviders.get(provider);
+    const profile = await strategy.verify(
+      {
+        accessToken: oauthLoginDto.accessToken,
+        idToken: oauthLoginDto.idToken,
+      },
+      oauthLoginDto.nonce,
+    );
+
+    // The client-supplied subject is only a hint and must match the token
+    if (oauthLoginDto.oauthId && oauthLoginDto.oauthId !== profile.providerId) {
+      throw new HttpException(
+        { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    return this.completeOAuthLogin(
+      { ...profile, name: profile.name ?? oauthLoginDto.name },
+      clientInfo,
+    );
+  }
+
+  /**
+   * Start the authorization-code + PKCE flow
+   * @param provider - Provider name from the route
+   * @returns Provider authorization URL and the state bound to it
+   */
+  async getOAuthAuthorizationUrl(provider: string) {
+    const strategy = this.oauthProviders.get(provider);
+    const redirectUri =
+      strategy.getConfig().redirectUri ||
+      this.configService.get<string>('oauth.defaultRedirectUri');
+    if (!redirectUri) {
+      throw new HttpException(
+        {
+          messageKey: 'auth.OAUTH_PROVIDER_NOT_SUPPORTED',
+          messageArgs: { provider },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const ttlSeconds =
+      this.configService.get<number>('oauth.stateTtlSeconds') || 600;
+    const state = randomBytes(32).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const nonce = randomBytes(16).toString('base64url');
+    const codeChallenge = createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    const authorizationState: OAuthAuthorizationState = {
+      provider: strategy.name(),
+      codeVerifier,
+      redirectUri,
+      nonce,
+      createdAt: Date.now(),
+    };
+    await this.cacheService.set(
+      `${this.OAUTH_STATE_PREFIX}${state}`,
+      authorizationState,
+      ttlSeconds,
+    );
+
+    return buildResponse({
+      messageKey: 'auth.OAUTH_AUTHORIZATION_URL_CREATED',
+      data: {
+        authorizationUrl: strategy.buildAuthorizationUrl({
+          state,
+          codeChallenge,
+          redirectUri,
+          nonce,
+        }),
+        state,
+        expiresInSec: ttlSeconds,
+      },
+    });
+  }
+
+  /**
+   * Complete the authorization-code + PKCE flow
+   * @param provider - Provider name from the route
+   * @param callbackDto - Code and state returned by the provider
+   * @param clientInfo - Client information
+   * @returns Login result with JWT tokens
+   */
+  async handleOAuthCallback(
+    provider: string,
+    callbackDto: OAuthCallbackDto,
+    clientInfo: ClientInfo,
+  ) {
+    const strategy = this.oauthProviders.get(provider);
+    const stateKey = `${this.OAUTH_STATE_PREFIX}${callbackDto.state}`;
+    // State is single-use, whatever the outcome
+    const authorizationState =
+      await this.cacheService.getAndDelete<OAuthAuthorizationState>(stateKey);
+
+    if (
+      !authorizationState ||
+      authorizationState.provider !== strategy.name()
+    ) {
+      throw new HttpException(
+        { messageKey: 'auth.OAUTH_STATE_INVALID' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    if (callbackDto.error || !callbackDto.code) {
+      this.logger.warn(
+        `OAuth ${provider} callback returned error: ${callbackDto.error}`,
+      );
+      throw new HttpException(
+        { messageKey: 'auth.OAUTH_PROVIDER_ERROR' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const tokens = await strategy.exchangeCode(
+      callbackDto.code,
+      authorizationState.codeVerifier,
+      authorizationState.redirectUri,
+    );
+    const profile = await strategy.verify(tokens, authorizationState.nonce);
+
+    return this.completeOAuthLogin(profile, clientInfo);
+  }
+
+  /**
+   * Get providers that are configured and can be used for login
+   * @returns Enabled provider names
+   */
+  getOAuthProviders() {
+    return buildResponse({
+      data: { providers: this.oauthProviders.getEnabledProviders() },
+    });
+  }
+
+  /**
+   * Find or create the user for a verified identity and issue tokens
+   * @param profile - Verified provider identity
+   * @param clientInfo - Client information
+   * @returns Login result with JWT tokens
+   */
+  private async completeOAuthLogin(
+    profile: OAuthProfile,
+    clientInfo: ClientInfo,
+  ) {
+    const user = await this.usersService.findOrCreateOAuthUser(profile);
+
+    this.logger.log(
+      `OAuth login succeeded for user ${user.id} via ${profile.provider}`,
+    );
+
+    return this.completeLogin(
+      user,
+      clientInfo,
+      USER_CONSTANTS.AUTH_TYPES.OAUTH,
+      'auth.OAUTH_LOGIN_SUCCESS',
+    );
+  }
+
+  /**
+   * Start TOTP enrollment
+   * The secret is kept in cache until the user confirms it with a valid code
+   * @param authPayload - Authenticated user
+   * @returns Secret, otpauth URI and the QR code payload
+   */
+  async enrollTwoFactor(authPayload: AuthPayload) {
+    const user = await this.usersService.findById(authPayload.uid);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException({
+        messageKey: 'auth.TWO_FACTOR_ALREADY_ENABLED',
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await this.cacheService.set(
+      `${this.TWO_FACTOR_ENROLL_PREFIX}${user.id}`,
+      secret,
+      this.TWO_FACTOR_ENROLL_TTL_SECONDS,
+    );
+
+    const issuer =
+      this.configService.get<string>('app.twoFactor.issuer') || 'NestJS App';
+    const otpauthUri = buildOtpAuthUri(
+      secret,
+      user.email || user.username,
+      issuer,
+    );
+
+    return buildResponse({
+      messageKey: 'auth.TWO_FACTOR_ENROLLMENT_STARTED',
+      data: {
+        secret,
+        otpauthUri,
+        qrPayload: otpauthUri,
+        expiresInSec: this.TWO_FACTOR_ENROLL_TTL_SECONDS,
+      },
+    });
+  }
+
+  /**
+   * Confirm TOTP enrollment and issue recovery codes
+   * @param authPayload - Authenticated user
+   * @param dto - Code from the authenticator app
+   * @returns Recovery codes, shown only once
+   */
+  async confirmTwoFactor(authPayload: AuthPayload, dto: TwoFactorCodeDto) {
+    const enrollKey = `${this.TWO_FACTOR_ENROLL_PREFIX}${authPayload.uid}`;
+    const secret = await this.cacheService.get<string>(enrollKey);
+    if (!secret) {
+      throw new HttpException(
+        { messageKey: 'auth.TWO_FACTOR_ENROLLMENT_NOT_FOUND' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (!(await this.acceptTotpCode(authPayload.uid, secret, dto.code))) {
+      throw new HttpException(
+        { messageKey: 'auth.TWO_FACTOR_INVALID_CODE' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersService.enableTwoFactor(
+      authPayload.uid,
+      secret,
+      recoveryCodes.map((code) => this.hashRecoveryCode(code)),
+    );
+    await this.cacheService.delete(enrollKey);
+
+    this.logger.log(`2FA enabled for user ${authPayload.uid}`);
+
+    return buildResponse({
+      messageKey: 'auth.TWO_FACTOR_ENABLED',
+      data: { recoveryCodes },
+    });
+  }
+
+  /**
+   * Disable TOTP 2FA
+   * @param authPayload - Authenticated user
+   * @param dto - Current TOTP code or a recovery code
+   */
+  async disableTwoFactor(authPayload: AuthPayload, dto: TwoFactorCodeDto) {
+    const secret = await this.usersService.getTwoFactorSecret(authPayload.uid);
+    if (!secret) {
+      throw new HttpException(
+        { messageKey: 'auth.TWO_FACTOR_NOT_ENABLED' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (!(await this.verifySecondFactor(authPayload.uid, secret, dto.code))) {
+      throw new HttpException(
+        { messageKey: 'auth.TWO_FACTOR_INVALID_CODE' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    await this.usersService.disableTwoFactor(authPayload.uid);
+    this.logger.log(`2FA disabled for user ${authPayload.uid}`);
+
+    return buildResponse({
+      messageKey: 'auth.TWO_FACTOR_DISABLED',
+    });
+  }
+
+  /**
+   * Complete a login that is waiting for the second factor
+   * Challenge attempts are tracked the same way as email OTP attempts
+   * @param dto - MFA token from the first step and a TOTP or recovery code
+   * @param clientInfo - Client information
+   * @returns Login result with JWT tokens
+   */
+  async verifyTwoFactorLogin(dto: TwoFactorVerifyDto, clientInfo: ClientInfo) {
+    const storeKey = `${this.MFA_CHALLENGE_PREFIX}${dto.mfaToken}`;
+    const challenge = await this.otpStore.get(storeKey);
+
+    if (!challenge?.userId || challenge.isUsed) {
+      throw new HttpException(
+        { messageKey: 'auth.MFA_CHALLENGE_NOT_FOUND' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    if (challenge.attempts >= challenge.maxAttempts) {
+      await this.otpStore.delete(storeKey);
+      throw new HttpException(
+        { messageKey: 'auth.OTP_MAX_ATTEMPTS_EXCEEDED' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const secret = await this.usersService.getTwoFactorSecret(challenge.userId);
+    const isValid =
+      !!secret &&
+      (await this.verifySecondFactor(challenge.userId, secret, dto.code));
+
+    if (!isValid) {
+      const updated = await this.otpStore.incrementAttempts(storeKey);
+      const remainingAttempts = updated
+        ? updated.maxAttempts - updated.attempts
+        : 0;
+      if (remainingAttempts <= 0) {
+        await this.otpStore.delete(storeKey);
+        throw new HttpException(
+          { messageKey: 'auth.OTP_MAX_ATTEMPTS_EXCEEDED' },
+          HttpStatus.UNAUTHORIZED,
+        );
+      }
+      throw new HttpException(
+        { messageKey: 'auth.TWO_FACTOR_INVALID_CODE', remainingAttempts },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    // A challenge can only be completed once
+    if (!(await this.otpStore.markAsUsed(storeKey))) {
+      throw new HttpException(
+        { messageKey: 'auth.MFA_CHALLENGE_NOT_FOUND' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const user = await this.usersService.findById(challenge.userId);
+    const token = await this.generateToken(
+      user,
+      clientInfo,
+      challenge.authType,
+    );
+
+    return buildResponse({
+      messageKey: 'user.LOGIN_SUCCESS',
+      data: {
+        user,
+        token,
+      },
+    });
+  }
+
+  /**
+   * Start passkey registration for the authenticated user
+   * @param authPayload - Authenticated user
+   * @returns PublicKeyCredentialCreationOptions for the browser
+   */
+  async getWebAuthnRegistrationOptions(authPayload: AuthPayload) {
+    const user = await this.usersService.findById(authPayload.uid);
+    const credentials = await this.usersService.findWebAuthnCredentialsByUserId(
+      user.id,
+    );
+    const challenge = await this.createWebAuthnChallenge({
+      type: 'registration',
+      userId: user.id,
+      createdAt: Date.now(),
+    });
+    const { rpId, rpName } = this.getWebAuthnConfig();
+
+    return buildResponse({
+      messageKey: 'auth.WEBAUTHN_OPTIONS_CREATED',
+      data: {
+        challenge,
+        rp: { id: rpId, name: rpName },
+        user: {
+          id: Buffer.from(user.uuid).toString('base64url'),
+          name: user.email || user.username,
+          displayName: user.name || user.email || user.username,
+        },
+        pubKeyCredParams: Object.values(WEBAUTHN_ALGORITHMS).map((alg) => ({
+          type: 'public-key',
+          alg,
+        })),
+        excludeCredentials: credentials.map((credential) => ({
+          type: 'public-key',
+          id: credential.credentialId,
+          transports: credential.transports ?? undefined,
+        })),
+        authenticatorSelection: {
+          residentKey: 'preferred',
+          userVerification: 'preferred',
+        },
+        attestation: 'none',
+        timeout: this.WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000,
+      },
+    });
+  }
+
+  /**
+   * Finish passkey registration and store the credential
+   * @param authPayload - Authenticated user
+   * @param dto - Attestation response from the browser
+   * @returns The stored credential
+   */
+  async verifyWebAuthnRegistration(
+    authPayload: AuthPayload,
+    dto: WebAuthnRegisterVerifyDto,
+  ) {
+    const expected = await this.consumeWebAuthnChallenge(
+      dto.response.clientDataJSON,
+      'registration',
+    );
+    if (!expected.state.userId || expected.state.userId !== authPayload.uid) {
+      throw new HttpException(
+        { messageKey: 'auth.WEBAUTHN_CHALLENGE_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const verified = this.webAuthnVerifier.verifyRegistration(
+      {
+        rawId: dto.rawId,
+        clientDataJSON: dto.response.clientDataJSON,
+        attestationObject: dto.response.attestationObject,
+      },
+      expected.expectations,
+    );
+
+    const credential = await this.usersService.createWebAuthnCredential({
+      userId: authPayload.uid,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      aaguid: verified.aaguid,
+      transports: dto.response.transports ?? null,
+      nickname: dto.nickname ?? null,
+    });
+
+    this.logger.log(`Passkey registered for user ${authPayload.uid}`);
+
+    return buildResponse({
+      messageKey: 'auth.WEBAUTHN_REGISTERED',
+      data: credential,
+    });
+  }
+
+  /**
+   * Start passkey login
+   * Unknown emails get the same response shape as known ones, with an
+   * empty allow list, so the endpoint cannot be used to probe accounts
+   * @param dto - Optional email to narrow the allowed credentials
+   * @returns PublicKeyCredentialRequestOptions for the browser
+   */
+  async getWebAuthnLoginOptions(dto: WebAuthnLoginOptionsDto) {
+    let allowCredentials: {
+      type: string;
+      id: string;
+      transports?: string[];
+    }[] = [];
+
+    if (dto.email) {
+      const user = await this.usersService.findOne({ email: dto.email });
+      if (user) {
+        const credentials =
+          await this.usersService.findWebAuthnCredentialsByUserId(user.id);
+        allowCredentials = credentials.map((credential) => ({
+          type: 'public-key',
+          id: credential.credentialId,
+          transports: credential.transports ?? undefined,
+        }));
+      }
+    }
+
+    const challenge = await this.createWebAuthnChallenge({
+      type: 'authentication',
+      createdAt: Date.now(),
+    });
+
+    return buildResponse({
+      messageKey: 'auth.WEBAUTHN_OPTIONS_CREATED',
+      data: {
+        challenge,
+        rpId: this.getWebAuthnConfig().rpId,
+        allowCredentials,
+        userVerification: 'preferred',
+        timeout: this.WEBAUTHN_CHALLENGE_TTL_SECONDS * 1000,
+      },
+    });
+  }
+
+  /**
+   * Finish passkey login
+   * A user-verified assertion (biometrics / PIN) already combines two
+   * factors, so it skips the TOTP step; otherwise the regular 2FA flow
+   * applies
+   * @param dto - Assertion response from the browser
+   * @param clientInfo - Client information
+   * @returns Login result with JWT tokens, or an MFA challenge
+   */
+  async verifyWebAuthnLogin(
+    dto: WebAuthnLoginVerifyDto,
+    clientInfo: ClientInfo,
+  ) {
+    const expected = await this.consumeWebAuthnChallenge(
+      dto.response.clientDataJSON,
+      'authentication',
+    );
+
+    const credential =
+      await this.usersService.findWebAuthnCredentialByCredentialId(dto.rawId);
+    if (!credential) {
+      throw new UnauthorizedException({
+        messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED',
+      });
+    }
+
+    const verified = this.webAuthnVerifier.verifyAuthentication(
+      dto.response,
+      credential,
+      expected.expectations,
+    );
+
+    const updated = await this.usersService.updateWebAuthnCredentialCounter(
+      credential.id,
+      credential.signCount,
+      verified.signCount,
+    );
+    if (!updated) {
+      // Another assertion was accepted in the meantime
+      throw new UnauthorizedException({
+        messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED',
+      });
+    }
+
+    const user = await this.usersService.findOne({ id: credential.userId });
+    if (!user) {
+      throw new UnauthorizedException({
+        messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED',
+      });
+    }
+
+    this.logger.log(`Passkey login succeeded for user ${user.id}`);
+
+    if (!verified.userVerified) {
+      return this.completeLogin(
+        user,
+        clientInfo,
+        USER_CONSTANTS.AUTH_TYPES.PASSKEY,
+        'auth.WEBAUTHN_LOGIN_SUCCESS',
+      );
+    }
+
+    const token = await this.generateToken(
+      user,
+      clientInfo,
+      USER_CONSTANTS.AUTH_TYPES.PASSKEY,
+    );
+    return buildResponse({
+      messageKey: 'auth.WEBAUTHN_LOGIN_SUCCESS',
+      data: {
+        user,
+        token,
+      },
+    });
+  }
+
+  /**
+   * List passkeys registered by the authenticated user
+   * @param authPayload - Authenticated user
+   */
+  async listWebAuthnCredentials(authPayload: AuthPayload) {
+    const credentials = await this.usersService.findWebAuthnCredentialsByUserId(
+      authPayload.uid,
+    );
+    return buildResponse({ data: credentials });
+  }
+
+  /**
+   * Delete a passkey of the authenticated user
+   * @param authPayload - Authenticated user
+   * @param id - Credential row ID
+   */
+  async deleteWebAuthnCredential(authPayload: AuthPayload, id: string) {
+    await this.usersService.deleteWebAuthnCredential(authPayload.uid, id);
+    return buildResponse({ messageKey: 'auth.WEBAUTHN_CREDENTIAL_DELETED' });
+  }
+
+  /**
+   * Issue a random challenge and remember which ceremony it belongs to
+   * @param state - Ceremony state
+   * @returns Base64url challenge
+   */
+  private async createWebAuthnChallenge(
+    state: WebAuthnChallengeState,
+  ): Promise<string> {
+    const challenge = randomBytes(32).toString('base64url');
+    await this.cacheService.set(
+      `${this.WEBAUTHN_CHALLENGE_PREFIX}${challenge}`,
+      state,
+      this.WEBAUTHN_CHALLENGE_TTL_SECONDS,
+    );
+    return challenge;
+  }
+
+  /**
+   * Look up and drop the challenge echoed in the client data
+   * The verifier still compares the challenge against the signed client
+   * data, this lookup only proves the server issued it
+   * @param clientDataJSON - Base64url client data from the browser
+   * @param type - Expected ceremony
+   */
+  private async consumeWebAuthnChallenge(
+    clientDataJSON: string,
+    type: WebAuthnChallengeState['type'],
+  ): Promise<{
+    state: WebAuthnChallengeState;
+    expectations: WebAuthnExpectations;
+  }> {
+    let challenge: unknown;
+    try {
+      challenge = (
+        JSON.parse(
+          Buffer.from(clientDataJSON, 'base64url').toString('utf8'),
+        ) as {
+          challenge?: unknown;
+        }
+      ).challenge;
+    } catch {
+      challenge = undefined;
+    }
+
+    const key =
+      typeof challenge === 'string' && challenge
+        ? `${this.WEBAUTHN_CHALLENGE_PREFIX}${challenge}`
+        : null;
+    const state = key
+      ? await this.cacheService.get<WebAuthnChallengeState>(key)
+      : null;
+
+    // Challenges are single-use, whatever the outcome
+    if (key) {
+      await this.cacheService.delete(key);
+    }
+
+    if (!state || state.type !== type || typeof challenge !== 'string') {
+      throw new HttpException(
+        { messageKey: 'auth.WEBAUTHN_CHALLENGE_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const { rpId, origins } = this.getWebAuthnConfig();
+    return { state, expectations: { challenge, rpId, origins } };
+  }
+
+  private getDummyPasswordHash(): Promise<string> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    this.dummyPasswordHash ??= bcrypt.hash(randomBytes(16).toString('hex'), 10);
+    return this.dummyPasswordHash!;
+  }
+
+  private getPasswordResetTtlSeconds(): number {
+    return (
+      this.configService.get<number>('app.passwordReset.ttlSeconds') || 60 * 60
+    );
+  }
+
+  private getWebAuthnConfig() {
+    return {
+      rpId: this.configService.get<string>('app.webauthn.rpId') || 'localhost',
+      rpName:
+        this.configService.get<string>('app.webauthn.rpName') || 'NestJS App',
+      origins: this.configService.get<string[]>('app.webauthn.origins') || [
+        'http://localhost:3000',
+      ],
+    };
+  }
+
+  /**
+   * Issue tokens after the first factor, or an MFA challenge when the
+   * user has 2FA enabled
+   * @param user - Authenticated user
+   * @param clientInfo - Client information
+   * @param authType - First factor used
+   * @param messageKey - Success message for a direct login
+   */
+  private async completeLogin(
+    user: User,
+    clientInfo: ClientInfo,
+    authType: AuthType,
+    messageKey: string,
+  ) {
+    this.assertAccountActive(user);
+    if (user.twoFactorEnabled) {
+      return this.createMfaChallenge(user, authType);
+    }
+
+    const token = await this.generateToken(user, clientInfo, authType);
+    return buildResponse({
+      messageKey,
+      data: {
+        user,
+        token,
+      },
+    });
+  }
+
+  /**
+   * Store a short-lived MFA challenge and return its opaque token
+   * @param user - User who passed the first factor
+   * @param authType - First factor used
+   */
+  private async createMfaChallenge(user: User, authType: AuthType) {
+    const mfaToken = randomBytes(32).toString('base64url');
+    const now = Date.now();
+
+    await this.otpStore.set(
+      `${this.MFA_CHALLENGE_PREFIX}${mfaToken}`,
+      {
+        code: '',
+        email: user.email,
+        createdAt: now,
+        expiresAt: now + this.MFA_CHALLENGE_TTL_SECONDS * 1000,
+        attempts: 0,
+        maxAttempts: this.MAX_ATTEMPTS,
+        isUsed: false,
+        requestId: generateOtpRequestId(),
+        userId: user.id,
+        authType,
+      },
+      this.MFA_CHALLENGE_TTL_SECONDS,
+    );
+
+    return buildResponse({
+      messageKey: 'auth.MFA_REQUIRED',
+      data: {
+        mfaRequired: true,
+        mfaToken,
+        expiresInSec: this.MFA_CHALLENGE_TTL_SECONDS,
+      },
+    });
+  }
+
+  /**
+   * Verify a TOTP code, falling back to a recovery code
+   * @param userId - User ID
+   * @param secret - User TOTP secret
+   * @param code - Code entered by the user
+   */
+  private async verifySecondFactor(
+    userId: string,
+    secret: string,
+    code: string,
+  ): Promise<boolean> {
+    const trimmed = code.trim();
+    if (/^\d{6}$/.test(trimmed)) {
+      return this.acceptTotpCode(userId, secret, trimmed);
+    }
+
+    const consumed = await this.usersService.consumeRecoveryCode(
+      userId,
+      this.hashRecoveryCode(trimmed),
+    );
+    if (consumed) {
+      const remaining =
+        await this.usersService.countRemainingRecoveryCodes(userId);
+      this.logger.warn(
+        `Recovery code used by user ${userId}, ${remaining} remaining`,
+      );
+    }
+    return consumed;
+  }
+
+  /**
+   * Verify a TOTP code and reject replays of an already used time step
+   * @param userId - User ID
+   * @param secret - TOTP secret
+   * @param code - 6 digit code
+   */
+  private async acceptTotpCode(
+    userId: string,
+    secret: string,
+    code: string,
+  ): Promise<boolean> {
+    const step = verifyTotpCode(secret, code.trim());
+    if (step === null) {
+      return false;
+    }
+
+    // Claim the step in one command, so concurrent requests cannot both
+    // use it. Steps older than the drift window are never accepted again
+    const claimed = await this.cacheService
+      .getRedisClient()
+      .set(
+        `${this.TWO_FACTOR_USED_STEP_PREFIX}${userId}:${step}`,
+        '1',
+        'EX',
+        3 * 30,
+        'NX',
+      );
+    return claimed === 'OK';
+  }
+
+  /**
+   * Generate one-time recovery codes formatted as XXXXX-XXXXX
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = base32Encode(randomBytes(7)).slice(0, 10);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash a recovery code, ignoring case and separators
+   * @param code - Recovery code as typed by the user
+   */
+  private hashRecoveryCode(code: string): string {
+    return sha256Hex(code.toUpperCase().replace(/[^A-Z2-7]/g, ''));
+  }
+
+  /**
+   * Start a time-boxed session in which an admin acts as a user
+   * Only an access token is issued, it carries the `impersonatorId` claim
+   * and the session cannot be refreshed or outlive `ttlSeconds`
+   * @param user - User to impersonate
+   * @param impersonatorId - Admin starting the session
+   * @param ttlSeconds - Lifetime of the session
+   * @param clientInfo - Client information of the admin
+   */
+  async createImpersonationSession(
+    user: User,
+    impersonatorId: string,
+    ttlSeconds: number,
+    clientInfo: ClientInfo,
+  ): Promise<{ accessToken: string; sessionId: string; expiresAt: Date }> {
+    this.assertAccountActive(user);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+
+    const session = await this.usersService.createSession({
+      userId: user.id,
+      metadata: { ...clientInfo, impersonatorId },
+      ipAddress: clientInfo.ipAddress || 'unknown',
+      userAgent: clientInfo.userAgent || 'unknown',
+      expiresAt,
+      lastActiveAt: now,
+      authType: USER_CONSTANTS.AUTH_TYPES.IMPERSONATION,
+    });
+
+    const accessToken = await this.keyRing.sign(
+      {
+        uid: user.id,
+        ssid: session.id,
+        typ: USER_CONSTANTS.TOKEN_TYPES.ACCESS,
+        role: user.role,
+        pv: await this.permissionService.getVersion(),
+        impersonatorId,
+      },
+      { expiresIn: ttlSeconds },
+    );
+    await this.cacheService.set(
+      `auth:user:${user.id}:accessToken:${session.id}`,
+      user.id,
+      ttlSeconds,
+    );
+
+    return { accessToken, sessionId: session.id, expiresAt };
+  }
+
+  /**
+   * Refuse to sign in suspended and banned accounts
+   * @param user - User about to get tokens
+   */
+  private assertAccountActive(user: User): void {
+    if (user.status === USER_CONSTANTS.STATUS.SUSPENDED) {
+      throw new HttpException(
+        { messageKey: 'auth.ACCOUNT_SUSPENDED' },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    if (user.status === USER_CONSTANTS.STATUS.REMOVED) {
+      throw new HttpException(
+        { messageKey: 'auth.ACCOUNT_BANNED' },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+
+  /**
+   * Sign the access and refresh token pair for a session and mark both
+   * as live in cache
+   * @param user - Session owner
+   * @param session - Session the tokens belong to
+   * @param refreshTokenId - jti of the refresh token, its hash is on the session
+   * @param refreshTtlSeconds - Refresh token lifetime in seconds
+   * @returns Access and refresh tokens
+   */
+  private async issueSessionTokens(
+    user: User,
+    session: UserSession,
+    refreshTokenId: string,
+    refreshTtlSeconds: number,
+  ): Promise<{ accessToken: string; refreshToken: string }> {
+    // The cache entry must live exactly as long as the token it backs
+    const accessTtlSeconds =
+      parseDurationSeconds(
+        this.configService.get<string>('app.jwt.accessTokenExpiresIn'),
+      ) ?? this.DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+
+    const permissionsVersion = await this.permissionService.getVersion();
+    const [accessToken, refreshToken] = await Promise.all([
+      this.keyRing.sign(
+        {
+          uid: user.id,
+          ssid: session.id,
+          typ: USER_CONSTANTS.TOKEN_TYPES.ACCESS,
+          role: user.role,
+          pv: permissionsVersion,
+          ...(session.activeOrgId && { oid: session.activeOrgId }),
+        },
+        { expiresIn: accessTtlSeconds },
+      ),
+      this.keyRing.sign(
+        {
+          uid: user.id,
+          ssid: session.id,
+          typ: USER_CONSTANTS.TOKEN_TYPES.REFRESH,
+          jti: refreshTokenId,
+        },
+        { expiresIn: refreshTtlSeconds },
+      ),
+    ]);
+    await Promise.all([
+      this.cacheService.set(
+        `auth:user:${user.id}:accessToken:${session.id}`,
+        user.id,
+        accessTtlSeconds,
+      ),
+      this.cacheService.set(
+        `auth:user:${user.id}:refreshToken:${session.id}`,
+        sha256Hex(refreshTokenId),
+        refreshTtlSeconds,
+      ),
+    ]);
+
+    return { accessToken, refreshToken };
+  }
+
+  /**
+   * Refuse a refresh that lost to a concurrent one, the client keeps the
+   * tokens the other request received
+   */
+  private throwRefreshConflict(): never {
+    throw new HttpException(
+      { messageKey: 'auth.REFRESH_TOKEN_ALREADY_ROTATED' },
+      HttpStatus.CONFLICT,
+    );
+  }
+
+  /**
+   * Generate a random refresh token ID (jti)
+   */
+  private generateRefreshTokenId(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Revoke a session whose refresh token was replayed and alert the owner
+   * @param session - Session the replayed token belongs to
+   * @throws UnauthorizedException always
+   */
+  private async handleRefreshTokenReuse(session: UserSession): Promise<never> {
+    this.logger.warn(
+      `Refresh token reuse detected for session ${session.id}, user ${session.userId}`,
+    );
+
+    await this.sessionRevocation.revokeSession(session.userId, session.id);
+
+    const user = await this.usersService.findById(session.userId);
+    if (user?.email) {
+      await this.securityAlertSender.sendAlert(
+        { email: user.email, name: user.name },
+        {
+          title: 'Suspicious sign-in activity',
+          message:
+            'A refresh token for one of your sessions was used more than once. ' +
+            'We signed that session out to protect your account. If this was ' +
+            'not you, change your password now.',
+          details: [
+            { label: 'Device', value: session.userAgent || 'unknown' },
+            { label: 'IP address', value: session.ipAddress || 'unknown' },
+            { label: 'Detected at', value: new Date().toISOString() },
+          ],
+        },
+      );
+    }
+
+    throw new UnauthorizedException({
+      messageKey: 'auth.REFRESH_TOKEN_REUSED',
+    });
+  }
+
   /**
    * Get store key for OTP data
    * @param email - User email address
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO for unlocking an account with the token from the unlock email
+ */
+export class AccountUnlockDto {
+  @IsNotEmpty({ message: 'Token is required' })
+  @IsString({ message: 'Token must be a string' })
+  @MaxLength(128, { message: 'Token must not exceed 128 characters' })
+  token: string;
+}
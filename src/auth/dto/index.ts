@@ -1,2 +1,12 @@
+export * from './account-unlock.dto';
 export * from './otp-request.dto';
 export * from './otp-verify.dto';
+export * from './oauth-callback.dto';
+export * from './password-reset.dto';
+export * from './reauthenticate.dto';
+export * from './sign-in-report.dto';
+export * from './two-factor.dto';
+export * from './verification.dto';
+export * from './webauthn.dto';
+export * from './user-admin.dto';
+export * from './role.dto';
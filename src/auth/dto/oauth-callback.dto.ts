@@ -0,0 +1,19 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+/**
+ * DTO for the OAuth authorization-code callback
+ * Sent by the provider redirect after the user consents
+ */
+export class OAuthCallbackDto {
+  @IsOptional()
+  @IsString({ message: 'Authorization code must be a string' })
+  code?: string;
+
+  @IsNotEmpty({ message: 'State is required' })
+  @IsString({ message: 'State must be a string' })
+  state: string;
+
+  @IsOptional()
+  @IsString({ message: 'Error must be a string' })
+  error?: string;
+}
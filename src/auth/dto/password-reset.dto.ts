@@ -0,0 +1,50 @@
+import { Transform } from 'class-transformer';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  IsStrongPassword,
+  MaxLength,
+} from 'class-validator';
+import { Match } from 'src/common/decorators/match.decorator';
+import { USER_CONSTANTS } from 'src/shared/constants';
+
+/**
+ * DTO for requesting a password reset link
+ */
+export class ForgotPasswordDto {
+  @IsNotEmpty({ message: 'Email is required' })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @MaxLength(USER_CONSTANTS.EMAIL_MAX_LENGTH, {
+    message: `Email must not exceed ${USER_CONSTANTS.EMAIL_MAX_LENGTH} characters`,
+  })
+  email: string;
+}
+
+/**
+ * DTO for setting a new password with a reset token
+ */
+export class ResetPasswordDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(128)
+  token: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @IsStrongPassword({
+    minLength: 5,
+    minNumbers: 1,
+    minLowercase: 1,
+    minUppercase: 0,
+    minSymbols: 0,
+  })
+  @MaxLength(20)
+  newPassword: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @Transform(({ value }: { value: string }) => value.trim())
+  @Match('newPassword')
+  confirmPassword: string;
+}
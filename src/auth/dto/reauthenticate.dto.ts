@@ -0,0 +1,32 @@
+import { Type } from 'class-transformer';
+import {
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { WebAuthnLoginVerifyDto } from './webauthn.dto';
+
+/**
+ * Proof that the user is present, required by sensitive account changes
+ * One factor is enough: the current password, a TOTP or recovery code, or
+ * a passkey assertion answering a challenge from `webauthn/login/options`
+ */
+export class ReauthenticateDto {
+  @IsOptional()
+  @IsString({ message: 'Current password must be a string' })
+  @MaxLength(128, {
+    message: 'Current password must not exceed 128 characters',
+  })
+  currentPassword?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Code must be a string' })
+  @MaxLength(32, { message: 'Code must not exceed 32 characters' })
+  code?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WebAuthnLoginVerifyDto)
+  passkey?: WebAuthnLoginVerifyDto;
+}
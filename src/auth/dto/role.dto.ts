@@ -0,0 +1,51 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+const PERMISSION_PATTERN = /^(\*|[a-z0-9-]+(:([a-z0-9-]+|\*))*)$/;
+
+/**
+ * DTO for editing the description, parents and permissions of a role
+ */
+export class UpdateRoleDto {
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(255, { message: 'Description must not exceed 255 characters' })
+  description?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'Inherits must be an array' })
+  @ArrayMaxSize(20, { message: 'A role can inherit at most 20 roles' })
+  @Matches(ROLE_NAME_PATTERN, {
+    each: true,
+    message: 'Inherited role names are invalid',
+  })
+  inherits?: string[];
+
+  @IsOptional()
+  @IsArray({ message: 'Permissions must be an array' })
+  @ArrayMaxSize(200, { message: 'A role can have at most 200 permissions' })
+  @Matches(PERMISSION_PATTERN, {
+    each: true,
+    message: 'Permissions must look like resource:action[:scope]',
+  })
+  permissions?: string[];
+}
+
+/**
+ * DTO for creating a custom role
+ */
+export class CreateRoleDto extends UpdateRoleDto {
+  @Matches(ROLE_NAME_PATTERN, {
+    message:
+      'Role name must start with a letter and contain only lowercase letters, digits, - and _',
+  })
+  @MaxLength(50, { message: 'Role name must not exceed 50 characters' })
+  name: string;
+}
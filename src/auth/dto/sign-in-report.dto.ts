@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO for reporting an unrecognized sign-in with the token from the alert
+ */
+export class SignInReportDto {
+  @IsNotEmpty({ message: 'Token is required' })
+  @IsString({ message: 'Token must be a string' })
+  @MaxLength(128, { message: 'Token must not exceed 128 characters' })
+  token: string;
+}
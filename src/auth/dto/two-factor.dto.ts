@@ -0,0 +1,23 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO carrying a TOTP code or a recovery code
+ * Used to confirm enrollment and to disable 2FA
+ */
+export class TwoFactorCodeDto {
+  @IsNotEmpty({ message: 'Code is required' })
+  @IsString({ message: 'Code must be a string' })
+  @MaxLength(32, { message: 'Code must not exceed 32 characters' })
+  code: string;
+}
+
+/**
+ * DTO for completing a login that requires 2FA
+ * The MFA token is returned by the first login step
+ */
+export class TwoFactorVerifyDto extends TwoFactorCodeDto {
+  @IsNotEmpty({ message: 'MFA token is required' })
+  @IsString({ message: 'MFA token must be a string' })
+  @MaxLength(128, { message: 'MFA token must not exceed 128 characters' })
+  mfaToken: string;
+}
@@ -0,0 +1,51 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { USER_CONSTANTS, UserStatus } from 'src/shared/constants';
+
+/**
+ * DTO for admin actions that only need a justification
+ */
+export class AdminActionDto {
+  @IsNotEmpty({ message: 'Reason is required' })
+  @IsString({ message: 'Reason must be a string' })
+  @MaxLength(500, { message: 'Reason must not exceed 500 characters' })
+  reason: string;
+}
+
+/**
+ * DTO for activating, suspending or banning (`removed`) a user
+ */
+export class UpdateUserStatusDto extends AdminActionDto {
+  @IsIn(Object.values(USER_CONSTANTS.STATUS), {
+    message: 'Status is not supported',
+  })
+  status: UserStatus;
+}
+
+/**
+ * DTO for changing the role of a user, any role in `roles` can be given
+ */
+export class UpdateUserRoleDto extends AdminActionDto {
+  @IsString({ message: 'Role must be a string' })
+  @MaxLength(50, { message: 'Role must not exceed 50 characters' })
+  role: string;
+}
+
+/**
+ * DTO for starting an impersonation session
+ */
+export class ImpersonateUserDto extends AdminActionDto {
+  @IsOptional()
+  @IsInt({ message: 'Duration must be an integer' })
+  @Min(1, { message: 'Duration must be at least 1 minute' })
+  @Max(60, { message: 'Duration must not exceed 60 minutes' })
+  durationMinutes?: number;
+}
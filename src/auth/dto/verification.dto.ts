@@ -0,0 +1,44 @@
+import { Transform } from 'class-transformer';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  Length,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { USER_CONSTANTS } from 'src/shared/constants';
+import { ReauthenticateDto } from './reauthenticate.dto';
+
+/**
+ * DTO for confirming an email address with the token from the link
+ */
+export class ConfirmEmailVerificationDto {
+  @IsNotEmpty({ message: 'Token is required' })
+  @IsString({ message: 'Token must be a string' })
+  @MaxLength(128, { message: 'Token must not exceed 128 characters' })
+  token: string;
+}
+
+/**
+ * DTO for moving the account to another email address
+ * The user re-authenticates with one of the factors of ReauthenticateDto
+ */
+export class RequestEmailChangeDto extends ReauthenticateDto {
+  @IsNotEmpty({ message: 'Email is required' })
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  @Transform(({ value }: { value: string }) => value.toLowerCase().trim())
+  @MaxLength(USER_CONSTANTS.EMAIL_MAX_LENGTH)
+  email: string;
+}
+
+/**
+ * DTO for confirming a phone number with the code sent by SMS
+ */
+export class ConfirmPhoneVerificationDto {
+  @IsNotEmpty({ message: 'Code is required' })
+  @IsString({ message: 'Code must be a string' })
+  @Length(6, 6, { message: 'Code must be exactly 6 digits' })
+  @Matches(/^\d{6}$/, { message: 'Code must contain only digits' })
+  code: string;
+}
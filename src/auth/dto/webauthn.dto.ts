@@ -0,0 +1,113 @@
+import {
+  IsArray,
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { USER_CONSTANTS } from 'src/shared/constants';
+
+/**
+ * Attestation response returned by `navigator.credentials.create()`
+ * Binary fields are base64url encoded by the client
+ */
+export class WebAuthnAttestationResponseDto {
+  @IsNotEmpty()
+  @IsString()
+  clientDataJSON: string;
+
+  @IsNotEmpty()
+  @IsString()
+  attestationObject: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  transports?: string[];
+}
+
+/**
+ * Assertion response returned by `navigator.credentials.get()`
+ * Binary fields are base64url encoded by the client
+ */
+export class WebAuthnAssertionResponseDto {
+  @IsNotEmpty()
+  @IsString()
+  clientDataJSON: string;
+
+  @IsNotEmpty()
+  @IsString()
+  authenticatorData: string;
+
+  @IsNotEmpty()
+  @IsString()
+  signature: string;
+
+  @IsOptional()
+  @IsString()
+  userHandle?: string;
+}
+
+/**
+ * DTO for finishing passkey registration
+ */
+export class WebAuthnRegisterVerifyDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(USER_CONSTANTS.WEBAUTHN_CREDENTIAL_ID_MAX_LENGTH)
+  id: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(USER_CONSTANTS.WEBAUTHN_CREDENTIAL_ID_MAX_LENGTH)
+  rawId: string;
+
+  @IsIn(['public-key'])
+  type: string;
+
+  @ValidateNested()
+  @Type(() => WebAuthnAttestationResponseDto)
+  response: WebAuthnAttestationResponseDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(USER_CONSTANTS.WEBAUTHN_NICKNAME_MAX_LENGTH)
+  nickname?: string;
+}
+
+/**
+ * DTO for requesting passkey login options
+ * Without an email the client should use a discoverable credential
+ */
+export class WebAuthnLoginOptionsDto {
+  @IsOptional()
+  @IsEmail()
+  @MaxLength(USER_CONSTANTS.EMAIL_MAX_LENGTH)
+  email?: string;
+}
+
+/**
+ * DTO for finishing passkey login
+ */
+export class WebAuthnLoginVerifyDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(USER_CONSTANTS.WEBAUTHN_CREDENTIAL_ID_MAX_LENGTH)
+  id: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(USER_CONSTANTS.WEBAUTHN_CREDENTIAL_ID_MAX_LENGTH)
+  rawId: string;
+
+  @IsIn(['public-key'])
+  type: string;
+
+  @ValidateNested()
+  @Type(() => WebAuthnAssertionResponseDto)
+  response: WebAuthnAssertionResponseDto;
+}
@@ -0,0 +1,41 @@
+import { instanceToPlain } from 'class-transformer';
+import { AdminAction } from 'src/shared/constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Append-only record of an admin acting on a user account
+ */
+@Entity({
+  name: 'admin_audit_logs',
+})
+@Index(['targetUserId', 'createdAt'])
+export class AdminAuditLog extends BaseEntityCustom {
+  // Admin who performed the action, also while impersonating a user
+  @Index()
+  @Column('bigint')
+  actorId: string;
+
+  @Column('bigint')
+  targetUserId: string;
+
+  @Column('varchar', { length: 50 })
+  action: AdminAction;
+
+  // Justification given by the admin, required for every action
+  // Requests made while impersonating store the request line instead
+  @Column({ type: 'text' })
+  reason: string;
+
+  // Action specific details, e.g. previous and new status
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any> | null;
+
+  @Column({ type: 'text', nullable: true })
+  ipAddress: string | null;
+
+  toJSON() {
+    const plain = instanceToPlain(this);
+    return plain;
+  }
+}
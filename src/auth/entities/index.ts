@@ -0,0 +1,3 @@
+export * from './jwt-signing-key.entity';
+export * from './admin-audit-log.entity';
+export * from './role.entity';
@@ -0,0 +1,46 @@
+import { Exclude, instanceToPlain } from 'class-transformer';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+import { JwtKeyAlgorithm } from '../interfaces';
+
+@Entity({
+  name: 'jwt_signing_keys',
+})
+export class JwtSigningKey extends BaseEntityCustom {
+  // Key ID put in the `kid` header of every token signed with this key
+  @Index({ unique: true })
+  @Column('varchar', { length: 64 })
+  kid: string;
+
+  @Column('varchar', { length: 10 })
+  algorithm: JwtKeyAlgorithm;
+
+  // SPKI PEM, published through the JWKS endpoint
+  @Column({ type: 'text' })
+  publicKey: string;
+
+  // PKCS#8 PEM sealed with AES-256-GCM under a key derived from JWT_SECRET
+  @Exclude()
+  @Column({ type: 'text' })
+  privateKey: string;
+
+  // Set when a newer key takes over signing
+  @Column({ type: 'timestamp', nullable: true })
+  retiredAt: Date | null;
+
+  // Tokens signed with a retired key are accepted until then
+  @Index()
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  toJSON() {
+    const plain = instanceToPlain(this);
+    delete plain.privateKey;
+    return plain;
+  }
+
+  isActive(): boolean {
+    return !this.retiredAt;
+  }
+}
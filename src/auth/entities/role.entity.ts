@@ -0,0 +1,36 @@
+import { instanceToPlain } from 'class-transformer';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Named set of permissions assigned to users through `User.role`
+ * A role also gets every permission of the roles it inherits from
+ */
+@Entity({
+  name: 'roles',
+})
+export class Role extends BaseEntityCustom {
+  @Index({ unique: true })
+  @Column('varchar', { length: 50 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  // Names of the roles whose permissions this role inherits
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  inherits: string[];
+
+  // Permission strings, e.g. `media:delete:any` (see `PERMISSIONS`)
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  permissions: string[];
+
+  // Built-in roles cannot be deleted
+  @Column({ type: 'boolean', default: false })
+  isSystem: boolean;
+
+  toJSON() {
+    const plain = instanceToPlain(this);
+    return plain;
+  }
+}
@@ -0,0 +1,86 @@
+import 'reflect-metadata';
+import { ExecutionContext } from '@nestjs/common';
+import { AuthPayload } from 'src/common/interface';
+import { JwtAccessTokenGuard } from './jwt-access-token.guard';
+import { JwtRefreshTokenGuard } from './jwt-refresh-token.guard';
+
+describe('session token guards', () => {
+  const accessToken: AuthPayload = {
+    uid: '1',
+    ssid: 's1',
+    typ: 'access',
+    role: 'user',
+  };
+  const refreshToken: AuthPayload = {
+    uid: '1',
+    ssid: 's1',
+    typ: 'refresh',
+    jti: 'refresh-id',
+  };
+
+  // The token string is ignored, the key ring returns the payload under test
+  const buildGuard = <T>(
+    Guard: new (...args: never[]) => T,
+    payload: AuthPayload,
+  ): T =>
+    new Guard(
+      undefined as never,
+      { getTtl: jest.fn().mockResolvedValue(60) } as never,
+      undefined as never,
+      { verify: jest.fn().mockResolvedValue(payload) } as never,
+      { checkSession: jest.fn().mockResolvedValue('active') } as never,
+      { recordActivity: jest.fn() } as never,
+    );
+
+  const buildContext = () =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: { authorization: 'Bearer token' } }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  it('should accept an access token as a bearer token', async () => {
+    await expect(
+      buildGuard(JwtAccessTokenGuard, accessToken).canActivate(buildContext()),
+    ).resolves.toBe(true);
+  });
+
+  it('should refuse a refresh token as a bearer token', async () => {
+    await expect(
+      buildGuard(JwtAccessTokenGuard, refreshToken).canActivate(buildContext()),
+    ).rejects.toMatchObject({
+      status: 401,
+      response: { messageKey: 'auth.INVALID_TOKEN' },
+    });
+    // Signed before token types existed, the jti gives it away
+    await expect(
+      buildGuard(JwtAccessTokenGuard, {
+        ...refreshToken,
+        typ: undefined,
+      }).canActivate(buildContext()),
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('should accept a refresh token on the refresh route', async () => {
+    await expect(
+      buildGuard(JwtRefreshTokenGuard, refreshToken).canActivate(
+        buildContext(),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('should refuse an access token on the refresh route', async () => {
+    await expect(
+      buildGuard(JwtRefreshTokenGuard, accessToken).canActivate(buildContext()),
+    ).rejects.toMatchObject({
+      status: 401,
+      response: { messageKey: 'auth.INVALID_TOKEN' },
+    });
+    await expect(
+      buildGuard(JwtRefreshTokenGuard, {
+        ...accessToken,
+        typ: undefined,
+      }).canActivate(buildContext()),
+    ).rejects.toMatchObject({ status: 401 });
+  });
+});
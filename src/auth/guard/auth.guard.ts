@@ -1,6 +1,7 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
@@ -8,22 +9,44 @@ import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { Request } from 'express';
 import { AuthPayload } from 'src/common/interface';
+import { USER_CONSTANTS } from 'src/shared/constants';
 import { CacheService } from 'src/shared/services';
 
+import { JwtKeyRingService } from '../jwt-key-ring.service';
+import { SessionActivityService } from '../session-activity.service';
+import { SessionRevocationService } from '../session-revocation.service';
+
 @Injectable()
 export class AuthGuard implements CanActivate {
   constructor(
     protected readonly jwtService: JwtService,
     protected readonly cacheService: CacheService,
     protected readonly configService: ConfigService,
+    protected readonly keyRing: JwtKeyRingService,
+    protected readonly sessionRevocation: SessionRevocationService,
+    protected readonly sessionActivity: SessionActivityService,
   ) {}
 
-  protected getSecret(): string {
-    const secret = this.configService.get<string>('app.jwt.secret');
-    if (!secret) {
-      throw new Error('JWT secret is not configured');
+  /**
+   * Verify a token against the signing key ring, legacy HS tokens are
+   * checked against JWT_SECRET
+   */
+  protected async verifyToken(token: string): Promise<AuthPayload> {
+    const payload = await this.keyRing.verify<AuthPayload>(token);
+    this.assertTokenType(payload);
+    return payload;
+  }
+
+  /**
+   * Only access tokens pass, refresh tokens share the signing keys but
+   * carry a refresh `typ` or, when signed before types existed, a `jti`
+   */
+  protected assertTokenType(payload: AuthPayload): void {
+    if (payload.typ === USER_CONSTANTS.TOKEN_TYPES.REFRESH || payload.jti) {
+      throw new UnauthorizedException({
+        messageKey: 'auth.INVALID_TOKEN',
+      });
     }
-    return secret;
   }
 
   protected extractToken(request: Request): string | undefined {
@@ -31,14 +54,32 @@ export class AuthGuard implements CanActivate {
     return type === 'Bearer' ? token : undefined;
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   protected async afterVerify(payload: AuthPayload): Promise<void> {
-    return;
+    await this.verifyCache(payload);
+    // Not awaited, the throttled activity write must not delay the request
+    void this.sessionActivity.recordActivity(payload);
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  /**
+   * Reject tokens of sessions that were logged out or revoked, the JWT
+   * itself stays valid until it expires
+   * Suspended and banned accounts get a 403 that says so
+   */
   protected async verifyCache(payload: AuthPayload): Promise<void> {
-    return;
+    const result = await this.sessionRevocation.checkSession(payload);
+    if (result === 'suspended' || result === 'banned') {
+      throw new ForbiddenException({
+        messageKey:
+          result === 'suspended'
+            ? 'auth.ACCOUNT_SUSPENDED'
+            : 'auth.ACCOUNT_BANNED',
+      });
+    }
+    if (result !== 'active') {
+      throw new UnauthorizedException({
+        messageKey: 'auth.INVALID_TOKEN',
+      });
+    }
   }
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -50,12 +91,11 @@ export class AuthGuard implements CanActivate {
       });
     }
     try {
-      const payload = await this.jwtService.verifyAsync<AuthPayload>(token, {
-        secret: this.getSecret(),
-      });
+      const payload = await this.verifyToken(token);
       Object.assign(request, { user: payload });
       await this.afterVerify(payload);
-    } catch {
+    } catch (error) {
+      if (error instanceof ForbiddenException) throw error;
       throw new UnauthorizedException({
         messageKey: 'auth.INVALID_TOKEN',
       });
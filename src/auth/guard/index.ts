@@ -1,4 +1,9 @@
 export * from './jwt-access-token.guard';
+export * from './optional-jwt-access-token.guard';
 export * from './jwt-refresh-token.guard';
 export * from './role.guard';
 export * from './websocket-auth.guard';
+export * from './verified.guard';
+export * from './permissions.guard';
+export * from './policy.guard';
+export * from './no-impersonation.guard';
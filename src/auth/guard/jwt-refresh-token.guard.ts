@@ -1,9 +1,22 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { AuthPayload } from 'src/common/interface';
+import { USER_CONSTANTS } from 'src/shared/constants';
 import { AuthGuard } from './auth.guard';
 
 @Injectable()
 export class JwtRefreshTokenGuard extends AuthGuard {
+  /**
+   * Only refresh tokens pass, a token signed before types existed is one
+   * when it carries a `jti`
+   */
+  protected assertTokenType(payload: AuthPayload): void {
+    if (payload.typ === USER_CONSTANTS.TOKEN_TYPES.ACCESS || !payload.jti) {
+      throw new UnauthorizedException({
+        messageKey: 'auth.INVALID_TOKEN',
+      });
+    }
+  }
+
   protected async verifyCache(payload: AuthPayload): Promise<void> {
     const cacheKey = `auth:user:${payload.uid}:refreshToken:${payload.ssid}`;
     const ttl = await this.cacheService.getTtl(cacheKey);
@@ -13,8 +26,4 @@ export class JwtRefreshTokenGuard extends AuthGuard {
       });
     }
   }
-
-  protected async afterVerify(payload: AuthPayload): Promise<void> {
-    await this.verifyCache(payload);
-  }
 }
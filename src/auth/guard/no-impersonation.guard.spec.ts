@@ -0,0 +1,50 @@
+import 'reflect-metadata';
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthPayload } from 'src/common/interface';
+import { NoImpersonationGuard } from './no-impersonation.guard';
+
+describe('NoImpersonationGuard', () => {
+  const owner: AuthPayload = { uid: '1', ssid: 's1', role: 'user' };
+  const impersonated: AuthPayload = { ...owner, impersonatorId: '9' };
+
+  // Requests already carry `user`, so the inherited dependencies go unused
+  const buildGuard = (blocked: boolean) =>
+    new NoImpersonationGuard(
+      undefined as never,
+      undefined as never,
+      undefined as never,
+      undefined as never,
+      undefined as never,
+      undefined as never,
+      { getAllAndOverride: () => blocked } as unknown as Reflector,
+    );
+
+  const buildContext = (user: AuthPayload) =>
+    ({
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({ getRequest: () => ({ user }) }),
+    }) as unknown as ExecutionContext;
+
+  it('should refuse an impersonation token on a protected route', async () => {
+    await expect(
+      buildGuard(true).canActivate(buildContext(impersonated)),
+    ).rejects.toMatchObject({
+      status: 403,
+      response: { messageKey: 'auth.IMPERSONATION_NOT_ALLOWED' },
+    });
+  });
+
+  it('should let the account owner through', async () => {
+    await expect(
+      buildGuard(true).canActivate(buildContext(owner)),
+    ).resolves.toBe(true);
+  });
+
+  it('should ignore routes without the decorator', async () => {
+    await expect(
+      buildGuard(false).canActivate(buildContext(impersonated)),
+    ).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { AuthPayload } from 'src/common/interface';
+import { CacheService } from 'src/shared/services';
+
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+
+import { NO_IMPERSONATION_KEY } from '../../common/decorators/no-impersonation.decorator';
+import { JwtKeyRingService } from '../jwt-key-ring.service';
+import { SessionActivityService } from '../session-activity.service';
+import { SessionRevocationService } from '../session-revocation.service';
+import { JwtAccessTokenGuard } from './jwt-access-token.guard';
+
+/**
+ * Enforces `@NoImpersonation()`
+ * Authenticates the request itself when no earlier guard did, so it does
+ * not depend on the order in which it is combined with `@Auth()`
+ */
+@Injectable()
+export class NoImpersonationGuard extends JwtAccessTokenGuard {
+  constructor(
+    jwtService: JwtService,
+    cacheService: CacheService,
+    configService: ConfigService,
+    keyRing: JwtKeyRingService,
+    sessionRevocation: SessionRevocationService,
+    sessionActivity: SessionActivityService,
+    private readonly reflector: Reflector,
+  ) {
+    super(
+      jwtService,
+      cacheService,
+      configService,
+      keyRing,
+      sessionRevocation,
+      sessionActivity,
+    );
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const blocked = this.reflector.getAllAndOverride<boolean>(
+      NO_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!blocked) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthPayload }>();
+    if (!request.user) {
+      await super.canActivate(context);
+    }
+
+    if (request.user!.impersonatorId) {
+      throw new ForbiddenException({
+        messageKey: 'auth.IMPERSONATION_NOT_ALLOWED',
+      });
+    }
+    return true;
+  }
+}
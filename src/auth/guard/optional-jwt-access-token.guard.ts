@@ -0,0 +1,18 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { Request } from 'express';
+
+import { JwtAccessTokenGuard } from './jwt-access-token.guard';
+
+/**
+ * Access token guard for endpoints that also serve anonymous requests
+ * Requests without a token pass without `request.user`, a token that is
+ * present still has to be valid
+ */
+@Injectable()
+export class OptionalJwtAccessTokenGuard extends JwtAccessTokenGuard {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    if (!this.extractToken(request)) return true;
+    return super.canActivate(context);
+  }
+}
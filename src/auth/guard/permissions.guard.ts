@@ -0,0 +1,72 @@
+import { AuthPayload } from 'src/common/interface';
+import { CacheService } from 'src/shared/services';
+
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+
+import { REQUIRE_PERMISSIONS_KEY } from '../../common/decorators/require-permissions.decorator';
+import { JwtKeyRingService } from '../jwt-key-ring.service';
+import { PermissionService } from '../permission.service';
+import { SessionActivityService } from '../session-activity.service';
+import { SessionRevocationService } from '../session-revocation.service';
+import { JwtAccessTokenGuard } from './jwt-access-token.guard';
+
+/**
+ * Enforces `@RequirePermissions()`
+ * Authenticates the request itself when no earlier guard did, so it does
+ * not depend on the order in which it is combined with `@Auth()`
+ */
+@Injectable()
+export class PermissionsGuard extends JwtAccessTokenGuard {
+  constructor(
+    jwtService: JwtService,
+    cacheService: CacheService,
+    configService: ConfigService,
+    keyRing: JwtKeyRingService,
+    sessionRevocation: SessionRevocationService,
+    sessionActivity: SessionActivityService,
+    private readonly reflector: Reflector,
+    private readonly permissionService: PermissionService,
+  ) {
+    super(
+      jwtService,
+      cacheService,
+      configService,
+      keyRing,
+      sessionRevocation,
+      sessionActivity,
+    );
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<string[]>(
+      REQUIRE_PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required?.length) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthPayload }>();
+    if (!request.user) {
+      await super.canActivate(context);
+    }
+
+    if (
+      !(await this.permissionService.hasPermissions(request.user!, required))
+    ) {
+      throw new ForbiddenException({
+        messageKey: 'auth.FORBIDDEN',
+      });
+    }
+    return true;
+  }
+}
@@ -0,0 +1,173 @@
+import 'reflect-metadata';
+import { ExecutionContext } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { AuthorizeRule } from 'src/common/decorators/authorize.decorator';
+import { AuthPayload } from 'src/common/interface';
+import { Media } from 'src/media/entities/media.entity';
+import { MediaPolicy } from 'src/media/media.policy';
+import { MediaService } from 'src/media/media.service';
+import { UserSession } from 'src/users/entities';
+import { UserSessionsService } from 'src/users/services';
+import { PermissionService } from '../permission.service';
+import { SessionPolicy } from '../policies';
+import { PolicyGuard } from './policy.guard';
+
+describe('PolicyGuard', () => {
+  const mediaId = '100000000000000001';
+  const sessionId = '200000000000000001';
+  const owner: AuthPayload = { uid: '1', ssid: 's1', role: 'user' };
+  const stranger: AuthPayload = { uid: '2', ssid: 's2', role: 'user' };
+  const moderator: AuthPayload = { uid: '3', ssid: 's3', role: 'moderator' };
+
+  let guard: PolicyGuard;
+  let rule: AuthorizeRule;
+  let mediaService: { findOne: jest.Mock<Promise<Media | null>, [object]> };
+  let userSessionsService: {
+    findOne: jest.Mock<Promise<UserSession | null>, [object]>;
+  };
+
+  const buildContext = (user: AuthPayload, id: string) => {
+    const request: {
+      user: AuthPayload;
+      params: Record<string, string>;
+      authorizedResource?: unknown;
+    } = { user, params: { id } };
+    const context = {
+      getHandler: () => undefined,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { context, request };
+  };
+
+  beforeEach(() => {
+    mediaService = {
+      findOne: jest.fn<Promise<Media | null>, [object]>().mockResolvedValue(
+        Object.assign(new Media(), {
+          id: mediaId,
+          userId: owner.uid,
+          isPublic: false,
+        }),
+      ),
+    };
+    userSessionsService = {
+      findOne: jest
+        .fn<Promise<UserSession | null>, [object]>()
+        .mockResolvedValue(
+          Object.assign(new UserSession(), {
+            id: sessionId,
+            userId: owner.uid,
+          }),
+        ),
+    };
+    // Moderators may act on any media, nobody may act on others' sessions
+    const permissionService = {
+      hasPermissions: jest.fn((payload: AuthPayload, required: string[]) =>
+        Promise.resolve(
+          payload.role === 'moderator' &&
+            required.every((permission) => permission.startsWith('media:')),
+        ),
+      ),
+    } as unknown as PermissionService;
+    const policies = new Map<unknown, unknown>([
+      [
+        MediaPolicy,
+        new MediaPolicy(
+          mediaService as unknown as MediaService,
+          permissionService,
+        ),
+      ],
+      [
+        SessionPolicy,
+        new SessionPolicy(
+          userSessionsService as unknown as UserSessionsService,
+          permissionService,
+        ),
+      ],
+    ]);
+    const moduleRef = {
+      get: jest.fn((token: unknown) => policies.get(token)),
+    } as unknown as ModuleRef;
+    const reflector = {
+      get: jest.fn(() => rule),
+    } as unknown as Reflector;
+
+    // Requests in these tests are already authenticated
+    const unused = {} as never;
+    guard = new PolicyGuard(
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      unused,
+      reflector,
+      moduleRef,
+    );
+    rule = { policy: MediaPolicy, action: 'update', param: 'id' };
+  });
+
+  it('should let the owner through and keep the loaded resource', async () => {
+    const { context, request } = buildContext(owner, mediaId);
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mediaService.findOne).toHaveBeenCalledWith({ id: mediaId });
+    expect(request.authorizedResource).toMatchObject({ id: mediaId });
+  });
+
+  it('should forbid other users without the any permission', async () => {
+    await expect(
+      guard.canActivate(buildContext(stranger, mediaId).context),
+    ).rejects.toMatchObject({
+      status: 403,
+      response: { messageKey: 'auth.FORBIDDEN' },
+    });
+    await expect(
+      guard.canActivate(buildContext(moderator, mediaId).context),
+    ).resolves.toBe(true);
+  });
+
+  it('should let anyone read public media', async () => {
+    mediaService.findOne.mockResolvedValue(
+      Object.assign(new Media(), { userId: owner.uid, isPublic: true }),
+    );
+
+    rule = { policy: MediaPolicy, action: 'read', param: 'id' };
+    await expect(
+      guard.canActivate(buildContext(stranger, mediaId).context),
+    ).resolves.toBe(true);
+
+    rule = { policy: MediaPolicy, action: 'delete', param: 'id' };
+    await expect(
+      guard.canActivate(buildContext(stranger, mediaId).context),
+    ).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('should answer 404 for missing resources and invalid IDs', async () => {
+    mediaService.findOne.mockResolvedValue(null);
+
+    await expect(
+      guard.canActivate(buildContext(owner, mediaId).context),
+    ).rejects.toMatchObject({
+      status: 404,
+      response: { messageKey: 'media.MEDIA_NOT_FOUND' },
+    });
+    await expect(
+      guard.canActivate(buildContext(owner, 'not-an-id').context),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('should report sessions of other users as not found', async () => {
+    rule = { policy: SessionPolicy, action: 'read', param: 'id' };
+
+    await expect(
+      guard.canActivate(buildContext(stranger, sessionId).context),
+    ).rejects.toMatchObject({
+      status: 404,
+      response: { messageKey: 'user.SESSION_NOT_FOUND' },
+    });
+    expect(userSessionsService.findOne).toHaveBeenCalledWith({
+      id: sessionId,
+      revoked: false,
+    });
+  });
+});
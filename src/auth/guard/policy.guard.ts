@@ -0,0 +1,95 @@
+import { AuthPayload } from 'src/common/interface';
+import { SnowflakeIdPipe } from 'src/common/pipes';
+import { CacheService } from 'src/shared/services';
+
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+
+import {
+  AUTHORIZE_KEY,
+  AuthorizeRule,
+} from '../../common/decorators/authorize.decorator';
+import { JwtKeyRingService } from '../jwt-key-ring.service';
+import { SessionActivityService } from '../session-activity.service';
+import { SessionRevocationService } from '../session-revocation.service';
+import { JwtAccessTokenGuard } from './jwt-access-token.guard';
+
+/**
+ * Enforces `@Authorize()`
+ * Authenticates the request itself when no earlier guard did, so it does
+ * not depend on the order in which it is combined with `@Auth()`
+ * The loaded resource is kept on the request for `@AuthorizedResource()`
+ */
+@Injectable()
+export class PolicyGuard extends JwtAccessTokenGuard {
+  private readonly idPipe = new SnowflakeIdPipe();
+
+  constructor(
+    jwtService: JwtService,
+    cacheService: CacheService,
+    configService: ConfigService,
+    keyRing: JwtKeyRingService,
+    sessionRevocation: SessionRevocationService,
+    sessionActivity: SessionActivityService,
+    private readonly reflector: Reflector,
+    private readonly moduleRef: ModuleRef,
+  ) {
+    super(
+      jwtService,
+      cacheService,
+      configService,
+      keyRing,
+      sessionRevocation,
+      sessionActivity,
+    );
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const rule = this.reflector.get<AuthorizeRule>(
+      AUTHORIZE_KEY,
+      context.getHandler(),
+    );
+    if (!rule) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<
+      Request & {
+        user?: AuthPayload;
+        params: Record<string, string>;
+        authorizedResource?: unknown;
+      }
+    >();
+    if (!request.user) {
+      await super.canActivate(context);
+    }
+
+    const policy = this.moduleRef.get(rule.policy, { strict: false });
+    const id = this.idPipe.transform(request.params[rule.param]);
+    const resource = await policy.load(id);
+    const allowed =
+      resource !== null &&
+      (await policy.can(request.user!, rule.action, resource));
+
+    if (!allowed) {
+      if (resource === null || policy.concealDenied) {
+        throw new NotFoundException({
+          messageKey: policy.notFoundMessageKey,
+        });
+      }
+      throw new ForbiddenException({
+        messageKey: 'auth.FORBIDDEN',
+      });
+    }
+
+    request.authorizedResource = resource;
+    return true;
+  }
+}
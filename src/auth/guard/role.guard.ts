@@ -11,12 +11,20 @@ import {
 import { Reflector } from '@nestjs/core';
 
 import { ROLES_KEY } from '../../common/decorators';
+import { PermissionService } from '../permission.service';
 
+/**
+ * Enforces `@Roles()`, a role also satisfies every role it inherits from,
+ * e.g. `super_admin` passes admin-only routes
+ */
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private readonly reflector: Reflector) {}
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissionService: PermissionService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const requiredRoles = this.reflector.get<UserRole[]>(
       ROLES_KEY,
       context.getHandler(),
@@ -34,7 +42,7 @@ export class RolesGuard implements CanActivate {
       });
     }
 
-    const hasRole = requiredRoles.some((role) => user.role === role);
+    const hasRole = await this.permissionService.hasRole(user, requiredRoles);
     if (!hasRole) {
       throw new ForbiddenException({
         messageKey: 'auth.FORBIDDEN',
@@ -0,0 +1,81 @@
+import { AuthPayload } from 'src/common/interface';
+import {
+  getMissingVerificationChannels,
+  VerificationPolicy,
+} from 'src/common/utils';
+import { VerificationFeature } from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+
+import {
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+
+import { REQUIRE_VERIFIED_KEY } from '../../common/decorators/require-verified.decorator';
+import { JwtKeyRingService } from '../jwt-key-ring.service';
+import { SessionActivityService } from '../session-activity.service';
+import { SessionRevocationService } from '../session-revocation.service';
+import { JwtAccessTokenGuard } from './jwt-access-token.guard';
+
+/**
+ * Enforces `@RequireVerified()`
+ * Authenticates the request itself when no earlier guard did, so it does
+ * not depend on the order in which it is combined with `@Auth()`
+ */
+@Injectable()
+export class VerifiedGuard extends JwtAccessTokenGuard {
+  constructor(
+    jwtService: JwtService,
+    cacheService: CacheService,
+    configService: ConfigService,
+    keyRing: JwtKeyRingService,
+    sessionRevocation: SessionRevocationService,
+    sessionActivity: SessionActivityService,
+    private readonly reflector: Reflector,
+    private readonly usersService: UsersService,
+  ) {
+    super(
+      jwtService,
+      cacheService,
+      configService,
+      keyRing,
+      sessionRevocation,
+      sessionActivity,
+    );
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const feature = this.reflector.getAllAndOverride<VerificationFeature>(
+      REQUIRE_VERIFIED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!feature) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthPayload }>();
+    if (!request.user) {
+      await super.canActivate(context);
+    }
+
+    const user = await this.usersService.findById(request.user!.uid);
+    const policy =
+      this.configService.get<VerificationPolicy>('app.verification.policy') ??
+      {};
+    const missing = getMissingVerificationChannels(user, policy, feature);
+    if (missing.length > 0) {
+      throw new ForbiddenException({
+        messageKey: 'auth.VERIFICATION_REQUIRED',
+        messageArgs: { channels: missing.join(', ') },
+      });
+    }
+    return true;
+  }
+}
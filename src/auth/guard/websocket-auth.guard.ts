@@ -1,7 +1,11 @@
 import { Socket } from 'socket.io';
-import { AuthPayload } from 'src/common/interface';
 
-import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
 import { WsException } from '@nestjs/websockets';
 
 import { AuthGuard } from './auth.guard';
@@ -47,16 +51,18 @@ export class WebSocketAuthGuard extends AuthGuard implements CanActivate {
     }
 
     try {
-      const payload = await this.jwtService.verifyAsync<AuthPayload>(token, {
-        secret: this.getSecret(),
-      });
+      const payload = await this.verifyToken(token);
 
       Object.assign(client, { user: payload });
 
       await this.afterVerify(payload);
 
       return true;
-    } catch {
+    } catch (error) {
+      // Suspended and banned accounts are told why
+      if (error instanceof ForbiddenException) {
+        throw new WsException(error.getResponse() as object);
+      }
       throw new WsException({
         messageKey: 'auth.INVALID_TOKEN',
       });
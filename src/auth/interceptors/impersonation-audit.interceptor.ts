@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { getRealIpAddress } from 'src/common/decorators';
+import { AuthPayload } from 'src/common/interface';
+
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+
+import { UserAdminService } from '../user-admin.service';
+
+// Reads are not audited, only requests that can change something
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Writes every state-changing request made with an impersonation token
+ * to the admin audit log, whether it succeeded or not
+ * Recorded once the response is done, so the final status code is known
+ */
+@Injectable()
+export class ImpersonationAuditInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(ImpersonationAuditInterceptor.name);
+
+  constructor(private readonly userAdminService: UserAdminService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { user?: AuthPayload }>();
+    const actor = request.user;
+    if (!actor?.impersonatorId || READ_METHODS.has(request.method)) {
+      return next.handle();
+    }
+
+    const response = http.getResponse<Response>();
+    response.once('close', () => {
+      this.userAdminService
+        .auditImpersonatedRequest(
+          actor,
+          {
+            method: request.method,
+            path: request.path,
+            statusCode: response.statusCode,
+          },
+          {
+            ipAddress: getRealIpAddress(request),
+            userAgent: request.headers['user-agent'],
+          },
+        )
+        .catch((error) =>
+          this.logger.error('Failed to audit an impersonated request:', error),
+        );
+    });
+    return next.handle();
+  }
+}
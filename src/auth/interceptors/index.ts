@@ -0,0 +1 @@
+export * from './impersonation-audit.interceptor';
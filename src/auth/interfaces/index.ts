@@ -1 +1,13 @@
 export * from './otp.interface';
+export * from './jwt-key.interface';
+export * from './login-protection.interface';
+export * from './login-risk.interface';
+export * from './oauth.interface';
+export * from './password-reset.interface';
+export * from './push-notification.interface';
+export * from './security-alert.interface';
+export * from './session-revocation.interface';
+export * from './session.interface';
+export * from './verification.interface';
+export * from './webauthn.interface';
+export * from './permission.interface';
@@ -0,0 +1,32 @@
+/**
+ * Algorithms the key ring can sign with
+ */
+export type JwtKeyAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * Key of the ring held in memory
+ */
+export interface LoadedJwtKey {
+  kid: string;
+  algorithm: JwtKeyAlgorithm;
+  /** SPKI PEM */
+  publicKey: string;
+  /** Sealed PKCS#8 PEM as stored in the database */
+  sealedPrivateKey: string;
+  createdAt: Date;
+  /** Set once the key no longer signs */
+  retiredAt: Date | null;
+  /** Set once the key no longer verifies */
+  expiresAt: Date | null;
+}
+
+/**
+ * Public key in JSON Web Key format as published in the JWKS
+ */
+export interface PublicJwk {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  use: 'sig';
+  kty: string;
+  [parameter: string]: unknown;
+}
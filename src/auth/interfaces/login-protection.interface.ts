@@ -0,0 +1,33 @@
+/**
+ * Active lockout of an account, stored in cache until it expires
+ */
+export interface LoginLockoutState {
+  /** SHA-256 of the normalized email, the key counters are tracked under */
+  accountKey: string;
+  /** Locked user, absent when the email does not belong to an account */
+  userId?: string;
+  /** Email the failed attempts were made with */
+  email: string;
+  /** Timestamp when the account was locked */
+  lockedAt: number;
+  /** Timestamp when the lockout ends */
+  lockedUntil: number;
+  /** Failed attempts that triggered the lockout */
+  failedAttempts: number;
+  /** Consecutive lockouts, each one doubles the duration */
+  level: number;
+  /** IP address of the attempt that triggered the lockout */
+  ipAddress?: string;
+}
+
+/**
+ * Account unlock request stored in cache under the token hash
+ */
+export interface AccountUnlockState {
+  /** Account the unlock link was issued for */
+  accountKey: string;
+  /** User the unlock link was sent to */
+  userId: string;
+  /** Timestamp when the link was issued */
+  createdAt: number;
+}
@@ -0,0 +1,26 @@
+import { LoginRiskLevel, LoginRiskReason } from 'src/shared/constants';
+
+/**
+ * Risk of a sign-in compared to the recent sessions of the user
+ */
+export interface LoginRiskAssessment {
+  /** 0 (nothing unusual) to 100 */
+  score: number;
+  level: LoginRiskLevel;
+  /** Signals that contributed to the score */
+  reasons: LoginRiskReason[];
+  /** Fingerprint of the signing-in device, kept on the session */
+  deviceFingerprint: string;
+}
+
+/**
+ * "This wasn't me" request stored in cache under the token hash
+ */
+export interface SignInReportState {
+  /** User the alert was sent to */
+  userId: string;
+  /** Session to revoke */
+  sessionId: string;
+  /** Timestamp when the link was issued */
+  createdAt: number;
+}
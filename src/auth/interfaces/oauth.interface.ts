@@ -0,0 +1,80 @@
+import { OAuthProvider } from 'src/shared/constants';
+
+/**
+ * Normalized identity returned by every OAuth/OIDC provider strategy
+ */
+export interface OAuthProfile {
+  /** Provider the identity was verified against */
+  provider: OAuthProvider;
+  /** Stable subject identifier issued by the provider */
+  providerId: string;
+  /** Email address reported by the provider */
+  email?: string;
+  /** Whether the provider asserts that the email is verified */
+  emailVerified: boolean;
+  /** Display name reported by the provider */
+  name?: string;
+  /** Avatar URL reported by the provider */
+  avatarUrl?: string;
+}
+
+/**
+ * Tokens obtained from the client or from the provider token endpoint
+ */
+export interface OAuthTokenSet {
+  /** Provider access token (used to call the userinfo endpoint) */
+  accessToken?: string;
+  /** OpenID Connect ID token (verified against the provider JWKS) */
+  idToken?: string;
+  /** Provider refresh token (never persisted) */
+  refreshToken?: string;
+  /**
+   * Set only when the tokens come from our own code exchange, so the
+   * access token is known to be issued to our client
+   */
+  issuedToClient?: boolean;
+}
+
+/**
+ * Static configuration for a provider, loaded from `oauth.<provider>`
+ */
+export interface OAuthProviderConfig {
+  clientId?: string;
+  clientSecret?: string;
+  redirectUri?: string;
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  userInfoUrl?: string;
+  tokenInfoUrl?: string;
+  appId?: string;
+  emailsUrl?: string;
+  jwksUrl?: string;
+  issuer?: string;
+  scope?: string;
+}
+
+/**
+ * Parameters used to build the provider authorization URL
+ */
+export interface OAuthAuthorizationParams {
+  state: string;
+  codeChallenge: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+/**
+ * Authorization request state stored in cache between authorize and callback
+ */
+export interface OAuthAuthorizationState {
+  /** Provider the flow was started for */
+  provider: OAuthProvider;
+  /** PKCE code verifier (S256) */
+  codeVerifier: string;
+  /** Redirect URI sent to the provider */
+  redirectUri: string;
+  /** OIDC nonce bound to the ID token */
+  nonce: string;
+  /** Timestamp when the flow was started */
+  createdAt: number;
+}
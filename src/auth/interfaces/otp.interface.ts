@@ -1,3 +1,5 @@
+import { AuthType } from 'src/shared/constants';
+
 /**
  * OTP data structure stored in cache/database
  */
@@ -18,6 +20,12 @@ export interface OtpData {
   isUsed: boolean;
   /** Request ID for tracking */
   requestId: string;
+  /** User the challenge belongs to (MFA login challenges only) */
+  userId?: string;
+  /** First factor that started the challenge (MFA login challenges only) */
+  authType?: AuthType;
+  /** Phone number the code was sent to (phone verification only) */
+  phoneNumber?: string;
 }
 
 /**
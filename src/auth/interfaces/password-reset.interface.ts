@@ -0,0 +1,30 @@
+/**
+ * Password reset request stored in cache under the token hash
+ */
+export interface PasswordResetState {
+  /** User the token was issued for */
+  userId: string;
+  /** Email the link was sent to, opening it proves the user owns it */
+  email?: string;
+  /** Timestamp when the token was issued */
+  createdAt: number;
+}
+
+/**
+ * Password reset sender interface
+ * Defines contract for delivering password reset links
+ */
+export interface PasswordResetSender {
+  /**
+   * Send a password reset link
+   * @param recipient - Recipient email and display name
+   * @param resetLink - Link containing the single-use token
+   * @param ttlSeconds - Token lifetime in seconds
+   * @returns Promise that resolves when the email is queued
+   */
+  sendResetLink(
+    recipient: { email: string; name?: string },
+    resetLink: string,
+    ttlSeconds: number,
+  ): Promise<void>;
+}
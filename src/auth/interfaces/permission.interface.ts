@@ -0,0 +1,15 @@
+/**
+ * What a role grants once inheritance is applied
+ */
+export interface ResolvedRole {
+  roles: string[]; // The role itself first, then every role it inherits
+  permissions: string[];
+}
+
+/**
+ * Every role resolved at one permissions version
+ */
+export interface PermissionSnapshot {
+  version: number; // Latest role update, embedded in access tokens as `pv`
+  roles: Record<string, ResolvedRole>;
+}
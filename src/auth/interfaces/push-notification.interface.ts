@@ -0,0 +1,25 @@
+/**
+ * Push notification shown on the devices of a user
+ */
+export interface PushNotification {
+  /** Notification title */
+  title: string;
+  /** Notification body */
+  body: string;
+  /** Data payload for the app, values must be strings */
+  data?: Record<string, string>;
+}
+
+/**
+ * Push notification sender interface
+ * Defines contract for notifying the registered devices of a user
+ */
+export interface PushNotificationSender {
+  /**
+   * Send a push notification to device tokens
+   * @param deviceTokens - Push tokens of the target devices
+   * @param notification - Notification content
+   * @returns Promise that resolves once the push was handed over
+   */
+  send(deviceTokens: string[], notification: PushNotification): Promise<void>;
+}
@@ -0,0 +1,34 @@
+/**
+ * Security alert sent to a user about activity on their account
+ */
+export interface SecurityAlert {
+  /** Short title, also used as the email subject */
+  title: string;
+  /** Main alert message */
+  message: string;
+  /** Extra facts shown as a list (device, IP address, time...) */
+  details?: { label: string; value: string }[];
+  /** Optional call to action */
+  action?: {
+    description: string;
+    link: string;
+    buttonText: string;
+  };
+}
+
+/**
+ * Security alert sender interface
+ * Defines contract for notifying users about security events
+ */
+export interface SecurityAlertSender {
+  /**
+   * Send a security alert
+   * @param recipient - Recipient email and display name
+   * @param alert - Alert content
+   * @returns Promise that resolves when the alert is queued
+   */
+  sendAlert(
+    recipient: { email: string; name?: string },
+    alert: SecurityAlert,
+  ): Promise<void>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Revocation broadcast to every instance so they drop cached session state
+ */
+export interface SessionRevocationMessage {
+  /** Owner of the revoked sessions */
+  userId: string;
+  /** Single revoked session, absent when all sessions of the user were revoked */
+  sessionId?: string;
+  /** Session left active when all the others were revoked */
+  exceptSessionId?: string;
+}
+
+/**
+ * Outcome of checking the session of an access token
+ * `suspended` and `banned` win over `revoked`, so a blocked user is told why
+ */
+export type SessionCheckResult = 'active' | 'revoked' | 'suspended' | 'banned';
@@ -0,0 +1,25 @@
+/**
+ * A session as shown to its owner in the sessions API
+ */
+export interface SessionView {
+  id: string;
+  authType: string;
+  ipAddress: string | null;
+  device: {
+    type: string;
+    browser: string;
+    operatingSystem: string;
+    /** e.g. "Chrome on macOS", null when the user agent is not recognized */
+    name: string | null;
+  };
+  /** Approximate location from CDN headers at sign-in, null when unknown */
+  location: {
+    country: string | null;
+    city: string | null;
+  };
+  createdAt: Date;
+  lastActiveAt: Date;
+  expiresAt: Date | null;
+  /** The session of the access token making the request */
+  isCurrent: boolean;
+}
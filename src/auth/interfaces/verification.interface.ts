@@ -0,0 +1,51 @@
+/**
+ * Email verification request stored in cache under the token hash
+ */
+export interface EmailVerificationState {
+  /** User the link was issued for */
+  userId: string;
+  /** Email address being verified, a later email change voids the link */
+  email: string;
+  /** Timestamp when the link was issued */
+  createdAt: number;
+  /** Address being replaced, only set on email change links */
+  previousEmail?: string | null;
+}
+
+/**
+ * Email verification sender interface
+ * Defines contract for delivering verification links
+ */
+export interface EmailVerificationSender {
+  /**
+   * Send an email verification link
+   * @param recipient - Recipient email, display name and username
+   * @param verificationLink - Link containing the single-use token
+   * @param options - `welcome` renders the welcome email sent on register
+   * @returns Promise that resolves when the email is queued
+   */
+  sendVerificationLink(
+    recipient: { email: string; name?: string; username?: string },
+    verificationLink: string,
+    options?: { welcome?: boolean },
+  ): Promise<void>;
+}
+
+/**
+ * SMS sender interface
+ * Defines contract for delivering text messages to phone numbers
+ */
+export interface SmsSender {
+  /**
+   * Whether an SMS gateway is configured
+   */
+  isEnabled(): boolean;
+
+  /**
+   * Send a text message
+   * @param phoneNumber - Recipient phone number
+   * @param message - Message body
+   * @returns Promise that resolves when the gateway accepted the message
+   */
+  sendSms(phoneNumber: string, message: string): Promise<void>;
+}
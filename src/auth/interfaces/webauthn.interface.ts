@@ -0,0 +1,55 @@
+/**
+ * Ceremony state stored in cache between the options and verify calls
+ */
+export interface WebAuthnChallengeState {
+  /** Ceremony the challenge was issued for */
+  type: 'registration' | 'authentication';
+  /** User starting the ceremony (registration only) */
+  userId?: string;
+  /** Timestamp when the challenge was issued */
+  createdAt: number;
+}
+
+/**
+ * Values the client data and authenticator data must match
+ */
+export interface WebAuthnExpectations {
+  /** Base64url challenge issued by the server */
+  challenge: string;
+  /** Allowed origins, e.g. https://app.example.com */
+  origins: string[];
+  /** Relying party ID, usually the registrable domain */
+  rpId: string;
+  /** Whether the UV flag must be set */
+  requireUserVerification?: boolean;
+}
+
+/**
+ * Result of a successful registration ceremony
+ */
+export interface VerifiedWebAuthnRegistration {
+  /** Base64url credential ID */
+  credentialId: string;
+  /** Base64url COSE public key */
+  publicKey: string;
+  /** COSE algorithm identifier (-7 ES256, -8 EdDSA, -257 RS256) */
+  algorithm: number;
+  /** Initial signature counter */
+  signCount: number;
+  /** Authenticator model identifier */
+  aaguid: string;
+  /** Attestation statement format */
+  attestationFormat: string;
+  /** Whether the user was verified (biometrics / PIN) */
+  userVerified: boolean;
+}
+
+/**
+ * Result of a successful authentication ceremony
+ */
+export interface VerifiedWebAuthnAuthentication {
+  /** New signature counter reported by the authenticator */
+  signCount: number;
+  /** Whether the user was verified (biometrics / PIN) */
+  userVerified: boolean;
+}
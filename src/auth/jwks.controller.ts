@@ -0,0 +1,23 @@
+import { Response } from 'express';
+
+import { Controller, Get, Res, Version, VERSION_NEUTRAL } from '@nestjs/common';
+
+import { JwtKeyRingService } from './jwt-key-ring.service';
+
+/**
+ * Public keys for services that verify our tokens
+ * Served at `/.well-known/jwks.json`, outside the `api` prefix, and written
+ * directly so the response interceptor does not wrap it
+ */
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly keyRing: JwtKeyRingService) {}
+
+  @Get('jwks.json')
+  @Version(VERSION_NEUTRAL)
+  async getJwks(@Res() res: Response) {
+    res
+      .set('Cache-Control', 'public, max-age=300')
+      .json(await this.keyRing.getJwks());
+  }
+}
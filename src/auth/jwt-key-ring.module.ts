@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { JwtSigningKey } from './entities';
+import { JwtKeyRingService } from './jwt-key-ring.service';
+
+/**
+ * Global so the auth guards can verify tokens in any module
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([JwtSigningKey])],
+  providers: [JwtKeyRingService],
+  exports: [JwtKeyRingService],
+})
+export class JwtKeyRingModule {}
@@ -0,0 +1,178 @@
+import 'reflect-metadata';
+import { createPublicKey, verify as verifySignature } from 'crypto';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CacheService } from 'src/shared/services';
+import { FindOperator } from 'typeorm';
+import { JwtSigningKey } from './entities';
+import { JwtKeyRingService } from './jwt-key-ring.service';
+
+describe('JwtKeyRingService', () => {
+  let service: JwtKeyRingService;
+  let rows: JwtSigningKey[];
+  let config: Record<string, unknown>;
+  const jwtService = new JwtService({ secret: 'legacy-secret' });
+
+  // In-memory stand-in for the repository calls the service makes
+  const keyRepository = {
+    find: jest.fn(() =>
+      Promise.resolve(
+        [...rows].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+      ),
+    ),
+    create: jest.fn((data: Partial<JwtSigningKey>) => data),
+    save: jest.fn((data: JwtSigningKey) => {
+      const row = Object.assign(new JwtSigningKey(), data, {
+        id: String(rows.length + 1),
+        createdAt: new Date(Date.now() + rows.length),
+      });
+      rows.push(row);
+      return Promise.resolve(row);
+    }),
+    update: jest.fn(
+      (where: { id: FindOperator<string> }, patch: Partial<JwtSigningKey>) => {
+        rows
+          .filter((row) => !row.retiredAt && row.id !== where.id.value)
+          .forEach((row) => Object.assign(row, patch));
+        return Promise.resolve();
+      },
+    ),
+    delete: jest.fn((where: { expiresAt: FindOperator<Date> }) => {
+      rows = rows.filter(
+        (row) => !row.expiresAt || row.expiresAt >= where.expiresAt.value,
+      );
+      return Promise.resolve();
+    }),
+  };
+
+  beforeEach(async () => {
+    rows = [];
+    config = {
+      'app.jwt.secret': 'legacy-secret',
+      'app.jwt.keyRing.algorithm': 'ES256',
+      'app.jwt.keyRing.rotationDays': 30,
+      'app.jwt.keyRing.overlapSeconds': 3600,
+      'app.jwt.keyRing.acceptLegacyHs': true,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtKeyRingService,
+        { provide: getRepositoryToken(JwtSigningKey), useValue: keyRepository },
+        { provide: JwtService, useValue: jwtService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            compareAndSwap: jest.fn().mockResolvedValue(true),
+            delete: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(JwtKeyRingService);
+  });
+
+  it('should generate a key on first use and sign with its kid', async () => {
+    const token = await service.sign({ uid: '123' }, { expiresIn: 60 });
+
+    const { header } = jwtService.decode<{
+      header: { kid: string; alg: string };
+    }>(token, { complete: true });
+    expect(rows).toHaveLength(1);
+    expect(header).toMatchObject({ kid: rows[0].kid, alg: 'ES256' });
+    await expect(service.verify(token)).resolves.toMatchObject({
+      uid: '123',
+    });
+  });
+
+  it('should never store the private key in clear', async () => {
+    await service.sign({ uid: '123' });
+
+    expect(rows[0].privateKey).not.toContain('PRIVATE KEY');
+    expect(rows[0].publicKey).toContain('BEGIN PUBLIC KEY');
+  });
+
+  it('should sign with RS256 when configured', async () => {
+    config['app.jwt.keyRing.algorithm'] = 'RS256';
+
+    const token = await service.sign({ uid: '123' });
+
+    expect(
+      jwtService.decode<{ header: { alg: string } }>(token, { complete: true })
+        .header.alg,
+    ).toBe('RS256');
+  });
+
+  it('should publish keys that verify the tokens', async () => {
+    const token = await service.sign({ uid: '123' });
+
+    const { keys } = await service.getJwks();
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ kid: rows[0].kid, alg: 'ES256' });
+    expect(keys[0]).not.toHaveProperty('d');
+
+    const [header, payload, signature] = token.split('.');
+    const publicKey = createPublicKey({ key: keys[0], format: 'jwk' });
+    expect(
+      verifySignature(
+        'sha256',
+        Buffer.from(`${header}.${payload}`),
+        { key: publicKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should keep verifying tokens of a retired key during the overlap', async () => {
+    const oldToken = await service.sign({ uid: '123' });
+
+    await service.rotate();
+    const newToken = await service.sign({ uid: '123' });
+
+    expect(rows[0].retiredAt).toBeInstanceOf(Date);
+    await expect(service.verify(oldToken)).resolves.toBeDefined();
+    await expect(service.verify(newToken)).resolves.toBeDefined();
+    expect((await service.getJwks()).keys).toHaveLength(2);
+  });
+
+  it('should reject tokens of an expired key', async () => {
+    const oldToken = await service.sign({ uid: '123' });
+    config['app.jwt.keyRing.overlapSeconds'] = -1;
+
+    await service.rotate();
+
+    await expect(service.verify(oldToken)).rejects.toThrow();
+    expect((await service.getJwks()).keys).toHaveLength(1);
+  });
+
+  it('should accept legacy HS tokens while enabled', async () => {
+    const legacyToken = await jwtService.signAsync(
+      { uid: '123' },
+      { algorithm: 'HS256' },
+    );
+
+    await expect(service.verify(legacyToken)).resolves.toMatchObject({
+      uid: '123',
+    });
+
+    config['app.jwt.keyRing.acceptLegacyHs'] = false;
+    await expect(service.verify(legacyToken)).rejects.toThrow();
+  });
+
+  it('should reject an HS token carrying the kid of a ring key', async () => {
+    await service.sign({ uid: '123' });
+    const forged = await jwtService.signAsync(
+      { uid: '123' },
+      { algorithm: 'HS256', secret: rows[0].publicKey, keyid: rows[0].kid },
+    );
+
+    await expect(service.verify(forged)).rejects.toThrow();
+  });
+});
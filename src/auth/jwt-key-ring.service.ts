@@ -0,0 +1,404 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPublicKey,
+  generateKeyPair,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import { promisify } from 'util';
+import { CacheService } from 'src/shared/services';
+import { IsNull, LessThan, Not, Repository } from 'typeorm';
+
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { JwtSigningKey } from './entities';
+import { JwtKeyAlgorithm, LoadedJwtKey, PublicJwk } from './interfaces';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+/**
+ * Asymmetric key ring for the tokens issued by this service
+ * Keys live in the database so every instance signs with the same key
+ * and publishes the same JWKS. A new key is generated every
+ * `rotationDays`; the previous one stops signing but keeps verifying for
+ * `overlapSeconds`, long enough for the tokens it signed to expire.
+ * Tokens without a `kid` are HS tokens signed with JWT_SECRET before the
+ * ring existed, they are accepted while `acceptLegacyHs` is on.
+ */
+@Injectable()
+export class JwtKeyRingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JwtKeyRingService.name);
+
+  private readonly ROTATION_LOCK_KEY = 'auth:jwt:rotation-lock';
+  private readonly ROTATION_LOCK_TTL_SECONDS = 60;
+  private readonly REFRESH_INTERVAL_MS = 60 * 1000; // 1 minute
+  // An unknown kid reloads the ring at most this often
+  private readonly RELOAD_COOLDOWN_MS = 10 * 1000;
+  private readonly SEALED_KEY_VERSION = 'v1';
+
+  private keys = new Map<string, LoadedJwtKey>();
+  private privateKeys = new Map<string, string>();
+  private lastLoadedAt = 0;
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(JwtSigningKey)
+    private readonly keyRepository: Repository<JwtSigningKey>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.rotateIfDue();
+    } catch (error) {
+      this.logger.error('Failed to initialize the JWT key ring:', error);
+    }
+
+    this.refreshTimer = setInterval(() => {
+      this.rotateIfDue().catch((error) =>
+        this.logger.error('Failed to refresh the JWT key ring:', error),
+      );
+    }, this.REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.refreshTimer);
+  }
+
+  /**
+   * Sign a token with the active key
+   * @param payload - Token claims
+   * @param options - Sign options, the key and algorithm are set here
+   */
+  async sign(
+    payload: Record<string, unknown>,
+    options: Omit<JwtSignOptions, 'algorithm' | 'privateKey' | 'secret'> = {},
+  ): Promise<string> {
+    const key = await this.getSigningKey();
+    // Passed as `secret`, JwtService prefers the module secret over `privateKey`
+    return this.jwtService.signAsync(payload, {
+      ...options,
+      algorithm: key.algorithm,
+      secret: key.privateKey,
+      keyid: key.kid,
+    });
+  }
+
+  /**
+   * Verify a token against the ring
+   * The algorithm is pinned to the one of the key named by `kid`, a token
+   * cannot pick a weaker one
+   * @param token - Compact JWS
+   * @throws Error when the key is unknown, expired or the token invalid
+   */
+  async verify<T extends object>(token: string): Promise<T> {
+    const header = this.decodeHeader(token);
+
+    if (header?.kid) {
+      const key = await this.findVerificationKey(header.kid);
+      if (!key) {
+        throw new Error(`Signing key ${header.kid} is unknown or expired`);
+      }
+      return this.jwtService.verifyAsync<T>(token, {
+        secret: key.publicKey,
+        algorithms: [key.algorithm],
+      });
+    }
+
+    if (header?.alg?.startsWith('HS') && this.getConfig().acceptLegacyHs) {
+      return this.jwtService.verifyAsync<T>(token, {
+        secret: this.getSecret(),
+        algorithms: ['HS256', 'HS512'],
+      });
+    }
+
+    throw new Error('Token has no key ID');
+  }
+
+  /**
+   * Public keys that currently verify tokens, in JWKS format
+   */
+  async getJwks(): Promise<{ keys: PublicJwk[] }> {
+    if (Date.now() - this.lastLoadedAt > this.REFRESH_INTERVAL_MS) {
+      await this.loadKeys();
+    }
+
+    const keys = [...this.keys.values()]
+      .filter((key) => this.isVerifying(key))
+      .map((key) => ({
+        ...(createPublicKey(key.publicKey).export({
+          format: 'jwk',
+        }) as { kty: string }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig' as const,
+      }));
+    return { keys };
+  }
+
+  /**
+   * Generate a new signing key and retire the current one
+   * Retired keys keep verifying for `overlapSeconds`, keys past that are
+   * removed
+   * @returns The new key
+   */
+  async rotate(): Promise<JwtSigningKey> {
+    const config = this.getConfig();
+    const { publicKey, privateKey } = await this.generateKeyPair(
+      config.algorithm,
+    );
+
+    const key = await this.keyRepository.save(
+      this.keyRepository.create({
+        kid: randomBytes(16).toString('base64url'),
+        algorithm: config.algorithm,
+        publicKey,
+        privateKey: this.sealPrivateKey(privateKey),
+        retiredAt: null,
+        expiresAt: null,
+      }),
+    );
+
+    const now = new Date();
+    await Promise.all([
+      this.keyRepository.update(
+        { retiredAt: IsNull(), id: Not(key.id) },
+        {
+          retiredAt: now,
+          expiresAt: new Date(now.getTime() + config.overlapSeconds * 1000),
+        },
+      ),
+      this.keyRepository.delete({ expiresAt: LessThan(now) }),
+    ]);
+
+    this.logger.log(`Rotated JWT signing key, new key ${key.kid}`);
+    await this.loadKeys();
+    return key;
+  }
+
+  /**
+   * Reload the ring and rotate when the active key is older than
+   * `rotationDays`, or missing
+   * Only one instance rotates at a time, the others pick the new key up
+   * on their next reload
+   */
+  private async rotateIfDue(): Promise<void> {
+    await this.loadKeys();
+
+    const active = this.getActiveKey();
+    const rotationMs = this.getConfig().rotationDays * 24 * 60 * 60 * 1000;
+    if (
+      active &&
+      active.createdAt.getTime() + rotationMs > Date.now() &&
+      this.openPrivateKey(active)
+    ) {
+      return;
+    }
+
+    const acquired = await this.cacheService.compareAndSwap(
+      this.ROTATION_LOCK_KEY,
+      null,
+      Date.now(),
+      this.ROTATION_LOCK_TTL_SECONDS,
+    );
+    if (!acquired) return;
+
+    try {
+      await this.rotate();
+    } finally {
+      await this.cacheService.delete(this.ROTATION_LOCK_KEY);
+    }
+  }
+
+  private async loadKeys(): Promise<void> {
+    const rows = await this.keyRepository.find({
+      order: { createdAt: 'DESC' },
+    });
+
+    this.keys = new Map(
+      rows.map((row) => [
+        row.kid,
+        {
+          kid: row.kid,
+          algorithm: row.algorithm,
+          publicKey: row.publicKey,
+          sealedPrivateKey: row.privateKey,
+          createdAt: new Date(row.createdAt),
+          retiredAt: row.retiredAt ? new Date(row.retiredAt) : null,
+          expiresAt: row.expiresAt ? new Date(row.expiresAt) : null,
+        },
+      ]),
+    );
+    for (const kid of this.privateKeys.keys()) {
+      if (!this.keys.has(kid)) this.privateKeys.delete(kid);
+    }
+    this.lastLoadedAt = Date.now();
+  }
+
+  private async getSigningKey(): Promise<{
+    kid: string;
+    algorithm: JwtKeyAlgorithm;
+    privateKey: string;
+  }> {
+    let active = this.getActiveKey();
+    if (!active) {
+      await this.rotateIfDue();
+      active = this.getActiveKey();
+    }
+
+    const privateKey = active && this.openPrivateKey(active);
+    if (!active || !privateKey) {
+      throw new Error('No JWT signing key is available');
+    }
+    return { kid: active.kid, algorithm: active.algorithm, privateKey };
+  }
+
+  private getActiveKey(): LoadedJwtKey | undefined {
+    // Keys are loaded newest first
+    return [...this.keys.values()].find((key) => !key.retiredAt);
+  }
+
+  private async findVerificationKey(
+    kid: string,
+  ): Promise<LoadedJwtKey | undefined> {
+    // Another instance may have rotated since the last reload
+    if (
+      !this.keys.has(kid) &&
+      Date.now() - this.lastLoadedAt > this.RELOAD_COOLDOWN_MS
+    ) {
+      await this.loadKeys();
+    }
+
+    const key = this.keys.get(kid);
+    return key && this.isVerifying(key) ? key : undefined;
+  }
+
+  private isVerifying(key: LoadedJwtKey): boolean {
+    return !key.expiresAt || key.expiresAt.getTime() > Date.now();
+  }
+
+  private decodeHeader(
+    token: string,
+  ): { kid?: string; alg?: string } | undefined {
+    const decoded = this.jwtService.decode<{
+      header?: { kid?: string; alg?: string };
+    } | null>(token, { complete: true });
+    return decoded?.header;
+  }
+
+  private async generateKeyPair(
+    algorithm: JwtKeyAlgorithm,
+  ): Promise<{ publicKey: string; privateKey: string }> {
+    const publicKeyEncoding = { type: 'spki', format: 'pem' } as const;
+    const privateKeyEncoding = { type: 'pkcs8', format: 'pem' } as const;
+
+    return algorithm === 'ES256'
+      ? generateKeyPairAsync('ec', {
+          namedCurve: 'P-256',
+          publicKeyEncoding,
+          privateKeyEncoding,
+        })
+      : generateKeyPairAsync('rsa', {
+          modulusLength: 2048,
+          publicKeyEncoding,
+          privateKeyEncoding,
+        });
+  }
+
+  /**
+   * Encrypt a private key for storage
+   * @returns `v1.{iv}.{tag}.{ciphertext}`, base64url parts
+   */
+  private sealPrivateKey(privateKey: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getSealingKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(privateKey, 'utf8'),
+      cipher.final(),
+    ]);
+    return [
+      this.SEALED_KEY_VERSION,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join('.');
+  }
+
+  /**
+   * Decrypt the private key of a loaded key, cached after the first call
+   * @returns PEM, or null when it cannot be decrypted (JWT_SECRET changed)
+   */
+  private openPrivateKey(key: LoadedJwtKey): string | null {
+    const cached = this.privateKeys.get(key.kid);
+    if (cached) return cached;
+
+    try {
+      const [version, iv, tag, ciphertext] = key.sealedPrivateKey.split('.');
+      if (version !== this.SEALED_KEY_VERSION) {
+        throw new Error(`Unsupported sealed key version ${version}`);
+      }
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        this.getSealingKey(),
+        Buffer.from(iv, 'base64url'),
+      );
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+      const privateKey = Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, 'base64url')),
+        decipher.final(),
+      ]).toString('utf8');
+
+      this.privateKeys.set(key.kid, privateKey);
+      return privateKey;
+    } catch (error) {
+      this.logger.warn(
+        `Cannot open private key ${key.kid}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      return null;
+    }
+  }
+
+  private getSealingKey(): Buffer {
+    return Buffer.from(
+      hkdfSync('sha256', this.getSecret(), '', 'jwt-key-ring', 32),
+    );
+  }
+
+  private getSecret(): string {
+    const secret = this.configService.get<string>('app.jwt.secret');
+    if (!secret) {
+      throw new Error('JWT secret is not configured');
+    }
+    return secret;
+  }
+
+  private getConfig() {
+    return {
+      algorithm:
+        this.configService.get<JwtKeyAlgorithm>('app.jwt.keyRing.algorithm') ??
+        'RS256',
+      rotationDays:
+        this.configService.get<number>('app.jwt.keyRing.rotationDays') ?? 30,
+      overlapSeconds:
+        this.configService.get<number>('app.jwt.keyRing.overlapSeconds') ??
+        30 * 24 * 60 * 60,
+      acceptLegacyHs:
+        this.configService.get<boolean>('app.jwt.keyRing.acceptLegacyHs') ??
+        true,
+    };
+  }
+}
@@ -0,0 +1,210 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { sha256Hex } from 'src/common/utils';
+import { CacheService } from 'src/shared/services';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { LoginProtectionService } from './login-protection.service';
+import { MailerSecurityAlertSender } from './providers';
+
+describe('LoginProtectionService', () => {
+  let service: LoginProtectionService;
+  let cacheService: jest.Mocked<CacheService>;
+  let securityAlertSender: jest.Mocked<MailerSecurityAlertSender>;
+
+  const accountKey = sha256Hex('test@example.com');
+  const mockUser = {
+    id: '123',
+    email: 'test@example.com',
+    name: 'Test User',
+  } as User;
+
+  // In-memory stand-ins for the Redis commands the service relies on
+  let store: Map<string, unknown>;
+  const redis = {
+    incr: jest.fn((key: string) => {
+      const next = Number(store.get(key) ?? 0) + 1;
+      store.set(key, next);
+      return Promise.resolve(next);
+    }),
+    expire: jest.fn(),
+    zadd: jest.fn(),
+    zrem: jest.fn(),
+    zremrangebyscore: jest.fn(),
+    zrevrange: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    store = new Map();
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginProtectionService,
+        {
+          provide: UsersService,
+          useValue: { findById: jest.fn().mockResolvedValue(mockUser) },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue({
+              maxAttempts: 5,
+              delayAfterAttempts: 3,
+              maxDelaySeconds: 30,
+              attemptWindowSeconds: 900,
+              lockoutSeconds: 900,
+              maxLockoutSeconds: 86400,
+              ipMaxAttempts: 50,
+              unlockUrl: 'https://app.example.com/unlock-account',
+            }),
+          },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              Promise.resolve(store.get(key) ?? null),
+            ),
+            set: jest.fn((key: string, value: unknown) => {
+              store.set(key, value);
+              return Promise.resolve();
+            }),
+            delete: jest.fn((key: string) => {
+              store.delete(key);
+              return Promise.resolve();
+            }),
+            exists: jest.fn((key: string) => Promise.resolve(store.has(key))),
+            getAndDelete: jest.fn((key: string) => {
+              const value = store.get(key) ?? null;
+              store.delete(key);
+              return Promise.resolve(value);
+            }),
+            getTtl: jest.fn().mockResolvedValue(42),
+            getRedisClient: jest.fn(() => redis),
+          },
+        },
+        {
+          provide: MailerSecurityAlertSender,
+          useValue: { sendAlert: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(LoginProtectionService);
+    cacheService = module.get(CacheService);
+    securityAlertSender = module.get(MailerSecurityAlertSender);
+  });
+
+  const fail = (times: number, user: User | null = mockUser) =>
+    Array.from({ length: times }).reduce<Promise<void>>(
+      (previous) =>
+        previous.then(() =>
+          service.recordFailure('Test@Example.com ', user, '10.0.0.1'),
+        ),
+      Promise.resolve(),
+    );
+
+  it('should allow attempts below the delay threshold', async () => {
+    await fail(2);
+
+    await expect(
+      service.assertLoginAllowed('test@example.com', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should make retries wait after repeated failures', async () => {
+    await fail(4);
+
+    expect(cacheService.set).toHaveBeenLastCalledWith(
+      `auth:login:delay:${accountKey}`,
+      expect.any(Number),
+      2,
+    );
+    await expect(
+      service.assertLoginAllowed('test@example.com', '10.0.0.1'),
+    ).rejects.toMatchObject({
+      status: 429,
+      response: {
+        messageKey: 'auth.LOGIN_RETRY_LATER',
+        messageArgs: { seconds: 42 },
+      },
+    });
+  });
+
+  it('should lock the account and email an unlock link', async () => {
+    await fail(5);
+
+    await expect(
+      service.assertLoginAllowed('test@example.com', '10.0.0.2'),
+    ).rejects.toMatchObject({
+      status: 423,
+      response: { messageKey: 'auth.ACCOUNT_LOCKED' },
+    });
+    expect(redis.zadd).toHaveBeenCalledWith(
+      'auth:login:lockouts',
+      expect.any(Number),
+      accountKey,
+    );
+
+    const [recipient, alert] = securityAlertSender.sendAlert.mock.calls[0];
+    expect(recipient.email).toBe('test@example.com');
+    const token = new URL(alert.action!.link).searchParams.get('token')!;
+
+    const result = await service.unlockWithToken({ token });
+    expect(result.messageKey).toBe('auth.ACCOUNT_UNLOCKED');
+    await expect(
+      service.assertLoginAllowed('test@example.com', '10.0.0.2'),
+    ).resolves.toBeUndefined();
+
+    await expect(service.unlockWithToken({ token })).rejects.toMatchObject({
+      response: { messageKey: 'auth.ACCOUNT_UNLOCK_TOKEN_INVALID' },
+    });
+  });
+
+  it('should lock unknown emails without sending anything', async () => {
+    await fail(5, null);
+
+    await expect(
+      service.assertLoginAllowed('test@example.com'),
+    ).rejects.toMatchObject({
+      response: { messageKey: 'auth.ACCOUNT_LOCKED' },
+    });
+    expect(securityAlertSender.sendAlert).not.toHaveBeenCalled();
+  });
+
+  it('should double the lockout duration on consecutive lockouts', async () => {
+    await fail(5);
+    await fail(5);
+
+    const lock = store.get(`auth:login:lock:${accountKey}`) as {
+      level: number;
+      lockedAt: number;
+      lockedUntil: number;
+    };
+    expect(lock.level).toBe(2);
+    expect(lock.lockedUntil - lock.lockedAt).toBe(1800 * 1000);
+  });
+
+  it('should block an IP that exceeded the limit', async () => {
+    store.set('auth:login:fail:ip:10.0.0.1', 50);
+
+    await expect(
+      service.assertLoginAllowed('other@example.com', '10.0.0.1'),
+    ).rejects.toMatchObject({
+      status: 429,
+      response: { messageKey: 'auth.TOO_MANY_LOGIN_ATTEMPTS' },
+    });
+  });
+
+  it('should let an admin unlock a user', async () => {
+    await fail(5);
+
+    await service.unlockUser('123', 'admin1');
+
+    expect(store.has(`auth:login:lock:${accountKey}`)).toBe(false);
+    expect(redis.zrem).toHaveBeenCalledWith('auth:login:lockouts', accountKey);
+  });
+});
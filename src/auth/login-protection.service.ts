@@ -0,0 +1,432 @@
+import { randomBytes } from 'crypto';
+import { sha256Hex } from 'src/common/utils';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountUnlockDto } from './dto';
+import { AccountUnlockState, LoginLockoutState } from './interfaces';
+import { MailerSecurityAlertSender } from './providers';
+
+interface LoginProtectionConfig {
+  maxAttempts: number;
+  delayAfterAttempts: number;
+  maxDelaySeconds: number;
+  attemptWindowSeconds: number;
+  lockoutSeconds: number;
+  maxLockoutSeconds: number;
+  ipMaxAttempts: number;
+  unlockUrl: string;
+}
+
+/**
+ * Brute-force protection for password login
+ * Failed attempts are counted per account and per IP address in Redis.
+ * Past a few failures every retry has to wait, past the limit the account
+ * is locked for a duration that doubles on every consecutive lockout.
+ * Accounts are keyed by the email hash, so unknown emails are throttled
+ * exactly like real ones and lockouts do not reveal which accounts exist.
+ */
+@Injectable()
+export class LoginProtectionService {
+  private readonly logger = new Logger(LoginProtectionService.name);
+
+  private readonly ACCOUNT_FAILURES_PREFIX = 'auth:login:fail:account:';
+  private readonly IP_FAILURES_PREFIX = 'auth:login:fail:ip:';
+  private readonly DELAY_PREFIX = 'auth:login:delay:';
+  private readonly LOCK_PREFIX = 'auth:login:lock:';
+  private readonly LOCK_LEVEL_PREFIX = 'auth:login:lock-level:';
+  private readonly LOCK_INDEX_KEY = 'auth:login:lockouts';
+  private readonly UNLOCK_TOKEN_PREFIX = 'auth:login:unlock:';
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+    private readonly securityAlertSender: MailerSecurityAlertSender,
+  ) {}
+
+  /**
+   * Reject a login attempt before the password is checked
+   * @param email - Email the login is attempted with
+   * @param ipAddress - Client IP address
+   * @throws HttpException 429 when the IP or the account has to wait
+   * @throws HttpException 423 when the account is locked
+   */
+  async assertLoginAllowed(email: string, ipAddress?: string): Promise<void> {
+    const config = this.getConfig();
+    const accountKey = this.getAccountKey(email);
+
+    if (ipAddress) {
+      const ipKey = `${this.IP_FAILURES_PREFIX}${ipAddress}`;
+      const ipFailures = Number(await this.cacheService.get<number>(ipKey));
+      if (ipFailures >= config.ipMaxAttempts) {
+        throw new HttpException(
+          {
+            messageKey: 'auth.TOO_MANY_LOGIN_ATTEMPTS',
+            messageArgs: { seconds: await this.getRemainingSeconds(ipKey) },
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    const lock = await this.cacheService.get<LoginLockoutState>(
+      `${this.LOCK_PREFIX}${accountKey}`,
+    );
+    if (lock) {
+      throw new HttpException(
+        {
+          messageKey: 'auth.ACCOUNT_LOCKED',
+          messageArgs: {
+            minutes: Math.max(
+              1,
+              Math.ceil((lock.lockedUntil - Date.now()) / 60000),
+            ),
+          },
+        },
+        HttpStatus.LOCKED,
+      );
+    }
+
+    const delayKey = `${this.DELAY_PREFIX}${accountKey}`;
+    if (await this.cacheService.exists(delayKey)) {
+      throw new HttpException(
+        {
+          messageKey: 'auth.LOGIN_RETRY_LATER',
+          messageArgs: { seconds: await this.getRemainingSeconds(delayKey) },
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Count a failed login attempt
+   * Sets the retry delay, and locks the account once the limit is reached
+   * @param email - Email the login was attempted with
+   * @param user - Account owning the email, null when there is none
+   * @param ipAddress - Client IP address
+   */
+  async recordFailure(
+    email: string,
+    user: User | null,
+    ipAddress?: string,
+  ): Promise<void> {
+    const config = this.getConfig();
+    const accountKey = this.getAccountKey(email);
+
+    const [failures] = await Promise.all([
+      this.incrementWithinWindow(
+        `${this.ACCOUNT_FAILURES_PREFIX}${accountKey}`,
+        config.attemptWindowSeconds,
+      ),
+      ipAddress
+        ? this.incrementWithinWindow(
+            `${this.IP_FAILURES_PREFIX}${ipAddress}`,
+            config.attemptWindowSeconds,
+          )
+        : Promise.resolve(0),
+    ]);
+
+    if (failures >= config.maxAttempts) {
+      await this.lockAccount(accountKey, email, user, failures, ipAddress);
+      return;
+    }
+
+    if (failures >= config.delayAfterAttempts) {
+      const delaySeconds = Math.min(
+        2 ** (failures - config.delayAfterAttempts),
+        config.maxDelaySeconds,
+      );
+      await this.cacheService.set(
+        `${this.DELAY_PREFIX}${accountKey}`,
+        Date.now(),
+        delaySeconds,
+      );
+    }
+  }
+
+  /**
+   * Reset the account counters after a successful login
+   * The IP counter is kept, one valid account does not clear an IP
+   * that is spraying passwords across many others
+   * @param email - Email the user signed in with
+   */
+  async recordSuccess(email: string): Promise<void> {
+    const accountKey = this.getAccountKey(email);
+    await Promise.all([
+      this.cacheService.delete(`${this.ACCOUNT_FAILURES_PREFIX}${accountKey}`),
+      this.cacheService.delete(`${this.DELAY_PREFIX}${accountKey}`),
+      this.cacheService.delete(`${this.LOCK_LEVEL_PREFIX}${accountKey}`),
+    ]);
+  }
+
+  /**
+   * Unlock an account with the token from the unlock email
+   * @param dto - Token from the link
+   */
+  async unlockWithToken(dto: AccountUnlockDto) {
+    const state = await this.cacheService.getAndDelete<AccountUnlockState>(
+      `${this.UNLOCK_TOKEN_PREFIX}${sha256Hex(dto.token)}`,
+    );
+    if (!state) {
+      throw new HttpException(
+        { messageKey: 'auth.ACCOUNT_UNLOCK_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.clearAccount(state.accountKey);
+    this.logger.log(`Account of user ${state.userId} unlocked by email link`);
+
+    return buildResponse({ messageKey: 'auth.ACCOUNT_UNLOCKED' });
+  }
+
+  /**
+   * Clear the lockout and failure counters of a user
+   * Used after a password reset, which proves ownership of the email
+   * @param user - User to unlock
+   */
+  async clearForUser(user: User): Promise<void> {
+    if (!user.email) return;
+    await this.clearAccount(this.getAccountKey(user.email));
+  }
+
+  /**
+   * List the accounts that are currently locked, most recent first
+   */
+  async listLockouts() {
+    const redis = this.cacheService.getRedisClient();
+    await redis.zremrangebyscore(this.LOCK_INDEX_KEY, '-inf', Date.now());
+    const accountKeys = await redis.zrevrange(this.LOCK_INDEX_KEY, 0, -1);
+
+    const lockouts = await Promise.all(
+      accountKeys.map((accountKey) =>
+        this.cacheService.get<LoginLockoutState>(
+          `${this.LOCK_PREFIX}${accountKey}`,
+        ),
+      ),
+    );
+
+    return buildResponse({
+      data: lockouts
+        .filter((lockout): lockout is LoginLockoutState => !!lockout)
+        .sort((a, b) => b.lockedAt - a.lockedAt)
+        .map((lockout) => this.toLockoutView(lockout)),
+    });
+  }
+
+  /**
+   * Get the lockout status of a user
+   * @param userId - User ID
+   */
+  async getLockoutStatus(userId: string) {
+    const user = await this.findUserOrFail(userId);
+    const accountKey = this.getAccountKey(user.email);
+
+    const [lock, failures] = await Promise.all([
+      this.cacheService.get<LoginLockoutState>(
+        `${this.LOCK_PREFIX}${accountKey}`,
+      ),
+      this.cacheService.get<number>(
+        `${this.ACCOUNT_FAILURES_PREFIX}${accountKey}`,
+      ),
+    ]);
+
+    return buildResponse({
+      data: {
+        userId: user.id,
+        locked: !!lock,
+        failedAttempts: Number(failures) || 0,
+        lockout: lock ? this.toLockoutView(lock) : null,
+      },
+    });
+  }
+
+  /**
+   * Unlock a user on behalf of support
+   * @param userId - User ID
+   * @param adminId - Admin performing the unlock, for the audit log
+   */
+  async unlockUser(userId: string, adminId: string) {
+    const user = await this.findUserOrFail(userId);
+    await this.clearAccount(this.getAccountKey(user.email));
+    this.logger.log(`Account of user ${user.id} unlocked by admin ${adminId}`);
+
+    return buildResponse({ messageKey: 'auth.ACCOUNT_UNLOCKED' });
+  }
+
+  private async lockAccount(
+    accountKey: string,
+    email: string,
+    user: User | null,
+    failedAttempts: number,
+    ipAddress?: string,
+  ): Promise<void> {
+    const config = this.getConfig();
+    const level = await this.incrementWithinWindow(
+      `${this.LOCK_LEVEL_PREFIX}${accountKey}`,
+      config.maxLockoutSeconds,
+    );
+    const durationSeconds = Math.min(
+      config.lockoutSeconds * 2 ** (level - 1),
+      config.maxLockoutSeconds,
+    );
+    const now = Date.now();
+    const lock: LoginLockoutState = {
+      accountKey,
+      userId: user?.id,
+      email,
+      lockedAt: now,
+      lockedUntil: now + durationSeconds * 1000,
+      failedAttempts,
+      level,
+      ipAddress,
+    };
+
+    await Promise.all([
+      this.cacheService.set(
+        `${this.LOCK_PREFIX}${accountKey}`,
+        lock,
+        durationSeconds,
+      ),
+      this.cacheService
+        .getRedisClient()
+        .zadd(this.LOCK_INDEX_KEY, lock.lockedUntil, accountKey),
+      this.cacheService.delete(`${this.ACCOUNT_FAILURES_PREFIX}${accountKey}`),
+      this.cacheService.delete(`${this.DELAY_PREFIX}${accountKey}`),
+    ]);
+
+    this.logger.warn(
+      `Login locked for ${user ? `user ${user.id}` : 'unknown account'} ` +
+        `after ${failedAttempts} failed attempts (level ${level}, ${durationSeconds}s, IP ${ipAddress ?? 'unknown'})`,
+    );
+
+    if (user?.email) {
+      await this.sendUnlockEmail(user, accountKey, lock);
+    }
+  }
+
+  private async sendUnlockEmail(
+    user: User,
+    accountKey: string,
+    lock: LoginLockoutState,
+  ): Promise<void> {
+    const config = this.getConfig();
+    const token = randomBytes(32).toString('base64url');
+    const state: AccountUnlockState = {
+      accountKey,
+      userId: user.id,
+      createdAt: Date.now(),
+    };
+    await this.cacheService.set(
+      `${this.UNLOCK_TOKEN_PREFIX}${sha256Hex(token)}`,
+      state,
+      Math.ceil((lock.lockedUntil - lock.lockedAt) / 1000),
+    );
+
+    const link = new URL(config.unlockUrl);
+    link.searchParams.set('token', token);
+    await this.securityAlertSender.sendAlert(
+      { email: user.email, name: user.name },
+      {
+        title: 'Your account was temporarily locked',
+        message:
+          'We locked sign-in to your account after several failed password attempts. ' +
+          'If this was you, unlock it with the button below. If it was not, ' +
+          'consider changing your password.',
+        details: [
+          { label: 'Failed attempts', value: String(lock.failedAttempts) },
+          { label: 'IP address', value: lock.ipAddress || 'unknown' },
+          {
+            label: 'Locked until',
+            value: new Date(lock.lockedUntil).toISOString(),
+          },
+        ],
+        action: {
+          description: 'Unlock your account now instead of waiting.',
+          link: link.toString(),
+          buttonText: 'Unlock account',
+        },
+      },
+    );
+  }
+
+  private async clearAccount(accountKey: string): Promise<void> {
+    await Promise.all([
+      this.cacheService.delete(`${this.LOCK_PREFIX}${accountKey}`),
+      this.cacheService.delete(`${this.LOCK_LEVEL_PREFIX}${accountKey}`),
+      this.cacheService.delete(`${this.ACCOUNT_FAILURES_PREFIX}${accountKey}`),
+      this.cacheService.delete(`${this.DELAY_PREFIX}${accountKey}`),
+      this.cacheService.getRedisClient().zrem(this.LOCK_INDEX_KEY, accountKey),
+    ]);
+  }
+
+  /**
+   * Increment a counter whose window starts at the first increment
+   * @returns The counter value after the increment
+   */
+  private async incrementWithinWindow(
+    key: string,
+    windowSeconds: number,
+  ): Promise<number> {
+    const redis = this.cacheService.getRedisClient();
+    const count = await redis.incr(key);
+    if (count === 1) {
+      await redis.expire(key, windowSeconds);
+    }
+    return count;
+  }
+
+  private async getRemainingSeconds(key: string): Promise<number> {
+    return Math.max(1, await this.cacheService.getTtl(key));
+  }
+
+  private async findUserOrFail(userId: string): Promise<User> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new HttpException(
+        { messageKey: 'user.USER_NOT_FOUND' },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return user;
+  }
+
+  private toLockoutView(lock: LoginLockoutState) {
+    return {
+      userId: lock.userId ?? null,
+      email: lock.email,
+      lockedAt: new Date(lock.lockedAt).toISOString(),
+      lockedUntil: new Date(lock.lockedUntil).toISOString(),
+      failedAttempts: lock.failedAttempts,
+      level: lock.level,
+      ipAddress: lock.ipAddress ?? null,
+    };
+  }
+
+  private getAccountKey(email: string): string {
+    return sha256Hex(email.trim().toLowerCase());
+  }
+
+  private getConfig(): LoginProtectionConfig {
+    const config =
+      this.configService.get<Partial<LoginProtectionConfig>>(
+        'app.loginProtection',
+      ) ?? {};
+    return {
+      maxAttempts: config.maxAttempts ?? 5,
+      delayAfterAttempts: config.delayAfterAttempts ?? 3,
+      maxDelaySeconds: config.maxDelaySeconds ?? 30,
+      attemptWindowSeconds: config.attemptWindowSeconds ?? 15 * 60,
+      lockoutSeconds: config.lockoutSeconds ?? 15 * 60,
+      maxLockoutSeconds: config.maxLockoutSeconds ?? 24 * 60 * 60,
+      ipMaxAttempts: config.ipMaxAttempts ?? 50,
+      unlockUrl: config.unlockUrl ?? 'http://localhost:3000/unlock-account',
+    };
+  }
+}
@@ -0,0 +1,234 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getDeviceFingerprint, sha256Hex } from 'src/common/utils';
+import { CacheService } from 'src/shared/services';
+import { User, UserSession } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { LoginRiskService } from './login-risk.service';
+import {
+  FirebasePushNotificationSender,
+  MailerSecurityAlertSender,
+} from './providers';
+import { SessionRevocationService } from './session-revocation.service';
+
+describe('LoginRiskService', () => {
+  let service: LoginRiskService;
+  let usersService: jest.Mocked<UsersService>;
+  let cacheService: jest.Mocked<CacheService>;
+  let securityAlertSender: jest.Mocked<MailerSecurityAlertSender>;
+  let pushSender: jest.Mocked<FirebasePushNotificationSender>;
+  let sessionRevocation: jest.Mocked<SessionRevocationService>;
+
+  const laptop = {
+    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) Chrome/120.0',
+    deviceType: 'desktop',
+    browser: 'Chrome',
+    operatingSystem: 'macOS',
+  };
+  const phone = {
+    userAgent: 'Mozilla/5.0 (Linux; Android 14) Mobile Firefox/121.0',
+    deviceType: 'mobile',
+    browser: 'Firefox',
+    operatingSystem: 'Android',
+  };
+
+  const buildSession = (overrides: Partial<UserSession> = {}) =>
+    Object.assign(new UserSession(), {
+      id: 'old-session',
+      userId: '123',
+      ipAddress: '203.0.113.10',
+      userAgent: laptop.userAgent,
+      metadata: { ...laptop },
+      createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+      ...overrides,
+    });
+
+  const mockUser = {
+    id: '123',
+    email: 'test@example.com',
+    name: 'Test User',
+  } as User;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginRiskService,
+        {
+          provide: UsersService,
+          useValue: {
+            findRecentSessionsByUserId: jest.fn().mockResolvedValue([]),
+            findActiveDeviceTokensByUserId: jest
+              .fn()
+              .mockResolvedValue(['device-token']),
+            findSessionById: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            set: jest.fn(),
+            getAndDelete: jest.fn(),
+          },
+        },
+        {
+          provide: MailerSecurityAlertSender,
+          useValue: { sendAlert: jest.fn() },
+        },
+        {
+          provide: FirebasePushNotificationSender,
+          useValue: { send: jest.fn() },
+        },
+        {
+          provide: SessionRevocationService,
+          useValue: { revokeSession: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(LoginRiskService);
+    usersService = module.get(UsersService);
+    cacheService = module.get(CacheService);
+    securityAlertSender = module.get(MailerSecurityAlertSender);
+    pushSender = module.get(FirebasePushNotificationSender);
+    sessionRevocation = module.get(SessionRevocationService);
+  });
+
+  describe('assess', () => {
+    it('should not flag the first sign-in of an account', async () => {
+      const result = await service.assess('123', {
+        ...laptop,
+        ipAddress: '198.51.100.7',
+      });
+
+      expect(result.score).toBe(0);
+      expect(result.level).toBe('low');
+    });
+
+    it('should not flag a known device on a known network', async () => {
+      usersService.findRecentSessionsByUserId.mockResolvedValue([
+        buildSession(),
+      ]);
+
+      const result = await service.assess('123', {
+        ...laptop,
+        userAgent: laptop.userAgent.replace('120.0', '121.0'),
+        ipAddress: '203.0.113.99',
+      });
+
+      expect(result.reasons).toEqual([]);
+    });
+
+    it('should flag a new device on a new network as high risk', async () => {
+      usersService.findRecentSessionsByUserId.mockResolvedValue([
+        buildSession(),
+      ]);
+
+      const result = await service.assess('123', {
+        ...phone,
+        ipAddress: '198.51.100.7',
+      });
+
+      expect(result.reasons).toEqual(['new_device', 'new_network']);
+      expect(result.score).toBe(70);
+      expect(result.level).toBe('high');
+      expect(result.deviceFingerprint).toBe(getDeviceFingerprint(phone));
+    });
+
+    it('should flag a jump to a distant network right after a sign-in', async () => {
+      usersService.findRecentSessionsByUserId.mockResolvedValue([
+        buildSession({ createdAt: new Date(Date.now() - 5 * 60 * 1000) }),
+        buildSession({ ipAddress: '198.51.100.7' }),
+      ]);
+
+      const result = await service.assess('123', {
+        ...laptop,
+        ipAddress: '198.51.100.7',
+      });
+
+      expect(result.reasons).toEqual(['impossible_travel']);
+      expect(result.level).toBe('medium');
+    });
+  });
+
+  describe('alertIfRisky', () => {
+    const session = buildSession({ id: 'new-session' });
+
+    it('should email and push a report link for a risky sign-in', async () => {
+      await service.alertIfRisky(mockUser, session, {
+        score: 70,
+        level: 'high',
+        reasons: ['new_device', 'new_network'],
+        deviceFingerprint: 'fingerprint',
+      });
+
+      const [, alert] = securityAlertSender.sendAlert.mock.calls[0];
+      const token = new URL(alert.action!.link).searchParams.get('token')!;
+      expect(cacheService.set).toHaveBeenCalledWith(
+        `auth:signin-report:${sha256Hex(token)}`,
+        expect.objectContaining({ userId: '123', sessionId: 'new-session' }),
+        expect.any(Number),
+      );
+      expect(pushSender.send).toHaveBeenCalledWith(
+        ['device-token'],
+        expect.objectContaining({
+          data: expect.objectContaining({
+            sessionId: 'new-session',
+          }) as Record<string, string>,
+        }),
+      );
+    });
+
+    it('should stay silent below the threshold', async () => {
+      await service.alertIfRisky(mockUser, session, {
+        score: 40,
+        level: 'medium',
+        reasons: ['new_device'],
+        deviceFingerprint: 'fingerprint',
+      });
+
+      expect(securityAlertSender.sendAlert).not.toHaveBeenCalled();
+      expect(pushSender.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reportSignIn', () => {
+    it('should revoke the reported session', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        sessionId: 'new-session',
+        createdAt: Date.now(),
+      });
+      usersService.findSessionById.mockResolvedValue(
+        buildSession({ id: 'new-session' }),
+      );
+
+      const result = await service.reportSignIn({ token: 'report-token' });
+
+      expect(result.messageKey).toBe('auth.SIGN_IN_REPORTED');
+      expect(cacheService.getAndDelete).toHaveBeenCalledWith(
+        `auth:signin-report:${sha256Hex('report-token')}`,
+      );
+      expect(sessionRevocation.revokeSession).toHaveBeenCalledWith(
+        '123',
+        'new-session',
+      );
+    });
+
+    it('should reject a used or expired token', async () => {
+      cacheService.getAndDelete.mockResolvedValue(null);
+
+      await expect(
+        service.reportSignIn({ token: 'report-token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.SIGN_IN_REPORT_TOKEN_INVALID' },
+      });
+      expect(sessionRevocation.revokeSession).not.toHaveBeenCalled();
+    });
+  });
+});
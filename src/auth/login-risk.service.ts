@@ -0,0 +1,281 @@
+import { randomBytes } from 'crypto';
+import { ClientInfo } from 'src/common/decorators';
+import {
+  getDeviceFingerprint,
+  getIpNetwork,
+  sha256Hex,
+} from 'src/common/utils';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import { LoginRiskReason, USER_CONSTANTS } from 'src/shared/constants';
+import { User, UserSession } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SignInReportDto } from './dto';
+import { LoginRiskAssessment, SignInReportState } from './interfaces';
+import {
+  FirebasePushNotificationSender,
+  MailerSecurityAlertSender,
+} from './providers';
+import { SessionRevocationService } from './session-revocation.service';
+
+const RISK_WEIGHTS: Record<LoginRiskReason, number> = {
+  [USER_CONSTANTS.LOGIN_RISK_REASONS.NEW_DEVICE]: 40,
+  [USER_CONSTANTS.LOGIN_RISK_REASONS.NEW_NETWORK]: 30,
+  [USER_CONSTANTS.LOGIN_RISK_REASONS.IMPOSSIBLE_TRAVEL]: 50,
+};
+
+/**
+ * Sign-in anomaly detection
+ * Every new session is compared with the sessions the user created
+ * recently. An unknown device, a network the user never signed in from,
+ * or a jump to a distant network right after the previous sign-in raise
+ * the risk score; risky sign-ins are reported to the user by email and
+ * push with a link that revokes the session.
+ */
+@Injectable()
+export class LoginRiskService {
+  private readonly logger = new Logger(LoginRiskService.name);
+
+  private readonly REPORT_TOKEN_PREFIX = 'auth:signin-report:';
+  private readonly REPORT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+    private readonly securityAlertSender: MailerSecurityAlertSender,
+    private readonly pushSender: FirebasePushNotificationSender,
+    private readonly sessionRevocation: SessionRevocationService,
+  ) {}
+
+  /**
+   * Score a sign-in against the recent sign-in history of the user
+   * The first sign-in of an account has nothing to compare with and is
+   * always low risk
+   * @param userId - User signing in
+   * @param clientInfo - Client information of the sign-in
+   */
+  async assess(
+    userId: string,
+    clientInfo: ClientInfo,
+  ): Promise<LoginRiskAssessment> {
+    const config = this.getConfig();
+    const deviceFingerprint = getDeviceFingerprint(clientInfo);
+    const history = await this.usersService.findRecentSessionsByUserId(
+      userId,
+      new Date(Date.now() - config.historyDays * 24 * 60 * 60 * 1000),
+    );
+
+    const reasons: LoginRiskReason[] = [];
+    if (history.length > 0) {
+      const knownDevice = history.some(
+        (session) => this.getSessionFingerprint(session) === deviceFingerprint,
+      );
+      if (!knownDevice) {
+        reasons.push(USER_CONSTANTS.LOGIN_RISK_REASONS.NEW_DEVICE);
+      }
+
+      const network = getIpNetwork(clientInfo.ipAddress);
+      if (
+        network &&
+        !history.some((session) => getIpNetwork(session.ipAddress) === network)
+      ) {
+        reasons.push(USER_CONSTANTS.LOGIN_RISK_REASONS.NEW_NETWORK);
+      }
+
+      if (this.isImpossibleTravel(history[0], clientInfo, config)) {
+        reasons.push(USER_CONSTANTS.LOGIN_RISK_REASONS.IMPOSSIBLE_TRAVEL);
+      }
+    }
+
+    const score = Math.min(
+      100,
+      reasons.reduce((total, reason) => total + RISK_WEIGHTS[reason], 0),
+    );
+    return {
+      score,
+      level: this.getLevel(score, config.alertThreshold),
+      reasons,
+      deviceFingerprint,
+    };
+  }
+
+  /**
+   * Alert the user about a risky sign-in by email and push
+   * Never throws, a failed alert must not fail the sign-in
+   * @param user - User who signed in
+   * @param session - Newly created session
+   * @param assessment - Result of `assess`
+   */
+  async alertIfRisky(
+    user: User,
+    session: UserSession,
+    assessment: LoginRiskAssessment,
+  ): Promise<void> {
+    if (assessment.score < this.getConfig().alertThreshold) return;
+
+    this.logger.warn(
+      `Risky sign-in for user ${user.id} (session ${session.id}, score ${assessment.score}: ${assessment.reasons.join(', ')})`,
+    );
+
+    try {
+      const reportLink = await this.issueReportLink(user.id, session.id);
+      const device =
+        [session.metadata?.browser, session.metadata?.operatingSystem]
+          .filter((part) => part && part !== 'unknown')
+          .join(' on ') ||
+        session.userAgent ||
+        'unknown';
+
+      const deviceTokens =
+        await this.usersService.findActiveDeviceTokensByUserId(user.id);
+
+      await Promise.all([
+        user.email
+          ? this.securityAlertSender.sendAlert(
+              { email: user.email, name: user.name },
+              {
+                title: 'New sign-in to your account',
+                message:
+                  'Your account was just signed in to from a device or location we have not seen before. ' +
+                  'If this was you, you can ignore this email.',
+                details: [
+                  { label: 'Device', value: device },
+                  {
+                    label: 'IP address',
+                    value: session.ipAddress || 'unknown',
+                  },
+                  { label: 'Time', value: new Date().toISOString() },
+                ],
+                action: {
+                  description:
+                    'If this was not you, sign this device out right away and change your password.',
+                  link: reportLink,
+                  buttonText: "This wasn't me",
+                },
+              },
+            )
+          : Promise.resolve(),
+        this.pushSender.send(deviceTokens, {
+          title: 'New sign-in to your account',
+          body: `${device} · ${session.ipAddress || 'unknown IP'}. Tap if this wasn't you.`,
+          data: {
+            type: 'new_sign_in',
+            sessionId: session.id,
+            reportLink,
+          },
+        }),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send sign-in alert for user ${user.id}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Revoke the session reported with the "this wasn't me" link
+   * @param dto - Token from the link
+   */
+  async reportSignIn(dto: SignInReportDto) {
+    const state = await this.cacheService.getAndDelete<SignInReportState>(
+      `${this.REPORT_TOKEN_PREFIX}${sha256Hex(dto.token)}`,
+    );
+    if (!state) {
+      throw new HttpException(
+        { messageKey: 'auth.SIGN_IN_REPORT_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const session = await this.usersService.findSessionById(state.sessionId);
+    if (session && session.userId === state.userId) {
+      await this.sessionRevocation.revokeSession(session.userId, session.id);
+    }
+
+    this.logger.warn(
+      `Sign-in reported as not recognized by user ${state.userId}, session ${state.sessionId} revoked`,
+    );
+
+    return buildResponse({ messageKey: 'auth.SIGN_IN_REPORTED' });
+  }
+
+  private async issueReportLink(
+    userId: string,
+    sessionId: string,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const state: SignInReportState = {
+      userId,
+      sessionId,
+      createdAt: Date.now(),
+    };
+    await this.cacheService.set(
+      `${this.REPORT_TOKEN_PREFIX}${sha256Hex(token)}`,
+      state,
+      this.REPORT_TOKEN_TTL_SECONDS,
+    );
+
+    const link = new URL(this.getConfig().reportUrl);
+    link.searchParams.set('token', token);
+    return link.toString();
+  }
+
+  /**
+   * A sign-in from another /16 network shortly after the previous one
+   * Without a geo-IP database this is a coarse stand-in for distance,
+   * roaming between mobile carriers can trigger it as well
+   */
+  private isImpossibleTravel(
+    previous: UserSession,
+    clientInfo: ClientInfo,
+    config: ReturnType<LoginRiskService['getConfig']>,
+  ): boolean {
+    const previousNetwork = getIpNetwork(previous.ipAddress, 16);
+    const network = getIpNetwork(clientInfo.ipAddress, 16);
+    if (!previousNetwork || !network || previousNetwork === network) {
+      return false;
+    }
+    const elapsedMs = Date.now() - new Date(previous.createdAt).getTime();
+    return elapsedMs < config.impossibleTravelSeconds * 1000;
+  }
+
+  private getSessionFingerprint(session: UserSession): string {
+    const metadata = session.metadata ?? {};
+    if (typeof metadata.deviceFingerprint === 'string') {
+      return metadata.deviceFingerprint;
+    }
+    return getDeviceFingerprint({
+      userAgent: session.userAgent,
+      deviceType: metadata.deviceType as string | undefined,
+      browser: metadata.browser as string | undefined,
+      operatingSystem: metadata.operatingSystem as string | undefined,
+    });
+  }
+
+  private getLevel(score: number, alertThreshold: number) {
+    if (score >= alertThreshold) return USER_CONSTANTS.LOGIN_RISK_LEVELS.HIGH;
+    if (score > 0) return USER_CONSTANTS.LOGIN_RISK_LEVELS.MEDIUM;
+    return USER_CONSTANTS.LOGIN_RISK_LEVELS.LOW;
+  }
+
+  private getConfig() {
+    return {
+      historyDays:
+        this.configService.get<number>('app.loginRisk.historyDays') ?? 90,
+      impossibleTravelSeconds:
+        this.configService.get<number>(
+          'app.loginRisk.impossibleTravelSeconds',
+        ) ?? 30 * 60,
+      alertThreshold:
+        this.configService.get<number>('app.loginRisk.alertThreshold') ?? 60,
+      reportUrl:
+        this.configService.get<string>('app.loginRisk.reportUrl') ||
+        'http://localhost:3000/report-sign-in',
+    };
+  }
+}
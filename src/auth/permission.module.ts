@@ -0,0 +1,19 @@
+import { UsersModule } from 'src/users/users.module';
+
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { Role } from './entities';
+import { PermissionService } from './permission.service';
+
+/**
+ * Global so `RolesGuard` and `PermissionsGuard` can resolve roles in any
+ * module
+ */
+@Global()
+@Module({
+  imports: [UsersModule, TypeOrmModule.forFeature([Role])],
+  providers: [PermissionService],
+  exports: [PermissionService],
+})
+export class PermissionModule {}
@@ -0,0 +1,227 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DEFAULT_ROLES } from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { Role } from './entities';
+import { PermissionService } from './permission.service';
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+  let usersService: jest.Mocked<UsersService>;
+  let cacheService: jest.Mocked<CacheService>;
+  let rows: Role[];
+  let roleRepository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+    delete: jest.Mock;
+  };
+
+  const buildRole = (
+    name: string,
+    inherits: string[],
+    permissions: string[],
+    updatedAt = new Date('2024-01-01T00:00:00Z'),
+  ) =>
+    Object.assign(new Role(), {
+      id: name,
+      name,
+      description: null,
+      inherits,
+      permissions,
+      isSystem: name in DEFAULT_ROLES,
+      updatedAt,
+    });
+
+  beforeEach(async () => {
+    rows = [
+      buildRole('user', [], ['media:delete:own']),
+      buildRole('moderator', ['user'], ['media:delete:any']),
+      buildRole('admin', ['moderator'], ['rate-limit:manage', 'mail:send']),
+      buildRole('super_admin', ['admin'], ['*']),
+      buildRole('support', [], ['users:read:any']),
+    ];
+    roleRepository = {
+      find: jest.fn(() => Promise.resolve(rows)),
+      findOne: jest.fn(({ where }: { where: { name: string } }) =>
+        Promise.resolve(rows.find((role) => role.name === where.name) ?? null),
+      ),
+      create: jest.fn((role: Partial<Role>) => Object.assign(new Role(), role)),
+      save: jest.fn((role: Role | Role[]) => {
+        const saved = (Array.isArray(role) ? role : [role]).map((item) =>
+          Object.assign(item, { updatedAt: new Date() }),
+        );
+        rows = [
+          ...rows.filter(
+            (row) => !saved.some((item) => item.name === row.name),
+          ),
+          ...saved,
+        ];
+        return Promise.resolve(role);
+      }),
+      delete: jest.fn(({ id }: { id: string }) => {
+        rows = rows.filter((role) => role.id !== id);
+        return Promise.resolve();
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionService,
+        { provide: getRepositoryToken(Role), useValue: roleRepository },
+        {
+          provide: UsersService,
+          useValue: { findOne: jest.fn().mockResolvedValue(null) },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            get: jest.fn().mockResolvedValue(null),
+            set: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PermissionService);
+    usersService = module.get(UsersService);
+    cacheService = module.get(CacheService);
+  });
+
+  describe('resolve', () => {
+    it('should include the inherited roles and permissions', async () => {
+      const admin = await service.resolve('admin');
+
+      expect(admin.roles).toEqual(['admin', 'moderator', 'user']);
+      expect(admin.permissions).toEqual(
+        expect.arrayContaining([
+          'rate-limit:manage',
+          'media:delete:any',
+          'media:delete:own',
+        ]),
+      );
+      await expect(
+        service.hasRole({ uid: '1', ssid: 's', role: 'super_admin' }, [
+          'admin',
+        ]),
+      ).resolves.toBe(true);
+      await expect(
+        service.hasRole({ uid: '1', ssid: 's', role: 'moderator' }, ['admin']),
+      ).resolves.toBe(false);
+    });
+
+    it('should check permissions with wildcards and scopes', async () => {
+      const payload = (role: string) => ({ uid: '1', ssid: 's', role });
+
+      await expect(
+        service.hasPermissions(payload('super_admin'), ['roles:manage']),
+      ).resolves.toBe(true);
+      await expect(
+        service.hasPermissions(payload('moderator'), ['media:delete:own']),
+      ).resolves.toBe(true);
+      await expect(
+        service.hasPermissions(payload('user'), ['media:delete:any']),
+      ).resolves.toBe(false);
+      await expect(
+        service.hasPermissions(payload('unknown'), ['mail:send']),
+      ).resolves.toBe(false);
+    });
+
+    it('should version the snapshot with the latest role change', async () => {
+      await expect(service.getVersion()).resolves.toBe(
+        new Date('2024-01-01T00:00:00Z').getTime(),
+      );
+      expect(cacheService.set).toHaveBeenCalledWith(
+        'auth:permissions:snapshot',
+        expect.objectContaining({ version: expect.any(Number) as number }),
+        3600,
+      );
+    });
+
+    it('should reload when a token is newer than the cached snapshot', async () => {
+      await service.resolve('user');
+      expect(roleRepository.find).toHaveBeenCalledTimes(1);
+
+      rows = rows.map((role) =>
+        role.name === 'user'
+          ? buildRole('user', [], ['mail:send'], new Date('2024-02-01'))
+          : role,
+      );
+      await expect(service.resolve('user')).resolves.toMatchObject({
+        permissions: ['media:delete:own'],
+      });
+
+      const tokenVersion = new Date('2024-02-01').getTime();
+      await expect(service.resolve('user', tokenVersion)).resolves.toEqual({
+        roles: ['user'],
+        permissions: ['mail:send'],
+      });
+      expect(roleRepository.find).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('role management', () => {
+    it('should reject unknown parents and inheritance cycles', async () => {
+      await expect(
+        service.createRole({ name: 'auditor', inherits: ['nobody'] }),
+      ).rejects.toMatchObject({
+        status: 404,
+        response: { messageKey: 'auth.ROLE_NOT_FOUND' },
+      });
+      await expect(
+        service.updateRole('user', { inherits: ['admin'] }),
+      ).rejects.toMatchObject({
+        status: 400,
+        response: { messageKey: 'auth.ROLE_INHERITANCE_CYCLE' },
+      });
+    });
+
+    it('should apply an update to the roles inheriting from it', async () => {
+      await service.resolve('admin');
+
+      await service.updateRole('user', {
+        permissions: ['media:delete:own', 'media:upload:own'],
+      });
+
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:permissions:snapshot',
+      );
+      const admin = await service.resolve('admin');
+      expect(admin.permissions).toContain('media:upload:own');
+    });
+
+    it('should only delete custom roles nobody uses', async () => {
+      await expect(service.deleteRole('admin')).rejects.toMatchObject({
+        response: { messageKey: 'auth.ROLE_SYSTEM' },
+      });
+
+      usersService.findOne.mockResolvedValueOnce({ id: '1' } as never);
+      await expect(service.deleteRole('support')).rejects.toMatchObject({
+        status: 409,
+        response: { messageKey: 'auth.ROLE_IN_USE' },
+      });
+
+      await service.deleteRole('support');
+      expect(roleRepository.delete).toHaveBeenCalledWith({ id: 'support' });
+    });
+  });
+
+  it('should create the missing default roles at startup', async () => {
+    rows = rows.filter((role) => role.name !== 'moderator');
+
+    await service.onModuleInit();
+
+    expect(roleRepository.save).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: 'moderator',
+        inherits: ['user'],
+        isSystem: true,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,336 @@
+import { AuthPayload } from 'src/common/interface';
+import { hasPermissions } from 'src/common/utils';
+import { DEFAULT_ROLES } from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { Repository } from 'typeorm';
+
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { CreateRoleDto, UpdateRoleDto } from './dto';
+import { Role } from './entities';
+import { PermissionSnapshot, ResolvedRole } from './interfaces';
+
+/**
+ * Roles and permissions
+ * Roles live in the database and inherit the permissions of their parent
+ * roles. Every role is resolved at once into a snapshot cached in Redis
+ * and in memory. The snapshot version is the time of the latest role
+ * change and is signed into access tokens as `pv`: a token newer than the
+ * local snapshot forces a reload, older tokens get the current permissions
+ * within LOCAL_SNAPSHOT_TTL_MS, so changes apply without signing in again.
+ */
+@Injectable()
+export class PermissionService implements OnModuleInit {
+  private readonly logger = new Logger(PermissionService.name);
+
+  private readonly SNAPSHOT_KEY = 'auth:permissions:snapshot';
+  private readonly SNAPSHOT_TTL_SECONDS = 60 * 60; // 1 hour
+  private readonly LOCAL_SNAPSHOT_TTL_MS = 30 * 1000; // 30 seconds
+
+  private snapshot?: PermissionSnapshot;
+  private snapshotLoadedAt = 0;
+  private loading?: Promise<PermissionSnapshot>;
+
+  constructor(
+    @InjectRepository(Role)
+    private readonly roleRepository: Repository<Role>,
+    private readonly usersService: UsersService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.seedDefaultRoles();
+    } catch (error) {
+      this.logger.error('Failed to create the default roles:', error);
+    }
+  }
+
+  /**
+   * Current permissions version, signed into access tokens
+   */
+  async getVersion(): Promise<number> {
+    return (await this.getSnapshot()).version;
+  }
+
+  /**
+   * Roles and permissions a role grants, inherited ones included
+   * Unknown roles only grant themselves
+   * @param role - Role name
+   * @param tokenVersion - `pv` of the token being checked
+   */
+  async resolve(
+    role: string | undefined,
+    tokenVersion?: number,
+  ): Promise<ResolvedRole> {
+    if (!role) return { roles: [], permissions: [] };
+    const snapshot = await this.getSnapshot(tokenVersion);
+    return snapshot.roles[role] ?? { roles: [role], permissions: [] };
+  }
+
+  /**
+   * Check that the token grants every permission in `required`
+   */
+  async hasPermissions(
+    payload: AuthPayload,
+    required: string[],
+  ): Promise<boolean> {
+    const { permissions } = await this.resolve(payload.role, payload.pv);
+    return hasPermissions(permissions, required);
+  }
+
+  /**
+   * Check that the token has one of `required`, directly or by inheritance
+   */
+  async hasRole(payload: AuthPayload, required: string[]): Promise<boolean> {
+    const { roles } = await this.resolve(payload.role, payload.pv);
+    return roles.some((role) => required.includes(role));
+  }
+
+  /**
+   * Check whether `role` is `ancestor` or inherits from it
+   */
+  async inheritsRole(role: string, ancestor: string): Promise<boolean> {
+    const { roles } = await this.resolve(role);
+    return roles.includes(ancestor);
+  }
+
+  listRoles(): Promise<Role[]> {
+    return this.roleRepository.find({ order: { name: 'ASC' } });
+  }
+
+  /**
+   * A role with the roles and permissions it resolves to
+   */
+  async getRole(name: string) {
+    const role = await this.findRoleOrFail(name);
+    const resolved = await this.resolve(role.name);
+    return {
+      ...role.toJSON(),
+      inheritedRoles: resolved.roles.slice(1),
+      effectivePermissions: resolved.permissions,
+    };
+  }
+
+  async createRole(dto: CreateRoleDto): Promise<Role> {
+    if (await this.roleRepository.findOne({ where: { name: dto.name } })) {
+      throw new HttpException(
+        {
+          messageKey: 'auth.ROLE_ALREADY_EXISTS',
+          messageArgs: { name: dto.name },
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+    const inherits = [...new Set(dto.inherits ?? [])];
+    await this.assertValidInheritance(dto.name, inherits);
+
+    const role = await this.roleRepository.save(
+      this.roleRepository.create({
+        name: dto.name,
+        description: dto.description ?? null,
+        inherits,
+        permissions: [...new Set(dto.permissions ?? [])],
+        isSystem: false,
+      }),
+    );
+    await this.invalidate();
+    this.logger.log(`Role ${role.name} created`);
+    return role;
+  }
+
+  async updateRole(name: string, dto: UpdateRoleDto): Promise<Role> {
+    const role = await this.findRoleOrFail(name);
+    if (dto.inherits) {
+      role.inherits = [...new Set(dto.inherits)];
+      await this.assertValidInheritance(role.name, role.inherits);
+    }
+    if (dto.permissions) role.permissions = [...new Set(dto.permissions)];
+    if (dto.description !== undefined) role.description = dto.description;
+
+    const saved = await this.roleRepository.save(role);
+    await this.invalidate();
+    this.logger.log(`Role ${role.name} updated`);
+    return saved;
+  }
+
+  /**
+   * Delete a custom role that no user has and no role inherits
+   */
+  async deleteRole(name: string): Promise<void> {
+    const role = await this.findRoleOrFail(name);
+    if (role.isSystem) {
+      throw new HttpException(
+        { messageKey: 'auth.ROLE_SYSTEM' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const roles = await this.roleRepository.find();
+    const inherited = roles.some((other) => other.inherits.includes(name));
+    if (inherited || (await this.usersService.findOne({ role: name }))) {
+      throw new HttpException(
+        { messageKey: 'auth.ROLE_IN_USE', messageArgs: { name } },
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    await this.roleRepository.delete({ id: role.id });
+    await this.invalidate();
+    this.logger.log(`Role ${name} deleted`);
+  }
+
+  async findRoleOrFail(name: string): Promise<Role> {
+    const role = await this.roleRepository.findOne({ where: { name } });
+    if (!role) {
+      throw new HttpException(
+        { messageKey: 'auth.ROLE_NOT_FOUND', messageArgs: { name } },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return role;
+  }
+
+  private async getSnapshot(
+    tokenVersion?: number,
+  ): Promise<PermissionSnapshot> {
+    if (
+      this.snapshot &&
+      Date.now() - this.snapshotLoadedAt < this.LOCAL_SNAPSHOT_TTL_MS &&
+      (tokenVersion === undefined || tokenVersion <= this.snapshot.version)
+    ) {
+      return this.snapshot;
+    }
+
+    this.loading ??= this.loadSnapshot(tokenVersion).finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  private async loadSnapshot(
+    tokenVersion?: number,
+  ): Promise<PermissionSnapshot> {
+    let snapshot = await this.cacheService.get<PermissionSnapshot>(
+      this.SNAPSHOT_KEY,
+    );
+    if (
+      !snapshot ||
+      (tokenVersion !== undefined && snapshot.version < tokenVersion)
+    ) {
+      snapshot = this.buildSnapshot(await this.roleRepository.find());
+      await this.cacheService.set(
+        this.SNAPSHOT_KEY,
+        snapshot,
+        this.SNAPSHOT_TTL_SECONDS,
+      );
+    }
+
+    // A token can be newer than every remaining role, e.g. after a delete,
+    // it must not reload the snapshot on every request
+    this.snapshot = {
+      ...snapshot,
+      version: Math.max(snapshot.version, tokenVersion ?? 0),
+    };
+    this.snapshotLoadedAt = Date.now();
+    return this.snapshot;
+  }
+
+  private buildSnapshot(rows: Role[]): PermissionSnapshot {
+    const byName = new Map(rows.map((role) => [role.name, role]));
+    const roles: Record<string, ResolvedRole> = {};
+
+    for (const role of rows) {
+      const chain: string[] = [];
+      const queue = [role.name];
+      while (queue.length > 0) {
+        const name = queue.shift()!;
+        if (chain.includes(name)) continue;
+        chain.push(name);
+        queue.push(...(byName.get(name)?.inherits ?? []));
+      }
+
+      roles[role.name] = {
+        roles: chain,
+        permissions: [
+          ...new Set(
+            chain.flatMap((name) => byName.get(name)?.permissions ?? []),
+          ),
+        ],
+      };
+    }
+
+    const version = Math.max(
+      0,
+      ...rows.map((role) => new Date(role.updatedAt).getTime()),
+    );
+    return { version, roles };
+  }
+
+  /**
+   * Parents must exist and must not lead back to the role
+   */
+  private async assertValidInheritance(
+    name: string,
+    inherits: string[],
+  ): Promise<void> {
+    const rows = await this.roleRepository.find();
+    const byName = new Map(rows.map((role) => [role.name, role.inherits]));
+
+    const unknown = inherits.find((parent) => !byName.has(parent));
+    if (unknown) {
+      throw new HttpException(
+        { messageKey: 'auth.ROLE_NOT_FOUND', messageArgs: { name: unknown } },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    byName.set(name, inherits);
+    const visited = new Set<string>();
+    const queue = [...inherits];
+    while (queue.length > 0) {
+      const parent = queue.shift()!;
+      if (parent === name) {
+        throw new HttpException(
+          { messageKey: 'auth.ROLE_INHERITANCE_CYCLE' },
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      if (visited.has(parent)) continue;
+      visited.add(parent);
+      queue.push(...(byName.get(parent) ?? []));
+    }
+  }
+
+  private async seedDefaultRoles(): Promise<void> {
+    const existing = new Set(
+      (await this.roleRepository.find()).map((role) => role.name),
+    );
+    const missing = Object.entries(DEFAULT_ROLES).filter(
+      ([name]) => !existing.has(name),
+    );
+    if (missing.length === 0) return;
+
+    await this.roleRepository.save(
+      missing.map(([name, role]) =>
+        this.roleRepository.create({ name, ...role, isSystem: true }),
+      ),
+    );
+    await this.invalidate();
+    this.logger.log(
+      `Created default roles: ${missing.map(([name]) => name).join(', ')}`,
+    );
+  }
+
+  private async invalidate(): Promise<void> {
+    this.snapshot = undefined;
+    await this.cacheService.delete(this.SNAPSHOT_KEY);
+  }
+}
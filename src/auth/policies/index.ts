@@ -0,0 +1,2 @@
+export * from './ownership.policy';
+export * from './session.policy';
@@ -0,0 +1,31 @@
+import { AuthPayload, ResourcePolicy } from 'src/common/interface';
+
+import { PermissionService } from '../permission.service';
+
+/**
+ * Base policy for resources that belong to a user
+ * The owner may perform every action, anyone else needs the
+ * `{resource}:{action}:any` permission, e.g. `media:delete:any`
+ */
+export abstract class OwnershipPolicy<T> implements ResourcePolicy<T> {
+  // Resource segment of the permission strings, e.g. `media`
+  protected abstract readonly resource: string;
+  abstract readonly notFoundMessageKey: string;
+  readonly concealDenied: boolean = false;
+
+  constructor(protected readonly permissionService: PermissionService) {}
+
+  abstract load(id: string): Promise<T | null>;
+
+  /**
+   * ID of the user the resource belongs to
+   */
+  protected abstract getOwnerId(resource: T): string | null | undefined;
+
+  async can(user: AuthPayload, action: string, resource: T): Promise<boolean> {
+    if (this.getOwnerId(resource) === user.uid) return true;
+    return this.permissionService.hasPermissions(user, [
+      `${this.resource}:${action}:any`,
+    ]);
+  }
+}
@@ -0,0 +1,34 @@
+import { UserSession } from 'src/users/entities';
+import { UserSessionsService } from 'src/users/services';
+
+import { Injectable } from '@nestjs/common';
+
+import { PermissionService } from '../permission.service';
+import { OwnershipPolicy } from './ownership.policy';
+
+/**
+ * Sessions of other users are reported as not found, never as forbidden,
+ * so their IDs cannot be probed
+ */
+@Injectable()
+export class SessionPolicy extends OwnershipPolicy<UserSession> {
+  protected readonly resource = 'sessions';
+  readonly notFoundMessageKey = 'user.SESSION_NOT_FOUND';
+  readonly concealDenied = true;
+
+  constructor(
+    private readonly userSessionsService: UserSessionsService,
+    permissionService: PermissionService,
+  ) {
+    super(permissionService);
+  }
+
+  // Revoked sessions are kept for the history only
+  load(id: string): Promise<UserSession | null> {
+    return this.userSessionsService.findOne({ id, revoked: false });
+  }
+
+  protected getOwnerId(session: UserSession): string {
+    return session.userId;
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailQueueIntegrationService } from 'src/shared/services/mail/mail-queue-integration.service';
+import { EmailVerificationSender } from '../interfaces';
+import { maskEmail } from 'src/common/utils';
+
+/**
+ * Email verification sender implementation using queue-based email sending
+ * Uses the `welcome` template right after register and the `notification`
+ * template for links requested later
+ */
+@Injectable()
+export class MailerEmailVerificationSender implements EmailVerificationSender {
+  private readonly logger = new Logger(MailerEmailVerificationSender.name);
+
+  constructor(
+    private readonly mailQueueIntegration: MailQueueIntegrationService,
+  ) {}
+
+  /**
+   * Queue an email verification link
+   * Failures are logged and swallowed, the user can always resend
+   * @param recipient - Recipient email, display name and username
+   * @param verificationLink - Link containing the single-use token
+   * @param options - `welcome` renders the welcome email sent on register
+   */
+  async sendVerificationLink(
+    recipient: { email: string; name?: string; username?: string },
+    verificationLink: string,
+    options: { welcome?: boolean } = {},
+  ): Promise<void> {
+    const common = {
+      appName: process.env.APP_NAME || 'NestJS App',
+      name: recipient.name || recipient.email,
+      email: recipient.email,
+      supportEmail: process.env.MAIL_SUPPORT || process.env.MAIL_FROM,
+      companyName: process.env.COMPANY_NAME || 'Your Company',
+      companyAddress: process.env.COMPANY_ADDRESS || '',
+    };
+
+    try {
+      const result = options.welcome
+        ? await this.mailQueueIntegration.sendTemplateMailQueue(
+            'welcome',
+            { email: recipient.email, name: recipient.name },
+            {
+              ...common,
+              username: recipient.username || recipient.email,
+              accountType: 'Free',
+              verificationLink,
+            },
+            {},
+            6,
+          )
+        : await this.mailQueueIntegration.sendTemplateMailQueue(
+            'notification',
+            { email: recipient.email, name: recipient.name },
+            {
+              ...common,
+              notificationTitle: 'Verify your email address',
+              notificationMessage:
+                'Confirm this email address to unlock every feature of your account.',
+              actionRequired: true,
+              actionDescription:
+                'Click the button below to verify your email address.',
+              actionLink: verificationLink,
+              actionButtonText: 'Verify email',
+              additionalInfo: [],
+            },
+            {},
+            8, // High priority, the user is waiting for it
+          );
+
+      this.logger.log(
+        `Verification email queued to: ${maskEmail(recipient.email)}, jobId: ${result.jobId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error queuing verification email to ${maskEmail(recipient.email)}:`,
+        error,
+      );
+    }
+  }
+}
@@ -1,2 +1,9 @@
 export * from './otp-store.provider';
 export * from './email-otp-sender.provider';
+export * from './security-alert-sender.provider';
+export * from './password-reset-sender.provider';
+export * from './email-verification-sender.provider';
+export * from './sms-sender.provider';
+export * from './push-notification-sender.provider';
+export * from './oauth';
+export * from './webauthn-verifier.provider';
@@ -0,0 +1,24 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { OAuthProvider, USER_CONSTANTS } from 'src/shared/constants';
+
+import { OAuthProfile } from '../../interfaces';
+import { BaseOAuthProvider } from './base-oauth.provider';
+
+/**
+ * Sign in with Apple provider
+ *
+ * Apple has no userinfo endpoint, so only ID tokens are accepted.
+ * The name is only sent by the client on the very first sign-in.
+ */
+@Injectable()
+export class AppleOAuthProvider extends BaseOAuthProvider {
+  name(): OAuthProvider {
+    return USER_CONSTANTS.OAUTH_PROVIDERS.APPLE;
+  }
+
+  protected mapProfile(): OAuthProfile {
+    throw new UnauthorizedException({
+      messageKey: 'auth.OAUTH_TOKEN_INVALID',
+    });
+  }
+}
@@ -0,0 +1,364 @@
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { OAuthProvider } from 'src/shared/constants';
+import { AxiosService } from 'src/shared/services';
+
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+
+import {
+  OAuthAuthorizationParams,
+  OAuthProfile,
+  OAuthProviderConfig,
+  OAuthTokenSet,
+} from '../../interfaces';
+
+/**
+ * Abstract base class for all OAuth/OIDC provider strategies
+ * Each provider must extend this class and map the provider response
+ * to a normalized {@link OAuthProfile}
+ */
+@Injectable()
+export abstract class BaseOAuthProvider {
+  protected readonly logger = new Logger(this.constructor.name);
+
+  // JWKS documents are cached in memory and refreshed on unknown key IDs
+  private readonly JWKS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+  private jwksCache?: { keys: JsonWebKey[]; fetchedAt: number };
+
+  constructor(
+    protected readonly configService: ConfigService,
+    protected readonly axiosService: AxiosService,
+    protected readonly jwtService: JwtService,
+  ) {}
+
+  /**
+   * Returns the provider this class handles
+   * Must match one of the OAuthProvider values
+   */
+  abstract name(): OAuthProvider;
+
+  /**
+   * Maps a raw userinfo response to a normalized profile
+   *
+   * @param raw - Response body from the provider userinfo endpoint
+   * @param tokens - Tokens used to fetch the userinfo
+   */
+  protected abstract mapProfile(
+    raw: Record<string, any>,
+    tokens: OAuthTokenSet,
+  ): Promise<OAuthProfile> | OAuthProfile;
+
+  /**
+   * Provider configuration loaded from `oauth.<provider>`
+   */
+  getConfig(): OAuthProviderConfig {
+    return (
+      this.configService.get<OAuthProviderConfig>(`oauth.${this.name()}`) ?? {}
+    );
+  }
+
+  /**
+   * A provider is enabled once a client ID is configured
+   */
+  isEnabled(): boolean {
+    return !!this.getConfig().clientId;
+  }
+
+  /**
+   * Builds the provider authorization URL for the code + PKCE flow
+   *
+   * @param params - State, PKCE challenge, nonce and redirect URI
+   * @returns Absolute URL the user agent should be redirected to
+   */
+  buildAuthorizationUrl(params: OAuthAuthorizationParams): string {
+    const config = this.getConfig();
+    if (!config.authorizationUrl || !config.clientId) {
+      throw new UnauthorizedException({
+        messageKey: 'auth.OAUTH_PROVIDER_NOT_SUPPORTED',
+        messageArgs: { provider: this.name() },
+      });
+    }
+
+    const url = new URL(config.authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('code_challenge', params.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (config.scope) {
+      url.searchParams.set('scope', config.scope);
+    }
+    if (config.jwksUrl) {
+      url.searchParams.set('nonce', params.nonce);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Exchanges an authorization code for provider tokens
+   *
+   * @param code - Authorization code returned to the callback
+   * @param codeVerifier - PKCE code verifier generated at authorize time
+   * @param redirectUri - Redirect URI used for the authorization request
+   * @returns Tokens returned by the provider token endpoint
+   */
+  async exchangeCode(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+  ): Promise<OAuthTokenSet> {
+    const config = this.getConfig();
+    if (!config.tokenUrl || !config.clientId) {
+      throw new UnauthorizedException({
+        messageKey: 'auth.OAUTH_PROVIDER_NOT_SUPPORTED',
+        messageArgs: { provider: this.name() },
+      });
+    }
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      code_verifier: codeVerifier,
+    });
+    if (config.clientSecret) {
+      body.set('client_secret', config.clientSecret);
+    }
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const response = await this.axiosService.post(
+        config.tokenUrl,
+        body.toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json',
+          },
+        },
+      );
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const data = (response?.data ?? {}) as Record<string, string>;
+      if (!data.access_token && !data.id_token) {
+        throw new Error(data.error || 'Token response has no tokens');
+      }
+      return {
+        accessToken: data.access_token,
+        idToken: data.id_token,
+        refreshToken: data.refresh_token,
+        issuedToClient: true,
+      };
+    } catch (error) {
+      this.logger.warn(`Code exchange failed for ${this.name()}:`, error);
+      throw new UnauthorizedException({
+        messageKey: 'auth.OAUTH_TOKEN_INVALID',
+      });
+    }
+  }
+
+  /**
+   * Verifies the provider tokens and resolves the user identity
+   * ID tokens are preferred when the provider publishes a JWKS,
+   * otherwise the access token is used against the userinfo endpoint,
+   * once it is known to be issued to our client
+   *
+   * @param tokens - Tokens supplied by the client or the token endpoint
+   * @param nonce - Expected OIDC nonce, if one was issued
+   * @returns Normalized, verified profile
+   */
+  async verify(tokens: OAuthTokenSet, nonce?: string): Promise<OAuthProfile> {
+    const config = this.getConfig();
+
+    if (tokens.idToken && config.jwksUrl) {
+      const claims = await this.verifyIdToken(tokens.idToken, nonce);
+      return this.mapIdTokenClaims(claims);
+    }
+
+    if (tokens.accessToken && config.userInfoUrl) {
+      // A token issued to another app would otherwise log its user in here
+      if (
+        !tokens.issuedToClient &&
+        !(await this.isAccessTokenForClient(tokens.accessToken))
+      ) {
+        throw new UnauthorizedException({
+          messageKey: 'auth.OAUTH_TOKEN_INVALID',
+        });
+      }
+      const raw = await this.fetchUserInfo(tokens.accessToken);
+      const profile = await this.mapProfile(raw, tokens);
+      if (!profile.providerId) {
+        throw new UnauthorizedException({
+          messageKey: 'auth.OAUTH_TOKEN_INVALID',
+        });
+      }
+      return profile;
+    }
+
+    throw new UnauthorizedException({
+      messageKey: 'auth.OAUTH_TOKEN_INVALID',
+    });
+  }
+
+  /**
+   * Checks that an access token supplied by the client was issued to our
+   * client ID. Providers without a token introspection endpoint keep this
+   * default and only accept an ID token or the code flow
+   *
+   * @param _accessToken - Provider access token
+   */
+  protected isAccessTokenForClient(_accessToken: string): Promise<boolean> {
+    return Promise.resolve(false);
+  }
+
+  /**
+   * Maps standard OIDC ID token claims to a normalized profile
+   * Override when a provider deviates from the standard claims
+   *
+   * @param claims - Verified ID token claims
+   */
+  protected mapIdTokenClaims(claims: Record<string, any>): OAuthProfile {
+    return {
+      provider: this.name(),
+      providerId: String(claims.sub),
+      email: claims.email as string | undefined,
+      emailVerified:
+        claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name as string | undefined,
+      avatarUrl: claims.picture as string | undefined,
+    };
+  }
+
+  /**
+   * Calls the provider userinfo endpoint with a bearer access token
+   *
+   * @param accessToken - Provider access token
+   * @param url - Endpoint to call, defaults to the configured userinfo URL
+   * @returns Raw userinfo response body
+   */
+  protected async fetchUserInfo(
+    accessToken: string,
+    url: string | undefined = this.getConfig().userInfoUrl,
+  ): Promise<Record<string, any>> {
+    if (!url) {
+      throw new UnauthorizedException({
+        messageKey: 'auth.OAUTH_PROVIDER_NOT_SUPPORTED',
+        messageArgs: { provider: this.name() },
+      });
+    }
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const response = await this.axiosService.get(url, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: 'application/json',
+        },
+      });
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      return (response?.data ?? {}) as Record<string, any>;
+    } catch (error) {
+      this.logger.warn(`Userinfo request failed for ${this.name()}:`, error);
+      throw new UnauthorizedException({
+        messageKey: 'auth.OAUTH_TOKEN_INVALID',
+      });
+    }
+  }
+
+  /**
+   * Verifies an ID token signature, issuer, audience, expiry and nonce
+   *
+   * @param idToken - Compact JWS ID token
+   * @param nonce - Expected nonce, if one was issued
+   * @returns Verified token claims
+   */
+  protected async verifyIdToken(
+    idToken: string,
+    nonce?: string,
+  ): Promise<Record<string, any>> {
+    const config = this.getConfig();
+
+    try {
+      const decoded = this.jwtService.decode<{
+        header?: { kid?: string; alg?: string };
+      }>(idToken, { complete: true });
+      const kid = decoded?.header?.kid;
+      if (!kid) {
+        throw new Error('ID token has no key ID');
+      }
+
+      const publicKey = await this.getSigningKey(kid);
+      const claims = await this.jwtService.verifyAsync<Record<string, any>>(
+        idToken,
+        {
+          publicKey,
+          algorithms: ['RS256', 'ES256'],
+          audience: config.clientId,
+          issuer: config.issuer,
+        },
+      );
+
+      if (nonce && claims.nonce !== nonce) {
+        throw new Error('ID token nonce mismatch');
+      }
+      return claims;
+    } catch (error) {
+      this.logger.warn(
+        `ID token verification failed for ${this.name()}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+      throw new UnauthorizedException({
+        messageKey: 'auth.OAUTH_TOKEN_INVALID',
+      });
+    }
+  }
+
+  /**
+   * Resolves a signing key from the provider JWKS as a PEM string
+   *
+   * @param kid - Key ID from the token header
+   */
+  private async getSigningKey(kid: string): Promise<string> {
+    let jwk = (await this.getJwks()).find((key) => key.kid === kid);
+    if (!jwk) {
+      // Provider may have rotated keys since the last fetch
+      jwk = (await this.getJwks(true)).find((key) => key.kid === kid);
+    }
+    if (!jwk) {
+      throw new Error(`Signing key ${kid} not found`);
+    }
+    return createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  }
+
+  /**
+   * Fetches the provider JWKS, using the in-memory cache when fresh
+   *
+   * @param forceRefresh - Bypass the cache
+   */
+  private async getJwks(forceRefresh = false): Promise<JsonWebKey[]> {
+    const jwksUrl = this.getConfig().jwksUrl;
+    if (!jwksUrl) {
+      return [];
+    }
+
+    if (
+      !forceRefresh &&
+      this.jwksCache &&
+      Date.now() - this.jwksCache.fetchedAt < this.JWKS_CACHE_TTL_MS
+    ) {
+      return this.jwksCache.keys;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const response = await this.axiosService.get(jwksUrl);
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+    const keys = (response?.data as { keys?: JsonWebKey[] })?.keys ?? [];
+    this.jwksCache = { keys, fetchedAt: Date.now() };
+    return keys;
+  }
+}
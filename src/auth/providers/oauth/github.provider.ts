@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { OAuthProvider, USER_CONSTANTS } from 'src/shared/constants';
+
+import { OAuthProfile, OAuthTokenSet } from '../../interfaces';
+import { BaseOAuthProvider } from './base-oauth.provider';
+
+interface GithubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHub OAuth provider
+ *
+ * GitHub is plain OAuth 2.0 without ID tokens. The public profile email
+ * carries no verification flag, so the primary verified address is read
+ * from the emails endpoint instead.
+ */
+@Injectable()
+export class GithubOAuthProvider extends BaseOAuthProvider {
+  name(): OAuthProvider {
+    return USER_CONSTANTS.OAUTH_PROVIDERS.GITHUB;
+  }
+
+  protected async mapProfile(
+    raw: Record<string, any>,
+    tokens: OAuthTokenSet,
+  ): Promise<OAuthProfile> {
+    const primaryEmail = await this.fetchPrimaryEmail(tokens.accessToken);
+
+    return {
+      provider: this.name(),
+      providerId: raw.id ? String(raw.id) : '',
+      email: primaryEmail?.email ?? (raw.email as string | undefined),
+      emailVerified: primaryEmail?.verified ?? false,
+      name: (raw.name as string) || (raw.login as string),
+      avatarUrl: raw.avatar_url as string | undefined,
+    };
+  }
+
+  /**
+   * Reads the primary email from the emails endpoint
+   * Missing `user:email` scope is not fatal, the profile email is used instead
+   */
+  private async fetchPrimaryEmail(
+    accessToken?: string,
+  ): Promise<GithubEmail | undefined> {
+    const emailsUrl = this.getConfig().emailsUrl;
+    if (!accessToken || !emailsUrl) {
+      return undefined;
+    }
+
+    try {
+      const emails = (await this.fetchUserInfo(
+        accessToken,
+        emailsUrl,
+      )) as unknown as GithubEmail[];
+      return Array.isArray(emails)
+        ? emails.find((item) => item.primary)
+        : undefined;
+    } catch {
+      this.logger.debug('GitHub emails endpoint unavailable for this token');
+      return undefined;
+    }
+  }
+}
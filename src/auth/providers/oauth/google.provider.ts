@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { OAuthProvider, USER_CONSTANTS } from 'src/shared/constants';
+
+import { OAuthProfile } from '../../interfaces';
+import { BaseOAuthProvider } from './base-oauth.provider';
+
+/**
+ * Google OpenID Connect provider
+ *
+ * ID tokens are verified against the Google JWKS. Access tokens must
+ * carry our client ID as `aud` at the tokeninfo endpoint, then are
+ * resolved through the OIDC userinfo endpoint, which returns the same
+ * standard claims as the ID token.
+ */
+@Injectable()
+export class GoogleOAuthProvider extends BaseOAuthProvider {
+  name(): OAuthProvider {
+    return USER_CONSTANTS.OAUTH_PROVIDERS.GOOGLE;
+  }
+
+  protected async isAccessTokenForClient(
+    accessToken: string,
+  ): Promise<boolean> {
+    const { tokenInfoUrl, clientId } = this.getConfig();
+    if (!tokenInfoUrl || !clientId) {
+      return false;
+    }
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const response = await this.axiosService.get(tokenInfoUrl, {
+        params: { access_token: accessToken },
+      });
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+      const info = (response?.data ?? {}) as Record<string, string>;
+      return info.aud === clientId || info.azp === clientId;
+    } catch (error) {
+      this.logger.warn(`Tokeninfo request failed for ${this.name()}:`, error);
+      return false;
+    }
+  }
+
+  protected mapProfile(raw: Record<string, any>): OAuthProfile {
+    return this.mapIdTokenClaims(raw);
+  }
+}
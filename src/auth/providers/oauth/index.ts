@@ -0,0 +1,7 @@
+export * from './base-oauth.provider';
+export * from './google.provider';
+export * from './github.provider';
+export * from './apple.provider';
+export * from './kakao.provider';
+export * from './naver.provider';
+export * from './oauth-provider.registry';
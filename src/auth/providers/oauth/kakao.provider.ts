@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { OAuthProvider, USER_CONSTANTS } from 'src/shared/constants';
+
+import { OAuthProfile } from '../../interfaces';
+import { BaseOAuthProvider } from './base-oauth.provider';
+
+/**
+ * Kakao OAuth provider
+ *
+ * Access tokens must belong to `KAKAO_APP_ID` at the access token info
+ * endpoint, then are resolved through `KAKAO_AUTH_ACCESS_LINK`
+ * (the `/v2/user/me` endpoint). Kakao reports email validity and
+ * verification as two separate flags, both must be true.
+ */
+@Injectable()
+export class KakaoOAuthProvider extends BaseOAuthProvider {
+  name(): OAuthProvider {
+    return USER_CONSTANTS.OAUTH_PROVIDERS.KAKAO;
+  }
+
+  protected async isAccessTokenForClient(
+    accessToken: string,
+  ): Promise<boolean> {
+    const { tokenInfoUrl, appId } = this.getConfig();
+    if (!tokenInfoUrl || !appId) {
+      return false;
+    }
+
+    try {
+      const info = await this.fetchUserInfo(accessToken, tokenInfoUrl);
+      return String(info.app_id) === appId;
+    } catch {
+      return false;
+    }
+  }
+
+  protected mapProfile(raw: Record<string, any>): OAuthProfile {
+    const account = (raw.kakao_account ?? {}) as Record<string, any>;
+    const profile = (account.profile ?? {}) as Record<string, any>;
+
+    return {
+      provider: this.name(),
+      providerId: raw.id ? String(raw.id) : '',
+      email: account.email as string | undefined,
+      emailVerified:
+        account.is_email_valid === true && account.is_email_verified === true,
+      name: profile.nickname as string | undefined,
+      avatarUrl: profile.profile_image_url as string | undefined,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { OAuthProvider, USER_CONSTANTS } from 'src/shared/constants';
+
+import { OAuthProfile } from '../../interfaces';
+import { BaseOAuthProvider } from './base-oauth.provider';
+
+/**
+ * Naver OAuth provider
+ *
+ * Access tokens are resolved through `NAVER_AUTH_ACCESS_LINK`
+ * (the `/v1/nid/me` endpoint). Naver does not assert email verification,
+ * so Naver identities are never linked to existing accounts by email.
+ */
+@Injectable()
+export class NaverOAuthProvider extends BaseOAuthProvider {
+  name(): OAuthProvider {
+    return USER_CONSTANTS.OAUTH_PROVIDERS.NAVER;
+  }
+
+  protected mapProfile(raw: Record<string, any>): OAuthProfile {
+    const response = (raw.response ?? {}) as Record<string, any>;
+
+    return {
+      provider: this.name(),
+      providerId: response.id ? String(response.id) : '',
+      email: response.email as string | undefined,
+      emailVerified: false,
+      name: (response.name as string) || (response.nickname as string),
+      avatarUrl: response.profile_image as string | undefined,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { OAuthProvider } from 'src/shared/constants';
+
+import { AppleOAuthProvider } from './apple.provider';
+import { BaseOAuthProvider } from './base-oauth.provider';
+import { GithubOAuthProvider } from './github.provider';
+import { GoogleOAuthProvider } from './google.provider';
+import { KakaoOAuthProvider } from './kakao.provider';
+import { NaverOAuthProvider } from './naver.provider';
+
+/**
+ * OAuth Provider Registry
+ *
+ * Routes OAuth requests to the matching provider strategy. New providers
+ * are added by extending {@link BaseOAuthProvider}, registering the class
+ * in AuthModule and adding it to the map below.
+ */
+@Injectable()
+export class OAuthProviderRegistry {
+  private readonly logger = new Logger(OAuthProviderRegistry.name);
+  private readonly providers: Map<OAuthProvider, BaseOAuthProvider>;
+
+  constructor(
+    googleProvider: GoogleOAuthProvider,
+    githubProvider: GithubOAuthProvider,
+    appleProvider: AppleOAuthProvider,
+    kakaoProvider: KakaoOAuthProvider,
+    naverProvider: NaverOAuthProvider,
+  ) {
+    this.providers = new Map<OAuthProvider, BaseOAuthProvider>(
+      [
+        googleProvider,
+        githubProvider,
+        appleProvider,
+        kakaoProvider,
+        naverProvider,
+      ].map((provider) => [provider.name(), provider]),
+    );
+  }
+
+  /**
+   * Gets an enabled provider strategy
+   *
+   * @param provider - Provider name from the route
+   * @returns The provider strategy
+   * @throws BadRequestException if the provider is unknown or not configured
+   */
+  get(provider: string): BaseOAuthProvider {
+    const strategy = this.providers.get(provider as OAuthProvider);
+    if (!strategy?.isEnabled()) {
+      this.logger.warn(`OAuth provider ${provider} is not enabled`);
+      throw new BadRequestException({
+        messageKey: 'auth.OAUTH_PROVIDER_NOT_SUPPORTED',
+        messageArgs: { provider },
+      });
+    }
+    return strategy;
+  }
+
+  /**
+   * Gets all providers that have a client ID configured
+   *
+   * @returns Array of enabled provider names
+   */
+  getEnabledProviders(): OAuthProvider[] {
+    return Array.from(this.providers.values())
+      .filter((provider) => provider.isEnabled())
+      .map((provider) => provider.name());
+  }
+}
@@ -0,0 +1,399 @@
+import axios from 'axios';
+import { generateKeyPairSync, JsonWebKey, KeyObject } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { AxiosService } from 'src/shared/services';
+
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+
+import { AppleOAuthProvider } from './apple.provider';
+import { GithubOAuthProvider } from './github.provider';
+import { GoogleOAuthProvider } from './google.provider';
+import { KakaoOAuthProvider } from './kakao.provider';
+import { NaverOAuthProvider } from './naver.provider';
+import { OAuthProviderRegistry } from './oauth-provider.registry';
+
+/**
+ * Runs every provider strategy against a local stub IdP so that token
+ * exchange, userinfo calls and JWKS signature checks go over real HTTP.
+ */
+describe('OAuth providers (stub IdP)', () => {
+  const KID = 'stub-key-1';
+  const CLIENT_ID = 'stub-client-id';
+  const ISSUER = 'https://stub-idp.local';
+
+  let server: Server;
+  let baseUrl: string;
+  let privateKey: KeyObject;
+  let publicJwk: JsonWebKey;
+  let jwtService: JwtService;
+  let axiosService: AxiosService;
+  let requests: { path: string; body: string; auth?: string }[];
+
+  const handle = (req: IncomingMessage, res: ServerResponse, body: string) => {
+    const path = (req.url ?? '').split('?')[0];
+    requests.push({ path, body, auth: req.headers.authorization });
+    const send = (status: number, payload: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (path === '/jwks') {
+      return send(200, { keys: [{ ...publicJwk, kid: KID, use: 'sig' }] });
+    }
+    if (path === '/token') {
+      const params = new URLSearchParams(body);
+      if (params.get('code') !== 'good-code' || !params.get('code_verifier')) {
+        return send(400, { error: 'invalid_grant' });
+      }
+      return send(200, { access_token: 'github-access-token' });
+    }
+    if (path === '/tokeninfo') {
+      const token = new URLSearchParams((req.url ?? '').split('?')[1]).get(
+        'access_token',
+      );
+      return token === 'google-access-token'
+        ? send(200, { aud: CLIENT_ID, sub: 'google-user-1' })
+        : send(200, { aud: 'someone-else', sub: 'google-user-1' });
+    }
+    if (path === '/userinfo' && req.headers.authorization) {
+      return send(200, { sub: 'google-user-1', email: 'user@example.com' });
+    }
+    if (path === '/kakao/token-info') {
+      return req.headers.authorization === 'Bearer kakao-token'
+        ? send(200, { id: 4242, app_id: 777 })
+        : send(200, { id: 4242, app_id: 999 });
+    }
+    if (path === '/kakao/me' && req.headers.authorization) {
+      return send(200, {
+        id: 4242,
+        kakao_account: {
+          email: 'kakao@example.com',
+          is_email_valid: true,
+          is_email_verified: true,
+          profile: { nickname: 'Kakao User' },
+        },
+      });
+    }
+    if (req.headers.authorization !== 'Bearer github-access-token') {
+      return send(401, { message: 'Bad credentials' });
+    }
+    if (path === '/user') {
+      return send(200, { id: 1001, login: 'octocat', email: null });
+    }
+    if (path === '/emails') {
+      return send(200, [
+        { email: 'old@example.com', primary: false, verified: true },
+        { email: 'octo@example.com', primary: true, verified: true },
+      ]);
+    }
+    return send(404, {});
+  };
+
+  const buildConfig = (overrides: Record<string, any> = {}) =>
+    new ConfigService({
+      oauth: {
+        google: {
+          clientId: CLIENT_ID,
+          jwksUrl: `${baseUrl}/jwks`,
+          userInfoUrl: `${baseUrl}/userinfo`,
+          tokenInfoUrl: `${baseUrl}/tokeninfo`,
+          issuer: ISSUER,
+        },
+        apple: {
+          clientId: CLIENT_ID,
+          jwksUrl: `${baseUrl}/jwks`,
+          issuer: ISSUER,
+        },
+        github: {
+          clientId: CLIENT_ID,
+          clientSecret: 'stub-secret',
+          authorizationUrl: `${baseUrl}/authorize`,
+          tokenUrl: `${baseUrl}/token`,
+          userInfoUrl: `${baseUrl}/user`,
+          emailsUrl: `${baseUrl}/emails`,
+          scope: 'read:user user:email',
+        },
+        kakao: {
+          clientId: CLIENT_ID,
+          appId: '777',
+          userInfoUrl: `${baseUrl}/kakao/me`,
+          tokenInfoUrl: `${baseUrl}/kakao/token-info`,
+        },
+        naver: {},
+        ...overrides,
+      },
+    });
+
+  const signIdToken = (claims: Record<string, any>, key = privateKey) =>
+    jwtService.sign(
+      {
+        sub: 'google-user-1',
+        email: 'user@example.com',
+        email_verified: true,
+        name: 'Google User',
+        aud: CLIENT_ID,
+        iss: ISSUER,
+        ...claims,
+      },
+      {
+        privateKey: key.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        algorithm: 'RS256',
+        keyid: KID,
+        expiresIn: '5m',
+      },
+    );
+
+  beforeAll(async () => {
+    const keyPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    privateKey = keyPair.privateKey;
+    publicJwk = keyPair.publicKey.export({ format: 'jwk' });
+
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => handle(req, res, body));
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    jwtService = new JwtService({});
+    axiosService = new AxiosService(
+      new HttpService(axios.create({ proxy: false, timeout: 5000 })),
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  describe('GoogleOAuthProvider', () => {
+    let provider: GoogleOAuthProvider;
+
+    beforeEach(() => {
+      provider = new GoogleOAuthProvider(
+        buildConfig(),
+        axiosService,
+        jwtService,
+      );
+    });
+
+    it('should verify a signed ID token against the JWKS', async () => {
+      const idToken = signIdToken({ nonce: 'n-1' });
+
+      const profile = await provider.verify({ idToken }, 'n-1');
+
+      expect(profile).toEqual({
+        provider: 'google',
+        providerId: 'google-user-1',
+        email: 'user@example.com',
+        emailVerified: true,
+        name: 'Google User',
+        avatarUrl: undefined,
+      });
+      expect(requests.map((item) => item.path)).toEqual(['/jwks']);
+    });
+
+    it('should reject an ID token signed with another key', async () => {
+      const otherKey = generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+      }).privateKey;
+      const idToken = signIdToken({}, otherKey);
+
+      await expect(provider.verify({ idToken })).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+      });
+    });
+
+    it('should reject an ID token for another audience', async () => {
+      const idToken = signIdToken({ aud: 'someone-else' });
+
+      await expect(provider.verify({ idToken })).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+      });
+    });
+
+    it('should reject an ID token with a mismatched nonce', async () => {
+      const idToken = signIdToken({ nonce: 'n-1' });
+
+      await expect(provider.verify({ idToken }, 'n-2')).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+      });
+    });
+
+    it('should accept an access token issued to our client', async () => {
+      const profile = await provider.verify({
+        accessToken: 'google-access-token',
+      });
+
+      expect(profile.providerId).toBe('google-user-1');
+      expect(requests.map((item) => item.path)).toEqual([
+        '/tokeninfo',
+        '/userinfo',
+      ]);
+    });
+
+    it('should reject an access token issued to another client', async () => {
+      await expect(
+        provider.verify({ accessToken: 'other-app-token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+      });
+      expect(requests.map((item) => item.path)).toEqual(['/tokeninfo']);
+    });
+  });
+
+  describe('AppleOAuthProvider', () => {
+    it('should not accept an access token without an ID token', async () => {
+      const provider = new AppleOAuthProvider(
+        buildConfig(),
+        axiosService,
+        jwtService,
+      );
+
+      await expect(
+        provider.verify({ accessToken: 'apple-access-token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+      });
+    });
+  });
+
+  describe('GithubOAuthProvider', () => {
+    let provider: GithubOAuthProvider;
+
+    beforeEach(() => {
+      provider = new GithubOAuthProvider(
+        buildConfig(),
+        axiosService,
+        jwtService,
+      );
+    });
+
+    it('should build a PKCE authorization URL', () => {
+      const url = new URL(
+        provider.buildAuthorizationUrl({
+          state: 'state-1',
+          codeChallenge: 'challenge-1',
+          redirectUri: 'https://app.local/callback',
+          nonce: 'nonce-1',
+        }),
+      );
+
+      expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+      expect(url.searchParams.get('state')).toBe('state-1');
+      expect(url.searchParams.get('code_challenge')).toBe('challenge-1');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      // GitHub has no ID token, so no nonce is sent
+      expect(url.searchParams.has('nonce')).toBe(false);
+    });
+
+    it('should exchange a code and resolve the primary verified email', async () => {
+      const tokens = await provider.exchangeCode(
+        'good-code',
+        'verifier-1',
+        'https://app.local/callback',
+      );
+      const profile = await provider.verify(tokens);
+
+      expect(profile).toMatchObject({
+        provider: 'github',
+        providerId: '1001',
+        email: 'octo@example.com',
+        emailVerified: true,
+        name: 'octocat',
+      });
+      const tokenRequest = new URLSearchParams(requests[0].body);
+      expect(tokenRequest.get('code_verifier')).toBe('verifier-1');
+      expect(tokenRequest.get('client_secret')).toBe('stub-secret');
+    });
+
+    it('should reject an invalid authorization code', async () => {
+      await expect(
+        provider.exchangeCode('bad-code', 'verifier-1', 'https://app.local'),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+      });
+    });
+  });
+
+  describe('KakaoOAuthProvider', () => {
+    it('should map the userinfo response', async () => {
+      const provider = new KakaoOAuthProvider(
+        buildConfig(),
+        axiosService,
+        jwtService,
+      );
+
+      const profile = await provider.verify({ accessToken: 'kakao-token' });
+
+      expect(profile).toMatchObject({
+        provider: 'kakao',
+        providerId: '4242',
+        email: 'kakao@example.com',
+        emailVerified: true,
+        name: 'Kakao User',
+      });
+      expect(requests.map((item) => item.path)).toEqual([
+        '/kakao/token-info',
+        '/kakao/me',
+      ]);
+      expect(requests[1].auth).toBe('Bearer kakao-token');
+    });
+
+    it('should reject an access token of another app', async () => {
+      const provider = new KakaoOAuthProvider(
+        buildConfig(),
+        axiosService,
+        jwtService,
+      );
+
+      await expect(
+        provider.verify({ accessToken: 'other-app-token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_TOKEN_INVALID' },
+      });
+      expect(requests.map((item) => item.path)).toEqual(['/kakao/token-info']);
+    });
+  });
+
+  describe('OAuthProviderRegistry', () => {
+    it('should only expose configured providers', () => {
+      const config = buildConfig();
+      const providers = [
+        GoogleOAuthProvider,
+        GithubOAuthProvider,
+        AppleOAuthProvider,
+        KakaoOAuthProvider,
+        NaverOAuthProvider,
+      ].map((Provider) => new Provider(config, axiosService, jwtService));
+      const registry = new OAuthProviderRegistry(
+        ...(providers as [
+          GoogleOAuthProvider,
+          GithubOAuthProvider,
+          AppleOAuthProvider,
+          KakaoOAuthProvider,
+          NaverOAuthProvider,
+        ]),
+      );
+
+      expect(registry.getEnabledProviders()).toEqual([
+        'google',
+        'github',
+        'apple',
+        'kakao',
+      ]);
+      expect(registry.get('github')).toBe(providers[1]);
+      expect(() => registry.get('naver')).toThrow();
+      expect(() => registry.get('facebook')).toThrow();
+    });
+  });
+});
@@ -95,7 +95,8 @@ export class RedisOtpStore implements OtpStore {
         local otpData = cjson.decode(data)
         otpData.attempts = otpData.attempts + 1
         
-        redis.call('SET', key, cjson.encode(otpData))
+        -- Keep the original expiry, a plain SET would drop it
+        redis.call('SET', key, cjson.encode(otpData), 'KEEPTTL')
         return cjson.encode(otpData)
       `;
 
@@ -0,0 +1,60 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailQueueIntegrationService } from 'src/shared/services/mail/mail-queue-integration.service';
+import { PasswordResetSender } from '../interfaces';
+import { maskEmail } from 'src/common/utils';
+
+/**
+ * Password reset sender implementation using queue-based email sending
+ * Renders links with the shared `password-reset` template
+ */
+@Injectable()
+export class MailerPasswordResetSender implements PasswordResetSender {
+  private readonly logger = new Logger(MailerPasswordResetSender.name);
+
+  constructor(
+    private readonly mailQueueIntegration: MailQueueIntegrationService,
+  ) {}
+
+  /**
+   * Queue a password reset email
+   * Failures are logged and swallowed so the forgot-password response
+   * never reveals whether an email was actually sent
+   * @param recipient - Recipient email and display name
+   * @param resetLink - Link containing the single-use token
+   * @param ttlSeconds - Token lifetime in seconds
+   */
+  async sendResetLink(
+    recipient: { email: string; name?: string },
+    resetLink: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    try {
+      const result = await this.mailQueueIntegration.sendTemplateMailQueue(
+        'password-reset',
+        { email: recipient.email, name: recipient.name },
+        {
+          appName: process.env.APP_NAME || 'NestJS App',
+          name: recipient.name || recipient.email,
+          email: recipient.email,
+          resetLink,
+          // The template renders the lifetime in hours
+          expirationTime: Math.max(1, Math.round(ttlSeconds / 3600)),
+          supportEmail: process.env.MAIL_SUPPORT || process.env.MAIL_FROM,
+          companyName: process.env.COMPANY_NAME || 'Your Company',
+          companyAddress: process.env.COMPANY_ADDRESS || '',
+        },
+        {},
+        8, // High priority for password reset emails
+      );
+
+      this.logger.log(
+        `Password reset email queued to: ${maskEmail(recipient.email)}, jobId: ${result.jobId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error queuing password reset email to ${maskEmail(recipient.email)}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { FirebaseService } from 'src/shared/services/firebase/firebase.service';
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ModuleRef } from '@nestjs/core';
+
+import { PushNotification, PushNotificationSender } from '../interfaces';
+
+/**
+ * Push notification sender implementation using Firebase Cloud Messaging
+ * `FirebaseService` initializes the Admin SDK in its constructor and throws
+ * without credentials, so it is created on the first push instead of at
+ * boot. Deployments without Firebase keep working, pushes are just skipped.
+ */
+@Injectable()
+export class FirebasePushNotificationSender implements PushNotificationSender {
+  private readonly logger = new Logger(FirebasePushNotificationSender.name);
+  private firebase?: Promise<FirebaseService | null>;
+
+  constructor(private readonly moduleRef: ModuleRef) {}
+
+  /**
+   * Send a push notification
+   * Failures are logged and swallowed so pushes never break the auth flow
+   * @param deviceTokens - Push tokens of the target devices
+   * @param notification - Notification content
+   */
+  async send(
+    deviceTokens: string[],
+    notification: PushNotification,
+  ): Promise<void> {
+    if (deviceTokens.length === 0) return;
+
+    const firebase = await this.getFirebase();
+    if (!firebase) return;
+
+    const result = await firebase.sendToDevice(deviceTokens, {
+      notification: { title: notification.title, body: notification.body },
+      data: notification.data,
+    });
+    if (!result.success) {
+      this.logger.warn(`Push notification not delivered: ${result.error}`);
+    }
+  }
+
+  private getFirebase(): Promise<FirebaseService | null> {
+    this.firebase ??= this.moduleRef
+      .create(FirebaseService)
+      .catch((error: unknown) => {
+        this.logger.warn(
+          `Firebase is not configured, push notifications are disabled: ${(error as Error).message}`,
+        );
+        return null;
+      });
+    return this.firebase;
+  }
+}
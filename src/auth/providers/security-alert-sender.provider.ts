@@ -0,0 +1,61 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailQueueIntegrationService } from 'src/shared/services/mail/mail-queue-integration.service';
+import { SecurityAlert, SecurityAlertSender } from '../interfaces';
+import { maskEmail } from 'src/common/utils';
+
+/**
+ * Security alert sender implementation using queue-based email sending
+ * Renders alerts with the shared `notification` template
+ */
+@Injectable()
+export class MailerSecurityAlertSender implements SecurityAlertSender {
+  private readonly logger = new Logger(MailerSecurityAlertSender.name);
+
+  constructor(
+    private readonly mailQueueIntegration: MailQueueIntegrationService,
+  ) {}
+
+  /**
+   * Queue a security alert email
+   * Failures are logged and swallowed so alerts never break the auth flow
+   * @param recipient - Recipient email and display name
+   * @param alert - Alert content
+   */
+  async sendAlert(
+    recipient: { email: string; name?: string },
+    alert: SecurityAlert,
+  ): Promise<void> {
+    try {
+      const result = await this.mailQueueIntegration.sendTemplateMailQueue(
+        'notification',
+        { email: recipient.email, name: recipient.name },
+        {
+          appName: process.env.APP_NAME || 'NestJS App',
+          name: recipient.name || recipient.email,
+          email: recipient.email,
+          notificationTitle: alert.title,
+          notificationMessage: alert.message,
+          actionRequired: !!alert.action,
+          actionDescription: alert.action?.description,
+          actionLink: alert.action?.link,
+          actionButtonText: alert.action?.buttonText,
+          additionalInfo: alert.details ?? [],
+          supportEmail: process.env.MAIL_SUPPORT || process.env.MAIL_FROM,
+          companyName: process.env.COMPANY_NAME || 'Your Company',
+          companyAddress: process.env.COMPANY_ADDRESS || '',
+        },
+        {},
+        8, // High priority for security alerts
+      );
+
+      this.logger.log(
+        `Security alert queued to: ${maskEmail(recipient.email)}, jobId: ${result.jobId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error queuing security alert to ${maskEmail(recipient.email)}:`,
+        error,
+      );
+    }
+  }
+}
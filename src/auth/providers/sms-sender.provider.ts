@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AxiosService } from 'src/shared/services';
+import { SmsSender } from '../interfaces';
+
+/**
+ * SMS sender implementation for a generic HTTP gateway
+ * Posts `{ to, from, message }` as JSON to `SMS_GATEWAY_URL` with the
+ * `SMS_GATEWAY_API_KEY` bearer token. Most SMS providers (or a thin
+ * proxy in front of them) accept this shape.
+ */
+@Injectable()
+export class HttpSmsSender implements SmsSender {
+  private readonly logger = new Logger(HttpSmsSender.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly axiosService: AxiosService,
+  ) {}
+
+  isEnabled(): boolean {
+    return !!this.configService.get<string>('app.sms.gatewayUrl');
+  }
+
+  /**
+   * Send a text message through the gateway
+   * @param phoneNumber - Recipient phone number
+   * @param message - Message body
+   * @throws Error when the gateway is not configured or rejects the request
+   */
+  async sendSms(phoneNumber: string, message: string): Promise<void> {
+    const gatewayUrl = this.configService.get<string>('app.sms.gatewayUrl');
+    if (!gatewayUrl) {
+      throw new Error('SMS gateway is not configured');
+    }
+
+    const apiKey = this.configService.get<string>('app.sms.apiKey');
+    await this.axiosService.post(
+      gatewayUrl,
+      {
+        to: phoneNumber,
+        from: this.configService.get<string>('app.sms.sender'),
+        message,
+      },
+      {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: 10000,
+      },
+    );
+
+    this.logger.log(`SMS sent to ***${phoneNumber.slice(-3)}`);
+  }
+}
@@ -0,0 +1,422 @@
+import {
+  createHash,
+  createPublicKey,
+  KeyObject,
+  timingSafeEqual,
+  verify,
+  X509Certificate,
+} from 'crypto';
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { cborDecode, cborDecodeFirst, CborValue } from 'src/common/utils';
+import {
+  VerifiedWebAuthnAuthentication,
+  VerifiedWebAuthnRegistration,
+  WebAuthnExpectations,
+} from '../interfaces';
+
+/** COSE algorithm identifiers accepted for passkeys */
+export const WEBAUTHN_ALGORITHMS = {
+  ES256: -7,
+  EDDSA: -8,
+  RS256: -257,
+} as const;
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  aaguid?: Buffer;
+  credentialId?: Buffer;
+  credentialPublicKey?: Buffer;
+}
+
+/**
+ * WebAuthn ceremony verifier
+ * Validates registration (attestation) and authentication (assertion)
+ * responses produced by `navigator.credentials.create/get`.
+ * Supports the `none` and `packed` attestation formats with ES256, EdDSA
+ * and RS256 credentials, which covers platform passkeys and security keys.
+ */
+@Injectable()
+export class WebAuthnVerifier {
+  private readonly logger = new Logger(WebAuthnVerifier.name);
+
+  /**
+   * Verify a registration response
+   * @param credential - Credential ID, client data and attestation object
+   * @param expected - Challenge, origins and RP ID to match
+   * @returns The credential to persist
+   */
+  verifyRegistration(
+    credential: {
+      rawId: string;
+      clientDataJSON: string;
+      attestationObject: string;
+    },
+    expected: WebAuthnExpectations,
+  ): VerifiedWebAuthnRegistration {
+    const clientDataJSON = this.fromBase64Url(credential.clientDataJSON);
+    this.verifyClientData(clientDataJSON, 'webauthn.create', expected);
+
+    const attestation = this.decodeMap(
+      this.fromBase64Url(credential.attestationObject),
+    );
+    const fmt = attestation.get('fmt');
+    const attStmt = attestation.get('attStmt');
+    const authDataRaw = attestation.get('authData');
+    if (
+      typeof fmt !== 'string' ||
+      !(attStmt instanceof Map) ||
+      !Buffer.isBuffer(authDataRaw)
+    ) {
+      this.fail('Malformed attestation object');
+    }
+
+    const authData = this.parseAuthenticatorData(authDataRaw);
+    this.verifyAuthenticatorData(authData, expected);
+    if (
+      !authData.credentialId ||
+      !authData.credentialPublicKey ||
+      !authData.aaguid
+    ) {
+      this.fail('Missing attested credential data');
+    }
+    if (
+      !this.safeEqual(
+        authData.credentialId,
+        this.fromBase64Url(credential.rawId),
+      )
+    ) {
+      this.fail('Credential ID mismatch');
+    }
+
+    const coseKey = this.decodeMap(authData.credentialPublicKey);
+    const algorithm = coseKey.get(3);
+    if (
+      typeof algorithm !== 'number' ||
+      !Object.values<number>(WEBAUTHN_ALGORITHMS).includes(algorithm)
+    ) {
+      this.fail('Unsupported credential algorithm');
+    }
+    const publicKey = this.coseToKeyObject(coseKey);
+
+    const signedData = Buffer.concat([
+      authDataRaw,
+      createHash('sha256').update(clientDataJSON).digest(),
+    ]);
+    this.verifyAttestationStatement(
+      fmt,
+      attStmt,
+      signedData,
+      publicKey,
+      algorithm,
+    );
+
+    return {
+      credentialId: authData.credentialId.toString('base64url'),
+      publicKey: authData.credentialPublicKey.toString('base64url'),
+      algorithm,
+      signCount: authData.signCount,
+      aaguid: this.formatAaguid(authData.aaguid),
+      attestationFormat: fmt,
+      userVerified: (authData.flags & FLAG_USER_VERIFIED) !== 0,
+    };
+  }
+
+  /**
+   * Verify an authentication response against a stored credential
+   * @param assertion - Client data, authenticator data and signature
+   * @param stored - Stored COSE public key and last known sign counter
+   * @param expected - Challenge, origins and RP ID to match
+   * @returns The new sign counter and user verification flag
+   */
+  verifyAuthentication(
+    assertion: {
+      clientDataJSON: string;
+      authenticatorData: string;
+      signature: string;
+    },
+    stored: { publicKey: string; signCount: number },
+    expected: WebAuthnExpectations,
+  ): VerifiedWebAuthnAuthentication {
+    const clientDataJSON = this.fromBase64Url(assertion.clientDataJSON);
+    this.verifyClientData(clientDataJSON, 'webauthn.get', expected);
+
+    const authDataRaw = this.fromBase64Url(assertion.authenticatorData);
+    const authData = this.parseAuthenticatorData(authDataRaw);
+    this.verifyAuthenticatorData(authData, expected);
+
+    const coseKey = this.decodeMap(this.fromBase64Url(stored.publicKey));
+    const algorithm = coseKey.get(3);
+    if (typeof algorithm !== 'number') {
+      this.fail('Unsupported credential algorithm');
+    }
+
+    const signedData = Buffer.concat([
+      authDataRaw,
+      createHash('sha256').update(clientDataJSON).digest(),
+    ]);
+    if (
+      !this.verifySignature(
+        algorithm,
+        this.coseToKeyObject(coseKey),
+        signedData,
+        this.fromBase64Url(assertion.signature),
+      )
+    ) {
+      this.fail('Invalid assertion signature');
+    }
+
+    // Authenticators that do not implement counters always report 0.
+    // Otherwise a counter that does not increase indicates a cloned key.
+    if (
+      (authData.signCount !== 0 || stored.signCount !== 0) &&
+      authData.signCount <= stored.signCount
+    ) {
+      this.fail('Signature counter did not increase');
+    }
+
+    return {
+      signCount: authData.signCount,
+      userVerified: (authData.flags & FLAG_USER_VERIFIED) !== 0,
+    };
+  }
+
+  private verifyClientData(
+    clientDataJSON: Buffer,
+    type: 'webauthn.create' | 'webauthn.get',
+    expected: WebAuthnExpectations,
+  ): void {
+    let clientData: ClientData;
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8')) as ClientData;
+    } catch {
+      this.fail('Malformed client data');
+    }
+
+    if (clientData.type !== type) {
+      this.fail('Unexpected ceremony type');
+    }
+    if (
+      typeof clientData.challenge !== 'string' ||
+      !this.safeEqual(
+        Buffer.from(clientData.challenge),
+        Buffer.from(expected.challenge),
+      )
+    ) {
+      this.fail('Challenge mismatch');
+    }
+    if (!expected.origins.includes(clientData.origin)) {
+      this.fail('Origin not allowed');
+    }
+  }
+
+  private verifyAuthenticatorData(
+    authData: ParsedAuthenticatorData,
+    expected: WebAuthnExpectations,
+  ): void {
+    const rpIdHash = createHash('sha256').update(expected.rpId).digest();
+    if (!this.safeEqual(authData.rpIdHash, rpIdHash)) {
+      this.fail('RP ID mismatch');
+    }
+    if (!(authData.flags & FLAG_USER_PRESENT)) {
+      this.fail('User not present');
+    }
+    if (
+      expected.requireUserVerification &&
+      !(authData.flags & FLAG_USER_VERIFIED)
+    ) {
+      this.fail('User not verified');
+    }
+  }
+
+  private verifyAttestationStatement(
+    fmt: string,
+    attStmt: Map<CborValue, CborValue>,
+    signedData: Buffer,
+    credentialKey: KeyObject,
+    credentialAlgorithm: number,
+  ): void {
+    if (fmt === 'none') {
+      if (attStmt.size !== 0) {
+        this.fail('Unexpected attestation statement');
+      }
+      return;
+    }
+
+    if (fmt === 'packed') {
+      const alg = attStmt.get('alg');
+      const sig = attStmt.get('sig');
+      const x5c = attStmt.get('x5c');
+      if (typeof alg !== 'number' || !Buffer.isBuffer(sig)) {
+        this.fail('Malformed packed attestation');
+      }
+
+      let key = credentialKey;
+      if (x5c !== undefined) {
+        if (!Array.isArray(x5c) || !Buffer.isBuffer(x5c[0])) {
+          this.fail('Malformed attestation certificate');
+        }
+        key = new X509Certificate(x5c[0]).publicKey;
+      } else if (alg !== credentialAlgorithm) {
+        // Self attestation must be signed by the credential key itself
+        this.fail('Self attestation algorithm mismatch');
+      }
+
+      if (!this.verifySignature(alg, key, signedData, sig)) {
+        this.fail('Invalid attestation signature');
+      }
+      return;
+    }
+
+    this.fail(`Unsupported attestation format: ${fmt}`);
+  }
+
+  private parseAuthenticatorData(authData: Buffer): ParsedAuthenticatorData {
+    if (authData.length < 37) {
+      this.fail('Authenticator data too short');
+    }
+
+    const parsed: ParsedAuthenticatorData = {
+      rpIdHash: authData.subarray(0, 32),
+      flags: authData[32],
+      signCount: authData.readUInt32BE(33),
+    };
+
+    if (parsed.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+      if (authData.length < 55) {
+        this.fail('Attested credential data too short');
+      }
+      parsed.aaguid = authData.subarray(37, 53);
+      const credentialIdLength = authData.readUInt16BE(53);
+      const keyOffset = 55 + credentialIdLength;
+      parsed.credentialId = authData.subarray(55, keyOffset);
+      try {
+        const { length } = cborDecodeFirst(authData.subarray(keyOffset));
+        parsed.credentialPublicKey = authData.subarray(
+          keyOffset,
+          keyOffset + length,
+        );
+      } catch {
+        this.fail('Malformed credential public key');
+      }
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Convert a COSE_Key map into a Node public key via its JWK form
+   */
+  private coseToKeyObject(coseKey: Map<CborValue, CborValue>): KeyObject {
+    const toB64 = (label: number) => {
+      const value = coseKey.get(label);
+      if (!Buffer.isBuffer(value)) {
+        this.fail('Malformed credential public key');
+      }
+      return value.toString('base64url');
+    };
+
+    const kty = coseKey.get(1);
+    const crv = coseKey.get(-1);
+    try {
+      // EC2
+      if (kty === 2 && crv === 1) {
+        return createPublicKey({
+          key: { kty: 'EC', crv: 'P-256', x: toB64(-2), y: toB64(-3) },
+          format: 'jwk',
+        });
+      }
+      // OKP
+      if (kty === 1 && crv === 6) {
+        return createPublicKey({
+          key: { kty: 'OKP', crv: 'Ed25519', x: toB64(-2) },
+          format: 'jwk',
+        });
+      }
+      // RSA
+      if (kty === 3) {
+        return createPublicKey({
+          key: { kty: 'RSA', n: toB64(-1), e: toB64(-2) },
+          format: 'jwk',
+        });
+      }
+    } catch {
+      this.fail('Malformed credential public key');
+    }
+    this.fail('Unsupported credential key type');
+  }
+
+  private verifySignature(
+    algorithm: number,
+    key: KeyObject,
+    data: Buffer,
+    signature: Buffer,
+  ): boolean {
+    try {
+      switch (algorithm) {
+        case WEBAUTHN_ALGORITHMS.ES256:
+        case WEBAUTHN_ALGORITHMS.RS256:
+          return verify('sha256', data, key, signature);
+        case WEBAUTHN_ALGORITHMS.EDDSA:
+          return verify(null, data, key, signature);
+        default:
+          return false;
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  private decodeMap(input: Buffer): Map<CborValue, CborValue> {
+    let value: CborValue;
+    try {
+      value = cborDecode(input);
+    } catch {
+      this.fail('Malformed CBOR data');
+    }
+    if (!(value instanceof Map)) {
+      this.fail('Malformed CBOR data');
+    }
+    return value;
+  }
+
+  private fromBase64Url(value: string): Buffer {
+    if (typeof value !== 'string' || !/^[A-Za-z0-9_-]*={0,2}$/.test(value)) {
+      this.fail('Malformed base64url value');
+    }
+    return Buffer.from(value, 'base64url');
+  }
+
+  private formatAaguid(aaguid: Buffer): string {
+    const hex = aaguid.toString('hex');
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20),
+    ].join('-');
+  }
+
+  private safeEqual(a: Buffer, b: Buffer): boolean {
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  private fail(reason: string): never {
+    this.logger.debug(`WebAuthn verification failed: ${reason}`);
+    throw new UnauthorizedException({
+      messageKey: 'auth.WEBAUTHN_VERIFICATION_FAILED',
+    });
+  }
+}
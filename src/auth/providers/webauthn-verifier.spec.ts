@@ -0,0 +1,309 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { WebAuthnExpectations } from '../interfaces';
+import { WebAuthnVerifier } from './webauthn-verifier.provider';
+
+// Generated once with node:crypto key pairs and a CBOR encoder.
+// rpId 'localhost', origin 'http://localhost:3000'
+const REGISTRATION_CHALLENGE = 'cmVnaXN0cmF0aW9uLWNoYWxsZW5nZS0wMDE';
+const AUTHENTICATION_CHALLENGE = 'YXV0aGVudGljYXRpb24tY2hhbGxlbmdlLTAx';
+
+const FIXTURES = {
+  es256None: {
+    id: 'X_DrxFtAVzVSDN_k_lNqr_-6zeEvS7JKQ-bMDNIfurM',
+    rawId: 'X_DrxFtAVzVSDN_k_lNqr_-6zeEvS7JKQ-bMDNIfurM',
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiY21WbmFYTjBjbUYwYVc5dUxXTm9ZV3hzWlc1blpTMHdNREUiLCJvcmlnaW4iOiJodHRwOi8vbG9jYWxob3N0OjMwMDAiLCJjcm9zc09yaWdpbiI6ZmFsc2V9',
+    attestationObject:
+      'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YVikSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NFAAAAAKqqqqqqqqqqqqqqqqqqqqoAIF_w68RbQFc1Ugzf5P5Taq__us3hL0uySkPmzAzSH7qzpQECAyYgASFYIJQt665ELn3l-wq6ULlEiVuVE6hMNdCbgKjFE4NhXt8UIlgg8mq4JkIz0-59JxSMMZpW3mJnV6hTEVPeSVL9_zG8YlY',
+    publicKey:
+      'pQECAyYgASFYIJQt665ELn3l-wq6ULlEiVuVE6hMNdCbgKjFE4NhXt8UIlgg8mq4JkIz0-59JxSMMZpW3mJnV6hTEVPeSVL9_zG8YlY',
+  },
+  es256Packed: {
+    id: '-XBZucJGpG4q5id0v6Kb1K1X65JQ96NP0vV4_HTqmpM',
+    rawId: '-XBZucJGpG4q5id0v6Kb1K1X65JQ96NP0vV4_HTqmpM',
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiY21WbmFYTjBjbUYwYVc5dUxXTm9ZV3hzWlc1blpTMHdNREUiLCJvcmlnaW4iOiJodHRwOi8vbG9jYWxob3N0OjMwMDAiLCJjcm9zc09yaWdpbiI6ZmFsc2V9',
+    attestationObject:
+      'o2NmbXRmcGFja2VkZ2F0dFN0bXSiY2FsZyZjc2lnWEcwRQIgQbn8p75-fGvRJ-XYdjVbrJ6_eg_YHy60sO00DtnAoBACIQCPi9GmvYQcopJ6bFEru7J2JBcu8lKYgzJ0J1Sh-eK102hhdXRoRGF0YVikSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NFAAAAAKqqqqqqqqqqqqqqqqqqqqoAIPlwWbnCRqRuKuYndL-im9StV-uSUPejT9L1ePx06pqTpQECAyYgASFYIJQt665ELn3l-wq6ULlEiVuVE6hMNdCbgKjFE4NhXt8UIlgg8mq4JkIz0-59JxSMMZpW3mJnV6hTEVPeSVL9_zG8YlY',
+    publicKey:
+      'pQECAyYgASFYIJQt665ELn3l-wq6ULlEiVuVE6hMNdCbgKjFE4NhXt8UIlgg8mq4JkIz0-59JxSMMZpW3mJnV6hTEVPeSVL9_zG8YlY',
+  },
+  es256Assertion: {
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiWVhWMGFHVnVkR2xqWVhScGIyNHRZMmhoYkd4bGJtZGxMVEF4Iiwib3JpZ2luIjoiaHR0cDovL2xvY2FsaG9zdDozMDAwIiwiY3Jvc3NPcmlnaW4iOmZhbHNlfQ',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAABQ',
+    signature:
+      'MEUCIAYQ9jioXODzf-77uGkvt4BRBN_pQ749D95FIg1-2bpEAiEAvvOnnJ392W5v06ReZxUGgS9o2j9CtobnsCNXJTtEWHs',
+  },
+  rs256: {
+    id: 'aVBg6UvXgaHnQUqo4X9RZI9T3JJX_FaxLLDD-0bQMb4',
+    rawId: 'aVBg6UvXgaHnQUqo4X9RZI9T3JJX_FaxLLDD-0bQMb4',
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiY21WbmFYTjBjbUYwYVc5dUxXTm9ZV3hzWlc1blpTMHdNREUiLCJvcmlnaW4iOiJodHRwOi8vbG9jYWxob3N0OjMwMDAiLCJjcm9zc09yaWdpbiI6ZmFsc2V9',
+    attestationObject:
+      'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YVkBZ0mWDeWIDoxodDQXD2R2YFuP5K65ooYyx5lc87qDHZdjRQAAAACqqqqqqqqqqqqqqqqqqqqqACBpUGDpS9eBoedBSqjhf1Fkj1Pcklf8VrEssMP7RtAxvqQBAwM5AQAgWQEAkQzJ94THSrKCHLrTjoNsHn3f5BxjvqHWsjU-VnX0GZlfJwaUzCXeJ7gdB73p1PLeBbBxuIV4yg1NoJoKqDJjxdfTBrPMEkZC7BwSpMugklgz1Q1csLg3lVPHs_tqWNuyOOgN39g9AROn0-nVvAGsgyuBgNh5eI1tfkS2K2qqbLoHXHdC0lwV6ZxNSqL-NVN-eGGeFR_f5MFjeDxIwNwa9rfqFy38c3gz6LyOmT1JhnNnZ3LVHW4Rbxsx0B0_8OL86iZhgApMv7Jzy_KKcOjBS11i213UoxNv8S9t6hipe2Q_2FkeIp4lr3RZ7LE6oKnxk3ihtbTIgSsOL84ifSJGFSFDAQAB',
+    publicKey:
+      'pAEDAzkBACBZAQCRDMn3hMdKsoIcutOOg2wefd_kHGO-odayNT5WdfQZmV8nBpTMJd4nuB0HvenU8t4FsHG4hXjKDU2gmgqoMmPF19MGs8wSRkLsHBKky6CSWDPVDVywuDeVU8ez-2pY27I46A3f2D0BE6fT6dW8AayDK4GA2Hl4jW1-RLYraqpsugdcd0LSXBXpnE1Kov41U354YZ4VH9_kwWN4PEjA3Br2t-oXLfxzeDPovI6ZPUmGc2dnctUdbhFvGzHQHT_w4vzqJmGACky_snPL8opw6MFLXWLbXdSjE2_xL23qGKl7ZD_YWR4iniWvdFnssTqgqfGTeKG1tMiBKw4vziJ9IkYVIUMBAAE',
+  },
+  rs256Assertion: {
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiWVhWMGFHVnVkR2xqWVhScGIyNHRZMmhoYkd4bGJtZGxMVEF4Iiwib3JpZ2luIjoiaHR0cDovL2xvY2FsaG9zdDozMDAwIiwiY3Jvc3NPcmlnaW4iOmZhbHNlfQ',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MBAAAAAA',
+    signature:
+      'E1QKd6Jl5wjOjLohwGwz71FtyiRkoVNVbf6dUviA5rBZtNh7n67bab4B8pI7lvvEKMcYzHPBFFAjtRsh6P31vDy53L-JNJRWXWga05ez01txJ01J2hJ6b_BtD0BDRX9vv4mI1ykGUAI0zxAbcypPwfHxmvjtWhNEu2TdWNz2jCOAV7OTD9YlJyCH-jHkEf8sMC8gw9IkcJofVozIjYvIINM8s1uExQhgM3jTKBpjj7V8amCBrGXgSPva5o8CyX8lFx-wKyijNIdU9dCtluaEYaUNYsDcY4S2nhzS8ZBJTYj_JiZlYkotdRiz94PxVqEoluCo2NjwTEESyGum3Mm1dQ',
+  },
+  es256U2f: {
+    id: 'kaGxsILFiIl8j_MN5GywZgK3EpsJWzq7cZHv7wcUUfs',
+    rawId: 'kaGxsILFiIl8j_MN5GywZgK3EpsJWzq7cZHv7wcUUfs',
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiY21WbmFYTjBjbUYwYVc5dUxXTm9ZV3hzWlc1blpTMHdNREUiLCJvcmlnaW4iOiJodHRwOi8vbG9jYWxob3N0OjMwMDAiLCJjcm9zc09yaWdpbiI6ZmFsc2V9',
+    attestationObject:
+      'o2NmbXRoZmlkby11MmZnYXR0U3RtdKBoYXV0aERhdGFYpEmWDeWIDoxodDQXD2R2YFuP5K65ooYyx5lc87qDHZdjRQAAAACqqqqqqqqqqqqqqqqqqqqqACCRobGwgsWIiXyP8w3kbLBmArcSmwlbOrtxke_vBxRR-6UBAgMmIAEhWCCULeuuRC595fsKulC5RIlblROoTDXQm4CoxRODYV7fFCJYIPJquCZCM9PufScUjDGaVt5iZ1eoUxFT3klS_f8xvGJW',
+    publicKey:
+      'pQECAyYgASFYIJQt665ELn3l-wq6ULlEiVuVE6hMNdCbgKjFE4NhXt8UIlgg8mq4JkIz0-59JxSMMZpW3mJnV6hTEVPeSVL9_zG8YlY',
+  },
+  eddsa: {
+    id: '51-IbvH-5e0TWEI9nkSRHA',
+    rawId: '51-IbvH-5e0TWEI9nkSRHA',
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiY21WbmFYTjBjbUYwYVc5dUxXTm9ZV3hzWlc1blpTMHdNREUiLCJvcmlnaW4iOiJodHRwOi8vbG9jYWxob3N0OjMwMDAiLCJjcm9zc09yaWdpbiI6ZmFsc2V9',
+    attestationObject:
+      'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YVhxSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NFAAAAAKqqqqqqqqqqqqqqqqqqqqoAEOdfiG7x_uXtE1hCPZ5EkRykAQEDJyAGIVggw-50ZTMKayYgWotJKsEmHHkaWGWKc6M7sAzDGcLVt8M',
+    publicKey: 'pAEBAycgBiFYIMPudGUzCmsmIFqLSSrBJhx5GlhlinOjO7AMwxnC1bfD',
+  },
+  eddsaAssertion: {
+    clientDataJSON:
+      'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiWVhWMGFHVnVkR2xqWVhScGIyNHRZMmhoYkd4bGJtZGxMVEF4Iiwib3JpZ2luIjoiaHR0cDovL2xvY2FsaG9zdDozMDAwIiwiY3Jvc3NPcmlnaW4iOmZhbHNlfQ',
+    authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAAAQ',
+    signature:
+      'TJL1FqPKqXV0r_bLS8jcnQ-XufpER2Fr9M1OEUA8_uG8WGs6mUJFwxHRC8rw1ul338kyvMvFL6PbT-kzrRDfCQ',
+  },
+};
+
+describe('WebAuthnVerifier', () => {
+  const verifier = new WebAuthnVerifier();
+
+  const registrationExpectations: WebAuthnExpectations = {
+    challenge: REGISTRATION_CHALLENGE,
+    origins: ['http://localhost:3000'],
+    rpId: 'localhost',
+  };
+  const authenticationExpectations: WebAuthnExpectations = {
+    ...registrationExpectations,
+    challenge: AUTHENTICATION_CHALLENGE,
+  };
+
+  // Flip one bit of a base64url encoded value
+  const tamper = (value: string, index = 0) => {
+    const bytes = Buffer.from(value, 'base64url');
+    bytes[index] ^= 0x01;
+    return bytes.toString('base64url');
+  };
+
+  describe('verifyRegistration', () => {
+    it('should accept an ES256 credential with none attestation', () => {
+      const result = verifier.verifyRegistration(
+        FIXTURES.es256None,
+        registrationExpectations,
+      );
+
+      expect(result).toEqual({
+        credentialId: FIXTURES.es256None.rawId,
+        publicKey: FIXTURES.es256None.publicKey,
+        algorithm: -7,
+        signCount: 0,
+        aaguid: 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+        attestationFormat: 'none',
+        userVerified: true,
+      });
+    });
+
+    it('should accept packed self attestation', () => {
+      const result = verifier.verifyRegistration(
+        FIXTURES.es256Packed,
+        registrationExpectations,
+      );
+
+      expect(result.attestationFormat).toBe('packed');
+      expect(result.credentialId).toBe(FIXTURES.es256Packed.rawId);
+    });
+
+    it('should accept RS256 and EdDSA credentials', () => {
+      expect(
+        verifier.verifyRegistration(FIXTURES.rs256, registrationExpectations)
+          .algorithm,
+      ).toBe(-257);
+      expect(
+        verifier.verifyRegistration(FIXTURES.eddsa, registrationExpectations)
+          .algorithm,
+      ).toBe(-8);
+    });
+
+    it('should reject a packed attestation over different client data', () => {
+      // Still valid for the challenge and origin, but not what was signed
+      const clientDataJSON = Buffer.from(
+        JSON.stringify({
+          type: 'webauthn.create',
+          challenge: REGISTRATION_CHALLENGE,
+          origin: 'http://localhost:3000',
+        }),
+      ).toString('base64url');
+
+      expect(() =>
+        verifier.verifyRegistration(
+          { ...FIXTURES.es256Packed, clientDataJSON },
+          registrationExpectations,
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject an origin that is not allowed', () => {
+      expect(() =>
+        verifier.verifyRegistration(FIXTURES.es256None, {
+          ...registrationExpectations,
+          origins: ['https://evil.example.com'],
+        }),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject a different challenge', () => {
+      expect(() =>
+        verifier.verifyRegistration(FIXTURES.es256None, {
+          ...registrationExpectations,
+          challenge: AUTHENTICATION_CHALLENGE,
+        }),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject a different RP ID', () => {
+      expect(() =>
+        verifier.verifyRegistration(FIXTURES.es256None, {
+          ...registrationExpectations,
+          rpId: 'example.com',
+        }),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject a credential ID that does not match the attestation', () => {
+      expect(() =>
+        verifier.verifyRegistration(
+          { ...FIXTURES.es256None, rawId: FIXTURES.eddsa.rawId },
+          registrationExpectations,
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject unsupported attestation formats', () => {
+      expect(() =>
+        verifier.verifyRegistration(
+          FIXTURES.es256U2f,
+          registrationExpectations,
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject an authentication response', () => {
+      expect(() =>
+        verifier.verifyRegistration(
+          {
+            ...FIXTURES.es256None,
+            clientDataJSON: FIXTURES.es256Assertion.clientDataJSON,
+          },
+          authenticationExpectations,
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+  });
+
+  describe('verifyAuthentication', () => {
+    it('should verify an ES256 assertion and return the new counter', () => {
+      const result = verifier.verifyAuthentication(
+        FIXTURES.es256Assertion,
+        { publicKey: FIXTURES.es256None.publicKey, signCount: 4 },
+        authenticationExpectations,
+      );
+
+      expect(result).toEqual({ signCount: 5, userVerified: true });
+    });
+
+    it('should verify an EdDSA assertion', () => {
+      expect(
+        verifier.verifyAuthentication(
+          FIXTURES.eddsaAssertion,
+          { publicKey: FIXTURES.eddsa.publicKey, signCount: 0 },
+          authenticationExpectations,
+        ),
+      ).toEqual({ signCount: 1, userVerified: true });
+    });
+
+    it('should accept authenticators without a counter', () => {
+      expect(
+        verifier.verifyAuthentication(
+          FIXTURES.rs256Assertion,
+          { publicKey: FIXTURES.rs256.publicKey, signCount: 0 },
+          authenticationExpectations,
+        ),
+      ).toEqual({ signCount: 0, userVerified: false });
+    });
+
+    it('should reject a tampered signature', () => {
+      expect(() =>
+        verifier.verifyAuthentication(
+          {
+            ...FIXTURES.es256Assertion,
+            signature: tamper(FIXTURES.es256Assertion.signature, 10),
+          },
+          { publicKey: FIXTURES.es256None.publicKey, signCount: 0 },
+          authenticationExpectations,
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject a signature from another credential', () => {
+      expect(() =>
+        verifier.verifyAuthentication(
+          FIXTURES.es256Assertion,
+          { publicKey: FIXTURES.eddsa.publicKey, signCount: 0 },
+          authenticationExpectations,
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject a counter that did not increase', () => {
+      expect(() =>
+        verifier.verifyAuthentication(
+          FIXTURES.es256Assertion,
+          { publicKey: FIXTURES.es256None.publicKey, signCount: 5 },
+          authenticationExpectations,
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should require user verification when asked to', () => {
+      expect(() =>
+        verifier.verifyAuthentication(
+          FIXTURES.rs256Assertion,
+          { publicKey: FIXTURES.rs256.publicKey, signCount: 0 },
+          { ...authenticationExpectations, requireUserVerification: true },
+        ),
+      ).toThrow(UnauthorizedException);
+    });
+
+    it('should reject a wrong origin or RP ID', () => {
+      const stored = { publicKey: FIXTURES.es256None.publicKey, signCount: 0 };
+
+      expect(() =>
+        verifier.verifyAuthentication(FIXTURES.es256Assertion, stored, {
+          ...authenticationExpectations,
+          origins: ['https://localhost:3000'],
+        }),
+      ).toThrow(UnauthorizedException);
+      expect(() =>
+        verifier.verifyAuthentication(FIXTURES.es256Assertion, stored, {
+          ...authenticationExpectations,
+          rpId: 'localhost.evil.com',
+        }),
+      ).toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { RequirePermissions } from 'src/common/decorators';
+import { PERMISSIONS } from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+
+import { CreateRoleDto, UpdateRoleDto } from './dto';
+import { PermissionService } from './permission.service';
+
+/**
+ * Role and permission management
+ * Changes reach existing tokens without signing in again
+ */
+@Controller('admin/roles')
+@RequirePermissions(PERMISSIONS.ROLES_MANAGE)
+export class RoleAdminController {
+  constructor(private readonly permissionService: PermissionService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async listRoles() {
+    return this.permissionService.listRoles();
+  }
+
+  @Get(':name')
+  @HttpCode(HttpStatus.OK)
+  async getRole(@Param('name') name: string) {
+    return this.permissionService.getRole(name);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createRole(@Body() dto: CreateRoleDto) {
+    return this.permissionService.createRole(dto);
+  }
+
+  @Patch(':name')
+  @HttpCode(HttpStatus.OK)
+  async updateRole(@Param('name') name: string, @Body() dto: UpdateRoleDto) {
+    return this.permissionService.updateRole(name, dto);
+  }
+
+  @Delete(':name')
+  @HttpCode(HttpStatus.OK)
+  async deleteRole(@Param('name') name: string) {
+    await this.permissionService.deleteRole(name);
+    return buildResponse({ messageKey: 'auth.ROLE_DELETED' });
+  }
+}
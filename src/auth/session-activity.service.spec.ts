@@ -0,0 +1,147 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { SessionActivityService } from './session-activity.service';
+
+describe('SessionActivityService', () => {
+  let service: SessionActivityService;
+  let usersService: jest.Mocked<UsersService>;
+  let cacheService: jest.Mocked<CacheService>;
+  let config: Record<string, unknown>;
+
+  beforeEach(async () => {
+    config = {
+      'app.session.absoluteLifetimeSeconds': 30 * 24 * 60 * 60,
+      'app.session.idleTimeoutSeconds': 7 * 24 * 60 * 60,
+      'app.session.activityWriteIntervalSeconds': 300,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionActivityService,
+        {
+          provide: UsersService,
+          useValue: {
+            touchSession: jest.fn(),
+            findExpiredSessions: jest.fn().mockResolvedValue([]),
+            expireSessions: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            compareAndSwap: jest.fn().mockResolvedValue(true),
+            delete: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SessionActivityService);
+    usersService = module.get(UsersService);
+    cacheService = module.get(CacheService);
+  });
+
+  describe('getExpiresAt', () => {
+    it('should slide by the idle timeout', () => {
+      const now = new Date();
+
+      expect(service.getExpiresAt(now, now)).toEqual(
+        new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000),
+      );
+    });
+
+    it('should stop at the absolute lifetime', () => {
+      const createdAt = new Date(Date.now() - 28 * 24 * 60 * 60 * 1000);
+
+      expect(service.getExpiresAt(createdAt)).toEqual(
+        new Date(createdAt.getTime() + 30 * 24 * 60 * 60 * 1000),
+      );
+    });
+  });
+
+  describe('recordActivity', () => {
+    it('should write lastActiveAt at most once per interval', async () => {
+      await service.recordActivity({ uid: '123', ssid: 'session123' });
+      await service.recordActivity({ uid: '123', ssid: 'session123' });
+      await service.recordActivity({ uid: '123', ssid: 'session456' });
+
+      expect(usersService.touchSession).toHaveBeenCalledTimes(2);
+      expect(usersService.touchSession).toHaveBeenCalledWith(
+        'session123',
+        expect.any(Date),
+        30 * 24 * 60 * 60,
+        expect.any(Date),
+      );
+      expect(usersService.touchSession).toHaveBeenCalledWith(
+        'session456',
+        expect.any(Date),
+        30 * 24 * 60 * 60,
+        expect.any(Date),
+      );
+    });
+
+    it('should slide the expiry of an active session by the idle timeout', async () => {
+      await service.recordActivity({ uid: '123', ssid: 'session123' });
+
+      const [, expiresAt, , at] = usersService.touchSession.mock.calls[0] as [
+        string,
+        Date,
+        number,
+        Date,
+      ];
+      expect(expiresAt.getTime() - at.getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should retry on the next request after a failed write', async () => {
+      usersService.touchSession.mockRejectedValueOnce(new Error('db down'));
+
+      await service.recordActivity({ uid: '123', ssid: 'session123' });
+      await service.recordActivity({ uid: '123', ssid: 'session123' });
+
+      expect(usersService.touchSession).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('expireIdleSessions', () => {
+    it('should revoke idle sessions and delete their token keys', async () => {
+      usersService.findExpiredSessions.mockResolvedValueOnce([
+        { id: 'session123', userId: '123' },
+        { id: 'session456', userId: '456' },
+      ]);
+
+      const expired = await service.expireIdleSessions();
+
+      expect(expired).toBe(2);
+      const [now, idleSince] = usersService.findExpiredSessions.mock.calls[0];
+      expect(now.getTime() - idleSince.getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(usersService.expireSessions).toHaveBeenCalledWith([
+        'session123',
+        'session456',
+      ]);
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:123:accessToken:session123',
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:user:456:refreshToken:session456',
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'auth:session:cleanup-lock',
+      );
+    });
+
+    it('should skip the sweep while another instance holds the lock', async () => {
+      cacheService.compareAndSwap.mockResolvedValue(false);
+
+      await expect(service.expireIdleSessions()).resolves.toBe(0);
+      expect(usersService.findExpiredSessions).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { AuthPayload } from 'src/common/interface';
+import { LruCache } from 'src/common/utils';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Session lifetimes and activity
+ * A session expires when it was not used for the idle timeout, or once it
+ * reaches its absolute lifetime however active it is. Every refresh and
+ * every recorded request slides `expiresAt` forward within that cap, and a
+ * periodic sweep revokes the sessions that expired.
+ */
+@Injectable()
+export class SessionActivityService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SessionActivityService.name);
+
+  private readonly CLEANUP_LOCK_KEY = 'auth:session:cleanup-lock';
+  private readonly CLEANUP_LOCK_TTL_SECONDS = 5 * 60; // 5 minutes
+  private readonly CLEANUP_BATCH_SIZE = 500;
+  private readonly RECENT_WRITES_MAX_ENTRIES = 10_000;
+
+  // Sessions whose lastActiveAt this instance wrote recently
+  private readonly recentWrites = new LruCache<string, true>(
+    this.RECENT_WRITES_MAX_ENTRIES,
+    60 * 1000,
+  );
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  onModuleInit(): void {
+    this.cleanupTimer = setInterval(() => {
+      this.expireIdleSessions().catch((error) =>
+        this.logger.error('Failed to expire idle sessions:', error),
+      );
+    }, this.getConfig().cleanupIntervalSeconds * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Expiry of a session used at `now`: the idle timeout from now, capped
+   * by the absolute lifetime counted from the sign-in
+   * @param createdAt - Creation time of the session
+   * @param now - Time of the activity (default: now)
+   */
+  getExpiresAt(createdAt: Date, now: Date = new Date()): Date {
+    const config = this.getConfig();
+    return new Date(
+      Math.min(
+        now.getTime() + config.idleTimeoutSeconds * 1000,
+        new Date(createdAt).getTime() + config.absoluteLifetimeSeconds * 1000,
+      ),
+    );
+  }
+
+  /**
+   * Record that the session of an access token was used and slide its
+   * expiry like a refresh does
+   * Written at most once per SESSION_ACTIVITY_WRITE_INTERVAL_SECONDS per
+   * instance, never throws so a failed write cannot fail the request
+   * @param payload - Verified access token payload
+   */
+  async recordActivity(payload: AuthPayload): Promise<void> {
+    if (!payload.ssid || this.recentWrites.get(payload.ssid)) return;
+    const config = this.getConfig();
+    this.recentWrites.set(
+      payload.ssid,
+      true,
+      config.activityWriteIntervalSeconds * 1000,
+    );
+
+    try {
+      const now = new Date();
+      await this.usersService.touchSession(
+        payload.ssid,
+        new Date(now.getTime() + config.idleTimeoutSeconds * 1000),
+        config.absoluteLifetimeSeconds,
+        now,
+      );
+    } catch (error) {
+      this.recentWrites.delete(payload.ssid);
+      this.logger.warn(
+        `Failed to record activity of session ${payload.ssid}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Revoke the sessions that expired or went idle, delete their token
+   * keys and the device tokens registered on them
+   * Only one instance sweeps at a time
+   * @returns Number of sessions expired
+   */
+  async expireIdleSessions(): Promise<number> {
+    const acquired = await this.cacheService.compareAndSwap(
+      this.CLEANUP_LOCK_KEY,
+      null,
+      Date.now(),
+      this.CLEANUP_LOCK_TTL_SECONDS,
+    );
+    if (!acquired) return 0;
+
+    try {
+      const now = new Date();
+      const idleSince = new Date(
+        now.getTime() - this.getConfig().idleTimeoutSeconds * 1000,
+      );
+
+      let expired = 0;
+      for (;;) {
+        const sessions = await this.usersService.findExpiredSessions(
+          now,
+          idleSince,
+          this.CLEANUP_BATCH_SIZE,
+        );
+        if (sessions.length === 0) break;
+
+        await this.usersService.expireSessions(
+          sessions.map((session) => session.id),
+        );
+        await Promise.all(
+          sessions.flatMap(({ id, userId }) => [
+            this.cacheService.delete(`auth:user:${userId}:accessToken:${id}`),
+            this.cacheService.delete(`auth:user:${userId}:refreshToken:${id}`),
+          ]),
+        );
+        expired += sessions.length;
+        if (sessions.length < this.CLEANUP_BATCH_SIZE) break;
+      }
+
+      if (expired > 0) this.logger.log(`Expired ${expired} idle sessions`);
+      return expired;
+    } finally {
+      await this.cacheService.delete(this.CLEANUP_LOCK_KEY);
+    }
+  }
+
+  private getConfig() {
+    return {
+      absoluteLifetimeSeconds:
+        this.configService.get<number>('app.session.absoluteLifetimeSeconds') ??
+        30 * 24 * 60 * 60,
+      idleTimeoutSeconds:
+        this.configService.get<number>('app.session.idleTimeoutSeconds') ??
+        7 * 24 * 60 * 60,
+      activityWriteIntervalSeconds:
+        this.configService.get<number>(
+          'app.session.activityWriteIntervalSeconds',
+        ) ?? 5 * 60,
+      cleanupIntervalSeconds:
+        this.configService.get<number>('app.session.cleanupIntervalSeconds') ??
+        60 * 60,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { UsersModule } from 'src/users/users.module';
+
+import { Global, Module } from '@nestjs/common';
+
+import { SessionActivityService } from './session-activity.service';
+import { SessionRevocationService } from './session-revocation.service';
+
+/**
+ * Global so the auth guards can check session liveness and record
+ * activity in any module
+ */
+@Global()
+@Module({
+  imports: [UsersModule],
+  providers: [SessionRevocationService, SessionActivityService],
+  exports: [SessionRevocationService, SessionActivityService],
+})
+export class SessionRevocationModule {}
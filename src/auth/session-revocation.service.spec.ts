@@ -0,0 +1,158 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { EventEmitter } from 'events';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { SessionRevocationService } from './session-revocation.service';
+
+describe('SessionRevocationService', () => {
+  let service: SessionRevocationService;
+  let usersService: jest.Mocked<UsersService>;
+  let cacheService: jest.Mocked<CacheService>;
+
+  // Pub/sub stand-in: every publish is delivered to the subscriber
+  let subscriber: EventEmitter & { subscribe: jest.Mock; quit: jest.Mock };
+  const redis = {
+    publish: jest.fn((channel: string, message: string) => {
+      subscriber.emit('message', channel, message);
+      return Promise.resolve(1);
+    }),
+    duplicate: jest.fn(() => subscriber),
+  };
+
+  const payload = { uid: '123', ssid: 'session1' };
+
+  beforeEach(async () => {
+    subscriber = Object.assign(new EventEmitter(), {
+      subscribe: jest.fn(),
+      quit: jest.fn().mockResolvedValue('OK'),
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionRevocationService,
+        {
+          provide: UsersService,
+          useValue: {
+            revokeSession: jest.fn(),
+            revokeSessionsByUserId: jest.fn(),
+            findActiveSessionIdsByUserId: jest
+              .fn()
+              .mockResolvedValue(['session1', 'session2']),
+          },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            getTtl: jest.fn().mockResolvedValue(3600),
+            get: jest.fn().mockResolvedValue(null),
+            set: jest.fn(),
+            delete: jest.fn(),
+            getRedisClient: jest.fn(() => redis),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SessionRevocationService);
+    usersService = module.get(UsersService);
+    cacheService = module.get(CacheService);
+    await service.onModuleInit();
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it('should serve repeated checks from the in-process cache', async () => {
+    await expect(service.isSessionActive(payload)).resolves.toBe(true);
+    await expect(service.isSessionActive(payload)).resolves.toBe(true);
+
+    expect(cacheService.getTtl).toHaveBeenCalledTimes(1);
+    expect(cacheService.getTtl).toHaveBeenCalledWith(
+      'auth:user:123:accessToken:session1',
+    );
+  });
+
+  it('should reject a session whose access key is gone', async () => {
+    cacheService.getTtl.mockResolvedValue(-2);
+
+    await expect(service.isSessionActive(payload)).resolves.toBe(false);
+  });
+
+  it('should reject a revoked session right away', async () => {
+    await service.isSessionActive(payload);
+    await service.revokeSession('123', 'session1');
+    cacheService.getTtl.mockResolvedValue(-2);
+
+    expect(usersService.revokeSession).toHaveBeenCalledWith('session1');
+    expect(cacheService.delete).toHaveBeenCalledWith(
+      'auth:user:123:accessToken:session1',
+    );
+    expect(cacheService.delete).toHaveBeenCalledWith(
+      'auth:user:123:refreshToken:session1',
+    );
+    await expect(service.isSessionActive(payload)).resolves.toBe(false);
+  });
+
+  it('should drop cached sessions revoked by another instance', async () => {
+    await service.isSessionActive(payload);
+    cacheService.getTtl.mockResolvedValue(-2);
+
+    subscriber.emit(
+      'message',
+      'auth:session-revocations',
+      JSON.stringify({ userId: '123', sessionId: 'session1' }),
+    );
+
+    await expect(service.isSessionActive(payload)).resolves.toBe(false);
+  });
+
+  it('should keep the excepted session when revoking all others', async () => {
+    const other = { uid: '123', ssid: 'session2' };
+    await service.isSessionActive(payload);
+    await service.isSessionActive(other);
+
+    await service.revokeAllSessions('123', 'session1');
+
+    expect(usersService.revokeSessionsByUserId).toHaveBeenCalledWith(
+      '123',
+      'session1',
+    );
+    expect(cacheService.delete).toHaveBeenCalledWith(
+      'auth:user:123:accessToken:session2',
+    );
+    expect(cacheService.delete).not.toHaveBeenCalledWith(
+      'auth:user:123:accessToken:session1',
+    );
+
+    cacheService.getTtl.mockResolvedValue(-2);
+    await expect(service.isSessionActive(payload)).resolves.toBe(true);
+    await expect(service.isSessionActive(other)).resolves.toBe(false);
+  });
+
+  it('should report a suspended account before the revoked session', async () => {
+    await service.isSessionActive(payload);
+    cacheService.get.mockResolvedValue('suspended');
+    cacheService.getTtl.mockResolvedValue(-2);
+
+    await service.applyAccountStatus('123', 'suspended');
+
+    expect(cacheService.set).toHaveBeenCalledWith(
+      'auth:account-status:123',
+      'suspended',
+      -1,
+    );
+    expect(usersService.revokeSessionsByUserId).toHaveBeenCalledWith(
+      '123',
+      undefined,
+    );
+    await expect(service.checkSession(payload)).resolves.toBe('suspended');
+  });
+
+  it('should lift the block when the account is reactivated', async () => {
+    await service.applyAccountStatus('123', 'active');
+
+    expect(cacheService.delete).toHaveBeenCalledWith('auth:account-status:123');
+    expect(usersService.revokeSessionsByUserId).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import { Redis } from 'ioredis';
+import { AuthPayload } from 'src/common/interface';
+import { LruCache } from 'src/common/utils';
+import { USER_CONSTANTS, UserStatus } from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+
+import { SessionCheckResult, SessionRevocationMessage } from './interfaces';
+
+/**
+ * Session liveness for access tokens
+ * A session is live while its `auth:user:{uid}:accessToken:{ssid}` key
+ * exists. Guards check it on every request through a short-lived
+ * in-process cache; revocations delete the key and are broadcast over
+ * Redis pub/sub so every instance drops its cached entry right away.
+ */
+@Injectable()
+export class SessionRevocationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SessionRevocationService.name);
+
+  private readonly CHANNEL = 'auth:session-revocations';
+  // Set while an account is suspended or banned, the database stays the
+  // source of truth for sign-in
+  private readonly ACCOUNT_STATUS_PREFIX = 'auth:account-status:';
+  // Upper bound on how long a revocation can go unnoticed when a
+  // broadcast is missed
+  private readonly LIVE_CACHE_TTL_MS = 10 * 1000; // 10 seconds
+  private readonly LIVE_CACHE_MAX_ENTRIES = 10_000;
+
+  // `${uid}:${ssid}` of sessions recently found live, revoked sessions are
+  // never cached since a refresh can bring the session back
+  private readonly liveSessions = new LruCache<string, true>(
+    this.LIVE_CACHE_MAX_ENTRIES,
+    this.LIVE_CACHE_TTL_MS,
+  );
+  private subscriber?: Redis;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    try {
+      this.subscriber = this.cacheService.getRedisClient().duplicate();
+      this.subscriber.on('error', (error) =>
+        this.logger.warn('Session revocation subscriber error:', error),
+      );
+      this.subscriber.on('message', (channel: string, message: string) => {
+        if (channel === this.CHANNEL) this.handleMessage(message);
+      });
+      await this.subscriber.subscribe(this.CHANNEL);
+    } catch (error) {
+      this.logger.error(
+        'Failed to subscribe to session revocations, other instances may accept revoked tokens until their cache expires:',
+        error,
+      );
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.subscriber?.quit().catch(() => undefined);
+  }
+
+  /**
+   * Whether the session of an access token is still live
+   * @param payload - Verified access token payload
+   */
+  async isSessionActive(payload: AuthPayload): Promise<boolean> {
+    return (await this.checkSession(payload)) === 'active';
+  }
+
+  /**
+   * Liveness of the session of an access token and status of its account
+   * @param payload - Verified access token payload
+   */
+  async checkSession(payload: AuthPayload): Promise<SessionCheckResult> {
+    const cacheKey = this.getCacheKey(payload.uid, payload.ssid);
+    if (this.liveSessions.get(cacheKey)) return 'active';
+
+    const [ttl, accountStatus] = await Promise.all([
+      this.cacheService.getTtl(
+        `auth:user:${payload.uid}:accessToken:${payload.ssid}`,
+      ),
+      this.cacheService.get<UserStatus>(
+        `${this.ACCOUNT_STATUS_PREFIX}${payload.uid}`,
+      ),
+    ]);
+    if (accountStatus === USER_CONSTANTS.STATUS.SUSPENDED) return 'suspended';
+    if (accountStatus === USER_CONSTANTS.STATUS.REMOVED) return 'banned';
+    if (!ttl || ttl <= 0) return 'revoked';
+
+    this.liveSessions.set(cacheKey, true);
+    return 'active';
+  }
+
+  /**
+   * Block or unblock every token of a user, then revoke their sessions
+   * when blocked
+   * @param userId - User whose status changed
+   * @param status - New account status
+   */
+  async applyAccountStatus(userId: string, status: UserStatus): Promise<void> {
+    const key = `${this.ACCOUNT_STATUS_PREFIX}${userId}`;
+    if (
+      status !== USER_CONSTANTS.STATUS.SUSPENDED &&
+      status !== USER_CONSTANTS.STATUS.REMOVED
+    ) {
+      await this.cacheService.delete(key);
+      return;
+    }
+
+    // No expiry, the flag lives as long as the block
+    await this.cacheService.set(key, status, -1);
+    await this.revokeAllSessions(userId);
+  }
+
+  /**
+   * Revoke one session, its tokens stop working on every instance
+   * @param userId - Session owner
+   * @param sessionId - Session to revoke
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await Promise.all([
+      this.usersService.revokeSession(sessionId),
+      this.deleteTokenKeys(userId, sessionId),
+    ]);
+    await this.broadcast({ userId, sessionId });
+  }
+
+  /**
+   * Revoke every session of a user
+   * @param userId - User whose sessions are revoked
+   * @param exceptSessionId - Session to keep, e.g. the one changing the password
+   */
+  async revokeAllSessions(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<void> {
+    const sessionIds = (
+      await this.usersService.findActiveSessionIdsByUserId(userId)
+    ).filter((sessionId) => sessionId !== exceptSessionId);
+
+    await Promise.all([
+      this.usersService.revokeSessionsByUserId(userId, exceptSessionId),
+      ...sessionIds.map((sessionId) => this.deleteTokenKeys(userId, sessionId)),
+    ]);
+    await this.broadcast({ userId, exceptSessionId });
+  }
+
+  private async deleteTokenKeys(
+    userId: string,
+    sessionId: string,
+  ): Promise<void> {
+    await Promise.all([
+      this.cacheService.delete(`auth:user:${userId}:accessToken:${sessionId}`),
+      this.cacheService.delete(`auth:user:${userId}:refreshToken:${sessionId}`),
+    ]);
+  }
+
+  /**
+   * Drop cached liveness locally and tell the other instances to do the same
+   */
+  private async broadcast(message: SessionRevocationMessage): Promise<void> {
+    this.evict(message);
+    try {
+      await this.cacheService
+        .getRedisClient()
+        .publish(this.CHANNEL, JSON.stringify(message));
+    } catch (error) {
+      this.logger.warn('Failed to broadcast session revocation:', error);
+    }
+  }
+
+  private handleMessage(raw: string): void {
+    try {
+      this.evict(JSON.parse(raw) as SessionRevocationMessage);
+    } catch (error) {
+      this.logger.warn('Ignoring malformed session revocation:', error);
+    }
+  }
+
+  private evict({
+    userId,
+    sessionId,
+    exceptSessionId,
+  }: SessionRevocationMessage): void {
+    if (sessionId) {
+      this.liveSessions.delete(this.getCacheKey(userId, sessionId));
+      return;
+    }
+
+    const kept = exceptSessionId && this.getCacheKey(userId, exceptSessionId);
+    this.liveSessions.deleteWhere(
+      (key) => key.startsWith(`${userId}:`) && key !== kept,
+    );
+  }
+
+  private getCacheKey(userId: string, sessionId: string): string {
+    return `${userId}:${sessionId}`;
+  }
+}
@@ -0,0 +1,124 @@
+import { Auth, ClientInfo, RequirePermissions } from 'src/common/decorators';
+import { AuthPayload } from 'src/common/interface';
+import { SnowflakeIdPipe } from 'src/common/pipes';
+import { PERMISSIONS } from 'src/shared/constants';
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Request,
+} from '@nestjs/common';
+
+import {
+  AdminActionDto,
+  ImpersonateUserDto,
+  UpdateUserRoleDto,
+  UpdateUserStatusDto,
+} from './dto';
+import { UserAdminService } from './user-admin.service';
+
+/**
+ * Account management endpoints
+ * Restricted to roles granted `users:manage:any`, every action is audited
+ */
+@Controller('admin/users')
+export class UserAdminController {
+  constructor(private readonly userAdminService: UserAdminService) {}
+
+  @Patch(':id/status')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  async changeStatus(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Body() dto: UpdateUserStatusDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userAdminService.changeStatus(req.user, id, dto, clientInfo);
+  }
+
+  @Patch(':id/role')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  async changeRole(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Body() dto: UpdateUserRoleDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userAdminService.changeRole(req.user, id, dto, clientInfo);
+  }
+
+  @Post(':id/logout')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  async forceLogout(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Body() dto: AdminActionDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userAdminService.forceLogout(req.user, id, dto, clientInfo);
+  }
+
+  @Post(':id/password-reset')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  async resetPassword(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Body() dto: AdminActionDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userAdminService.resetPassword(req.user, id, dto, clientInfo);
+  }
+
+  @Post(':id/impersonate')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  async impersonate(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Body() dto: ImpersonateUserDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userAdminService.impersonate(req.user, id, dto, clientInfo);
+  }
+
+  // Any role, the caller is the impersonated user holding the admin's token
+  @Post('impersonation/stop')
+  @HttpCode(HttpStatus.OK)
+  @Auth()
+  async stopImpersonation(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() dto: AdminActionDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userAdminService.stopImpersonation(req.user, dto, clientInfo);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  async restoreAccount(
+    @Request() req: Request & { user: AuthPayload },
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Body() dto: AdminActionDto,
+    @ClientInfo() clientInfo: ClientInfo,
+  ) {
+    return this.userAdminService.restoreAccount(req.user, id, dto, clientInfo);
+  }
+
+  @Get(':id/audit-logs')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.USERS_MANAGE)
+  async listAuditLogs(@Param('id', new SnowflakeIdPipe()) id: string) {
+    return this.userAdminService.listAuditLogs(id);
+  }
+}
@@ -0,0 +1,322 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AuthPayload } from 'src/common/interface';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { AuthService } from './auth.service';
+import { AdminAuditLog } from './entities';
+import { PermissionService } from './permission.service';
+import { SessionRevocationService } from './session-revocation.service';
+import { UserAdminService } from './user-admin.service';
+
+describe('UserAdminService', () => {
+  let service: UserAdminService;
+  let usersService: jest.Mocked<UsersService>;
+  let authService: jest.Mocked<AuthService>;
+  let sessionRevocation: jest.Mocked<SessionRevocationService>;
+  let auditLogRepository: {
+    create: jest.Mock<Partial<AdminAuditLog>, [Partial<AdminAuditLog>]>;
+    save: jest.Mock<Promise<Partial<AdminAuditLog>>, [Partial<AdminAuditLog>]>;
+    find: jest.Mock;
+  };
+
+  const admin: AuthPayload = { uid: '1', ssid: 'admin-session', role: 'admin' };
+  const superAdmin: AuthPayload = {
+    uid: '2',
+    ssid: 'super-session',
+    role: 'super_admin',
+  };
+  const clientInfo = { ipAddress: '10.0.0.1', userAgent: 'jest' };
+  const buildUser = (overrides: Partial<User> = {}) =>
+    ({
+      id: '123',
+      email: 'test@example.com',
+      name: 'Test User',
+      role: 'user',
+      status: 'active',
+      ...overrides,
+    }) as User;
+
+  beforeEach(async () => {
+    auditLogRepository = {
+      create: jest.fn((log: Partial<AdminAuditLog>) => log),
+      save: jest.fn((log: Partial<AdminAuditLog>) => Promise.resolve(log)),
+      find: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserAdminService,
+        {
+          provide: getRepositoryToken(AdminAuditLog),
+          useValue: auditLogRepository,
+        },
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(buildUser()),
+            findDeletedUser: jest.fn().mockResolvedValue(null),
+            update: jest.fn(),
+            restore: jest.fn(),
+          },
+        },
+        {
+          provide: AuthService,
+          useValue: {
+            sendPasswordResetLink: jest.fn(),
+            createImpersonationSession: jest.fn().mockResolvedValue({
+              accessToken: 'token',
+              sessionId: 'session789',
+              expiresAt: new Date(),
+            }),
+          },
+        },
+        {
+          provide: PermissionService,
+          useValue: {
+            findRoleOrFail: jest.fn((name: string) =>
+              Promise.resolve({ name }),
+            ),
+            // Built-in hierarchy: super_admin > admin > moderator > user
+            inheritsRole: jest.fn((role: string, ancestor: string) =>
+              Promise.resolve(
+                role === ancestor ||
+                  (role === 'super_admin' && ancestor === 'admin'),
+              ),
+            ),
+            hasRole: jest.fn((payload: AuthPayload, roles: string[]) =>
+              Promise.resolve(roles.includes(payload.role!)),
+            ),
+          },
+        },
+        {
+          provide: SessionRevocationService,
+          useValue: {
+            applyAccountStatus: jest.fn(),
+            revokeAllSessions: jest.fn(),
+            revokeSession: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(UserAdminService);
+    usersService = module.get(UsersService);
+    authService = module.get(AuthService);
+    sessionRevocation = module.get(SessionRevocationService);
+  });
+
+  it('should suspend a user, revoke their sessions and audit the change', async () => {
+    const result = await service.changeStatus(
+      admin,
+      '123',
+      { status: 'suspended', reason: 'Spam' },
+      clientInfo,
+    );
+
+    expect(result.messageKey).toBe('auth.USER_STATUS_UPDATED');
+    expect(usersService.update).toHaveBeenCalledWith('123', {
+      status: 'suspended',
+    });
+    expect(sessionRevocation.applyAccountStatus).toHaveBeenCalledWith(
+      '123',
+      'suspended',
+    );
+    expect(auditLogRepository.save).toHaveBeenCalledWith({
+      actorId: '1',
+      targetUserId: '123',
+      action: 'status_changed',
+      reason: 'Spam',
+      metadata: { previousStatus: 'active', status: 'suspended' },
+      ipAddress: '10.0.0.1',
+    });
+  });
+
+  it('should not let an admin act on their own account', async () => {
+    await expect(
+      service.forceLogout(admin, '1', { reason: 'Test' }, clientInfo),
+    ).rejects.toMatchObject({
+      status: 403,
+      response: { messageKey: 'auth.CANNOT_MANAGE_SELF' },
+    });
+    expect(auditLogRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should leave admins and admin roles to super admins', async () => {
+    await expect(
+      service.changeRole(
+        admin,
+        '123',
+        { role: 'admin', reason: 'Promotion' },
+        clientInfo,
+      ),
+    ).rejects.toMatchObject({
+      response: { messageKey: 'auth.INSUFFICIENT_ROLE' },
+    });
+
+    usersService.findById.mockResolvedValue(buildUser({ role: 'admin' }));
+    await expect(
+      service.changeStatus(
+        admin,
+        '123',
+        { status: 'suspended', reason: 'Abuse' },
+        clientInfo,
+      ),
+    ).rejects.toMatchObject({
+      response: { messageKey: 'auth.INSUFFICIENT_ROLE' },
+    });
+
+    await service.changeRole(
+      superAdmin,
+      '123',
+      { role: 'user', reason: 'Demotion' },
+      clientInfo,
+    );
+    expect(usersService.update).toHaveBeenCalledWith('123', { role: 'user' });
+    expect(sessionRevocation.revokeAllSessions).toHaveBeenCalledWith('123');
+  });
+
+  it('should revoke every session and send a reset link', async () => {
+    await service.resetPassword(
+      admin,
+      '123',
+      { reason: 'Compromised' },
+      clientInfo,
+    );
+
+    expect(sessionRevocation.revokeAllSessions).toHaveBeenCalledWith('123');
+    expect(authService.sendPasswordResetLink).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '123' }),
+    );
+    expect(auditLogRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'password_reset' }),
+    );
+  });
+
+  it('should restore an account deleted within the grace period', async () => {
+    await expect(
+      service.restoreAccount(admin, '123', { reason: 'Mistake' }, clientInfo),
+    ).rejects.toMatchObject({
+      status: 404,
+      response: { messageKey: 'user.USER_NOT_FOUND' },
+    });
+
+    const deletedAt = new Date();
+    usersService.findDeletedUser.mockResolvedValue(buildUser({ deletedAt }));
+    const result = await service.restoreAccount(
+      admin,
+      '123',
+      { reason: 'Mistake' },
+      clientInfo,
+    );
+
+    expect(result.messageKey).toBe('auth.USER_ACCOUNT_RESTORED');
+    expect(usersService.restore).toHaveBeenCalledWith('123');
+    expect(auditLogRepository.save.mock.calls[0][0]).toMatchObject({
+      action: 'account_restored',
+      metadata: { deletedAt },
+    });
+  });
+
+  describe('impersonate', () => {
+    it('should start a session for the requested duration', async () => {
+      const result = await service.impersonate(
+        admin,
+        '123',
+        { reason: 'Ticket #42', durationMinutes: 30 },
+        clientInfo,
+      );
+
+      expect(result.messageKey).toBe('auth.IMPERSONATION_STARTED');
+      expect(authService.createImpersonationSession).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '123' }),
+        '1',
+        30 * 60,
+        clientInfo,
+      );
+      expect(auditLogRepository.save.mock.calls[0][0]).toMatchObject({
+        action: 'impersonation_started',
+        metadata: { sessionId: 'session789' },
+      });
+    });
+
+    it('should refuse inactive users and nested impersonation', async () => {
+      usersService.findById.mockResolvedValue(
+        buildUser({ status: 'suspended' }),
+      );
+      await expect(
+        service.impersonate(admin, '123', { reason: 'Support' }, clientInfo),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.CANNOT_IMPERSONATE' },
+      });
+
+      await expect(
+        service.impersonate(
+          { ...admin, impersonatorId: '9' },
+          '123',
+          { reason: 'Support' },
+          clientInfo,
+        ),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.CANNOT_IMPERSONATE' },
+      });
+      expect(authService.createImpersonationSession).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the impersonation token when it is stopped', async () => {
+      const impersonated: AuthPayload = {
+        uid: '123',
+        ssid: 'session789',
+        role: 'user',
+        impersonatorId: '1',
+      };
+
+      const result = await service.stopImpersonation(
+        impersonated,
+        { reason: 'Done' },
+        clientInfo,
+      );
+
+      expect(result.messageKey).toBe('auth.IMPERSONATION_STOPPED');
+      expect(sessionRevocation.revokeSession).toHaveBeenCalledWith(
+        '123',
+        'session789',
+      );
+      expect(auditLogRepository.save.mock.calls[0][0]).toMatchObject({
+        actorId: '1',
+        targetUserId: '123',
+        action: 'impersonation_stopped',
+      });
+
+      await expect(
+        service.stopImpersonation(admin, { reason: 'Done' }, clientInfo),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.NOT_IMPERSONATING' },
+      });
+    });
+
+    it('should audit requests made under impersonation as the admin', async () => {
+      await service.auditImpersonatedRequest(
+        { uid: '123', ssid: 'session789', impersonatorId: '1' },
+        { method: 'PATCH', path: '/users/me', statusCode: 200 },
+        clientInfo,
+      );
+      await service.auditImpersonatedRequest(
+        { uid: '123', ssid: 'session123' },
+        { method: 'PATCH', path: '/users/me', statusCode: 200 },
+        clientInfo,
+      );
+
+      expect(auditLogRepository.save).toHaveBeenCalledTimes(1);
+      expect(auditLogRepository.save.mock.calls[0][0]).toMatchObject({
+        actorId: '1',
+        targetUserId: '123',
+        action: 'impersonated_request',
+        reason: 'PATCH /users/me',
+        metadata: { sessionId: 'session789', statusCode: 200 },
+      });
+    });
+  });
+});
@@ -0,0 +1,374 @@
+import { ClientInfo } from 'src/common/decorators';
+import { AuthPayload } from 'src/common/interface';
+import { AdminAction, USER_CONSTANTS } from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { Repository } from 'typeorm';
+
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { AuthService } from './auth.service';
+import {
+  AdminActionDto,
+  ImpersonateUserDto,
+  UpdateUserRoleDto,
+  UpdateUserStatusDto,
+} from './dto';
+import { AdminAuditLog } from './entities';
+import { PermissionService } from './permission.service';
+import { SessionRevocationService } from './session-revocation.service';
+
+/**
+ * Account management for admins
+ * Every action needs a reason and is written to the admin audit log.
+ * Admins cannot act on their own account, and only super admins can act
+ * on other admins or hand out roles that inherit from `admin`.
+ */
+@Injectable()
+export class UserAdminService {
+  private readonly logger = new Logger(UserAdminService.name);
+
+  private readonly DEFAULT_IMPERSONATION_MINUTES = 15;
+  private readonly AUDIT_LOG_LIMIT = 100;
+
+  constructor(
+    @InjectRepository(AdminAuditLog)
+    private readonly auditLogRepository: Repository<AdminAuditLog>,
+    private readonly usersService: UsersService,
+    private readonly authService: AuthService,
+    private readonly sessionRevocation: SessionRevocationService,
+    private readonly permissionService: PermissionService,
+  ) {}
+
+  /**
+   * Activate, suspend or ban a user
+   * Suspended and banned users are signed out everywhere and their tokens
+   * are rejected until they are reactivated
+   */
+  async changeStatus(
+    actor: AuthPayload,
+    userId: string,
+    dto: UpdateUserStatusDto,
+    clientInfo: ClientInfo,
+  ) {
+    const user = await this.findManageableUser(actor, userId);
+    const previousStatus = user.status;
+
+    await this.usersService.update(user.id, { status: dto.status });
+    await this.sessionRevocation.applyAccountStatus(user.id, dto.status);
+    await this.audit(
+      actor,
+      user.id,
+      USER_CONSTANTS.ADMIN_ACTIONS.STATUS_CHANGED,
+      dto.reason,
+      clientInfo,
+      { previousStatus, status: dto.status },
+    );
+
+    return buildResponse({ messageKey: 'auth.USER_STATUS_UPDATED' });
+  }
+
+  /**
+   * Change the role of a user, existing sessions are revoked so no token
+   * keeps the previous role
+   */
+  async changeRole(
+    actor: AuthPayload,
+    userId: string,
+    dto: UpdateUserRoleDto,
+    clientInfo: ClientInfo,
+  ) {
+    const role = await this.permissionService.findRoleOrFail(dto.role);
+    await this.assertCanManageRole(actor, role.name);
+    const user = await this.findManageableUser(actor, userId);
+    const previousRole = user.role;
+
+    await this.usersService.update(user.id, { role: dto.role });
+    await this.sessionRevocation.revokeAllSessions(user.id);
+    await this.audit(
+      actor,
+      user.id,
+      USER_CONSTANTS.ADMIN_ACTIONS.ROLE_CHANGED,
+      dto.reason,
+      clientInfo,
+      { previousRole, role: dto.role },
+    );
+
+    return buildResponse({ messageKey: 'auth.USER_ROLE_UPDATED' });
+  }
+
+  /**
+   * Sign a user out of every session
+   */
+  async forceLogout(
+    actor: AuthPayload,
+    userId: string,
+    dto: AdminActionDto,
+    clientInfo: ClientInfo,
+  ) {
+    const user = await this.findManageableUser(actor, userId);
+
+    await this.sessionRevocation.revokeAllSessions(user.id);
+    await this.audit(
+      actor,
+      user.id,
+      USER_CONSTANTS.ADMIN_ACTIONS.FORCE_LOGOUT,
+      dto.reason,
+      clientInfo,
+    );
+
+    return buildResponse({ messageKey: 'auth.USER_SESSIONS_REVOKED' });
+  }
+
+  /**
+   * Sign a user out everywhere and email them a password reset link
+   * The current password keeps working until the user resets it
+   */
+  async resetPassword(
+    actor: AuthPayload,
+    userId: string,
+    dto: AdminActionDto,
+    clientInfo: ClientInfo,
+  ) {
+    const user = await this.findManageableUser(actor, userId);
+
+    await this.sessionRevocation.revokeAllSessions(user.id);
+    await this.authService.sendPasswordResetLink(user);
+    await this.audit(
+      actor,
+      user.id,
+      USER_CONSTANTS.ADMIN_ACTIONS.PASSWORD_RESET,
+      dto.reason,
+      clientInfo,
+    );
+
+    return buildResponse({ messageKey: 'auth.ADMIN_PASSWORD_RESET_SENT' });
+  }
+
+  /**
+   * Start a time-boxed session as a user for support
+   * Admins cannot be impersonated, and the target must be active
+   */
+  async impersonate(
+    actor: AuthPayload,
+    userId: string,
+    dto: ImpersonateUserDto,
+    clientInfo: ClientInfo,
+  ) {
+    if (actor.impersonatorId) {
+      throw new HttpException(
+        { messageKey: 'auth.CANNOT_IMPERSONATE' },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    const user = await this.findManageableUser(actor, userId);
+    if (
+      user.status !== USER_CONSTANTS.STATUS.ACTIVE ||
+      (await this.isPrivileged(user.role))
+    ) {
+      throw new HttpException(
+        { messageKey: 'auth.CANNOT_IMPERSONATE' },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const durationMinutes =
+      dto.durationMinutes ?? this.DEFAULT_IMPERSONATION_MINUTES;
+    const session = await this.authService.createImpersonationSession(
+      user,
+      actor.uid,
+      durationMinutes * 60,
+      clientInfo,
+    );
+    await this.audit(
+      actor,
+      user.id,
+      USER_CONSTANTS.ADMIN_ACTIONS.IMPERSONATION_STARTED,
+      dto.reason,
+      clientInfo,
+      {
+        sessionId: session.sessionId,
+        expiresAt: session.expiresAt.toISOString(),
+      },
+    );
+
+    return buildResponse({
+      messageKey: 'auth.IMPERSONATION_STARTED',
+      data: session,
+    });
+  }
+
+  /**
+   * End an impersonation session before it expires
+   * Called with the impersonation token, which stops working right away
+   */
+  async stopImpersonation(
+    actor: AuthPayload,
+    dto: AdminActionDto,
+    clientInfo: ClientInfo,
+  ) {
+    if (!actor.impersonatorId) {
+      throw new HttpException(
+        { messageKey: 'auth.NOT_IMPERSONATING' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.sessionRevocation.revokeSession(actor.uid, actor.ssid);
+    await this.audit(
+      { uid: actor.impersonatorId, ssid: actor.ssid },
+      actor.uid,
+      USER_CONSTANTS.ADMIN_ACTIONS.IMPERSONATION_STOPPED,
+      dto.reason,
+      clientInfo,
+      { sessionId: actor.ssid },
+    );
+
+    return buildResponse({ messageKey: 'auth.IMPERSONATION_STOPPED' });
+  }
+
+  /**
+   * Record a request an admin made with an impersonation token
+   * The request line stands in for the reason, the admin gave theirs
+   * when the impersonation started
+   */
+  async auditImpersonatedRequest(
+    actor: AuthPayload,
+    request: { method: string; path: string; statusCode: number },
+    clientInfo: ClientInfo,
+  ): Promise<void> {
+    if (!actor.impersonatorId) {
+      return;
+    }
+    await this.audit(
+      { uid: actor.impersonatorId, ssid: actor.ssid },
+      actor.uid,
+      USER_CONSTANTS.ADMIN_ACTIONS.IMPERSONATED_REQUEST,
+      `${request.method} ${request.path}`,
+      clientInfo,
+      { sessionId: actor.ssid, ...request },
+    );
+  }
+
+  /**
+   * Bring back an account deleted by its owner before it is purged
+   * Sessions stay revoked, the user signs in again
+   */
+  async restoreAccount(
+    actor: AuthPayload,
+    userId: string,
+    dto: AdminActionDto,
+    clientInfo: ClientInfo,
+  ) {
+    const user = await this.usersService.findDeletedUser(userId);
+    if (!user) {
+      throw new HttpException(
+        { messageKey: 'user.USER_NOT_FOUND' },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    await this.assertCanManageRole(actor, user.role);
+
+    await this.usersService.restore(user.id);
+    await this.audit(
+      actor,
+      user.id,
+      USER_CONSTANTS.ADMIN_ACTIONS.ACCOUNT_RESTORED,
+      dto.reason,
+      clientInfo,
+      { deletedAt: user.deletedAt },
+    );
+
+    return buildResponse({ messageKey: 'auth.USER_ACCOUNT_RESTORED' });
+  }
+
+  /**
+   * Latest admin actions taken on a user
+   */
+  async listAuditLogs(userId: string) {
+    await this.findUserOrFail(userId);
+    return this.auditLogRepository.find({
+      where: { targetUserId: userId },
+      order: { createdAt: 'DESC' },
+      take: this.AUDIT_LOG_LIMIT,
+    });
+  }
+
+  private async findManageableUser(
+    actor: AuthPayload,
+    userId: string,
+  ): Promise<User> {
+    if (actor.uid === userId) {
+      throw new HttpException(
+        { messageKey: 'auth.CANNOT_MANAGE_SELF' },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+    const user = await this.findUserOrFail(userId);
+    await this.assertCanManageRole(actor, user.role);
+    return user;
+  }
+
+  /**
+   * Roles inheriting from `admin` are managed by super admins only
+   */
+  private async assertCanManageRole(
+    actor: AuthPayload,
+    role: string,
+  ): Promise<void> {
+    if (
+      (await this.isPrivileged(role)) &&
+      !(await this.permissionService.hasRole(actor, [
+        USER_CONSTANTS.ROLES.SUPER_ADMIN,
+      ]))
+    ) {
+      throw new HttpException(
+        { messageKey: 'auth.INSUFFICIENT_ROLE' },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+
+  private isPrivileged(role: string): Promise<boolean> {
+    return this.permissionService.inheritsRole(
+      role,
+      USER_CONSTANTS.ROLES.ADMIN,
+    );
+  }
+
+  private async findUserOrFail(userId: string): Promise<User> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new HttpException(
+        { messageKey: 'user.USER_NOT_FOUND' },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return user;
+  }
+
+  private async audit(
+    actor: AuthPayload,
+    targetUserId: string,
+    action: AdminAction,
+    reason: string,
+    clientInfo: ClientInfo,
+    metadata: Record<string, any> | null = null,
+  ): Promise<void> {
+    await this.auditLogRepository.save(
+      this.auditLogRepository.create({
+        actorId: actor.uid,
+        targetUserId,
+        action,
+        reason,
+        metadata,
+        ipAddress: clientInfo.ipAddress ?? null,
+      }),
+    );
+    this.logger.log(
+      `Admin ${actor.uid} ${action} on user ${targetUserId}: ${reason}`,
+    );
+  }
+}
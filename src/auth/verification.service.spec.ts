@@ -0,0 +1,524 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthPayload } from 'src/common/interface';
+import { sha256Hex } from 'src/common/utils';
+import { CacheService } from 'src/shared/services';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { AuthService } from './auth.service';
+import {
+  HttpSmsSender,
+  MailerEmailVerificationSender,
+  MailerSecurityAlertSender,
+  RedisOtpStore,
+} from './providers';
+import { SessionRevocationService } from './session-revocation.service';
+import { VerificationService } from './verification.service';
+
+describe('VerificationService', () => {
+  let service: VerificationService;
+  let usersService: jest.Mocked<UsersService>;
+  let cacheService: jest.Mocked<CacheService>;
+  let otpStore: jest.Mocked<RedisOtpStore>;
+  let emailVerificationSender: jest.Mocked<MailerEmailVerificationSender>;
+  let smsSender: jest.Mocked<HttpSmsSender>;
+  let securityAlertSender: jest.Mocked<MailerSecurityAlertSender>;
+  let sessionRevocation: jest.Mocked<SessionRevocationService>;
+  let authService: jest.Mocked<AuthService>;
+
+  const authPayload: AuthPayload = { uid: '123', ssid: 'session123' };
+
+  const mockUser = {
+    id: '123',
+    email: 'test@example.com',
+    name: 'Test User',
+    username: 'test',
+    phoneNumber: '+84901234567',
+    isEmailVerified: false,
+    isPhoneVerified: false,
+  } as User;
+
+  const config: Record<string, unknown> = {
+    'app.verification.resendCooldownSeconds': 60,
+    'app.verification.emailUrl': 'https://app.example.com/verify-email',
+    'app.verification.emailChangeUrl':
+      'https://app.example.com/confirm-email-change',
+    'app.verification.emailRevertUrl':
+      'https://app.example.com/revert-email-change',
+    'app.verification.policy': {
+      default: ['email'],
+      qr_approval: ['email', 'phone'],
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationService,
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(mockUser),
+            findByEmail: jest.fn().mockResolvedValue(null),
+            changeEmail: jest.fn().mockResolvedValue(true),
+            markEmailVerified: jest.fn(),
+            markPhoneVerified: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            get: jest.fn().mockResolvedValue(null),
+            set: jest.fn(),
+            delete: jest.fn(),
+            getAndDelete: jest.fn(),
+            getTtl: jest.fn(),
+            compareAndSwap: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: RedisOtpStore,
+          useValue: {
+            set: jest.fn(),
+            get: jest.fn(),
+            delete: jest.fn(),
+            incrementAttempts: jest.fn(),
+            markAsUsed: jest.fn(),
+          },
+        },
+        {
+          provide: MailerEmailVerificationSender,
+          useValue: { sendVerificationLink: jest.fn() },
+        },
+        {
+          provide: HttpSmsSender,
+          useValue: {
+            isEnabled: jest.fn().mockReturnValue(true),
+            sendSms: jest.fn(),
+          },
+        },
+        {
+          provide: MailerSecurityAlertSender,
+          useValue: { sendAlert: jest.fn() },
+        },
+        {
+          provide: SessionRevocationService,
+          useValue: { revokeAllSessions: jest.fn() },
+        },
+        {
+          provide: AuthService,
+          useValue: { assertReauthenticated: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(VerificationService);
+    usersService = module.get(UsersService);
+    cacheService = module.get(CacheService);
+    otpStore = module.get(RedisOtpStore);
+    emailVerificationSender = module.get(MailerEmailVerificationSender);
+    smsSender = module.get(HttpSmsSender);
+    securityAlertSender = module.get(MailerSecurityAlertSender);
+    sessionRevocation = module.get(SessionRevocationService);
+    authService = module.get(AuthService);
+  });
+
+  describe('email verification', () => {
+    it('should store only the token hash and send the link', async () => {
+      const result = await service.sendEmailVerification(authPayload);
+
+      expect(result.messageKey).toBe('auth.EMAIL_VERIFICATION_SENT');
+      const [recipient, link] =
+        emailVerificationSender.sendVerificationLink.mock.calls[0];
+      expect(recipient.email).toBe('test@example.com');
+
+      const token = new URL(link).searchParams.get('token')!;
+      expect(link.startsWith('https://app.example.com/verify-email?')).toBe(
+        true,
+      );
+      expect(cacheService.set).toHaveBeenCalledWith(
+        `auth:verify:email:${sha256Hex(token)}`,
+        expect.objectContaining({ userId: '123', email: 'test@example.com' }),
+        24 * 60 * 60,
+      );
+    });
+
+    it('should reject a resend within the cooldown', async () => {
+      cacheService.compareAndSwap.mockResolvedValue(false);
+      cacheService.getTtl.mockResolvedValue(42);
+
+      await expect(
+        service.sendEmailVerification(authPayload),
+      ).rejects.toMatchObject({
+        status: 429,
+        response: {
+          messageKey: 'auth.VERIFICATION_RESEND_COOLDOWN',
+          messageArgs: { seconds: 42 },
+        },
+      });
+      expect(
+        emailVerificationSender.sendVerificationLink,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject an already verified email', async () => {
+      usersService.findById.mockResolvedValue({
+        ...mockUser,
+        isEmailVerified: true,
+      } as User);
+
+      await expect(
+        service.sendEmailVerification(authPayload),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.EMAIL_ALREADY_VERIFIED' },
+      });
+    });
+
+    it('should confirm the email with a valid token', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        email: 'test@example.com',
+        createdAt: Date.now(),
+      });
+      usersService.markEmailVerified.mockResolvedValue(true);
+
+      const result = await service.confirmEmailVerification({
+        token: 'email-token',
+      });
+
+      expect(result.messageKey).toBe('auth.EMAIL_VERIFIED');
+      expect(cacheService.getAndDelete).toHaveBeenCalledWith(
+        `auth:verify:email:${sha256Hex('email-token')}`,
+      );
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith(
+        '123',
+        'test@example.com',
+      );
+    });
+
+    it('should reject a used or expired token', async () => {
+      cacheService.getAndDelete.mockResolvedValue(null);
+
+      await expect(
+        service.confirmEmailVerification({ token: 'email-token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+      });
+      expect(usersService.markEmailVerified).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token issued for a previous email', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        email: 'old@example.com',
+        createdAt: Date.now(),
+      });
+      usersService.markEmailVerified.mockResolvedValue(false);
+
+      await expect(
+        service.confirmEmailVerification({ token: 'email-token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+      });
+    });
+
+    it('should not throw when the welcome link cannot be sent', async () => {
+      emailVerificationSender.sendVerificationLink.mockRejectedValue(
+        new Error('smtp down'),
+      );
+
+      await expect(
+        service.sendWelcomeVerification(mockUser),
+      ).resolves.toBeUndefined();
+      expect(cacheService.compareAndSwap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email change', () => {
+    it('should send the link to the new address only', async () => {
+      const result = await service.requestEmailChange(authPayload, {
+        email: 'new@example.com',
+        currentPassword: 'password123',
+      });
+
+      expect(result.messageKey).toBe('auth.EMAIL_CHANGE_SENT');
+      expect(authService.assertReauthenticated).toHaveBeenCalledWith(
+        authPayload,
+        expect.objectContaining({ currentPassword: 'password123' }),
+      );
+      const [recipient, link] =
+        emailVerificationSender.sendVerificationLink.mock.calls[0];
+      expect(recipient.email).toBe('new@example.com');
+      expect(
+        link.startsWith('https://app.example.com/confirm-email-change?'),
+      ).toBe(true);
+
+      const token = new URL(link).searchParams.get('token')!;
+      expect(cacheService.set).toHaveBeenCalledWith(
+        `auth:verify:email-change:${sha256Hex(token)}`,
+        expect.objectContaining({
+          userId: '123',
+          email: 'new@example.com',
+          previousEmail: 'test@example.com',
+        }),
+        24 * 60 * 60,
+      );
+    });
+
+    it('should require re-authentication before sending the link', async () => {
+      authService.assertReauthenticated.mockRejectedValue(
+        new UnauthorizedException({
+          messageKey: 'auth.REAUTHENTICATION_REQUIRED',
+        }),
+      );
+
+      await expect(
+        service.requestEmailChange(authPayload, { email: 'new@example.com' }),
+      ).rejects.toMatchObject({
+        status: 401,
+        response: { messageKey: 'auth.REAUTHENTICATION_REQUIRED' },
+      });
+      expect(usersService.findByEmail).not.toHaveBeenCalled();
+      expect(
+        emailVerificationSender.sendVerificationLink,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject an address used by another account', async () => {
+      usersService.findByEmail.mockResolvedValue({ id: '456' } as User);
+
+      await expect(
+        service.requestEmailChange(authPayload, {
+          email: 'taken@example.com',
+          currentPassword: 'password123',
+        }),
+      ).rejects.toMatchObject({
+        status: 409,
+        response: { messageKey: 'user.EMAIL_ALREADY_EXISTS' },
+      });
+      expect(
+        emailVerificationSender.sendVerificationLink,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should switch the account to the new address', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        email: 'new@example.com',
+        previousEmail: 'test@example.com',
+        createdAt: Date.now(),
+      });
+
+      const result = await service.confirmEmailChange({ token: 'token' });
+
+      expect(result.messageKey).toBe('auth.EMAIL_CHANGED');
+      expect(cacheService.getAndDelete).toHaveBeenCalledWith(
+        `auth:verify:email-change:${sha256Hex('token')}`,
+      );
+      expect(usersService.changeEmail).toHaveBeenCalledWith(
+        '123',
+        'test@example.com',
+        'new@example.com',
+      );
+    });
+
+    it('should send the previous address a link to undo the change', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        email: 'new@example.com',
+        previousEmail: 'test@example.com',
+        createdAt: Date.now(),
+      });
+      usersService.findById.mockResolvedValue({
+        ...mockUser,
+        email: 'new@example.com',
+      } as User);
+
+      await service.confirmEmailChange({ token: 'token' });
+
+      const [recipient, alert] = securityAlertSender.sendAlert.mock.calls[0];
+      expect(recipient.email).toBe('test@example.com');
+      expect(
+        alert.action!.link.startsWith(
+          'https://app.example.com/revert-email-change?',
+        ),
+      ).toBe(true);
+
+      const token = new URL(alert.action!.link).searchParams.get('token')!;
+      expect(cacheService.set).toHaveBeenCalledWith(
+        `auth:verify:email-revert:${sha256Hex(token)}`,
+        expect.objectContaining({
+          userId: '123',
+          email: 'test@example.com',
+          previousEmail: 'new@example.com',
+        }),
+        7 * 24 * 60 * 60,
+      );
+    });
+
+    it('should move the account back and sign out every session', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        email: 'test@example.com',
+        previousEmail: 'new@example.com',
+        createdAt: Date.now(),
+      });
+
+      const result = await service.revertEmailChange({ token: 'token' });
+
+      expect(result.messageKey).toBe('auth.EMAIL_CHANGE_REVERTED');
+      expect(cacheService.getAndDelete).toHaveBeenCalledWith(
+        `auth:verify:email-revert:${sha256Hex('token')}`,
+      );
+      expect(usersService.changeEmail).toHaveBeenCalledWith(
+        '123',
+        'new@example.com',
+        'test@example.com',
+      );
+      expect(sessionRevocation.revokeAllSessions).toHaveBeenCalledWith('123');
+    });
+
+    it('should reject a used or expired undo link', async () => {
+      cacheService.getAndDelete.mockResolvedValue(null);
+
+      await expect(
+        service.revertEmailChange({ token: 'token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+      });
+      expect(usersService.changeEmail).not.toHaveBeenCalled();
+      expect(sessionRevocation.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('should reject the link once the email changed another way', async () => {
+      cacheService.getAndDelete.mockResolvedValue({
+        userId: '123',
+        email: 'new@example.com',
+        previousEmail: 'old@example.com',
+        createdAt: Date.now(),
+      });
+      usersService.changeEmail.mockResolvedValue(false);
+
+      await expect(
+        service.confirmEmailChange({ token: 'token' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+      });
+    });
+  });
+
+  describe('phone verification', () => {
+    const challenge = {
+      code: '654321',
+      email: 'test@example.com',
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 10 * 60 * 1000,
+      attempts: 0,
+      maxAttempts: 5,
+      isUsed: false,
+      requestId: 'req',
+      userId: '123',
+      phoneNumber: '+84901234567',
+    };
+
+    it('should send a code by SMS', async () => {
+      const result = await service.sendPhoneVerification(authPayload);
+
+      expect(result.messageKey).toBe('auth.PHONE_VERIFICATION_SENT');
+      expect(otpStore.set).toHaveBeenCalledWith(
+        'verify:phone:123',
+        expect.objectContaining({ phoneNumber: '+84901234567' }),
+        10 * 60,
+      );
+      expect(smsSender.sendSms).toHaveBeenCalledWith(
+        '+84901234567',
+        expect.any(String),
+      );
+    });
+
+    it('should fail with 503 when no SMS gateway is configured', async () => {
+      smsSender.isEnabled.mockReturnValue(false);
+
+      await expect(
+        service.sendPhoneVerification(authPayload),
+      ).rejects.toMatchObject({
+        status: 503,
+        response: { messageKey: 'auth.PHONE_VERIFICATION_UNAVAILABLE' },
+      });
+      expect(otpStore.set).not.toHaveBeenCalled();
+    });
+
+    it('should verify the phone with the right code', async () => {
+      otpStore.get.mockResolvedValue({ ...challenge });
+      otpStore.markAsUsed.mockResolvedValue(true);
+      usersService.markPhoneVerified.mockResolvedValue(true);
+
+      const result = await service.confirmPhoneVerification(authPayload, {
+        code: '654321',
+      });
+
+      expect(result.messageKey).toBe('auth.PHONE_VERIFIED');
+      expect(usersService.markPhoneVerified).toHaveBeenCalledWith(
+        '123',
+        '+84901234567',
+      );
+    });
+
+    it('should count a wrong code as an attempt', async () => {
+      otpStore.get.mockResolvedValue({ ...challenge });
+      otpStore.incrementAttempts.mockResolvedValue({
+        ...challenge,
+        attempts: 1,
+      });
+
+      await expect(
+        service.confirmPhoneVerification(authPayload, { code: '000000' }),
+      ).rejects.toMatchObject({
+        response: {
+          messageKey: 'auth.PHONE_VERIFICATION_CODE_INVALID',
+          messageArgs: { remainingAttempts: 4 },
+        },
+      });
+      expect(usersService.markPhoneVerified).not.toHaveBeenCalled();
+    });
+
+    it('should drop the code after too many attempts', async () => {
+      otpStore.get.mockResolvedValue({ ...challenge, attempts: 4 });
+      otpStore.incrementAttempts.mockResolvedValue({
+        ...challenge,
+        attempts: 5,
+      });
+
+      await expect(
+        service.confirmPhoneVerification(authPayload, { code: '000000' }),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.OTP_MAX_ATTEMPTS_EXCEEDED' },
+      });
+      expect(otpStore.delete).toHaveBeenCalledWith('verify:phone:123');
+    });
+  });
+
+  describe('getVerificationStatus', () => {
+    it('should list the features the user is locked out of', async () => {
+      usersService.findById.mockResolvedValue({
+        ...mockUser,
+        isEmailVerified: true,
+      } as User);
+
+      const result = await service.getVerificationStatus(authPayload);
+
+      expect(result.data).toEqual({
+        isEmailVerified: true,
+        isPhoneVerified: false,
+        restrictedFeatures: ['qr_approval'],
+      });
+    });
+  });
+});
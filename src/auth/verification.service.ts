@@ -0,0 +1,640 @@
+import { randomBytes } from 'crypto';
+import { AuthPayload } from 'src/common/interface';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import {
+  USER_CONSTANTS,
+  VerificationChannel,
+  VerificationFeature,
+} from 'src/shared/constants';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import {
+  generateOtpCode,
+  generateOtpRequestId,
+  getMissingVerificationChannels,
+  maskEmail,
+  sha256Hex,
+  VerificationPolicy,
+} from 'src/common/utils';
+
+import {
+  ConflictException,
+  forwardRef,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthService } from './auth.service';
+import {
+  ConfirmEmailVerificationDto,
+  ConfirmPhoneVerificationDto,
+  RequestEmailChangeDto,
+} from './dto';
+import { EmailVerificationState } from './interfaces';
+import {
+  HttpSmsSender,
+  MailerEmailVerificationSender,
+  MailerSecurityAlertSender,
+  RedisOtpStore,
+} from './providers';
+import { SessionRevocationService } from './session-revocation.service';
+
+/**
+ * Email and phone verification workflows
+ * Email addresses are verified with a single-use link, phone numbers with
+ * a 6-digit code sent by SMS. Both flows share a resend cooldown.
+ */
+@Injectable()
+export class VerificationService {
+  private readonly logger = new Logger(VerificationService.name);
+
+  private readonly EMAIL_TOKEN_PREFIX = 'auth:verify:email:';
+  private readonly EMAIL_CHANGE_PREFIX = 'auth:verify:email-change:';
+  private readonly EMAIL_REVERT_PREFIX = 'auth:verify:email-revert:';
+  private readonly PHONE_CODE_PREFIX = 'verify:phone:';
+  private readonly PHONE_CODE_TTL_SECONDS = 10 * 60; // 10 minutes
+  private readonly PHONE_CODE_MAX_ATTEMPTS = 5;
+  private readonly COOLDOWN_PREFIX = 'auth:verify:cooldown:';
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+    private readonly cacheService: CacheService,
+    private readonly otpStore: RedisOtpStore,
+    private readonly emailVerificationSender: MailerEmailVerificationSender,
+    private readonly smsSender: HttpSmsSender,
+    private readonly securityAlertSender: MailerSecurityAlertSender,
+    private readonly sessionRevocation: SessionRevocationService,
+    @Inject(forwardRef(() => AuthService))
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * Send the email verification link right after register
+   * Skips the cooldown and never throws, so register cannot fail because of it
+   * @param user - Newly registered user
+   */
+  async sendWelcomeVerification(user: User): Promise<void> {
+    if (!user.email || user.isEmailVerified) return;
+    try {
+      await this.issueEmailVerification(user, true);
+    } catch (error) {
+      this.logger.error(
+        `Failed to issue verification link for user ${user.id}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Send (or resend) the email verification link
+   * @param authPayload - Authenticated user
+   */
+  async sendEmailVerification(authPayload: AuthPayload) {
+    const user = await this.usersService.findById(authPayload.uid);
+    if (!user.email) {
+      throw new HttpException(
+        { messageKey: 'auth.EMAIL_NOT_SET' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (user.isEmailVerified) {
+      throw new ConflictException({
+        messageKey: 'auth.EMAIL_ALREADY_VERIFIED',
+      });
+    }
+
+    await this.enforceCooldown(
+      user.id,
+      USER_CONSTANTS.VERIFICATION_CHANNELS.EMAIL,
+    );
+    const ttlSeconds = await this.issueEmailVerification(user, false);
+
+    return buildResponse({
+      messageKey: 'auth.EMAIL_VERIFICATION_SENT',
+      data: {
+        email: maskEmail(user.email),
+        expiresInSec: ttlSeconds,
+        resendAfterSec: this.getCooldownSeconds(),
+      },
+    });
+  }
+
+  /**
+   * Confirm an email address with the token from the link
+   * Does not require a session, the link may be opened on another device
+   * @param dto - Token from the link
+   */
+  async confirmEmailVerification(dto: ConfirmEmailVerificationDto) {
+    const state = await this.cacheService.getAndDelete<EmailVerificationState>(
+      `${this.EMAIL_TOKEN_PREFIX}${sha256Hex(dto.token)}`,
+    );
+    const verified = state
+      ? await this.usersService.markEmailVerified(state.userId, state.email)
+      : false;
+    if (!state || !verified) {
+      throw new HttpException(
+        { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.cacheService.delete(this.getEmailPointerKey(state.userId));
+    this.logger.log(`Email verified for user ${state.userId}`);
+
+    return buildResponse({ messageKey: 'auth.EMAIL_VERIFIED' });
+  }
+
+  /**
+   * Start moving the account to another email address
+   * The user re-authenticates first. The link goes to the new address, the
+   * account keeps the current one until it is opened
+   * @param authPayload - Authenticated user
+   * @param dto - New email address and a re-authentication factor
+   */
+  async requestEmailChange(
+    authPayload: AuthPayload,
+    dto: RequestEmailChangeDto,
+  ) {
+    await this.authService.assertReauthenticated(authPayload, dto);
+
+    const user = await this.usersService.findById(authPayload.uid);
+    if (dto.email === user.email) {
+      throw new HttpException(
+        { messageKey: 'auth.EMAIL_UNCHANGED' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    await this.assertEmailAvailable(user.id, dto.email);
+
+    await this.enforceCooldown(
+      user.id,
+      USER_CONSTANTS.VERIFICATION_CHANNELS.EMAIL,
+    );
+    const ttlSeconds = this.getEmailTokenTtlSeconds();
+    const token = await this.storeEmailToken(
+      this.EMAIL_CHANGE_PREFIX,
+      {
+        userId: user.id,
+        email: dto.email,
+        previousEmail: user.email ?? null,
+        createdAt: Date.now(),
+      },
+      ttlSeconds,
+    );
+    await this.emailVerificationSender.sendVerificationLink(
+      { email: dto.email, name: user.name, username: user.username },
+      this.buildLink(
+        this.configService.get<string>('app.verification.emailChangeUrl') ||
+          'http://localhost:3000/confirm-email-change',
+        token,
+      ),
+      { welcome: false },
+    );
+
+    return buildResponse({
+      messageKey: 'auth.EMAIL_CHANGE_SENT',
+      data: {
+        email: maskEmail(dto.email),
+        expiresInSec: ttlSeconds,
+        resendAfterSec: this.getCooldownSeconds(),
+      },
+    });
+  }
+
+  /**
+   * Switch the account to the new address with the token from the link
+   * The new address counts as verified, the link is void once the account
+   * email changed in another way. The previous address gets a notice with
+   * a link to undo the change
+   * @param dto - Token from the link
+   */
+  async confirmEmailChange(dto: ConfirmEmailVerificationDto) {
+    const state = await this.cacheService.getAndDelete<EmailVerificationState>(
+      `${this.EMAIL_CHANGE_PREFIX}${sha256Hex(dto.token)}`,
+    );
+    if (!state) {
+      throw new HttpException(
+        { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    await this.assertEmailAvailable(state.userId, state.email);
+
+    const changed = await this.usersService.changeEmail(
+      state.userId,
+      state.previousEmail ?? null,
+      state.email,
+    );
+    if (!changed) {
+      throw new HttpException(
+        { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.cacheService.delete(
+      this.getEmailPointerKey(state.userId, this.EMAIL_CHANGE_PREFIX),
+    );
+    this.logger.log(`Email changed for user ${state.userId}`);
+
+    if (state.previousEmail) {
+      await this.sendEmailChangeNotice(state.userId, state.previousEmail);
+    }
+
+    return buildResponse({ messageKey: 'auth.EMAIL_CHANGED' });
+  }
+
+  /**
+   * Move the account back to the previous address with the link from the
+   * email change notice
+   * Every session is signed out, the change may come from a stolen session
+   * @param dto - Token from the link
+   */
+  async revertEmailChange(dto: ConfirmEmailVerificationDto) {
+    const state = await this.cacheService.getAndDelete<EmailVerificationState>(
+      `${this.EMAIL_REVERT_PREFIX}${sha256Hex(dto.token)}`,
+    );
+    if (!state?.previousEmail) {
+      throw new HttpException(
+        { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    await this.assertEmailAvailable(state.userId, state.email);
+
+    // previousEmail is the address the account was moved to
+    const reverted = await this.usersService.changeEmail(
+      state.userId,
+      state.previousEmail,
+      state.email,
+    );
+    if (!reverted) {
+      throw new HttpException(
+        { messageKey: 'auth.EMAIL_VERIFICATION_TOKEN_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await Promise.all([
+      this.cacheService.delete(
+        this.getEmailPointerKey(state.userId, this.EMAIL_REVERT_PREFIX),
+      ),
+      this.sessionRevocation.revokeAllSessions(state.userId),
+    ]);
+    this.logger.warn(`Email change reverted for user ${state.userId}`);
+
+    return buildResponse({ messageKey: 'auth.EMAIL_CHANGE_REVERTED' });
+  }
+
+  /**
+   * Send (or resend) the phone verification code
+   * @param authPayload - Authenticated user
+   */
+  async sendPhoneVerification(authPayload: AuthPayload) {
+    const user = await this.usersService.findById(authPayload.uid);
+    if (!user.phoneNumber) {
+      throw new HttpException(
+        { messageKey: 'auth.PHONE_NOT_SET' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    if (user.isPhoneVerified) {
+      throw new ConflictException({
+        messageKey: 'auth.PHONE_ALREADY_VERIFIED',
+      });
+    }
+    if (!this.smsSender.isEnabled()) {
+      throw new HttpException(
+        { messageKey: 'auth.PHONE_VERIFICATION_UNAVAILABLE' },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    await this.enforceCooldown(
+      user.id,
+      USER_CONSTANTS.VERIFICATION_CHANNELS.PHONE,
+    );
+
+    const code = generateOtpCode(6);
+    const now = Date.now();
+    await this.otpStore.set(
+      `${this.PHONE_CODE_PREFIX}${user.id}`,
+      {
+        code,
+        email: user.email,
+        createdAt: now,
+        expiresAt: now + this.PHONE_CODE_TTL_SECONDS * 1000,
+        attempts: 0,
+        maxAttempts: this.PHONE_CODE_MAX_ATTEMPTS,
+        isUsed: false,
+        requestId: generateOtpRequestId(),
+        userId: user.id,
+        phoneNumber: user.phoneNumber,
+      },
+      this.PHONE_CODE_TTL_SECONDS,
+    );
+
+    const appName = process.env.APP_NAME || 'NestJS App';
+    try {
+      await this.smsSender.sendSms(
+        user.phoneNumber,
+        `${code} is your ${appName} verification code. It expires in ${this.PHONE_CODE_TTL_SECONDS / 60} minutes.`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send verification SMS for user ${user.id}:`,
+        error,
+      );
+      await this.otpStore.delete(`${this.PHONE_CODE_PREFIX}${user.id}`);
+      throw new HttpException(
+        { messageKey: 'auth.PHONE_VERIFICATION_UNAVAILABLE' },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    return buildResponse({
+      messageKey: 'auth.PHONE_VERIFICATION_SENT',
+      data: {
+        phoneNumber: `***${user.phoneNumber.slice(-3)}`,
+        expiresInSec: this.PHONE_CODE_TTL_SECONDS,
+        resendAfterSec: this.getCooldownSeconds(),
+      },
+    });
+  }
+
+  /**
+   * Confirm a phone number with the code sent by SMS
+   * @param authPayload - Authenticated user
+   * @param dto - Code from the SMS
+   */
+  async confirmPhoneVerification(
+    authPayload: AuthPayload,
+    dto: ConfirmPhoneVerificationDto,
+  ) {
+    const key = `${this.PHONE_CODE_PREFIX}${authPayload.uid}`;
+    const challenge = await this.otpStore.get(key);
+    if (!challenge || challenge.isUsed || !challenge.phoneNumber) {
+      throw new HttpException(
+        { messageKey: 'auth.PHONE_VERIFICATION_CODE_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (challenge.code !== dto.code) {
+      const updated = await this.otpStore.incrementAttempts(key);
+      if (!updated || updated.attempts >= updated.maxAttempts) {
+        await this.otpStore.delete(key);
+        throw new HttpException(
+          { messageKey: 'auth.OTP_MAX_ATTEMPTS_EXCEEDED' },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+      throw new HttpException(
+        {
+          messageKey: 'auth.PHONE_VERIFICATION_CODE_INVALID',
+          messageArgs: {
+            remainingAttempts: updated.maxAttempts - updated.attempts,
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Single use, a concurrent confirm with the same code loses here
+    if (!(await this.otpStore.markAsUsed(key))) {
+      throw new HttpException(
+        { messageKey: 'auth.PHONE_VERIFICATION_CODE_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const verified = await this.usersService.markPhoneVerified(
+      authPayload.uid,
+      challenge.phoneNumber,
+    );
+    if (!verified) {
+      // The phone number changed after the code was sent
+      throw new HttpException(
+        { messageKey: 'auth.PHONE_VERIFICATION_CODE_INVALID' },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    this.logger.log(`Phone verified for user ${authPayload.uid}`);
+    return buildResponse({ messageKey: 'auth.PHONE_VERIFIED' });
+  }
+
+  /**
+   * Get verification flags of the authenticated user and the features
+   * they are currently locked out of
+   * @param authPayload - Authenticated user
+   */
+  async getVerificationStatus(authPayload: AuthPayload) {
+    const user = await this.usersService.findById(authPayload.uid);
+    const policy = this.getPolicy();
+    const restrictedFeatures = Object.keys(policy).filter(
+      (feature) =>
+        getMissingVerificationChannels(
+          user,
+          policy,
+          feature as VerificationFeature,
+        ).length > 0,
+    );
+
+    return buildResponse({
+      data: {
+        isEmailVerified: !!user.isEmailVerified,
+        isPhoneVerified: !!user.isPhoneVerified,
+        restrictedFeatures,
+      },
+    });
+  }
+
+  /**
+   * Store a new email token and send the link
+   * Only the latest link stays valid
+   * @returns Token lifetime in seconds
+   */
+  private async issueEmailVerification(
+    user: User,
+    welcome: boolean,
+  ): Promise<number> {
+    const ttlSeconds = this.getEmailTokenTtlSeconds();
+    const token = await this.storeEmailToken(
+      this.EMAIL_TOKEN_PREFIX,
+      { userId: user.id, email: user.email, createdAt: Date.now() },
+      ttlSeconds,
+    );
+
+    await this.emailVerificationSender.sendVerificationLink(
+      { email: user.email, name: user.name, username: user.username },
+      this.buildLink(
+        this.configService.get<string>('app.verification.emailUrl') ||
+          'http://localhost:3000/verify-email',
+        token,
+      ),
+      { welcome },
+    );
+
+    return ttlSeconds;
+  }
+
+  /**
+   * Tell the previous address the account moved, with a link to undo it
+   * Never throws, the email change itself already succeeded
+   * @param userId - User whose email changed
+   * @param previousEmail - Address the account moved away from
+   */
+  private async sendEmailChangeNotice(
+    userId: string,
+    previousEmail: string,
+  ): Promise<void> {
+    try {
+      const user = await this.usersService.findById(userId);
+      const ttlSeconds =
+        this.configService.get<number>(
+          'app.verification.emailRevertTtlSeconds',
+        ) || 7 * 24 * 60 * 60;
+      const token = await this.storeEmailToken(
+        this.EMAIL_REVERT_PREFIX,
+        {
+          userId,
+          email: previousEmail,
+          previousEmail: user.email,
+          createdAt: Date.now(),
+        },
+        ttlSeconds,
+      );
+
+      await this.securityAlertSender.sendAlert(
+        { email: previousEmail, name: user.name },
+        {
+          title: 'Your email address was changed',
+          message: `The email address of your account was changed to ${maskEmail(user.email)}.`,
+          details: [{ label: 'Time', value: new Date().toUTCString() }],
+          action: {
+            description:
+              'If you did not make this change, undo it now. Every device will be signed out.',
+            link: this.buildLink(
+              this.configService.get<string>(
+                'app.verification.emailRevertUrl',
+              ) || 'http://localhost:3000/revert-email-change',
+              token,
+            ),
+            buttonText: 'Undo email change',
+          },
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send the email change notice for user ${userId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Store an email token under `prefix`, voiding the previous one of the user
+   * @returns The raw token for the link
+   */
+  private async storeEmailToken(
+    prefix: string,
+    state: EmailVerificationState,
+    ttlSeconds: number,
+  ): Promise<string> {
+    const token = randomBytes(32).toString('base64url');
+    const tokenHash = sha256Hex(token);
+    const pointerKey = this.getEmailPointerKey(state.userId, prefix);
+
+    const previousHash = await this.cacheService.get<string>(pointerKey);
+    if (previousHash) {
+      await this.cacheService.delete(`${prefix}${previousHash}`);
+    }
+
+    await Promise.all([
+      this.cacheService.set(`${prefix}${tokenHash}`, state, ttlSeconds),
+      this.cacheService.set(pointerKey, tokenHash, ttlSeconds),
+    ]);
+    return token;
+  }
+
+  private buildLink(url: string, token: string): string {
+    const link = new URL(url);
+    link.searchParams.set('token', token);
+    return link.toString();
+  }
+
+  private async assertEmailAvailable(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    const owner = await this.usersService.findByEmail(email);
+    if (owner && owner.id !== userId) {
+      throw new ConflictException({ messageKey: 'user.EMAIL_ALREADY_EXISTS' });
+    }
+  }
+
+  /**
+   * Allow one send per channel per cooldown window
+   * @throws HttpException 429 with the seconds left
+   */
+  private async enforceCooldown(
+    userId: string,
+    channel: VerificationChannel,
+  ): Promise<void> {
+    const cooldown = this.getCooldownSeconds();
+    if (cooldown <= 0) return;
+
+    const key = `${this.COOLDOWN_PREFIX}${channel}:${userId}`;
+    const acquired = await this.cacheService.compareAndSwap(
+      key,
+      null,
+      Date.now(),
+      cooldown,
+    );
+    if (!acquired) {
+      const ttl = await this.cacheService.getTtl(key);
+      throw new HttpException(
+        {
+          messageKey: 'auth.VERIFICATION_RESEND_COOLDOWN',
+          messageArgs: { seconds: ttl > 0 ? ttl : cooldown },
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private getEmailPointerKey(
+    userId: string,
+    prefix: string = this.EMAIL_TOKEN_PREFIX,
+  ): string {
+    return `${prefix}user:${userId}`;
+  }
+
+  private getEmailTokenTtlSeconds(): number {
+    return (
+      this.configService.get<number>('app.verification.emailTokenTtlSeconds') ||
+      24 * 60 * 60
+    );
+  }
+
+  private getCooldownSeconds(): number {
+    return (
+      this.configService.get<number>(
+        'app.verification.resendCooldownSeconds',
+      ) ?? 60
+    );
+  }
+
+  private getPolicy(): VerificationPolicy {
+    return (
+      this.configService.get<VerificationPolicy>('app.verification.policy') ??
+      {}
+    );
+  }
+}
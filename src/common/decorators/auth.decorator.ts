@@ -1,4 +1,8 @@
-import { JwtAccessTokenGuard, RolesGuard } from 'src/auth/guard';
+import {
+  JwtAccessTokenGuard,
+  OptionalJwtAccessTokenGuard,
+  RolesGuard,
+} from 'src/auth/guard';
 import { UserRole } from 'src/shared/constants';
 
 import { applyDecorators, UseGuards } from '@nestjs/common';
@@ -12,3 +16,11 @@ export function Auth(roles?: UserRole | UserRole[]) {
     UseGuards(JwtAccessTokenGuard, RolesGuard),
   );
 }
+
+/**
+ * Authenticate the request when it carries an access token, anonymous
+ * requests pass without `request.user`
+ */
+export function OptionalAuth() {
+  return applyDecorators(UseGuards(OptionalJwtAccessTokenGuard));
+}
@@ -0,0 +1,49 @@
+import { PolicyGuard } from 'src/auth/guard';
+import { ResourcePolicy } from 'src/common/interface';
+
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  Type,
+  UseGuards,
+} from '@nestjs/common';
+
+export const AUTHORIZE_KEY = 'authorize';
+
+export interface AuthorizeRule {
+  policy: Type<ResourcePolicy>;
+  action: string;
+  param: string;
+}
+
+/**
+ * Load the resource named by a route param through `policy` and let the
+ * request through only when the policy allows `action` on it
+ * Missing resources answer 404, denied access 403
+ * Works with or without `@Auth()`, in any order
+ * @param policy - Policy provider of the resource, e.g. `MediaPolicy`
+ * @param action - Action checked by the policy, e.g. `update`
+ * @param param - Route param holding the resource ID (default: `id`)
+ */
+export function Authorize(
+  policy: Type<ResourcePolicy>,
+  action: string,
+  param: string = 'id',
+) {
+  return applyDecorators(
+    SetMetadata(AUTHORIZE_KEY, { policy, action, param } as AuthorizeRule),
+    UseGuards(PolicyGuard),
+  );
+}
+
+/**
+ * Resource loaded by `@Authorize()`, saves loading it again
+ * Usage: @AuthorizedResource() media: Media
+ */
+export const AuthorizedResource = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext): unknown =>
+    ctx.switchToHttp().getRequest<{ authorizedResource?: unknown }>()
+      .authorizedResource,
+);
@@ -1,8 +1,6 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 import { Request } from 'express';
-
-/* eslint-disable @typescript-eslint/no-unsafe-assignment */
-/* eslint-disable @typescript-eslint/no-unsafe-member-access */
+import { parseUserAgent } from 'src/common/utils';
 
 export interface ClientInfo {
   userAgent?: string;
@@ -10,6 +8,8 @@ export interface ClientInfo {
   deviceType?: string;
   browser?: string;
   operatingSystem?: string;
+  country?: string;
+  city?: string;
 }
 
 /**
@@ -18,7 +18,7 @@ export interface ClientInfo {
  */
 export const ClientInfo = createParamDecorator(
   (data: unknown, ctx: ExecutionContext): ClientInfo => {
-    const request = ctx.switchToHttp().getRequest();
+    const request = ctx.switchToHttp().getRequest<Request>();
 
     // Get user agent
     const userAgent = request.headers['user-agent'];
@@ -33,6 +33,7 @@ export const ClientInfo = createParamDecorator(
       userAgent,
       ipAddress,
       ...deviceInfo,
+      ...getEdgeLocation(request),
     };
   },
 );
@@ -40,7 +41,7 @@ export const ClientInfo = createParamDecorator(
 /**
  * Get real IP address from request headers
  */
-function getRealIpAddress(request: Request): string {
+export function getRealIpAddress(request: Request): string {
   // Check for various IP headers (for proxy/load balancer scenarios)
   const ipHeaders = [
     'x-forwarded-for',
@@ -73,71 +74,34 @@ function getRealIpAddress(request: Request): string {
 }
 
 /**
- * Parse user agent string to extract device information
+ * Get the approximate location a CDN or edge proxy resolved for the client
+ * Nothing is looked up here, without such headers the location is unknown
  */
-function parseUserAgent(userAgent?: string): {
-  deviceType: string;
-  browser: string;
-  operatingSystem: string;
+function getEdgeLocation(request: Request): {
+  country?: string;
+  city?: string;
 } {
-  if (!userAgent) {
-    return {
-      deviceType: 'unknown',
-      browser: 'unknown',
-      operatingSystem: 'unknown',
-    };
-  }
-
-  const ua = userAgent.toLowerCase();
-
-  // Detect device type
-  let deviceType = 'desktop';
-  if (
-    ua.includes('mobile') ||
-    ua.includes('android') ||
-    ua.includes('iphone')
-  ) {
-    deviceType = 'mobile';
-  } else if (ua.includes('tablet') || ua.includes('ipad')) {
-    deviceType = 'tablet';
-  }
-
-  // Detect browser
-  let browser = 'unknown';
-  if (ua.includes('chrome')) {
-    browser = 'Chrome';
-  } else if (ua.includes('firefox')) {
-    browser = 'Firefox';
-  } else if (ua.includes('safari') && !ua.includes('chrome')) {
-    browser = 'Safari';
-  } else if (ua.includes('edge')) {
-    browser = 'Edge';
-  } else if (ua.includes('opera')) {
-    browser = 'Opera';
-  }
-
-  // Detect operating system
-  let operatingSystem = 'unknown';
-  if (ua.includes('windows')) {
-    operatingSystem = 'Windows';
-  } else if (ua.includes('mac os')) {
-    operatingSystem = 'macOS';
-  } else if (ua.includes('linux')) {
-    operatingSystem = 'Linux';
-  } else if (ua.includes('android')) {
-    operatingSystem = 'Android';
-  } else if (
-    ua.includes('ios') ||
-    ua.includes('iphone') ||
-    ua.includes('ipad')
-  ) {
-    operatingSystem = 'iOS';
-  }
+  const header = (...names: string[]) => {
+    for (const name of names) {
+      const value = request.headers[name];
+      if (typeof value !== 'string' || !value || value === 'XX') continue;
+      try {
+        // Vercel URL-encodes city names
+        return decodeURIComponent(value);
+      } catch {
+        return value;
+      }
+    }
+    return undefined;
+  };
 
   return {
-    deviceType,
-    browser,
-    operatingSystem,
+    country: header(
+      'cf-ipcountry', // Cloudflare
+      'cloudfront-viewer-country',
+      'x-vercel-ip-country',
+    ),
+    city: header('cf-ipcity', 'cloudfront-viewer-city', 'x-vercel-ip-city'),
   };
 }
 
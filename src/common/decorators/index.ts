@@ -1,3 +1,7 @@
 export * from './client-info.decorator';
 export * from './roles.decorator';
 export * from './auth.decorator';
+export * from './require-verified.decorator';
+export * from './require-permissions.decorator';
+export * from './authorize.decorator';
+export * from './no-impersonation.decorator';
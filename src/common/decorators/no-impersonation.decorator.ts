@@ -0,0 +1,17 @@
+import { NoImpersonationGuard } from 'src/auth/guard';
+
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+
+export const NO_IMPERSONATION_KEY = 'noImpersonation';
+
+/**
+ * Refuse impersonation tokens on a route, for credential and account
+ * changes only the owner of the account may make
+ * Works with or without `@Auth()`, in any order
+ */
+export function NoImpersonation() {
+  return applyDecorators(
+    SetMetadata(NO_IMPERSONATION_KEY, true),
+    UseGuards(NoImpersonationGuard),
+  );
+}
@@ -0,0 +1,18 @@
+import { PermissionsGuard } from 'src/auth/guard';
+
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+
+export const REQUIRE_PERMISSIONS_KEY = 'requirePermissions';
+
+/**
+ * Restrict a route, or every route of a controller, to users whose role
+ * grants all of `permissions` (see `PERMISSIONS`)
+ * A handler-level list replaces the controller-level one
+ * Works with or without `@Auth()`, in any order
+ */
+export function RequirePermissions(...permissions: string[]) {
+  return applyDecorators(
+    SetMetadata(REQUIRE_PERMISSIONS_KEY, permissions),
+    UseGuards(PermissionsGuard),
+  );
+}
@@ -0,0 +1,21 @@
+import { VerifiedGuard } from 'src/auth/guard';
+import { USER_CONSTANTS, VerificationFeature } from 'src/shared/constants';
+
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+
+export const REQUIRE_VERIFIED_KEY = 'requireVerified';
+
+/**
+ * Restrict a route to users who verified the channels the verification
+ * policy requires for `feature` (see `VERIFICATION_POLICY`)
+ * Works with or without `@Auth()`, in any order
+ * @param feature - Policy entry to apply (default: `default`)
+ */
+export function RequireVerified(
+  feature: VerificationFeature = USER_CONSTANTS.VERIFICATION_FEATURES.DEFAULT,
+) {
+  return applyDecorators(
+    SetMetadata(REQUIRE_VERIFIED_KEY, feature),
+    UseGuards(VerifiedGuard),
+  );
+}
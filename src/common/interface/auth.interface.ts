@@ -1,7 +1,10 @@
-import { UserRole } from 'src/shared/constants';
-
 export interface AuthPayload {
   uid: string;
   ssid: string;
-  role?: UserRole;
+  role?: string; // Name of a role in `roles`, see USER_CONSTANTS.ROLES for the built-in ones
+  pv?: number; // Permissions version the access token was signed at
+  jti?: string; // Refresh token ID, only present in refresh tokens
+  typ?: 'access' | 'refresh'; // Token type, see USER_CONSTANTS.TOKEN_TYPES
+  impersonatorId?: string; // Admin acting as the user, only present in impersonation tokens
+  oid?: string; // Active organization of the session, see POST /orgs/:id/switch
 }
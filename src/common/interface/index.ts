@@ -1,3 +1,4 @@
 export * from './auth.interface';
 export * from './pagination.interface';
 export * from './rate-limit.interface';
+export * from './policy.interface';
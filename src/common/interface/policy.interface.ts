@@ -0,0 +1,21 @@
+import { AuthPayload } from './auth.interface';
+
+/**
+ * Decides who may act on one resource, enforced by `@Authorize()`
+ * Policies are providers, registered in the module of the resource
+ */
+export interface ResourcePolicy<T = unknown> {
+  notFoundMessageKey: string;
+  concealDenied?: boolean; // Report denied access as not found, so IDs cannot be probed
+
+  /**
+   * Load the resource named in the route
+   * @returns The resource, or null when it does not exist
+   */
+  load(id: string): Promise<T | null>;
+
+  /**
+   * Whether `user` may perform `action` on `resource`
+   */
+  can(user: AuthPayload, action: string, resource: T): Promise<boolean>;
+}
@@ -0,0 +1,161 @@
+/**
+ * Minimal CBOR (RFC 8949) decoder
+ * Covers the subset used by WebAuthn attestation objects and COSE keys:
+ * integers, byte/text strings, arrays, maps and simple values
+ */
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export interface CborDecodeResult {
+  /** Decoded value */
+  value: CborValue;
+  /** Number of bytes consumed from the input */
+  length: number;
+}
+
+/**
+ * Decode the first CBOR item of a buffer
+ * Trailing bytes are allowed and reported through `length`, which is how
+ * the COSE public key embedded in authenticator data is delimited
+ * @param input - CBOR encoded bytes
+ * @returns Decoded value and the number of bytes read
+ */
+export function cborDecodeFirst(input: Buffer): CborDecodeResult {
+  let offset = 0;
+
+  const ensure = (size: number) => {
+    if (offset + size > input.length) {
+      throw new Error('Unexpected end of CBOR input');
+    }
+  };
+
+  const readArgument = (additional: number): number | bigint => {
+    if (additional < 24) return additional;
+    if (additional === 24) {
+      ensure(1);
+      return input.readUInt8(offset++);
+    }
+    if (additional === 25) {
+      ensure(2);
+      const value = input.readUInt16BE(offset);
+      offset += 2;
+      return value;
+    }
+    if (additional === 26) {
+      ensure(4);
+      const value = input.readUInt32BE(offset);
+      offset += 4;
+      return value;
+    }
+    if (additional === 27) {
+      ensure(8);
+      const value = input.readBigUInt64BE(offset);
+      offset += 8;
+      return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+    }
+    throw new Error(`Unsupported CBOR additional info: ${additional}`);
+  };
+
+  const readLength = (additional: number): number => {
+    const length = readArgument(additional);
+    if (typeof length !== 'number') {
+      throw new Error('CBOR length too large');
+    }
+    return length;
+  };
+
+  const readItem = (): CborValue => {
+    ensure(1);
+    const initial = input.readUInt8(offset++);
+    const major = initial >> 5;
+    const additional = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readArgument(additional);
+      case 1: {
+        const value = readArgument(additional);
+        return typeof value === 'bigint' ? -1n - value : -1 - value;
+      }
+      case 2: {
+        const length = readLength(additional);
+        ensure(length);
+        const bytes = Buffer.from(input.subarray(offset, offset + length));
+        offset += length;
+        return bytes;
+      }
+      case 3: {
+        const length = readLength(additional);
+        ensure(length);
+        const text = input.toString('utf8', offset, offset + length);
+        offset += length;
+        return text;
+      }
+      case 4: {
+        const length = readLength(additional);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) items.push(readItem());
+        return items;
+      }
+      case 5: {
+        const length = readLength(additional);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 6:
+        // Semantic tags carry no meaning for WebAuthn, return the tagged item
+        readArgument(additional);
+        return readItem();
+      case 7:
+        if (additional === 20) return false;
+        if (additional === 21) return true;
+        if (additional === 22) return null;
+        if (additional === 23) return undefined;
+        if (additional === 26) {
+          ensure(4);
+          const value = input.readFloatBE(offset);
+          offset += 4;
+          return value;
+        }
+        if (additional === 27) {
+          ensure(8);
+          const value = input.readDoubleBE(offset);
+          offset += 8;
+          return value;
+        }
+        throw new Error(`Unsupported CBOR simple value: ${additional}`);
+      default:
+        throw new Error(`Unsupported CBOR major type: ${major}`);
+    }
+  };
+
+  const value = readItem();
+  return { value, length: offset };
+}
+
+/**
+ * Decode a buffer that holds exactly one CBOR item
+ * @param input - CBOR encoded bytes
+ * @returns Decoded value
+ * @throws Error when the input has trailing bytes
+ */
+export function cborDecode(input: Buffer): CborValue {
+  const { value, length } = cborDecodeFirst(input);
+  if (length !== input.length) {
+    throw new Error('Unexpected trailing bytes after CBOR item');
+  }
+  return value;
+}
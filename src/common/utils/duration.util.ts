@@ -0,0 +1,28 @@
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Convert a duration in the format accepted by `expiresIn` to seconds
+ * Plain numbers are seconds, otherwise a number followed by s, m, h, d or w
+ * @param value - e.g. 3600, "3600", "15m", "7d"
+ * @returns Seconds, or undefined when the value cannot be parsed
+ */
+export function parseDurationSeconds(
+  value: string | number | undefined | null,
+): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0 ? Math.floor(value) : undefined;
+  }
+  const match = /^(\d+(?:\.\d+)?)\s*([smhdw]?)$/i.exec(value?.trim() ?? '');
+  if (!match) return undefined;
+
+  const seconds = Math.floor(
+    Number(match[1]) * UNIT_SECONDS[(match[2] || 's').toLowerCase()],
+  );
+  return seconds > 0 ? seconds : undefined;
+}
@@ -4,3 +4,11 @@ export * from './hash.util';
 export * from './query.util';
 export * from './otp.util';
 export * from './email.util';
+export * from './totp.util';
+export * from './cbor.util';
+export * from './verification.util';
+export * from './login-risk.util';
+export * from './lru-cache.util';
+export * from './user-agent.util';
+export * from './duration.util';
+export * from './permission.util';
@@ -0,0 +1,50 @@
+import { getDeviceFingerprint, getIpNetwork } from './login-risk.util';
+
+describe('login-risk.util', () => {
+  describe('getIpNetwork', () => {
+    it('should keep the leading IPv4 octets', () => {
+      expect(getIpNetwork('203.0.113.10')).toBe('203.0.113');
+      expect(getIpNetwork('203.0.113.10', 16)).toBe('203.0');
+    });
+
+    it('should unwrap IPv4-mapped IPv6 addresses', () => {
+      expect(getIpNetwork('::ffff:203.0.113.10')).toBe('203.0.113');
+    });
+
+    it('should expand compressed IPv6 addresses to the /64 prefix', () => {
+      expect(getIpNetwork('2001:db8::1')).toBe('2001:db8:0:0');
+      expect(getIpNetwork('2001:0db8:0001:0002:0003:0004:0005:0006')).toBe(
+        '2001:db8:1:2',
+      );
+    });
+
+    it('should return null for unknown addresses', () => {
+      expect(getIpNetwork('unknown')).toBeNull();
+      expect(getIpNetwork(undefined)).toBeNull();
+    });
+  });
+
+  describe('getDeviceFingerprint', () => {
+    it('should ignore browser version updates', () => {
+      expect(getDeviceFingerprint({ userAgent: 'Foo/1.2.3 (Bar 10_1)' })).toBe(
+        getDeviceFingerprint({ userAgent: 'Foo/1.2.4 (Bar 10_2)' }),
+      );
+    });
+
+    it('should tell different browsers apart', () => {
+      expect(
+        getDeviceFingerprint({
+          deviceType: 'desktop',
+          browser: 'Chrome',
+          operatingSystem: 'macOS',
+        }),
+      ).not.toBe(
+        getDeviceFingerprint({
+          deviceType: 'desktop',
+          browser: 'Safari',
+          operatingSystem: 'macOS',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Login risk utility functions
+ * Helpers to compare a sign-in with the sessions a user created before
+ */
+
+import { createHash } from 'crypto';
+
+export interface DeviceDescriptor {
+  userAgent?: string;
+  deviceType?: string;
+  browser?: string;
+  operatingSystem?: string;
+}
+
+/**
+ * Build a stable fingerprint of the device a sign-in comes from
+ * Uses the parsed device type, browser and OS so browser updates do not
+ * look like a new device; falls back to the user agent without version
+ * numbers when nothing could be parsed
+ * @param device - Client information of the sign-in
+ * @returns Hex fingerprint
+ */
+export function getDeviceFingerprint(device: DeviceDescriptor): string {
+  const parsed = [device.deviceType, device.browser, device.operatingSystem];
+  const source = parsed.some((part) => part && part !== 'unknown')
+    ? parsed.map((part) => part || 'unknown').join('|')
+    : (device.userAgent || 'unknown').replace(/[\d._]+/g, '');
+
+  return createHash('sha256')
+    .update(source.toLowerCase())
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Get the network an IP address belongs to
+ * @param ipAddress - IPv4 or IPv6 address
+ * @param ipv4PrefixBits - Prefix length for IPv4, 8, 16 or 24 (default: 24)
+ * @param ipv6Groups - Number of leading IPv6 groups to keep (default: 4, a /64)
+ * @returns Network prefix, or null when the address cannot be parsed
+ */
+export function getIpNetwork(
+  ipAddress: string | undefined | null,
+  ipv4PrefixBits: 8 | 16 | 24 = 24,
+  ipv6Groups: number = 4,
+): string | null {
+  if (!ipAddress || ipAddress === 'unknown') return null;
+
+  // IPv4-mapped IPv6 addresses, as reported by dual-stack sockets
+  const address = ipAddress.replace(/^::ffff:/i, '');
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    return address
+      .split('.')
+      .slice(0, ipv4PrefixBits / 8)
+      .join('.');
+  }
+
+  if (address.includes(':')) {
+    const [head, tail] = address.toLowerCase().split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const missing = 8 - headGroups.length - tailGroups.length;
+    const groups =
+      address.includes('::') && missing > 0
+        ? [...headGroups, ...Array<string>(missing).fill('0'), ...tailGroups]
+        : headGroups;
+    return groups
+      .slice(0, ipv6Groups)
+      .map((group) => group.replace(/^0+(?=.)/, ''))
+      .join(':');
+  }
+
+  return null;
+}
@@ -0,0 +1,41 @@
+import { hasPermissions, permissionMatches } from './permission.util';
+
+describe('permission.util', () => {
+  describe('permissionMatches', () => {
+    it('should match exact permissions only', () => {
+      expect(permissionMatches('mail:send', 'mail:send')).toBe(true);
+      expect(permissionMatches('mail:send', 'mail:send:any')).toBe(false);
+      expect(permissionMatches('mail:send:any', 'mail:send')).toBe(false);
+      expect(permissionMatches('mail:metrics:read', 'mail:send')).toBe(false);
+    });
+
+    it('should let a wildcard match the rest', () => {
+      expect(permissionMatches('*', 'media:delete:any')).toBe(true);
+      expect(permissionMatches('media:*', 'media:delete:any')).toBe(true);
+      expect(permissionMatches('media:*', 'mail:send')).toBe(false);
+    });
+
+    it('should let the any scope grant own but not the reverse', () => {
+      expect(permissionMatches('media:delete:any', 'media:delete:own')).toBe(
+        true,
+      );
+      expect(permissionMatches('media:delete:own', 'media:delete:any')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('hasPermissions', () => {
+    it('should require every permission', () => {
+      const granted = ['mail:send', 'media:delete:any'];
+
+      expect(hasPermissions(granted, ['mail:send', 'media:delete:own'])).toBe(
+        true,
+      );
+      expect(hasPermissions(granted, ['mail:send', 'roles:manage'])).toBe(
+        false,
+      );
+      expect(hasPermissions([], [])).toBe(true);
+    });
+  });
+});
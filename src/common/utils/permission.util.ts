@@ -0,0 +1,40 @@
+/**
+ * Check whether a granted permission covers a required one
+ * Segments are compared one by one: `*` matches the rest of the string,
+ * and a trailing `any` scope also grants the `own` scope
+ * @example
+ * permissionMatches('media:*', 'media:delete:any') // true
+ * permissionMatches('media:delete:any', 'media:delete:own') // true
+ * permissionMatches('media:delete:own', 'media:delete:any') // false
+ */
+export function permissionMatches(granted: string, required: string): boolean {
+  const grantedParts = granted.split(':');
+  const requiredParts = required.split(':');
+
+  for (let i = 0; i < grantedParts.length; i++) {
+    const part = grantedParts[i];
+    if (part === '*') return true;
+    if (i >= requiredParts.length) return false;
+
+    const isScope =
+      i === grantedParts.length - 1 && i === requiredParts.length - 1;
+    if (
+      part !== requiredParts[i] &&
+      !(isScope && part === 'any' && requiredParts[i] === 'own')
+    ) {
+      return false;
+    }
+  }
+  return grantedParts.length === requiredParts.length;
+}
+
+/**
+ * Check whether a set of granted permissions covers every required one
+ * @param granted - Permissions of the caller
+ * @param required - Permissions the action needs
+ */
+export function hasPermissions(granted: string[], required: string[]): boolean {
+  return required.every((permission) =>
+    granted.some((grant) => permissionMatches(grant, permission)),
+  );
+}
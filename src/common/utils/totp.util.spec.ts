@@ -0,0 +1,51 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotpCode,
+  getTotpStep,
+  verifyTotpCode,
+} from './totp.util';
+
+describe('totp.util', () => {
+  // RFC 6238 Appendix B shared secret "12345678901234567890"
+  const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe(
+      '12345678901234567890',
+    );
+  });
+
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+  ])('should match the RFC 6238 vector at T=%i', (seconds, expected) => {
+    const step = getTotpStep(30, seconds * 1000);
+    expect(generateTotpCode(RFC_SECRET, step, 8)).toBe(expected);
+  });
+
+  it('should accept codes within the drift window only', () => {
+    const now = 1234567890 * 1000;
+    const step = getTotpStep(30, now);
+    const previous = generateTotpCode(RFC_SECRET, step - 1);
+    const tooOld = generateTotpCode(RFC_SECRET, step - 2);
+
+    expect(verifyTotpCode(RFC_SECRET, previous, { now })).toBe(step - 1);
+    expect(verifyTotpCode(RFC_SECRET, tooOld, { now })).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', { now })).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = new URL(buildOtpAuthUri('ABC', 'a@b.c', 'My App'));
+
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/My App:a@b.c');
+    expect(uri.searchParams.get('secret')).toBe('ABC');
+    expect(uri.searchParams.get('issuer')).toBe('My App');
+  });
+});
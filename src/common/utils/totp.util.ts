@@ -0,0 +1,167 @@
+/**
+ * TOTP (RFC 6238) utility functions
+ * Implements HMAC-SHA1 time-based one-time passwords compatible with
+ * Google Authenticator, Authy, 1Password and similar apps
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  /** Number of digits in a code (default: 6) */
+  digits?: number;
+  /** Time step in seconds (default: 30) */
+  period?: number;
+  /** Number of steps accepted before and after the current one (default: 1) */
+  window?: number;
+  /** Current time in milliseconds, for tests */
+  now?: number;
+}
+
+/**
+ * Encode bytes as unpadded RFC 4648 base32
+ * @param buffer - Bytes to encode
+ * @returns Base32 string
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string, ignoring case, spaces and padding
+ * @param input - Base32 string
+ * @returns Decoded bytes
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random TOTP secret
+ * @param byteLength - Secret size in bytes (default: 20, the SHA-1 block size)
+ * @returns Base32 encoded secret
+ */
+export function generateTotpSecret(byteLength: number = 20): string {
+  return base32Encode(randomBytes(byteLength));
+}
+
+/**
+ * Generate the TOTP code for a given time step
+ * @param secret - Base32 encoded secret
+ * @param step - Time step counter
+ * @param digits - Number of digits (default: 6)
+ * @returns Zero-padded code
+ */
+export function generateTotpCode(
+  secret: string,
+  step: number,
+  digits: number = 6,
+): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % Math.pow(10, digits)).toString().padStart(digits, '0');
+}
+
+/**
+ * Get the current TOTP time step
+ * @param period - Time step in seconds (default: 30)
+ * @param now - Current time in milliseconds
+ */
+export function getTotpStep(period: number = 30, now: number = Date.now()) {
+  return Math.floor(now / 1000 / period);
+}
+
+/**
+ * Verify a TOTP code within the allowed clock drift window
+ * @param secret - Base32 encoded secret
+ * @param code - Code entered by the user
+ * @param options - Digits, period, window and clock override
+ * @returns The matching time step, or null when the code is invalid
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  options: TotpOptions = {},
+): number | null {
+  const { digits = 6, period = 30, window = 1, now = Date.now() } = options;
+  if (!code || !new RegExp(`^\\d{${digits}}$`).test(code)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(period, now);
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    const expected = generateTotpCode(secret, step, digits);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build an otpauth:// URI understood by authenticator apps
+ * @param secret - Base32 encoded secret
+ * @param accountName - Account label, usually the email
+ * @param issuer - Issuer name shown in the app
+ * @returns otpauth URI, also used as the QR code payload
+ */
+export function buildOtpAuthUri(
+  secret: string,
+  accountName: string,
+  issuer: string,
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: '6',
+    period: '30',
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
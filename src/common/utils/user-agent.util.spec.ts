@@ -0,0 +1,73 @@
+import { getDeviceName, parseUserAgent } from './user-agent.util';
+
+describe('user-agent.util', () => {
+  describe('parseUserAgent', () => {
+    it('should not mistake Edge and Opera for Chrome', () => {
+      expect(
+        parseUserAgent(
+          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+        ),
+      ).toEqual({
+        deviceType: 'desktop',
+        browser: 'Edge',
+        operatingSystem: 'Windows',
+      });
+      expect(
+        parseUserAgent(
+          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 OPR/106.0.0.0',
+        ).browser,
+      ).toBe('Opera');
+    });
+
+    it('should detect iOS before macOS and Android before Linux', () => {
+      expect(
+        parseUserAgent(
+          'Mozilla/5.0 (iPhone; CPU iPhone OS 17_1 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Mobile/15E148 Safari/604.1',
+        ),
+      ).toEqual({
+        deviceType: 'mobile',
+        browser: 'Safari',
+        operatingSystem: 'iOS',
+      });
+      expect(
+        parseUserAgent(
+          'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+        ),
+      ).toEqual({
+        deviceType: 'mobile',
+        browser: 'Chrome',
+        operatingSystem: 'Android',
+      });
+    });
+
+    it('should treat Android without "Mobile" as a tablet', () => {
+      expect(
+        parseUserAgent(
+          'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        ).deviceType,
+      ).toBe('tablet');
+    });
+
+    it('should report unknown without a user agent', () => {
+      expect(parseUserAgent(undefined)).toEqual({
+        deviceType: 'unknown',
+        browser: 'unknown',
+        operatingSystem: 'unknown',
+      });
+    });
+  });
+
+  describe('getDeviceName', () => {
+    it('should join the known parts', () => {
+      expect(
+        getDeviceName({ browser: 'Firefox', operatingSystem: 'Linux' }),
+      ).toBe('Firefox on Linux');
+      expect(
+        getDeviceName({ browser: 'unknown', operatingSystem: 'Android' }),
+      ).toBe('Android');
+      expect(
+        getDeviceName({ browser: 'unknown', operatingSystem: 'unknown' }),
+      ).toBeNull();
+    });
+  });
+});
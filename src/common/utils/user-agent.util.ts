@@ -0,0 +1,88 @@
+export interface ParsedUserAgent {
+  deviceType: string;
+  browser: string;
+  operatingSystem: string;
+}
+
+/**
+ * Parse a user agent string into device type, browser and operating system
+ * Order matters: Edge and Opera also announce Chrome, Chrome announces
+ * Safari, Android announces Linux and iOS announces Mac OS X
+ * @param userAgent - Raw User-Agent header
+ */
+export function parseUserAgent(userAgent?: string | null): ParsedUserAgent {
+  if (!userAgent) {
+    return {
+      deviceType: 'unknown',
+      browser: 'unknown',
+      operatingSystem: 'unknown',
+    };
+  }
+
+  const ua = userAgent.toLowerCase();
+
+  let deviceType = 'desktop';
+  if (
+    ua.includes('ipad') ||
+    ua.includes('tablet') ||
+    (ua.includes('android') && !ua.includes('mobile'))
+  ) {
+    deviceType = 'tablet';
+  } else if (
+    ua.includes('mobile') ||
+    ua.includes('iphone') ||
+    ua.includes('android')
+  ) {
+    deviceType = 'mobile';
+  }
+
+  let browser = 'unknown';
+  if (ua.includes('edg/') || ua.includes('edge/') || ua.includes('edga/')) {
+    browser = 'Edge';
+  } else if (ua.includes('opr/') || ua.includes('opera')) {
+    browser = 'Opera';
+  } else if (ua.includes('samsungbrowser')) {
+    browser = 'Samsung Internet';
+  } else if (ua.includes('firefox') || ua.includes('fxios')) {
+    browser = 'Firefox';
+  } else if (ua.includes('chrome') || ua.includes('crios')) {
+    browser = 'Chrome';
+  } else if (ua.includes('safari')) {
+    browser = 'Safari';
+  }
+
+  let operatingSystem = 'unknown';
+  if (ua.includes('windows')) {
+    operatingSystem = 'Windows';
+  } else if (ua.includes('android')) {
+    operatingSystem = 'Android';
+  } else if (
+    ua.includes('iphone') ||
+    ua.includes('ipad') ||
+    ua.includes('ipod')
+  ) {
+    operatingSystem = 'iOS';
+  } else if (ua.includes('mac os') || ua.includes('macintosh')) {
+    operatingSystem = 'macOS';
+  } else if (ua.includes('cros')) {
+    operatingSystem = 'ChromeOS';
+  } else if (ua.includes('linux')) {
+    operatingSystem = 'Linux';
+  }
+
+  return { deviceType, browser, operatingSystem };
+}
+
+/**
+ * Human readable device name, e.g. "Chrome on macOS"
+ * @param device - Parsed user agent
+ * @returns The name, or null when neither browser nor OS is known
+ */
+export function getDeviceName(device: Partial<ParsedUserAgent>): string | null {
+  const browser = device.browser !== 'unknown' ? device.browser : undefined;
+  const operatingSystem =
+    device.operatingSystem !== 'unknown' ? device.operatingSystem : undefined;
+
+  if (browser && operatingSystem) return `${browser} on ${operatingSystem}`;
+  return browser || operatingSystem || null;
+}
@@ -0,0 +1,40 @@
+/**
+ * Verification policy utility functions
+ * A policy maps a feature to the channels that must be verified before
+ * the feature can be used, e.g. `{ qr_approval: ['email', 'phone'] }`
+ */
+
+import {
+  USER_CONSTANTS,
+  VerificationChannel,
+  VerificationFeature,
+} from 'src/shared/constants';
+
+export type VerificationPolicy = Record<string, string[]>;
+
+/**
+ * Get the channels a user still has to verify before using a feature
+ * Features without a policy entry fall back to the `default` entry
+ * @param user - Verification flags of the user
+ * @param policy - Configured verification policy
+ * @param feature - Feature being accessed
+ * @returns Missing channels, empty when access is allowed
+ */
+export function getMissingVerificationChannels(
+  user: { isEmailVerified?: boolean; isPhoneVerified?: boolean },
+  policy: VerificationPolicy,
+  feature: VerificationFeature = USER_CONSTANTS.VERIFICATION_FEATURES.DEFAULT,
+): VerificationChannel[] {
+  const required =
+    policy[feature] ??
+    policy[USER_CONSTANTS.VERIFICATION_FEATURES.DEFAULT] ??
+    [];
+
+  return required.filter(
+    (channel): channel is VerificationChannel =>
+      (channel === USER_CONSTANTS.VERIFICATION_CHANNELS.EMAIL &&
+        !user.isEmailVerified) ||
+      (channel === USER_CONSTANTS.VERIFICATION_CHANNELS.PHONE &&
+        !user.isPhoneVerified),
+  );
+}
@@ -0,0 +1,74 @@
+import { instanceToPlain } from 'class-transformer';
+import {
+  FRIENDSHIP_CONSTANTS,
+  FriendshipSource,
+  FriendshipStatus,
+} from 'src/shared/constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { User } from 'src/users/entities/user.entity';
+import { toPublicProfile } from 'src/users/users.utils';
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+
+/**
+ * Friendship Entity - One edge of the contact graph, seen from `userId`
+ * A pending request is stored on the receiver's side, an accepted friendship
+ * as two mirrored rows and a block on the blocker's side only, so every list
+ * is a lookup by `userId` and `status`
+ */
+@Entity({
+  name: 'friendships',
+})
+@Index(['userId', 'friendId'], { unique: true })
+@Index(['userId', 'status'])
+@Index(['friendId', 'status'])
+export class Friendship extends BaseEntityCustom {
+  @Column('bigint')
+  userId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId', referencedColumnName: 'id' })
+  user: User;
+
+  @Column('bigint')
+  friendId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'friendId', referencedColumnName: 'id' })
+  friend: User;
+
+  @Column({
+    type: 'enum',
+    enum: FRIENDSHIP_CONSTANTS.STATUS,
+    default: FRIENDSHIP_CONSTANTS.STATUS.PENDING,
+  })
+  status: FriendshipStatus;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: FRIENDSHIP_CONSTANTS.SOURCES.REQUEST,
+  })
+  source: FriendshipSource;
+
+  /** QR ticket the request was made with */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ticketId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  toJSON() {
+    const result = instanceToPlain(this);
+    delete result.user;
+    // Friends see friends-only fields of each other
+    if (this.friend) {
+      result.friend = toPublicProfile(
+        this.friend,
+        this.status === FRIENDSHIP_CONSTANTS.STATUS.ACCEPTED
+          ? 'friends'
+          : 'public',
+      );
+    }
+    return result;
+  }
+}
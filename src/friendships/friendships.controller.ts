@@ -0,0 +1,116 @@
+import { Auth } from 'src/common/decorators';
+import { CursorPaginationDto } from 'src/common/dto';
+import { AuthPayload } from 'src/common/interface';
+import { SnowflakeIdPipe } from 'src/common/pipes';
+
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Query,
+  Request,
+} from '@nestjs/common';
+
+import { FriendshipsService } from './friendships.service';
+
+@Controller('friends')
+export class FriendshipsController {
+  constructor(private readonly friendshipsService: FriendshipsService) {}
+
+  @Get()
+  @Auth()
+  async listFriends(
+    @Request() req: Request & { user: AuthPayload },
+    @Query() query: CursorPaginationDto,
+  ) {
+    return this.friendshipsService.listFriends(req.user.uid, query);
+  }
+
+  @Get('requests')
+  @Auth()
+  async listRequests(
+    @Request() req: Request & { user: AuthPayload },
+    @Query() query: CursorPaginationDto,
+  ) {
+    return this.friendshipsService.listRequests(req.user.uid, query);
+  }
+
+  @Get('blocked')
+  @Auth()
+  async listBlocked(
+    @Request() req: Request & { user: AuthPayload },
+    @Query() query: CursorPaginationDto,
+  ) {
+    return this.friendshipsService.listBlocked(req.user.uid, query);
+  }
+
+  @Get('mutual/:userId')
+  @Auth()
+  async listMutualFriends(
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+    @Query() query: CursorPaginationDto,
+  ) {
+    return this.friendshipsService.listMutualFriends(
+      req.user.uid,
+      userId,
+      query,
+    );
+  }
+
+  @Post('requests/:userId')
+  @Auth()
+  async sendRequest(
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.friendshipsService.sendRequest(req.user.uid, userId);
+  }
+
+  @Post('requests/:userId/accept')
+  @Auth()
+  async acceptRequest(
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.friendshipsService.acceptRequest(req.user.uid, userId);
+  }
+
+  @Delete('requests/:userId')
+  @Auth()
+  async declineRequest(
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.friendshipsService.declineRequest(req.user.uid, userId);
+  }
+
+  @Post('blocks/:userId')
+  @Auth()
+  async blockUser(
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.friendshipsService.blockUser(req.user.uid, userId);
+  }
+
+  @Delete('blocks/:userId')
+  @Auth()
+  async unblockUser(
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.friendshipsService.unblockUser(req.user.uid, userId);
+  }
+
+  @Delete(':userId')
+  @Auth()
+  async removeFriend(
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.friendshipsService.removeFriend(req.user.uid, userId);
+  }
+}
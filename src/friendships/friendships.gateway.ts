@@ -0,0 +1,94 @@
+import { Socket } from 'socket.io';
+import { BaseGateway } from 'src/common/gateways/base.gateway';
+import { AuthPayload } from 'src/common/interface';
+import { FRIENDSHIP_CONSTANTS } from 'src/shared/constants';
+import { WebSocketAuthGuard } from 'src/auth/guard';
+
+import { UseGuards } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  SubscribeMessage,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+
+/**
+ * Friendship WebSocket Gateway
+ *
+ * Authenticated clients subscribe to their own room and receive friend
+ * requests, acceptances and removals as they happen.
+ */
+@WebSocketGateway({
+  namespace: 'friends',
+  cors: {
+    origin: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3000'],
+    credentials: true,
+  },
+  transports: ['websocket', 'polling'],
+})
+export class FriendshipsGateway extends BaseGateway<
+  { userId: string },
+  AuthPayload
+> {
+  protected async extractClientMetadata(
+    _client: Socket,
+    authPayload: AuthPayload,
+  ): Promise<{ userId: string }> {
+    return { userId: authPayload.uid };
+  }
+
+  protected async sendConnectionConfirmation(
+    client: Socket,
+    metadata: { userId: string },
+  ): Promise<void> {
+    client.emit('friends:connected', {
+      clientId: client.id,
+      userId: metadata.userId,
+      timestamp: Date.now(),
+    });
+  }
+
+  protected getUserId(authPayload: AuthPayload): string {
+    return authPayload.uid;
+  }
+
+  /**
+   * Subscribe to the authenticated user's friendship events
+   *
+   * @param client - The socket client, authenticated by the guard
+   */
+  @UseGuards(WebSocketAuthGuard)
+  @SubscribeMessage('friends:subscribe')
+  async handleSubscribe(@ConnectedSocket() client: Socket): Promise<void> {
+    const { uid } = this.getUser(client) as AuthPayload;
+    const roomName = `${FRIENDSHIP_CONSTANTS.ROOM_PREFIX}${uid}`;
+
+    if (await this.joinRoom(client.id, roomName, client)) {
+      client.emit('friends:subscribed', { userId: uid, timestamp: Date.now() });
+    } else {
+      client.emit('friends:error', {
+        message: 'Failed to subscribe to friendship events',
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Sends a friendship event to every connection of a user
+   *
+   * @param userId - Receiving user
+   * @param event - One of FRIENDSHIP_CONSTANTS.WS_EVENTS
+   * @param data - Event payload
+   * @returns Number of clients that received the event
+   */
+  async notifyUser<TData extends object>(
+    userId: string,
+    event: string,
+    data: TData,
+  ): Promise<number> {
+    return this.broadcastToRoom(
+      `${FRIENDSHIP_CONSTANTS.ROOM_PREFIX}${userId}`,
+      event,
+      { ...data, timestamp: Date.now() },
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { UsersModule } from 'src/users/users.module';
+import { Friendship } from './entities/friendship.entity';
+import { FriendshipsController } from './friendships.controller';
+import { FriendshipsGateway } from './friendships.gateway';
+import { FriendshipsService } from './friendships.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Friendship]),
+    // UsersModule uses FriendshipsService for friends-only profile fields
+    forwardRef(() => UsersModule),
+  ],
+  controllers: [FriendshipsController],
+  providers: [FriendshipsService, FriendshipsGateway],
+  exports: [FriendshipsService],
+})
+export class FriendshipsModule {}
@@ -0,0 +1,205 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CacheService } from 'src/shared/services';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { FindOperator, QueryRunner } from 'typeorm';
+import { Friendship } from './entities/friendship.entity';
+import { FriendshipsGateway } from './friendships.gateway';
+import { FriendshipsService } from './friendships.service';
+
+describe('FriendshipsService', () => {
+  let service: FriendshipsService;
+  let repository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    delete: jest.Mock;
+    exists: jest.Mock;
+    metadata: { columns: { propertyName: string }[] };
+  };
+  let gateway: jest.Mocked<FriendshipsGateway>;
+  let queryRunner: {
+    manager: {
+      update: jest.Mock;
+      delete: jest.Mock;
+      save: jest.Mock;
+      create: jest.Mock;
+    };
+  };
+
+  const row = (overrides: Partial<Friendship>) =>
+    Object.assign(new Friendship(), { id: '900', ...overrides });
+
+  beforeEach(async () => {
+    repository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+      exists: jest.fn().mockResolvedValue(false),
+      metadata: { columns: [{ propertyName: 'deletedAt' }] },
+    };
+    queryRunner = {
+      manager: {
+        update: jest.fn(),
+        delete: jest.fn(),
+        save: jest.fn(),
+        create: jest.fn((_entity, data: Partial<Friendship>) => data),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FriendshipsService,
+        { provide: getRepositoryToken(Friendship), useValue: repository },
+        {
+          provide: UsersService,
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: '2' }),
+            findById: jest.fn().mockResolvedValue(
+              Object.assign(new User(), {
+                id: '1',
+                username: 'alice',
+                email: 'alice@example.com',
+              }),
+            ),
+          },
+        },
+        {
+          provide: FriendshipsGateway,
+          useValue: { notifyUser: jest.fn().mockResolvedValue(1) },
+        },
+        { provide: CacheService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(FriendshipsService);
+    gateway = module.get(FriendshipsGateway);
+    jest
+      .spyOn(service, 'runInTransaction')
+      .mockImplementation((fn) => fn(queryRunner as unknown as QueryRunner));
+  });
+
+  describe('sendRequest', () => {
+    it('should store the request on the receiver side and notify them', async () => {
+      const create = jest
+        .spyOn(service, 'create')
+        .mockImplementation((data) =>
+          Promise.resolve(row(data as Partial<Friendship>)),
+        );
+
+      const result = await service.sendRequest('1', '2');
+
+      expect(result.messageKey).toBe('friendship.FRIEND_REQUEST_SENT');
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: '2',
+          friendId: '1',
+          status: 'pending',
+          source: 'request',
+        }),
+      );
+      expect(gateway.notifyUser).toHaveBeenCalledWith(
+        '2',
+        'friends:request:received',
+        { requestId: '900', from: { id: '1', username: 'alice' } },
+      );
+    });
+
+    it('should accept a request the other user already sent', async () => {
+      const pending = row({ userId: '1', friendId: '2', status: 'pending' });
+      repository.find.mockResolvedValue([pending]);
+      repository.findOne.mockResolvedValue(pending);
+
+      const result = await service.sendRequest('1', '2');
+
+      expect(result.messageKey).toBe('friendship.FRIEND_REQUEST_ACCEPTED');
+      expect(queryRunner.manager.update).toHaveBeenCalledWith(
+        Friendship,
+        '900',
+        expect.objectContaining({ status: 'accepted' }),
+      );
+      expect(queryRunner.manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: '2',
+          friendId: '1',
+          status: 'accepted',
+        }),
+      );
+      expect(gateway.notifyUser).toHaveBeenCalledWith(
+        '2',
+        'friends:request:accepted',
+        expect.anything(),
+      );
+    });
+
+    it('should refuse requests between blocked users and to oneself', async () => {
+      repository.find.mockResolvedValue([
+        row({ userId: '2', friendId: '1', status: 'blocked' }),
+      ]);
+
+      await expect(service.sendRequest('1', '2')).rejects.toMatchObject({
+        status: 403,
+        response: { messageKey: 'friendship.FRIEND_REQUEST_NOT_ALLOWED' },
+      });
+      await expect(service.sendRequest('1', '1')).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+  });
+
+  it('should answer 404 when removing someone who is not a friend', async () => {
+    repository.delete.mockResolvedValue({ affected: 0 });
+
+    await expect(service.removeFriend('1', '2')).rejects.toMatchObject({
+      status: 404,
+      response: { messageKey: 'friendship.NOT_FRIENDS' },
+    });
+    expect(gateway.notifyUser).not.toHaveBeenCalled();
+  });
+
+  it('should tell a blocked friend only that the friendship ended', async () => {
+    repository.exists.mockResolvedValue(true);
+
+    const result = await service.blockUser('1', '2');
+
+    expect(result.messageKey).toBe('friendship.USER_BLOCKED');
+    expect(queryRunner.manager.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: '1',
+        friendId: '2',
+        status: 'blocked',
+      }),
+    );
+    expect(gateway.notifyUser).toHaveBeenCalledWith('2', 'friends:removed', {
+      userId: '1',
+    });
+  });
+
+  it('should restrict mutual friends to the other user friends', async () => {
+    const listCursor = jest
+      .spyOn(service, 'listCursor')
+      .mockResolvedValue({ result: [], metaData: {} as never });
+
+    await service.listMutualFriends('1', '3', { limit: 10 } as never);
+
+    expect(listCursor).toHaveBeenCalledWith(
+      expect.objectContaining({ mutualWith: '3' }),
+      { userId: '1', status: 'accepted' },
+      { relations: { friend: { avatar: true } } },
+    );
+
+    const where = { userId: '1' };
+    await service['onListQueryBuilt']({
+      where: [where],
+      dto: { mutualWith: '3' } as never,
+    });
+    expect((where as { friendId?: FindOperator<string> }).friendId).toEqual(
+      expect.objectContaining({
+        type: 'raw',
+        objectLiteralParameters: { mutualWith: '3', accepted: 'accepted' },
+      }),
+    );
+  });
+});
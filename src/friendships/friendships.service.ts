@@ -0,0 +1,368 @@
+import { CursorPaginationDto } from 'src/common/dto';
+import { IPaginationCursor } from 'src/common/interface';
+import { TypeOrmBaseRepository } from 'src/common/repositories/typeorm.base-repo';
+import { BaseService } from 'src/common/services';
+import {
+  FRIENDSHIP_CONSTANTS,
+  FriendshipSource,
+  FriendshipStatus,
+} from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { toPublicProfile } from 'src/users/users.utils';
+import { In, Not, Raw, Repository } from 'typeorm';
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { Friendship } from './entities/friendship.entity';
+import { FriendshipsGateway } from './friendships.gateway';
+
+/** Cursor query of the friends shared with another user */
+type MutualFriendsQuery = CursorPaginationDto & { mutualWith?: string };
+
+/**
+ * Friend requests, friendships and blocks between users
+ * See `Friendship` for how the graph is stored. Requests between users that
+ * asked each other become a friendship, blocks remove any relation and stop
+ * new requests in both directions.
+ */
+@Injectable()
+export class FriendshipsService extends BaseService<Friendship> {
+  private readonly STATUS = FRIENDSHIP_CONSTANTS.STATUS;
+  private readonly EVENTS = FRIENDSHIP_CONSTANTS.WS_EVENTS;
+
+  constructor(
+    @InjectRepository(Friendship)
+    private readonly friendshipRepository: Repository<Friendship>,
+    private readonly usersService: UsersService,
+    private readonly friendshipsGateway: FriendshipsGateway,
+    cacheService: CacheService,
+  ) {
+    super(
+      new TypeOrmBaseRepository<Friendship>(friendshipRepository),
+      {
+        entityName: 'Friendship',
+        relationsWhitelist: { friend: { avatar: true } },
+        defaultSearchField: 'friendId',
+      },
+      cacheService,
+    );
+  }
+
+  /**
+   * Send a friend request, or accept the one the other user already sent
+   * @param userId - Requesting user
+   * @param targetId - User asked to be friends
+   * @param options - Source of the request and its QR ticket, if any
+   */
+  async sendRequest(
+    userId: string,
+    targetId: string,
+    options: { source?: FriendshipSource; ticketId?: string } = {},
+  ) {
+    await this.assertCanRelate(userId, targetId);
+
+    const existing = await this.friendshipRepository.find({
+      where: [
+        { userId, friendId: targetId },
+        { userId: targetId, friendId: userId },
+      ],
+    });
+    const blocked = existing.some((row) => row.status === this.STATUS.BLOCKED);
+    if (blocked) {
+      throw new ForbiddenException({
+        messageKey: 'friendship.FRIEND_REQUEST_NOT_ALLOWED',
+      });
+    }
+    if (existing.some((row) => row.status === this.STATUS.ACCEPTED)) {
+      throw new ConflictException({ messageKey: 'friendship.ALREADY_FRIENDS' });
+    }
+    if (existing.some((row) => row.userId === userId)) {
+      return this.acceptRequest(userId, targetId);
+    }
+    if (existing.length > 0) {
+      throw new ConflictException({
+        messageKey: 'friendship.FRIEND_REQUEST_ALREADY_SENT',
+      });
+    }
+
+    const request = await this.create({
+      userId: targetId,
+      friendId: userId,
+      status: this.STATUS.PENDING,
+      source: options.source ?? FRIENDSHIP_CONSTANTS.SOURCES.REQUEST,
+      ticketId: options.ticketId ?? null,
+    });
+
+    const requester = await this.usersService.findById(userId);
+    await this.friendshipsGateway.notifyUser(
+      targetId,
+      this.EVENTS.REQUEST_RECEIVED,
+      { requestId: request.id, from: toPublicProfile(requester) },
+    );
+
+    return buildResponse({
+      messageKey: 'friendship.FRIEND_REQUEST_SENT',
+      data: request,
+    });
+  }
+
+  /**
+   * Accept a pending request, both users become friends
+   * @param userId - User who received the request
+   * @param requesterId - User who sent it
+   */
+  async acceptRequest(userId: string, requesterId: string) {
+    const request = await this.findPendingRequest(userId, requesterId);
+    const acceptedAt = new Date();
+
+    await this.runInTransaction(async (queryRunner) => {
+      await queryRunner.manager.update(Friendship, request.id, {
+        status: this.STATUS.ACCEPTED,
+        acceptedAt,
+      });
+      await queryRunner.manager.save(
+        queryRunner.manager.create(Friendship, {
+          userId: requesterId,
+          friendId: userId,
+          status: this.STATUS.ACCEPTED,
+          source: request.source,
+          ticketId: request.ticketId,
+          acceptedAt,
+        }),
+      );
+    });
+
+    const accepter = await this.usersService.findById(userId);
+    await this.friendshipsGateway.notifyUser(
+      requesterId,
+      this.EVENTS.REQUEST_ACCEPTED,
+      { friend: toPublicProfile(accepter, 'friends') },
+    );
+
+    return buildResponse({
+      messageKey: 'friendship.FRIEND_REQUEST_ACCEPTED',
+      data: { friendId: requesterId, acceptedAt },
+    });
+  }
+
+  /**
+   * Decline a pending request, the requester is not told
+   * @param userId - User who received the request
+   * @param requesterId - User who sent it
+   */
+  async declineRequest(userId: string, requesterId: string) {
+    const request = await this.findPendingRequest(userId, requesterId);
+    await this.friendshipRepository.delete(request.id);
+
+    return buildResponse({ messageKey: 'friendship.FRIEND_REQUEST_DECLINED' });
+  }
+
+  /**
+   * End a friendship on both sides
+   * @param userId - Authenticated user
+   * @param friendId - Friend to remove
+   */
+  async removeFriend(userId: string, friendId: string) {
+    // Both mirrored rows, a user is never their own friend
+    const { affected } = await this.friendshipRepository.delete({
+      userId: In([userId, friendId]),
+      friendId: In([userId, friendId]),
+      status: this.STATUS.ACCEPTED,
+    });
+    if (!affected) {
+      throw new NotFoundException({ messageKey: 'friendship.NOT_FRIENDS' });
+    }
+
+    await this.friendshipsGateway.notifyUser(friendId, this.EVENTS.REMOVED, {
+      userId,
+    });
+
+    return buildResponse({ messageKey: 'friendship.FRIEND_REMOVED' });
+  }
+
+  /**
+   * Block a user: any friendship or request between both users is removed
+   * and neither can send a new request until the block is lifted
+   * @param userId - Blocking user
+   * @param targetId - Blocked user
+   */
+  async blockUser(userId: string, targetId: string) {
+    await this.assertCanRelate(userId, targetId);
+
+    const wereFriends = await this.areFriends(userId, targetId);
+    await this.runInTransaction(async (queryRunner) => {
+      await queryRunner.manager.delete(Friendship, {
+        userId,
+        friendId: targetId,
+      });
+      // A block placed by the other user stays in place
+      await queryRunner.manager.delete(Friendship, {
+        userId: targetId,
+        friendId: userId,
+        status: Not(this.STATUS.BLOCKED),
+      });
+      await queryRunner.manager.save(
+        queryRunner.manager.create(Friendship, {
+          userId,
+          friendId: targetId,
+          status: this.STATUS.BLOCKED,
+        }),
+      );
+    });
+
+    // The blocked user only sees the friendship end
+    if (wereFriends) {
+      await this.friendshipsGateway.notifyUser(targetId, this.EVENTS.REMOVED, {
+        userId,
+      });
+    }
+
+    return buildResponse({ messageKey: 'friendship.USER_BLOCKED' });
+  }
+
+  /**
+   * Lift a block
+   * @param userId - Blocking user
+   * @param targetId - Blocked user
+   */
+  async unblockUser(userId: string, targetId: string) {
+    const { affected } = await this.friendshipRepository.delete({
+      userId,
+      friendId: targetId,
+      status: this.STATUS.BLOCKED,
+    });
+    if (!affected) {
+      throw new NotFoundException({ messageKey: 'friendship.NOT_BLOCKED' });
+    }
+
+    return buildResponse({ messageKey: 'friendship.USER_UNBLOCKED' });
+  }
+
+  /**
+   * Whether both users are friends
+   */
+  async areFriends(userId: string, otherId: string): Promise<boolean> {
+    if (userId === otherId) return false;
+    return this.friendshipRepository.exists({
+      where: { userId, friendId: otherId, status: this.STATUS.ACCEPTED },
+    });
+  }
+
+  /**
+   * Friends of a user, newest first by default
+   */
+  async listFriends(
+    userId: string,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<Friendship>> {
+    return this.listByStatus(userId, this.STATUS.ACCEPTED, dto);
+  }
+
+  /**
+   * Friend requests the user received and has not answered
+   */
+  async listRequests(
+    userId: string,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<Friendship>> {
+    return this.listByStatus(userId, this.STATUS.PENDING, dto);
+  }
+
+  /**
+   * Users the user blocked
+   */
+  async listBlocked(
+    userId: string,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<Friendship>> {
+    return this.listByStatus(userId, this.STATUS.BLOCKED, dto);
+  }
+
+  /**
+   * Friends the user shares with another user
+   * @param userId - Authenticated user
+   * @param otherId - User to compare with
+   * @param dto - Cursor pagination
+   */
+  async listMutualFriends(
+    userId: string,
+    otherId: string,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<Friendship>> {
+    const query: MutualFriendsQuery = { ...dto, mutualWith: otherId };
+    return this.listByStatus(userId, this.STATUS.ACCEPTED, query);
+  }
+
+  // ConditionBuilder only knows userId and status, the mutual friends
+  // filter is added to every branch of the built where
+  protected async onListQueryBuilt({
+    where,
+    dto,
+  }: {
+    where: unknown;
+    dto: MutualFriendsQuery;
+  }): Promise<void> {
+    const { mutualWith } = dto;
+    if (!mutualWith) return;
+
+    const friendId = Raw(
+      (alias) =>
+        `${alias} IN (SELECT "friendId" FROM "friendships" WHERE "userId" = :mutualWith AND "status" = :accepted AND "deletedAt" IS NULL)`,
+      { mutualWith, accepted: this.STATUS.ACCEPTED },
+    );
+    for (const condition of [where].flat()) {
+      Object.assign(condition as object, { friendId });
+    }
+  }
+
+  private async listByStatus(
+    userId: string,
+    status: FriendshipStatus,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<Friendship>> {
+    return this.listCursor(
+      dto,
+      { userId, status },
+      { relations: { friend: { avatar: true } } },
+    );
+  }
+
+  private async findPendingRequest(
+    userId: string,
+    requesterId: string,
+  ): Promise<Friendship> {
+    const request = await this.friendshipRepository.findOne({
+      where: { userId, friendId: requesterId, status: this.STATUS.PENDING },
+    });
+    if (!request) {
+      throw new NotFoundException({
+        messageKey: 'friendship.FRIEND_REQUEST_NOT_FOUND',
+      });
+    }
+    return request;
+  }
+
+  private async assertCanRelate(
+    userId: string,
+    targetId: string,
+  ): Promise<void> {
+    if (userId === targetId) {
+      throw new BadRequestException({
+        messageKey: 'friendship.CANNOT_BEFRIEND_SELF',
+      });
+    }
+    const target = await this.usersService.findOne({ id: targetId });
+    if (!target) {
+      throw new NotFoundException({ messageKey: 'user.USER_NOT_FOUND' });
+    }
+  }
+}
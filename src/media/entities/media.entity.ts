@@ -4,6 +4,7 @@ import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
 import { MEDIA_CONSTANTS, MediaStatus, MediaType } from 'src/shared/constants';
 import { BaseEntityCustom } from 'src/shared/entities/base.entity';
 import { User } from 'src/users/entities/user.entity';
+import { toPublicProfile } from 'src/users/users.utils';
 
 @Entity({
   name: 'media',
@@ -141,6 +142,8 @@ export class Media extends BaseEntityCustom {
     delete result.originalName;
     delete result.userId;
     delete result.metadata;
+    // The uploader is shown with their public profile only
+    if (this.user) result.user = toPublicProfile(this.user);
     return result;
   }
 
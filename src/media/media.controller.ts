@@ -15,6 +15,7 @@ import {
 } from '@nestjs/common';
 import { FilesInterceptor } from '@nestjs/platform-express';
 
+import { MediaPolicy } from './media.policy';
 import { MediaService } from './media.service';
 import {
   UpdateMediaDto,
@@ -22,8 +23,9 @@ import {
   PresignedUploadDto,
   PresignedDownloadQueryDto,
 } from './dto';
-import { Auth } from 'src/common/decorators';
+import { Auth, Authorize, RequireVerified } from 'src/common/decorators';
 import { AuthPayload } from 'src/common/interface';
+import { USER_CONSTANTS } from 'src/shared/constants';
 
 @Controller('media')
 export class MediaController {
@@ -32,6 +34,7 @@ export class MediaController {
   @Post()
   @UseInterceptors(FilesInterceptor('files'))
   @Auth()
+  @RequireVerified(USER_CONSTANTS.VERIFICATION_FEATURES.MEDIA_UPLOAD)
   async uploadMedia(
     @UploadedFiles() files: Array<Express.Multer.File>,
     @Request() req: Request & { user: AuthPayload },
@@ -50,17 +53,23 @@ export class MediaController {
 
   @Get()
   @Auth()
-  async getMedia(@Query() query: MediaQueryDto) {
-    return this.mediaService.getMedia(query);
+  async getMedia(
+    @Query() query: MediaQueryDto,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.mediaService.getMedia(query, req.user);
   }
 
   @Get(':id')
   @Auth()
+  @Authorize(MediaPolicy, 'read')
   async getMediaById(@Param('id') id: string) {
     return this.mediaService.getMediaById(id);
   }
 
   @Put(':id')
+  @Auth()
+  @Authorize(MediaPolicy, 'update')
   async updateMedia(
     @Param('id') id: string,
     @Body() updateMediaDto: UpdateMediaDto,
@@ -69,21 +78,29 @@ export class MediaController {
   }
 
   @Delete(':id')
+  @Auth()
+  @Authorize(MediaPolicy, 'delete')
   async deleteMedia(@Param('id') id: string) {
     return this.mediaService.deleteMedia(id);
   }
 
   @Post(':id/activate')
+  @Auth()
+  @Authorize(MediaPolicy, 'update')
   async activateMedia(@Param('id') id: string) {
     return this.mediaService.activateMedia(id);
   }
 
   @Post(':id/deactivate')
+  @Auth()
+  @Authorize(MediaPolicy, 'update')
   async deactivateMedia(@Param('id') id: string) {
     return this.mediaService.deactivateMedia(id);
   }
 
   @Post('presigned-upload')
+  @Auth()
+  @RequireVerified(USER_CONSTANTS.VERIFICATION_FEATURES.MEDIA_UPLOAD)
   async generatePresignedUploadUrl(
     @Body() presignedUploadDto: PresignedUploadDto,
   ) {
@@ -98,6 +115,8 @@ export class MediaController {
   }
 
   @Get(':id/presigned-download')
+  @Auth()
+  @Authorize(MediaPolicy, 'read')
   async generatePresignedDownloadUrl(
     @Param('id') id: string,
     @Query() query: PresignedDownloadQueryDto,
@@ -116,12 +135,16 @@ export class MediaController {
   }
 
   @Get(':id/metadata')
+  @Auth()
+  @Authorize(MediaPolicy, 'read')
   async getMediaFileMetadata(@Param('id') id: string) {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-return
     return this.mediaService.getMediaFileMetadata(id);
   }
 
   @Get(':id/exists')
+  @Auth()
+  @Authorize(MediaPolicy, 'read')
   async checkMediaFileExists(@Param('id') id: string) {
     return this.mediaService.checkMediaFileExists(id);
   }
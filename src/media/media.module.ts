@@ -1,16 +1,24 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule } from '@nestjs/config';
 
 import { Media } from './entities/media.entity';
 import { MediaController } from './media.controller';
+import { MediaPolicy } from './media.policy';
 import { MediaService } from './media.service';
 import { StorageModule } from 'src/shared/services/storage/storage.module';
+import { UsersModule } from 'src/users/users.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Media]), ConfigModule, StorageModule],
+  imports: [
+    TypeOrmModule.forFeature([Media]),
+    ConfigModule,
+    StorageModule,
+    // UsersModule uses MediaService for avatars
+    forwardRef(() => UsersModule),
+  ],
   controllers: [MediaController],
-  providers: [MediaService],
+  providers: [MediaService, MediaPolicy],
   exports: [MediaService],
 })
 export class MediaModule {}
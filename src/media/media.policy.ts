@@ -0,0 +1,38 @@
+import { OwnershipPolicy } from 'src/auth/policies';
+import { PermissionService } from 'src/auth/permission.service';
+import { AuthPayload } from 'src/common/interface';
+
+import { Injectable } from '@nestjs/common';
+
+import { Media } from './entities/media.entity';
+import { MediaService } from './media.service';
+
+/**
+ * Owners manage their media, moderators need `media:{action}:any`
+ * Public media can be read by any signed-in user
+ */
+@Injectable()
+export class MediaPolicy extends OwnershipPolicy<Media> {
+  protected readonly resource = 'media';
+  readonly notFoundMessageKey = 'media.MEDIA_NOT_FOUND';
+
+  constructor(
+    private readonly mediaService: MediaService,
+    permissionService: PermissionService,
+  ) {
+    super(permissionService);
+  }
+
+  load(id: string): Promise<Media | null> {
+    return this.mediaService.findOne({ id });
+  }
+
+  async can(user: AuthPayload, action: string, media: Media): Promise<boolean> {
+    if (action === 'read' && media.isPublic) return true;
+    return super.can(user, action, media);
+  }
+
+  protected getOwnerId(media: Media): string {
+    return media.userId;
+  }
+}
@@ -0,0 +1,103 @@
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { PermissionService } from 'src/auth/permission.service';
+import { AuthPayload } from 'src/common/interface';
+import { CacheService, R2Service } from 'src/shared/services';
+import { Media } from './entities/media.entity';
+import { MediaService } from './media.service';
+
+describe('MediaService', () => {
+  let service: MediaService;
+  let permissionService: { hasPermissions: jest.Mock };
+  let listOffset: jest.SpyInstance;
+  let queryBuilder: Record<
+    'setFindOptions' | 'where' | 'andWhere' | 'getManyAndCount',
+    jest.Mock
+  >;
+
+  const viewer: AuthPayload = { uid: '1', ssid: 's1', role: 'user' };
+
+  beforeEach(async () => {
+    permissionService = { hasPermissions: jest.fn().mockResolvedValue(false) };
+    queryBuilder = {
+      setFindOptions: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getManyAndCount: jest.fn().mockResolvedValue([[{ id: '7' }], 1]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MediaService,
+        {
+          provide: getRepositoryToken(Media),
+          useValue: {
+            metadata: { columns: [] },
+            createQueryBuilder: jest.fn().mockReturnValue(queryBuilder),
+          },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: R2Service, useValue: {} },
+        { provide: PermissionService, useValue: permissionService },
+        { provide: CacheService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(MediaService);
+    listOffset = jest
+      .spyOn(service, 'listOffset')
+      .mockResolvedValue({ data: [] } as never);
+  });
+
+  it("should only list the viewer's own and public media", async () => {
+    const result = await service.getMedia(
+      { page: 2, limit: 10 } as never,
+      viewer,
+    );
+
+    expect(permissionService.hasPermissions).toHaveBeenCalledWith(viewer, [
+      'media:read:any',
+    ]);
+    expect(listOffset).not.toHaveBeenCalled();
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      '(media.isPublic = true OR media.userId = :visibleTo)',
+      { visibleTo: '1' },
+    );
+    expect(queryBuilder.setFindOptions).toHaveBeenCalledWith(
+      expect.objectContaining({ skip: 10, take: 10 }),
+    );
+    expect(result).toEqual(
+      expect.objectContaining({
+        result: [{ id: '7' }],
+        metaData: expect.objectContaining({ totalRecords: 1 }) as object,
+      }),
+    );
+  });
+
+  it('should keep the visibility filter the viewer asked for', async () => {
+    await service.getMedia(
+      { page: 1, limit: 10, isPublic: false } as never,
+      viewer,
+    );
+
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'media.isPublic = :isPublic',
+      { isPublic: false },
+    );
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      '(media.isPublic = true OR media.userId = :visibleTo)',
+      { visibleTo: '1' },
+    );
+  });
+
+  it('should list all media for viewers with media:read:any', async () => {
+    permissionService.hasPermissions.mockResolvedValue(true);
+
+    await service.getMedia({ page: 1, limit: 10 } as never, viewer);
+
+    const [query] = listOffset.mock.calls[0] as [object];
+    expect(query).not.toHaveProperty('visibleTo');
+  });
+});
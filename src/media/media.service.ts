@@ -1,15 +1,27 @@
 import { Injectable, HttpException, HttpStatus, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { FindOptionsWhere, Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { Readable } from 'stream';
 
+import { PermissionService } from 'src/auth/permission.service';
 import { AdvancedPaginationDto } from 'src/common/dto';
-import { IPagination, IPaginationCursor } from 'src/common/interface';
+import {
+  AuthPayload,
+  IPagination,
+  IPaginationCursor,
+} from 'src/common/interface';
 import { TypeOrmBaseRepository } from 'src/common/repositories/typeorm.base-repo';
+import { normalizeSearchInput } from 'src/common/utils';
 import { BaseService } from 'src/common/services';
+import { ConditionBuilder, PaginationFormatter } from 'src/shared/helpers';
 import { CacheService, R2Service } from 'src/shared/services';
-import { MEDIA_CONSTANTS, MediaStatus, MediaType } from 'src/shared/constants';
+import {
+  MEDIA_CONSTANTS,
+  MediaStatus,
+  MediaType,
+  PERMISSIONS,
+} from 'src/shared/constants';
 
 import { Media } from './entities/media.entity';
 import { CreateMediaDto, UpdateMediaDto, MediaQueryDto } from './dto';
@@ -23,6 +35,7 @@ export class MediaService extends BaseService<Media> {
     private readonly mediaRepository: Repository<Media>,
     private readonly configService: ConfigService,
     private readonly r2Service: R2Service,
+    private readonly permissionService: PermissionService,
     cacheService: CacheService,
   ) {
     super(
@@ -55,10 +68,13 @@ export class MediaService extends BaseService<Media> {
           viewCount: true,
           user: {
             id: true,
+            username: true,
             name: true,
             email: true,
             role: true,
             status: true,
+            // Needed to project the uploader's public profile
+            privacySettings: true,
           },
         },
       },
@@ -200,11 +216,22 @@ export class MediaService extends BaseService<Media> {
 
   /**
    * Get media with pagination and filters using BaseService
+   * Viewers without `media:read:any` only see their own and public media
    * @param query Query parameters
+   * @param viewer Authenticated user listing the media
    * @returns Paginated media results
    */
-  async getMedia(query: MediaQueryDto): Promise<IPagination<Media>> {
+  async getMedia(
+    query: MediaQueryDto,
+    viewer: AuthPayload,
+  ): Promise<IPagination<Media>> {
     const { minSize, maxSize } = query;
+    const canReadAny = await this.permissionService.hasPermissions(viewer, [
+      PERMISSIONS.MEDIA_READ_ANY,
+    ]);
+    if (!canReadAny) {
+      return await this.listVisibleMedia(query, viewer.uid);
+    }
 
     // Build extra filters for BaseService
     const extraFilter: Record<string, unknown> = {};
@@ -227,6 +254,63 @@ export class MediaService extends BaseService<Media> {
     return await this.listOffset(query, extraFilter);
   }
 
+  /**
+   * Same page as `listOffset`, narrowed to public media and the viewer's own
+   * Not cached since the result depends on the viewer
+   * @param query Query parameters
+   * @param viewerId User listing the media
+   */
+  private async listVisibleMedia(
+    query: MediaQueryDto,
+    viewerId: string,
+  ): Promise<IPagination<Media>> {
+    const { page, limit, sortBy, order, type, isPublic, minSize, maxSize } =
+      query;
+
+    const where = ConditionBuilder.build(
+      {
+        ...query,
+        query: query.query && normalizeSearchInput(query.query),
+        fields: this.validateAndPrepareSearchFields(query.fields),
+      },
+      this.defaultSearchField,
+    ) as FindOptionsWhere<Media> | FindOptionsWhere<Media>[];
+    const safe = this.applyQueryOpts();
+
+    // `where()` brackets OR branches, `setFindOptions({ where })` does not
+    const qb = this.mediaRepository
+      .createQueryBuilder('media')
+      .setFindOptions({
+        order: this.buildOrderObject(sortBy, order),
+        relations: safe.relations,
+        select: safe.select,
+        skip: (page - 1) * limit,
+        take: limit,
+      })
+      .where(where)
+      .andWhere('(media.isPublic = true OR media.userId = :visibleTo)', {
+        visibleTo: viewerId,
+      });
+
+    // ConditionBuilder only knows the generic filters
+    if (type !== undefined) {
+      qb.andWhere('media.type = :type', { type });
+    }
+    if (isPublic !== undefined) {
+      qb.andWhere('media.isPublic = :isPublic', { isPublic });
+    }
+    if (minSize !== undefined) {
+      qb.andWhere('media.size >= :minSize', { minSize });
+    }
+    if (maxSize !== undefined) {
+      qb.andWhere('media.size <= :maxSize', { maxSize });
+    }
+
+    const [data, total] = await qb.getManyAndCount();
+
+    return PaginationFormatter.offset<Media>(data, total, page, limit);
+  }
+
   /**
    * Get media with cursor pagination using BaseService
    * @param query Query parameters with cursor pagination
@@ -508,4 +592,38 @@ export class MediaService extends BaseService<Media> {
     // Then soft delete from database
     await this.update(id, { status: 'deleted' as MediaStatus });
   }
+
+  /**
+   * Permanently delete every media of a user, files first
+   * Rows stay in place when R2 fails so the purge can be retried
+   * @param userId User ID
+   * @returns Number of media deleted
+   */
+  async purgeUserMedia(userId: string): Promise<number> {
+    const media = await this.mediaRepository.find({
+      where: { userId },
+      select: ['id', 'key', 'type'],
+      withDeleted: true,
+    });
+    if (media.length === 0) return 0;
+
+    const keys = media
+      .filter((item) => item.key)
+      .flatMap((item) =>
+        item.type === MEDIA_CONSTANTS.TYPES.IMAGE
+          ? [
+              item.key,
+              this.r2Service.generateThumbnailKey(item.key),
+              this.r2Service.generatePreviewKey(item.key),
+            ]
+          : [item.key],
+      );
+    await this.r2Service.deleteFiles(keys);
+
+    await this.mediaRepository.delete({ userId });
+    for (const item of media) {
+      await this.invalidateCacheForEntity(item.id);
+    }
+    return media.length;
+  }
 }
@@ -0,0 +1,81 @@
+import {
+  IsEmail,
+  IsIn,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ORGANIZATION_CONSTANTS, OrganizationRole } from 'src/shared/constants';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Roles that can be given to a member, ownership is not transferable */
+const ASSIGNABLE_ROLES = [
+  ORGANIZATION_CONSTANTS.ROLES.ADMIN,
+  ORGANIZATION_CONSTANTS.ROLES.MEMBER,
+];
+
+export class CreateOrganizationDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(ORGANIZATION_CONSTANTS.NAME_MAX_LENGTH)
+  name: string;
+
+  /**
+   * Lowercase letters, digits and dashes, derived from the name when omitted
+   */
+  @IsOptional()
+  @Matches(SLUG_PATTERN, { message: 'slug must be lowercase words and dashes' })
+  @MaxLength(ORGANIZATION_CONSTANTS.SLUG_MAX_LENGTH)
+  slug?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(ORGANIZATION_CONSTANTS.DESCRIPTION_MAX_LENGTH)
+  description?: string;
+}
+
+export class UpdateOrganizationDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(ORGANIZATION_CONSTANTS.NAME_MAX_LENGTH)
+  name?: string;
+
+  @IsOptional()
+  @Matches(SLUG_PATTERN, { message: 'slug must be lowercase words and dashes' })
+  @MaxLength(ORGANIZATION_CONSTANTS.SLUG_MAX_LENGTH)
+  slug?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(ORGANIZATION_CONSTANTS.DESCRIPTION_MAX_LENGTH)
+  description?: string;
+}
+
+export class UpdateMemberRoleDto {
+  @IsIn(ASSIGNABLE_ROLES)
+  role: OrganizationRole;
+}
+
+export class CreateInvitationDto {
+  /**
+   * Invite one user by email, omit for a shareable link
+   */
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsIn(ASSIGNABLE_ROLES)
+  role?: OrganizationRole;
+}
+
+export class AcceptInvitationDto {
+  @IsString()
+  @MinLength(16)
+  @MaxLength(128)
+  token: string;
+}
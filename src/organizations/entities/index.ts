@@ -0,0 +1,3 @@
+export * from './organization.entity';
+export * from './organization-member.entity';
+export * from './organization-invitation.entity';
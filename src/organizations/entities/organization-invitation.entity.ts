@@ -0,0 +1,56 @@
+import { Exclude } from 'class-transformer';
+import { ORGANIZATION_CONSTANTS, OrganizationRole } from 'src/shared/constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Invitation to an organization
+ * An invitation with an email can be accepted once, by that user only. A
+ * link invitation without email can be used by anyone who has the link
+ * until it expires or is revoked.
+ */
+@Entity({
+  name: 'organization_invitations',
+})
+@Index(['organizationId', 'revokedAt'])
+export class OrganizationInvitation extends BaseEntityCustom {
+  @Column('bigint')
+  organizationId: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  email: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: ORGANIZATION_CONSTANTS.ROLES,
+    default: ORGANIZATION_CONSTANTS.ROLES.MEMBER,
+  })
+  role: OrganizationRole;
+
+  /** SHA-256 of the token in the link, the token itself is never stored */
+  @Exclude()
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string;
+
+  @Column('bigint')
+  invitedById: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  /** Whether the invitation can still be accepted */
+  isUsable(): boolean {
+    return (
+      !this.revokedAt &&
+      !(this.email && this.acceptedAt) &&
+      new Date(this.expiresAt).getTime() > Date.now()
+    );
+  }
+}
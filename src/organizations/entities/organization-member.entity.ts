@@ -0,0 +1,62 @@
+import { instanceToPlain } from 'class-transformer';
+import {
+  ORGANIZATION_CONSTANTS,
+  OrganizationMemberSource,
+  OrganizationRole,
+} from 'src/shared/constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { User } from 'src/users/entities/user.entity';
+import { toPublicProfile } from 'src/users/users.utils';
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+
+import { Organization } from './organization.entity';
+
+@Entity({
+  name: 'organization_members',
+})
+@Index(['organizationId', 'userId'], { unique: true })
+export class OrganizationMember extends BaseEntityCustom {
+  @Column('bigint')
+  organizationId: string;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId', referencedColumnName: 'id' })
+  organization: Organization;
+
+  @Column('bigint')
+  @Index()
+  userId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId', referencedColumnName: 'id' })
+  user: User;
+
+  @Column({
+    type: 'enum',
+    enum: ORGANIZATION_CONSTANTS.ROLES,
+    default: ORGANIZATION_CONSTANTS.ROLES.MEMBER,
+  })
+  role: OrganizationRole;
+
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: ORGANIZATION_CONSTANTS.SOURCES.INVITATION,
+  })
+  source: OrganizationMemberSource;
+
+  /** Member who invited the user, null for the creator */
+  @Column('bigint', { nullable: true })
+  invitedById: string | null;
+
+  /** QR ticket the user joined with */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ticketId: string | null;
+
+  toJSON() {
+    const result = instanceToPlain(this);
+    // Members see each other's public profile only
+    if (this.user) result.user = toPublicProfile(this.user);
+    return result;
+  }
+}
@@ -0,0 +1,28 @@
+import { ORGANIZATION_CONSTANTS } from 'src/shared/constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+@Entity({
+  name: 'organizations',
+})
+export class Organization extends BaseEntityCustom {
+  @Column({ type: 'varchar', length: ORGANIZATION_CONSTANTS.NAME_MAX_LENGTH })
+  name: string;
+
+  /** URL-friendly unique name */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: ORGANIZATION_CONSTANTS.SLUG_MAX_LENGTH })
+  slug: string;
+
+  @Column({
+    type: 'varchar',
+    length: ORGANIZATION_CONSTANTS.DESCRIPTION_MAX_LENGTH,
+    nullable: true,
+  })
+  description: string | null;
+
+  /** User who created the organization */
+  @Column('bigint')
+  @Index()
+  createdById: string;
+}
@@ -0,0 +1,220 @@
+import 'reflect-metadata';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { sha256Hex } from 'src/common/utils';
+import { MailQueueIntegrationService } from 'src/shared/services/mail/mail-queue-integration.service';
+import { UsersService } from 'src/users/users.service';
+import {
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+} from './entities';
+import { OrganizationInvitationsService } from './organization-invitations.service';
+import { OrganizationMembersService } from './organization-members.service';
+
+describe('OrganizationInvitationsService', () => {
+  let service: OrganizationInvitationsService;
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+  };
+  let membersService: { assertRole: jest.Mock; addMember: jest.Mock };
+  let mail: { sendTemplateMailQueue: jest.Mock };
+
+  const invitation = (overrides: Partial<OrganizationInvitation>) =>
+    Object.assign(new OrganizationInvitation(), {
+      id: '800',
+      organizationId: '10',
+      email: null,
+      role: 'admin',
+      invitedById: '1',
+      expiresAt: new Date(Date.now() + 60_000),
+      acceptedAt: null,
+      revokedAt: null,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn((data: Partial<OrganizationInvitation>) =>
+        invitation(data),
+      ),
+      save: jest.fn((data: OrganizationInvitation) => Promise.resolve(data)),
+      findOne: jest.fn().mockResolvedValue(null),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+    };
+    membersService = {
+      assertRole: jest.fn(),
+      addMember: jest.fn(
+        (organizationId: string, userId: string, role: string) =>
+          Promise.resolve(
+            Object.assign(new OrganizationMember(), {
+              organizationId,
+              userId,
+              role,
+            }),
+          ),
+      ),
+    };
+    mail = { sendTemplateMailQueue: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationInvitationsService,
+        {
+          provide: getRepositoryToken(OrganizationInvitation),
+          useValue: repository,
+        },
+        {
+          provide: getRepositoryToken(Organization),
+          useValue: {
+            findOneByOrFail: jest
+              .fn()
+              .mockResolvedValue({ id: '10', name: 'Acme' }),
+          },
+        },
+        { provide: OrganizationMembersService, useValue: membersService },
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest
+              .fn()
+              .mockResolvedValue({ id: '2', email: 'Bob@Example.com' }),
+          },
+        },
+        { provide: MailQueueIntegrationService, useValue: mail },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'app.organizations.invitationUrl'
+                ? 'https://app.test/join'
+                : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(OrganizationInvitationsService);
+  });
+
+  describe('createInvitation', () => {
+    it('should store only the token hash and email the link', async () => {
+      membersService.assertRole.mockResolvedValue({ role: 'owner' });
+
+      const result = await service.createInvitation('1', '10', {
+        email: ' Bob@Example.com ',
+        role: 'admin',
+      });
+
+      const { token, link } = result.data as { token: string; link: string };
+      expect(link).toBe(`https://app.test/join?token=${token}`);
+      expect(repository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'bob@example.com',
+          role: 'admin',
+          tokenHash: sha256Hex(token),
+        }),
+      );
+      expect(mail.sendTemplateMailQueue).toHaveBeenCalledWith(
+        'notification',
+        { email: 'bob@example.com', name: 'bob@example.com' },
+        expect.objectContaining({ actionLink: link }),
+      );
+    });
+
+    it('should not let an admin invite another admin', async () => {
+      membersService.assertRole.mockResolvedValue({ role: 'admin' });
+
+      await expect(
+        service.createInvitation('1', '10', { role: 'admin' }),
+      ).rejects.toMatchObject({
+        status: 403,
+        response: { messageKey: 'organization.INSUFFICIENT_ORG_ROLE' },
+      });
+      expect(repository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should join with a lower requested role from a QR ticket', async () => {
+      repository.findOne.mockResolvedValue(invitation({}));
+
+      await service.acceptInvitation('2', 'token', {
+        organizationId: '10',
+        role: 'member',
+        source: 'qr_code',
+        ticketId: 'tid-1',
+      });
+
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { tokenHash: sha256Hex('token') },
+      });
+      expect(membersService.addMember).toHaveBeenCalledWith(
+        '10',
+        '2',
+        'member',
+        {
+          source: 'qr_code',
+          invitedById: '1',
+          ticketId: 'tid-1',
+        },
+      );
+    });
+
+    it('should never raise the role of the invitation', async () => {
+      repository.findOne.mockResolvedValue(invitation({ role: 'member' }));
+
+      await service.acceptInvitation('2', 'token', { role: 'admin' });
+
+      expect(membersService.addMember).toHaveBeenCalledWith(
+        '10',
+        '2',
+        'member',
+        expect.anything(),
+      );
+    });
+
+    it('should refuse an invitation of another organization or revoked', async () => {
+      repository.findOne.mockResolvedValue(invitation({}));
+      await expect(
+        service.acceptInvitation('2', 'token', { organizationId: '11' }),
+      ).rejects.toMatchObject({
+        status: 404,
+        response: { messageKey: 'organization.INVITATION_INVALID' },
+      });
+
+      repository.findOne.mockResolvedValue(
+        invitation({ revokedAt: new Date() }),
+      );
+      await expect(
+        service.acceptInvitation('2', 'token'),
+      ).rejects.toMatchObject({ status: 404 });
+      expect(membersService.addMember).not.toHaveBeenCalled();
+    });
+
+    it('should keep an email invitation for its recipient and use it once', async () => {
+      repository.findOne.mockResolvedValue(
+        invitation({ email: 'alice@example.com' }),
+      );
+      await expect(
+        service.acceptInvitation('2', 'token'),
+      ).rejects.toMatchObject({
+        status: 403,
+        response: { messageKey: 'organization.INVITATION_EMAIL_MISMATCH' },
+      });
+
+      repository.findOne.mockResolvedValue(
+        invitation({ email: 'bob@example.com' }),
+      );
+      await service.acceptInvitation('2', 'token');
+      expect(repository.update).toHaveBeenCalledWith('800', {
+        acceptedAt: expect.any(Date) as Date,
+      });
+    });
+  });
+});
@@ -0,0 +1,298 @@
+import { randomBytes } from 'crypto';
+import { maskEmail, sha256Hex } from 'src/common/utils';
+import {
+  ORGANIZATION_CONSTANTS,
+  OrganizationMemberSource,
+  OrganizationRole,
+} from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { MailQueueIntegrationService } from 'src/shared/services/mail/mail-queue-integration.service';
+import { UsersService } from 'src/users/users.service';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { CreateInvitationDto } from './dto';
+import { Organization, OrganizationInvitation } from './entities';
+import { OrganizationMembersService } from './organization-members.service';
+
+/**
+ * Invitation links and emails
+ * Only the SHA-256 of a token is stored, the link is returned once when the
+ * invitation is created. The role of an invitation is below the role of the
+ * member who created it.
+ */
+@Injectable()
+export class OrganizationInvitationsService {
+  private readonly logger = new Logger(OrganizationInvitationsService.name);
+
+  private readonly ROLES = ORGANIZATION_CONSTANTS.ROLES;
+
+  constructor(
+    @InjectRepository(OrganizationInvitation)
+    private readonly invitationRepository: Repository<OrganizationInvitation>,
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    private readonly membersService: OrganizationMembersService,
+    private readonly usersService: UsersService,
+    private readonly mailQueueIntegration: MailQueueIntegrationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create an invitation, emailed when it names an email
+   * @param actorId - Authenticated user, admin or owner
+   * @param organizationId - Organization ID
+   * @param dto - Email and role of the invitation
+   */
+  async createInvitation(
+    actorId: string,
+    organizationId: string,
+    dto: CreateInvitationDto,
+  ) {
+    const actor = await this.membersService.assertRole(
+      organizationId,
+      actorId,
+      this.ROLES.ADMIN,
+    );
+    const role = dto.role ?? this.ROLES.MEMBER;
+    if (this.rank(role) >= this.rank(actor.role)) {
+      throw new ForbiddenException({
+        messageKey: 'organization.INSUFFICIENT_ORG_ROLE',
+      });
+    }
+
+    const { ttlSeconds, invitationUrl } = this.getConfig();
+    const token = randomBytes(32).toString('base64url');
+    const invitation = await this.invitationRepository.save(
+      this.invitationRepository.create({
+        organizationId,
+        email: dto.email?.trim().toLowerCase() ?? null,
+        role,
+        tokenHash: sha256Hex(token),
+        invitedById: actorId,
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+      }),
+    );
+    const link = `${invitationUrl}?token=${token}`;
+
+    if (invitation.email) {
+      await this.sendInvitationEmail(invitation, link, ttlSeconds);
+    }
+
+    return buildResponse({
+      messageKey: 'organization.INVITATION_CREATED',
+      data: { invitation, token, link },
+    });
+  }
+
+  /**
+   * Invitations that can still be accepted, newest first
+   * @param actorId - Authenticated user, admin or owner
+   * @param organizationId - Organization ID
+   */
+  async listInvitations(actorId: string, organizationId: string) {
+    await this.membersService.assertRole(
+      organizationId,
+      actorId,
+      this.ROLES.ADMIN,
+    );
+
+    const invitations = await this.invitationRepository.find({
+      where: {
+        organizationId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+      order: { createdAt: 'DESC' },
+    });
+    return invitations.filter((invitation) => invitation.isUsable());
+  }
+
+  /**
+   * Revoke an invitation, its link stops working
+   * @param actorId - Authenticated user, admin or owner
+   * @param organizationId - Organization ID
+   * @param id - Invitation ID
+   */
+  async revokeInvitation(actorId: string, organizationId: string, id: string) {
+    await this.membersService.assertRole(
+      organizationId,
+      actorId,
+      this.ROLES.ADMIN,
+    );
+
+    const { affected } = await this.invitationRepository.update(
+      { id, organizationId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!affected) {
+      throw new NotFoundException({
+        messageKey: 'organization.INVITATION_NOT_FOUND',
+      });
+    }
+
+    return buildResponse({ messageKey: 'organization.INVITATION_REVOKED' });
+  }
+
+  /**
+   * Join the organization of an invitation
+   * An email invitation is accepted by the user with that email only. A
+   * requested role can lower the role of the invitation, never raise it.
+   * @param userId - Authenticated user
+   * @param token - Token from the invitation link
+   * @param options - Expected organization, requested role and how the
+   * invitation reached the user
+   * @throws NotFoundException when the token is unknown, used, revoked,
+   * expired or for another organization
+   * @throws ConflictException when the user is already a member
+   */
+  async acceptInvitation(
+    userId: string,
+    token: string,
+    options: {
+      organizationId?: string;
+      role?: OrganizationRole;
+      source?: OrganizationMemberSource;
+      ticketId?: string;
+    } = {},
+  ) {
+    const invitation = await this.findUsableInvitation(
+      token,
+      options.organizationId,
+    );
+
+    if (invitation.email) {
+      const user = await this.usersService.findById(userId);
+      if (user.email?.toLowerCase() !== invitation.email) {
+        throw new ForbiddenException({
+          messageKey: 'organization.INVITATION_EMAIL_MISMATCH',
+        });
+      }
+    }
+
+    const role = this.grantedRole(invitation, options.role);
+    const member = await this.membersService.addMember(
+      invitation.organizationId,
+      userId,
+      role,
+      {
+        source: options.source ?? ORGANIZATION_CONSTANTS.SOURCES.INVITATION,
+        invitedById: invitation.invitedById,
+        ticketId: options.ticketId,
+      },
+    );
+
+    if (invitation.email) {
+      await this.invitationRepository.update(invitation.id, {
+        acceptedAt: new Date(),
+      });
+    }
+
+    return buildResponse({
+      messageKey: 'organization.INVITATION_ACCEPTED',
+      data: member,
+    });
+  }
+
+  /**
+   * Role an invitation would give, a requested role can lower it
+   * @param token - Token from the invitation link
+   * @param options - Expected organization and requested role
+   * @throws NotFoundException when the token is unknown, used, revoked,
+   * expired or for another organization
+   */
+  async resolveInvitationRole(
+    token: string,
+    options: { organizationId?: string; role?: OrganizationRole } = {},
+  ): Promise<OrganizationRole> {
+    const invitation = await this.findUsableInvitation(
+      token,
+      options.organizationId,
+    );
+    return this.grantedRole(invitation, options.role);
+  }
+
+  private async findUsableInvitation(
+    token: string,
+    organizationId?: string,
+  ): Promise<OrganizationInvitation> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { tokenHash: sha256Hex(token) },
+    });
+    if (
+      !invitation?.isUsable() ||
+      (organizationId && invitation.organizationId !== organizationId)
+    ) {
+      throw new NotFoundException({
+        messageKey: 'organization.INVITATION_INVALID',
+      });
+    }
+    return invitation;
+  }
+
+  private grantedRole(
+    invitation: OrganizationInvitation,
+    role?: OrganizationRole,
+  ): OrganizationRole {
+    return role && this.rank(role) < this.rank(invitation.role)
+      ? role
+      : invitation.role;
+  }
+
+  private async sendInvitationEmail(
+    invitation: OrganizationInvitation,
+    link: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const organization = await this.organizationRepository.findOneByOrFail({
+      id: invitation.organizationId,
+    });
+    const email = invitation.email as string;
+    const days = Math.max(1, Math.floor(ttlSeconds / (24 * 60 * 60)));
+
+    await this.mailQueueIntegration.sendTemplateMailQueue(
+      'notification',
+      { email, name: email },
+      {
+        appName: process.env.APP_NAME || 'NestJS App',
+        name: email,
+        email,
+        notificationTitle: `You are invited to join ${organization.name}`,
+        notificationMessage: `You were invited to join ${organization.name} as ${invitation.role}.`,
+        actionRequired: true,
+        actionDescription: `The invitation expires in ${days} day(s).`,
+        actionLink: link,
+        actionButtonText: 'Join organization',
+        additionalInfo: [],
+        supportEmail: process.env.MAIL_SUPPORT || process.env.MAIL_FROM,
+        companyName: process.env.COMPANY_NAME || 'Your Company',
+        companyAddress: process.env.COMPANY_ADDRESS || '',
+      },
+    );
+    this.logger.log(`Organization invitation queued to ${maskEmail(email)}`);
+  }
+
+  private rank(role: OrganizationRole): number {
+    return ORGANIZATION_CONSTANTS.ROLE_RANK[role];
+  }
+
+  private getConfig() {
+    return {
+      ttlSeconds:
+        this.configService.get<number>(
+          'app.organizations.invitationTtlSeconds',
+        ) ?? 7 * 24 * 60 * 60,
+      invitationUrl:
+        this.configService.get<string>('app.organizations.invitationUrl') ??
+        'http://localhost:3000/join-organization',
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { OrganizationMember } from './entities';
+import { OrganizationMembersService } from './organization-members.service';
+
+describe('OrganizationMembersService', () => {
+  let service: OrganizationMembersService;
+  let repository: {
+    findOne: jest.Mock;
+    exists: jest.Mock;
+    delete: jest.Mock;
+    metadata: { columns: { propertyName: string }[] };
+  };
+  let usersService: { clearSessionOrganization: jest.Mock };
+
+  const member = (overrides: Partial<OrganizationMember>) =>
+    Object.assign(new OrganizationMember(), {
+      id: '700',
+      organizationId: '10',
+      ...overrides,
+    });
+
+  /** Memberships of the organization by user ID */
+  const withMembers = (members: Record<string, OrganizationMember>) =>
+    repository.findOne.mockImplementation(
+      ({ where }: { where: { userId: string } }) =>
+        Promise.resolve(members[where.userId] ?? null),
+    );
+
+  beforeEach(async () => {
+    repository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      exists: jest.fn().mockResolvedValue(false),
+      delete: jest.fn().mockResolvedValue({ affected: 1 }),
+      metadata: { columns: [{ propertyName: 'deletedAt' }] },
+    };
+    usersService = { clearSessionOrganization: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationMembersService,
+        {
+          provide: getRepositoryToken(OrganizationMember),
+          useValue: repository,
+        },
+        { provide: UsersService, useValue: usersService },
+        { provide: CacheService, useValue: { del: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(OrganizationMembersService);
+  });
+
+  it('should hide the organization from non-members', async () => {
+    await expect(service.assertRole('10', '1')).rejects.toMatchObject({
+      status: 404,
+      response: { messageKey: 'organization.ORGANIZATION_NOT_FOUND' },
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should let only the owner make someone an admin', async () => {
+      withMembers({
+        '1': member({ id: '701', userId: '1', role: 'admin' }),
+        '2': member({ id: '702', userId: '2', role: 'member' }),
+      });
+
+      await expect(
+        service.updateRole('1', '10', '2', 'admin'),
+      ).rejects.toMatchObject({
+        status: 403,
+        response: { messageKey: 'organization.INSUFFICIENT_ORG_ROLE' },
+      });
+    });
+
+    it('should let the owner promote a member', async () => {
+      withMembers({
+        '1': member({ id: '701', userId: '1', role: 'owner' }),
+        '2': member({ id: '702', userId: '2', role: 'member' }),
+      });
+      const update = jest
+        .spyOn(service, 'update')
+        .mockResolvedValue(member({ id: '702', role: 'admin' }));
+
+      const result = await service.updateRole('1', '10', '2', 'admin');
+
+      expect(result.messageKey).toBe('organization.MEMBER_ROLE_UPDATED');
+      expect(update).toHaveBeenCalledWith('702', { role: 'admin' });
+    });
+  });
+
+  describe('removeMember', () => {
+    it('should refuse to remove a member of the same role', async () => {
+      withMembers({
+        '1': member({ id: '701', userId: '1', role: 'admin' }),
+        '2': member({ id: '702', userId: '2', role: 'admin' }),
+      });
+
+      await expect(service.removeMember('1', '10', '2')).rejects.toMatchObject({
+        status: 403,
+      });
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should stop the removed member sessions acting for the organization', async () => {
+      withMembers({
+        '1': member({ id: '701', userId: '1', role: 'admin' }),
+        '2': member({ id: '702', userId: '2', role: 'member' }),
+      });
+
+      const result = await service.removeMember('1', '10', '2');
+
+      expect(result.messageKey).toBe('organization.MEMBER_REMOVED');
+      expect(repository.delete).toHaveBeenCalledWith('702');
+      expect(usersService.clearSessionOrganization).toHaveBeenCalledWith(
+        '10',
+        '2',
+      );
+    });
+  });
+
+  it('should not let the owner leave', async () => {
+    withMembers({ '1': member({ userId: '1', role: 'owner' }) });
+
+    await expect(service.leave('1', '10')).rejects.toMatchObject({
+      status: 400,
+      response: { messageKey: 'organization.OWNER_CANNOT_LEAVE' },
+    });
+  });
+
+  it('should filter the member list by organization instead of status', async () => {
+    const where = { status: 'not-removed', userId: undefined };
+
+    await service['onListQueryBuilt']({
+      where: [where],
+      dto: { organizationId: '10' } as never,
+    });
+
+    expect(where).toEqual({ userId: undefined, organizationId: '10' });
+  });
+});
@@ -0,0 +1,297 @@
+import { CursorPaginationDto } from 'src/common/dto';
+import { IPaginationCursor } from 'src/common/interface';
+import { TypeOrmBaseRepository } from 'src/common/repositories/typeorm.base-repo';
+import { BaseService } from 'src/common/services';
+import {
+  ORGANIZATION_CONSTANTS,
+  OrganizationMemberSource,
+  OrganizationRole,
+} from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { In, Repository } from 'typeorm';
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { OrganizationMember } from './entities';
+
+/** Cursor query of the members of one organization */
+type MembersQuery = CursorPaginationDto & { organizationId?: string };
+
+/**
+ * Memberships and org-scoped roles
+ * A member manages only members of a lower role: admins manage members,
+ * the owner manages everyone. Ownership is never assigned or transferred.
+ */
+@Injectable()
+export class OrganizationMembersService extends BaseService<OrganizationMember> {
+  private readonly ROLES = ORGANIZATION_CONSTANTS.ROLES;
+
+  constructor(
+    @InjectRepository(OrganizationMember)
+    private readonly memberRepository: Repository<OrganizationMember>,
+    private readonly usersService: UsersService,
+    cacheService: CacheService,
+  ) {
+    super(
+      new TypeOrmBaseRepository<OrganizationMember>(memberRepository),
+      {
+        entityName: 'OrganizationMember',
+        relationsWhitelist: { user: { avatar: true }, organization: true },
+        defaultSearchField: 'userId',
+      },
+      cacheService,
+    );
+  }
+
+  /**
+   * Membership of a user, the organization is reported as not found to
+   * non-members so its existence is not revealed
+   * @param organizationId - Organization ID
+   * @param userId - User ID
+   * @param minRole - Lowest role allowed
+   * @throws NotFoundException when the user is not a member
+   * @throws ForbiddenException when the user's role is below `minRole`
+   */
+  async assertRole(
+    organizationId: string,
+    userId: string,
+    minRole: OrganizationRole = this.ROLES.MEMBER,
+  ): Promise<OrganizationMember> {
+    const member = await this.memberRepository.findOne({
+      where: { organizationId, userId },
+    });
+    if (!member) {
+      throw new NotFoundException({
+        messageKey: 'organization.ORGANIZATION_NOT_FOUND',
+      });
+    }
+    if (this.rank(member.role) < this.rank(minRole)) {
+      throw new ForbiddenException({
+        messageKey: 'organization.INSUFFICIENT_ORG_ROLE',
+      });
+    }
+    return member;
+  }
+
+  /**
+   * IDs of the members who manage members, the owner and the admins
+   * @param organizationId - Organization ID
+   */
+  async listAdminIds(organizationId: string): Promise<string[]> {
+    const admins = await this.memberRepository.find({
+      select: { userId: true },
+      where: {
+        organizationId,
+        role: In([this.ROLES.OWNER, this.ROLES.ADMIN]),
+      },
+    });
+    return admins.map((member) => member.userId);
+  }
+
+  /**
+   * Add a user to an organization
+   * @param organizationId - Organization ID
+   * @param userId - User joining
+   * @param role - Role given to the user
+   * @param options - How the user joined
+   * @throws ConflictException when the user is already a member
+   */
+  async addMember(
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+    options: {
+      source: OrganizationMemberSource;
+      invitedById?: string | null;
+      ticketId?: string | null;
+    },
+  ): Promise<OrganizationMember> {
+    const exists = await this.memberRepository.exists({
+      where: { organizationId, userId },
+    });
+    if (exists) {
+      throw new ConflictException({
+        messageKey: 'organization.ALREADY_MEMBER',
+      });
+    }
+
+    return this.create({
+      organizationId,
+      userId,
+      role,
+      source: options.source,
+      invitedById: options.invitedById ?? null,
+      ticketId: options.ticketId ?? null,
+    });
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  async listForUser(
+    userId: string,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<OrganizationMember>> {
+    return this.listCursor(
+      dto,
+      { userId },
+      { relations: { organization: true } },
+    );
+  }
+
+  /**
+   * Members of an organization, visible to its members only
+   * @param actorId - Authenticated user
+   * @param organizationId - Organization ID
+   * @param dto - Cursor pagination
+   */
+  async listMembers(
+    actorId: string,
+    organizationId: string,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<OrganizationMember>> {
+    await this.assertRole(organizationId, actorId);
+
+    const query: MembersQuery = { ...dto, organizationId };
+    return this.listCursor(query, undefined, {
+      relations: { user: { avatar: true } },
+    });
+  }
+
+  /**
+   * Change the role of a member
+   * Only the owner can make someone an admin
+   * @param actorId - Authenticated user, admin or owner
+   * @param organizationId - Organization ID
+   * @param userId - Member whose role changes
+   * @param role - New role
+   */
+  async updateRole(
+    actorId: string,
+    organizationId: string,
+    userId: string,
+    role: OrganizationRole,
+  ) {
+    const { actor, member } = await this.resolveManaged(
+      actorId,
+      organizationId,
+      userId,
+    );
+    if (this.rank(role) >= this.rank(actor.role)) {
+      throw new ForbiddenException({
+        messageKey: 'organization.INSUFFICIENT_ORG_ROLE',
+      });
+    }
+
+    const updated = await this.update(member.id, { role });
+
+    return buildResponse({
+      messageKey: 'organization.MEMBER_ROLE_UPDATED',
+      data: updated,
+    });
+  }
+
+  /**
+   * Remove a member, their sessions stop acting for the organization
+   * @param actorId - Authenticated user, admin or owner
+   * @param organizationId - Organization ID
+   * @param userId - Member to remove
+   */
+  async removeMember(actorId: string, organizationId: string, userId: string) {
+    const { member } = await this.resolveManaged(
+      actorId,
+      organizationId,
+      userId,
+    );
+    await this.deleteMembership(member);
+
+    return buildResponse({ messageKey: 'organization.MEMBER_REMOVED' });
+  }
+
+  /**
+   * Leave an organization, the owner cannot leave their own organization
+   * @param userId - Authenticated user
+   * @param organizationId - Organization ID
+   */
+  async leave(userId: string, organizationId: string) {
+    const member = await this.assertRole(organizationId, userId);
+    if (member.role === this.ROLES.OWNER) {
+      throw new BadRequestException({
+        messageKey: 'organization.OWNER_CANNOT_LEAVE',
+      });
+    }
+    await this.deleteMembership(member);
+
+    return buildResponse({ messageKey: 'organization.ORGANIZATION_LEFT' });
+  }
+
+  // ConditionBuilder only knows userId and adds a status filter members do
+  // not have, the organization filter replaces it
+  protected async onListQueryBuilt({
+    where,
+    dto,
+  }: {
+    where: unknown;
+    dto: MembersQuery;
+  }): Promise<void> {
+    for (const condition of [where].flat() as Record<string, unknown>[]) {
+      delete condition.status;
+      if (dto.organizationId) {
+        condition.organizationId = dto.organizationId;
+      }
+    }
+  }
+
+  private async resolveManaged(
+    actorId: string,
+    organizationId: string,
+    userId: string,
+  ): Promise<{ actor: OrganizationMember; member: OrganizationMember }> {
+    if (actorId === userId) {
+      throw new BadRequestException({
+        messageKey: 'organization.CANNOT_MANAGE_SELF',
+      });
+    }
+    const actor = await this.assertRole(
+      organizationId,
+      actorId,
+      this.ROLES.ADMIN,
+    );
+    const member = await this.memberRepository.findOne({
+      where: { organizationId, userId },
+    });
+    if (!member) {
+      throw new NotFoundException({
+        messageKey: 'organization.MEMBER_NOT_FOUND',
+      });
+    }
+    if (this.rank(member.role) >= this.rank(actor.role)) {
+      throw new ForbiddenException({
+        messageKey: 'organization.INSUFFICIENT_ORG_ROLE',
+      });
+    }
+    return { actor, member };
+  }
+
+  private async deleteMembership(member: OrganizationMember): Promise<void> {
+    await this.memberRepository.delete(member.id);
+    await this.invalidateCacheForEntity(member.id);
+    await this.usersService.clearSessionOrganization(
+      member.organizationId,
+      member.userId,
+    );
+  }
+
+  private rank(role: OrganizationRole): number {
+    return ORGANIZATION_CONSTANTS.ROLE_RANK[role];
+  }
+}
@@ -0,0 +1,189 @@
+import { Auth } from 'src/common/decorators';
+import { CursorPaginationDto } from 'src/common/dto';
+import { AuthPayload } from 'src/common/interface';
+import { SnowflakeIdPipe } from 'src/common/pipes';
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+} from '@nestjs/common';
+
+import {
+  AcceptInvitationDto,
+  CreateInvitationDto,
+  CreateOrganizationDto,
+  UpdateMemberRoleDto,
+  UpdateOrganizationDto,
+} from './dto';
+import { OrganizationInvitationsService } from './organization-invitations.service';
+import { OrganizationMembersService } from './organization-members.service';
+import { OrganizationsService } from './organizations.service';
+
+@Controller('orgs')
+export class OrganizationsController {
+  constructor(
+    private readonly organizationsService: OrganizationsService,
+    private readonly membersService: OrganizationMembersService,
+    private readonly invitationsService: OrganizationInvitationsService,
+  ) {}
+
+  @Post()
+  @Auth()
+  async createOrganization(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() dto: CreateOrganizationDto,
+  ) {
+    return this.organizationsService.createOrganization(req.user.uid, dto);
+  }
+
+  @Get()
+  @Auth()
+  async listMyOrganizations(
+    @Request() req: Request & { user: AuthPayload },
+    @Query() query: CursorPaginationDto,
+  ) {
+    return this.membersService.listForUser(req.user.uid, query);
+  }
+
+  @Post('invitations/accept')
+  @Auth()
+  async acceptInvitation(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() dto: AcceptInvitationDto,
+  ) {
+    return this.invitationsService.acceptInvitation(req.user.uid, dto.token);
+  }
+
+  @Delete('active')
+  @Auth()
+  async clearActiveOrganization(
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.organizationsService.switchOrganization(
+      req.user.uid,
+      req.user.ssid,
+      null,
+    );
+  }
+
+  @Get(':id')
+  @Auth()
+  async getOrganization(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.organizationsService.getOrganization(req.user.uid, id);
+  }
+
+  @Patch(':id')
+  @Auth()
+  async updateOrganization(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+    @Body() dto: UpdateOrganizationDto,
+  ) {
+    return this.organizationsService.updateOrganization(req.user.uid, id, dto);
+  }
+
+  @Delete(':id')
+  @Auth()
+  async deleteOrganization(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.organizationsService.deleteOrganization(req.user.uid, id);
+  }
+
+  @Post(':id/switch')
+  @Auth()
+  async switchOrganization(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.organizationsService.switchOrganization(
+      req.user.uid,
+      req.user.ssid,
+      id,
+    );
+  }
+
+  @Post(':id/leave')
+  @Auth()
+  async leaveOrganization(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.membersService.leave(req.user.uid, id);
+  }
+
+  @Get(':id/members')
+  @Auth()
+  async listMembers(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+    @Query() query: CursorPaginationDto,
+  ) {
+    return this.membersService.listMembers(req.user.uid, id, query);
+  }
+
+  @Patch(':id/members/:userId')
+  @Auth()
+  async updateMemberRole(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+    @Body() dto: UpdateMemberRoleDto,
+  ) {
+    return this.membersService.updateRole(req.user.uid, id, userId, dto.role);
+  }
+
+  @Delete(':id/members/:userId')
+  @Auth()
+  async removeMember(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Param('userId', new SnowflakeIdPipe()) userId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.membersService.removeMember(req.user.uid, id, userId);
+  }
+
+  @Post(':id/invitations')
+  @Auth()
+  async createInvitation(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+    @Body() dto: CreateInvitationDto,
+  ) {
+    return this.invitationsService.createInvitation(req.user.uid, id, dto);
+  }
+
+  @Get(':id/invitations')
+  @Auth()
+  async listInvitations(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.invitationsService.listInvitations(req.user.uid, id);
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  @Auth()
+  async revokeInvitation(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Param('invitationId', new SnowflakeIdPipe()) invitationId: string,
+    @Request() req: Request & { user: AuthPayload },
+  ) {
+    return this.invitationsService.revokeInvitation(
+      req.user.uid,
+      id,
+      invitationId,
+    );
+  }
+}
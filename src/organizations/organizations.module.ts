@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { UsersModule } from 'src/users/users.module';
+import {
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+} from './entities';
+import { OrganizationInvitationsService } from './organization-invitations.service';
+import { OrganizationMembersService } from './organization-members.service';
+import { OrganizationsController } from './organizations.controller';
+import { OrganizationsService } from './organizations.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Organization,
+      OrganizationMember,
+      OrganizationInvitation,
+    ]),
+    UsersModule,
+  ],
+  controllers: [OrganizationsController],
+  providers: [
+    OrganizationsService,
+    OrganizationMembersService,
+    OrganizationInvitationsService,
+  ],
+  exports: [OrganizationInvitationsService, OrganizationMembersService],
+})
+export class OrganizationsModule {}
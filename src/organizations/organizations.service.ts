@@ -0,0 +1,204 @@
+import { randomBytes } from 'crypto';
+import { TypeOrmBaseRepository } from 'src/common/repositories/typeorm.base-repo';
+import { BaseService } from 'src/common/services';
+import { ORGANIZATION_CONSTANTS } from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import { UserSession } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { Repository } from 'typeorm';
+
+import { ConflictException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { CreateOrganizationDto, UpdateOrganizationDto } from './dto';
+import {
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+} from './entities';
+import { OrganizationMembersService } from './organization-members.service';
+
+/**
+ * Organizations and the organization a session acts for
+ * The active organization is stored on the session and signed into access
+ * tokens as `oid`, so org-scoped rate limit policies apply to the requests.
+ */
+@Injectable()
+export class OrganizationsService extends BaseService<Organization> {
+  private readonly ROLES = ORGANIZATION_CONSTANTS.ROLES;
+
+  constructor(
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    private readonly membersService: OrganizationMembersService,
+    private readonly usersService: UsersService,
+    cacheService: CacheService,
+  ) {
+    super(
+      new TypeOrmBaseRepository<Organization>(organizationRepository),
+      {
+        entityName: 'Organization',
+        defaultSearchField: 'name',
+      },
+      cacheService,
+    );
+  }
+
+  /**
+   * Create an organization, the creator becomes its owner
+   * @param userId - Authenticated user
+   * @param dto - Name, optional slug and description
+   * @throws ConflictException when the requested slug is taken
+   */
+  async createOrganization(userId: string, dto: CreateOrganizationDto) {
+    const slug = dto.slug ?? (await this.deriveSlug(dto.name));
+    await this.assertSlugAvailable(slug);
+
+    const organization = await this.runInTransaction(async (queryRunner) => {
+      const created = await queryRunner.manager.save(
+        queryRunner.manager.create(Organization, {
+          name: dto.name,
+          slug,
+          description: dto.description ?? null,
+          createdById: userId,
+        }),
+      );
+      await queryRunner.manager.save(
+        queryRunner.manager.create(OrganizationMember, {
+          organizationId: created.id,
+          userId,
+          role: this.ROLES.OWNER,
+          source: ORGANIZATION_CONSTANTS.SOURCES.CREATED,
+        }),
+      );
+      return created;
+    });
+
+    return buildResponse({
+      messageKey: 'organization.ORGANIZATION_CREATED',
+      data: organization,
+    });
+  }
+
+  /**
+   * An organization with the user's role in it
+   * @param userId - Authenticated user, member of the organization
+   * @param id - Organization ID
+   */
+  async getOrganization(userId: string, id: string) {
+    const member = await this.membersService.assertRole(id, userId);
+    const organization = await this.findById(id);
+
+    return { ...organization, role: member.role };
+  }
+
+  /**
+   * Update the name, slug or description
+   * @param userId - Authenticated user, admin or owner
+   * @param id - Organization ID
+   * @param dto - Fields to change
+   */
+  async updateOrganization(
+    userId: string,
+    id: string,
+    dto: UpdateOrganizationDto,
+  ) {
+    await this.membersService.assertRole(id, userId, this.ROLES.ADMIN);
+    const organization = await this.findById(id);
+    if (dto.slug && dto.slug !== organization.slug) {
+      await this.assertSlugAvailable(dto.slug);
+    }
+
+    const updated = await this.update(id, dto);
+
+    return buildResponse({
+      messageKey: 'organization.ORGANIZATION_UPDATED',
+      data: updated,
+    });
+  }
+
+  /**
+   * Delete an organization with its memberships and invitations
+   * @param userId - Authenticated user, owner of the organization
+   * @param id - Organization ID
+   */
+  async deleteOrganization(userId: string, id: string) {
+    await this.membersService.assertRole(id, userId, this.ROLES.OWNER);
+
+    await this.runInTransaction(async (queryRunner) => {
+      await queryRunner.manager.delete(OrganizationInvitation, {
+        organizationId: id,
+      });
+      await queryRunner.manager.delete(OrganizationMember, {
+        organizationId: id,
+      });
+      await queryRunner.manager.update(
+        UserSession,
+        { activeOrgId: id },
+        { activeOrgId: null },
+      );
+      await queryRunner.manager.softDelete(Organization, id);
+    });
+    await this.invalidateCacheForEntity(id);
+
+    return buildResponse({ messageKey: 'organization.ORGANIZATION_DELETED' });
+  }
+
+  /**
+   * Make the session act for an organization, or for none
+   * Access tokens issued from the next refresh carry the organization.
+   * @param userId - Authenticated user
+   * @param sessionId - Session of the request
+   * @param id - Organization ID the user belongs to, null to clear
+   */
+  async switchOrganization(
+    userId: string,
+    sessionId: string,
+    id: string | null,
+  ) {
+    const member = id ? await this.membersService.assertRole(id, userId) : null;
+    await this.usersService.setSessionOrganization(sessionId, id);
+
+    return buildResponse({
+      messageKey: id
+        ? 'organization.ORGANIZATION_SWITCHED'
+        : 'organization.ACTIVE_ORGANIZATION_CLEARED',
+      data: { organizationId: id, role: member?.role ?? null },
+    });
+  }
+
+  private async assertSlugAvailable(slug: string): Promise<void> {
+    // The unique index covers deleted organizations too
+    const taken = await this.organizationRepository.exists({
+      where: { slug },
+      withDeleted: true,
+    });
+    if (taken) {
+      throw new ConflictException({ messageKey: 'organization.SLUG_TAKEN' });
+    }
+  }
+
+  /**
+   * Slug from the name, with a random suffix when the plain one is taken
+   */
+  private async deriveSlug(name: string): Promise<string> {
+    const maxLength = ORGANIZATION_CONSTANTS.SLUG_MAX_LENGTH;
+    const base =
+      name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/đ/gi, 'd')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, maxLength - 7)
+        .replace(/-+$/, '') || 'org';
+
+    const taken = await this.organizationRepository.exists({
+      where: { slug: base },
+      withDeleted: true,
+    });
+    return taken ? `${base}-${randomBytes(3).toString('hex')}` : base;
+  }
+}
@@ -0,0 +1 @@
+export * from './paired-device.dto';
@@ -0,0 +1,9 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+import { PAIRED_DEVICE_CONSTANTS } from 'src/shared/constants';
+
+export class UpdatePairedDeviceDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(PAIRED_DEVICE_CONSTANTS.NAME_MAX_LENGTH)
+  name: string;
+}
@@ -0,0 +1,64 @@
+import { Exclude } from 'class-transformer';
+import {
+  PAIRED_DEVICE_CONSTANTS,
+  PairedDevicePermission,
+  PairedDeviceStatus,
+} from 'src/shared/constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * Device paired to an account by approving its PAIR QR code
+ * The device authenticates with the pairing secret it received encrypted
+ * to `publicKey`, only the secret's SHA-256 is stored.
+ */
+@Entity({
+  name: 'paired_devices',
+})
+@Index(['userId', 'status'])
+export class PairedDevice extends BaseEntityCustom {
+  @Column('bigint')
+  userId: string;
+
+  @Column({
+    type: 'enum',
+    enum: PAIRED_DEVICE_CONSTANTS.STATUS,
+    default: PAIRED_DEVICE_CONSTANTS.STATUS.ACTIVE,
+  })
+  status: PairedDeviceStatus;
+
+  @Column({ type: 'varchar', length: PAIRED_DEVICE_CONSTANTS.NAME_MAX_LENGTH })
+  name: string;
+
+  /** web, desktop, iot... as reported by the device */
+  @Column({ type: 'varchar', length: 30, default: 'unknown' })
+  deviceType: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  deviceInfo: Record<string, unknown> | null;
+
+  /** Uncompressed P-256 point of the device, base64url */
+  @Column({ type: 'text' })
+  publicKey: string;
+
+  @Exclude()
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  secretHash: string | null;
+
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  permissions: PairedDevicePermission[];
+
+  /** QR ticket the device was paired with */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ticketId: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastSeenAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  hasPermission(permission: PairedDevicePermission): boolean {
+    return this.permissions?.includes(permission) ?? false;
+  }
+}
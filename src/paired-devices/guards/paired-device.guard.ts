@@ -0,0 +1,56 @@
+import {
+  PAIRED_DEVICE_CONSTANTS,
+  PairedDevicePermission,
+} from 'src/shared/constants';
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { PairedDevice } from '../entities';
+import { PairedDevicesService } from '../paired-devices.service';
+
+export const PAIRED_DEVICE_PERMISSIONS_KEY = 'paired_device_permissions';
+
+/**
+ * Authenticates a paired device from its credential header and checks the
+ * permissions required with `@PairedDeviceAuth()`
+ * The device is kept on the request as `pairedDevice`
+ */
+@Injectable()
+export class PairedDeviceGuard implements CanActivate {
+  constructor(
+    private readonly pairedDevicesService: PairedDevicesService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<
+      Request & {
+        headers: Record<string, string | undefined>;
+        pairedDevice?: PairedDevice;
+      }
+    >();
+    const device = await this.pairedDevicesService.authenticate(
+      request.headers[PAIRED_DEVICE_CONSTANTS.CREDENTIAL_HEADER],
+    );
+
+    const required =
+      this.reflector.get<PairedDevicePermission[]>(
+        PAIRED_DEVICE_PERMISSIONS_KEY,
+        context.getHandler(),
+      ) ?? [];
+    if (!required.every((permission) => device.hasPermission(permission))) {
+      throw new ForbiddenException({
+        messageKey: 'paired-device.DEVICE_PERMISSION_DENIED',
+      });
+    }
+
+    request.pairedDevice = device;
+    return true;
+  }
+}
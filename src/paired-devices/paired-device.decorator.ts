@@ -0,0 +1,35 @@
+import { PairedDevicePermission } from 'src/shared/constants';
+
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+  UseGuards,
+} from '@nestjs/common';
+
+import { PairedDevice } from './entities';
+import {
+  PAIRED_DEVICE_PERMISSIONS_KEY,
+  PairedDeviceGuard,
+} from './guards/paired-device.guard';
+
+/**
+ * Authenticate the request as a paired device instead of a user
+ * @param permissions - Permissions the device must have been paired with
+ */
+export function PairedDeviceAuth(...permissions: PairedDevicePermission[]) {
+  return applyDecorators(
+    SetMetadata(PAIRED_DEVICE_PERMISSIONS_KEY, permissions),
+    UseGuards(PairedDeviceGuard),
+  );
+}
+
+/**
+ * Device authenticated by `@PairedDeviceAuth()`
+ */
+export const CurrentPairedDevice = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): PairedDevice =>
+    ctx.switchToHttp().getRequest<{ pairedDevice: PairedDevice }>()
+      .pairedDevice,
+);
@@ -0,0 +1,37 @@
+import { OwnershipPolicy } from 'src/auth/policies';
+import { PermissionService } from 'src/auth/permission.service';
+import { PAIRED_DEVICE_CONSTANTS } from 'src/shared/constants';
+
+import { Injectable } from '@nestjs/common';
+
+import { PairedDevice } from './entities';
+import { PairedDevicesService } from './paired-devices.service';
+
+/**
+ * Devices of other users are reported as not found, like sessions
+ */
+@Injectable()
+export class PairedDevicePolicy extends OwnershipPolicy<PairedDevice> {
+  protected readonly resource = 'paired-devices';
+  readonly notFoundMessageKey = 'paired-device.DEVICE_NOT_FOUND';
+  readonly concealDenied = true;
+
+  constructor(
+    private readonly pairedDevicesService: PairedDevicesService,
+    permissionService: PermissionService,
+  ) {
+    super(permissionService);
+  }
+
+  // Unpaired devices are kept for the history only
+  load(id: string): Promise<PairedDevice | null> {
+    return this.pairedDevicesService.findOne({
+      id,
+      status: PAIRED_DEVICE_CONSTANTS.STATUS.ACTIVE,
+    });
+  }
+
+  protected getOwnerId(device: PairedDevice): string {
+    return device.userId;
+  }
+}
@@ -0,0 +1,62 @@
+import { Auth, Authorize, AuthorizedResource } from 'src/common/decorators';
+import { CursorPaginationDto } from 'src/common/dto';
+import { AuthPayload } from 'src/common/interface';
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Patch,
+  Query,
+  Request,
+} from '@nestjs/common';
+
+import { UpdatePairedDeviceDto } from './dto';
+import { PairedDevice } from './entities';
+import {
+  CurrentPairedDevice,
+  PairedDeviceAuth,
+} from './paired-device.decorator';
+import { PairedDevicePolicy } from './paired-device.policy';
+import { PairedDevicesService } from './paired-devices.service';
+
+@Controller('paired-devices')
+export class PairedDevicesController {
+  constructor(private readonly pairedDevicesService: PairedDevicesService) {}
+
+  @Get()
+  @Auth()
+  async listDevices(
+    @Request() req: Request & { user: AuthPayload },
+    @Query() query: CursorPaginationDto,
+  ) {
+    return this.pairedDevicesService.listDevices(req.user.uid, query);
+  }
+
+  /**
+   * The paired device calling, authenticated by its credential
+   */
+  @Get('current')
+  @PairedDeviceAuth()
+  getCurrentDevice(@CurrentPairedDevice() device: PairedDevice) {
+    return device;
+  }
+
+  @Patch(':id')
+  @Auth()
+  @Authorize(PairedDevicePolicy, 'update')
+  async renameDevice(
+    @AuthorizedResource() device: PairedDevice,
+    @Body() dto: UpdatePairedDeviceDto,
+  ) {
+    return this.pairedDevicesService.renameDevice(device, dto.name);
+  }
+
+  @Delete(':id')
+  @Auth()
+  @Authorize(PairedDevicePolicy, 'delete')
+  async unpairDevice(@AuthorizedResource() device: PairedDevice) {
+    return this.pairedDevicesService.unpairDevice(device);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { UsersModule } from 'src/users/users.module';
+import { PairedDevice } from './entities';
+import { PairedDeviceGuard } from './guards/paired-device.guard';
+import { PairedDevicePolicy } from './paired-device.policy';
+import { PairedDevicesController } from './paired-devices.controller';
+import { PairedDevicesService } from './paired-devices.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PairedDevice]), UsersModule],
+  controllers: [PairedDevicesController],
+  providers: [PairedDevicesService, PairedDevicePolicy, PairedDeviceGuard],
+  exports: [PairedDevicesService],
+})
+export class PairedDevicesModule {}
@@ -0,0 +1,167 @@
+import 'reflect-metadata';
+import { createECDH } from 'crypto';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { sha256Hex } from 'src/common/utils';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { PairedDevice } from './entities';
+import { PairedDevicesService } from './paired-devices.service';
+import { openEnvelope, PairingEnvelope } from './paired-devices.utils';
+
+describe('PairedDevicesService', () => {
+  let service: PairedDevicesService;
+  let repository: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    metadata: { columns: { propertyName: string }[] };
+  };
+  let cache: { set: jest.Mock; getAndDelete: jest.Mock; del: jest.Mock };
+  let usersService: { findOne: jest.Mock };
+
+  const device = (overrides: Partial<PairedDevice>) =>
+    Object.assign(new PairedDevice(), {
+      id: '900',
+      userId: '1',
+      status: 'active',
+      secretHash: sha256Hex('secret'),
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    repository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn().mockResolvedValue(null),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      metadata: { columns: [{ propertyName: 'deletedAt' }] },
+    };
+    cache = { set: jest.fn(), getAndDelete: jest.fn(), del: jest.fn() };
+    usersService = {
+      findOne: jest.fn().mockResolvedValue({ id: '1', status: 'active' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PairedDevicesService,
+        { provide: getRepositoryToken(PairedDevice), useValue: repository },
+        { provide: UsersService, useValue: usersService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: CacheService, useValue: cache },
+      ],
+    }).compile();
+
+    service = module.get(PairedDevicesService);
+  });
+
+  describe('pairDevice', () => {
+    it('should encrypt a secret only the device can read', async () => {
+      const deviceKey = createECDH('prime256v1');
+      const publicKey = deviceKey.generateKeys().toString('base64url');
+      const create = jest
+        .spyOn(service, 'create')
+        .mockImplementation((data) =>
+          Promise.resolve(device(data as Partial<PairedDevice>)),
+        );
+
+      await service.pairDevice('1', { publicKey }, 'tid-1');
+
+      const [key, value, ttl] = cache.set.mock.calls[0] as [
+        string,
+        { deviceId: string; envelope: PairingEnvelope },
+        number,
+      ];
+      expect(key).toBe('paired-devices:envelope:tid-1');
+      expect(ttl).toBe(30);
+      const secret = openEnvelope(
+        value.envelope,
+        deviceKey.getPrivateKey(),
+        'tid-1',
+        value.deviceId,
+      );
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          publicKey,
+          permissions: ['profile:read'],
+          secretHash: sha256Hex(secret.toString('base64url')),
+        }),
+      );
+      // The envelope is bound to its device
+      expect(() =>
+        openEnvelope(value.envelope, deviceKey.getPrivateKey(), 'tid-1', '1'),
+      ).toThrow();
+    });
+
+    it('should refuse a key that is not a P-256 point', async () => {
+      await expect(
+        service.pairDevice('1', { publicKey: 'bm90LWEta2V5' }, 'tid-1'),
+      ).rejects.toMatchObject({
+        status: 400,
+        response: { messageKey: 'paired-device.INVALID_PUBLIC_KEY' },
+      });
+    });
+
+    it('should refuse a key that is already paired', async () => {
+      const publicKey = createECDH('prime256v1')
+        .generateKeys()
+        .toString('base64url');
+      repository.find.mockResolvedValue([device({ publicKey })]);
+
+      await expect(
+        service.pairDevice('1', { publicKey }, 'tid-1'),
+      ).rejects.toMatchObject({
+        status: 409,
+        response: { messageKey: 'paired-device.DEVICE_ALREADY_PAIRED' },
+      });
+    });
+  });
+
+  it('should forget the secret of an unpaired device', async () => {
+    const update = jest
+      .spyOn(service, 'update')
+      .mockResolvedValue(device({ status: 'revoked' }));
+
+    const result = await service.unpairDevice(device({}));
+
+    expect(result.messageKey).toBe('paired-device.DEVICE_UNPAIRED');
+    expect(update).toHaveBeenCalledWith('900', {
+      status: 'revoked',
+      secretHash: null,
+      revokedAt: expect.any(Date) as Date,
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should accept the credential of an active device', async () => {
+      repository.findOne.mockResolvedValue(device({}));
+
+      await expect(service.authenticate('900.secret')).resolves.toMatchObject({
+        id: '900',
+      });
+      expect(repository.findOne).toHaveBeenCalledWith({
+        where: { id: '900', status: 'active' },
+      });
+      expect(repository.update).toHaveBeenCalledWith('900', {
+        lastSeenAt: expect.any(Date) as Date,
+      });
+    });
+
+    it('should reject a wrong secret, an unknown device or a banned owner', async () => {
+      repository.findOne.mockResolvedValue(device({}));
+      await expect(service.authenticate('900.other')).rejects.toMatchObject({
+        status: 401,
+        response: { messageKey: 'paired-device.INVALID_DEVICE_CREDENTIAL' },
+      });
+
+      await expect(service.authenticate('garbage')).rejects.toMatchObject({
+        status: 401,
+      });
+
+      usersService.findOne.mockResolvedValue({ id: '1', status: 'suspended' });
+      await expect(service.authenticate('900.secret')).rejects.toMatchObject({
+        status: 401,
+      });
+    });
+  });
+});
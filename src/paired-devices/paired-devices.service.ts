@@ -0,0 +1,260 @@
+import { randomBytes } from 'crypto';
+import { CursorPaginationDto } from 'src/common/dto';
+import { IPaginationCursor } from 'src/common/interface';
+import { TypeOrmBaseRepository } from 'src/common/repositories/typeorm.base-repo';
+import { BaseService } from 'src/common/services';
+import { LruCache, sha256Hex } from 'src/common/utils';
+import {
+  PAIRED_DEVICE_CONSTANTS,
+  PairedDevicePermission,
+  QR_TTL_DEFAULTS,
+  USER_CONSTANTS,
+} from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import { UsersService } from 'src/users/users.service';
+import { Repository } from 'typeorm';
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { PairedDevice } from './entities';
+import {
+  decodeDevicePublicKey,
+  PairingEnvelope,
+  sealForDevice,
+} from './paired-devices.utils';
+
+/** Device details from the payload of a PAIR ticket */
+export interface PairDeviceInput {
+  publicKey: string;
+  name?: string;
+  deviceType?: string;
+  deviceInfo?: Record<string, unknown>;
+  permissions?: PairedDevicePermission[];
+}
+
+/**
+ * Devices paired to an account through PAIR QR codes
+ * Pairing gives the device a random secret, encrypted to the device public
+ * key and handed over with the QR grant. The device then authenticates with
+ * `X-Device-Credential: <deviceId>.<secret>` until it is unpaired.
+ */
+@Injectable()
+export class PairedDevicesService extends BaseService<PairedDevice> {
+  private readonly logger = new Logger(PairedDevicesService.name);
+
+  private readonly STATUS = PAIRED_DEVICE_CONSTANTS.STATUS;
+  private readonly RECENT_SEEN_MAX_ENTRIES = 10_000;
+
+  // Devices whose lastSeenAt this instance wrote recently
+  private readonly recentSeen = new LruCache<string, true>(
+    this.RECENT_SEEN_MAX_ENTRIES,
+    PAIRED_DEVICE_CONSTANTS.LAST_SEEN_WRITE_INTERVAL_SECONDS * 1000,
+  );
+
+  constructor(
+    @InjectRepository(PairedDevice)
+    private readonly pairedDeviceRepository: Repository<PairedDevice>,
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+    private readonly envelopeCache: CacheService,
+  ) {
+    super(
+      new TypeOrmBaseRepository<PairedDevice>(pairedDeviceRepository),
+      {
+        entityName: 'PairedDevice',
+        defaultSearchField: 'name',
+      },
+      envelopeCache,
+    );
+  }
+
+  /**
+   * Pair a device to the user who approved its QR code
+   * The encrypted pairing secret is kept until the device exchanges the
+   * grant of the ticket, see `takePairingEnvelope`.
+   * @param userId - User who approved the ticket
+   * @param input - Device public key and details
+   * @param ticketId - PAIR ticket, also the HKDF salt
+   * @throws BadRequestException for an invalid key or permission
+   * @throws ConflictException when the key is already paired or the user
+   * reached the device limit
+   */
+  async pairDevice(
+    userId: string,
+    input: PairDeviceInput,
+    ticketId: string,
+  ): Promise<PairedDevice> {
+    let publicKey: string;
+    try {
+      publicKey = decodeDevicePublicKey(input.publicKey).toString('base64url');
+    } catch {
+      throw new BadRequestException({
+        messageKey: 'paired-device.INVALID_PUBLIC_KEY',
+      });
+    }
+
+    const permissions = input.permissions ?? [
+      PAIRED_DEVICE_CONSTANTS.PERMISSIONS.PROFILE_READ,
+    ];
+    const known: string[] = Object.values(PAIRED_DEVICE_CONSTANTS.PERMISSIONS);
+    if (permissions.some((permission) => !known.includes(permission))) {
+      throw new BadRequestException({
+        messageKey: 'paired-device.INVALID_PERMISSIONS',
+      });
+    }
+
+    const active = await this.pairedDeviceRepository.find({
+      where: { userId, status: this.STATUS.ACTIVE },
+      select: ['id', 'publicKey'],
+    });
+    if (active.some((device) => device.publicKey === publicKey)) {
+      throw new ConflictException({
+        messageKey: 'paired-device.DEVICE_ALREADY_PAIRED',
+      });
+    }
+    if (active.length >= PAIRED_DEVICE_CONSTANTS.MAX_PER_USER) {
+      throw new ConflictException({
+        messageKey: 'paired-device.DEVICE_LIMIT_REACHED',
+        messageArgs: { max: PAIRED_DEVICE_CONSTANTS.MAX_PER_USER },
+      });
+    }
+
+    const secret = randomBytes(32);
+    const device = await this.create({
+      userId,
+      name: (input.name || input.deviceType || 'Device').slice(
+        0,
+        PAIRED_DEVICE_CONSTANTS.NAME_MAX_LENGTH,
+      ),
+      deviceType: input.deviceType?.slice(0, 30) || 'unknown',
+      deviceInfo: input.deviceInfo ?? null,
+      publicKey,
+      secretHash: sha256Hex(secret.toString('base64url')),
+      permissions,
+      ticketId,
+      lastSeenAt: new Date(),
+    });
+
+    const envelope = sealForDevice(publicKey, secret, ticketId, device.id);
+    await this.envelopeCache.set(
+      `${PAIRED_DEVICE_CONSTANTS.ENVELOPE_PREFIX}${ticketId}`,
+      { deviceId: device.id, envelope },
+      this.getEnvelopeTtl(),
+    );
+
+    this.logger.log(`Device ${device.id} paired to user ${userId}`);
+    return device;
+  }
+
+  /**
+   * Encrypted pairing secret of a ticket, handed out once
+   * @param ticketId - PAIR ticket whose grant was exchanged
+   */
+  async takePairingEnvelope(
+    ticketId: string,
+  ): Promise<{ deviceId: string; envelope: PairingEnvelope } | null> {
+    return this.envelopeCache.getAndDelete(
+      `${PAIRED_DEVICE_CONSTANTS.ENVELOPE_PREFIX}${ticketId}`,
+    );
+  }
+
+  /**
+   * Devices paired to the user, unpaired devices are not listed
+   */
+  async listDevices(
+    userId: string,
+    dto: CursorPaginationDto,
+  ): Promise<IPaginationCursor<PairedDevice>> {
+    return this.listCursor(dto, { userId, status: this.STATUS.ACTIVE });
+  }
+
+  /**
+   * Rename a paired device
+   * @param device - Device loaded by PairedDevicePolicy
+   * @param name - New name
+   */
+  async renameDevice(device: PairedDevice, name: string) {
+    const updated = await this.update(device.id, { name });
+
+    return buildResponse({
+      messageKey: 'paired-device.DEVICE_RENAMED',
+      data: updated,
+    });
+  }
+
+  /**
+   * Unpair a device, its credential stops working at once
+   * @param device - Device loaded by PairedDevicePolicy
+   */
+  async unpairDevice(device: PairedDevice) {
+    await this.update(device.id, {
+      status: this.STATUS.REVOKED,
+      secretHash: null,
+      revokedAt: new Date(),
+    });
+    this.recentSeen.delete(device.id);
+
+    return buildResponse({ messageKey: 'paired-device.DEVICE_UNPAIRED' });
+  }
+
+  /**
+   * Device of a credential, records that it was seen
+   * @param credential - `<deviceId>.<secret>` from the credential header
+   * @throws UnauthorizedException when the credential is malformed, unknown
+   * or revoked, or the account is no longer active
+   */
+  async authenticate(credential: string | undefined): Promise<PairedDevice> {
+    const [id, secret] = credential?.split('.') ?? [];
+    const device =
+      id && secret && /^\d+$/.test(id)
+        ? await this.pairedDeviceRepository.findOne({
+            where: { id, status: this.STATUS.ACTIVE },
+          })
+        : null;
+    if (!device || device.secretHash !== sha256Hex(secret)) {
+      throw this.invalidCredential();
+    }
+
+    // Deleted, suspended and banned accounts lose their devices like their
+    // sessions
+    const user = await this.usersService.findOne({ id: device.userId });
+    const blocked: string[] = [
+      USER_CONSTANTS.STATUS.SUSPENDED,
+      USER_CONSTANTS.STATUS.REMOVED,
+    ];
+    if (!user || blocked.includes(user.status)) {
+      throw this.invalidCredential();
+    }
+
+    if (!this.recentSeen.get(device.id)) {
+      this.recentSeen.set(device.id, true);
+      await this.pairedDeviceRepository.update(device.id, {
+        lastSeenAt: new Date(),
+      });
+    }
+    return device;
+  }
+
+  private invalidCredential(): UnauthorizedException {
+    return new UnauthorizedException({
+      messageKey: 'paired-device.INVALID_DEVICE_CREDENTIAL',
+    });
+  }
+
+  private getEnvelopeTtl(): number {
+    // The device exchanges its grant within the grant lifetime
+    return (
+      this.configService.get<number>('QR_GRANT_TTL_SECONDS') ||
+      QR_TTL_DEFAULTS.GRANT
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createECDH,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import { PAIRED_DEVICE_CONSTANTS } from 'src/shared/constants';
+
+const { ALGORITHM, CURVE, HKDF_INFO } = PAIRED_DEVICE_CONSTANTS.KEY_EXCHANGE;
+
+/**
+ * Pairing secret encrypted to a device, every field is base64url
+ */
+export interface PairingEnvelope {
+  algorithm: typeof ALGORITHM;
+  /** Ephemeral server P-256 point, uncompressed */
+  serverPublicKey: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/**
+ * Decodes a P-256 point sent by a device, base64 or base64url
+ *
+ * @param publicKey - Uncompressed or compressed point, as exported by
+ * WebCrypto `exportKey('raw')`
+ * @throws Error when the value is not a point on the curve
+ */
+export function decodeDevicePublicKey(publicKey: string): Buffer {
+  const point = Buffer.from(publicKey, 'base64url');
+  // Computing a secret validates the point
+  const probe = createECDH(CURVE);
+  probe.generateKeys();
+  probe.computeSecret(point);
+  return point;
+}
+
+/**
+ * Encrypts a secret to a device public key
+ * An ephemeral ECDH key agrees on a shared secret, HKDF-SHA256 turns it
+ * into an AES-256-GCM key bound to `salt`, and `aad` is authenticated with
+ * the ciphertext.
+ *
+ * @param devicePublicKey - Device P-256 point, base64 or base64url
+ * @param secret - Secret to deliver
+ * @param salt - HKDF salt, the QR ticket ID
+ * @param aad - Additional authenticated data, the paired device ID
+ * @throws Error when the device public key is invalid
+ */
+export function sealForDevice(
+  devicePublicKey: string,
+  secret: Buffer,
+  salt: string,
+  aad: string,
+): PairingEnvelope {
+  const ecdh = createECDH(CURVE);
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(
+    Buffer.from(devicePublicKey, 'base64url'),
+  );
+  const key = deriveKey(sharedSecret, salt);
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+
+  return {
+    algorithm: ALGORITHM,
+    serverPublicKey: serverPublicKey.toString('base64url'),
+    iv: iv.toString('base64url'),
+    ciphertext: ciphertext.toString('base64url'),
+    tag: cipher.getAuthTag().toString('base64url'),
+  };
+}
+
+/**
+ * Decrypts an envelope with the device private key, what a device does on
+ * its side
+ *
+ * @param envelope - Envelope returned with the grant
+ * @param devicePrivateKey - Device ECDH private key
+ * @param salt - QR ticket ID
+ * @param aad - Paired device ID
+ */
+export function openEnvelope(
+  envelope: PairingEnvelope,
+  devicePrivateKey: Buffer,
+  salt: string,
+  aad: string,
+): Buffer {
+  const ecdh = createECDH(CURVE);
+  ecdh.setPrivateKey(devicePrivateKey);
+  const sharedSecret = ecdh.computeSecret(
+    Buffer.from(envelope.serverPublicKey, 'base64url'),
+  );
+  const key = deriveKey(sharedSecret, salt);
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(envelope.iv, 'base64url'),
+  );
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(envelope.tag, 'base64url'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(envelope.ciphertext, 'base64url')),
+    decipher.final(),
+  ]);
+}
+
+function deriveKey(sharedSecret: Buffer, salt: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', sharedSecret, salt, HKDF_INFO, 32));
+}
@@ -1,6 +1,12 @@
-import { QR_ACTION_TYPES, QrActionType } from 'src/shared/constants';
+import { FriendshipsService } from 'src/friendships/friendships.service';
+import {
+  FRIENDSHIP_CONSTANTS,
+  QR_ACTION_TYPES,
+  QrActionType,
+} from 'src/shared/constants';
+import { UsersService } from 'src/users/users.service';
 
-import { Injectable, Logger } from '@nestjs/common';
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
 
 import { BaseQrAction, QrActionContext } from './base-action';
 
@@ -8,16 +14,24 @@ import { BaseQrAction, QrActionContext } from './base-action';
  * Add Friend Action - Handles QR-based friend requests
  *
  * This action is executed when a user approves an ADD_FRIEND QR code.
- * It creates a friendship relationship between the user who scanned
- * the QR code and the user who created it.
+ * The user who approved sends a friend request to the user named in the
+ * payload, by `friendUserId` or `friendUsername`.
  *
- * The payload should contain information about the friend to be added,
- * such as user ID, username, or other identifying information.
+ * Tickets are created without authentication, so the payload is not proof
+ * that the named user asked for it: the friend still has to accept, unless
+ * they already sent a request the other way.
  */
 @Injectable()
 export class AddFriendAction extends BaseQrAction {
   private readonly logger = new Logger(AddFriendAction.name);
 
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly friendshipsService: FriendshipsService,
+  ) {
+    super();
+  }
+
   /**
    * Returns the action type this class handles
    */
@@ -28,11 +42,8 @@ export class AddFriendAction extends BaseQrAction {
   /**
    * Executes the add friend action
    *
-   * This action:
-   * 1. Validates the friend request
-   * 2. Creates a friendship relationship
-   * 3. Sends notifications to both users
-   * 4. Logs the action for audit purposes
+   * Scanning the same code again is not an error: an existing request or
+   * friendship is left as it is.
    *
    * @param ctx - The action context containing user and friend information
    */
@@ -41,64 +52,26 @@ export class AddFriendAction extends BaseQrAction {
       `Executing ADD_FRIEND action for ticket ${ctx.tid} by user ${ctx.userId}`,
     );
 
-    // Validate that payload contains friend information
-    if (!ctx.payload?.friendUserId && !ctx.payload?.friendUsername) {
-      throw new Error(
-        'Friend user ID or username is required for ADD_FRIEND action',
-      );
+    const friend = await this.usersService.findOne(
+      ctx.payload?.friendUserId
+        ? { id: String(ctx.payload.friendUserId) }
+        : { username: String(ctx.payload?.friendUsername) },
+    );
+    if (!friend) {
+      throw new Error('Friend user not found');
     }
 
-    // TODO: Implement actual add friend logic
-    // Examples of what should be implemented:
-
-    // 1. Get friend user information
-    // const friendUser = await this.userService.findByUsernameOrId(
-    //   ctx.payload.friendUserId || ctx.payload.friendUsername
-    // );
-    // if (!friendUser) {
-    //   throw new Error('Friend user not found');
-    // }
-
-    // 2. Check if friendship already exists
-    // const existingFriendship = await this.friendshipService.findFriendship(
-    //   ctx.userId,
-    //   friendUser.id
-    // );
-    // if (existingFriendship) {
-    //   throw new Error('Friendship already exists');
-    // }
-
-    // 3. Create the friendship
-    // const friendship = await this.friendshipService.createFriendship({
-    //   userId: ctx.userId,
-    //   friendId: friendUser.id,
-    //   status: 'PENDING', // or 'ACCEPTED' depending on your flow
-    //   createdAt: new Date(ctx.approvedAt),
-    //   source: 'QR_CODE',
-    //   ticketId: ctx.tid,
-    // });
-
-    // 4. Send notification to friend
-    // await this.notificationService.sendFriendRequest({
-    //   toUserId: friendUser.id,
-    //   fromUserId: ctx.userId,
-    //   friendshipId: friendship.id,
-    //   message: `${ctx.user.username} wants to be your friend`,
-    // });
-
-    // 5. Update user's friend count
-    // await this.userService.incrementFriendCount(ctx.userId);
-    // await this.userService.incrementFriendCount(friendUser.id);
-
-    // 6. Log the action for audit
-    // await this.auditService.logFriendRequest({
-    //   userId: ctx.userId,
-    //   friendId: friendUser.id,
-    //   action: 'ADD_FRIEND',
-    //   method: 'QR_CODE',
-    //   ticketId: ctx.tid,
-    //   timestamp: ctx.approvedAt,
-    // });
+    try {
+      await this.friendshipsService.sendRequest(ctx.userId, friend.id, {
+        source: FRIENDSHIP_CONSTANTS.SOURCES.QR_CODE,
+        ticketId: ctx.tid,
+      });
+    } catch (error) {
+      if (!(error instanceof ConflictException)) throw error;
+      this.logger.debug(
+        `Users ${ctx.userId} and ${friend.id} are already connected`,
+      );
+    }
 
     this.logger.log(
       `ADD_FRIEND action completed successfully for ticket ${ctx.tid}`,
@@ -107,35 +80,17 @@ export class AddFriendAction extends BaseQrAction {
 
   /**
    * Pre-execution hook for add friend action
-   * Validates friend request requirements
+   * Validates that the payload names the friend
    */
   protected async beforeExecute(ctx: QrActionContext): Promise<void> {
     this.logger.debug(
       `Pre-execution checks for ADD_FRIEND action on ticket ${ctx.tid}`,
     );
 
-    // TODO: Add friend request validation logic
-    // Examples:
-    // - Check if user can send friend requests
-    // - Verify friend request limits
-    // - Check for blocked users
-
-    // await this.friendshipService.validateFriendRequest(ctx.userId, ctx.payload?.friendUserId);
-  }
-
-  /**
-   * Post-execution hook for add friend action
-   * Handles post-friendship creation tasks
-   */
-  protected async afterExecute(ctx: QrActionContext): Promise<void> {
-    this.logger.debug(
-      `Post-execution cleanup for ADD_FRIEND action on ticket ${ctx.tid}`,
-    );
-
-    // TODO: Add post-friendship creation logic
-    // Examples:
-    // - Update user activity metrics
-    // - Trigger friend suggestion algorithms
-    // - Send welcome messages
+    if (!ctx.payload?.friendUserId && !ctx.payload?.friendUsername) {
+      throw new Error(
+        'Friend user ID or username is required for ADD_FRIEND action',
+      );
+    }
   }
 }
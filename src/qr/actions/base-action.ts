@@ -1,4 +1,4 @@
-import { QrActionType } from 'src/shared/constants';
+import { QrActionType, QrApproval } from 'src/shared/constants';
 
 /**
  * Context object passed to QR actions during execution
@@ -15,6 +15,20 @@ export interface QrActionContext {
   webSessionId?: string;
   /** Timestamp when the action was approved */
   approvedAt: number;
+  /** Every approval of a quorum ticket, the last one by userId */
+  approvals?: QrApproval[];
+}
+
+/**
+ * Approvals a ticket needs, decided by the server rather than the client
+ */
+export interface QrApprovalPolicy {
+  /** Distinct approvals that run the action */
+  requiredApprovals: number;
+  /** Distinct users who can each run the action */
+  maxUses: number;
+  /** User IDs that may approve or reject the ticket */
+  approvers: string[];
 }
 
 /**
@@ -37,6 +51,21 @@ export abstract class BaseQrAction {
    */
   abstract execute(ctx: QrActionContext): Promise<void>;
 
+  /**
+   * Approvals a new ticket of this type needs, in place of the ones the
+   * client asked for
+   * Override this method when the payload decides who must approve
+   *
+   * @param payload - Payload of the ticket being created
+   * @returns The policy, or undefined to keep the client's
+   */
+  async approvalPolicy(
+    payload?: Record<string, any>,
+  ): Promise<QrApprovalPolicy | undefined> {
+    // Default implementation keeps the client's policy
+    return undefined;
+  }
+
   /**
    * Validates the action context before execution
    * Override this method to add custom validation logic
@@ -8,3 +8,4 @@ export * from './login.action';
 export * from './add-friend.action';
 export * from './join-org.action';
 export * from './pair.action';
+export * from './webhook.action';
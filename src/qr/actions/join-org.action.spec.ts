@@ -0,0 +1,115 @@
+import { OrganizationInvitationsService } from 'src/organizations/organization-invitations.service';
+import { OrganizationMembersService } from 'src/organizations/organization-members.service';
+
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { JoinOrgAction } from './join-org.action';
+
+describe('JoinOrgAction', () => {
+  let action: JoinOrgAction;
+  let invitationsService: {
+    resolveInvitationRole: jest.Mock;
+    acceptInvitation: jest.Mock;
+  };
+  let membersService: { listAdminIds: jest.Mock };
+
+  const payload = {
+    orgId: '10',
+    invitationToken: 'token',
+    role: 'admin',
+    userId: 'user789',
+  };
+
+  beforeEach(async () => {
+    invitationsService = {
+      resolveInvitationRole: jest.fn().mockResolvedValue('admin'),
+      acceptInvitation: jest.fn(),
+    };
+    membersService = {
+      listAdminIds: jest.fn().mockResolvedValue(['owner1', 'admin2', 'admin3']),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JoinOrgAction,
+        {
+          provide: OrganizationInvitationsService,
+          useValue: invitationsService,
+        },
+        { provide: OrganizationMembersService, useValue: membersService },
+      ],
+    }).compile();
+
+    action = module.get(JoinOrgAction);
+  });
+
+  it('should require a quorum of the organization admins to join as admin', async () => {
+    await expect(action.approvalPolicy(payload)).resolves.toEqual({
+      requiredApprovals: 2,
+      maxUses: 1,
+      approvers: ['owner1', 'admin2', 'admin3'],
+    });
+    expect(invitationsService.resolveInvitationRole).toHaveBeenCalledWith(
+      'token',
+      { organizationId: '10', role: 'admin' },
+    );
+  });
+
+  it('should keep the policy of the client for a member joining themselves', async () => {
+    invitationsService.resolveInvitationRole.mockResolvedValue('member');
+
+    await expect(
+      action.approvalPolicy({ ...payload, role: undefined, userId: undefined }),
+    ).resolves.toBeUndefined();
+    expect(membersService.listAdminIds).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a join as admin that does not name the user', async () => {
+    await expect(
+      action.approvalPolicy({ ...payload, userId: undefined }),
+    ).rejects.toMatchObject({
+      status: 400,
+      response: { messageKey: 'qr.JOIN_ORG_USER_REQUIRED' },
+    });
+  });
+
+  it('should add the named user once enough current admins approved', async () => {
+    const approvedAt = Date.now();
+
+    await action.run({
+      tid: 'tid-1',
+      userId: 'admin3',
+      payload,
+      approvedAt,
+      approvals: [
+        { userId: 'owner1', approvedAt },
+        { userId: 'admin3', approvedAt },
+      ],
+    });
+
+    expect(invitationsService.acceptInvitation).toHaveBeenCalledWith(
+      'user789',
+      'token',
+      expect.objectContaining({ organizationId: '10', ticketId: 'tid-1' }),
+    );
+  });
+
+  it('should not add the named user when an approver is no longer an admin', async () => {
+    membersService.listAdminIds.mockResolvedValue(['owner1', 'admin2']);
+    const approvedAt = Date.now();
+
+    await expect(
+      action.run({
+        tid: 'tid-1',
+        userId: 'admin3',
+        payload,
+        approvedAt,
+        approvals: [
+          { userId: 'owner1', approvedAt },
+          { userId: 'admin3', approvedAt },
+        ],
+      }),
+    ).rejects.toThrow('lacks admin approvals');
+    expect(invitationsService.acceptInvitation).not.toHaveBeenCalled();
+  });
+});
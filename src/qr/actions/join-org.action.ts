@@ -1,22 +1,51 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { BaseQrAction, QrActionContext } from './base-action';
-import { QR_ACTION_TYPES, QrActionType } from 'src/shared/constants';
+import { OrganizationInvitationsService } from 'src/organizations/organization-invitations.service';
+import { OrganizationMembersService } from 'src/organizations/organization-members.service';
+import {
+  ORGANIZATION_CONSTANTS,
+  OrganizationRole,
+  QR_ACTION_TYPES,
+  QR_MULTI_PARTY_CONFIG,
+  QrActionType,
+} from 'src/shared/constants';
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+
+import { BaseQrAction, QrActionContext, QrApprovalPolicy } from './base-action';
 
 /**
  * Join Organization Action - Handles QR-based organization membership requests
  *
  * This action is executed when a user approves a JOIN_ORG QR code.
- * It adds the user to an organization with the specified role and permissions.
+ * It adds a user to an organization with the role from the payload: the
+ * user named by the payload, otherwise the user who approved.
  *
  * The payload should contain:
  * - orgId: The organization ID to join
- * - role: The role to assign (defaults to 'MEMBER')
- * - permissions: Optional specific permissions
+ * - invitationToken: Token of an invitation link of that organization
+ * - role: Optional role, it can lower the invitation's role but not raise it
+ * - userId: User who joins, required to join as admin
+ *
+ * Tickets are created without authentication, so the invitation token is
+ * what proves an organization admin allowed the join. Joining as admin, or
+ * adding a named user, also needs the approval of a quorum of the
+ * organization's admins, which the server sets on the ticket.
  */
 @Injectable()
 export class JoinOrgAction extends BaseQrAction {
   private readonly logger = new Logger(JoinOrgAction.name);
 
+  constructor(
+    private readonly invitationsService: OrganizationInvitationsService,
+    private readonly membersService: OrganizationMembersService,
+  ) {
+    super();
+  }
+
   /**
    * Returns the action type this class handles
    */
@@ -24,109 +53,83 @@ export class JoinOrgAction extends BaseQrAction {
     return QR_ACTION_TYPES.JOIN_ORG;
   }
 
+  /**
+   * Quorum of the organization's admins, for a join as admin or of a named
+   * user
+   * The user who joins cannot approve their own join.
+   *
+   * @param payload - Payload of the ticket being created
+   * @throws NotFoundException when the invitation cannot be used
+   * @throws BadRequestException when a join as admin does not name the user
+   */
+  async approvalPolicy(
+    payload?: Record<string, any>,
+  ): Promise<QrApprovalPolicy | undefined> {
+    if (!payload?.orgId || !payload.invitationToken) {
+      return undefined;
+    }
+
+    const orgId = String(payload.orgId);
+    const role = await this.invitationsService.resolveInvitationRole(
+      String(payload.invitationToken),
+      {
+        organizationId: orgId,
+        role: payload.role as OrganizationRole | undefined,
+      },
+    );
+    if (role === ORGANIZATION_CONSTANTS.ROLES.MEMBER && !payload.userId) {
+      return undefined;
+    }
+    if (!payload.userId) {
+      throw new BadRequestException({
+        messageKey: 'qr.JOIN_ORG_USER_REQUIRED',
+      });
+    }
+
+    const approvers = await this.listAdminApprovers(
+      orgId,
+      String(payload.userId),
+    );
+    return {
+      requiredApprovals: this.adminQuorum(approvers),
+      maxUses: 1,
+      approvers,
+    };
+  }
+
   /**
    * Executes the join organization action
    *
-   * This action:
-   * 1. Validates the organization join request
-   * 2. Checks user eligibility and permissions
-   * 3. Creates organization membership
-   * 4. Assigns appropriate role and permissions
-   * 5. Sends notifications to organization admins
-   * 6. Logs the action for audit purposes
+   * Scanning the same code again is not an error: an existing membership is
+   * left as it is.
    *
    * @param ctx - The action context containing user and organization information
    */
   async execute(ctx: QrActionContext): Promise<void> {
+    const userId = this.joiningUserId(ctx);
     this.logger.log(
-      `Executing JOIN_ORG action for ticket ${ctx.tid} by user ${ctx.userId}`,
+      `Executing JOIN_ORG action for ticket ${ctx.tid}, user ${userId} joins`,
     );
 
-    // Validate that payload contains organization information
-    if (!ctx.payload?.orgId) {
-      throw new Error('Organization ID is required for JOIN_ORG action');
+    const orgId = String(ctx.payload?.orgId);
+    try {
+      await this.invitationsService.acceptInvitation(
+        userId,
+        String(ctx.payload?.invitationToken),
+        {
+          organizationId: orgId,
+          role: ctx.payload?.role as OrganizationRole | undefined,
+          source: ORGANIZATION_CONSTANTS.SOURCES.QR_CODE,
+          ticketId: ctx.tid,
+        },
+      );
+    } catch (error) {
+      if (!(error instanceof ConflictException)) throw error;
+      this.logger.debug(
+        `User ${userId} is already a member of organization ${orgId}`,
+      );
     }
 
-    // const orgId = ctx.payload.orgId;
-    // const role = ctx.payload.role || 'MEMBER';
-    // const permissions = ctx.payload.permissions || [];
-
-    // TODO: Implement actual join organization logic
-    // Examples of what should be implemented:
-
-    // 1. Get organization information
-    // const organization = await this.organizationService.findById(orgId);
-    // if (!organization) {
-    //   throw new Error('Organization not found');
-    // }
-
-    // 2. Check if user is already a member
-    // const existingMembership = await this.organizationService.findMembership(
-    //   orgId,
-    //   ctx.userId
-    // );
-    // if (existingMembership) {
-    //   throw new Error('User is already a member of this organization');
-    // }
-
-    // 3. Validate user eligibility
-    // const eligibility = await this.organizationService.checkJoinEligibility(
-    //   orgId,
-    //   ctx.userId,
-    //   role
-    // );
-    // if (!eligibility.canJoin) {
-    //   throw new Error(`User cannot join organization: ${eligibility.reason}`);
-    // }
-
-    // 4. Create organization membership
-    // const membership = await this.organizationService.createMembership({
-    //   organizationId: orgId,
-    //   userId: ctx.userId,
-    //   role: role,
-    //   permissions: permissions,
-    //   status: 'ACTIVE',
-    //   joinedAt: new Date(ctx.approvedAt),
-    //   source: 'QR_CODE',
-    //   ticketId: ctx.tid,
-    //   invitedBy: ctx.payload.invitedBy, // if applicable
-    // });
-
-    // 5. Send notification to organization admins
-    // const admins = await this.organizationService.findAdmins(orgId);
-    // for (const admin of admins) {
-    //   await this.notificationService.sendOrgJoinNotification({
-    //     toUserId: admin.userId,
-    //     organizationId: orgId,
-    //     newMemberId: ctx.userId,
-    //     role: role,
-    //     message: `New member joined: ${ctx.user.username} (${role})`,
-    //   });
-    // }
-
-    // 6. Send welcome notification to new member
-    // await this.notificationService.sendWelcomeToOrg({
-    //   toUserId: ctx.userId,
-    //   organizationId: orgId,
-    //   organizationName: organization.name,
-    //   role: role,
-    //   message: `Welcome to ${organization.name}!`,
-    // });
-
-    // 7. Update organization member count
-    // await this.organizationService.incrementMemberCount(orgId);
-
-    // 8. Log the action for audit
-    // await this.auditService.logOrganizationJoin({
-    //   userId: ctx.userId,
-    //   organizationId: orgId,
-    //   action: 'JOIN_ORG',
-    //   method: 'QR_CODE',
-    //   role: role,
-    //   ticketId: ctx.tid,
-    //   timestamp: ctx.approvedAt,
-    // });
-
     this.logger.log(
       `JOIN_ORG action completed successfully for ticket ${ctx.tid}`,
     );
@@ -134,36 +137,78 @@ export class JoinOrgAction extends BaseQrAction {
 
   /**
    * Pre-execution hook for join organization action
-   * Validates organization join requirements
+   * Validates that the payload names the organization, invitation and role,
+   * and that a named user's join is approved by enough current admins
    */
   protected async beforeExecute(ctx: QrActionContext): Promise<void> {
     this.logger.debug(
       `Pre-execution checks for JOIN_ORG action on ticket ${ctx.tid}`,
     );
 
-    // TODO: Add organization join validation logic
-    // Examples:
-    // - Check if user can join organizations
-    // - Verify organization is accepting new members
-    // - Check for any pending requirements
+    if (!ctx.payload?.orgId) {
+      throw new Error('Organization ID is required for JOIN_ORG action');
+    }
+    if (!ctx.payload.invitationToken) {
+      throw new Error('Invitation token is required for JOIN_ORG action');
+    }
+    const roles: unknown[] = [
+      ORGANIZATION_CONSTANTS.ROLES.ADMIN,
+      ORGANIZATION_CONSTANTS.ROLES.MEMBER,
+    ];
+    if (ctx.payload.role !== undefined && !roles.includes(ctx.payload.role)) {
+      throw new Error(`Invalid role for JOIN_ORG action: ${ctx.payload.role}`);
+    }
+
+    if (ctx.payload.userId === undefined) {
+      return;
+    }
+    if (typeof ctx.payload.userId !== 'string' || !ctx.payload.userId) {
+      throw new Error('Invalid user ID for JOIN_ORG action');
+    }
+    // Admins can change while the ticket waits, count only current ones
+    const approvers = await this.listAdminApprovers(
+      String(ctx.payload.orgId),
+      ctx.payload.userId,
+    );
+    const approvals = (ctx.approvals ?? []).filter((approval) =>
+      approvers.includes(approval.userId),
+    );
+    if (
+      approvers.length === 0 ||
+      approvals.length < this.adminQuorum(approvers)
+    ) {
+      throw new Error(
+        `JOIN_ORG for user ${ctx.payload.userId} lacks admin approvals`,
+      );
+    }
+  }
+
+  /**
+   * The user named by the payload, otherwise the user who approved
+   */
+  private joiningUserId(ctx: QrActionContext): string {
+    return ctx.payload?.userId ? String(ctx.payload.userId) : ctx.userId;
+  }
 
-    // await this.organizationService.validateJoinRequest(ctx.userId, ctx.payload?.orgId);
+  /**
+   * Owner and admins of the organization, except the user who joins
+   */
+  private async listAdminApprovers(
+    orgId: string,
+    userId: string,
+  ): Promise<string[]> {
+    const adminIds = await this.membersService.listAdminIds(orgId);
+    return adminIds.filter((adminId) => adminId !== userId);
   }
 
   /**
-   * Post-execution hook for join organization action
-   * Handles post-membership creation tasks
+   * Approvals needed from the given admins, all of them when there are fewer
+   * than the quorum
    */
-  protected async afterExecute(ctx: QrActionContext): Promise<void> {
-    this.logger.debug(
-      `Post-execution cleanup for JOIN_ORG action on ticket ${ctx.tid}`,
+  private adminQuorum(approvers: string[]): number {
+    return Math.max(
+      1,
+      Math.min(QR_MULTI_PARTY_CONFIG.ADMIN_JOIN_QUORUM, approvers.length),
     );
-
-    // TODO: Add post-membership creation logic
-    // Examples:
-    // - Update user activity metrics
-    // - Trigger onboarding workflows
-    // - Send welcome materials
-    // - Update organization analytics
   }
 }
@@ -1,24 +1,38 @@
+import { PairedDevicesService } from 'src/paired-devices/paired-devices.service';
+import {
+  PairedDevicePermission,
+  QR_ACTION_TYPES,
+  QrActionType,
+} from 'src/shared/constants';
+
 import { Injectable, Logger } from '@nestjs/common';
+
 import { BaseQrAction, QrActionContext } from './base-action';
-import { QR_ACTION_TYPES, QrActionType } from 'src/shared/constants';
 
 /**
  * Device Pairing Action - Handles QR-based device pairing requests
  *
  * This action is executed when a user approves a PAIR QR code.
- * It establishes a secure connection between the user's mobile device
- * and another device (web, desktop, IoT, etc.).
+ * The device that showed the code (web, desktop, IoT, etc.) is paired to
+ * the user who approved it.
  *
  * The payload should contain:
- * - deviceInfo: Information about the device to pair with
- * - pubKey: Public key for secure communication
- * - deviceType: Type of device (web, desktop, iot, etc.)
+ * - pubKey: Device ECDH P-256 public key, raw point in base64url
+ * - deviceInfo: Optional information about the device, `name` names it
+ * - deviceType: Optional type of device (web, desktop, iot, etc.)
  * - permissions: Optional permissions for the paired device
+ *
+ * The pairing secret is encrypted to `pubKey` and handed to the device
+ * when it exchanges the grant of the ticket.
  */
 @Injectable()
 export class PairAction extends BaseQrAction {
   private readonly logger = new Logger(PairAction.name);
 
+  constructor(private readonly pairedDevicesService: PairedDevicesService) {
+    super();
+  }
+
   /**
    * Returns the action type this class handles
    */
@@ -29,14 +43,6 @@ export class PairAction extends BaseQrAction {
   /**
    * Executes the device pairing action
    *
-   * This action:
-   * 1. Validates the pairing request
-   * 2. Establishes secure device connection
-   * 3. Exchanges encryption keys
-   * 4. Sets up device permissions
-   * 5. Sends pairing confirmation
-   * 6. Logs the action for audit purposes
-   *
    * @param ctx - The action context containing user and device information
    */
   async execute(ctx: QrActionContext): Promise<void> {
@@ -44,125 +50,55 @@ export class PairAction extends BaseQrAction {
       `Executing PAIR action for ticket ${ctx.tid} by user ${ctx.userId}`,
     );
 
-    // Validate that payload contains device information
-    if (!ctx.payload?.deviceInfo && !ctx.payload?.pubKey) {
-      throw new Error(
-        'Device information or public key is required for PAIR action',
-      );
-    }
-
-    // const deviceInfo = ctx.payload.deviceInfo || {};
-    // const pubKey = ctx.payload.pubKey;
-    // const deviceType = ctx.payload.deviceType || 'unknown';
-    // const permissions = ctx.payload.permissions || [];
-
-    // TODO: Implement actual device pairing logic
-    // Examples of what should be implemented:
-
-    // 1. Validate device information
-    // const deviceValidation = await this.deviceService.validateDeviceInfo(deviceInfo);
-    // if (!deviceValidation.isValid) {
-    //   throw new Error(`Invalid device information: ${deviceValidation.reason}`);
-    // }
-
-    // 2. Check if device is already paired
-    // const existingPairing = await this.deviceService.findPairing(
-    //   ctx.userId,
-    //   deviceInfo.deviceId || pubKey
-    // );
-    // if (existingPairing) {
-    //   throw new Error('Device is already paired with this user');
-    // }
-
-    // 3. Generate pairing key and establish secure connection
-    // const pairingKey = await this.cryptoService.generatePairingKey();
-    // const encryptedPairingKey = await this.cryptoService.encryptWithPublicKey(
-    //   pairingKey,
-    //   pubKey
-    // );
-
-    // 4. Create device pairing record
-    // const pairing = await this.deviceService.createPairing({
-    //   userId: ctx.userId,
-    //   deviceId: deviceInfo.deviceId || pubKey,
-    //   deviceType: deviceType,
-    //   deviceInfo: deviceInfo,
-    //   publicKey: pubKey,
-    //   pairingKey: pairingKey,
-    //   permissions: permissions,
-    //   status: 'ACTIVE',
-    //   pairedAt: new Date(ctx.approvedAt),
-    //   source: 'QR_CODE',
-    //   ticketId: ctx.tid,
-    //   lastSeen: new Date(ctx.approvedAt),
-    // });
-
-    // 5. Send pairing confirmation to the device
-    // await this.deviceService.sendPairingConfirmation({
-    //   deviceId: pairing.deviceId,
-    //   pairingId: pairing.id,
-    //   encryptedPairingKey: encryptedPairingKey,
-    //   userId: ctx.userId,
-    //   permissions: permissions,
-    // });
-
-    // 6. Send notification to user about successful pairing
-    // await this.notificationService.sendDevicePairingNotification({
-    //   toUserId: ctx.userId,
-    //   deviceType: deviceType,
-    //   deviceName: deviceInfo.name || 'Unknown Device',
-    //   message: `Successfully paired with ${deviceInfo.name || 'device'}`,
-    // });
-
-    // 7. Update user's device count
-    // await this.userService.incrementDeviceCount(ctx.userId);
-
-    // 8. Log the action for audit
-    // await this.auditService.logDevicePairing({
-    //   userId: ctx.userId,
-    //   deviceId: pairing.deviceId,
-    //   action: 'PAIR',
-    //   method: 'QR_CODE',
-    //   deviceType: deviceType,
-    //   ticketId: ctx.tid,
-    //   timestamp: ctx.approvedAt,
-    // });
+    const payload = ctx.payload ?? {};
+    const deviceInfo = payload.deviceInfo as
+      | Record<string, unknown>
+      | undefined;
+    await this.pairedDevicesService.pairDevice(
+      ctx.userId,
+      {
+        publicKey: String(payload.pubKey),
+        name:
+          typeof deviceInfo?.name === 'string' ? deviceInfo.name : undefined,
+        deviceType:
+          typeof payload.deviceType === 'string'
+            ? payload.deviceType
+            : undefined,
+        deviceInfo,
+        permissions: payload.permissions as
+          | PairedDevicePermission[]
+          | undefined,
+      },
+      ctx.tid,
+    );
 
     this.logger.log(`PAIR action completed successfully for ticket ${ctx.tid}`);
   }
 
   /**
    * Pre-execution hook for device pairing action
-   * Validates pairing requirements
+   * Validates that the payload carries the device public key
    */
   protected async beforeExecute(ctx: QrActionContext): Promise<void> {
     this.logger.debug(
       `Pre-execution checks for PAIR action on ticket ${ctx.tid}`,
     );
 
-    // TODO: Add device pairing validation logic
-    // Examples:
-    // - Check if user can pair devices
-    // - Verify device pairing limits
-    // - Check for security requirements
-
-    // await this.deviceService.validatePairingRequest(ctx.userId, ctx.payload?.deviceInfo);
-  }
-
-  /**
-   * Post-execution hook for device pairing action
-   * Handles post-pairing tasks
-   */
-  protected async afterExecute(ctx: QrActionContext): Promise<void> {
-    this.logger.debug(
-      `Post-execution cleanup for PAIR action on ticket ${ctx.tid}`,
-    );
-
-    // TODO: Add post-pairing logic
-    // Examples:
-    // - Update device activity metrics
-    // - Trigger device sync workflows
-    // - Send welcome materials
-    // - Update security analytics
+    if (typeof ctx.payload?.pubKey !== 'string') {
+      throw new Error('Device public key is required for PAIR action');
+    }
+    if (
+      ctx.payload.deviceInfo !== undefined &&
+      (typeof ctx.payload.deviceInfo !== 'object' ||
+        Array.isArray(ctx.payload.deviceInfo))
+    ) {
+      throw new Error('Device information must be an object');
+    }
+    if (
+      ctx.payload.permissions !== undefined &&
+      !Array.isArray(ctx.payload.permissions)
+    ) {
+      throw new Error('Permissions must be an array');
+    }
   }
 }
@@ -0,0 +1,75 @@
+import { createHmac } from 'crypto';
+import { QR_CUSTOM_ACTION_CONFIG, QrActionType } from 'src/shared/constants';
+import { AxiosService } from 'src/shared/services';
+
+import { Logger } from '@nestjs/common';
+
+import { BaseQrAction, QrActionContext } from './base-action';
+
+/** What a custom action type needs to call its webhook */
+export interface QrWebhookTarget {
+  type: QrActionType;
+  webhookUrl: string;
+  /** Signing secret, already unsealed */
+  secret: string;
+}
+
+/**
+ * Webhook Action - Executes a custom action type by calling its webhook
+ *
+ * Not a provider: QrActionRegistryService builds one per registered type.
+ * The approval is POSTed as JSON and signed in the `X-QR-Signature` header
+ * with `t=<unix seconds>,v1=<HMAC-SHA256 hex of "<t>.<body>">`. A timeout
+ * or a non-2xx response fails the approval, like any failing action.
+ */
+export class WebhookQrAction extends BaseQrAction {
+  private readonly logger = new Logger(WebhookQrAction.name);
+
+  constructor(
+    private readonly target: QrWebhookTarget,
+    private readonly axiosService: AxiosService,
+  ) {
+    super();
+  }
+
+  /**
+   * Returns the action type this class handles
+   */
+  type(): QrActionType {
+    return this.target.type;
+  }
+
+  /**
+   * Sends the approved ticket to the webhook
+   *
+   * @param ctx - The action context containing user and ticket information
+   */
+  async execute(ctx: QrActionContext): Promise<void> {
+    const body = JSON.stringify({
+      tid: ctx.tid,
+      type: this.target.type,
+      userId: ctx.userId,
+      payload: ctx.payload ?? {},
+      webSessionId: ctx.webSessionId,
+      approvedAt: ctx.approvedAt,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = createHmac('sha256', this.target.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    await this.axiosService.post(this.target.webhookUrl, body, {
+      timeout: QR_CUSTOM_ACTION_CONFIG.WEBHOOK_TIMEOUT_MS,
+      headers: {
+        'Content-Type': 'application/json',
+        [QR_CUSTOM_ACTION_CONFIG.SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+      },
+      // Redirects would forward the signed body to another host
+      maxRedirects: 0,
+    });
+
+    this.logger.log(
+      `${this.target.type} webhook accepted the approval of ticket ${ctx.tid}`,
+    );
+  }
+}
@@ -1,11 +1,21 @@
 import {
-  IsEnum,
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsInt,
   IsObject,
   IsOptional,
   IsString,
+  Matches,
+  Max,
   MaxLength,
+  Min,
 } from 'class-validator';
-import { QR_ACTION_TYPES, QrActionType } from 'src/shared/constants';
+import {
+  QR_CUSTOM_ACTION_CONFIG,
+  QR_MULTI_PARTY_CONFIG,
+  QrActionType,
+} from 'src/shared/constants';
 
 /**
  * DTO for creating a new QR ticket
@@ -14,10 +24,11 @@ import { QR_ACTION_TYPES, QrActionType } from 'src/shared/constants';
 export class CreateTicketDto {
   /**
    * Type of action this QR ticket represents
-   * Must be one of the predefined QrActionType values
+   * A built-in type or a custom one registered by an admin, QrService checks
+   * it against the registry
    */
-  @IsEnum(QR_ACTION_TYPES, {
-    message: 'Action type must be one of: LOGIN, ADD_FRIEND, JOIN_ORG, PAIR',
+  @Matches(QR_CUSTOM_ACTION_CONFIG.TYPE_PATTERN, {
+    message: 'Action type must be an uppercase action type name',
   })
   type: QrActionType;
 
@@ -25,8 +36,10 @@ export class CreateTicketDto {
    * Optional payload data specific to the action type
    * For LOGIN: usually empty or contains session metadata
    * For ADD_FRIEND: may contain friend's user ID or username
-   * For JOIN_ORG: may contain organization ID and role
-   * For PAIR: may contain device information or public key
+   * For JOIN_ORG: organization ID, invitation token and optional role
+   * For PAIR: device ECDH P-256 public key (pubKey), device information
+   * and optional permissions
+   * For custom types: whatever their JSON schema describes
    */
   @IsOptional()
   @IsObject({ message: 'Payload must be a valid object' })
@@ -40,4 +53,41 @@ export class CreateTicketDto {
   @IsString({ message: 'Web session ID must be a string' })
   @MaxLength(255, { message: 'Web session ID must not exceed 255 characters' })
   webSessionId?: string;
+
+  /**
+   * Distinct approvals needed before the action runs, once
+   * For example 2 for a JOIN_ORG that 2 of 3 admins must approve. Cannot be
+   * combined with maxUses
+   */
+  @IsOptional()
+  @IsInt({ message: 'Required approvals must be an integer' })
+  @Min(1, { message: 'Required approvals must be at least 1' })
+  @Max(QR_MULTI_PARTY_CONFIG.MAX_APPROVERS, {
+    message: `Required approvals must not exceed ${QR_MULTI_PARTY_CONFIG.MAX_APPROVERS}`,
+  })
+  requiredApprovals?: number;
+
+  /**
+   * Distinct users who can each approve once and run the action for
+   * themselves, for example an event check-in. Not for LOGIN or PAIR
+   */
+  @IsOptional()
+  @IsInt({ message: 'Max uses must be an integer' })
+  @Min(1, { message: 'Max uses must be at least 1' })
+  @Max(QR_MULTI_PARTY_CONFIG.MAX_USES, {
+    message: `Max uses must not exceed ${QR_MULTI_PARTY_CONFIG.MAX_USES}`,
+  })
+  maxUses?: number;
+
+  /**
+   * User IDs allowed to approve or reject the ticket, anyone when unset
+   */
+  @IsOptional()
+  @IsArray({ message: 'Approvers must be an array' })
+  @ArrayMaxSize(QR_MULTI_PARTY_CONFIG.MAX_APPROVERS, {
+    message: `A ticket can have at most ${QR_MULTI_PARTY_CONFIG.MAX_APPROVERS} approvers`,
+  })
+  @ArrayUnique({ message: 'Approvers must be unique' })
+  @Matches(/^\d+$/, { each: true, message: 'Approvers must be user IDs' })
+  approvers?: string[];
 }
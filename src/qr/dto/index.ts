@@ -7,3 +7,5 @@ export * from './create-ticket.dto';
 export * from './approve-ticket.dto';
 export * from './qr-poll-response.dto';
 export * from './qr-grant-exchange.dto';
+export * from './qr-ticket-history.dto';
+export * from './qr-action-type.dto';
@@ -0,0 +1,71 @@
+import {
+  IsBoolean,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { QR_CUSTOM_ACTION_CONFIG } from 'src/shared/constants';
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+const WEBHOOK_URL_OPTIONS = { protocols: ['https'], require_protocol: true };
+
+/**
+ * Settings of a custom QR action type that are optional on both create
+ * and update
+ */
+class QrActionTypeSettingsDto {
+  /** JSON schema of the ticket payload, `null` accepts any payload */
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsObject({ message: 'Payload schema must be a JSON schema object' })
+  payloadSchema?: Record<string, unknown> | null;
+
+  /** Role the approver must have, `null` lets any signed-in user approve */
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @Matches(ROLE_NAME_PATTERN, { message: 'Required role name is invalid' })
+  @MaxLength(50, { message: 'Role name must not exceed 50 characters' })
+  requiredRole?: string | null;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Enabled must be a boolean' })
+  enabled?: boolean;
+}
+
+/**
+ * DTO for registering a custom QR action type
+ */
+export class CreateQrActionTypeDto extends QrActionTypeSettingsDto {
+  @Matches(QR_CUSTOM_ACTION_CONFIG.TYPE_PATTERN, {
+    message:
+      'Action type must be 3 to 48 uppercase letters, digits or _, starting with a letter',
+  })
+  type: string;
+
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(255, { message: 'Description must not exceed 255 characters' })
+  description: string;
+
+  @IsUrl(WEBHOOK_URL_OPTIONS, { message: 'Webhook URL must be an https URL' })
+  @MaxLength(2048, { message: 'Webhook URL must not exceed 2048 characters' })
+  webhookUrl: string;
+}
+
+/**
+ * DTO for editing a custom QR action type
+ */
+export class UpdateQrActionTypeDto extends QrActionTypeSettingsDto {
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  @MaxLength(255, { message: 'Description must not exceed 255 characters' })
+  description?: string;
+
+  @IsOptional()
+  @IsUrl(WEBHOOK_URL_OPTIONS, { message: 'Webhook URL must be an https URL' })
+  @MaxLength(2048, { message: 'Webhook URL must not exceed 2048 characters' })
+  webhookUrl?: string;
+}
@@ -1,5 +1,11 @@
-import { IsBoolean, IsNumber, IsOptional, IsString } from 'class-validator';
-import { QrTicketStatus } from 'src/shared/constants';
+import {
+  IsBoolean,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { QrApprovalProgress, QrTicketStatus } from 'src/shared/constants';
 
 /**
  * DTO for QR ticket polling responses
@@ -54,4 +60,9 @@ export class QrPollResponseDto {
   /** Version number for ETag support (increments on status changes) */
   @IsNumber()
   version: number;
+
+  /** Approvals so far, only for multi-party tickets */
+  @IsOptional()
+  @IsObject()
+  progress?: QrApprovalProgress;
 }
@@ -0,0 +1,62 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsIn, IsOptional, Matches } from 'class-validator';
+import { PaginationDto } from 'src/common/dto';
+import {
+  QR_CUSTOM_ACTION_CONFIG,
+  QR_TICKET_STATUSES,
+  QrActionType,
+  QrTicketStatus,
+} from 'src/shared/constants';
+
+/**
+ * DTO for the admin query over QR ticket history
+ */
+export class QrTicketHistoryQueryDto extends PaginationDto {
+  /** Sort by creation or expiry time */
+  @IsIn(['createdAt', 'expiresAt'])
+  sortBy: string = 'createdAt';
+
+  /** Tickets the user created, scanned or approved */
+  @IsOptional()
+  @Matches(/^\d{1,21}$/, { message: 'userId must be a numeric ID' })
+  userId?: string;
+
+  /** Built-in or custom action type */
+  @IsOptional()
+  @Matches(QR_CUSTOM_ACTION_CONFIG.TYPE_PATTERN, {
+    message: 'type must be an action type',
+  })
+  type?: QrActionType;
+
+  /** Current status, the outcome once the ticket is finished */
+  @IsOptional()
+  @IsIn(Object.values(QR_TICKET_STATUSES))
+  status?: QrTicketStatus;
+
+  /** Created at or after */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fromDate?: Date;
+
+  /** Created before */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  toDate?: Date;
+}
+
+/**
+ * DTO for the admin breakdown of QR tickets by type and status
+ */
+export class QrTicketHistoryStatsQueryDto {
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  fromDate?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  toDate?: Date;
+}
@@ -0,0 +1,47 @@
+import { Exclude, instanceToPlain } from 'class-transformer';
+import { QR_CUSTOM_ACTION_CONFIG } from 'src/shared/constants/qr.constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+/**
+ * QR action type registered by an admin
+ * Approving a ticket of this type validates nothing in the app itself, it
+ * POSTs the ticket to `webhookUrl` signed with the webhook secret
+ */
+@Entity({
+  name: 'qr_action_types',
+})
+export class QrActionTypeDefinition extends BaseEntityCustom {
+  /** Type put in tickets, upper snake case */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: QR_CUSTOM_ACTION_CONFIG.TYPE_MAX_LENGTH })
+  type: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  description: string;
+
+  /** JSON schema the ticket payload must match, none accepts any payload */
+  @Column({ type: 'jsonb', nullable: true })
+  payloadSchema: Record<string, unknown> | null;
+
+  /** Role the approver must have, directly or by inheritance */
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  requiredRole: string | null;
+
+  @Column({ type: 'text' })
+  webhookUrl: string;
+
+  // Signing secret sealed with AES-256-GCM under a key derived from QR_HMAC_SECRET
+  @Exclude()
+  @Column({ type: 'text' })
+  webhookSecret: string;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  toJSON() {
+    const plain = instanceToPlain(this);
+    delete plain.webhookSecret;
+    return plain;
+  }
+}
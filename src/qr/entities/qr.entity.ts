@@ -1,16 +1,21 @@
+import { instanceToPlain } from 'class-transformer';
 import {
   QrActionType,
-  QR_ACTION_TYPES,
+  QrApproval,
+  QR_CUSTOM_ACTION_CONFIG,
   QrTicketStatus,
   QR_TICKET_STATUSES,
 } from 'src/shared/constants/qr.constants';
 import { BaseEntityCustom } from 'src/shared/entities/base.entity';
 import { User } from 'src/users/entities/user.entity';
+import { toPublicProfile } from 'src/users/users.utils';
 import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
 
 /**
  * QR Ticket Entity - Represents a QR code ticket for various actions
  * This entity stores information about QR code generation, scanning, and approval
+ * Live tickets are kept in Redis, every transition is written behind to this
+ * table by QrTicketHistoryService for audit and analytics
  */
 @Entity({
   name: 'qr_tickets',
@@ -20,10 +25,19 @@ import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
 @Index(['createdById', 'status'])
 @Index(['scannedById', 'status'])
 export class QrTicket extends BaseEntityCustom {
-  /** Type of action this ticket represents */
+  /** Ticket ID shown in the QR code, also the Redis key */
+  @Index({ unique: true })
   @Column({
-    type: 'enum',
-    enum: QR_ACTION_TYPES,
+    type: 'varchar',
+    length: 64,
+    comment: 'Ticket ID shown in the QR code, also the Redis key',
+  })
+  tid: string;
+
+  /** Type of action this ticket represents, built-in or custom */
+  @Column({
+    type: 'varchar',
+    length: QR_CUSTOM_ACTION_CONFIG.TYPE_MAX_LENGTH,
     comment: 'Type of action this ticket represents',
   })
   type: QrActionType;
@@ -126,6 +140,48 @@ export class QrTicket extends BaseEntityCustom {
   })
   approvedAt?: number;
 
+  /** Timestamp when the ticket was rejected (Unix timestamp in milliseconds) */
+  @Column({
+    type: 'bigint',
+    nullable: true,
+    comment:
+      'Timestamp when the ticket was rejected (Unix timestamp in milliseconds)',
+  })
+  rejectedAt?: number;
+
+  /** Timestamp when the grant was exchanged (Unix timestamp in milliseconds) */
+  @Column({
+    type: 'bigint',
+    nullable: true,
+    comment:
+      'Timestamp when the grant was exchanged (Unix timestamp in milliseconds)',
+  })
+  usedAt?: number;
+
+  /** Distinct approvals needed before the action runs once */
+  @Column({
+    type: 'int',
+    default: 1,
+    comment: 'Distinct approvals needed before the action runs once',
+  })
+  requiredApprovals: number;
+
+  /** Distinct users whose approval each runs the action */
+  @Column({
+    type: 'int',
+    default: 1,
+    comment: 'Distinct users whose approval each runs the action',
+  })
+  maxUses: number;
+
+  /** Every approval of the ticket, by user and time */
+  @Column({
+    type: 'jsonb',
+    nullable: true,
+    comment: 'Every approval of the ticket, by user and time',
+  })
+  approvals?: QrApproval[];
+
   /**
    * Check if the ticket has expired
    * @returns True if the ticket has expired, false otherwise
@@ -183,4 +239,16 @@ export class QrTicket extends BaseEntityCustom {
   markAsCancelled(): void {
     this.status = QR_TICKET_STATUSES.REJECTED;
   }
+
+  /**
+   * Convert entity to JSON, the users involved are shown with their
+   * public profile only
+   */
+  toJSON() {
+    const result = instanceToPlain(this);
+    if (this.createdBy) result.createdBy = toPublicProfile(this.createdBy);
+    if (this.scannedBy) result.scannedBy = toPublicProfile(this.scannedBy);
+    if (this.approvedBy) result.approvedBy = toPublicProfile(this.approvedBy);
+    return result;
+  }
 }
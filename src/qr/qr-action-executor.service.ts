@@ -4,6 +4,7 @@ import { AddFriendAction } from './actions/add-friend.action';
 import { JoinOrgAction } from './actions/join-org.action';
 import { LoginAction } from './actions/login.action';
 import { PairAction } from './actions/pair.action';
+import { QrActionRegistryService } from './qr-action-registry.service';
 import { QR_ACTION_TYPES, QrActionType } from 'src/shared/constants';
 
 /**
@@ -14,7 +15,8 @@ import { QR_ACTION_TYPES, QrActionType } from 'src/shared/constants';
  * all QR-related actions and ensures proper execution flow.
  *
  * The service maintains a registry of all available actions and provides
- * a unified interface for executing them.
+ * a unified interface for executing them. Custom action types registered
+ * by admins are executed by the webhook actions of QrActionRegistryService.
  */
 @Injectable()
 export class QrActionExecutorService {
@@ -26,6 +28,7 @@ export class QrActionExecutorService {
     private readonly addFriendAction: AddFriendAction,
     private readonly joinOrgAction: JoinOrgAction,
     private readonly pairAction: PairAction,
+    private readonly actionRegistry: QrActionRegistryService,
   ) {
     // Initialize the action registry
     this.actions = new Map<QrActionType, BaseQrAction>([
@@ -58,7 +61,7 @@ export class QrActionExecutorService {
     );
 
     // Find the appropriate action implementation
-    const action = this.actions.get(actionType);
+    const action = this.getAction(actionType);
     if (!action) {
       this.logger.error(`Action type ${actionType} is not supported`);
       throw new NotFoundException(`Action type ${actionType} is not supported`);
@@ -82,12 +85,12 @@ export class QrActionExecutorService {
   }
 
   /**
-   * Gets all supported action types
+   * Gets all supported action types, custom ones included
    *
    * @returns Array of supported action types
    */
   getSupportedActionTypes(): QrActionType[] {
-    return Array.from(this.actions.keys());
+    return this.actionRegistry.getTypes();
   }
 
   /**
@@ -97,7 +100,7 @@ export class QrActionExecutorService {
    * @returns True if the action type is supported, false otherwise
    */
   isActionTypeSupported(actionType: QrActionType): boolean {
-    return this.actions.has(actionType);
+    return !!this.getAction(actionType);
   }
 
   /**
@@ -107,7 +110,10 @@ export class QrActionExecutorService {
    * @returns The action implementation or undefined if not found
    */
   getAction(actionType: QrActionType): BaseQrAction | undefined {
-    return this.actions.get(actionType);
+    return (
+      this.actions.get(actionType) ??
+      this.actionRegistry.getCustomAction(actionType)
+    );
   }
 
   /**
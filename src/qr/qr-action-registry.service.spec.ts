@@ -0,0 +1,178 @@
+import { createHmac } from 'crypto';
+import { PermissionService } from 'src/auth/permission.service';
+import { AuthPayload } from 'src/common/interface';
+import { AxiosService } from 'src/shared/services';
+
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { QrActionTypeDefinition } from './entities/qr-action-type.entity';
+import { QrActionRegistryService } from './qr-action-registry.service';
+
+describe('QrActionRegistryService', () => {
+  let service: QrActionRegistryService;
+  let rows: QrActionTypeDefinition[];
+  let permissionService: { hasRole: jest.Mock; getRole: jest.Mock };
+  let axiosService: { post: jest.Mock };
+
+  const checkIn = {
+    type: 'CHECK_IN',
+    description: 'Check in to an event',
+    webhookUrl: 'https://events.example.com/qr',
+    requiredRole: 'staff',
+    payloadSchema: {
+      type: 'object',
+      properties: { eventId: { type: 'string' } },
+      required: ['eventId'],
+    },
+  };
+
+  const thrownBy = (fn: () => void): unknown => {
+    try {
+      fn();
+    } catch (error) {
+      return error;
+    }
+    return undefined;
+  };
+
+  beforeEach(async () => {
+    rows = [];
+    const repository = {
+      find: jest.fn(() =>
+        Promise.resolve(rows.filter((row) => row.enabled !== false)),
+      ),
+      findOne: jest.fn(({ where }: { where: { type: string } }) =>
+        Promise.resolve(rows.find((row) => row.type === where.type) ?? null),
+      ),
+      create: jest.fn((data: Partial<QrActionTypeDefinition>) =>
+        Object.assign(new QrActionTypeDefinition(), data),
+      ),
+      save: jest.fn((row: QrActionTypeDefinition) => {
+        rows.push(row);
+        return Promise.resolve(row);
+      }),
+    };
+    permissionService = {
+      hasRole: jest.fn().mockResolvedValue(true),
+      getRole: jest.fn().mockResolvedValue({ name: 'staff' }),
+    };
+    axiosService = { post: jest.fn().mockResolvedValue({ status: 204 }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QrActionRegistryService,
+        {
+          provide: getRepositoryToken(QrActionTypeDefinition),
+          useValue: repository,
+        },
+        { provide: PermissionService, useValue: permissionService },
+        { provide: AxiosService, useValue: axiosService },
+        { provide: ConfigService, useValue: { get: () => 'qr-hmac-secret' } },
+      ],
+    }).compile();
+
+    service = module.get(QrActionRegistryService);
+  });
+
+  it('should register a type and validate ticket payloads against its schema', async () => {
+    expect(
+      thrownBy(() => service.assertCreatable('CHECK_IN', {})),
+    ).toMatchObject({
+      status: 400,
+      response: { messageKey: 'qr.UNSUPPORTED_ACTION_TYPE' },
+    });
+
+    const { actionType, webhookSecret } =
+      await service.createActionType(checkIn);
+
+    // Only the sealed secret is stored, and never serialized
+    expect(rows[0].webhookSecret).not.toContain(webhookSecret);
+    expect(actionType.toJSON()).not.toHaveProperty('webhookSecret');
+    expect(service.getTypes()).toContain('CHECK_IN');
+    expect(() =>
+      service.assertCreatable('CHECK_IN', { eventId: 'e-1' }),
+    ).not.toThrow();
+    expect(
+      thrownBy(() => service.assertCreatable('CHECK_IN', { eventId: 1 })),
+    ).toMatchObject({
+      status: 400,
+      response: { messageKey: 'qr.INVALID_ACTION_PAYLOAD' },
+    });
+    expect(service.describeActions()).toContainEqual(
+      expect.objectContaining({
+        type: 'CHECK_IN',
+        custom: true,
+        requiredRole: 'staff',
+      }),
+    );
+  });
+
+  it('should refuse a built-in type name or a schema that does not compile', async () => {
+    await expect(
+      service.createActionType({ ...checkIn, type: 'LOGIN' }),
+    ).rejects.toMatchObject({
+      status: 409,
+      response: { messageKey: 'qr.ACTION_TYPE_ALREADY_EXISTS' },
+    });
+
+    await expect(
+      service.createActionType({
+        ...checkIn,
+        payloadSchema: { type: 'not-a-type' },
+      }),
+    ).rejects.toMatchObject({
+      status: 400,
+      response: { messageKey: 'qr.INVALID_PAYLOAD_SCHEMA' },
+    });
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should require the role of the type to approve', async () => {
+    await service.createActionType(checkIn);
+    permissionService.hasRole.mockResolvedValue(false);
+    const approver = { uid: '1', role: 'user' } as AuthPayload;
+
+    await expect(
+      service.assertCanApprove('CHECK_IN', approver),
+    ).rejects.toMatchObject({
+      status: 403,
+      response: { messageKey: 'qr.ACTION_ROLE_REQUIRED' },
+    });
+    expect(permissionService.hasRole).toHaveBeenCalledWith(approver, ['staff']);
+    await expect(
+      service.assertCanApprove('LOGIN', approver),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should sign the approval sent to the webhook', async () => {
+    const { webhookSecret } = await service.createActionType(checkIn);
+
+    await service.getCustomAction('CHECK_IN')!.run({
+      tid: 'tid-1',
+      userId: '1',
+      payload: { eventId: 'e-1' },
+      approvedAt: 1_700_000_000_000,
+    });
+
+    const [url, body, config] = axiosService.post.mock.calls[0] as [
+      string,
+      string,
+      { headers: Record<string, string> },
+    ];
+    expect(url).toBe('https://events.example.com/qr');
+    expect(JSON.parse(body)).toMatchObject({
+      tid: 'tid-1',
+      type: 'CHECK_IN',
+      payload: { eventId: 'e-1' },
+    });
+    const [, timestamp, signature] =
+      /^t=(\d+),v1=([0-9a-f]+)$/.exec(config.headers['x-qr-signature']) ?? [];
+    expect(signature).toBe(
+      createHmac('sha256', webhookSecret)
+        .update(`${timestamp}.${body}`)
+        .digest('hex'),
+    );
+  });
+});
@@ -0,0 +1,419 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from 'crypto';
+import { PermissionService } from 'src/auth/permission.service';
+import { AuthPayload } from 'src/common/interface';
+import {
+  BuiltInQrActionType,
+  QR_ACTION_TYPES,
+  QR_CUSTOM_ACTION_CONFIG,
+  QrActionType,
+} from 'src/shared/constants';
+import { AxiosService } from 'src/shared/services';
+import { Repository } from 'typeorm';
+
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { BaseQrAction, WebhookQrAction } from './actions';
+import { CreateQrActionTypeDto, UpdateQrActionTypeDto } from './dto';
+import { QrActionTypeDefinition } from './entities/qr-action-type.entity';
+
+/** An action type as listed by `GET /qr/actions` */
+export interface QrActionDescriptor {
+  type: QrActionType;
+  description: string;
+  requiresPayload: boolean;
+  custom: boolean;
+  requiredRole?: string;
+  payloadSchema?: Record<string, unknown>;
+}
+
+interface RegisteredActionType {
+  definition: QrActionTypeDefinition;
+  validatePayload?: ValidateFunction;
+  action: WebhookQrAction;
+}
+
+const BUILT_IN_ACTIONS: Record<
+  BuiltInQrActionType,
+  { description: string; requiresPayload: boolean }
+> = {
+  [QR_ACTION_TYPES.LOGIN]: {
+    description: 'Login to the application via QR code',
+    requiresPayload: false,
+  },
+  [QR_ACTION_TYPES.ADD_FRIEND]: {
+    description: 'Add a new friend to your network',
+    requiresPayload: true,
+  },
+  [QR_ACTION_TYPES.JOIN_ORG]: {
+    description: 'Join an organization or group',
+    requiresPayload: true,
+  },
+  [QR_ACTION_TYPES.PAIR]: {
+    description: 'Pair with another device for secure communication',
+    requiresPayload: true,
+  },
+};
+
+const SEALED_SECRET_VERSION = 'v1';
+
+/**
+ * QR action registry - Built-in action types plus the ones admins register
+ *
+ * A custom type has a JSON schema for its payload, an optional role the
+ * approver must have and a webhook that executes it. Enabled types are
+ * compiled into memory on startup, after every change made through this
+ * instance, and every REFRESH_INTERVAL_MS for changes made elsewhere.
+ * Webhook secrets are stored sealed under a key derived from QR_HMAC_SECRET.
+ */
+@Injectable()
+export class QrActionRegistryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QrActionRegistryService.name);
+
+  private ajv = new Ajv({ allErrors: true });
+  private custom = new Map<QrActionType, RegisteredActionType>();
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(QrActionTypeDefinition)
+    private readonly actionTypeRepository: Repository<QrActionTypeDefinition>,
+    private readonly permissionService: PermissionService,
+    private readonly axiosService: AxiosService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.reload().catch((error) =>
+      this.logger.error('Failed to load the custom QR action types:', error),
+    );
+
+    this.refreshTimer = setInterval(() => {
+      this.reload().catch((error) =>
+        this.logger.error(
+          'Failed to reload the custom QR action types:',
+          error,
+        ),
+      );
+    }, QR_CUSTOM_ACTION_CONFIG.REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.refreshTimer);
+  }
+
+  /**
+   * Built-in types and the enabled custom ones
+   */
+  getTypes(): QrActionType[] {
+    return [...Object.values(QR_ACTION_TYPES), ...this.custom.keys()];
+  }
+
+  /**
+   * Every action type a ticket can currently be created for
+   */
+  describeActions(): QrActionDescriptor[] {
+    const builtIn = Object.entries(BUILT_IN_ACTIONS).map(([type, info]) => ({
+      type,
+      ...info,
+      custom: false,
+    }));
+    const custom = [...this.custom.values()].map(({ definition }) => ({
+      type: definition.type,
+      description: definition.description,
+      requiresPayload: !!definition.payloadSchema,
+      custom: true,
+      ...(definition.requiredRole && {
+        requiredRole: definition.requiredRole,
+      }),
+      ...(definition.payloadSchema && {
+        payloadSchema: definition.payloadSchema,
+      }),
+    }));
+    return [...builtIn, ...custom];
+  }
+
+  /**
+   * Webhook action of an enabled custom type
+   */
+  getCustomAction(type: QrActionType): BaseQrAction | undefined {
+    return this.custom.get(type)?.action;
+  }
+
+  /**
+   * Check that a ticket can be created for `type` with `payload`
+   * Built-in actions validate their payload themselves when executed
+   * @throws HttpException 400 for an unknown or disabled type, or a payload
+   * not matching the schema of the type
+   */
+  assertCreatable(type: QrActionType, payload?: Record<string, any>): void {
+    if (this.isBuiltIn(type)) return;
+
+    const registered = this.custom.get(type);
+    if (!registered) {
+      throw new HttpException(
+        {
+          messageKey: 'qr.UNSUPPORTED_ACTION_TYPE',
+          messageArgs: { type },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const { validatePayload } = registered;
+    if (validatePayload && !validatePayload(payload ?? {})) {
+      throw new HttpException(
+        {
+          messageKey: 'qr.INVALID_ACTION_PAYLOAD',
+          messageArgs: {
+            type,
+            errors: this.ajv.errorsText(validatePayload.errors),
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * Check that the approver has the role the action type requires
+   * @throws HttpException 403 when the role is missing
+   */
+  async assertCanApprove(
+    type: QrActionType,
+    approver: AuthPayload,
+  ): Promise<void> {
+    const requiredRole = this.custom.get(type)?.definition.requiredRole;
+    if (!requiredRole) return;
+
+    if (!(await this.permissionService.hasRole(approver, [requiredRole]))) {
+      throw new HttpException(
+        {
+          messageKey: 'qr.ACTION_ROLE_REQUIRED',
+          messageArgs: { role: requiredRole },
+        },
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+
+  listActionTypes(): Promise<QrActionTypeDefinition[]> {
+    return this.actionTypeRepository.find({ order: { type: 'ASC' } });
+  }
+
+  async getActionType(type: string): Promise<QrActionTypeDefinition> {
+    const definition = await this.actionTypeRepository.findOne({
+      where: { type },
+    });
+    if (!definition) {
+      throw new HttpException(
+        { messageKey: 'qr.ACTION_TYPE_NOT_FOUND', messageArgs: { type } },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return definition;
+  }
+
+  /**
+   * Register a custom action type
+   * @returns The type and its webhook secret, shown only this once
+   */
+  async createActionType(dto: CreateQrActionTypeDto): Promise<{
+    actionType: QrActionTypeDefinition;
+    webhookSecret: string;
+  }> {
+    if (
+      this.isBuiltIn(dto.type) ||
+      (await this.actionTypeRepository.findOne({ where: { type: dto.type } }))
+    ) {
+      throw new HttpException(
+        {
+          messageKey: 'qr.ACTION_TYPE_ALREADY_EXISTS',
+          messageArgs: { type: dto.type },
+        },
+        HttpStatus.CONFLICT,
+      );
+    }
+    if (dto.payloadSchema) this.compileSchema(new Ajv(), dto.payloadSchema);
+    if (dto.requiredRole) {
+      await this.permissionService.getRole(dto.requiredRole);
+    }
+
+    const webhookSecret = randomBytes(32).toString('base64url');
+    const actionType = await this.actionTypeRepository.save(
+      this.actionTypeRepository.create({
+        type: dto.type,
+        description: dto.description,
+        payloadSchema: dto.payloadSchema ?? null,
+        requiredRole: dto.requiredRole ?? null,
+        webhookUrl: dto.webhookUrl,
+        webhookSecret: this.sealSecret(webhookSecret),
+        enabled: dto.enabled ?? true,
+      }),
+    );
+    await this.reload();
+
+    return { actionType, webhookSecret };
+  }
+
+  async updateActionType(
+    type: string,
+    dto: UpdateQrActionTypeDto,
+  ): Promise<QrActionTypeDefinition> {
+    const definition = await this.getActionType(type);
+    if (dto.payloadSchema) this.compileSchema(new Ajv(), dto.payloadSchema);
+    if (dto.requiredRole) {
+      await this.permissionService.getRole(dto.requiredRole);
+    }
+
+    if (dto.description !== undefined) {
+      definition.description = dto.description;
+    }
+    if (dto.payloadSchema !== undefined) {
+      definition.payloadSchema = dto.payloadSchema;
+    }
+    if (dto.requiredRole !== undefined) {
+      definition.requiredRole = dto.requiredRole;
+    }
+    if (dto.webhookUrl !== undefined) definition.webhookUrl = dto.webhookUrl;
+    if (dto.enabled !== undefined) definition.enabled = dto.enabled;
+
+    const saved = await this.actionTypeRepository.save(definition);
+    await this.reload();
+    return saved;
+  }
+
+  /**
+   * Remove a custom action type
+   * Tickets already created for it can no longer be approved
+   */
+  async deleteActionType(type: string): Promise<void> {
+    const definition = await this.getActionType(type);
+    await this.actionTypeRepository.delete(definition.id);
+    await this.reload();
+  }
+
+  /**
+   * Load the enabled custom types from the database
+   * A type whose schema no longer compiles or whose secret cannot be
+   * unsealed (QR_HMAC_SECRET changed) is skipped
+   */
+  async reload(): Promise<void> {
+    const definitions = await this.actionTypeRepository.find({
+      where: { enabled: true },
+    });
+
+    // A fresh instance, so an edited schema does not clash with its old $id
+    const ajv = new Ajv({ allErrors: true });
+    const custom = new Map<QrActionType, RegisteredActionType>();
+    for (const definition of definitions) {
+      try {
+        custom.set(definition.type, {
+          definition,
+          validatePayload: definition.payloadSchema
+            ? this.compileSchema(ajv, definition.payloadSchema)
+            : undefined,
+          action: new WebhookQrAction(
+            {
+              type: definition.type,
+              webhookUrl: definition.webhookUrl,
+              secret: this.openSecret(definition.webhookSecret),
+            },
+            this.axiosService,
+          ),
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Skipping custom QR action type ${definition.type}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+    this.ajv = ajv;
+    this.custom = custom;
+  }
+
+  private isBuiltIn(type: string): type is BuiltInQrActionType {
+    return Object.values<string>(QR_ACTION_TYPES).includes(type);
+  }
+
+  private compileSchema(
+    ajv: Ajv,
+    schema: Record<string, unknown>,
+  ): ValidateFunction {
+    try {
+      return ajv.compile(schema);
+    } catch (error) {
+      throw new HttpException(
+        {
+          messageKey: 'qr.INVALID_PAYLOAD_SCHEMA',
+          messageArgs: {
+            reason: error instanceof Error ? error.message : String(error),
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * Encrypt a webhook secret for storage
+   * @returns `v1.{iv}.{tag}.{ciphertext}`, base64url parts
+   */
+  private sealSecret(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getSealingKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+    return [
+      SEALED_SECRET_VERSION,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join('.');
+  }
+
+  private openSecret(sealed: string): string {
+    const [version, iv, tag, ciphertext] = sealed.split('.');
+    if (version !== SEALED_SECRET_VERSION) {
+      throw new Error(`Unsupported sealed secret version ${version}`);
+    }
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.getSealingKey(),
+      Buffer.from(iv, 'base64url'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private getSealingKey(): Buffer {
+    const secret = this.configService.get<string>('app.qr.hmacSecret');
+    if (!secret) {
+      throw new Error('QR HMAC secret is not configured');
+    }
+    return Buffer.from(
+      hkdfSync('sha256', secret, '', 'qr-action-webhooks', 32),
+    );
+  }
+}
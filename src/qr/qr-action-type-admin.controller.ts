@@ -0,0 +1,65 @@
+import { RequirePermissions } from 'src/common/decorators';
+import { PERMISSIONS } from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+
+import { CreateQrActionTypeDto, UpdateQrActionTypeDto } from './dto';
+import { QrActionRegistryService } from './qr-action-registry.service';
+
+/**
+ * Custom QR action types, executed by a webhook
+ * Needs `qr-action-types:manage`
+ */
+@Controller('admin/qr/action-types')
+@RequirePermissions(PERMISSIONS.QR_ACTION_TYPES_MANAGE)
+export class QrActionTypeAdminController {
+  constructor(private readonly actionRegistry: QrActionRegistryService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async listActionTypes() {
+    return this.actionRegistry.listActionTypes();
+  }
+
+  @Get(':type')
+  @HttpCode(HttpStatus.OK)
+  async getActionType(@Param('type') type: string) {
+    return this.actionRegistry.getActionType(type);
+  }
+
+  /**
+   * The webhook secret is only in this response
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createActionType(@Body() dto: CreateQrActionTypeDto) {
+    return this.actionRegistry.createActionType(dto);
+  }
+
+  @Patch(':type')
+  @HttpCode(HttpStatus.OK)
+  async updateActionType(
+    @Param('type') type: string,
+    @Body() dto: UpdateQrActionTypeDto,
+  ) {
+    return this.actionRegistry.updateActionType(type, dto);
+  }
+
+  @Delete(':type')
+  @HttpCode(HttpStatus.OK)
+  async deleteActionType(@Param('type') type: string) {
+    await this.actionRegistry.deleteActionType(type);
+    return buildResponse({ messageKey: 'qr.ACTION_TYPE_DELETED' });
+  }
+}
@@ -0,0 +1,32 @@
+import { RequirePermissions } from 'src/common/decorators';
+import { PERMISSIONS } from 'src/shared/constants';
+
+import { Controller, Get, Param, Query } from '@nestjs/common';
+
+import { QrTicketHistoryQueryDto, QrTicketHistoryStatsQueryDto } from './dto';
+import { QrTicketHistoryService } from './qr-ticket-history.service';
+
+/**
+ * Audit and analytics over the QR ticket history
+ * Needs `qr-tickets:read:any`
+ */
+@Controller('admin/qr/tickets')
+@RequirePermissions(PERMISSIONS.QR_TICKETS_READ_ANY)
+export class QrAdminController {
+  constructor(private readonly historyService: QrTicketHistoryService) {}
+
+  @Get()
+  async listTickets(@Query() query: QrTicketHistoryQueryDto) {
+    return this.historyService.listTickets(query);
+  }
+
+  @Get('stats')
+  async getStats(@Query() query: QrTicketHistoryStatsQueryDto) {
+    return this.historyService.getStats(query);
+  }
+
+  @Get(':tid')
+  async getTicket(@Param('tid') tid: string) {
+    return this.historyService.getTicket(tid);
+  }
+}
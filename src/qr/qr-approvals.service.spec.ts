@@ -0,0 +1,73 @@
+import { QR_REDIS_PREFIXES } from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { QrApprovalsService } from './qr-approvals.service';
+
+describe('QrApprovalsService', () => {
+  let service: QrApprovalsService;
+  let redis: { eval: jest.Mock; hdel: jest.Mock; hgetall: jest.Mock };
+
+  const tid = 'dGlja2V0MTIzNDU2Nzg5MGFi';
+
+  beforeEach(async () => {
+    redis = {
+      eval: jest.fn().mockResolvedValue(1),
+      hdel: jest.fn(),
+      hgetall: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QrApprovalsService,
+        {
+          provide: CacheService,
+          useValue: { getRedisClient: () => redis },
+        },
+        { provide: ConfigService, useValue: { get: () => 180 } },
+      ],
+    }).compile();
+
+    service = module.get(QrApprovalsService);
+  });
+
+  it('should count the approval against the limit of the ticket', async () => {
+    redis.eval.mockResolvedValue(2);
+
+    await expect(service.add(tid, 'user123', 3)).resolves.toBe(2);
+
+    const [, numKeys, ...args] = redis.eval.mock.calls[0] as unknown[];
+    expect(numKeys).toBe(1);
+    expect(args[0]).toBe(`${QR_REDIS_PREFIXES.APPROVALS}${tid}`);
+    expect(args[1]).toBe('user123');
+    expect(args.slice(3)).toEqual([3, 180]);
+  });
+
+  it('should refuse a second approval by the same user', async () => {
+    redis.eval.mockResolvedValue(-1);
+
+    await expect(service.add(tid, 'user123', 3)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('should refuse an approval once the limit is reached', async () => {
+    redis.eval.mockResolvedValue(-2);
+
+    await expect(service.add(tid, 'user123', 3)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should list approvals oldest first', async () => {
+    redis.hgetall.mockResolvedValue({ user456: '2000', user123: '1000' });
+
+    await expect(service.list(tid)).resolves.toEqual([
+      { userId: 'user123', approvedAt: 1000 },
+      { userId: 'user456', approvedAt: 2000 },
+    ]);
+  });
+});
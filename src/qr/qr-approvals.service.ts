@@ -0,0 +1,111 @@
+import {
+  QR_REDIS_PREFIXES,
+  QR_TTL_DEFAULTS,
+  QrApproval,
+} from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Record an approval unless the user already approved or the limit is reached
+ * KEYS: approvals of the ticket
+ * ARGV: user ID, approval time, limit, TTL in seconds
+ */
+const ADD_APPROVAL_SCRIPT = `
+  if redis.call('HEXISTS', KEYS[1], ARGV[1]) == 1 then
+    return -1
+  end
+  local count = redis.call('HLEN', KEYS[1])
+  if count >= tonumber(ARGV[3]) then
+    return -2
+  end
+  redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+  redis.call('EXPIRE', KEYS[1], ARGV[4])
+  return count + 1
+`;
+
+/**
+ * QR approvals - Who approved a ticket, one entry per user
+ *
+ * Approvals live in a Redis hash next to the ticket rather than in the
+ * ticket itself, so concurrent approvals are counted atomically: a user
+ * approves once, the limit is never exceeded and exactly one approval
+ * reaches it. The copy in the ticket is only for display and history.
+ */
+@Injectable()
+export class QrApprovalsService {
+  private readonly ticketTtl: number;
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ticketTtl =
+      this.configService.get<number>('QR_TICKET_TTL_SECONDS') ||
+      QR_TTL_DEFAULTS.TICKET;
+  }
+
+  /**
+   * Record the approval of a user
+   * @param tid - Ticket ID
+   * @param userId - User approving
+   * @param limit - Approvals the ticket accepts in total
+   * @returns Number of approvals, this one included
+   * @throws ConflictException when the user already approved
+   * @throws BadRequestException when the ticket has no approvals left
+   */
+  async add(tid: string, userId: string, limit: number): Promise<number> {
+    const count = (await this.cacheService
+      .getRedisClient()
+      .eval(
+        ADD_APPROVAL_SCRIPT,
+        1,
+        `${QR_REDIS_PREFIXES.APPROVALS}${tid}`,
+        userId,
+        Date.now(),
+        limit,
+        this.ticketTtl,
+      )) as number;
+
+    if (count === -1) {
+      throw new ConflictException({ messageKey: 'qr.ALREADY_APPROVED' });
+    }
+    if (count === -2) {
+      throw new BadRequestException({
+        messageKey: 'qr.APPROVAL_LIMIT_REACHED',
+      });
+    }
+    return count;
+  }
+
+  /**
+   * Withdraw the approval of a user whose action failed, so it can be retried
+   */
+  async remove(tid: string, userId: string): Promise<void> {
+    await this.cacheService
+      .getRedisClient()
+      .hdel(`${QR_REDIS_PREFIXES.APPROVALS}${tid}`, userId);
+  }
+
+  /**
+   * Approvals of a ticket, oldest first
+   */
+  async list(tid: string): Promise<QrApproval[]> {
+    const approvals = await this.cacheService
+      .getRedisClient()
+      .hgetall(`${QR_REDIS_PREFIXES.APPROVALS}${tid}`);
+
+    return Object.entries(approvals)
+      .map(([userId, approvedAt]) => ({
+        userId,
+        approvedAt: Number(approvedAt),
+      }))
+      .sort((a, b) => a.approvedAt - b.approvedAt);
+  }
+}
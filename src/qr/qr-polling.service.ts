@@ -1,6 +1,7 @@
 import {
   QR_POLLING_CONFIG,
   QR_REDIS_PREFIXES,
+  QrApprovalProgress,
   QrDeliveryCode,
   QrTicket,
   QrTicketStatus,
@@ -10,6 +11,8 @@ import { CacheService } from 'src/shared/services';
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
+import { getApprovalProgress } from './qr.utils';
+
 /**
  * QR Polling Service - Handles REST polling for QR ticket status
  *
@@ -48,6 +51,7 @@ export class QrPollingService {
     rejectedAt?: number;
     usedAt?: number;
     webSessionId?: string;
+    progress?: QrApprovalProgress;
   } | null> {
     const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${tid}`;
     const ticket = await this.cacheService.get<QrTicket>(ticketKey);
@@ -72,6 +76,7 @@ export class QrPollingService {
       rejectedAt: ticket.status === 'REJECTED' ? Date.now() : undefined,
       usedAt: ticket.status === 'USED' ? Date.now() : undefined,
       webSessionId: ticket.webSessionId,
+      progress: getApprovalProgress(ticket),
     };
   }
 
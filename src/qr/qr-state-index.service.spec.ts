@@ -0,0 +1,128 @@
+import {
+  QR_ACTION_TYPES,
+  QR_INDEX_CLEANUP_CONFIG,
+  QR_REDIS_INDEX_KEYS,
+  QrTicket,
+} from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+
+import { QrStateIndexService } from './qr-state-index.service';
+
+describe('QrStateIndexService', () => {
+  let service: QrStateIndexService;
+  let redis: {
+    eval: jest.Mock;
+    zadd: jest.Mock;
+    zrem: jest.Mock;
+    hgetall: jest.Mock;
+    zcard: jest.Mock;
+    zcount: jest.Mock;
+    zremrangebyscore: jest.Mock;
+  };
+
+  const ticket: QrTicket = {
+    tid: 'dGlja2V0MTIzNDU2Nzg5MGFi',
+    type: QR_ACTION_TYPES.LOGIN,
+    status: 'SCANNED',
+    codeChallenge: 'challenge',
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 180_000,
+    version: 2,
+  };
+
+  beforeEach(async () => {
+    redis = {
+      eval: jest.fn().mockResolvedValue(0),
+      zadd: jest.fn(),
+      zrem: jest.fn(),
+      hgetall: jest.fn().mockResolvedValue({}),
+      zcard: jest.fn().mockResolvedValue(0),
+      zcount: jest.fn().mockResolvedValue(0),
+      zremrangebyscore: jest.fn().mockResolvedValue(0),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QrStateIndexService,
+        {
+          provide: CacheService,
+          useValue: { getRedisClient: () => redis },
+        },
+        { provide: ConfigService, useValue: { get: () => 180 } },
+      ],
+    }).compile();
+
+    service = module.get(QrStateIndexService);
+  });
+
+  it('should move a ticket to the counter of its new status', async () => {
+    const now = Date.now();
+    await service.recordTransition(ticket);
+
+    const [, numKeys, ...args] = redis.eval.mock.calls[0] as unknown[];
+    expect(numKeys).toBe(3);
+    expect(args.slice(0, 5)).toEqual([
+      QR_REDIS_INDEX_KEYS.TICKET_STATE,
+      QR_REDIS_INDEX_KEYS.TICKET_COUNTERS,
+      QR_REDIS_INDEX_KEYS.TICKETS_BY_EXPIRY,
+      ticket.tid,
+      'LOGIN:SCANNED',
+    ]);
+    // Scored by when the Redis key expires, not by the ticket expiry
+    expect(args[5]).toBeGreaterThanOrEqual(now + 180_000);
+    expect(args[6]).toBe('0');
+  });
+
+  it('should not throw when Redis fails', async () => {
+    redis.eval.mockRejectedValue(new Error('Redis down'));
+
+    await expect(service.recordTransition(ticket, true)).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('should count active tickets by type and every ticket by status', async () => {
+    redis.hgetall.mockResolvedValue({
+      'LOGIN:PENDING': '3',
+      'LOGIN:USED': '4',
+      'JOIN_ORG:APPROVED': '1',
+      'PAIR:REJECTED': '2',
+    });
+    redis.zcard.mockResolvedValueOnce(10).mockResolvedValueOnce(2);
+    redis.zcount.mockResolvedValue(1);
+
+    const stats = await service.getStats();
+
+    expect(stats).toMatchObject({
+      totalTickets: 10,
+      activeTickets: 4,
+      totalGrants: 2,
+      activeGrants: 1,
+      actionTypeBreakdown: { LOGIN: 3, JOIN_ORG: 1 },
+      statusBreakdown: { PENDING: 3, USED: 4, APPROVED: 1, REJECTED: 2 },
+    });
+  });
+
+  it('should pop lapsed tickets in batches until none are left', async () => {
+    redis.eval
+      .mockResolvedValueOnce(QR_INDEX_CLEANUP_CONFIG.BATCH_SIZE)
+      .mockResolvedValueOnce(7);
+    redis.zremrangebyscore.mockResolvedValue(3);
+
+    const result = await service.popExpired(1_000);
+
+    expect(result).toEqual({
+      tickets: QR_INDEX_CLEANUP_CONFIG.BATCH_SIZE + 7,
+      grants: 3,
+    });
+    expect(redis.eval).toHaveBeenCalledTimes(2);
+    expect(redis.zremrangebyscore).toHaveBeenCalledWith(
+      QR_REDIS_INDEX_KEYS.GRANTS_BY_EXPIRY,
+      '-inf',
+      1_000,
+    );
+  });
+});
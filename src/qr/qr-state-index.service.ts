@@ -0,0 +1,256 @@
+import {
+  QR_INDEX_CLEANUP_CONFIG,
+  QR_REDIS_INDEX_KEYS,
+  QR_TICKET_STATUSES,
+  QR_TTL_DEFAULTS,
+  QrActionType,
+  QrTicket,
+  QrTicketStatus,
+} from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/** Statuses of a ticket that can still move on */
+const ACTIVE_STATUSES: QrTicketStatus[] = [
+  QR_TICKET_STATUSES.PENDING,
+  QR_TICKET_STATUSES.SCANNED,
+  QR_TICKET_STATUSES.APPROVED,
+];
+
+/**
+ * Move a ticket to its new counter and push back its expiry
+ * KEYS: ticket state, counters, tickets by expiry
+ * ARGV: ticket ID, new counter field, expiry score, '1' when just created
+ */
+const RECORD_TRANSITION_SCRIPT = `
+  local previous = redis.call('HGET', KEYS[1], ARGV[1])
+  if not previous and ARGV[4] ~= '1' then
+    return 0
+  end
+
+  if previous ~= ARGV[2] then
+    if previous and redis.call('HINCRBY', KEYS[2], previous, -1) <= 0 then
+      redis.call('HDEL', KEYS[2], previous)
+    end
+    redis.call('HINCRBY', KEYS[2], ARGV[2], 1)
+    redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+  end
+  redis.call('ZADD', KEYS[3], ARGV[3], ARGV[1])
+  return 1
+`;
+
+/**
+ * Pop a batch of tickets whose Redis key has lapsed
+ * KEYS: tickets by expiry, ticket state, counters
+ * ARGV: now, batch size
+ */
+const POP_EXPIRED_SCRIPT = `
+  local tids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+  for _, tid in ipairs(tids) do
+    local field = redis.call('HGET', KEYS[2], tid)
+    if field then
+      if redis.call('HINCRBY', KEYS[3], field, -1) <= 0 then
+        redis.call('HDEL', KEYS[3], field)
+      end
+      redis.call('HDEL', KEYS[2], tid)
+    end
+    redis.call('ZREM', KEYS[1], tid)
+  end
+  return #tids
+`;
+
+export interface QrStateStats {
+  totalTickets: number;
+  activeTickets: number;
+  totalGrants: number;
+  activeGrants: number;
+  actionTypeBreakdown: Record<QrActionType, number>;
+  statusBreakdown: Record<QrTicketStatus, number>;
+}
+
+/**
+ * QR state index - Keeps the live QR tickets and grants countable
+ *
+ * Tickets sit in a sorted set scored by when their Redis key expires, next
+ * to counters per `<type>:<status>` that every transition moves atomically.
+ * Stats read the counters instead of scanning `qr:ticket:*`, and a scheduled
+ * ranged pop drops lapsed tickets from the counters. Ticket and grant keys
+ * themselves still expire through their own TTL.
+ */
+@Injectable()
+export class QrStateIndexService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QrStateIndexService.name);
+  private readonly ticketTtl: number;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {
+    this.ticketTtl =
+      this.configService.get<number>('QR_TICKET_TTL_SECONDS') ||
+      QR_TTL_DEFAULTS.TICKET;
+  }
+
+  onModuleInit(): void {
+    this.cleanupTimer = setInterval(() => {
+      void this.popExpired();
+    }, QR_INDEX_CLEANUP_CONFIG.INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Count a ticket under its current type and status
+   * Tickets not indexed when created, e.g. before a deploy, are left out
+   * @param ticket - Ticket as just stored in Redis
+   * @param created - Whether this is the first state of the ticket
+   */
+  async recordTransition(ticket: QrTicket, created = false): Promise<void> {
+    try {
+      await this.cacheService
+        .getRedisClient()
+        .eval(
+          RECORD_TRANSITION_SCRIPT,
+          3,
+          QR_REDIS_INDEX_KEYS.TICKET_STATE,
+          QR_REDIS_INDEX_KEYS.TICKET_COUNTERS,
+          QR_REDIS_INDEX_KEYS.TICKETS_BY_EXPIRY,
+          ticket.tid,
+          `${ticket.type}:${ticket.status}`,
+          Date.now() + this.ticketTtl * 1000,
+          created ? '1' : '0',
+        );
+    } catch (error) {
+      this.logger.warn(`Failed to index QR ticket ${ticket.tid}:`, error);
+    }
+  }
+
+  /**
+   * Index a grant until it expires
+   * @param grantToken - Grant token
+   * @param expiresAt - Expiry in milliseconds
+   */
+  async addGrant(grantToken: string, expiresAt: number): Promise<void> {
+    try {
+      await this.cacheService
+        .getRedisClient()
+        .zadd(QR_REDIS_INDEX_KEYS.GRANTS_BY_EXPIRY, expiresAt, grantToken);
+    } catch (error) {
+      this.logger.warn('Failed to index QR grant:', error);
+    }
+  }
+
+  /**
+   * Drop a grant that was exchanged
+   * @param grantToken - Grant token
+   */
+  async removeGrant(grantToken: string): Promise<void> {
+    try {
+      await this.cacheService
+        .getRedisClient()
+        .zrem(QR_REDIS_INDEX_KEYS.GRANTS_BY_EXPIRY, grantToken);
+    } catch (error) {
+      this.logger.warn('Failed to unindex QR grant:', error);
+    }
+  }
+
+  /**
+   * Counts of the live tickets and grants, a fixed number of Redis reads
+   * @throws Error when Redis is unavailable
+   */
+  async getStats(): Promise<QrStateStats> {
+    const redis = this.cacheService.getRedisClient();
+    const now = Date.now();
+    const [counters, totalTickets, totalGrants, activeGrants] =
+      await Promise.all([
+        redis.hgetall(QR_REDIS_INDEX_KEYS.TICKET_COUNTERS),
+        redis.zcard(QR_REDIS_INDEX_KEYS.TICKETS_BY_EXPIRY),
+        redis.zcard(QR_REDIS_INDEX_KEYS.GRANTS_BY_EXPIRY),
+        redis.zcount(QR_REDIS_INDEX_KEYS.GRANTS_BY_EXPIRY, `(${now}`, '+inf'),
+      ]);
+
+    // Only types with tickets, QrService adds the registered ones
+    const actionTypeBreakdown: Record<QrActionType, number> = {};
+    const statusBreakdown = Object.fromEntries(
+      Object.values(QR_TICKET_STATUSES).map((status) => [status, 0]),
+    ) as Record<QrTicketStatus, number>;
+    let activeTickets = 0;
+
+    for (const [field, value] of Object.entries(counters)) {
+      const [type, status] = field.split(':') as [QrActionType, QrTicketStatus];
+      const count = Math.max(0, Number(value));
+      if (!(status in statusBreakdown)) continue;
+      statusBreakdown[status] += count;
+      if (ACTIVE_STATUSES.includes(status)) {
+        activeTickets += count;
+        actionTypeBreakdown[type] = (actionTypeBreakdown[type] ?? 0) + count;
+      }
+    }
+
+    return {
+      totalTickets,
+      activeTickets,
+      totalGrants,
+      activeGrants,
+      actionTypeBreakdown,
+      statusBreakdown,
+    };
+  }
+
+  /**
+   * Drop lapsed tickets and grants from the index
+   * Each batch is popped atomically, so instances running it together never
+   * count a ticket out twice
+   * @param now - Cut-off in milliseconds
+   * @returns Number of tickets and grants removed
+   */
+  async popExpired(
+    now = Date.now(),
+  ): Promise<{ tickets: number; grants: number }> {
+    const redis = this.cacheService.getRedisClient();
+    let tickets = 0;
+    let grants = 0;
+
+    try {
+      let popped: number;
+      do {
+        popped = (await redis.eval(
+          POP_EXPIRED_SCRIPT,
+          3,
+          QR_REDIS_INDEX_KEYS.TICKETS_BY_EXPIRY,
+          QR_REDIS_INDEX_KEYS.TICKET_STATE,
+          QR_REDIS_INDEX_KEYS.TICKET_COUNTERS,
+          now,
+          QR_INDEX_CLEANUP_CONFIG.BATCH_SIZE,
+        )) as number;
+        tickets += popped;
+      } while (popped >= QR_INDEX_CLEANUP_CONFIG.BATCH_SIZE);
+
+      grants = await redis.zremrangebyscore(
+        QR_REDIS_INDEX_KEYS.GRANTS_BY_EXPIRY,
+        '-inf',
+        now,
+      );
+    } catch (error) {
+      this.logger.error('Failed to clean up the QR state index:', error);
+    }
+
+    if (tickets > 0 || grants > 0) {
+      this.logger.debug(
+        `Removed ${tickets} tickets and ${grants} grants from the QR index`,
+      );
+    }
+    return { tickets, grants };
+  }
+}
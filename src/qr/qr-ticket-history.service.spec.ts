@@ -0,0 +1,264 @@
+import {
+  QR_ACTION_TYPES,
+  QR_HISTORY_CONFIG,
+  QrTicket,
+} from 'src/shared/constants';
+import { CacheService } from 'src/shared/services';
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { QrTicket as QrTicketEntity } from './entities/qr.entity';
+import { QrTicketHistoryService } from './qr-ticket-history.service';
+
+describe('QrTicketHistoryService', () => {
+  let service: QrTicketHistoryService;
+  let insert: {
+    insert: jest.Mock;
+    into: jest.Mock;
+    values: jest.Mock;
+    orUpdate: jest.Mock;
+    execute: jest.Mock;
+  };
+  let repository: {
+    createQueryBuilder: jest.Mock;
+    findAndCount: jest.Mock;
+    update: jest.Mock;
+  };
+  let redis: ReturnType<typeof createRedis>;
+
+  /**
+   * Stream with a single consumer group: read entries stay pending until
+   * acknowledged, and every claim counts as a delivery
+   */
+  const createRedis = () => {
+    let sequence = 0;
+    const unread: [string, string[]][] = [];
+    const pending = new Map<string, { fields: string[]; deliveries: number }>();
+    const deadLetters: string[][] = [];
+
+    const client = {
+      pending,
+      deadLetters,
+      xgroup: jest.fn().mockResolvedValue('OK'),
+      xadd: jest.fn((key: string, _id: string, ...fields: string[]) => {
+        if (key === QR_HISTORY_CONFIG.STREAM_KEY) {
+          unread.push([`${++sequence}-0`, fields]);
+        } else {
+          deadLetters.push(fields);
+        }
+        return Promise.resolve(`${sequence}-0`);
+      }),
+      xreadgroup: jest.fn(() => {
+        const entries = unread.splice(0);
+        entries.forEach(([id, fields]) =>
+          pending.set(id, { fields, deliveries: 1 }),
+        );
+        return Promise.resolve(
+          entries.length ? [[QR_HISTORY_CONFIG.STREAM_KEY, entries]] : null,
+        );
+      }),
+      xautoclaim: jest.fn(() => {
+        const claimed = [...pending].map(([id, entry]) => {
+          entry.deliveries++;
+          return [id, entry.fields];
+        });
+        return Promise.resolve(['0-0', claimed, []]);
+      }),
+      xpending: jest.fn(() =>
+        Promise.resolve(
+          [...pending].map(([id, entry]) => [id, 'c', 0, entry.deliveries]),
+        ),
+      ),
+      xlen: jest.fn(() => Promise.resolve(unread.length + pending.size)),
+      multi: jest.fn(() => {
+        const transaction = {
+          xadd: (key: string, id: string, ...fields: string[]) => {
+            void client.xadd(key, id, ...fields);
+            return transaction;
+          },
+          xack: (_key: string, _group: string, ...ids: string[]) => {
+            ids.forEach((id) => pending.delete(id));
+            return transaction;
+          },
+          xdel: () => transaction,
+          exec: () => Promise.resolve([]),
+        };
+        return transaction;
+      }),
+    };
+    return client;
+  };
+
+  const ticket = (overrides: Partial<QrTicket> = {}): QrTicket => ({
+    tid: 'dGlja2V0MTIzNDU2Nzg5MGFi',
+    type: QR_ACTION_TYPES.JOIN_ORG,
+    status: 'PENDING',
+    codeChallenge: 'challenge',
+    payload: { orgId: '10', invitationToken: 'secret-token' },
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 180_000,
+    version: 1,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    insert = {
+      insert: jest.fn().mockReturnThis(),
+      into: jest.fn().mockReturnThis(),
+      values: jest.fn().mockReturnThis(),
+      orUpdate: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({}),
+    };
+    redis = createRedis();
+    repository = {
+      createQueryBuilder: jest.fn(() => insert),
+      findAndCount: jest.fn().mockResolvedValue([[], 0]),
+      update: jest.fn().mockResolvedValue({ affected: 2 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QrTicketHistoryService,
+        {
+          provide: getRepositoryToken(QrTicketEntity),
+          useValue: repository,
+        },
+        {
+          provide: CacheService,
+          useValue: { getRedisClient: () => redis },
+        },
+      ],
+    }).compile();
+
+    service = module.get(QrTicketHistoryService);
+  });
+
+  describe('flush', () => {
+    it('should write only the latest state of each ticket', async () => {
+      await service.record(ticket());
+      await service.record(
+        ticket({ status: 'SCANNED', scannedBy: '2', scannedAt: 1, version: 2 }),
+      );
+
+      await expect(service.flush()).resolves.toBe(2);
+
+      const [rows] = insert.values.mock.calls[0] as [Partial<QrTicketEntity>[]];
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        tid: 'dGlja2V0MTIzNDU2Nzg5MGFi',
+        status: 'SCANNED',
+        scannedById: '2',
+        version: 2,
+      });
+      // Invitation tokens are not kept in the history
+      expect(rows[0].payload).toEqual({
+        orgId: '10',
+        invitationToken: '[Sensitive Data]',
+      });
+      expect(insert.orUpdate).toHaveBeenCalledWith(
+        expect.arrayContaining(['status', 'version']),
+        ['tid'],
+        {
+          overwriteCondition: {
+            where: '"qr_tickets"."version" < EXCLUDED."version"',
+          },
+        },
+      );
+      expect(redis.pending.size).toBe(0);
+      await expect(service.flush()).resolves.toBe(0);
+    });
+
+    it('should keep a failed batch in the stream and retry it', async () => {
+      insert.execute.mockRejectedValueOnce(new Error('connection lost'));
+      await service.record(ticket());
+
+      await expect(service.flush()).resolves.toBe(0);
+      expect(redis.pending.size).toBe(1);
+
+      await expect(service.flush()).resolves.toBe(1);
+      expect(insert.execute).toHaveBeenCalledTimes(2);
+      expect(redis.pending.size).toBe(0);
+    });
+
+    it('should set a row aside once it failed too many times', async () => {
+      await service.record(ticket({ tid: 'bad' }));
+      await service.record(ticket({ tid: 'good' }));
+      insert.values.mockImplementation((rows: Partial<QrTicketEntity>[]) => {
+        insert.execute.mockImplementationOnce(() =>
+          rows.some((row) => row.tid === 'bad')
+            ? Promise.reject(new Error('value too long'))
+            : Promise.resolve({}),
+        );
+        return insert;
+      });
+
+      await service.flush();
+      // Retried row by row, the good row gets through
+      await expect(service.flush()).resolves.toBe(1);
+      expect(redis.pending.size).toBe(1);
+
+      for (let i = 2; i < QR_HISTORY_CONFIG.MAX_DELIVERIES; i++) {
+        await service.flush();
+      }
+      expect(redis.pending.size).toBe(0);
+      expect(redis.deadLetters).toHaveLength(1);
+      expect(redis.deadLetters[0]).toEqual(
+        expect.arrayContaining(['reason', 'value too long']),
+      );
+    });
+
+    it('should set a malformed entry aside', async () => {
+      await redis.xadd(QR_HISTORY_CONFIG.STREAM_KEY, '*', 'ticket', '{');
+
+      await expect(service.flush()).resolves.toBe(0);
+      expect(redis.pending.size).toBe(0);
+      expect(redis.deadLetters).toHaveLength(1);
+      expect(insert.execute).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when the transition cannot be queued', async () => {
+      redis.xadd.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.record(ticket())).resolves.toBeUndefined();
+    });
+  });
+
+  it('should expire pending and scanned tickets past their expiry', async () => {
+    await expect(service.expireStale()).resolves.toBe(2);
+
+    expect(repository.update).toHaveBeenCalledWith(
+      {
+        status: expect.objectContaining({
+          _value: ['PENDING', 'SCANNED'],
+        }) as unknown,
+        expiresAt: expect.objectContaining({ _type: 'lessThan' }) as unknown,
+      },
+      { status: 'EXPIRED' },
+    );
+  });
+
+  it('should match a user on any side of the ticket', async () => {
+    await service.listTickets({
+      page: 2,
+      limit: 10,
+      sortBy: 'createdAt',
+      order: 'DESC',
+      userId: '7',
+      type: QR_ACTION_TYPES.LOGIN,
+    });
+
+    expect(repository.findAndCount).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: [
+          { type: 'LOGIN', createdById: '7' },
+          { type: 'LOGIN', scannedById: '7' },
+          { type: 'LOGIN', approvedById: '7' },
+        ],
+        order: { createdAt: 'DESC', id: 'DESC' },
+        skip: 10,
+        take: 10,
+      }),
+    );
+  });
+});
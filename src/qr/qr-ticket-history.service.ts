@@ -0,0 +1,537 @@
+import { hostname } from 'os';
+import { IPagination } from 'src/common/interface';
+import {
+  QR_ACTION_TYPES,
+  QR_HISTORY_CONFIG,
+  QR_TICKET_STATUSES,
+  QrActionType,
+  QrTicket as CachedQrTicket,
+  QrTicketStatus,
+} from 'src/shared/constants';
+import { PaginationFormatter } from 'src/shared/helpers/pagination-formatter';
+import { globalSnowflake } from 'src/shared/libs/snowflake';
+import { CacheService } from 'src/shared/services';
+import {
+  And,
+  FindOptionsWhere,
+  In,
+  LessThan,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+
+import { QrTicketHistoryQueryDto, QrTicketHistoryStatsQueryDto } from './dto';
+import { QrTicket } from './entities/qr.entity';
+import { sanitizePayload } from './qr.utils';
+
+/** Columns a later transition of a ticket may change */
+const TRANSITION_COLUMNS = [
+  'status',
+  'scannedById',
+  'scannedAt',
+  'approvedById',
+  'approvedAt',
+  'rejectedAt',
+  'usedAt',
+  'approvals',
+  'version',
+];
+
+/** Transition read from the history stream */
+interface HistoryEntry {
+  id: string;
+  /** Raw stream field, kept to set the entry aside as it was */
+  raw: string;
+  ticket?: CachedQrTicket;
+}
+
+/**
+ * QR ticket history - Writes ticket transitions behind Redis to Postgres
+ *
+ * `record` appends each transition to a Redis stream read by a consumer
+ * group, a timer writes it in batches so the Redis hot path never waits on
+ * the database and nothing is lost when an instance stops. An entry is
+ * acknowledged once written; one that keeps failing is moved to a dead
+ * letter stream after `MAX_DELIVERIES` tries.
+ * Rows are upserted by ticket ID and only move forward: a state whose Redis
+ * `version` is not newer than the stored one is ignored, so instances
+ * writing out of order cannot roll a ticket back.
+ */
+@Injectable()
+export class QrTicketHistoryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(QrTicketHistoryService.name);
+
+  private readonly consumer = `${hostname()}:${process.pid}`;
+  private groupReady?: Promise<void>;
+  private flushing?: Promise<number>;
+  private flushTimer?: NodeJS.Timeout;
+  private expireTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(QrTicket)
+    private readonly qrTicketRepository: Repository<QrTicket>,
+    private readonly cacheService: CacheService,
+  ) {}
+
+  onModuleInit(): void {
+    this.flushTimer = setInterval(() => {
+      this.flush().catch((error) =>
+        this.logger.error('Failed to write QR ticket history:', error),
+      );
+    }, QR_HISTORY_CONFIG.FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+
+    this.expireTimer = setInterval(() => {
+      Promise.all([this.expireStale(), this.reportBacklog()]).catch((error) =>
+        this.logger.error('Failed to expire stale QR tickets:', error),
+      );
+    }, QR_HISTORY_CONFIG.EXPIRE_SWEEP_INTERVAL_MS);
+    this.expireTimer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    clearInterval(this.flushTimer);
+    clearInterval(this.expireTimer);
+    // Whatever is left stays in the stream for the other instances
+    await this.flush().catch((error) =>
+      this.logger.error('Failed to write QR ticket history:', error),
+    );
+  }
+
+  /**
+   * Queue the current state of a ticket for writing
+   * Never throws, a transition that cannot be queued is logged
+   * @param ticket - Ticket as stored in Redis
+   */
+  async record(ticket: CachedQrTicket): Promise<void> {
+    try {
+      await this.cacheService
+        .getRedisClient()
+        .xadd(
+          QR_HISTORY_CONFIG.STREAM_KEY,
+          '*',
+          'ticket',
+          JSON.stringify(ticket),
+        );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue QR ticket ${ticket.tid} version ${ticket.version} for history:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Write the queued transitions
+   * Transitions left unacknowledged by a failed batch or a stopped instance
+   * are retried row by row once idle for `RETRY_IDLE_MS`
+   * @returns Number of transitions written
+   */
+  async flush(): Promise<number> {
+    this.flushing ??= this.writePending().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Mark tickets that expired while pending or scanned
+   * Their Redis key lapsed without anyone reading it, so no transition to
+   * EXPIRED was ever recorded
+   * @returns Number of tickets marked expired
+   */
+  async expireStale(): Promise<number> {
+    const result = await this.qrTicketRepository.update(
+      {
+        status: In([QR_TICKET_STATUSES.PENDING, QR_TICKET_STATUSES.SCANNED]),
+        expiresAt: LessThan(Date.now()),
+      },
+      { status: QR_TICKET_STATUSES.EXPIRED },
+    );
+    const expired = result.affected ?? 0;
+    if (expired > 0) this.logger.log(`Marked ${expired} QR tickets expired`);
+    return expired;
+  }
+
+  /**
+   * Ticket history, newest first by default
+   * @param dto - Filters by participant, type, status and creation time
+   */
+  async listTickets(
+    dto: QrTicketHistoryQueryDto,
+  ): Promise<IPagination<QrTicket>> {
+    const { page, limit, sortBy, order, userId, type, status } = dto;
+
+    const base: FindOptionsWhere<QrTicket> = {};
+    if (type) base.type = type;
+    if (status) base.status = status;
+    const createdAt = this.buildDateRange(dto);
+    if (createdAt) base.createdAt = createdAt;
+
+    const where = userId
+      ? (['createdById', 'scannedById', 'approvedById'] as const).map(
+          (column) => ({ ...base, [column]: userId }),
+        )
+      : base;
+
+    const [tickets, total] = await this.qrTicketRepository.findAndCount({
+      where,
+      order: { [sortBy]: order, id: order },
+      skip: (page - 1) * limit,
+      take: limit,
+      relations: { createdBy: true, scannedBy: true, approvedBy: true },
+    });
+
+    return PaginationFormatter.offset(tickets, total, page, limit);
+  }
+
+  /**
+   * One ticket of the history with the users involved
+   * @param tid - Ticket ID
+   * @throws NotFoundException when the ticket was never recorded
+   */
+  async getTicket(tid: string): Promise<QrTicket> {
+    const ticket = await this.qrTicketRepository.findOne({
+      where: { tid },
+      relations: { createdBy: true, scannedBy: true, approvedBy: true },
+    });
+    if (!ticket) {
+      throw new NotFoundException({
+        messageKey: 'qr.TICKET_HISTORY_NOT_FOUND',
+      });
+    }
+    return ticket;
+  }
+
+  /**
+   * Number of tickets by status, overall and per action type
+   * @param dto - Optional creation time range
+   */
+  async getStats(dto: QrTicketHistoryStatsQueryDto): Promise<{
+    total: number;
+    byStatus: Record<QrTicketStatus, number>;
+    byType: Record<QrActionType, Record<QrTicketStatus, number>>;
+  }> {
+    const query = this.qrTicketRepository
+      .createQueryBuilder('ticket')
+      .select('ticket.type', 'type')
+      .addSelect('ticket.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('ticket.type')
+      .addGroupBy('ticket.status');
+    if (dto.fromDate) {
+      query.andWhere('ticket.createdAt >= :fromDate', {
+        fromDate: dto.fromDate,
+      });
+    }
+    if (dto.toDate) {
+      query.andWhere('ticket.createdAt < :toDate', { toDate: dto.toDate });
+    }
+    const rows = await query.getRawMany<{
+      type: QrActionType;
+      status: QrTicketStatus;
+      count: string;
+    }>();
+
+    const byStatus = this.emptyStatusCounts();
+    const byType = Object.fromEntries(
+      Object.values(QR_ACTION_TYPES).map((type) => [
+        type,
+        this.emptyStatusCounts(),
+      ]),
+    ) as Record<QrActionType, Record<QrTicketStatus, number>>;
+    let total = 0;
+    for (const row of rows) {
+      const count = Number(row.count);
+      total += count;
+      byStatus[row.status] += count;
+      // Custom action types are only listed once they have tickets
+      byType[row.type] ??= this.emptyStatusCounts();
+      byType[row.type][row.status] += count;
+    }
+
+    return { total, byStatus, byType };
+  }
+
+  /**
+   * Number of transitions waiting in the stream, logged when it grows past
+   * `BACKLOG_WARNING` since Postgres is then not keeping up
+   */
+  async reportBacklog(): Promise<number> {
+    const backlog = await this.cacheService
+      .getRedisClient()
+      .xlen(QR_HISTORY_CONFIG.STREAM_KEY);
+    if (backlog > QR_HISTORY_CONFIG.BACKLOG_WARNING) {
+      this.logger.warn(`${backlog} QR ticket transitions wait for history`);
+    }
+    return backlog;
+  }
+
+  private async writePending(): Promise<number> {
+    await this.ensureGroup();
+
+    let written = await this.retryStale();
+    for (;;) {
+      const entries = await this.readNew();
+      if (entries.length === 0) break;
+
+      const tickets = entries.flatMap(({ ticket }) => (ticket ? [ticket] : []));
+      try {
+        await this.upsert(tickets);
+      } catch (error) {
+        // Left unacknowledged, retried row by row once idle
+        this.logger.error(
+          `Failed to write ${entries.length} QR tickets to history:`,
+          error,
+        );
+        break;
+      }
+      await this.acknowledge(
+        entries.filter(({ ticket }) => ticket).map(({ id }) => id),
+      );
+      await Promise.all(
+        entries
+          .filter(({ ticket }) => !ticket)
+          .map((entry) => this.setAside(entry, 'Malformed transition')),
+      );
+      written += tickets.length;
+    }
+    return written;
+  }
+
+  /**
+   * Take over transitions nobody acknowledged in time and write them one by
+   * one, so a bad row cannot hold back the rest of its batch
+   */
+  private async retryStale(): Promise<number> {
+    const redis = this.cacheService.getRedisClient();
+    const [, claimed] = (await redis.xautoclaim(
+      QR_HISTORY_CONFIG.STREAM_KEY,
+      QR_HISTORY_CONFIG.CONSUMER_GROUP,
+      this.consumer,
+      QR_HISTORY_CONFIG.RETRY_IDLE_MS,
+      '0-0',
+      'COUNT',
+      QR_HISTORY_CONFIG.FLUSH_BATCH_SIZE,
+    )) as [string, [string, string[]][]];
+    const entries = this.parseEntries(claimed ?? []);
+    if (entries.length === 0) return 0;
+
+    const pending = (await redis.xpending(
+      QR_HISTORY_CONFIG.STREAM_KEY,
+      QR_HISTORY_CONFIG.CONSUMER_GROUP,
+      entries[0].id,
+      entries[entries.length - 1].id,
+      entries.length,
+      this.consumer,
+    )) as [string, string, number, number][];
+    const deliveries = new Map(pending.map(([id, , , count]) => [id, count]));
+
+    let written = 0;
+    for (const entry of entries) {
+      if (!entry.ticket) {
+        await this.setAside(entry, 'Malformed transition');
+        continue;
+      }
+      try {
+        await this.upsert([entry.ticket]);
+        await this.acknowledge([entry.id]);
+        written++;
+      } catch (error) {
+        if (
+          (deliveries.get(entry.id) ?? 0) >= QR_HISTORY_CONFIG.MAX_DELIVERIES
+        ) {
+          await this.setAside(
+            entry,
+            error instanceof Error ? error.message : String(error),
+          );
+        } else {
+          this.logger.warn(
+            `QR ticket ${entry.ticket.tid} not written to history yet: ${String(error)}`,
+          );
+        }
+      }
+    }
+    return written;
+  }
+
+  private async readNew(): Promise<HistoryEntry[]> {
+    const result = (await this.cacheService
+      .getRedisClient()
+      .xreadgroup(
+        'GROUP',
+        QR_HISTORY_CONFIG.CONSUMER_GROUP,
+        this.consumer,
+        'COUNT',
+        QR_HISTORY_CONFIG.FLUSH_BATCH_SIZE,
+        'STREAMS',
+        QR_HISTORY_CONFIG.STREAM_KEY,
+        '>',
+      )) as [string, [string, string[]][]][] | null;
+    return this.parseEntries(result?.[0]?.[1] ?? []);
+  }
+
+  /**
+   * Create the consumer group once, starting from the oldest entry
+   */
+  private ensureGroup(): Promise<void> {
+    this.groupReady ??= this.cacheService
+      .getRedisClient()
+      .xgroup(
+        'CREATE',
+        QR_HISTORY_CONFIG.STREAM_KEY,
+        QR_HISTORY_CONFIG.CONSUMER_GROUP,
+        '0',
+        'MKSTREAM',
+      )
+      .then(
+        () => undefined,
+        (error: Error) => {
+          if (!error.message.includes('BUSYGROUP')) {
+            this.groupReady = undefined;
+            throw error;
+          }
+        },
+      );
+    return this.groupReady;
+  }
+
+  private parseEntries(entries: [string, string[]][]): HistoryEntry[] {
+    // Deleted entries come back from XAUTOCLAIM without fields
+    return entries
+      .filter(([, fields]) => fields)
+      .map(([id, fields]) => {
+        const raw = fields[fields.indexOf('ticket') + 1] ?? '';
+        try {
+          const ticket = JSON.parse(raw) as CachedQrTicket;
+          return { id, raw, ticket: ticket?.tid ? ticket : undefined };
+        } catch {
+          return { id, raw };
+        }
+      });
+  }
+
+  /**
+   * Upsert tickets, keeping the newest version when a ticket appears twice
+   */
+  private async upsert(tickets: CachedQrTicket[]): Promise<void> {
+    const latest = new Map<string, CachedQrTicket>();
+    for (const ticket of tickets) {
+      const current = latest.get(ticket.tid);
+      if (!current || current.version <= ticket.version) {
+        latest.set(ticket.tid, ticket);
+      }
+    }
+    if (latest.size === 0) return;
+
+    await this.qrTicketRepository
+      .createQueryBuilder()
+      .insert()
+      .into(QrTicket)
+      .values(
+        [...latest.values()].map((ticket) =>
+          this.toRow(ticket),
+        ) as QueryDeepPartialEntity<QrTicket>[],
+      )
+      .orUpdate(TRANSITION_COLUMNS, ['tid'], {
+        overwriteCondition: {
+          where: '"qr_tickets"."version" < EXCLUDED."version"',
+        },
+      })
+      .execute();
+  }
+
+  private async acknowledge(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.cacheService
+      .getRedisClient()
+      .multi()
+      .xack(
+        QR_HISTORY_CONFIG.STREAM_KEY,
+        QR_HISTORY_CONFIG.CONSUMER_GROUP,
+        ...ids,
+      )
+      .xdel(QR_HISTORY_CONFIG.STREAM_KEY, ...ids)
+      .exec();
+  }
+
+  /**
+   * Move a transition that cannot be written to the dead letter stream
+   */
+  private async setAside(entry: HistoryEntry, reason: string): Promise<void> {
+    await this.cacheService
+      .getRedisClient()
+      .multi()
+      .xadd(
+        QR_HISTORY_CONFIG.DEAD_LETTER_KEY,
+        '*',
+        'ticket',
+        entry.raw,
+        'reason',
+        reason,
+        'sourceId',
+        entry.id,
+      )
+      .xack(
+        QR_HISTORY_CONFIG.STREAM_KEY,
+        QR_HISTORY_CONFIG.CONSUMER_GROUP,
+        entry.id,
+      )
+      .xdel(QR_HISTORY_CONFIG.STREAM_KEY, entry.id)
+      .exec();
+    this.logger.error(
+      `QR history entry ${entry.id} set aside in ${QR_HISTORY_CONFIG.DEAD_LETTER_KEY}: ${reason}`,
+    );
+  }
+
+  private toRow(ticket: CachedQrTicket): Partial<QrTicket> {
+    return {
+      id: globalSnowflake.nextId().toString(),
+      tid: ticket.tid,
+      type: ticket.type,
+      status: ticket.status,
+      codeChallenge: ticket.codeChallenge,
+      webSessionId: ticket.webSessionId,
+      // Payloads can carry invitation tokens and keys
+      payload: ticket.payload ? sanitizePayload(ticket.payload) : undefined,
+      createdById: ticket.createdBy,
+      scannedById: ticket.scannedBy,
+      approvedById: ticket.approvedBy,
+      createdAt: new Date(ticket.createdAt),
+      expiresAt: ticket.expiresAt,
+      scannedAt: ticket.scannedAt,
+      approvedAt: ticket.approvedAt,
+      rejectedAt: ticket.rejectedAt,
+      usedAt: ticket.usedAt,
+      requiredApprovals: ticket.requiredApprovals ?? 1,
+      maxUses: ticket.maxUses ?? 1,
+      approvals: ticket.approvals,
+      version: ticket.version,
+    };
+  }
+
+  private buildDateRange({ fromDate, toDate }: QrTicketHistoryQueryDto) {
+    if (fromDate && toDate) {
+      return And(MoreThanOrEqual(fromDate), LessThan(toDate));
+    }
+    if (fromDate) return MoreThanOrEqual(fromDate);
+    if (toDate) return LessThan(toDate);
+    return undefined;
+  }
+
+  private emptyStatusCounts(): Record<QrTicketStatus, number> {
+    return Object.fromEntries(
+      Object.values(QR_TICKET_STATUSES).map((status) => [status, 0]),
+    ) as Record<QrTicketStatus, number>;
+  }
+}
@@ -2,6 +2,12 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import { CacheService } from 'src/shared/services';
+import { JwtKeyRingService } from 'src/auth/jwt-key-ring.service';
+import { SessionActivityService } from 'src/auth/session-activity.service';
+import { SessionRevocationService } from 'src/auth/session-revocation.service';
+import { UsersService } from 'src/users/users.service';
+import { PairedDevicesService } from 'src/paired-devices/paired-devices.service';
+import { QrActionRegistryService } from './qr-action-registry.service';
 import { QrController } from './qr.controller';
 import { QrService } from './qr.service';
 import { QrGateway } from './qr.gateway';
@@ -41,6 +47,10 @@ describe('QrController Polling', () => {
       verifyAsync: jest.fn(),
     };
 
+    const mockUsersService = {
+      findById: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [QrController],
       providers: [
@@ -68,6 +78,30 @@ describe('QrController Polling', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: UsersService,
+          useValue: mockUsersService,
+        },
+        {
+          provide: JwtKeyRingService,
+          useValue: { verify: jest.fn() },
+        },
+        {
+          provide: SessionRevocationService,
+          useValue: { checkSession: jest.fn() },
+        },
+        {
+          provide: SessionActivityService,
+          useValue: { recordActivity: jest.fn() },
+        },
+        {
+          provide: PairedDevicesService,
+          useValue: { takePairingEnvelope: jest.fn() },
+        },
+        {
+          provide: QrActionRegistryService,
+          useValue: { describeActions: jest.fn() },
+        },
       ],
     })
       .overrideGuard(QrPollingRateLimitGuard)
@@ -1,10 +1,12 @@
 import { Request, Response } from 'express';
 import { JwtAccessTokenGuard } from 'src/auth/guard';
+import { NoImpersonation, RequireVerified } from 'src/common/decorators';
 import { AuthPayload } from 'src/common/interface';
+import { PairedDevicesService } from 'src/paired-devices/paired-devices.service';
 import {
-  QrActionType,
-  QR_ACTION_TYPES,
   QR_POLLING_CONFIG,
+  QrApprovalProgress,
+  USER_CONSTANTS,
 } from 'src/shared/constants';
 import { buildResponse } from 'src/shared/helpers/build-response';
 
@@ -30,6 +32,7 @@ import {
   QrPollResponseDto,
   QrGrantExchangeDto,
 } from './dto';
+import { QrActionRegistryService } from './qr-action-registry.service';
 import { QrGateway } from './qr.gateway';
 import { QrService } from './qr.service';
 import { QrPollingService } from './qr-polling.service';
@@ -56,6 +59,8 @@ export class QrController {
     private readonly qrService: QrService,
     private readonly qrGateway: QrGateway,
     private readonly pollingService: QrPollingService,
+    private readonly pairedDevicesService: PairedDevicesService,
+    private readonly actionRegistry: QrActionRegistryService,
   ) {}
 
   /**
@@ -167,7 +172,8 @@ export class QrController {
    * @param ticketId - The ticket ID to approve
    * @param approveTicketDto - DTO containing the PKCE code verifier
    * @param req - Express request object with authenticated user
-   * @returns Success confirmation (grant token is stored server-side)
+   * @returns The ticket status and, for multi-party tickets, the approvals
+   * so far (grant token is stored server-side)
    *
    * @example
    * POST /qr/tickets/abc123/approve
@@ -178,28 +184,37 @@ export class QrController {
    */
   @Post('tickets/:ticketId/approve')
   @UseGuards(JwtAccessTokenGuard)
+  @RequireVerified(USER_CONSTANTS.VERIFICATION_FEATURES.QR_APPROVAL)
+  // Approving signs in other devices, which would outlive the impersonation
+  @NoImpersonation()
   @HttpCode(HttpStatus.OK)
   async approveTicket(
     @Param('ticketId') ticketId: string,
     @Body() approveTicketDto: ApproveTicketDto,
     @Req() req: Request & { user: AuthPayload },
   ) {
-    const userId = req.user.uid;
     const { codeVerifier } = approveTicketDto;
 
     // Approve the ticket and execute the action
-    await this.qrService.approveTicket(ticketId, userId, codeVerifier);
-
-    // Broadcast status update
-    await this.qrGateway.broadcastStatus(
+    const { status, grantToken, progress } = await this.qrService.approveTicket(
       ticketId,
-      'APPROVED',
-      'Action approved, grant token generated',
+      req.user,
+      codeVerifier,
     );
 
+    // Broadcast status update, with the progress of multi-party tickets
+    let message = 'Action approved, grant token generated';
+    if (!grantToken && progress) {
+      message =
+        status === 'USED'
+          ? 'Action approved, no uses left'
+          : `Approval ${progress.approvals} of ${progress.required} recorded`;
+    }
+    await this.qrGateway.broadcastStatus(ticketId, status, message, progress);
+
     return buildResponse({
       messageKey: 'qr.TICKET_APPROVED_SUCCESS',
-      data: { ok: true },
+      data: { ok: true, status, progress },
     });
   }
 
@@ -306,6 +321,10 @@ export class QrController {
       'Grant exchanged, ticket completed',
     );
 
+    // A paired device receives its pairing secret, encrypted to its key.
+    // Only approved PAIR tickets leave one.
+    const pairing = await this.pairedDevicesService.takePairingEnvelope(tid);
+
     // TODO: Generate JWT tokens using AuthService
     // This should integrate with your existing authentication system
     // const tokens = await this.authService.generateTokensFromQrGrant(grant);
@@ -316,6 +335,7 @@ export class QrController {
       messageKey: 'qr.GRANT_EXCHANGED_SUCCESS',
       data: {
         grant,
+        ...(pairing && { pairing }),
         // accessToken: tokens.accessToken,
         // refreshToken: tokens.refreshToken,
         message:
@@ -399,6 +419,7 @@ export class QrController {
       deliveryCode: grantReady && deliveryCode ? deliveryCode : undefined,
       nextPollAfterMs: QR_POLLING_CONFIG.SHORT_POLL_INTERVAL_MS,
       version: snapshot.version,
+      progress: snapshot.progress,
     };
 
     return response;
@@ -496,6 +517,7 @@ export class QrController {
       rejectedAt?: number;
       usedAt?: number;
       webSessionId?: string;
+      progress?: QrApprovalProgress;
     },
     webSessionId: string,
     res: Response,
@@ -537,6 +559,7 @@ export class QrController {
       deliveryCode: grantReady && deliveryCode ? deliveryCode : undefined,
       nextPollAfterMs: QR_POLLING_CONFIG.SHORT_POLL_INTERVAL_MS,
       version: snapshot.version,
+      progress: snapshot.progress,
     };
   }
 
@@ -592,6 +615,7 @@ export class QrController {
 
   /**
    * Gets information about supported action types
+   * Built-in types plus the custom ones enabled by admins
    *
    * @returns Object containing supported action types and their descriptions
    *
@@ -600,53 +624,12 @@ export class QrController {
    */
   @Get('actions')
   async getSupportedActions() {
-    const actions = Object.values(QR_ACTION_TYPES).map((type) => ({
-      type,
-      description: this.getActionDescription(type),
-      requiresPayload: this.actionRequiresPayload(type),
-    }));
-
     return buildResponse({
       messageKey: 'qr.ACTIONS_RETRIEVED_SUCCESS',
-      data: { actions },
+      data: { actions: this.actionRegistry.describeActions() },
     });
   }
 
-  /**
-   * Gets the description for a specific action type
-   *
-   * @param actionType - The action type to get description for
-   * @returns Description string
-   */
-  private getActionDescription(actionType: QrActionType): string {
-    const descriptions = {
-      [QR_ACTION_TYPES.LOGIN]: 'Login to the application via QR code',
-      [QR_ACTION_TYPES.ADD_FRIEND]: 'Add a new friend to your network',
-      [QR_ACTION_TYPES.JOIN_ORG]: 'Join an organization or group',
-      [QR_ACTION_TYPES.PAIR]:
-        'Pair with another device for secure communication',
-    };
-
-    return descriptions[actionType] || 'Unknown action type';
-  }
-
-  /**
-   * Determines if an action type requires payload data
-   *
-   * @param actionType - The action type to check
-   * @returns True if payload is required, false otherwise
-   */
-  private actionRequiresPayload(actionType: QrActionType): boolean {
-    const requiresPayload = {
-      [QR_ACTION_TYPES.LOGIN]: false,
-      [QR_ACTION_TYPES.ADD_FRIEND]: true,
-      [QR_ACTION_TYPES.JOIN_ORG]: true,
-      [QR_ACTION_TYPES.PAIR]: true,
-    };
-
-    return requiresPayload[actionType] || false;
-  }
-
   /**
    * Health check endpoint for the QR module
    *
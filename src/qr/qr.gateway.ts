@@ -4,6 +4,7 @@ import { AuthPayload } from 'src/common/interface';
 import {
   QR_ROOM_PREFIX,
   QR_WS_EVENTS,
+  QrApprovalProgress,
   QrStatusEvent,
   QrTicketStatus,
 } from 'src/shared/constants';
@@ -378,18 +379,21 @@ export class QrGateway extends BaseGateway<
    * @param ticketId - The ticket ID
    * @param status - The new status
    * @param message - Optional message describing the status change
+   * @param progress - Approvals so far of a multi-party ticket
    * @returns Number of clients that received the update
    */
   async broadcastStatus(
     ticketId: string,
     status: QrTicketStatus,
     message?: string,
+    progress?: QrApprovalProgress,
   ): Promise<number> {
     const roomName = `${QR_ROOM_PREFIX}${ticketId}`;
     const eventData: QrStatusEvent = {
       tid: ticketId,
       status,
       message,
+      progress,
       timestamp: Date.now(),
     };
 
@@ -2,17 +2,29 @@ import { Logger, Module, OnModuleInit } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
+import { FriendshipsModule } from '../friendships/friendships.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { PairedDevicesModule } from '../paired-devices/paired-devices.module';
+import { AxiosModule } from '../shared/services/axios/axios.module';
+import { UsersModule } from '../users/users.module';
 import { I18nWsExceptionFilter } from '../common/filters/ws-exception.filter';
 import { AddFriendAction } from './actions/add-friend.action';
 import { JoinOrgAction } from './actions/join-org.action';
 import { LoginAction } from './actions/login.action';
 import { PairAction } from './actions/pair.action';
+import { QrActionTypeDefinition } from './entities/qr-action-type.entity';
 import { QrTicket } from './entities/qr.entity';
 import { QrActionExecutorService } from './qr-action-executor.service';
+import { QrActionRegistryService } from './qr-action-registry.service';
+import { QrActionTypeAdminController } from './qr-action-type-admin.controller';
+import { QrApprovalsService } from './qr-approvals.service';
+import { QrAdminController } from './qr-admin.controller';
 import { QrController } from './qr.controller';
 import { QrGateway } from './qr.gateway';
 import { QrPollingService } from './qr-polling.service';
 import { QrService } from './qr.service';
+import { QrStateIndexService } from './qr-state-index.service';
+import { QrTicketHistoryService } from './qr-ticket-history.service';
 
 /**
  * QR Module - Complete QR Actions feature implementation
@@ -20,9 +32,11 @@ import { QrService } from './qr.service';
  * This module provides:
  * - QR ticket creation and management
  * - Real-time WebSocket status updates
- * - Action execution framework
+ * - Action execution framework, custom action types run through webhooks
  * - PKCE security implementation
  * - Redis-based state management
+ * - Ticket history in Postgres with admin queries
+ * - Redis index of live tickets and grants for stats and cleanup
  *
  * Dependencies:
  * - CacheModule (Redis) - for ticket and grant storage
@@ -33,15 +47,24 @@ import { QrService } from './qr.service';
   imports: [
     // Import ConfigModule to access environment variables
     ConfigModule,
-    TypeOrmModule.forFeature([QrTicket]),
+    TypeOrmModule.forFeature([QrTicket, QrActionTypeDefinition]),
+    AxiosModule,
+    UsersModule,
+    FriendshipsModule,
+    OrganizationsModule,
+    PairedDevicesModule,
   ],
-  controllers: [QrController],
+  controllers: [QrController, QrAdminController, QrActionTypeAdminController],
   providers: [
     // Core services
     QrService,
     QrPollingService,
     QrGateway,
     QrActionExecutorService,
+    QrActionRegistryService,
+    QrTicketHistoryService,
+    QrStateIndexService,
+    QrApprovalsService,
 
     // WebSocket exception filter
     I18nWsExceptionFilter,
@@ -1,4 +1,6 @@
+import { AuthPayload } from 'src/common/interface';
 import {
+  QR_MULTI_PARTY_CONFIG,
   QR_REDIS_PREFIXES,
   QR_ACTION_TYPES,
   QrGrant,
@@ -6,13 +8,18 @@ import {
 } from 'src/shared/constants';
 import { CacheService } from 'src/shared/services';
 
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 
 import { CreateTicketDto } from './dto';
 import { QrActionExecutorService } from './qr-action-executor.service';
+import { QrActionRegistryService } from './qr-action-registry.service';
+import { QrApprovalsService } from './qr-approvals.service';
 import { QrService } from './qr.service';
 import { QrPollingService } from './qr-polling.service';
+import { QrStateIndexService } from './qr-state-index.service';
+import { QrTicketHistoryService } from './qr-ticket-history.service';
 import { generateCodeChallenge } from './qr.utils';
 
 // Helper function to generate valid test ticket IDs
@@ -32,11 +39,24 @@ function createValidCodeChallenge(prefix: string = 'challenge'): string {
     .replace(/=/g, '');
 }
 
+// Mock the Redis client, tickets are stored by a script
+const mockRedis = {
+  eval: jest.fn(),
+};
+
+// Tickets stored by the script, oldest first
+const storedTickets = (): QrTicket[] =>
+  mockRedis.eval.mock.calls.map(
+    (call: unknown[]) => JSON.parse(call[3] as string) as QrTicket,
+  );
+
 // Mock the CacheService
 const mockCacheService = {
+  getRedisClient: () => mockRedis,
   set: jest.fn(),
   get: jest.fn(),
   delete: jest.fn(),
+  getAndDelete: jest.fn(),
   findKeysByPattern: jest.fn(),
   atomicIncrementWithLimit: jest.fn(),
 };
@@ -44,6 +64,7 @@ const mockCacheService = {
 // Mock the QrActionExecutorService
 const mockActionExecutor = {
   execute: jest.fn(),
+  getAction: jest.fn(),
 };
 
 // Mock the ConfigService
@@ -54,6 +75,30 @@ const mockConfigService = {
 const mockPollingService = {
   publishStatusChange: jest.fn(),
   createDeliveryCode: jest.fn(),
+  validateAndConsumeDeliveryCode: jest.fn(),
+};
+
+const mockHistoryService = {
+  record: jest.fn(),
+};
+
+const mockActionRegistry = {
+  assertCreatable: jest.fn(),
+  assertCanApprove: jest.fn(),
+  getTypes: jest.fn(),
+};
+
+const mockApprovals = {
+  add: jest.fn(),
+  remove: jest.fn(),
+  list: jest.fn(),
+};
+
+const mockStateIndex = {
+  recordTransition: jest.fn(),
+  addGrant: jest.fn(),
+  removeGrant: jest.fn(),
+  getStats: jest.fn(),
 };
 
 describe('QrService', () => {
@@ -83,6 +128,22 @@ describe('QrService', () => {
           provide: QrPollingService,
           useValue: mockPollingService,
         },
+        {
+          provide: QrTicketHistoryService,
+          useValue: mockHistoryService,
+        },
+        {
+          provide: QrStateIndexService,
+          useValue: mockStateIndex,
+        },
+        {
+          provide: QrActionRegistryService,
+          useValue: mockActionRegistry,
+        },
+        {
+          provide: QrApprovalsService,
+          useValue: mockApprovals,
+        },
       ],
     }).compile();
 
@@ -96,6 +157,15 @@ describe('QrService', () => {
 
     // Reset mocks
     jest.clearAllMocks();
+    mockActionRegistry.getTypes.mockReturnValue([
+      ...Object.values(QR_ACTION_TYPES),
+      'CHECK_IN',
+    ]);
+    mockRedis.eval.mockResolvedValue(1);
+    mockApprovals.add.mockResolvedValue(1);
+    mockApprovals.list.mockResolvedValue([
+      { userId: 'user123', approvedAt: Date.now() },
+    ]);
 
     // Setup default config values
     mockConfigService.get.mockImplementation((key: string) => {
@@ -139,6 +209,10 @@ describe('QrService', () => {
         }),
         180,
       );
+      expect(mockStateIndex.recordTransition).toHaveBeenCalledWith(
+        expect.objectContaining({ tid: result.ticketId, status: 'PENDING' }),
+        true,
+      );
     });
 
     it('should create a ticket with web session ID', async () => {
@@ -169,6 +243,23 @@ describe('QrService', () => {
 
       expect(result1.ticketId).not.toBe(result2.ticketId);
     });
+
+    it('should not store a ticket the registry refuses', async () => {
+      mockActionRegistry.assertCreatable.mockImplementationOnce(() => {
+        throw new BadRequestException({
+          messageKey: 'qr.UNSUPPORTED_ACTION_TYPE',
+        });
+      });
+
+      await expect(
+        service.createTicket({ type: 'CHECK_IN', payload: { eventId: 1 } }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockActionRegistry.assertCreatable).toHaveBeenCalledWith(
+        'CHECK_IN',
+        { eventId: 1 },
+      );
+      expect(mockCacheService.set).not.toHaveBeenCalled();
+    });
   });
 
   describe('getTicket', () => {
@@ -224,12 +315,30 @@ describe('QrService', () => {
       const result = await service.getTicket(validTid);
 
       expect(result?.status).toBe('EXPIRED');
-      expect(mockCacheService.set).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({ status: 'EXPIRED' }),
-        180,
+      expect(storedTickets()).toEqual([
+        expect.objectContaining({ status: 'EXPIRED', version: 2 }),
+      ]);
+      expect(mockHistoryService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'EXPIRED', version: 2 }),
       );
     });
+
+    it('should record the expiry of a ticket only once', async () => {
+      mockCacheService.get.mockResolvedValue({
+        tid: createValidTicketId('expired'),
+        type: QR_ACTION_TYPES.LOGIN,
+        status: 'EXPIRED',
+        codeChallenge: createValidCodeChallenge('challenge'),
+        createdAt: Date.now() - 200000,
+        expiresAt: Date.now() - 20000,
+        version: 2,
+      });
+
+      await service.getTicket(createValidTicketId('expired'));
+
+      expect(mockRedis.eval).not.toHaveBeenCalled();
+      expect(mockHistoryService.record).not.toHaveBeenCalled();
+    });
   });
 
   describe('getTicketPreview', () => {
@@ -289,14 +398,12 @@ describe('QrService', () => {
       const result = await service.scanTicket(validTid, 'user123');
 
       expect(result).toBe(true);
-      expect(mockCacheService.set).toHaveBeenCalledWith(
-        expect.any(String),
+      expect(storedTickets()).toContainEqual(
         expect.objectContaining({
           status: 'SCANNED',
           scannedBy: 'user123',
           scannedAt: expect.any(Number) as number,
         }),
-        180,
       );
     });
 
@@ -347,6 +454,8 @@ describe('QrService', () => {
   });
 
   describe('approveTicket', () => {
+    const approver = { uid: 'user123', role: 'user' } as AuthPayload;
+
     it('should approve ticket and execute action successfully', async () => {
       const validTid = createValidTicketId('test');
       const validVerifier =
@@ -370,20 +479,19 @@ describe('QrService', () => {
 
       const result = await service.approveTicket(
         validTid,
-        'user123',
+        approver,
         validVerifier,
       );
 
-      expect(result).toBeDefined();
-      expect(typeof result).toBe('string');
-      expect(mockCacheService.set).toHaveBeenCalledWith(
-        expect.any(String),
+      expect(result.status).toBe('APPROVED');
+      expect(typeof result.grantToken).toBe('string');
+      expect(result.progress).toBeUndefined();
+      expect(storedTickets()).toContainEqual(
         expect.objectContaining({
           status: 'APPROVED',
           approvedBy: 'user123',
           approvedAt: expect.any(Number) as number,
         }),
-        180,
       );
       expect(mockActionExecutor.execute).toHaveBeenCalledWith(
         QR_ACTION_TYPES.LOGIN,
@@ -392,6 +500,11 @@ describe('QrService', () => {
           userId: 'user123',
         }),
       );
+      expect(mockStateIndex.addGrant).toHaveBeenCalledWith(
+        result.grantToken,
+        expect.any(Number),
+      );
+      expect(mockApprovals.add).toHaveBeenCalledWith(validTid, 'user123', 1);
     });
 
     it('should throw error for invalid code verifier', async () => {
@@ -415,7 +528,7 @@ describe('QrService', () => {
       mockCacheService.get.mockResolvedValue(mockTicket);
 
       await expect(
-        service.approveTicket(validTid, 'user123', 'invalid_verifier'),
+        service.approveTicket(validTid, approver, 'invalid_verifier'),
       ).rejects.toThrow();
     });
 
@@ -441,16 +554,472 @@ describe('QrService', () => {
       mockActionExecutor.execute.mockRejectedValue(new Error('Action failed'));
 
       await expect(
-        service.approveTicket(validTid, 'user123', validVerifier),
+        service.approveTicket(validTid, approver, validVerifier),
       ).rejects.toThrow();
 
       // Should revert to PENDING status
+      expect(storedTickets()).toContainEqual(
+        expect.objectContaining({ status: 'PENDING' }),
+      );
+      // The approval never happened as far as the history is concerned
+      expect(mockHistoryService.record).not.toHaveBeenCalled();
+      expect(mockStateIndex.recordTransition).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: 'PENDING' }),
+      );
+      expect(mockStateIndex.addGrant).not.toHaveBeenCalled();
+      // The approval is withdrawn so it can be retried
+      expect(mockApprovals.remove).toHaveBeenCalledWith(validTid, 'user123');
+    });
+
+    it('should not run the action for an approver without the required role', async () => {
+      const validTid = createValidTicketId('test');
+      const validVerifier =
+        'verifier1234567890abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+      mockCacheService.get.mockResolvedValue({
+        tid: validTid,
+        type: 'CHECK_IN',
+        status: 'SCANNED',
+        codeChallenge: generateCodeChallenge(validVerifier),
+        createdAt: Date.now() - 100000,
+        expiresAt: Date.now() + 80000,
+        version: 2,
+      });
+      mockActionRegistry.assertCanApprove.mockRejectedValueOnce(
+        new ForbiddenException({ messageKey: 'qr.ACTION_ROLE_REQUIRED' }),
+      );
+
+      await expect(
+        service.approveTicket(validTid, approver, validVerifier),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockActionRegistry.assertCanApprove).toHaveBeenCalledWith(
+        'CHECK_IN',
+        approver,
+      );
+      expect(mockActionExecutor.execute).not.toHaveBeenCalled();
+      expect(mockCacheService.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multi-party tickets', () => {
+    const approver = { uid: 'user123', role: 'user' } as AuthPayload;
+    const validTid = createValidTicketId('multi');
+    const validVerifier =
+      'verifier1234567890abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+    const createTicket = (overrides: Partial<QrTicket>): QrTicket => ({
+      tid: validTid,
+      type: QR_ACTION_TYPES.JOIN_ORG,
+      status: 'SCANNED',
+      codeChallenge: generateCodeChallenge(validVerifier),
+      payload: { orgId: '1', invitationToken: 'token' },
+      createdAt: Date.now() - 100000,
+      expiresAt: Date.now() + 80000,
+      version: 2,
+      ...overrides,
+    });
+
+    it('should record an approval below the quorum without running the action', async () => {
+      mockCacheService.get.mockResolvedValue(
+        createTicket({
+          requiredApprovals: 2,
+          approvers: ['user123', 'user456', 'user789'],
+        }),
+      );
+
+      const result = await service.approveTicket(
+        validTid,
+        approver,
+        validVerifier,
+      );
+
+      expect(result).toEqual({
+        status: 'SCANNED',
+        progress: { approvals: 1, required: 2 },
+      });
+      expect(mockApprovals.add).toHaveBeenCalledWith(validTid, 'user123', 2);
+      expect(mockActionExecutor.execute).not.toHaveBeenCalled();
+      expect(mockHistoryService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'SCANNED',
+          approvals: [expect.objectContaining({ userId: 'user123' })],
+          version: 3,
+        }),
+      );
+      expect(mockPollingService.publishStatusChange).toHaveBeenCalledWith(
+        validTid,
+        'SCANNED',
+        3,
+      );
+      expect(mockStateIndex.addGrant).not.toHaveBeenCalled();
+    });
+
+    it('should run the action once with every approval when the quorum is reached', async () => {
+      const approvals = [
+        { userId: 'user456', approvedAt: Date.now() - 1000 },
+        { userId: 'user123', approvedAt: Date.now() },
+      ];
+      mockCacheService.get.mockResolvedValue(
+        createTicket({ requiredApprovals: 2 }),
+      );
+      mockApprovals.add.mockResolvedValue(2);
+      mockActionExecutor.execute.mockResolvedValue(undefined);
+      mockApprovals.list.mockResolvedValue(approvals);
+
+      const result = await service.approveTicket(
+        validTid,
+        approver,
+        validVerifier,
+      );
+
+      expect(result).toMatchObject({
+        status: 'APPROVED',
+        progress: { approvals: 2, required: 2 },
+      });
+      expect(typeof result.grantToken).toBe('string');
+      expect(mockActionExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(mockActionExecutor.execute).toHaveBeenCalledWith(
+        QR_ACTION_TYPES.JOIN_ORG,
+        expect.objectContaining({ userId: 'user123', approvals }),
+      );
+    });
+
+    it('should refuse a user who is not one of the approvers', async () => {
+      mockCacheService.get.mockResolvedValue(
+        createTicket({ requiredApprovals: 2, approvers: ['user456', 'u789'] }),
+      );
+
+      await expect(
+        service.approveTicket(validTid, approver, validVerifier),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockApprovals.add).not.toHaveBeenCalled();
+    });
+
+    it('should run the action for each user and use the ticket up on its last use', async () => {
+      mockCacheService.get.mockResolvedValue(createTicket({ maxUses: 2 }));
+      mockApprovals.add.mockResolvedValue(2);
+      mockActionExecutor.execute.mockResolvedValue(undefined);
+      mockApprovals.list.mockResolvedValue([
+        { userId: 'user456', approvedAt: Date.now() - 1000 },
+        { userId: 'user123', approvedAt: Date.now() },
+      ]);
+
+      const result = await service.approveTicket(
+        validTid,
+        approver,
+        validVerifier,
+      );
+
+      expect(result).toEqual({
+        status: 'USED',
+        progress: { approvals: 2, required: 2 },
+      });
+      expect(mockActionExecutor.execute).toHaveBeenCalledWith(
+        QR_ACTION_TYPES.JOIN_ORG,
+        expect.objectContaining({ userId: 'user123' }),
+      );
+      expect(storedTickets()).toContainEqual(
+        expect.objectContaining({
+          status: 'USED',
+          usedAt: expect.any(Number) as number,
+        }),
+      );
+      // Multi-use tickets hand nothing to a web session
+      expect(mockStateIndex.addGrant).not.toHaveBeenCalled();
+      expect(mockPollingService.createDeliveryCode).not.toHaveBeenCalled();
+    });
+
+    it('should store a use whose action ran however long concurrent uses keep winning', async () => {
+      mockCacheService.get.mockResolvedValue(createTicket({ maxUses: 3 }));
+      mockActionExecutor.execute.mockResolvedValue(undefined);
+      for (let i = 0; i <= QR_MULTI_PARTY_CONFIG.WRITE_ATTEMPTS; i++) {
+        mockRedis.eval.mockResolvedValueOnce(0);
+      }
+
+      await expect(
+        service.approveTicket(validTid, approver, validVerifier),
+      ).resolves.toMatchObject({ status: 'SCANNED' });
+      expect(mockRedis.eval).toHaveBeenCalledTimes(
+        QR_MULTI_PARTY_CONFIG.WRITE_ATTEMPTS + 2,
+      );
+      expect(mockApprovals.remove).not.toHaveBeenCalled();
+    });
+
+    it('should withdraw a failed use so the user can retry', async () => {
+      mockCacheService.get.mockResolvedValue(createTicket({ maxUses: 3 }));
+      mockActionExecutor.execute.mockRejectedValueOnce(
+        new Error('Action failed'),
+      );
+
+      await expect(
+        service.approveTicket(validTid, approver, validVerifier),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockApprovals.remove).toHaveBeenCalledWith(validTid, 'user123');
+      expect(mockRedis.eval).not.toHaveBeenCalled();
+    });
+
+    it('should not let a multi-use ticket be rejected', async () => {
+      mockCacheService.get.mockResolvedValue(createTicket({ maxUses: 3 }));
+
+      await expect(service.rejectTicket(validTid, 'user123')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockRedis.eval).not.toHaveBeenCalled();
+    });
+
+    it('should replace the approvals asked by the client with the policy of the action', async () => {
+      const approvalPolicy = jest.fn().mockResolvedValue({
+        requiredApprovals: 2,
+        maxUses: 1,
+        approvers: ['admin1', 'admin2', 'admin3'],
+      });
+      mockActionExecutor.getAction.mockReturnValueOnce({ approvalPolicy });
+      const payload = {
+        orgId: '1',
+        invitationToken: 'token',
+        role: 'admin',
+        userId: 'user789',
+      };
+
+      await service.createTicket({
+        type: QR_ACTION_TYPES.JOIN_ORG,
+        payload,
+        requiredApprovals: 1,
+        approvers: ['user789'],
+      });
+
+      expect(approvalPolicy).toHaveBeenCalledWith(payload);
       expect(mockCacheService.set).toHaveBeenCalledWith(
         expect.any(String),
-        expect.objectContaining({ status: 'PENDING' }),
+        expect.objectContaining({
+          requiredApprovals: 2,
+          maxUses: 1,
+          approvers: ['admin1', 'admin2', 'admin3'],
+        }),
         180,
       );
     });
+
+    it('should refuse a policy that cannot be met', async () => {
+      await expect(
+        service.createTicket({ type: QR_ACTION_TYPES.LOGIN, maxUses: 5 }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createTicket({
+          type: QR_ACTION_TYPES.JOIN_ORG,
+          requiredApprovals: 3,
+          approvers: ['1', '2'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.createTicket({
+          type: QR_ACTION_TYPES.JOIN_ORG,
+          requiredApprovals: 2,
+          maxUses: 10,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockCacheService.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('concurrent approvals', () => {
+    const validTid = createValidTicketId('race');
+    const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${validTid}`;
+    const validVerifier =
+      'verifier1234567890abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+    const approverA = { uid: 'user123', role: 'user' } as AuthPayload;
+    const approverB = { uid: 'user456', role: 'user' } as AuthPayload;
+    let store: Map<string, string>;
+    let approvals: Map<string, number>;
+
+    const stored = (): QrTicket =>
+      JSON.parse(store.get(ticketKey) as string) as QrTicket;
+    const listApprovals = () =>
+      Promise.resolve(
+        [...approvals].map(([userId, approvedAt]) => ({ userId, approvedAt })),
+      );
+
+    beforeEach(() => {
+      // Redis as a map, the script stores a ticket only over its version
+      store = new Map([
+        [
+          ticketKey,
+          JSON.stringify({
+            tid: validTid,
+            type: QR_ACTION_TYPES.JOIN_ORG,
+            status: 'SCANNED',
+            codeChallenge: generateCodeChallenge(validVerifier),
+            payload: { orgId: '1', invitationToken: 'token' },
+            createdAt: Date.now() - 100000,
+            expiresAt: Date.now() + 80000,
+            version: 1,
+          }),
+        ],
+      ]);
+      mockCacheService.get.mockImplementation((key: string) =>
+        Promise.resolve(store.has(key) ? JSON.parse(store.get(key)!) : null),
+      );
+      mockRedis.eval.mockImplementation(
+        (
+          _script: string,
+          _keys: number,
+          key: string,
+          value: string,
+          version: number,
+        ) => {
+          const current = store.get(key);
+          if (!current) return Promise.resolve(-1);
+          if ((JSON.parse(current) as QrTicket).version !== version) {
+            return Promise.resolve(0);
+          }
+          store.set(key, value);
+          return Promise.resolve(1);
+        },
+      );
+
+      approvals = new Map();
+      mockApprovals.add.mockImplementation((_tid: string, userId: string) => {
+        approvals.set(userId, Date.now());
+        return Promise.resolve(approvals.size);
+      });
+      mockApprovals.list.mockImplementation(listApprovals);
+      mockActionExecutor.execute.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      mockCacheService.get.mockReset();
+      mockCacheService.getAndDelete.mockReset();
+      mockApprovals.add.mockReset();
+      mockApprovals.list.mockReset();
+    });
+
+    it('should store every approval below the quorum with its own version', async () => {
+      store.set(
+        ticketKey,
+        JSON.stringify({ ...stored(), requiredApprovals: 3 }),
+      );
+
+      await Promise.all([
+        service.approveTicket(validTid, approverA, validVerifier),
+        service.approveTicket(validTid, approverB, validVerifier),
+      ]);
+
+      expect(stored()).toMatchObject({ status: 'SCANNED', version: 3 });
+      expect(stored().approvals).toHaveLength(2);
+      expect(
+        mockPollingService.publishStatusChange.mock.calls.map(
+          (call: unknown[]) => call[2],
+        ),
+      ).toEqual([2, 3]);
+      expect(mockActionExecutor.execute).not.toHaveBeenCalled();
+    });
+
+    it('should not store a ticket as open after a faster approval reached the quorum', async () => {
+      store.set(
+        ticketKey,
+        JSON.stringify({ ...stored(), requiredApprovals: 2 }),
+      );
+      // The first approval lists the approvals only after the second one
+      // approved the ticket
+      let release: () => void = () => undefined;
+      const slowList = new Promise<void>((resolve) => (release = resolve));
+      mockApprovals.list.mockImplementationOnce(async () => {
+        await slowList;
+        return listApprovals();
+      });
+
+      const first = service.approveTicket(validTid, approverA, validVerifier);
+      const second = await service.approveTicket(
+        validTid,
+        approverB,
+        validVerifier,
+      );
+      release();
+
+      expect(second.status).toBe('APPROVED');
+      await expect(first).resolves.toMatchObject({ status: 'APPROVED' });
+      expect(stored()).toMatchObject({
+        status: 'APPROVED',
+        approvedBy: 'user456',
+        version: 2,
+      });
+      expect(mockActionExecutor.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hand a grant to only one of two concurrent exchanges', async () => {
+      store.set(
+        ticketKey,
+        JSON.stringify({ ...stored(), status: 'APPROVED', version: 2 }),
+      );
+      const grant: QrGrant = {
+        tid: validTid,
+        type: QR_ACTION_TYPES.JOIN_ORG,
+        userId: 'user123',
+        createdAt: Date.now(),
+        expiresAt: Date.now() + 30000,
+      };
+      store.set(`${QR_REDIS_PREFIXES.GRANT}grant123`, JSON.stringify(grant));
+      mockCacheService.getAndDelete.mockImplementation((key: string) => {
+        const value = store.get(key);
+        store.delete(key);
+        return Promise.resolve(value ? JSON.parse(value) : null);
+      });
+
+      const results = await Promise.allSettled([
+        service.exchangeGrant('grant123'),
+        service.exchangeGrant('grant123'),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(stored()).toMatchObject({ status: 'USED', version: 3 });
+      expect(mockHistoryService.record).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not mark a ticket used over a concurrent change', async () => {
+      // A delivery code exchange read the ticket before it expired
+      store.set(
+        ticketKey,
+        JSON.stringify({ ...stored(), status: 'EXPIRED', version: 3 }),
+      );
+      mockPollingService.validateAndConsumeDeliveryCode.mockResolvedValueOnce(
+        true,
+      );
+      mockCacheService.get.mockResolvedValueOnce({
+        ...stored(),
+        status: 'APPROVED',
+        version: 2,
+      });
+
+      await expect(
+        service.exchangeDeliveryCode(validTid, 'code'),
+      ).rejects.toThrow(BadRequestException);
+      expect(stored()).toMatchObject({ status: 'EXPIRED', version: 3 });
+    });
+
+    it('should not reject a ticket a concurrent approval already approved', async () => {
+      store.set(ticketKey, JSON.stringify({ ...stored(), version: 2 }));
+      const stale = { ...stored(), version: 1 };
+      mockCacheService.get.mockResolvedValueOnce(stale);
+
+      await expect(service.rejectTicket(validTid, 'user123')).resolves.toBe(
+        true,
+      );
+      expect(stored()).toMatchObject({ status: 'REJECTED', version: 3 });
+
+      store.set(
+        ticketKey,
+        JSON.stringify({ ...stored(), status: 'APPROVED', version: 4 }),
+      );
+      mockCacheService.get.mockResolvedValueOnce({ ...stale, version: 3 });
+
+      await expect(service.rejectTicket(validTid, 'user123')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(stored()).toMatchObject({ status: 'APPROVED', version: 4 });
+    });
   });
 
   describe('rejectTicket', () => {
@@ -475,12 +1044,17 @@ describe('QrService', () => {
       const result = await service.rejectTicket(validTid, 'user123');
 
       expect(result).toBe(true);
-      expect(mockCacheService.set).toHaveBeenCalledWith(
-        expect.any(String),
+      expect(storedTickets()).toContainEqual(
         expect.objectContaining({
           status: 'REJECTED',
         }),
-        180,
+      );
+      expect(mockHistoryService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'REJECTED',
+          rejectedAt: expect.any(Number) as number,
+          version: 2,
+        }),
       );
     });
   });
@@ -510,25 +1084,23 @@ describe('QrService', () => {
         version: 1,
       };
 
-      mockCacheService.get
-        .mockResolvedValueOnce(mockGrant) // First call for grant
-        .mockResolvedValueOnce(mockTicket); // Second call for ticket
+      mockCacheService.getAndDelete.mockResolvedValueOnce(mockGrant);
+      mockCacheService.get.mockResolvedValueOnce(mockTicket);
 
       const result = await service.exchangeGrant('grant123');
 
       expect(result).toEqual(mockGrant);
-      expect(mockCacheService.set).toHaveBeenCalledWith(
-        expect.any(String),
-        expect.objectContaining({ status: 'USED' }),
-        180,
-      );
-      expect(mockCacheService.delete).toHaveBeenCalledWith(
+      expect(mockCacheService.getAndDelete).toHaveBeenCalledWith(
         `${QR_REDIS_PREFIXES.GRANT}grant123`,
       );
+      expect(storedTickets()).toEqual([
+        expect.objectContaining({ status: 'USED', version: 2 }),
+      ]);
+      expect(mockStateIndex.removeGrant).toHaveBeenCalledWith('grant123');
     });
 
     it('should throw error for non-existent grant', async () => {
-      mockCacheService.get.mockResolvedValue(null);
+      mockCacheService.getAndDelete.mockResolvedValue(null);
 
       const validGrantToken = createValidTicketId('grant');
       await expect(service.exchangeGrant(validGrantToken)).rejects.toThrow();
@@ -546,78 +1118,49 @@ describe('QrService', () => {
         expiresAt: Date.now() - 10000, // expired
       };
 
-      mockCacheService.get.mockResolvedValue(mockGrant);
+      mockCacheService.getAndDelete.mockResolvedValue(mockGrant);
 
       await expect(service.exchangeGrant(validGrantToken)).rejects.toThrow();
-    });
-  });
-
-  describe('cleanupExpired', () => {
-    it('should clean up expired tickets and grants', async () => {
-      const expiredTicketKeys = [
-        `${QR_REDIS_PREFIXES.TICKET}expired1`,
-        `${QR_REDIS_PREFIXES.TICKET}expired2`,
-      ];
-      const expiredGrantKeys = [`${QR_REDIS_PREFIXES.GRANT}expired1`];
-
-      mockCacheService.findKeysByPattern
-        .mockResolvedValueOnce(expiredTicketKeys)
-        .mockResolvedValueOnce(expiredGrantKeys);
-
-      // Mock expired tickets
-      mockCacheService.get
-        .mockResolvedValueOnce({ expiresAt: Date.now() - 10000 } as QrTicket) // expired
-        .mockResolvedValueOnce({ expiresAt: Date.now() - 10000 } as QrTicket) // expired
-        .mockResolvedValueOnce({ expiresAt: Date.now() - 10000 } as QrGrant); // expired grant
-
-      const result = await service.cleanupExpired();
-
-      expect(result.tickets).toBe(2);
-      expect(result.grants).toBe(1);
-      expect(mockCacheService.delete).toHaveBeenCalledTimes(3);
+      expect(mockRedis.eval).not.toHaveBeenCalled();
     });
   });
 
   describe('getStats', () => {
-    it('should return correct statistics', async () => {
-      const ticketKeys = [
-        `${QR_REDIS_PREFIXES.TICKET}ticket1`,
-        `${QR_REDIS_PREFIXES.TICKET}ticket2`,
-      ];
-      const grantKeys = [`${QR_REDIS_PREFIXES.GRANT}grant1`];
+    it('should read the stats from the state index', async () => {
+      const stats = {
+        totalTickets: 2,
+        activeTickets: 2,
+        totalGrants: 1,
+        activeGrants: 1,
+        actionTypeBreakdown: { [QR_ACTION_TYPES.LOGIN]: 2 },
+        statusBreakdown: { PENDING: 2 },
+      };
+      mockStateIndex.getStats.mockResolvedValue(stats);
 
-      mockCacheService.findKeysByPattern
-        .mockResolvedValueOnce(ticketKeys)
-        .mockResolvedValueOnce(grantKeys);
+      const result = await service.getStats();
 
-      // Mock tickets
-      mockCacheService.get
-        .mockResolvedValueOnce({
-          type: QR_ACTION_TYPES.LOGIN,
-          expiresAt: Date.now() + 100000,
-          version: 1,
-          status: 'PENDING',
-        } as QrTicket)
-        .mockResolvedValueOnce({
-          type: QR_ACTION_TYPES.ADD_FRIEND,
-          expiresAt: Date.now() + 100000,
-          version: 1,
-          status: 'APPROVED',
-        } as QrTicket);
+      expect(result).toMatchObject({ totalTickets: 2, activeGrants: 1 });
+      // Registered types without live tickets are listed too
+      expect(result.actionTypeBreakdown).toEqual({
+        LOGIN: 2,
+        ADD_FRIEND: 0,
+        JOIN_ORG: 0,
+        PAIR: 0,
+        CHECK_IN: 0,
+      });
+      expect(mockCacheService.findKeysByPattern).not.toHaveBeenCalled();
+    });
 
-      // Mock grant
-      mockCacheService.get.mockResolvedValueOnce({
-        expiresAt: Date.now() + 10000,
-      } as QrGrant);
+    it('should return empty stats when Redis is unavailable', async () => {
+      mockStateIndex.getStats.mockRejectedValue(new Error('Redis down'));
 
       const result = await service.getStats();
 
-      expect(result.totalTickets).toBe(2);
-      expect(result.activeTickets).toBe(2);
-      expect(result.totalGrants).toBe(1);
-      expect(result.activeGrants).toBe(1);
-      expect(result.actionTypeBreakdown[QR_ACTION_TYPES.LOGIN]).toBe(1);
-      expect(result.actionTypeBreakdown[QR_ACTION_TYPES.ADD_FRIEND]).toBe(1);
+      expect(result.totalTickets).toBe(0);
+      expect(result.activeGrants).toBe(0);
+      expect(result.actionTypeBreakdown[QR_ACTION_TYPES.PAIR]).toBe(0);
+      expect(result.actionTypeBreakdown.CHECK_IN).toBe(0);
+      expect(result.statusBreakdown.USED).toBe(0);
     });
   });
 
@@ -1,9 +1,11 @@
+import { AuthPayload } from 'src/common/interface';
 import {
   QR_ERROR_MESSAGES,
+  QR_MULTI_PARTY_CONFIG,
   QR_REDIS_PREFIXES,
   QR_TTL_DEFAULTS,
-  QR_ACTION_TYPES,
-  QrActionType,
+  QR_TICKET_STATUSES,
+  QrApprovalProgress,
   QrGrant,
   QrTicket,
   QrTicketPreview,
@@ -13,6 +15,8 @@ import { CacheService } from 'src/shared/services';
 
 import {
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   Injectable,
   Logger,
   NotFoundException,
@@ -21,18 +25,55 @@ import { ConfigService } from '@nestjs/config';
 
 import { CreateTicketDto } from './dto';
 import { QrActionExecutorService } from './qr-action-executor.service';
+import { QrActionRegistryService } from './qr-action-registry.service';
+import { QrApprovalsService } from './qr-approvals.service';
 import { QrPollingService } from './qr-polling.service';
+import { QrStateIndexService, QrStateStats } from './qr-state-index.service';
+import { QrTicketHistoryService } from './qr-ticket-history.service';
 import {
   generateCodeChallenge,
   generateCodeVerifier,
   generateDeepLink,
   generateGrantToken,
   generateTicketId,
+  getApprovalProgress,
   isValidTicketId,
   sanitizePayload,
   verifyCodeChallenge,
 } from './qr.utils';
 
+/**
+ * Store a ticket unless another request stored a newer version first
+ * KEYS: ticket
+ * ARGV: ticket JSON, version it was changed from, TTL in seconds
+ */
+const SAVE_TICKET_SCRIPT = `
+  local current = redis.call('GET', KEYS[1])
+  if not current then
+    return -1
+  end
+  if (tonumber(cjson.decode(current).version) or 0) ~= tonumber(ARGV[2]) then
+    return 0
+  end
+  redis.call('SET', KEYS[1], ARGV[1], 'EX', ARGV[3])
+  return 1
+`;
+
+/** Statuses a ticket can be scanned, approved or rejected in */
+const OPEN_STATUSES: QrTicketStatus[] = ['PENDING', 'SCANNED'];
+
+/**
+ * Outcome of one approval of a ticket
+ */
+export interface QrApprovalResult {
+  /** Status of the ticket after the approval */
+  status: QrTicketStatus;
+  /** Grant for the web session, once a single-use ticket is approved */
+  grantToken?: string;
+  /** Approvals so far, only for multi-party tickets */
+  progress?: QrApprovalProgress;
+}
+
 /**
  * QR Service - Core business logic for QR Actions feature
  *
@@ -43,6 +84,10 @@ import {
  * - Grant token generation and management
  * - Action execution coordination
  * - Redis-based state management
+ * - Ticket history, every transition is recorded through QrTicketHistoryService
+ * - Stats from the Redis index kept by QrStateIndexService
+ * - Multi-party tickets: a quorum of approvals runs the action once, or each
+ *   of several users runs it once for themselves
  */
 @Injectable()
 export class QrService {
@@ -55,6 +100,10 @@ export class QrService {
     private readonly actionExecutor: QrActionExecutorService,
     private readonly configService: ConfigService,
     private readonly pollingService: QrPollingService,
+    private readonly historyService: QrTicketHistoryService,
+    private readonly stateIndex: QrStateIndexService,
+    private readonly actionRegistry: QrActionRegistryService,
+    private readonly approvalsService: QrApprovalsService,
   ) {
     // Get TTL values from configuration with fallbacks
     this.ticketTtl =
@@ -87,6 +136,25 @@ export class QrService {
   }> {
     this.logger.log(`Creating QR ticket for action: ${createTicketDto.type}`);
 
+    this.actionRegistry.assertCreatable(
+      createTicketDto.type,
+      createTicketDto.payload,
+    );
+    // Some actions decide who approves from the payload, not the client
+    const policy = await this.actionExecutor
+      .getAction(createTicketDto.type)
+      ?.approvalPolicy(createTicketDto.payload);
+    const { requiredApprovals, maxUses, approvers } = {
+      ...createTicketDto,
+      ...policy,
+    };
+    this.assertApprovalPolicy({
+      ...createTicketDto,
+      requiredApprovals,
+      maxUses,
+      approvers,
+    });
+
     // Generate secure random values
     const ticketId = generateTicketId();
     const codeVerifier = generateCodeVerifier();
@@ -103,11 +171,15 @@ export class QrService {
       createdAt: Date.now(),
       expiresAt: Date.now() + this.ticketTtl * 1000,
       version: 1,
+      requiredApprovals,
+      maxUses,
+      approvers,
     };
 
     // Store ticket in Redis with TTL
     const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${ticketId}`;
     await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+    await this.trackTransition(ticket, true);
 
     // Generate QR content (deep link)
     const qrContent = generateDeepLink(ticketId, codeChallenge, {
@@ -147,9 +219,8 @@ export class QrService {
     }
 
     // Check if ticket has expired
-    if (Date.now() > ticket.expiresAt) {
-      ticket.status = 'EXPIRED';
-      await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+    if (Date.now() > ticket.expiresAt && ticket.status !== 'EXPIRED') {
+      return this.expireTicket(ticket);
     }
 
     return ticket;
@@ -176,6 +247,7 @@ export class QrService {
         : undefined,
       status: isExpired ? 'EXPIRED' : ticket.status,
       isExpired,
+      progress: getApprovalProgress(ticket),
     };
   }
 
@@ -194,8 +266,10 @@ export class QrService {
       throw new NotFoundException(QR_ERROR_MESSAGES.TICKET_NOT_FOUND);
     }
 
-    // Validate ticket status
-    if (ticket.status !== 'PENDING') {
+    // Validate ticket status, multi-party tickets are scanned by everyone
+    const rescannable =
+      ticket.status === 'SCANNED' && getApprovalProgress(ticket) !== undefined;
+    if (ticket.status !== 'PENDING' && !rescannable) {
       throw new BadRequestException(
         `Cannot scan ticket with status: ${ticket.status}`,
       );
@@ -203,27 +277,39 @@ export class QrService {
 
     // Check if ticket has expired
     if (Date.now() > ticket.expiresAt) {
-      ticket.status = 'EXPIRED';
-      const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${ticketId}`;
-      await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+      await this.expireTicket(ticket);
       throw new BadRequestException(QR_ERROR_MESSAGES.TICKET_EXPIRED);
     }
 
-    // Update ticket status
-    ticket.status = 'SCANNED';
-    ticket.scannedBy = userId;
-    ticket.scannedAt = Date.now();
-    ticket.version = (ticket.version || 0) + 1;
-
-    // Store updated ticket
-    const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${ticketId}`;
-    await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+    // Update ticket status, unless a concurrent request moved it on
+    const scannedAt = Date.now();
+    const { ticket: scanned, updated } = await this.updateTicket(
+      ticket,
+      (current) => {
+        if (
+          current.status !== 'PENDING' &&
+          !(current.status === 'SCANNED' && getApprovalProgress(current))
+        ) {
+          return false;
+        }
+        current.status = 'SCANNED';
+        current.scannedBy = userId;
+        current.scannedAt = scannedAt;
+        return true;
+      },
+    );
+    if (!updated) {
+      throw new BadRequestException(
+        `Cannot scan ticket with status: ${scanned.status}`,
+      );
+    }
+    await this.trackTransition(scanned);
 
     // Publish status change
     await this.pollingService.publishStatusChange(
       ticketId,
       'SCANNED',
-      ticket.version,
+      scanned.version,
     );
 
     this.logger.log(`Ticket ${ticketId} marked as scanned successfully`);
@@ -234,16 +320,23 @@ export class QrService {
   /**
    * Approves a ticket and executes the associated action
    *
+   * A quorum ticket only records approvals until enough distinct users
+   * approved, the approval reaching the quorum runs the action once. A
+   * multi-use ticket runs the action for each distinct approver and is used
+   * up after its last use, without grants.
+   *
    * @param ticketId - The ticket ID to approve
-   * @param userId - The user ID who approved the ticket
+   * @param approver - Token of the user approving, custom action types can
+   * require a role
    * @param codeVerifier - The PKCE code verifier
-   * @returns The generated grant token
+   * @returns The ticket status and, once approved, the generated grant token
    */
   async approveTicket(
     ticketId: string,
-    userId: string,
+    approver: AuthPayload,
     codeVerifier: string,
-  ): Promise<string> {
+  ): Promise<QrApprovalResult> {
+    const userId = approver.uid;
     this.logger.log(`Approving ticket ${ticketId} by user ${userId}`);
 
     const ticket = await this.getTicket(ticketId);
@@ -252,7 +345,7 @@ export class QrService {
     }
 
     // Validate ticket status
-    if (!['PENDING', 'SCANNED'].includes(ticket.status)) {
+    if (!OPEN_STATUSES.includes(ticket.status)) {
       throw new BadRequestException(
         `Cannot approve ticket with status: ${ticket.status}`,
       );
@@ -260,9 +353,7 @@ export class QrService {
 
     // Check if ticket has expired
     if (Date.now() > ticket.expiresAt) {
-      ticket.status = 'EXPIRED';
-      const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${ticketId}`;
-      await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+      await this.expireTicket(ticket);
       throw new BadRequestException(QR_ERROR_MESSAGES.TICKET_EXPIRED);
     }
 
@@ -271,42 +362,109 @@ export class QrService {
       throw new BadRequestException(QR_ERROR_MESSAGES.INVALID_CODE_VERIFIER);
     }
 
-    // Update ticket status
-    ticket.status = 'APPROVED';
-    ticket.approvedBy = userId;
-    ticket.approvedAt = Date.now();
-    ticket.version = (ticket.version || 0) + 1;
+    await this.actionRegistry.assertCanApprove(ticket.type, approver);
+    this.assertIsApprover(ticket, userId);
 
-    // Store updated ticket
-    const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${ticketId}`;
-    await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+    // Counted atomically, so only one approval reaches the quorum or the
+    // last use
+    const requiredApprovals = ticket.requiredApprovals ?? 1;
+    const maxUses = ticket.maxUses ?? 1;
+    const approvals = await this.approvalsService.add(
+      ticketId,
+      userId,
+      Math.max(requiredApprovals, maxUses),
+    );
+
+    if (maxUses > 1) {
+      return this.useTicket(ticket, userId);
+    }
+
+    if (approvals < requiredApprovals) {
+      // Quorum not reached yet, only record the approval. A concurrent
+      // approval may have stored the ticket first, or reached the quorum
+      const { ticket: recorded, updated } = await this.updateTicket(
+        ticket,
+        async (current) => {
+          if (!OPEN_STATUSES.includes(current.status)) return false;
+          current.approvals = await this.approvalsService.list(ticketId);
+          return true;
+        },
+      );
+      if (updated) {
+        await this.trackTransition(recorded);
+        await this.pollingService.publishStatusChange(
+          ticketId,
+          recorded.status,
+          recorded.version,
+        );
+      }
+
+      this.logger.log(
+        `Ticket ${ticketId} approved by ${approvals} of ${requiredApprovals} users`,
+      );
+      return {
+        status: recorded.status,
+        progress: getApprovalProgress(recorded),
+      };
+    }
+
+    // Update ticket status, unless it was rejected meanwhile
+    const approvedAt = Date.now();
+    const { ticket: approved, updated } = await this.updateTicket(
+      ticket,
+      async (current) => {
+        if (!OPEN_STATUSES.includes(current.status)) return false;
+        current.status = 'APPROVED';
+        current.approvedBy = userId;
+        current.approvedAt = approvedAt;
+        current.approvals = await this.approvalsService.list(ticketId);
+        return true;
+      },
+    );
+    if (!updated) {
+      await this.approvalsService.remove(ticketId, userId);
+      throw new BadRequestException(
+        `Cannot approve ticket with status: ${approved.status}`,
+      );
+    }
 
     // Execute the action
     try {
-      await this.actionExecutor.execute(ticket.type, {
+      await this.actionExecutor.execute(approved.type, {
         tid: ticketId,
         userId,
-        payload: ticket.payload,
-        webSessionId: ticket.webSessionId,
-        approvedAt: ticket.approvedAt,
+        payload: approved.payload,
+        webSessionId: approved.webSessionId,
+        approvedAt,
+        approvals: approved.approvals,
       });
     } catch (error) {
       this.logger.error(
         `Failed to execute action for ticket ${ticketId}:`,
         error,
       );
-      // Revert ticket status on action failure
-      ticket.status = 'PENDING';
-      await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+      // Revert ticket status on action failure, the other approvals stand
+      await this.approvalsService.remove(ticketId, userId);
+      const { ticket: reverted, updated: revertedNow } =
+        await this.updateTicket(approved, async (current) => {
+          if (current.status !== 'APPROVED') return false;
+          current.status = 'PENDING';
+          current.approvals = await this.approvalsService.list(ticketId);
+          return true;
+        });
+      if (revertedNow) {
+        await this.stateIndex.recordTransition(reverted);
+      }
       throw new BadRequestException(QR_ERROR_MESSAGES.ACTION_EXECUTION_FAILED);
     }
+    await this.trackTransition(approved);
 
     // Generate grant token
     const grantToken = generateGrantToken();
     const grant: QrGrant = {
       tid: ticketId,
-      type: ticket.type,
-      webSessionId: ticket.webSessionId,
+      type: approved.type,
+      webSessionId: approved.webSessionId,
       userId,
       createdAt: Date.now(),
       expiresAt: Date.now() + this.grantTtl * 1000,
@@ -315,12 +473,13 @@ export class QrService {
     // Store grant in Redis with TTL
     const grantKey = `${QR_REDIS_PREFIXES.GRANT}${grantToken}`;
     await this.cacheService.set(grantKey, grant, this.grantTtl);
+    await this.stateIndex.addGrant(grantToken, grant.expiresAt);
 
     // Create delivery code for polling if webSessionId exists
-    if (ticket.webSessionId) {
+    if (approved.webSessionId) {
       await this.pollingService.createDeliveryCode(
         ticketId,
-        ticket.webSessionId,
+        approved.webSessionId,
       );
     }
 
@@ -328,18 +487,24 @@ export class QrService {
     await this.pollingService.publishStatusChange(
       ticketId,
       'APPROVED',
-      ticket.version,
+      approved.version,
     );
 
     this.logger.log(
       `Ticket ${ticketId} approved successfully, grant token generated`,
     );
 
-    return grantToken;
+    return {
+      status: approved.status,
+      grantToken,
+      progress: getApprovalProgress(approved),
+    };
   }
 
   /**
    * Rejects a ticket
+   * One rejection ends a quorum ticket, a multi-use ticket cannot be
+   * rejected since each of its users only approves for themselves
    *
    * @param ticketId - The ticket ID to reject
    * @param userId - The user ID who rejected the ticket
@@ -354,25 +519,39 @@ export class QrService {
     }
 
     // Validate ticket status
-    if (!['PENDING', 'SCANNED'].includes(ticket.status)) {
+    if (!OPEN_STATUSES.includes(ticket.status)) {
       throw new BadRequestException(
         `Cannot reject ticket with status: ${ticket.status}`,
       );
     }
+    this.assertIsApprover(ticket, userId);
+    if ((ticket.maxUses ?? 1) > 1) {
+      throw new BadRequestException({ messageKey: 'qr.TICKET_NOT_REJECTABLE' });
+    }
 
-    // Update ticket status
-    ticket.status = 'REJECTED';
-    ticket.version = (ticket.version || 0) + 1;
-
-    // Store updated ticket
-    const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${ticketId}`;
-    await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+    // Update ticket status, unless a concurrent approval reached the quorum
+    const rejectedAt = Date.now();
+    const { ticket: rejected, updated } = await this.updateTicket(
+      ticket,
+      (current) => {
+        if (!OPEN_STATUSES.includes(current.status)) return false;
+        current.status = 'REJECTED';
+        current.rejectedAt = rejectedAt;
+        return true;
+      },
+    );
+    if (!updated) {
+      throw new BadRequestException(
+        `Cannot reject ticket with status: ${rejected.status}`,
+      );
+    }
+    await this.trackTransition(rejected);
 
     // Publish status change
     await this.pollingService.publishStatusChange(
       ticketId,
       'REJECTED',
-      ticket.version,
+      rejected.version,
     );
 
     this.logger.log(`Ticket ${ticketId} rejected successfully`);
@@ -389,12 +568,14 @@ export class QrService {
   async exchangeGrant(grantToken: string): Promise<QrGrant> {
     this.logger.log(`Exchanging grant token: ${grantToken}`);
 
+    // Consumed atomically, so only one concurrent exchange gets the grant
     const grantKey = `${QR_REDIS_PREFIXES.GRANT}${grantToken}`;
-    const grant = await this.cacheService.get<QrGrant>(grantKey);
+    const grant = await this.cacheService.getAndDelete<QrGrant>(grantKey);
 
     if (!grant) {
       throw new NotFoundException('Grant token not found or expired');
     }
+    await this.stateIndex.removeGrant(grantToken);
 
     // Check if grant has expired
     if (Date.now() > grant.expiresAt) {
@@ -408,19 +589,13 @@ export class QrService {
     }
 
     // Mark ticket as used
-    ticket.status = 'USED';
-    ticket.version = (ticket.version || 0) + 1;
-    const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${grant.tid}`;
-    await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
-
-    // Delete the grant token (one-time use)
-    await this.cacheService.delete(grantKey);
+    const used = await this.markUsed(ticket);
 
     // Publish status change
     await this.pollingService.publishStatusChange(
       grant.tid,
       'USED',
-      ticket.version,
+      used.version,
     );
 
     this.logger.log(`Grant token ${grantToken} exchanged successfully`);
@@ -474,13 +649,10 @@ export class QrService {
     };
 
     // Mark ticket as used
-    ticket.status = 'USED';
-    ticket.version = (ticket.version || 0) + 1;
-    const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${tid}`;
-    await this.cacheService.set(ticketKey, ticket, this.ticketTtl);
+    const used = await this.markUsed(ticket);
 
     // Publish status change
-    await this.pollingService.publishStatusChange(tid, 'USED', ticket.version);
+    await this.pollingService.publishStatusChange(tid, 'USED', used.version);
 
     this.logger.log(`Delivery code for ticket ${tid} exchanged successfully`);
 
@@ -488,129 +660,246 @@ export class QrService {
   }
 
   /**
-   * Cleans up expired tickets and grants
-   * This method can be called periodically to clean up expired data
+   * Gets statistics about QR tickets and grants
    *
-   * @returns Number of cleaned up items
+   * @returns Object containing various statistics
    */
-  async cleanupExpired(): Promise<{ tickets: number; grants: number }> {
-    this.logger.log('Starting cleanup of expired QR tickets and grants');
-
-    let cleanedTickets = 0;
-    let cleanedGrants = 0;
-
+  async getStats(): Promise<QrStateStats> {
+    // Every registered type is listed, even without live tickets
+    const actionTypeBreakdown = this.emptyCounts(
+      this.actionRegistry.getTypes(),
+    );
     try {
-      // Clean up expired tickets
-      const ticketPattern = `${QR_REDIS_PREFIXES.TICKET}*`;
-      const expiredTickets =
-        await this.cacheService.findKeysByPattern(ticketPattern);
-
-      for (const ticketKey of expiredTickets) {
-        const ticket = await this.cacheService.get<QrTicket>(ticketKey);
-        if (ticket && Date.now() > ticket.expiresAt) {
-          await this.cacheService.delete(ticketKey);
-          cleanedTickets++;
-        }
-      }
-
-      // Clean up expired grants
-      const grantPattern = `${QR_REDIS_PREFIXES.GRANT}*`;
-      const expiredGrants =
-        await this.cacheService.findKeysByPattern(grantPattern);
-
-      for (const grantKey of expiredGrants) {
-        const grant = await this.cacheService.get<QrGrant>(grantKey);
-        if (grant && Date.now() > grant.expiresAt) {
-          await this.cacheService.delete(grantKey);
-          cleanedGrants++;
-        }
-      }
-
-      this.logger.log(
-        `Cleanup completed: ${cleanedTickets} tickets, ${cleanedGrants} grants removed`,
-      );
+      const stats = await this.stateIndex.getStats();
+      return {
+        ...stats,
+        actionTypeBreakdown: {
+          ...actionTypeBreakdown,
+          ...stats.actionTypeBreakdown,
+        },
+      };
     } catch (error) {
-      this.logger.error('Error during cleanup:', error);
+      this.logger.error('Error getting QR statistics:', error);
+      return {
+        totalTickets: 0,
+        activeTickets: 0,
+        totalGrants: 0,
+        activeGrants: 0,
+        actionTypeBreakdown,
+        statusBreakdown: this.emptyCounts(Object.values(QR_TICKET_STATUSES)),
+      };
     }
-
-    return { tickets: cleanedTickets, grants: cleanedGrants };
   }
 
   /**
-   * Gets statistics about QR tickets and grants
-   *
-   * @returns Object containing various statistics
+   * Run the action of a multi-use ticket for one of its users
+   * The ticket is used up once its approvals reach its uses
    */
-  async getStats(): Promise<{
-    totalTickets: number;
-    activeTickets: number;
-    totalGrants: number;
-    activeGrants: number;
-    actionTypeBreakdown: Record<QrActionType, number>;
-  }> {
+  private async useTicket(
+    ticket: QrTicket,
+    userId: string,
+  ): Promise<QrApprovalResult> {
+    const approvedAt = Date.now();
     try {
-      const ticketPattern = `${QR_REDIS_PREFIXES.TICKET}*`;
-      const grantPattern = `${QR_REDIS_PREFIXES.GRANT}*`;
-
-      const [ticketKeys, grantKeys] = await Promise.all([
-        this.cacheService.findKeysByPattern(ticketPattern),
-        this.cacheService.findKeysByPattern(grantPattern),
-      ]);
-
-      const totalTickets = ticketKeys.length;
-      const totalGrants = grantKeys.length;
-
-      // Get detailed ticket information for statistics
-      let activeTickets = 0;
-      const actionTypeBreakdown: Record<QrActionType, number> = {
-        [QR_ACTION_TYPES.LOGIN]: 0,
-        [QR_ACTION_TYPES.ADD_FRIEND]: 0,
-        [QR_ACTION_TYPES.JOIN_ORG]: 0,
-        [QR_ACTION_TYPES.PAIR]: 0,
-      };
+      await this.actionExecutor.execute(ticket.type, {
+        tid: ticket.tid,
+        userId,
+        payload: ticket.payload,
+        webSessionId: ticket.webSessionId,
+        approvedAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to execute action for ticket ${ticket.tid}:`,
+        error,
+      );
+      await this.approvalsService.remove(ticket.tid, userId);
+      throw new BadRequestException(QR_ERROR_MESSAGES.ACTION_EXECUTION_FAILED);
+    }
 
-      for (const ticketKey of ticketKeys) {
-        const ticket = await this.cacheService.get<QrTicket>(ticketKey);
+    // Listed after the action and on every try, so a slower concurrent use
+    // cannot store the ticket as still open after the last use. The action
+    // already ran, so the write is retried until it is stored
+    const { ticket: used } = await this.updateTicket(
+      ticket,
+      async (current) => {
+        current.approvals = await this.approvalsService.list(ticket.tid);
+        current.approvedBy = userId;
+        current.approvedAt = approvedAt;
         if (
-          ticket &&
-          Date.now() <= ticket.expiresAt &&
-          ticket.status !== 'USED'
+          OPEN_STATUSES.includes(current.status) &&
+          current.approvals.length >= (current.maxUses ?? 1)
         ) {
-          activeTickets++;
-          actionTypeBreakdown[ticket.type]++;
+          current.status = 'USED';
+          current.usedAt = Date.now();
         }
+        return true;
+      },
+      Infinity,
+    );
+    await this.trackTransition(used);
+    await this.pollingService.publishStatusChange(
+      used.tid,
+      used.status,
+      used.version,
+    );
+
+    this.logger.log(`Ticket ${ticket.tid} used by user ${userId}`);
+    return { status: used.status, progress: getApprovalProgress(used) };
+  }
+
+  /**
+   * Change a ticket and store it with the next version, unless another
+   * request stored a newer version first: the change is then applied again
+   * to the newer ticket, so statuses and versions never move backwards
+   *
+   * @param ticket - Ticket as last read
+   * @param change - Changes the given copy, returns false to leave the
+   * ticket as stored
+   * @param attempts - Tries before giving up, unlimited for a change that
+   * must be stored because its side effects already happened
+   * @returns The ticket as stored, and whether the change was applied
+   * @throws NotFoundException when the ticket expired meanwhile
+   * @throws ConflictException when concurrent changes keep winning
+   */
+  private async updateTicket(
+    ticket: QrTicket,
+    change: (ticket: QrTicket) => boolean | Promise<boolean>,
+    attempts: number = QR_MULTI_PARTY_CONFIG.WRITE_ATTEMPTS,
+  ): Promise<{ ticket: QrTicket; updated: boolean }> {
+    const ticketKey = `${QR_REDIS_PREFIXES.TICKET}${ticket.tid}`;
+    let current = ticket;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const next: QrTicket = { ...current };
+      if (!(await change(next))) {
+        return { ticket: current, updated: false };
+      }
+      next.version = (current.version || 0) + 1;
+
+      const saved = (await this.cacheService
+        .getRedisClient()
+        .eval(
+          SAVE_TICKET_SCRIPT,
+          1,
+          ticketKey,
+          JSON.stringify(next),
+          current.version || 0,
+          this.ticketTtl,
+        )) as number;
+      if (saved === 1) {
+        return { ticket: next, updated: true };
       }
 
-      // Count active grants
-      let activeGrants = 0;
-      for (const grantKey of grantKeys) {
-        const grant = await this.cacheService.get<QrGrant>(grantKey);
-        if (grant && Date.now() <= grant.expiresAt) {
-          activeGrants++;
-        }
+      const stored =
+        saved === 0 ? await this.cacheService.get<QrTicket>(ticketKey) : null;
+      if (!stored) {
+        throw new NotFoundException(QR_ERROR_MESSAGES.TICKET_NOT_FOUND);
       }
+      current = stored;
+    }
 
-      return {
-        totalTickets,
-        activeTickets,
-        totalGrants,
-        activeGrants,
-        actionTypeBreakdown,
-      };
-    } catch (error) {
-      this.logger.error('Error getting QR statistics:', error);
-      return {
-        totalTickets: 0,
-        activeTickets: 0,
-        totalGrants: 0,
-        activeGrants: 0,
-        actionTypeBreakdown: {
-          [QR_ACTION_TYPES.LOGIN]: 0,
-          [QR_ACTION_TYPES.ADD_FRIEND]: 0,
-          [QR_ACTION_TYPES.JOIN_ORG]: 0,
-          [QR_ACTION_TYPES.PAIR]: 0,
+    throw new ConflictException({ messageKey: 'qr.TICKET_BUSY' });
+  }
+
+  /**
+   * Store a ticket as expired, unless a concurrent request already did
+   * @returns The ticket as stored
+   */
+  private async expireTicket(ticket: QrTicket): Promise<QrTicket> {
+    const { ticket: expired, updated } = await this.updateTicket(
+      ticket,
+      (current) => {
+        if (current.status === 'EXPIRED') return false;
+        current.status = 'EXPIRED';
+        return true;
+      },
+    );
+    if (updated) {
+      await this.trackTransition(expired);
+    }
+    return expired;
+  }
+
+  /**
+   * Store an approved ticket as used once its grant or delivery code is
+   * exchanged
+   * @returns The ticket as stored
+   * @throws BadRequestException when the ticket is no longer approved
+   */
+  private async markUsed(ticket: QrTicket): Promise<QrTicket> {
+    const usedAt = Date.now();
+    const { ticket: used, updated } = await this.updateTicket(
+      ticket,
+      (current) => {
+        if (current.status !== 'APPROVED') return false;
+        current.status = 'USED';
+        current.usedAt = usedAt;
+        return true;
+      },
+    );
+    if (!updated) {
+      throw new BadRequestException(
+        `Ticket status is ${used.status}, expected APPROVED`,
+      );
+    }
+    await this.trackTransition(used);
+    return used;
+  }
+
+  /**
+   * A ticket needs several approvals or allows several uses, not both
+   * The policy of an action overrides the one of the client
+   * @throws BadRequestException when the policy cannot be met
+   */
+  private assertApprovalPolicy({
+    type,
+    requiredApprovals = 1,
+    maxUses = 1,
+    approvers,
+  }: CreateTicketDto): void {
+    if (requiredApprovals > 1 && maxUses > 1) {
+      throw new BadRequestException({ messageKey: 'qr.QUORUM_AND_MULTI_USE' });
+    }
+    if (approvers && requiredApprovals > approvers.length) {
+      throw new BadRequestException({
+        messageKey: 'qr.NOT_ENOUGH_APPROVERS',
+        messageArgs: {
+          required: requiredApprovals,
+          approvers: approvers.length,
         },
-      };
+      });
+    }
+    if (maxUses > 1 && QR_MULTI_PARTY_CONFIG.SINGLE_USE_TYPES.includes(type)) {
+      throw new BadRequestException({
+        messageKey: 'qr.MULTI_USE_NOT_SUPPORTED',
+        messageArgs: { type },
+      });
+    }
+  }
+
+  /**
+   * @throws ForbiddenException when the ticket names its approvers and the
+   * user is not one of them
+   */
+  private assertIsApprover(ticket: QrTicket, userId: string): void {
+    if (ticket.approvers && !ticket.approvers.includes(userId)) {
+      throw new ForbiddenException({ messageKey: 'qr.NOT_AN_APPROVER' });
     }
   }
+
+  /**
+   * Record a stored ticket state in the history and the state index
+   */
+  private async trackTransition(
+    ticket: QrTicket,
+    created = false,
+  ): Promise<void> {
+    await this.historyService.record(ticket);
+    await this.stateIndex.recordTransition(ticket, created);
+  }
+
+  private emptyCounts<K extends string>(keys: K[]): Record<K, number> {
+    return Object.fromEntries(keys.map((key) => [key, 0])) as Record<K, number>;
+  }
 }
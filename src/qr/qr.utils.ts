@@ -1,5 +1,9 @@
 import { createHash, randomBytes } from 'crypto';
-import { QR_CRYPTO_CONFIG } from 'src/shared/constants/qr.constants';
+import {
+  QR_CRYPTO_CONFIG,
+  QrApprovalProgress,
+  QrTicket,
+} from 'src/shared/constants/qr.constants';
 
 /**
  * QR Utilities - Cryptographic and utility functions for the QR Actions feature
@@ -295,3 +299,16 @@ export function sanitizePayload(
 
   return sanitized;
 }
+
+/**
+ * Approvals of a multi-party ticket against its quorum or its uses
+ * @param ticket - The ticket as stored in Redis
+ * @returns The progress, or undefined for a single-use ticket
+ */
+export function getApprovalProgress(
+  ticket: QrTicket,
+): QrApprovalProgress | undefined {
+  const required = Math.max(ticket.requiredApprovals ?? 1, ticket.maxUses ?? 1);
+  if (required <= 1) return undefined;
+  return { approvals: ticket.approvals?.length ?? 0, required };
+}
@@ -0,0 +1,32 @@
+import { OwnershipPolicy } from 'src/auth/policies';
+import { PermissionService } from 'src/auth/permission.service';
+
+import { Injectable } from '@nestjs/common';
+
+import { ApiKey } from './entities/api-key.entity';
+import { RateLimitService } from './rate-limit.service';
+
+/**
+ * Keys of other users need `api-keys:{action}:any`
+ * Keys without an owner belong to nobody, so only that permission applies
+ */
+@Injectable()
+export class ApiKeyPolicy extends OwnershipPolicy<ApiKey> {
+  protected readonly resource = 'api-keys';
+  readonly notFoundMessageKey = 'common.API_KEY_NOT_FOUND';
+
+  constructor(
+    private readonly rateLimitService: RateLimitService,
+    permissionService: PermissionService,
+  ) {
+    super(permissionService);
+  }
+
+  load(id: string): Promise<ApiKey | null> {
+    return this.rateLimitService.findApiKeyById(id);
+  }
+
+  protected getOwnerId(apiKey: ApiKey): string | undefined {
+    return apiKey.userId;
+  }
+}
@@ -11,7 +11,11 @@ import {
   Logger,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Authorize } from 'src/common/decorators/authorize.decorator';
+import { RequirePermissions } from 'src/common/decorators/require-permissions.decorator';
+import { PERMISSIONS } from 'src/shared/constants/permission.constants';
 
+import { ApiKeyPolicy } from './api-key.policy';
 import { RateLimitService } from './rate-limit.service';
 import { BypassRateLimit } from './rate-limit.decorator';
 import { Plan } from './entities/plan.entity';
@@ -34,10 +38,13 @@ import {
 /**
  * Admin controller for managing rate limits
  * All endpoints bypass rate limiting for admin access
+ * Reads need `rate-limit:read`, everything else `rate-limit:manage`
+ * Changing or deleting a key also goes through `ApiKeyPolicy`
  */
 @ApiTags('Rate Limit Admin')
 @Controller('admin/rate-limit')
 @BypassRateLimit() // Bypass rate limiting for admin endpoints
+@RequirePermissions(PERMISSIONS.RATE_LIMIT_MANAGE)
 export class RateLimitAdminController {
   private readonly logger = new Logger(RateLimitAdminController.name);
 
@@ -47,6 +54,7 @@ export class RateLimitAdminController {
    * Get all rate limit plans
    */
   @Get('plans')
+  @RequirePermissions(PERMISSIONS.RATE_LIMIT_READ)
   @ApiOperation({ summary: 'Get all rate limit plans' })
   @ApiResponse({ status: 200, description: 'List of rate limit plans' })
   async getPlans(): Promise<Plan[]> {
@@ -84,6 +92,7 @@ export class RateLimitAdminController {
    * Get all API keys
    */
   @Get('api-keys')
+  @RequirePermissions(PERMISSIONS.RATE_LIMIT_READ)
   @ApiOperation({ summary: 'Get all API keys' })
   @ApiResponse({ status: 200, description: 'List of API keys' })
   async getApiKeys(): Promise<ApiKey[]> {
@@ -111,6 +120,7 @@ export class RateLimitAdminController {
    * Update an API key
    */
   @Put('api-keys/:id')
+  @Authorize(ApiKeyPolicy, 'update')
   @ApiOperation({ summary: 'Update an API key' })
   @ApiResponse({ status: 200, description: 'API key updated successfully' })
   async updateApiKey(
@@ -125,6 +135,7 @@ export class RateLimitAdminController {
    * Delete an API key
    */
   @Delete('api-keys/:id')
+  @Authorize(ApiKeyPolicy, 'delete')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete an API key' })
   @ApiResponse({ status: 204, description: 'API key deleted successfully' })
@@ -137,6 +148,7 @@ export class RateLimitAdminController {
    * Get all IP whitelist entries
    */
   @Get('ip-whitelist')
+  @RequirePermissions(PERMISSIONS.RATE_LIMIT_READ)
   @ApiOperation({ summary: 'Get all IP whitelist entries' })
   @ApiResponse({ status: 200, description: 'List of IP whitelist entries' })
   async getIpWhitelist(): Promise<IpWhitelist[]> {
@@ -216,6 +228,7 @@ export class RateLimitAdminController {
    * Get cache statistics
    */
   @Get('cache/stats')
+  @RequirePermissions(PERMISSIONS.RATE_LIMIT_READ)
   @ApiOperation({ summary: 'Get rate limit cache statistics' })
   @ApiResponse({ status: 200, description: 'Cache statistics' })
   async getCacheStats(): Promise<CacheStats> {
@@ -242,6 +255,7 @@ export class RateLimitAdminController {
    * Get rate limit information for a specific key
    */
   @Get('info/:key')
+  @RequirePermissions(PERMISSIONS.RATE_LIMIT_READ)
   @ApiOperation({ summary: 'Get rate limit information for a specific key' })
   @ApiResponse({ status: 200, description: 'Rate limit information' })
   async getRateLimitInfo(@Param('key') key: string): Promise<RateLimitInfo> {
@@ -255,6 +269,7 @@ export class RateLimitAdminController {
    * Get all rate limit policies
    */
   @Get('policies')
+  @RequirePermissions(PERMISSIONS.RATE_LIMIT_READ)
   @ApiOperation({ summary: 'Get all rate limit policies' })
   @ApiResponse({ status: 200, description: 'List of rate limit policies' })
   async getPolicies(): Promise<RateLimitPolicy[]> {
@@ -306,6 +321,7 @@ export class RateLimitAdminController {
    * Get policy by name
    */
   @Get('policies/name/:name')
+  @RequirePermissions(PERMISSIONS.RATE_LIMIT_READ)
   @ApiOperation({ summary: 'Get policy by name' })
   @ApiResponse({ status: 200, description: 'Policy found' })
   @ApiResponse({ status: 404, description: 'Policy not found' })
@@ -10,8 +10,13 @@ import {
 import { Reflector } from '@nestjs/core';
 import { Request, Response } from 'express';
 
+import { JwtKeyRingService } from '../auth/jwt-key-ring.service';
 import { RateLimitService } from './rate-limit.service';
-import { RateLimitContext, RateLimitOverride } from '../common/interface';
+import {
+  AuthPayload,
+  RateLimitContext,
+  RateLimitOverride,
+} from '../common/interface';
 import { RATE_LIMIT_OVERRIDE_KEY } from './rate-limit.decorator';
 
 /**
@@ -25,6 +30,7 @@ export class RateLimitGuard implements CanActivate {
   constructor(
     private readonly rateLimitService: RateLimitService,
     private readonly reflector: Reflector,
+    private readonly keyRing: JwtKeyRingService,
   ) {}
 
   /**
@@ -42,7 +48,7 @@ export class RateLimitGuard implements CanActivate {
       }
 
       // Build request context
-      const rateLimitContext = this.buildRateLimitContext(req, override);
+      const rateLimitContext = await this.buildRateLimitContext(req, override);
 
       // Check rate limit
       const result =
@@ -104,15 +110,13 @@ export class RateLimitGuard implements CanActivate {
   /**
    * Build rate limit context from request
    */
-  private buildRateLimitContext(
+  private async buildRateLimitContext(
     req: Request,
     override?: RateLimitOverride,
-  ): RateLimitContext {
-    const user = (req as any)?.user as
-      | { id?: string; orgId?: string }
-      | undefined;
-    const userId = user?.id;
-    const orgId = user?.orgId;
+  ): Promise<RateLimitContext> {
+    const user = await this.getUser(req);
+    const userId = user?.uid;
+    const orgId = user?.oid;
     const ip = this.getClientIp(req);
     const routeKey = override?.routeKey || this.getRouteKey(req);
     const apiKey = this.getApiKey(req);
@@ -126,6 +130,26 @@ export class RateLimitGuard implements CanActivate {
     };
   }
 
+  /**
+   * Token claims of the caller
+   * The guard runs globally before route guards, so the access token is
+   * verified here; an invalid token is rate limited as anonymous and left to
+   * the route guard to reject.
+   */
+  private async getUser(req: Request): Promise<AuthPayload | undefined> {
+    const user = (req as any)?.user as AuthPayload | undefined;
+    if (user) return user;
+
+    const [type, token] = req.headers.authorization?.split(' ') ?? [];
+    if (type !== 'Bearer' || !token) return undefined;
+
+    try {
+      return await this.keyRing.verify<AuthPayload>(token);
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Extract client IP address from request
    */
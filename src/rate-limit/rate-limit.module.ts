@@ -9,6 +9,7 @@ import {
   RateLimitLog,
   RateLimitPolicy,
 } from './entities';
+import { ApiKeyPolicy } from './api-key.policy';
 import { RateLimitAdminController } from './rate-limit-admin.controller';
 import { RateLimitGuard } from './rate-limit.guard';
 import { RateLimitService } from './rate-limit.service';
@@ -43,6 +44,8 @@ import { RateLimitService } from './rate-limit.service';
     RateLimitService,
     // Single rate limit guard
     RateLimitGuard,
+    // Ownership checks for the API key endpoints
+    ApiKeyPolicy,
   ],
   controllers: [
     // Admin controller for managing rate limits
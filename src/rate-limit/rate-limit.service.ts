@@ -780,6 +780,10 @@ export class RateLimitService implements OnModuleInit {
     });
   }
 
+  async findApiKeyById(id: string): Promise<ApiKey | null> {
+    return this.apiKeyRepo.findOne({ where: { id } });
+  }
+
   async createApiKey(keyData: CreateApiKeyDto): Promise<ApiKey> {
     const { planId, ...restData } = keyData;
     const apiKey = this.apiKeyRepo.create({
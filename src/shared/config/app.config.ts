@@ -1,3 +1,9 @@
+import { parseDurationSeconds } from 'src/common/utils/duration.util';
+
+// Hard cap on the lifetime of a session, activity never extends it further
+const sessionAbsoluteLifetimeSeconds = () =>
+  Number(process.env.SESSION_ABSOLUTE_LIFETIME_SECONDS) || 30 * 24 * 60 * 60;
+
 export const appConfig = () => ({
   port: Number(process.env.APP_PORT) || 3000,
   timezone: process.env.TZ || 'UTC',
@@ -5,6 +11,36 @@ export const appConfig = () => ({
     secret: process.env.JWT_SECRET || 'victory_secret_key',
     accessTokenExpiresIn: process.env.JWT_ACCESS_TOKEN_EXPIRES_IN || '1h',
     refreshTokenExpiresIn: process.env.JWT_REFRESH_TOKEN_EXPIRES_IN || '7d',
+    keyRing: {
+      algorithm:
+        process.env.JWT_SIGNING_ALGORITHM === 'ES256' ? 'ES256' : 'RS256',
+      // A new signing key is generated after this many days
+      rotationDays: Number(process.env.JWT_KEY_ROTATION_DAYS) || 30,
+      // Retired keys keep verifying for this long, never shorter than a
+      // refresh token or a session can live
+      overlapSeconds: Math.max(
+        Number(process.env.JWT_KEY_OVERLAP_SECONDS) || 0,
+        parseDurationSeconds(
+          process.env.JWT_REFRESH_TOKEN_EXPIRES_IN || '7d',
+        ) ?? 0,
+        sessionAbsoluteLifetimeSeconds(),
+      ),
+      // Accept tokens signed with JWT_SECRET before the key ring was introduced
+      acceptLegacyHs: process.env.JWT_ACCEPT_LEGACY_HS !== 'false',
+    },
+  },
+  session: {
+    absoluteLifetimeSeconds: sessionAbsoluteLifetimeSeconds(),
+    // A session unused for this long expires, every refresh slides the deadline
+    idleTimeoutSeconds:
+      Number(process.env.SESSION_IDLE_TIMEOUT_SECONDS) ||
+      parseDurationSeconds(process.env.JWT_REFRESH_TOKEN_EXPIRES_IN) ||
+      7 * 24 * 60 * 60,
+    // lastActiveAt is written at most this often per session
+    activityWriteIntervalSeconds:
+      Number(process.env.SESSION_ACTIVITY_WRITE_INTERVAL_SECONDS) || 5 * 60,
+    cleanupIntervalSeconds:
+      Number(process.env.SESSION_CLEANUP_INTERVAL_SECONDS) || 60 * 60,
   },
   i18n: {
     fallbackLanguage: process.env.I18N_FALLBACK_LANGUAGE || 'en',
@@ -15,6 +51,114 @@ export const appConfig = () => ({
     ticketTtlSeconds: Number(process.env.QR_TICKET_TTL_SECONDS) || 180,
     grantTtlSeconds: Number(process.env.QR_GRANT_TTL_SECONDS) || 30,
   },
+  twoFactor: {
+    issuer:
+      process.env.TWO_FACTOR_ISSUER || process.env.APP_NAME || 'NestJS App',
+  },
+  passwordReset: {
+    url:
+      process.env.PASSWORD_RESET_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/reset-password`,
+    ttlSeconds: Number(process.env.PASSWORD_RESET_TTL_SECONDS) || 60 * 60,
+  },
+  verification: {
+    emailUrl:
+      process.env.EMAIL_VERIFICATION_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/verify-email`,
+    emailChangeUrl:
+      process.env.EMAIL_CHANGE_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/confirm-email-change`,
+    emailRevertUrl:
+      process.env.EMAIL_CHANGE_REVERT_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/revert-email-change`,
+    // The previous address can undo an email change for this long
+    emailRevertTtlSeconds:
+      Number(process.env.EMAIL_CHANGE_REVERT_TTL_SECONDS) || 7 * 24 * 60 * 60,
+    emailTokenTtlSeconds:
+      Number(process.env.EMAIL_VERIFICATION_TTL_SECONDS) || 24 * 60 * 60,
+    resendCooldownSeconds:
+      Number(process.env.VERIFICATION_RESEND_COOLDOWN_SECONDS) || 60,
+    // feature:channel[+channel], comma separated, e.g. "qr_approval:email+phone"
+    policy: parseVerificationPolicy(
+      process.env.VERIFICATION_POLICY ??
+        'default:email,qr_approval:email,media_upload:email',
+    ),
+  },
+  profile: {
+    // A username can be changed again after this many days
+    usernameChangeCooldownDays:
+      Number(process.env.USERNAME_CHANGE_COOLDOWN_DAYS) || 30,
+  },
+  account: {
+    // A new data export can be requested once this window has passed
+    exportCooldownSeconds:
+      Number(process.env.DATA_EXPORT_COOLDOWN_SECONDS) || 24 * 60 * 60,
+    // Lifetime of the emailed download link
+    exportLinkTtlSeconds:
+      Number(process.env.DATA_EXPORT_LINK_TTL_SECONDS) || 7 * 24 * 60 * 60,
+    // Archives are deleted from R2 by a sweep once their link expired
+    exportCleanupIntervalSeconds:
+      Number(process.env.DATA_EXPORT_CLEANUP_INTERVAL_SECONDS) || 60 * 60,
+    // Deleted accounts can be restored by an admin until they are purged
+    deletionGraceDays: Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30,
+    purgeIntervalSeconds:
+      Number(process.env.ACCOUNT_PURGE_INTERVAL_SECONDS) || 60 * 60,
+  },
+  organizations: {
+    invitationTtlSeconds:
+      Number(process.env.ORG_INVITATION_TTL_SECONDS) || 7 * 24 * 60 * 60,
+    // Page that accepts an invitation, the token is appended as ?token=
+    invitationUrl:
+      process.env.ORG_INVITATION_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/join-organization`,
+  },
+  loginProtection: {
+    // Failed attempts per account before it is locked
+    maxAttempts: Number(process.env.LOGIN_MAX_ATTEMPTS) || 5,
+    // Failed attempts after which every retry has to wait (1s, 2s, 4s...)
+    delayAfterAttempts: Number(process.env.LOGIN_DELAY_AFTER_ATTEMPTS) || 3,
+    maxDelaySeconds: Number(process.env.LOGIN_MAX_DELAY_SECONDS) || 30,
+    attemptWindowSeconds:
+      Number(process.env.LOGIN_ATTEMPT_WINDOW_SECONDS) || 15 * 60,
+    // Doubles on every consecutive lockout, up to maxLockoutSeconds
+    lockoutSeconds: Number(process.env.LOGIN_LOCKOUT_SECONDS) || 15 * 60,
+    maxLockoutSeconds:
+      Number(process.env.LOGIN_MAX_LOCKOUT_SECONDS) || 24 * 60 * 60,
+    ipMaxAttempts: Number(process.env.LOGIN_IP_MAX_ATTEMPTS) || 50,
+    unlockUrl:
+      process.env.ACCOUNT_UNLOCK_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/unlock-account`,
+  },
+  loginRisk: {
+    // Sessions created in this period are the baseline a sign-in is compared to
+    historyDays: Number(process.env.LOGIN_RISK_HISTORY_DAYS) || 90,
+    // A sign-in from another network sooner than this after the previous one
+    impossibleTravelSeconds:
+      Number(process.env.LOGIN_RISK_IMPOSSIBLE_TRAVEL_SECONDS) || 30 * 60,
+    // Score from which the user is alerted, 0-100
+    alertThreshold: Number(process.env.LOGIN_RISK_ALERT_THRESHOLD) || 60,
+    reportUrl:
+      process.env.SIGN_IN_REPORT_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/report-sign-in`,
+  },
+  sms: {
+    gatewayUrl: process.env.SMS_GATEWAY_URL,
+    apiKey: process.env.SMS_GATEWAY_API_KEY,
+    sender: process.env.SMS_SENDER_ID,
+  },
+  webauthn: {
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+    rpName:
+      process.env.WEBAUTHN_RP_NAME || process.env.APP_NAME || 'NestJS App',
+    origins: (
+      process.env.WEBAUTHN_ORIGINS ||
+      process.env.APP_URL ||
+      'http://localhost:3000'
+    )
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+  },
   cursor: {
     hmacSecret: process.env.CURSOR_HMAC_SECRET,
   },
@@ -22,3 +166,18 @@ export const appConfig = () => ({
     isAdapterEnabled: process.env.WS_ADAPTER_ENABLED || false,
   },
 });
+
+function parseVerificationPolicy(value: string): Record<string, string[]> {
+  const policy: Record<string, string[]> = {};
+  for (const entry of value.split(',')) {
+    const [feature, channels = ''] = entry
+      .split(':')
+      .map((part) => part.trim());
+    if (!feature) continue;
+    policy[feature] = channels
+      .split('+')
+      .map((channel) => channel.trim())
+      .filter((channel) => channel && channel !== 'none');
+  }
+  return policy;
+}
@@ -1,13 +1,92 @@
 export const oauthConfig = () => ({
+  // Shared settings for the authorization-code + PKCE redirect flow
+  stateTtlSeconds: Number(process.env.OAUTH_STATE_TTL_SECONDS) || 600,
+  defaultRedirectUri: process.env.OAUTH_DEFAULT_REDIRECT_URI,
+
+  google: {
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    redirectUri: process.env.GOOGLE_REDIRECT_URI,
+    authorizationUrl:
+      process.env.GOOGLE_AUTHORIZATION_URL ||
+      'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl:
+      process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+    userInfoUrl:
+      process.env.GOOGLE_USERINFO_URL ||
+      'https://openidconnect.googleapis.com/v1/userinfo',
+    tokenInfoUrl:
+      process.env.GOOGLE_TOKENINFO_URL ||
+      'https://oauth2.googleapis.com/tokeninfo',
+    jwksUrl:
+      process.env.GOOGLE_JWKS_URL ||
+      'https://www.googleapis.com/oauth2/v3/certs',
+    issuer: process.env.GOOGLE_ISSUER || 'https://accounts.google.com',
+    scope: process.env.GOOGLE_SCOPE || 'openid email profile',
+  },
+  github: {
+    clientId: process.env.GITHUB_CLIENT_ID,
+    clientSecret: process.env.GITHUB_CLIENT_SECRET,
+    redirectUri: process.env.GITHUB_REDIRECT_URI,
+    authorizationUrl:
+      process.env.GITHUB_AUTHORIZATION_URL ||
+      'https://github.com/login/oauth/authorize',
+    tokenUrl:
+      process.env.GITHUB_TOKEN_URL ||
+      'https://github.com/login/oauth/access_token',
+    userInfoUrl:
+      process.env.GITHUB_USERINFO_URL || 'https://api.github.com/user',
+    emailsUrl:
+      process.env.GITHUB_EMAILS_URL || 'https://api.github.com/user/emails',
+    scope: process.env.GITHUB_SCOPE || 'read:user user:email',
+  },
   kakao: {
     accessLink: process.env.KAKAO_AUTH_ACCESS_LINK,
+    appId: process.env.KAKAO_APP_ID,
+    clientId: process.env.KAKAO_CLIENT_ID,
+    clientSecret: process.env.KAKAO_CLIENT_SECRET,
+    redirectUri: process.env.KAKAO_REDIRECT_URI,
+    authorizationUrl:
+      process.env.KAKAO_AUTHORIZATION_URL ||
+      'https://kauth.kakao.com/oauth/authorize',
+    tokenUrl:
+      process.env.KAKAO_TOKEN_URL || 'https://kauth.kakao.com/oauth/token',
+    userInfoUrl:
+      process.env.KAKAO_AUTH_ACCESS_LINK || 'https://kapi.kakao.com/v2/user/me',
+    tokenInfoUrl:
+      process.env.KAKAO_TOKENINFO_URL ||
+      'https://kapi.kakao.com/v1/user/access_token_info',
+    scope: process.env.KAKAO_SCOPE || 'account_email profile_nickname',
   },
   naver: {
     accessLink: process.env.NAVER_AUTH_ACCESS_LINK,
+    clientId: process.env.NAVER_CLIENT_ID,
+    clientSecret: process.env.NAVER_CLIENT_SECRET,
+    redirectUri: process.env.NAVER_REDIRECT_URI,
+    authorizationUrl:
+      process.env.NAVER_AUTHORIZATION_URL ||
+      'https://nid.naver.com/oauth2.0/authorize',
+    tokenUrl:
+      process.env.NAVER_TOKEN_URL || 'https://nid.naver.com/oauth2.0/token',
+    userInfoUrl:
+      process.env.NAVER_AUTH_ACCESS_LINK ||
+      'https://openapi.naver.com/v1/nid/me',
+    scope: process.env.NAVER_SCOPE || '',
   },
   apple: {
     authKeyUrl: process.env.APPLE_AUTH_KEY_URL,
     url: process.env.APPLE_URL,
     clientId: process.env.APPLE_CLIENT_ID,
+    clientSecret: process.env.APPLE_CLIENT_SECRET,
+    redirectUri: process.env.APPLE_REDIRECT_URI,
+    authorizationUrl:
+      process.env.APPLE_AUTHORIZATION_URL ||
+      'https://appleid.apple.com/auth/authorize',
+    tokenUrl:
+      process.env.APPLE_TOKEN_URL || 'https://appleid.apple.com/auth/token',
+    jwksUrl:
+      process.env.APPLE_AUTH_KEY_URL || 'https://appleid.apple.com/auth/keys',
+    issuer: process.env.APPLE_URL || 'https://appleid.apple.com',
+    scope: process.env.APPLE_SCOPE || 'name email',
   },
 });
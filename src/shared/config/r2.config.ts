@@ -29,6 +29,7 @@ export const r2Config = () => ({
     thumbnails: 'thumbnails',
     previews: 'previews',
     temp: 'temp',
+    exports: 'exports',
   },
 
   // Cache settings
@@ -70,6 +71,7 @@ export interface R2Config {
     thumbnails: string;
     previews: string;
     temp: string;
+    exports: string;
   };
   cacheControl: string;
   expires: string;
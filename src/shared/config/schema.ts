@@ -10,8 +10,21 @@ export const configValidationSchema = Joi.object({
 
   // JWT configuration
   JWT_SECRET: Joi.string().min(32).required(),
-  JWT_ACCESS_TOKEN_EXPIRES_IN: Joi.string().default('15m'),
+  JWT_ACCESS_TOKEN_EXPIRES_IN: Joi.string()
+    .pattern(/^\d+(\.\d+)?\s*[smhdw]?$/i)
+    .default('15m'),
   JWT_REFRESH_TOKEN_EXPIRES_IN: Joi.string().default('7d'),
+  JWT_SIGNING_ALGORITHM: Joi.string().valid('RS256', 'ES256').optional(),
+  JWT_KEY_ROTATION_DAYS: Joi.number().integer().min(1).optional(),
+  JWT_KEY_OVERLAP_SECONDS: Joi.number().integer().min(60).optional(),
+  JWT_ACCEPT_LEGACY_HS: Joi.boolean().optional(),
+  SESSION_ABSOLUTE_LIFETIME_SECONDS: Joi.number().integer().min(60).optional(),
+  SESSION_IDLE_TIMEOUT_SECONDS: Joi.number().integer().min(60).optional(),
+  SESSION_ACTIVITY_WRITE_INTERVAL_SECONDS: Joi.number()
+    .integer()
+    .min(1)
+    .optional(),
+  SESSION_CLEANUP_INTERVAL_SECONDS: Joi.number().integer().min(60).optional(),
 
   // I18n configuration
   I18N_FALLBACK_LANGUAGE: Joi.string().default('en'),
@@ -86,6 +99,55 @@ export const configValidationSchema = Joi.object({
 
   // Mail template configuration
   APP_NAME: Joi.string().default('NestJS App'),
+  TWO_FACTOR_ISSUER: Joi.string().max(64).optional(),
+  PASSWORD_RESET_URL: Joi.string().uri().optional(),
+  PASSWORD_RESET_TTL_SECONDS: Joi.number().integer().min(60).optional(),
+  EMAIL_VERIFICATION_URL: Joi.string().uri().optional(),
+  EMAIL_VERIFICATION_TTL_SECONDS: Joi.number().integer().min(60).optional(),
+  EMAIL_CHANGE_URL: Joi.string().uri().optional(),
+  EMAIL_CHANGE_REVERT_URL: Joi.string().uri().optional(),
+  EMAIL_CHANGE_REVERT_TTL_SECONDS: Joi.number().integer().min(60).optional(),
+  VERIFICATION_RESEND_COOLDOWN_SECONDS: Joi.number()
+    .integer()
+    .min(0)
+    .optional(),
+  VERIFICATION_POLICY: Joi.string().allow('').optional(),
+  USERNAME_CHANGE_COOLDOWN_DAYS: Joi.number().integer().min(1).optional(),
+  DATA_EXPORT_COOLDOWN_SECONDS: Joi.number().integer().min(60).optional(),
+  DATA_EXPORT_LINK_TTL_SECONDS: Joi.number()
+    .integer()
+    .min(60)
+    .max(7 * 24 * 60 * 60)
+    .optional(),
+  DATA_EXPORT_CLEANUP_INTERVAL_SECONDS: Joi.number()
+    .integer()
+    .min(60)
+    .optional(),
+  ACCOUNT_DELETION_GRACE_DAYS: Joi.number().integer().min(1).optional(),
+  ACCOUNT_PURGE_INTERVAL_SECONDS: Joi.number().integer().min(60).optional(),
+  ORG_INVITATION_TTL_SECONDS: Joi.number().integer().min(60).optional(),
+  ORG_INVITATION_URL: Joi.string().uri().optional(),
+  LOGIN_MAX_ATTEMPTS: Joi.number().integer().min(1).optional(),
+  LOGIN_DELAY_AFTER_ATTEMPTS: Joi.number().integer().min(1).optional(),
+  LOGIN_MAX_DELAY_SECONDS: Joi.number().integer().min(1).optional(),
+  LOGIN_ATTEMPT_WINDOW_SECONDS: Joi.number().integer().min(60).optional(),
+  LOGIN_LOCKOUT_SECONDS: Joi.number().integer().min(60).optional(),
+  LOGIN_MAX_LOCKOUT_SECONDS: Joi.number().integer().min(60).optional(),
+  LOGIN_IP_MAX_ATTEMPTS: Joi.number().integer().min(1).optional(),
+  ACCOUNT_UNLOCK_URL: Joi.string().uri().optional(),
+  LOGIN_RISK_HISTORY_DAYS: Joi.number().integer().min(1).optional(),
+  LOGIN_RISK_IMPOSSIBLE_TRAVEL_SECONDS: Joi.number()
+    .integer()
+    .min(60)
+    .optional(),
+  LOGIN_RISK_ALERT_THRESHOLD: Joi.number().integer().min(1).max(100).optional(),
+  SIGN_IN_REPORT_URL: Joi.string().uri().optional(),
+  SMS_GATEWAY_URL: Joi.string().uri().optional(),
+  SMS_GATEWAY_API_KEY: Joi.string().optional(),
+  SMS_SENDER_ID: Joi.string().max(20).optional(),
+  WEBAUTHN_RP_ID: Joi.string().hostname().optional(),
+  WEBAUTHN_RP_NAME: Joi.string().max(64).optional(),
+  WEBAUTHN_ORIGINS: Joi.string().optional(),
   APP_URL: Joi.string().uri().default('http://localhost:3000'),
   COMPANY_NAME: Joi.string().default('Your Company'),
   COMPANY_ADDRESS: Joi.string().default('Your Address'),
@@ -97,6 +159,10 @@ export const configValidationSchema = Joi.object({
   // AWS_REGION: Joi.string().optional(),
   // AWS_ENDPOINT: Joi.string().uri().optional(),
 
+  // OAuth authorization-code flow configuration
+  OAUTH_STATE_TTL_SECONDS: Joi.number().min(60).max(3600).default(600),
+  OAUTH_DEFAULT_REDIRECT_URI: Joi.string().uri().optional(),
+
   // Apple OAuth configuration
   // APPLE_AUTH_KEY_URL: Joi.string().uri().optional(),
   // APPLE_URL: Joi.string().uri().optional(),
@@ -0,0 +1,32 @@
+// Friendship Constants - Contact graph between users
+export const FRIENDSHIP_CONSTANTS = {
+  // Relation of a row's user to the friend:
+  // pending - the friend asked the user, accepted - friends both ways,
+  // blocked - the user blocked the friend
+  STATUS: {
+    PENDING: 'pending',
+    ACCEPTED: 'accepted',
+    BLOCKED: 'blocked',
+  },
+
+  // Where a friend request came from
+  SOURCES: {
+    REQUEST: 'request',
+    QR_CODE: 'qr_code',
+  },
+
+  // Real-time events, sent to the `friends:user:{userId}` room
+  WS_EVENTS: {
+    REQUEST_RECEIVED: 'friends:request:received',
+    REQUEST_ACCEPTED: 'friends:request:accepted',
+    REMOVED: 'friends:removed',
+  },
+
+  ROOM_PREFIX: 'friends:user:',
+} as const;
+
+// Type definitions for better TypeScript support
+export type FriendshipStatus =
+  (typeof FRIENDSHIP_CONSTANTS.STATUS)[keyof typeof FRIENDSHIP_CONSTANTS.STATUS];
+export type FriendshipSource =
+  (typeof FRIENDSHIP_CONSTANTS.SOURCES)[keyof typeof FRIENDSHIP_CONSTANTS.SOURCES];
@@ -5,3 +5,7 @@ export * from './file.constants';
 export * from './media.constants';
 export * from './qr.constants';
 export * from './common.constants';
+export * from './permission.constants';
+export * from './friendship.constants';
+export * from './organization.constants';
+export * from './paired-device.constants';
@@ -0,0 +1,33 @@
+// Organization Constants - Organizations, memberships and invitations
+export const ORGANIZATION_CONSTANTS = {
+  NAME_MAX_LENGTH: 100,
+  SLUG_MAX_LENGTH: 60,
+  DESCRIPTION_MAX_LENGTH: 500,
+
+  // Org-scoped roles, independent of the user's global role
+  ROLES: {
+    OWNER: 'owner',
+    ADMIN: 'admin',
+    MEMBER: 'member',
+  },
+
+  // A member manages members of a lower rank only
+  ROLE_RANK: {
+    owner: 3,
+    admin: 2,
+    member: 1,
+  },
+
+  // How a member joined
+  SOURCES: {
+    CREATED: 'created',
+    INVITATION: 'invitation',
+    QR_CODE: 'qr_code',
+  },
+} as const;
+
+// Type definitions for better TypeScript support
+export type OrganizationRole =
+  (typeof ORGANIZATION_CONSTANTS.ROLES)[keyof typeof ORGANIZATION_CONSTANTS.ROLES];
+export type OrganizationMemberSource =
+  (typeof ORGANIZATION_CONSTANTS.SOURCES)[keyof typeof ORGANIZATION_CONSTANTS.SOURCES];
@@ -0,0 +1,40 @@
+// Paired Device Constants - Devices paired to an account through PAIR QR codes
+export const PAIRED_DEVICE_CONSTANTS = {
+  NAME_MAX_LENGTH: 100,
+  MAX_PER_USER: 20,
+
+  STATUS: {
+    ACTIVE: 'active',
+    REVOKED: 'revoked',
+  },
+
+  // What a paired device may do with its credential
+  PERMISSIONS: {
+    PROFILE_READ: 'profile:read',
+    NOTIFICATIONS_READ: 'notifications:read',
+    MEDIA_READ: 'media:read',
+  },
+
+  // Header carrying `<deviceId>.<pairingSecret>`
+  CREDENTIAL_HEADER: 'x-device-credential',
+
+  // Key agreement of the pairing secret: ECDH on P-256, HKDF-SHA256 with
+  // the ticket ID as salt, AES-256-GCM with the device ID as AAD
+  KEY_EXCHANGE: {
+    ALGORITHM: 'ECDH-P256+HKDF-SHA256+A256GCM',
+    CURVE: 'prime256v1',
+    HKDF_INFO: 'paired-device-secret',
+  },
+
+  // Encrypted pairing secret waiting for the device to exchange its grant
+  ENVELOPE_PREFIX: 'paired-devices:envelope:',
+
+  // lastSeenAt is written at most this often per device and instance
+  LAST_SEEN_WRITE_INTERVAL_SECONDS: 60,
+} as const;
+
+// Type definitions for better TypeScript support
+export type PairedDeviceStatus =
+  (typeof PAIRED_DEVICE_CONSTANTS.STATUS)[keyof typeof PAIRED_DEVICE_CONSTANTS.STATUS];
+export type PairedDevicePermission =
+  (typeof PAIRED_DEVICE_CONSTANTS.PERMISSIONS)[keyof typeof PAIRED_DEVICE_CONSTANTS.PERMISSIONS];
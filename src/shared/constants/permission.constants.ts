@@ -0,0 +1,78 @@
+import { USER_CONSTANTS } from './user.constants';
+
+/**
+ * Permission strings, `resource:action[:scope]`
+ * A `*` segment matches anything from there on, and the `any` scope also
+ * grants `own` (see `permissionMatches`)
+ */
+export const PERMISSIONS = {
+  ALL: '*',
+  USERS_READ: 'users:read:any',
+  USERS_MANAGE: 'users:manage:any',
+  ROLES_MANAGE: 'roles:manage',
+  MEDIA_DELETE_OWN: 'media:delete:own',
+  MEDIA_READ_ANY: 'media:read:any',
+  MEDIA_UPDATE_ANY: 'media:update:any',
+  MEDIA_DELETE_ANY: 'media:delete:any',
+  SESSIONS_READ_ANY: 'sessions:read:any',
+  SESSIONS_DELETE_ANY: 'sessions:delete:any',
+  API_KEYS_UPDATE_ANY: 'api-keys:update:any',
+  API_KEYS_DELETE_ANY: 'api-keys:delete:any',
+  RATE_LIMIT_READ: 'rate-limit:read',
+  RATE_LIMIT_MANAGE: 'rate-limit:manage',
+  MAIL_SEND: 'mail:send',
+  MAIL_METRICS_READ: 'mail:metrics:read',
+  MAIL_METRICS_RESET: 'mail:metrics:reset',
+  QR_TICKETS_READ_ANY: 'qr-tickets:read:any',
+  QR_ACTION_TYPES_MANAGE: 'qr-action-types:manage',
+} as const;
+
+export type PermissionName = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+/**
+ * Built-in roles, created at startup when missing
+ * Rows already in the database are never overwritten, admins can edit them
+ */
+export const DEFAULT_ROLES: Record<
+  string,
+  { description: string; inherits: string[]; permissions: string[] }
+> = {
+  [USER_CONSTANTS.ROLES.USER]: {
+    description: 'Regular user',
+    inherits: [],
+    permissions: [PERMISSIONS.MEDIA_DELETE_OWN],
+  },
+  [USER_CONSTANTS.ROLES.MODERATOR]: {
+    description: 'Moderates user content',
+    inherits: [USER_CONSTANTS.ROLES.USER],
+    permissions: [
+      PERMISSIONS.MEDIA_READ_ANY,
+      PERMISSIONS.MEDIA_UPDATE_ANY,
+      PERMISSIONS.MEDIA_DELETE_ANY,
+      PERMISSIONS.USERS_READ,
+    ],
+  },
+  [USER_CONSTANTS.ROLES.ADMIN]: {
+    description: 'Manages users and platform settings',
+    inherits: [USER_CONSTANTS.ROLES.MODERATOR],
+    permissions: [
+      PERMISSIONS.USERS_MANAGE,
+      PERMISSIONS.SESSIONS_READ_ANY,
+      PERMISSIONS.SESSIONS_DELETE_ANY,
+      PERMISSIONS.RATE_LIMIT_READ,
+      PERMISSIONS.RATE_LIMIT_MANAGE,
+      PERMISSIONS.API_KEYS_UPDATE_ANY,
+      PERMISSIONS.API_KEYS_DELETE_ANY,
+      PERMISSIONS.MAIL_SEND,
+      PERMISSIONS.MAIL_METRICS_READ,
+      PERMISSIONS.MAIL_METRICS_RESET,
+      PERMISSIONS.QR_TICKETS_READ_ANY,
+      PERMISSIONS.QR_ACTION_TYPES_MANAGE,
+    ],
+  },
+  [USER_CONSTANTS.ROLES.SUPER_ADMIN]: {
+    description: 'Full access',
+    inherits: [USER_CONSTANTS.ROLES.ADMIN],
+    permissions: [PERMISSIONS.ALL],
+  },
+};
@@ -16,10 +16,37 @@ export const QR_REDIS_PREFIXES = {
   RATE_LIMIT: 'QR:RATE_LIMIT:',
   /** Prefix for QR ticket delivery codes */
   DELIVERY: 'QR:DELIVERY:',
+  /** Prefix for the hash of approvals of a QR ticket, by user ID */
+  APPROVALS: 'QR:APPROVALS:',
   /** Prefix for QR status pub/sub channels */
   STATUS_CHANNEL: 'qr:status:',
 } as const;
 
+/**
+ * Redis keys indexing the live QR state, so stats and cleanup never scan
+ * the keyspace
+ */
+export const QR_REDIS_INDEX_KEYS = {
+  /** Sorted set of ticket IDs scored by when their Redis key expires */
+  TICKETS_BY_EXPIRY: 'QR:INDEX:TICKETS',
+  /** Hash of ticket ID to its counter field `<type>:<status>` */
+  TICKET_STATE: 'QR:INDEX:TICKET_STATE',
+  /** Hash of ticket counts by `<type>:<status>` */
+  TICKET_COUNTERS: 'QR:INDEX:COUNTERS',
+  /** Sorted set of grant tokens scored by expiry */
+  GRANTS_BY_EXPIRY: 'QR:INDEX:GRANTS',
+} as const;
+
+/**
+ * Scheduled removal of lapsed tickets and grants from the QR indexes
+ */
+export const QR_INDEX_CLEANUP_CONFIG = {
+  /** Interval between cleanups in milliseconds */
+  INTERVAL_MS: 15_000,
+  /** Maximum tickets popped per script run */
+  BATCH_SIZE: 500,
+} as const;
+
 /**
  * Default TTL values in seconds for different QR components
  */
@@ -251,8 +278,34 @@ export const QR_POLLING_CONFIG = {
   DELIVERY_CODE_TTL_SEC: 30,
 } as const;
 
+/**
+ * QR ticket history, transitions are written behind Redis to the
+ * `qr_tickets` table
+ */
+export const QR_HISTORY_CONFIG = {
+  /** Redis stream of transitions waiting to be written */
+  STREAM_KEY: 'QR:HISTORY',
+  /** Redis stream of transitions set aside after failing too many times */
+  DEAD_LETTER_KEY: 'QR:HISTORY:DEAD',
+  /** Consumer group shared by the instances writing the history */
+  CONSUMER_GROUP: 'qr-history-writers',
+  /** Interval between writes of queued transitions in milliseconds */
+  FLUSH_INTERVAL_MS: 1000,
+  /** Maximum tickets written per statement */
+  FLUSH_BATCH_SIZE: 500,
+  /** Idle time after which an unwritten transition is retried, in milliseconds */
+  RETRY_IDLE_MS: 30_000,
+  /** Deliveries after which a transition is set aside */
+  MAX_DELIVERIES: 5,
+  /** Queued transitions above which a warning is logged */
+  BACKLOG_WARNING: 10_000,
+  /** Interval between sweeps of tickets that expired unseen in milliseconds */
+  EXPIRE_SWEEP_INTERVAL_MS: 60_000,
+} as const;
+
 /**
  * QR Action Types - Defines the different types of actions that can be performed via QR codes
+ * Built into the app, admins can register more through QrActionRegistryService
  */
 export const QR_ACTION_TYPES = {
   LOGIN: 'LOGIN',
@@ -261,6 +314,38 @@ export const QR_ACTION_TYPES = {
   PAIR: 'PAIR',
 } as const;
 
+/**
+ * Action types registered by admins, executed by an outbound webhook
+ */
+export const QR_CUSTOM_ACTION_CONFIG = {
+  /** Upper snake case, like the built-in types */
+  TYPE_PATTERN: /^[A-Z][A-Z0-9_]{2,47}$/,
+  TYPE_MAX_LENGTH: 48,
+  /** Interval between reloads of the registry from the database */
+  REFRESH_INTERVAL_MS: 30_000,
+  /** Webhook calls taking longer fail the approval */
+  WEBHOOK_TIMEOUT_MS: 5_000,
+  /** `t=<unix seconds>,v1=<HMAC-SHA256 hex of "<t>.<body>">` */
+  SIGNATURE_HEADER: 'x-qr-signature',
+} as const;
+
+/**
+ * Multi-party QR tickets, approved by a quorum of users or used once by each
+ * of several users
+ */
+export const QR_MULTI_PARTY_CONFIG = {
+  /** Maximum approvals a quorum can require, and named approvers */
+  MAX_APPROVERS: 20,
+  /** Maximum distinct users of a multi-use ticket */
+  MAX_USES: 10_000,
+  /** Types whose approval hands a grant to one web session */
+  SINGLE_USE_TYPES: [QR_ACTION_TYPES.LOGIN, QR_ACTION_TYPES.PAIR] as string[],
+  /** Admin approvals a JOIN_ORG as admin or for a named user needs */
+  ADMIN_JOIN_QUORUM: 2,
+  /** Tries to store a ticket that concurrent approvals keep changing */
+  WRITE_ATTEMPTS: 5,
+} as const;
+
 /**
  * QR Ticket Status - Represents the current state of a QR ticket in its lifecycle
  */
@@ -301,10 +386,41 @@ export interface QrTicket {
   scannedAt?: number;
   /** Timestamp when the action was approved (Unix timestamp in milliseconds) */
   approvedAt?: number;
+  /** Timestamp when the ticket was rejected (Unix timestamp in milliseconds) */
+  rejectedAt?: number;
+  /** Timestamp when the grant was exchanged (Unix timestamp in milliseconds) */
+  usedAt?: number;
   /** Timestamp when the ticket expires (Unix timestamp in milliseconds) */
   expiresAt: number;
   /** Version number for ETag support (increments on status changes) */
   version: number;
+  /** Distinct approvals needed before the action runs once (1 when unset) */
+  requiredApprovals?: number;
+  /** Distinct users whose approval each runs the action (1 when unset) */
+  maxUses?: number;
+  /** User IDs allowed to approve or reject, anyone when unset */
+  approvers?: string[];
+  /** Approvals so far, copied from the approvals hash of the ticket */
+  approvals?: QrApproval[];
+}
+
+/**
+ * QR Approval - One user's approval of a ticket
+ */
+export interface QrApproval {
+  /** User ID who approved */
+  userId: string;
+  /** Timestamp of the approval (Unix timestamp in milliseconds) */
+  approvedAt: number;
+}
+
+/**
+ * QR Approval Progress - Approvals of a multi-party ticket against its
+ * quorum or its number of uses
+ */
+export interface QrApprovalProgress {
+  approvals: number;
+  required: number;
 }
 
 /**
@@ -353,6 +469,8 @@ export interface QrTicketPreview {
   status: QrTicketStatus;
   /** Whether the ticket is expired */
   isExpired: boolean;
+  /** Approvals so far, only for multi-party tickets */
+  progress?: QrApprovalProgress;
 }
 
 /**
@@ -365,6 +483,8 @@ export interface QrStatusEvent {
   status: QrTicketStatus;
   /** Optional message describing the status change */
   message?: string;
+  /** Approvals so far, only for multi-party tickets */
+  progress?: QrApprovalProgress;
   /** Timestamp of the status change (Unix timestamp in milliseconds) */
   timestamp: number;
 }
@@ -384,8 +504,11 @@ export interface QrDeepLinkOptions {
 }
 
 // Type definitions for better TypeScript support
-export type QrActionType =
+export type BuiltInQrActionType =
   (typeof QR_ACTION_TYPES)[keyof typeof QR_ACTION_TYPES];
 
+/** A built-in type or one registered by an admin */
+export type QrActionType = string;
+
 export type QrTicketStatus =
   (typeof QR_TICKET_STATUSES)[keyof typeof QR_TICKET_STATUSES];
@@ -8,8 +8,11 @@ export const USER_CONSTANTS = {
   PASSWORD_MIN_LENGTH: 6,
   OAUTH_PROVIDER_MAX_LENGTH: 50,
   OAUTH_ID_MAX_LENGTH: 255,
-  OAUTH_TOKEN_MAX_LENGTH: 255,
+  OAUTH_TOKEN_MAX_LENGTH: 4096,
   AUTH_METHOD_MAX_LENGTH: 20,
+  TWO_FACTOR_SECRET_MAX_LENGTH: 255,
+  WEBAUTHN_CREDENTIAL_ID_MAX_LENGTH: 1024,
+  WEBAUTHN_NICKNAME_MAX_LENGTH: 100,
   // Status values
   STATUS: {
     ACTIVE: 'active',
@@ -42,6 +45,8 @@ export const USER_CONSTANTS = {
     TWITTER: 'twitter',
     LINKEDIN: 'linkedin',
     APPLE: 'apple',
+    KAKAO: 'kakao',
+    NAVER: 'naver',
   },
 
   // Authentication methods
@@ -56,6 +61,35 @@ export const USER_CONSTANTS = {
     EMAIL_PASSWORD: 'email_password',
     PHONE_OTP: 'phone_otp',
     OAUTH: 'oauth',
+    PASSKEY: 'passkey',
+    IMPERSONATION: 'impersonation',
+  },
+  // `typ` claim of the session tokens, a token is accepted only where its
+  // type is expected
+  TOKEN_TYPES: {
+    ACCESS: 'access',
+    REFRESH: 'refresh',
+  },
+  VERIFICATION_CHANNELS: {
+    EMAIL: 'email',
+    PHONE: 'phone',
+  },
+  // Features that can be restricted to verified accounts
+  VERIFICATION_FEATURES: {
+    DEFAULT: 'default',
+    QR_APPROVAL: 'qr_approval',
+    MEDIA_UPLOAD: 'media_upload',
+  },
+  // Signals that raise the risk score of a new sign-in
+  LOGIN_RISK_REASONS: {
+    NEW_DEVICE: 'new_device',
+    NEW_NETWORK: 'new_network',
+    IMPOSSIBLE_TRAVEL: 'impossible_travel',
+  },
+  LOGIN_RISK_LEVELS: {
+    LOW: 'low',
+    MEDIUM: 'medium',
+    HIGH: 'high',
   },
   DEVICE_TYPES: {
     IOS: 'ios',
@@ -63,6 +97,32 @@ export const USER_CONSTANTS = {
     WEB: 'web',
     DESKTOP: 'desktop',
   },
+  // Who can see a profile field
+  PRIVACY_LEVELS: {
+    PUBLIC: 'public',
+    FRIENDS: 'friends',
+    PRIVATE: 'private',
+  },
+  // Profile fields with a privacy setting, id and username are always public
+  PRIVACY_FIELDS: ['name', 'avatar', 'email', 'phoneNumber', 'dob'],
+  DEFAULT_PRIVACY: {
+    name: 'public',
+    avatar: 'public',
+    email: 'private',
+    phoneNumber: 'private',
+    dob: 'friends',
+  },
+  // Actions recorded in the admin audit log
+  ADMIN_ACTIONS: {
+    STATUS_CHANGED: 'status_changed',
+    ROLE_CHANGED: 'role_changed',
+    FORCE_LOGOUT: 'force_logout',
+    PASSWORD_RESET: 'password_reset',
+    IMPERSONATION_STARTED: 'impersonation_started',
+    IMPERSONATION_STOPPED: 'impersonation_stopped',
+    IMPERSONATED_REQUEST: 'impersonated_request',
+    ACCOUNT_RESTORED: 'account_restored',
+  },
 } as const;
 
 // Type definitions for better TypeScript support
@@ -82,5 +142,27 @@ export type AuthMethod =
 export type AuthType =
   (typeof USER_CONSTANTS.AUTH_TYPES)[keyof typeof USER_CONSTANTS.AUTH_TYPES];
 
+export type VerificationChannel =
+  (typeof USER_CONSTANTS.VERIFICATION_CHANNELS)[keyof typeof USER_CONSTANTS.VERIFICATION_CHANNELS];
+
+export type VerificationFeature =
+  (typeof USER_CONSTANTS.VERIFICATION_FEATURES)[keyof typeof USER_CONSTANTS.VERIFICATION_FEATURES];
+
+export type LoginRiskReason =
+  (typeof USER_CONSTANTS.LOGIN_RISK_REASONS)[keyof typeof USER_CONSTANTS.LOGIN_RISK_REASONS];
+
+export type LoginRiskLevel =
+  (typeof USER_CONSTANTS.LOGIN_RISK_LEVELS)[keyof typeof USER_CONSTANTS.LOGIN_RISK_LEVELS];
+
 export type DeviceType =
   (typeof USER_CONSTANTS.DEVICE_TYPES)[keyof typeof USER_CONSTANTS.DEVICE_TYPES];
+
+export type PrivacyLevel =
+  (typeof USER_CONSTANTS.PRIVACY_LEVELS)[keyof typeof USER_CONSTANTS.PRIVACY_LEVELS];
+
+export type PrivacyField = (typeof USER_CONSTANTS.PRIVACY_FIELDS)[number];
+
+export type PrivacySettings = Record<PrivacyField, PrivacyLevel>;
+
+export type AdminAction =
+  (typeof USER_CONSTANTS.ADMIN_ACTIONS)[keyof typeof USER_CONSTANTS.ADMIN_ACTIONS];
@@ -5,4 +5,5 @@ export const JOB_NAME = {
   MAIL_BATCH: 'mail_batch',
   MAIL_TEMPLATE: 'mail_template',
   MAIL_OTP: 'mail_otp',
+  USER_DATA_EXPORT: 'user_data_export',
 } as const;
@@ -31,15 +31,17 @@ export class AxiosService {
   /**
    * Make a POST request using Axios
    * @param url - The URL to make the request to
+   * @param data - Optional request body
    * @param configuration - Optional Axios configuration
    * @returns Promise with the response data
    */
   public async post(
     url: string,
+    data?: unknown,
     configuration?: AxiosRequestConfig,
   ): Promise<any> {
     return lastValueFrom(
-      this.httpService.post(url, configuration).pipe(
+      this.httpService.post(url, data, configuration).pipe(
         map((res) => {
           return res || null;
         }),
@@ -50,15 +52,17 @@ export class AxiosService {
   /**
    * Make a PUT request using Axios
    * @param url - The URL to make the request to
+   * @param data - Optional request body
    * @param configuration - Optional Axios configuration
    * @returns Promise with the response data
    */
   public async put(
     url: string,
+    data?: unknown,
     configuration?: AxiosRequestConfig,
   ): Promise<any> {
     return lastValueFrom(
-      this.httpService.put(url, configuration).pipe(
+      this.httpService.put(url, data, configuration).pipe(
         map((res) => {
           return res || null;
         }),
@@ -88,15 +92,17 @@ export class AxiosService {
   /**
    * Make a PATCH request using Axios
    * @param url - The URL to make the request to
+   * @param data - Optional request body
    * @param configuration - Optional Axios configuration
    * @returns Promise with the response data
    */
   public async patch(
     url: string,
+    data?: unknown,
     configuration?: AxiosRequestConfig,
   ): Promise<any> {
     return lastValueFrom(
-      this.httpService.patch(url, configuration).pipe(
+      this.httpService.patch(url, data, configuration).pipe(
         map((res) => {
           return res || null;
         }),
@@ -278,6 +278,41 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Atomically read and delete a cache entry.
+   *
+   * @remarks
+   * Uses `GETDEL`, so concurrent callers never both receive the value.
+   * Intended for single-use tokens.
+   *
+   * @template T - Expected type of the cached value after deserialization.
+   * @param {string} key - Cache key to consume.
+   * @returns {Promise<T | null>} The parsed value if key existed, otherwise `null`.
+   * @throws {Error} When Redis `GETDEL` command fails.
+   *
+   * @example
+   * const state = await cacheService.getAndDelete<ResetState>('reset:abc');
+   */
+  async getAndDelete<T>(key: string): Promise<T | null> {
+    try {
+      this.logger.debug(`🔍 Consuming cache key: ${key}`);
+      const value = await this.redis.getdel(key);
+
+      if (!value) {
+        return null;
+      }
+
+      try {
+        return JSON.parse(value) as T;
+      } catch {
+        return value as T;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to consume cache key ${key}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Delete a cache entry by key.
    *
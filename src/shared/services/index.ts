@@ -6,7 +6,8 @@ export * from './cache/cache.module';
 export * from './rabbitmq/rabbitmq.service';
 export * from './rabbitmq/rabbitmq.module';
 export * from './mail/mail.service';
-export * from './mail/mail.module';
+// MailModule is imported by path: its controller uses the auth guards,
+// which import this file
 export * from './mail/mail.interface';
 export * from './storage/r2.service';
 export * from './storage/storage.module';
@@ -1,7 +1,5 @@
-import { JwtAccessTokenGuard } from 'src/auth/guard/jwt-access-token.guard';
-import { RolesGuard } from 'src/auth/guard/role.guard';
-import { Roles } from 'src/common/decorators/roles.decorator';
-import { USER_CONSTANTS } from 'src/shared/constants/user.constants';
+import { RequirePermissions } from 'src/common/decorators/require-permissions.decorator';
+import { PERMISSIONS } from 'src/shared/constants/permission.constants';
 
 import {
   Body,
@@ -10,7 +8,6 @@ import {
   HttpCode,
   HttpStatus,
   Post,
-  UseGuards,
 } from '@nestjs/common';
 
 import {
@@ -21,7 +18,13 @@ import {
 } from './mail.interface';
 import { MailService } from './mail.service';
 
+/**
+ * Sending and monitoring mail
+ * Sending needs `mail:send`, metrics need `mail:metrics:read` or
+ * `mail:metrics:reset`
+ */
 @Controller('mail')
+@RequirePermissions(PERMISSIONS.MAIL_SEND)
 export class MailController {
   constructor(private readonly mailService: MailService) {}
 
@@ -78,13 +81,14 @@ export class MailController {
 
   @Get('metrics')
   @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSIONS.MAIL_METRICS_READ)
   async getMetrics(): Promise<MailMetrics> {
     return this.mailService.getMetrics();
   }
 
   @Post('reset-metrics')
   @HttpCode(HttpStatus.OK)
-  @Roles(USER_CONSTANTS.ROLES.ADMIN)
+  @RequirePermissions(PERMISSIONS.MAIL_METRICS_RESET)
   async resetMetrics(): Promise<{ success: boolean; message: string }> {
     this.mailService.resetMetrics();
     return {
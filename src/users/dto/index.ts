@@ -1,6 +1,9 @@
 export * from './create-device-token.dto';
 export * from './login.dto';
+export * from './oauth-login.dto';
 export * from './register.dto';
 export * from './session.dto';
 export * from './update-user.dto';
 export * from './update-password.dto';
+export * from './update-profile.dto';
+export * from './update-privacy-settings.dto';
@@ -2,33 +2,43 @@ import { IsNotEmpty, IsString, MaxLength, IsOptional } from 'class-validator';
 import { USER_CONSTANTS } from 'src/shared/constants';
 
 export class OAuthLoginDto {
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
   @MaxLength(USER_CONSTANTS.OAUTH_PROVIDER_MAX_LENGTH)
-  provider: string; // google, facebook, github, etc.
+  provider?: string; // google, facebook, github, etc. (taken from the route when omitted)
 
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
   @MaxLength(USER_CONSTANTS.OAUTH_ID_MAX_LENGTH)
-  oauthId: string; // Unique ID from OAuth provider
+  oauthId?: string; // Unique ID from OAuth provider, must match the verified token subject
 
-  @IsNotEmpty()
+  @IsOptional()
   @IsString()
   @MaxLength(USER_CONSTANTS.NAME_MAX_LENGTH)
-  name: string;
+  name?: string; // Used when the provider does not return a name (Apple)
 
   @IsOptional()
   @IsString()
   @MaxLength(USER_CONSTANTS.EMAIL_MAX_LENGTH)
-  email?: string;
+  email?: string; // Informational only, the verified token email always wins
 
   @IsOptional()
   @IsString()
   @MaxLength(USER_CONSTANTS.OAUTH_TOKEN_MAX_LENGTH)
   accessToken?: string;
 
+  @IsOptional()
+  @IsString()
+  @MaxLength(USER_CONSTANTS.OAUTH_TOKEN_MAX_LENGTH)
+  idToken?: string;
+
   @IsOptional()
   @IsString()
   @MaxLength(USER_CONSTANTS.OAUTH_TOKEN_MAX_LENGTH)
   refreshToken?: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  nonce?: string;
 }
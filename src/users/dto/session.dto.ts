@@ -1,10 +1,12 @@
 import {
   IsDate,
+  IsIn,
   IsNotEmpty,
   IsObject,
   IsOptional,
   IsString,
 } from 'class-validator';
+import { AuthType, USER_CONSTANTS } from 'src/shared/constants';
 
 export class CreateSessionDto {
   @IsNotEmpty()
@@ -19,10 +21,22 @@ export class CreateSessionDto {
   @IsDate()
   expiresAt?: Date;
 
+  @IsOptional()
+  @IsDate()
+  lastActiveAt?: Date;
+
   @IsNotEmpty()
   userId: string;
 
   @IsOptional()
   @IsObject()
   metadata?: Record<string, any>;
+
+  @IsOptional()
+  @IsIn(Object.values(USER_CONSTANTS.AUTH_TYPES))
+  authType?: AuthType;
+
+  @IsOptional()
+  @IsString()
+  refreshTokenHash?: string;
 }
@@ -0,0 +1,29 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { PrivacyLevel, USER_CONSTANTS } from 'src/shared/constants';
+
+const PRIVACY_LEVELS = Object.values(USER_CONSTANTS.PRIVACY_LEVELS);
+
+/**
+ * Who can see each profile field, omitted fields keep their setting
+ */
+export class UpdatePrivacySettingsDto {
+  @IsOptional()
+  @IsIn(PRIVACY_LEVELS)
+  name?: PrivacyLevel;
+
+  @IsOptional()
+  @IsIn(PRIVACY_LEVELS)
+  avatar?: PrivacyLevel;
+
+  @IsOptional()
+  @IsIn(PRIVACY_LEVELS)
+  email?: PrivacyLevel;
+
+  @IsOptional()
+  @IsIn(PRIVACY_LEVELS)
+  phoneNumber?: PrivacyLevel;
+
+  @IsOptional()
+  @IsIn(PRIVACY_LEVELS)
+  dob?: PrivacyLevel;
+}
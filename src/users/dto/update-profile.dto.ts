@@ -0,0 +1,45 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+
+/**
+ * Fields a user can change on their own profile
+ * The email is changed through `POST /auth/verify/email/change`
+ */
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(5)
+  @MaxLength(20)
+  username?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  dob?: Date;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phoneNumber?: string;
+
+  /**
+   * One of the user's own active images, `null` removes the avatar
+   */
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @Matches(/^\d{15,21}$/, { message: 'avatarId must be a media ID' })
+  avatarId?: string | null;
+}
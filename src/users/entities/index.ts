@@ -1,3 +1,5 @@
 export * from './user.entity';
 export * from './user-sessions.entity';
 export * from './user-device-tokens.entity';
+export * from './user-recovery-codes.entity';
+export * from './user-webauthn-credentials.entity';
@@ -0,0 +1,30 @@
+import { instanceToPlain } from 'class-transformer';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index } from 'typeorm';
+
+@Entity({
+  name: 'user_recovery_codes',
+})
+@Index(['userId', 'codeHash'], { unique: true })
+export class UserRecoveryCode extends BaseEntityCustom {
+  @Column('bigint')
+  @Index()
+  userId: string;
+
+  // SHA-256 of the normalized code, the plain code is only shown once
+  @Column({ type: 'varchar', length: 64 })
+  codeHash: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  toJSON() {
+    const plain = instanceToPlain(this);
+    delete plain.codeHash;
+    return plain;
+  }
+
+  isUsed(): boolean {
+    return !!this.usedAt;
+  }
+}
@@ -1,4 +1,4 @@
-import { instanceToPlain } from 'class-transformer';
+import { Exclude, instanceToPlain } from 'class-transformer';
 import {
   AuthType,
   USER_CONSTANTS,
@@ -48,6 +48,30 @@ export class UserSession extends BaseEntityCustom {
   @Column({ type: 'jsonb', nullable: true })
   metadata: Record<string, any> | null;
 
+  /**
+   * SHA-256 hash of the jti of the only refresh token that is currently valid
+   * for this session. Rotated on every refresh.
+   */
+  @Exclude()
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  refreshTokenHash: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastRefreshedAt: Date | null;
+
+  /**
+   * Last authenticated request of the session, written at most every
+   * SESSION_ACTIVITY_WRITE_INTERVAL_SECONDS
+   */
+  @Column({ type: 'timestamp', nullable: true })
+  lastActiveAt: Date | null;
+
+  /**
+   * Organization the session acts for, signed into access tokens as `oid`
+   */
+  @Column('bigint', { nullable: true })
+  activeOrgId: string | null;
+
   toJSON() {
     const plain = instanceToPlain(this);
     return plain;
@@ -0,0 +1,66 @@
+import { Exclude, instanceToPlain } from 'class-transformer';
+import { USER_CONSTANTS } from 'src/shared/constants';
+import { BaseEntityCustom } from 'src/shared/entities/base.entity';
+import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
+
+import { User } from './user.entity';
+
+@Entity({
+  name: 'user_webauthn_credentials',
+})
+export class UserWebAuthnCredential extends BaseEntityCustom {
+  @Column('bigint')
+  @Index()
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId', referencedColumnName: 'id' })
+  user: User;
+
+  // Base64url credential ID as returned by the authenticator
+  @Index({ unique: true })
+  @Column('varchar', {
+    length: USER_CONSTANTS.WEBAUTHN_CREDENTIAL_ID_MAX_LENGTH,
+  })
+  credentialId: string;
+
+  // Base64url COSE public key
+  @Exclude()
+  @Column({ type: 'text' })
+  publicKey: string;
+
+  // COSE algorithm identifier (-7 ES256, -8 EdDSA, -257 RS256)
+  @Column({ type: 'integer' })
+  algorithm: number;
+
+  @Column({
+    type: 'bigint',
+    default: 0,
+    transformer: {
+      to: (value: number) => value,
+      from: (value: string | null) => Number(value ?? 0),
+    },
+  })
+  signCount: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  transports: string[] | null;
+
+  @Column('varchar', {
+    length: USER_CONSTANTS.WEBAUTHN_NICKNAME_MAX_LENGTH,
+    nullable: true,
+  })
+  nickname: string | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  aaguid: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  toJSON() {
+    const plain = instanceToPlain(this);
+    delete plain.publicKey;
+    return plain;
+  }
+}
@@ -1,6 +1,10 @@
 import { instanceToPlain, Exclude } from 'class-transformer';
 import { Media } from 'src/media/entities/media.entity';
-import { USER_CONSTANTS, UserRole, UserStatus } from 'src/shared/constants';
+import {
+  PrivacySettings,
+  USER_CONSTANTS,
+  UserStatus,
+} from 'src/shared/constants';
 import { BaseEntityCustom } from 'src/shared/entities/base.entity';
 import { Column, Entity, Index, JoinColumn, ManyToOne } from 'typeorm';
 
@@ -27,6 +31,12 @@ export class User extends BaseEntityCustom {
   })
   username: string;
 
+  // Last username change, a new change has to wait for the cooldown
+  @Column('timestamp', {
+    nullable: true,
+  })
+  usernameChangedAt: Date | null;
+
   @Index() // Index for status filtering
   @Column({
     type: 'varchar',
@@ -36,14 +46,15 @@ export class User extends BaseEntityCustom {
   })
   status: UserStatus;
 
+  // Name of a role in `roles`, see USER_CONSTANTS.ROLES for the built-in ones
   @Index() // Index for role filtering
   @Column({
     type: 'varchar',
+    length: 50,
     nullable: false,
-    enum: USER_CONSTANTS.ROLES,
     default: USER_CONSTANTS.ROLES.USER,
   })
-  role: UserRole;
+  role: string;
 
   @Column({
     type: 'varchar',
@@ -105,6 +116,22 @@ export class User extends BaseEntityCustom {
   })
   isPhoneVerified: boolean;
 
+  // Two-factor authentication (TOTP)
+  @Column('boolean', {
+    default: false,
+  })
+  twoFactorEnabled: boolean;
+
+  // Sealed base32 TOTP secret, set once enrollment is confirmed
+  // Never selected by default so it stays out of cached users
+  @Exclude()
+  @Column('varchar', {
+    length: USER_CONSTANTS.TWO_FACTOR_SECRET_MAX_LENGTH,
+    nullable: true,
+    select: false,
+  })
+  twoFactorSecret: string | null;
+
   @Column('bigint', {
     nullable: true,
   })
@@ -114,9 +141,16 @@ export class User extends BaseEntityCustom {
   @JoinColumn({ name: 'avatarId', referencedColumnName: 'id' })
   avatar: Media; // Avatar media
 
+  // Who sees each profile field, unset fields use USER_CONSTANTS.DEFAULT_PRIVACY
+  @Column('jsonb', {
+    nullable: true,
+  })
+  privacySettings: Partial<PrivacySettings> | null;
+
   toJSON() {
     const result = instanceToPlain(this);
     delete result.password;
+    delete result.twoFactorSecret;
     delete result.uuid;
     return result;
   }
@@ -23,4 +23,25 @@ export class UserSessionsService extends BaseService<UserSession> {
       cacheService,
     );
   }
+
+  /**
+   * Drop cached session lists
+   * Revocations update rows through the repository directly and bypass
+   * the BaseService cache invalidation
+   */
+  async invalidateListCache(): Promise<void> {
+    if (!this.cache) return;
+    await this.cacheService?.deleteKeysByPattern(`${this.cache.prefix}:list:*`);
+  }
+
+  // Revoked sessions are kept for the sign-in history but never listed
+  protected async onListQueryBuilt({
+    where,
+  }: {
+    where: unknown;
+  }): Promise<void> {
+    for (const condition of [where].flat()) {
+      Object.assign(condition as object, { revoked: false });
+    }
+  }
 }
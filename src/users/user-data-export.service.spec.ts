@@ -0,0 +1,333 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Media } from 'src/media/entities/media.entity';
+import { QrTicket } from 'src/qr/entities/qr.entity';
+import { ApiKey } from 'src/rate-limit/entities/api-key.entity';
+import { CacheService, R2Service, RabbitMQService } from 'src/shared/services';
+import { MailQueueIntegrationService } from 'src/shared/services/mail/mail-queue-integration.service';
+import { User, UserDeviceToken, UserSession } from './entities';
+import { UserDataExportService } from './user-data-export.service';
+import { UsersService } from './users.service';
+
+describe('UserDataExportService', () => {
+  let service: UserDataExportService;
+  let usersService: jest.Mocked<UsersService>;
+  let r2Service: jest.Mocked<R2Service>;
+  let rabbitMQService: jest.Mocked<RabbitMQService>;
+  let mailQueueIntegration: jest.Mocked<MailQueueIntegrationService>;
+  let cacheService: jest.Mocked<CacheService>;
+  let redis: {
+    hgetall: jest.Mock;
+    hset: jest.Mock;
+    multi: jest.Mock;
+    zrangebyscore: jest.Mock;
+    zrem: jest.Mock;
+  };
+  let transaction: {
+    zadd: jest.Mock;
+    hset: jest.Mock;
+    hincrby: jest.Mock;
+    expire: jest.Mock;
+    exec: jest.Mock;
+  };
+
+  const repository = (rows: unknown[] = []) => ({
+    find: jest.fn().mockResolvedValue(rows),
+  });
+
+  beforeEach(async () => {
+    transaction = {
+      zadd: jest.fn(() => transaction),
+      hset: jest.fn(() => transaction),
+      hincrby: jest.fn(() => transaction),
+      expire: jest.fn(() => transaction),
+      exec: jest.fn().mockResolvedValue([[null, 1]]),
+    };
+    redis = {
+      hgetall: jest.fn().mockResolvedValue({}),
+      hset: jest.fn(),
+      multi: jest.fn(() => transaction),
+      zrangebyscore: jest.fn().mockResolvedValue([]),
+      zrem: jest.fn(),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserDataExportService,
+        {
+          provide: UsersService,
+          useValue: {
+            findOne: jest.fn().mockResolvedValue(
+              Object.assign(new User(), {
+                id: '123',
+                email: 'test@example.com',
+                name: 'Test User',
+                password: 'hashed',
+              }),
+            ),
+          },
+        },
+        { provide: getRepositoryToken(UserSession), useValue: repository() },
+        {
+          provide: getRepositoryToken(UserDeviceToken),
+          useValue: repository(),
+        },
+        { provide: getRepositoryToken(Media), useValue: repository() },
+        {
+          provide: getRepositoryToken(QrTicket),
+          useValue: repository([
+            Object.assign(new QrTicket(), {
+              id: '1',
+              type: 'login',
+              status: 'approved',
+              codeChallenge: 'challenge',
+              scannedById: '123',
+            }),
+          ]),
+        },
+        {
+          provide: getRepositoryToken(ApiKey),
+          useValue: repository([
+            Object.assign(new ApiKey(), {
+              id: '2',
+              key: 'sk_live_abcdef1234',
+              userId: '123',
+            }),
+          ]),
+        },
+        {
+          provide: R2Service,
+          useValue: {
+            uploadFile: jest
+              .fn()
+              .mockResolvedValue({ key: 'exports/123/1_data-export.json' }),
+            generatePresignedDownloadUrl: jest
+              .fn()
+              .mockResolvedValue('https://r2.example.com/signed'),
+            listFiles: jest.fn().mockResolvedValue([]),
+            deleteFiles: jest.fn(),
+          },
+        },
+        {
+          provide: RabbitMQService,
+          useValue: {
+            sendDataToRabbitMQAsync: jest.fn().mockResolvedValue(true),
+          },
+        },
+        {
+          provide: MailQueueIntegrationService,
+          useValue: {
+            sendTemplateMailQueue: jest.fn().mockResolvedValue({ jobId: '1' }),
+          },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            compareAndSwap: jest.fn().mockResolvedValue(true),
+            getTtl: jest.fn().mockResolvedValue(3600),
+            delete: jest.fn(),
+            getRedisClient: () => redis,
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(UserDataExportService);
+    usersService = module.get(UsersService);
+    r2Service = module.get(R2Service);
+    rabbitMQService = module.get(RabbitMQService);
+    mailQueueIntegration = module.get(MailQueueIntegrationService);
+    cacheService = module.get(CacheService);
+  });
+
+  describe('requestExport', () => {
+    it('should queue the export once per cooldown', async () => {
+      const result = await service.requestExport('123');
+
+      expect(result.messageKey).toBe('user.DATA_EXPORT_QUEUED');
+      expect(rabbitMQService.sendDataToRabbitMQAsync).toHaveBeenCalledWith(
+        'user_data_export',
+        expect.objectContaining({
+          userId: '123',
+          requestId: expect.any(String) as string,
+        }),
+      );
+
+      cacheService.compareAndSwap.mockResolvedValueOnce(false);
+      await expect(service.requestExport('123')).rejects.toMatchObject({
+        status: 429,
+        response: {
+          messageKey: 'user.DATA_EXPORT_COOLDOWN',
+          messageArgs: { seconds: 3600 },
+        },
+      });
+    });
+
+    it('should release the cooldown when the job cannot be queued', async () => {
+      rabbitMQService.sendDataToRabbitMQAsync.mockResolvedValueOnce(false);
+
+      await expect(service.requestExport('123')).rejects.toMatchObject({
+        status: 503,
+      });
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'user:export:cooldown:123',
+      );
+    });
+  });
+
+  describe('processExport', () => {
+    it('should upload the archive without secrets and email the link', async () => {
+      const key = await service.processExport({
+        userId: '123',
+        requestedAt: new Date().toISOString(),
+      });
+
+      expect(key).toBe('exports/123/1_data-export.json');
+      const [body, options] = r2Service.uploadFile.mock.calls[0];
+      const archive = (body as Buffer).toString();
+      expect(options).toMatchObject({
+        folder: 'exports/123',
+        contentType: 'application/json',
+      });
+      expect(archive).toContain('"keySuffix": "1234"');
+      expect(archive).toContain('"scannedByMe": true');
+      expect(archive).not.toContain('sk_live_abcdef1234');
+      expect(archive).not.toContain('challenge');
+      expect(archive).not.toContain('hashed');
+
+      expect(r2Service.generatePresignedDownloadUrl).toHaveBeenCalledWith(
+        'exports/123/1_data-export.json',
+        7 * 24 * 60 * 60,
+      );
+      expect(mailQueueIntegration.sendTemplateMailQueue).toHaveBeenCalledWith(
+        'notification',
+        { email: 'test@example.com', name: 'Test User' },
+        expect.objectContaining({
+          actionLink: 'https://r2.example.com/signed',
+        }),
+      );
+    });
+
+    it('should remember the archive of the request and when it expires', async () => {
+      await service.processExport({
+        requestId: 'req-1',
+        userId: '123',
+        requestedAt: '',
+      });
+
+      expect(transaction.zadd).toHaveBeenCalledWith(
+        'user:export:archives',
+        expect.any(Number),
+        'exports/123/1_data-export.json',
+      );
+      expect(transaction.hset).toHaveBeenCalledWith(
+        'user:export:request:req-1',
+        'key',
+        'exports/123/1_data-export.json',
+      );
+      expect(redis.hset).toHaveBeenCalledWith(
+        'user:export:request:req-1',
+        'done',
+        1,
+      );
+    });
+
+    it('should reuse the archive uploaded by an earlier attempt', async () => {
+      redis.hgetall.mockResolvedValue({
+        key: 'exports/123/1_data-export.json',
+      });
+
+      await service.processExport({
+        requestId: 'req-1',
+        userId: '123',
+        requestedAt: '',
+      });
+
+      expect(r2Service.uploadFile).not.toHaveBeenCalled();
+      expect(r2Service.generatePresignedDownloadUrl).toHaveBeenCalledWith(
+        'exports/123/1_data-export.json',
+        7 * 24 * 60 * 60,
+      );
+      expect(mailQueueIntegration.sendTemplateMailQueue).toHaveBeenCalled();
+    });
+
+    it('should not send the link again once delivered', async () => {
+      redis.hgetall.mockResolvedValue({
+        key: 'exports/123/1_data-export.json',
+        done: '1',
+      });
+
+      await expect(
+        service.processExport({
+          requestId: 'req-1',
+          userId: '123',
+          requestedAt: '',
+        }),
+      ).resolves.toBe('exports/123/1_data-export.json');
+      expect(usersService.findOne).not.toHaveBeenCalled();
+      expect(mailQueueIntegration.sendTemplateMailQueue).not.toHaveBeenCalled();
+    });
+
+    it('should skip users deleted since the request', async () => {
+      usersService.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.processExport({ userId: '123', requestedAt: '' }),
+      ).resolves.toBeNull();
+      expect(r2Service.uploadFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordFailedAttempt', () => {
+    const job = { requestId: 'req-1', userId: '123', requestedAt: '' };
+
+    it('should retry until the attempts are used up', async () => {
+      transaction.exec.mockResolvedValueOnce([[null, 2]]);
+      await expect(service.recordFailedAttempt(job)).resolves.toBe(true);
+      expect(transaction.hincrby).toHaveBeenCalledWith(
+        'user:export:request:req-1',
+        'attempts',
+        1,
+      );
+      expect(cacheService.delete).not.toHaveBeenCalled();
+
+      transaction.exec.mockResolvedValueOnce([[null, 3]]);
+      await expect(service.recordFailedAttempt(job)).resolves.toBe(false);
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'user:export:cooldown:123',
+      );
+    });
+  });
+
+  describe('deleteExpiredExports', () => {
+    it('should delete the archives whose link expired', async () => {
+      redis.zrangebyscore.mockResolvedValue(['exports/123/1_data-export.json']);
+
+      await expect(service.deleteExpiredExports()).resolves.toBe(1);
+
+      expect(r2Service.deleteFiles).toHaveBeenCalledWith([
+        'exports/123/1_data-export.json',
+      ]);
+      expect(redis.zrem).toHaveBeenCalledWith(
+        'user:export:archives',
+        'exports/123/1_data-export.json',
+      );
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'user:export:cleanup-lock',
+      );
+    });
+
+    it('should skip the sweep when another instance holds the lock', async () => {
+      cacheService.compareAndSwap.mockResolvedValueOnce(false);
+
+      await expect(service.deleteExpiredExports()).resolves.toBe(0);
+      expect(redis.zrangebyscore).not.toHaveBeenCalled();
+    });
+  });
+});
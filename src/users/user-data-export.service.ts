@@ -0,0 +1,380 @@
+import { randomBytes } from 'crypto';
+import { maskEmail } from 'src/common/utils';
+import { Media } from 'src/media/entities/media.entity';
+import { QrTicket } from 'src/qr/entities/qr.entity';
+import { ApiKey } from 'src/rate-limit/entities/api-key.entity';
+import { JOB_NAME } from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService, R2Service, RabbitMQService } from 'src/shared/services';
+import { MailQueueIntegrationService } from 'src/shared/services/mail/mail-queue-integration.service';
+import { User, UserDeviceToken, UserSession } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+import { Repository } from 'typeorm';
+
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+
+export interface UserDataExportJob {
+  /** Identifies the request across redeliveries, absent on older jobs */
+  requestId?: string;
+  userId: string;
+  requestedAt: string;
+}
+
+/**
+ * Self-service export of everything stored about a user
+ * The archive is built by the worker, stored in R2 under
+ * `exports/<userId>/` and delivered as a presigned link by email.
+ * Archives are deleted by a periodic sweep once their link expired.
+ */
+@Injectable()
+export class UserDataExportService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UserDataExportService.name);
+
+  private readonly COOLDOWN_PREFIX = 'user:export:cooldown:';
+  // Hash per request: attempts, R2 key of the archive, done flag
+  private readonly REQUEST_PREFIX = 'user:export:request:';
+  private readonly MAX_ATTEMPTS = 3;
+  // Sorted set of archive keys scored by the expiry of their link
+  private readonly ARCHIVES_KEY = 'user:export:archives';
+  private readonly CLEANUP_LOCK_KEY = 'user:export:cleanup-lock';
+  private readonly CLEANUP_LOCK_TTL_SECONDS = 10 * 60; // 10 minutes
+  private readonly CLEANUP_BATCH_SIZE = 100;
+
+  private cleanupTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly usersService: UsersService,
+    @InjectRepository(UserSession)
+    private readonly sessionRepository: Repository<UserSession>,
+    @InjectRepository(UserDeviceToken)
+    private readonly deviceTokenRepository: Repository<UserDeviceToken>,
+    @InjectRepository(Media)
+    private readonly mediaRepository: Repository<Media>,
+    @InjectRepository(QrTicket)
+    private readonly qrTicketRepository: Repository<QrTicket>,
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+    private readonly r2Service: R2Service,
+    private readonly rabbitMQService: RabbitMQService,
+    private readonly mailQueueIntegration: MailQueueIntegrationService,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.cleanupTimer = setInterval(() => {
+      this.deleteExpiredExports().catch((error) =>
+        this.logger.error('Failed to delete expired data exports:', error),
+      );
+    }, this.getConfig().exportCleanupIntervalSeconds * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Queue an export of the authenticated user's data
+   * One request per cooldown window, the window is released again when
+   * the job could not be queued
+   * @param userId - Authenticated user
+   * @throws HttpException 429 with the seconds left
+   */
+  async requestExport(userId: string) {
+    const cooldown = this.getConfig().exportCooldownSeconds;
+    const key = `${this.COOLDOWN_PREFIX}${userId}`;
+    const acquired = await this.cacheService.compareAndSwap(
+      key,
+      null,
+      Date.now(),
+      cooldown,
+    );
+    if (!acquired) {
+      const ttl = await this.cacheService.getTtl(key);
+      throw new HttpException(
+        {
+          messageKey: 'user.DATA_EXPORT_COOLDOWN',
+          messageArgs: { seconds: ttl > 0 ? ttl : cooldown },
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const job: UserDataExportJob = {
+      requestId: randomBytes(12).toString('base64url'),
+      userId,
+      requestedAt: new Date().toISOString(),
+    };
+    const queued = await this.rabbitMQService.sendDataToRabbitMQAsync(
+      JOB_NAME.USER_DATA_EXPORT,
+      job,
+    );
+    if (!queued) {
+      await this.cacheService.delete(key);
+      throw new HttpException(
+        { messageKey: 'user.DATA_EXPORT_UNAVAILABLE' },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    return buildResponse({ messageKey: 'user.DATA_EXPORT_QUEUED' });
+  }
+
+  /**
+   * Build the archive, upload it and email the download link
+   * Runs in the worker. Users deleted since the request are skipped.
+   * A redelivered request reuses the archive uploaded by an earlier
+   * attempt and does nothing once the link was sent.
+   * @param job - Queued export request
+   * @returns R2 key of the archive, or null when skipped
+   */
+  async processExport(job: UserDataExportJob): Promise<string | null> {
+    const redis = this.cacheService.getRedisClient();
+    const requestKey = this.getRequestKey(job);
+    const request = await redis.hgetall(requestKey);
+    if (request.done) {
+      this.logger.warn(`Data export ${requestKey} already delivered`);
+      return request.key ?? null;
+    }
+
+    const user = await this.usersService.findOne(
+      { id: job.userId },
+      { relations: ['avatar'] },
+    );
+    if (!user) {
+      this.logger.warn(`Skipping data export of missing user ${job.userId}`);
+      return null;
+    }
+
+    const { exportLinkTtlSeconds } = this.getConfig();
+    let key = request.key;
+    if (!key) {
+      const archive = await this.collect(user, job.requestedAt);
+      ({ key } = await this.r2Service.uploadFile(
+        Buffer.from(JSON.stringify(archive, null, 2)),
+        {
+          folder: this.getExportFolder(user.id),
+          filename: 'data-export.json',
+          contentType: 'application/json',
+          cacheControl: 'private, no-store',
+        },
+      ));
+      await redis
+        .multi()
+        .zadd(this.ARCHIVES_KEY, Date.now() + exportLinkTtlSeconds * 1000, key)
+        .hset(requestKey, 'key', key)
+        .expire(requestKey, exportLinkTtlSeconds)
+        .exec();
+    }
+
+    const link = await this.r2Service.generatePresignedDownloadUrl(
+      key,
+      exportLinkTtlSeconds,
+    );
+    if (user.email) {
+      await this.sendExportLink(user, link, exportLinkTtlSeconds);
+    }
+    await redis.hset(requestKey, 'done', 1);
+
+    this.logger.log(`Data export of user ${user.id} stored at ${key}`);
+    return key;
+  }
+
+  /**
+   * Count a failed attempt of an export request
+   * Once the attempts are used up the request is dropped and the cooldown
+   * released, so the user can ask again
+   * @param job - Export request that failed
+   * @returns true when the job should be retried
+   */
+  async recordFailedAttempt(job: UserDataExportJob): Promise<boolean> {
+    const requestKey = this.getRequestKey(job);
+    const [[, attempts]] = (await this.cacheService
+      .getRedisClient()
+      .multi()
+      .hincrby(requestKey, 'attempts', 1)
+      .expire(requestKey, this.getConfig().exportLinkTtlSeconds)
+      .exec()) as [[Error | null, number]];
+
+    if (attempts < this.MAX_ATTEMPTS) return true;
+
+    this.logger.error(
+      `Giving up data export ${requestKey} after ${attempts} attempts`,
+    );
+    await this.cacheService.delete(`${this.COOLDOWN_PREFIX}${job.userId}`);
+    return false;
+  }
+
+  /**
+   * Delete the archives whose download link expired
+   * Only one instance sweeps at a time
+   * @returns Number of archives deleted
+   */
+  async deleteExpiredExports(): Promise<number> {
+    const acquired = await this.cacheService.compareAndSwap(
+      this.CLEANUP_LOCK_KEY,
+      null,
+      Date.now(),
+      this.CLEANUP_LOCK_TTL_SECONDS,
+    );
+    if (!acquired) return 0;
+
+    try {
+      const redis = this.cacheService.getRedisClient();
+      const keys = await redis.zrangebyscore(
+        this.ARCHIVES_KEY,
+        '-inf',
+        Date.now(),
+        'LIMIT',
+        0,
+        this.CLEANUP_BATCH_SIZE,
+      );
+      if (keys.length === 0) return 0;
+
+      await this.r2Service.deleteFiles(keys);
+      await redis.zrem(this.ARCHIVES_KEY, ...keys);
+      this.logger.log(`Deleted ${keys.length} expired data exports`);
+      return keys.length;
+    } finally {
+      await this.cacheService.delete(this.CLEANUP_LOCK_KEY);
+    }
+  }
+
+  /**
+   * Delete every archive of a user from R2
+   * @param userId - User ID
+   */
+  async deleteExports(userId: string): Promise<void> {
+    const keys = await this.r2Service.listFiles(
+      `${this.getExportFolder(userId)}/`,
+    );
+    if (keys.length > 0) await this.r2Service.deleteFiles(keys);
+  }
+
+  private async collect(user: User, requestedAt: string) {
+    const [sessions, deviceTokens, media, qrTickets, apiKeys] =
+      await Promise.all([
+        this.sessionRepository.find({
+          where: { userId: user.id },
+          order: { createdAt: 'DESC' },
+        }),
+        this.deviceTokenRepository.find({
+          where: { userId: user.id },
+          order: { createdAt: 'DESC' },
+        }),
+        this.mediaRepository.find({
+          where: { userId: user.id },
+          order: { createdAt: 'DESC' },
+        }),
+        this.qrTicketRepository.find({
+          where: [
+            { createdById: user.id },
+            { scannedById: user.id },
+            { approvedById: user.id },
+          ],
+          order: { createdAt: 'DESC' },
+        }),
+        this.apiKeyRepository.find({
+          where: { userId: user.id },
+          order: { createdAt: 'DESC' },
+        }),
+      ]);
+
+    // Entities strip their secrets in toJSON, QR tickets and API keys are
+    // reduced by hand since they hold PKCE challenges and raw keys
+    return {
+      requestedAt,
+      exportedAt: new Date().toISOString(),
+      profile: user,
+      sessions,
+      deviceTokens,
+      media,
+      qrTickets: qrTickets.map((ticket) => ({
+        id: ticket.id,
+        type: ticket.type,
+        status: ticket.status,
+        createdByMe: ticket.createdById === user.id,
+        scannedByMe: ticket.scannedById === user.id,
+        approvedByMe: ticket.approvedById === user.id,
+        createdAt: ticket.createdAt,
+        scannedAt: ticket.scannedAt ?? null,
+        approvedAt: ticket.approvedAt ?? null,
+      })),
+      apiKeys: apiKeys.map((apiKey) => ({
+        id: apiKey.id,
+        name: apiKey.name ?? null,
+        keySuffix: apiKey.key.slice(-4),
+        status: apiKey.status,
+        active: apiKey.active,
+        planId: apiKey.planId ?? null,
+        lastUsedAt: apiKey.lastUsedAt ?? null,
+        expiresAt: apiKey.expiresAt ?? null,
+        createdAt: apiKey.createdAt,
+      })),
+    };
+  }
+
+  private async sendExportLink(
+    user: User,
+    link: string,
+    ttlSeconds: number,
+  ): Promise<void> {
+    const days = Math.max(1, Math.floor(ttlSeconds / (24 * 60 * 60)));
+    await this.mailQueueIntegration.sendTemplateMailQueue(
+      'notification',
+      { email: user.email, name: user.name },
+      {
+        appName: process.env.APP_NAME || 'NestJS App',
+        name: user.name || user.email,
+        email: user.email,
+        notificationTitle: 'Your data export is ready',
+        notificationMessage:
+          'The archive contains your profile, sessions, devices, media, QR activity and API keys.',
+        actionRequired: true,
+        actionDescription: `The download link expires in ${days} day(s).`,
+        actionLink: link,
+        actionButtonText: 'Download your data',
+        additionalInfo: [],
+        supportEmail: process.env.MAIL_SUPPORT || process.env.MAIL_FROM,
+        companyName: process.env.COMPANY_NAME || 'Your Company',
+        companyAddress: process.env.COMPANY_ADDRESS || '',
+      },
+    );
+    this.logger.log(`Data export link queued to ${maskEmail(user.email)}`);
+  }
+
+  private getRequestKey(job: UserDataExportJob): string {
+    return `${this.REQUEST_PREFIX}${job.requestId ?? `${job.userId}:${job.requestedAt}`}`;
+  }
+
+  private getExportFolder(userId: string): string {
+    const folder =
+      this.configService.get<string>('r2.folders.exports') ?? 'exports';
+    return `${folder}/${userId}`;
+  }
+
+  private getConfig() {
+    return {
+      exportCooldownSeconds:
+        this.configService.get<number>('app.account.exportCooldownSeconds') ??
+        24 * 60 * 60,
+      exportLinkTtlSeconds:
+        this.configService.get<number>('app.account.exportLinkTtlSeconds') ??
+        7 * 24 * 60 * 60,
+      exportCleanupIntervalSeconds:
+        this.configService.get<number>(
+          'app.account.exportCleanupIntervalSeconds',
+        ) ?? 60 * 60,
+    };
+  }
+}
@@ -0,0 +1,163 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { AuthService } from 'src/auth/auth.service';
+import { SessionRevocationService } from 'src/auth/session-revocation.service';
+import { MediaService } from 'src/media/media.service';
+import { CacheService } from 'src/shared/services';
+import { UserDataExportService } from './user-data-export.service';
+import { UserDeletionService } from './user-deletion.service';
+import { UsersService } from './users.service';
+
+describe('UserDeletionService', () => {
+  let service: UserDeletionService;
+  let usersService: jest.Mocked<UsersService>;
+  let mediaService: jest.Mocked<MediaService>;
+  let userDataExportService: jest.Mocked<UserDataExportService>;
+  let sessionRevocation: jest.Mocked<SessionRevocationService>;
+  let authService: jest.Mocked<AuthService>;
+  let cacheService: jest.Mocked<CacheService>;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserDeletionService,
+        {
+          provide: UsersService,
+          useValue: {
+            softDelete: jest.fn(),
+            findUsersDeletedBefore: jest.fn().mockResolvedValue([]),
+            detachAvatar: jest.fn(),
+            purgeUser: jest.fn(),
+          },
+        },
+        {
+          provide: MediaService,
+          useValue: { purgeUserMedia: jest.fn() },
+        },
+        {
+          provide: UserDataExportService,
+          useValue: { deleteExports: jest.fn() },
+        },
+        {
+          provide: SessionRevocationService,
+          useValue: { revokeAllSessions: jest.fn() },
+        },
+        {
+          provide: AuthService,
+          useValue: { assertReauthenticated: jest.fn() },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            compareAndSwap: jest.fn().mockResolvedValue(true),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'app.account.deletionGraceDays' ? 14 : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(UserDeletionService);
+    usersService = module.get(UsersService);
+    mediaService = module.get(MediaService);
+    userDataExportService = module.get(UserDataExportService);
+    sessionRevocation = module.get(SessionRevocationService);
+    cacheService = module.get(CacheService);
+    authService = module.get(AuthService);
+  });
+
+  it('should sign the user out and soft delete the account', async () => {
+    const result = await service.deleteAccount(
+      { uid: '123', ssid: 'session123' },
+      { currentPassword: 'secret1' },
+    );
+
+    expect(authService.assertReauthenticated).toHaveBeenCalledWith(
+      { uid: '123', ssid: 'session123' },
+      { currentPassword: 'secret1' },
+    );
+    expect(sessionRevocation.revokeAllSessions).toHaveBeenCalledWith('123');
+    expect(usersService.softDelete).toHaveBeenCalledWith('123');
+    expect(result.messageKey).toBe('user.ACCOUNT_DELETION_SCHEDULED');
+    expect(
+      (result.data as { purgeAfter: Date }).purgeAfter.getTime(),
+    ).toBeGreaterThan(Date.now() + 13 * DAY_MS);
+  });
+
+  it('should keep the account when re-authentication fails', async () => {
+    authService.assertReauthenticated.mockRejectedValue(
+      new UnauthorizedException({ messageKey: 'user.INVALID_PASSWORD' }),
+    );
+
+    await expect(
+      service.deleteAccount(
+        { uid: '123', ssid: 'session123' },
+        { currentPassword: 'wrong-password' },
+      ),
+    ).rejects.toMatchObject({ status: 401 });
+    expect(sessionRevocation.revokeAllSessions).not.toHaveBeenCalled();
+    expect(usersService.softDelete).not.toHaveBeenCalled();
+  });
+
+  describe('purgeDeletedAccounts', () => {
+    it('should purge accounts past the grace period, files first', async () => {
+      const order: string[] = [];
+      usersService.findUsersDeletedBefore.mockResolvedValue([
+        { id: '1' },
+        { id: '2' },
+      ]);
+      mediaService.purgeUserMedia.mockImplementation((id) => {
+        order.push(`media:${id}`);
+        return Promise.resolve(0);
+      });
+      usersService.purgeUser.mockImplementation((id) => {
+        order.push(`user:${id}`);
+        return Promise.resolve();
+      });
+
+      await expect(service.purgeDeletedAccounts()).resolves.toBe(2);
+
+      const [deletedBefore] = usersService.findUsersDeletedBefore.mock.calls[0];
+      expect(deletedBefore.getTime()).toBeLessThanOrEqual(
+        Date.now() - 14 * DAY_MS,
+      );
+      expect(usersService.detachAvatar).toHaveBeenCalledWith('1');
+      expect(userDataExportService.deleteExports).toHaveBeenCalledWith('2');
+      expect(order).toEqual(['media:1', 'user:1', 'media:2', 'user:2']);
+      expect(cacheService.delete).toHaveBeenCalledWith(
+        'user:deletion:purge-lock',
+      );
+    });
+
+    it('should keep a user whose files could not be deleted', async () => {
+      usersService.findUsersDeletedBefore.mockResolvedValue([
+        { id: '1' },
+        { id: '2' },
+      ]);
+      mediaService.purgeUserMedia.mockRejectedValueOnce(new Error('R2 down'));
+
+      await expect(service.purgeDeletedAccounts()).resolves.toBe(1);
+      expect(usersService.purgeUser).toHaveBeenCalledTimes(1);
+      expect(usersService.purgeUser).toHaveBeenCalledWith('2');
+    });
+
+    it('should skip the sweep when another instance holds the lock', async () => {
+      cacheService.compareAndSwap.mockResolvedValue(false);
+
+      await expect(service.purgeDeletedAccounts()).resolves.toBe(0);
+      expect(usersService.findUsersDeletedBefore).not.toHaveBeenCalled();
+    });
+  });
+});
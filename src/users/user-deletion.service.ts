@@ -0,0 +1,154 @@
+import { AuthService } from 'src/auth/auth.service';
+import { ReauthenticateDto } from 'src/auth/dto';
+import { SessionRevocationService } from 'src/auth/session-revocation.service';
+import { AuthPayload } from 'src/common/interface';
+import { MediaService } from 'src/media/media.service';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { CacheService } from 'src/shared/services';
+import { UserDataExportService } from 'src/users/user-data-export.service';
+import { UsersService } from 'src/users/users.service';
+
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Account deletion with a grace period
+ * Deleting an account signs the user out everywhere and soft deletes it.
+ * Once the grace period is over a periodic sweep purges the user, their
+ * rows in every module and their files in R2.
+ */
+@Injectable()
+export class UserDeletionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UserDeletionService.name);
+
+  private readonly PURGE_LOCK_KEY = 'user:deletion:purge-lock';
+  private readonly PURGE_LOCK_TTL_SECONDS = 10 * 60; // 10 minutes
+  private readonly PURGE_BATCH_SIZE = 50;
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private purgeTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly userDataExportService: UserDataExportService,
+    // MediaModule imports UsersModule for its guards
+    @Inject(forwardRef(() => MediaService))
+    private readonly mediaService: MediaService,
+    private readonly sessionRevocation: SessionRevocationService,
+    // AuthModule imports UsersModule
+    @Inject(forwardRef(() => AuthService))
+    private readonly authService: AuthService,
+    private readonly cacheService: CacheService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.purgeTimer = setInterval(() => {
+      this.purgeDeletedAccounts().catch((error) =>
+        this.logger.error('Failed to purge deleted accounts:', error),
+      );
+    }, this.getConfig().purgeIntervalSeconds * 1000);
+    this.purgeTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.purgeTimer);
+  }
+
+  /**
+   * Delete the account of the authenticated user
+   * The user re-authenticates first. The account is soft deleted right
+   * away and purged after the grace period
+   * @param authPayload - Authenticated user
+   * @param dto - Current password, 2FA code or passkey assertion
+   */
+  async deleteAccount(authPayload: AuthPayload, dto: ReauthenticateDto) {
+    await this.authService.assertReauthenticated(authPayload, dto);
+
+    const userId = authPayload.uid;
+    await this.sessionRevocation.revokeAllSessions(userId);
+    await this.usersService.softDelete(userId);
+
+    const purgeAfter = new Date(
+      Date.now() + this.getConfig().deletionGraceDays * this.DAY_MS,
+    );
+    this.logger.log(
+      `User ${userId} deleted, purge after ${purgeAfter.toISOString()}`,
+    );
+
+    return buildResponse({
+      messageKey: 'user.ACCOUNT_DELETION_SCHEDULED',
+      data: { purgeAfter },
+    });
+  }
+
+  /**
+   * Purge the accounts whose grace period is over
+   * Only one instance sweeps at a time. A user whose files could not be
+   * deleted is kept and retried on the next sweep.
+   * @returns Number of users purged
+   */
+  async purgeDeletedAccounts(): Promise<number> {
+    const acquired = await this.cacheService.compareAndSwap(
+      this.PURGE_LOCK_KEY,
+      null,
+      Date.now(),
+      this.PURGE_LOCK_TTL_SECONDS,
+    );
+    if (!acquired) return 0;
+
+    try {
+      const deletedBefore = new Date(
+        Date.now() - this.getConfig().deletionGraceDays * this.DAY_MS,
+      );
+      const users = await this.usersService.findUsersDeletedBefore(
+        deletedBefore,
+        this.PURGE_BATCH_SIZE,
+      );
+
+      let purged = 0;
+      for (const { id } of users) {
+        try {
+          await this.purgeAccount(id);
+          purged++;
+        } catch (error) {
+          this.logger.error(`Failed to purge user ${id}:`, error);
+        }
+      }
+
+      if (purged > 0) this.logger.log(`Purged ${purged} deleted accounts`);
+      return purged;
+    } finally {
+      await this.cacheService.delete(this.PURGE_LOCK_KEY);
+    }
+  }
+
+  /**
+   * Permanently delete a user, files first so nothing is orphaned in R2
+   * @param userId - Soft-deleted user
+   */
+  async purgeAccount(userId: string): Promise<void> {
+    // The avatar references the media that are about to go
+    await this.usersService.detachAvatar(userId);
+    await this.mediaService.purgeUserMedia(userId);
+    await this.userDataExportService.deleteExports(userId);
+    await this.usersService.purgeUser(userId);
+  }
+
+  private getConfig() {
+    return {
+      deletionGraceDays:
+        this.configService.get<number>('app.account.deletionGraceDays') ?? 30,
+      purgeIntervalSeconds:
+        this.configService.get<number>('app.account.purgeIntervalSeconds') ??
+        60 * 60,
+    };
+  }
+}
@@ -0,0 +1,250 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import 'reflect-metadata';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { FriendshipsService } from 'src/friendships/friendships.service';
+import { Media } from 'src/media/entities/media.entity';
+import { MediaService } from 'src/media/media.service';
+import { User } from './entities';
+import { UserProfileService } from './user-profile.service';
+import { UserPolicy } from './user.policy';
+import { UsersService } from './users.service';
+
+describe('UserProfileService', () => {
+  let service: UserProfileService;
+  let usersService: jest.Mocked<UsersService>;
+  let mediaService: jest.Mocked<MediaService>;
+  let userPolicy: jest.Mocked<UserPolicy>;
+  let friendshipsService: jest.Mocked<FriendshipsService>;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const buildUser = (overrides: Partial<User> = {}) =>
+    Object.assign(new User(), {
+      id: '123',
+      username: 'testuser',
+      phoneNumber: '+84901234567',
+      isPhoneVerified: true,
+      avatarId: null,
+      usernameChangedAt: null,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserProfileService,
+        {
+          provide: UsersService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(buildUser()),
+            findOne: jest.fn().mockResolvedValue(null),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: MediaService,
+          useValue: {
+            findOne: jest.fn().mockResolvedValue(null),
+            update: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(30) },
+        },
+        {
+          provide: UserPolicy,
+          useValue: { can: jest.fn().mockResolvedValue(false) },
+        },
+        {
+          provide: FriendshipsService,
+          useValue: { areFriends: jest.fn().mockResolvedValue(false) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(UserProfileService);
+    usersService = module.get(UsersService);
+    mediaService = module.get(MediaService);
+    userPolicy = module.get(UserPolicy);
+    friendshipsService = module.get(FriendshipsService);
+  });
+
+  describe('getProfile', () => {
+    const profileOwner = () =>
+      buildUser({
+        name: 'Test User',
+        email: 'test@example.com',
+        dob: new Date('2000-01-01'),
+        privacySettings: { email: 'public', name: 'private' },
+      });
+
+    it('should show others only the public fields', async () => {
+      usersService.findOne.mockResolvedValue(profileOwner());
+
+      await expect(
+        service.getProfile({ username: 'testuser' }),
+      ).resolves.toEqual({
+        id: '123',
+        username: 'testuser',
+        email: 'test@example.com',
+      });
+      expect(usersService.findOne).toHaveBeenCalledWith(
+        { username: 'testuser' },
+        { relations: ['avatar'] },
+      );
+    });
+
+    it('should show the owner everything', async () => {
+      const user = profileOwner();
+      usersService.findOne.mockResolvedValue(user);
+      userPolicy.can.mockResolvedValue(true);
+
+      const viewer = { uid: '123', ssid: 's1' };
+      await expect(service.getProfile({ id: '123' }, viewer)).resolves.toBe(
+        user,
+      );
+      expect(userPolicy.can).toHaveBeenCalledWith(viewer, 'read', user);
+    });
+
+    it('should show friends the friends-only fields', async () => {
+      usersService.findOne.mockResolvedValue(profileOwner());
+      friendshipsService.areFriends.mockResolvedValue(true);
+
+      await expect(
+        service.getProfile({ id: '123' }, { uid: '456', ssid: 's2' }),
+      ).resolves.toEqual({
+        id: '123',
+        username: 'testuser',
+        email: 'test@example.com',
+        dob: new Date('2000-01-01'),
+      });
+      expect(friendshipsService.areFriends).toHaveBeenCalledWith('456', '123');
+    });
+
+    it('should answer 404 for unknown users', async () => {
+      await expect(
+        service.getProfile({ username: 'nobody' }),
+      ).rejects.toMatchObject({
+        status: 404,
+        response: { messageKey: 'user.USER_NOT_FOUND' },
+      });
+    });
+  });
+
+  it('should update the given fields and reset phone verification', async () => {
+    const result = await service.updateProfile('123', {
+      name: 'New Name',
+      phoneNumber: '+84907654321',
+    });
+
+    expect(result.messageKey).toBe('user.PROFILE_UPDATED');
+    expect(usersService.update).toHaveBeenCalledWith('123', {
+      name: 'New Name',
+      phoneNumber: '+84907654321',
+      isPhoneVerified: false,
+    });
+  });
+
+  describe('username', () => {
+    it('should record when the username changed', async () => {
+      await service.updateProfile('123', { username: 'newname' });
+
+      expect(usersService.findOne).toHaveBeenCalledWith({
+        username: 'newname',
+      });
+      expect(usersService.update.mock.calls[0][1]).toMatchObject({
+        username: 'newname',
+        usernameChangedAt: expect.any(Date) as Date,
+      });
+    });
+
+    it('should reject a username taken by another user', async () => {
+      usersService.findOne.mockResolvedValueOnce(buildUser({ id: '456' }));
+
+      await expect(
+        service.updateProfile('123', { username: 'taken' }),
+      ).rejects.toMatchObject({
+        status: 409,
+        response: { messageKey: 'user.USERNAME_ALREADY_EXISTS' },
+      });
+      expect(usersService.update).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the cooldown between changes', async () => {
+      usersService.findById.mockResolvedValue(
+        buildUser({ usernameChangedAt: new Date(Date.now() - 10 * DAY_MS) }),
+      );
+
+      await expect(
+        service.updateProfile('123', { username: 'newname' }),
+      ).rejects.toMatchObject({
+        status: 429,
+        response: {
+          messageKey: 'user.USERNAME_CHANGE_COOLDOWN',
+          messageArgs: { days: 20 },
+        },
+      });
+
+      // Sending the current username again is not a change
+      await service.updateProfile('123', { username: 'testuser' });
+      expect(usersService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('avatar', () => {
+    it('should only accept an active image of the user', async () => {
+      await expect(
+        service.updateProfile('123', { avatarId: '100000000000000001' }),
+      ).rejects.toMatchObject({
+        status: 400,
+        response: { messageKey: 'user.INVALID_AVATAR' },
+      });
+      expect(mediaService.findOne).toHaveBeenCalledWith({
+        id: '100000000000000001',
+        userId: '123',
+        type: 'image',
+        status: 'active',
+      });
+    });
+
+    it('should publish the new avatar and release the old one', async () => {
+      usersService.findById.mockResolvedValue(
+        buildUser({ avatarId: '100000000000000001' }),
+      );
+      mediaService.findOne.mockImplementation((where) =>
+        Promise.resolve(
+          Object.assign(new Media(), where as Partial<Media>, {
+            userId: '123',
+          }),
+        ),
+      );
+
+      await service.updateProfile('123', { avatarId: '100000000000000002' });
+
+      expect(usersService.update).toHaveBeenCalledWith('123', {
+        avatarId: '100000000000000002',
+      });
+      expect(mediaService.update).toHaveBeenCalledWith('100000000000000002', {
+        isPublic: true,
+      });
+      expect(mediaService.update).toHaveBeenCalledWith('100000000000000001', {
+        isPublic: false,
+      });
+    });
+
+    it('should remove the avatar with null', async () => {
+      usersService.findById.mockResolvedValue(
+        buildUser({ avatarId: '100000000000000001' }),
+      );
+
+      await service.updateProfile('123', { avatarId: null });
+
+      expect(usersService.update).toHaveBeenCalledWith('123', {
+        avatarId: null,
+      });
+      // The old avatar was deleted meanwhile, nothing to release
+      expect(mediaService.update).not.toHaveBeenCalled();
+    });
+  });
+});
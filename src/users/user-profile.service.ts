@@ -0,0 +1,186 @@
+import { AuthPayload } from 'src/common/interface';
+import { FriendshipsService } from 'src/friendships/friendships.service';
+import { Media } from 'src/media/entities/media.entity';
+import { MediaService } from 'src/media/media.service';
+import { MEDIA_CONSTANTS } from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { UpdateProfileDto } from 'src/users/dto';
+import { User } from 'src/users/entities';
+import { UserPolicy } from 'src/users/user.policy';
+import { UsersService } from 'src/users/users.service';
+import { toPublicProfile } from 'src/users/users.utils';
+import { DeepPartial } from 'typeorm';
+
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Profile viewing and self-service editing
+ * Profiles are shown according to the owner's privacy settings. Usernames
+ * are unique and can only change once per cooldown, avatars are picked
+ * from the user's own uploaded images.
+ */
+@Injectable()
+export class UserProfileService {
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  constructor(
+    private readonly usersService: UsersService,
+    // MediaModule imports UsersModule for its guards
+    @Inject(forwardRef(() => MediaService))
+    private readonly mediaService: MediaService,
+    private readonly configService: ConfigService,
+    private readonly userPolicy: UserPolicy,
+    // FriendshipsModule imports UsersModule for UsersService
+    @Inject(forwardRef(() => FriendshipsService))
+    private readonly friendshipsService: FriendshipsService,
+  ) {}
+
+  /**
+   * Profile of a user by ID or username
+   * The owner and viewers with `users:read:any` get the private projection,
+   * friends the friends-only fields too, everyone else, anonymous viewers
+   * included, the public one
+   * @param where - User ID or username
+   * @param viewer - Authenticated viewer, if any
+   */
+  async getProfile(
+    where: { id: string } | { username: string },
+    viewer?: AuthPayload,
+  ) {
+    const user = await this.usersService.findOne(where, {
+      relations: ['avatar'],
+    });
+    if (!user) {
+      throw new NotFoundException({ messageKey: 'user.USER_NOT_FOUND' });
+    }
+
+    if (viewer && (await this.userPolicy.can(viewer, 'read', user))) {
+      return user;
+    }
+    const isFriend =
+      !!viewer &&
+      (await this.friendshipsService.areFriends(viewer.uid, user.id));
+    return toPublicProfile(user, isFriend ? 'friends' : 'public');
+  }
+
+  /**
+   * Update the profile of the authenticated user
+   * A new phone number has to be verified again. The chosen avatar becomes
+   * public so other users can see it, the previous one goes back to private.
+   * @param userId - Authenticated user
+   * @param dto - Changed fields only
+   */
+  async updateProfile(userId: string, dto: UpdateProfileDto) {
+    const user = await this.usersService.findById(userId);
+    const patch: DeepPartial<User> = {};
+
+    if (dto.name !== undefined) patch.name = dto.name;
+    if (dto.dob !== undefined) patch.dob = dto.dob;
+    if (dto.username !== undefined && dto.username !== user.username) {
+      await this.assertUsernameAvailable(user, dto.username);
+      patch.username = dto.username;
+      patch.usernameChangedAt = new Date();
+    }
+    if (dto.phoneNumber !== undefined && dto.phoneNumber !== user.phoneNumber) {
+      patch.phoneNumber = dto.phoneNumber;
+      patch.isPhoneVerified = false;
+    }
+
+    let avatar: Media | null = null;
+    const avatarChanged =
+      dto.avatarId !== undefined && dto.avatarId !== (user.avatarId ?? null);
+    if (avatarChanged) {
+      avatar = dto.avatarId
+        ? await this.findAvatar(userId, dto.avatarId)
+        : null;
+      patch.avatarId = dto.avatarId as string;
+    }
+
+    // TypeORM rejects an update without values
+    if (Object.keys(patch).length > 0) {
+      await this.usersService.update(userId, patch);
+    }
+
+    if (avatarChanged) {
+      if (avatar) {
+        await this.mediaService.update(avatar.id, { isPublic: true });
+      }
+      if (user.avatarId) {
+        await this.releaseAvatar(userId, user.avatarId);
+      }
+    }
+
+    return buildResponse({
+      messageKey: 'user.PROFILE_UPDATED',
+      data: await this.usersService.findOne(
+        { id: userId },
+        { relations: ['avatar'] },
+      ),
+    });
+  }
+
+  private async assertUsernameAvailable(
+    user: User,
+    username: string,
+  ): Promise<void> {
+    const cooldownDays =
+      this.configService.get<number>(
+        'app.profile.usernameChangeCooldownDays',
+      ) ?? 30;
+    if (user.usernameChangedAt) {
+      const availableAt =
+        new Date(user.usernameChangedAt).getTime() + cooldownDays * this.DAY_MS;
+      if (availableAt > Date.now()) {
+        throw new HttpException(
+          {
+            messageKey: 'user.USERNAME_CHANGE_COOLDOWN',
+            messageArgs: {
+              days: Math.ceil((availableAt - Date.now()) / this.DAY_MS),
+            },
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
+    const taken = await this.usersService.findOne({ username });
+    if (taken && taken.id !== user.id) {
+      throw new ConflictException({
+        messageKey: 'user.USERNAME_ALREADY_EXISTS',
+      });
+    }
+  }
+
+  private async findAvatar(userId: string, mediaId: string): Promise<Media> {
+    const media = await this.mediaService.findOne({
+      id: mediaId,
+      userId,
+      type: MEDIA_CONSTANTS.TYPES.IMAGE,
+      status: MEDIA_CONSTANTS.STATUS.ACTIVE,
+    });
+    if (!media) {
+      throw new BadRequestException({ messageKey: 'user.INVALID_AVATAR' });
+    }
+    return media;
+  }
+
+  /**
+   * Make a previous avatar private again, unless it was deleted meanwhile
+   */
+  private async releaseAvatar(userId: string, mediaId: string): Promise<void> {
+    const media = await this.mediaService.findOne({ id: mediaId, userId });
+    if (media) {
+      await this.mediaService.update(media.id, { isPublic: false });
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { OwnershipPolicy } from 'src/auth/policies';
+import { PermissionService } from 'src/auth/permission.service';
+import { User } from 'src/users/entities';
+import { UsersService } from 'src/users/users.service';
+
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Users can see their own profile, anyone else needs `users:{action}:any`
+ */
+@Injectable()
+export class UserPolicy extends OwnershipPolicy<User> {
+  protected readonly resource = 'users';
+  readonly notFoundMessageKey = 'user.USER_NOT_FOUND';
+
+  constructor(
+    private readonly usersService: UsersService,
+    permissionService: PermissionService,
+  ) {
+    super(permissionService);
+  }
+
+  load(id: string): Promise<User | null> {
+    return this.usersService.findOne({ id });
+  }
+
+  protected getOwnerId(user: User): string {
+    return user.id;
+  }
+}
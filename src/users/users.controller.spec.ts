@@ -6,6 +6,9 @@ import { USER_CONSTANTS } from 'src/shared/constants';
 
 import { RegisterDto } from './dto/register.dto';
 import { User } from './entities/user.entity';
+import { UserDataExportService } from './user-data-export.service';
+import { UserDeletionService } from './user-deletion.service';
+import { UserProfileService } from './user-profile.service';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 
@@ -40,6 +43,9 @@ describe('UsersController', () => {
     update: jest.Mock;
     restore: jest.Mock;
   };
+  let userProfileService: { updateProfile: jest.Mock; getProfile: jest.Mock };
+  let userDataExportService: { requestExport: jest.Mock };
+  let userDeletionService: { deleteAccount: jest.Mock };
 
   const mockUser: Partial<User> = {
     id: '123',
@@ -93,9 +99,16 @@ describe('UsersController', () => {
       restore: jest.fn(),
     };
 
+    userProfileService = { updateProfile: jest.fn(), getProfile: jest.fn() };
+    userDataExportService = { requestExport: jest.fn() };
+    userDeletionService = { deleteAccount: jest.fn() };
+
     // Create controller directly to avoid guard dependency issues
     controller = new UsersController(
       mockUsersService as unknown as UsersService,
+      userProfileService as unknown as UserProfileService,
+      userDataExportService as unknown as UserDataExportService,
+      userDeletionService as unknown as UserDeletionService,
     );
     usersService = mockUsersService;
   });
@@ -136,6 +149,37 @@ describe('UsersController', () => {
     });
   });
 
+  describe('updateMe', () => {
+    it('should update the profile of the current user', async () => {
+      const dto = { name: 'New Name' };
+      userProfileService.updateProfile.mockResolvedValue({
+        messageKey: 'user.PROFILE_UPDATED',
+      });
+
+      await controller.updateMe(mockRequest, dto);
+
+      expect(userProfileService.updateProfile).toHaveBeenCalledWith(
+        mockAuthPayload.uid,
+        dto,
+      );
+    });
+  });
+
+  describe('exportMe / deleteMe', () => {
+    it('should act on the current user only', async () => {
+      await controller.exportMe(mockRequest);
+      await controller.deleteMe(mockRequest, { currentPassword: 'secret1' });
+
+      expect(userDataExportService.requestExport).toHaveBeenCalledWith(
+        mockAuthPayload.uid,
+      );
+      expect(userDeletionService.deleteAccount).toHaveBeenCalledWith(
+        mockAuthPayload,
+        { currentPassword: 'secret1' },
+      );
+    });
+  });
+
   describe('getUsers', () => {
     it('should return paginated users list', async () => {
       const paginationDto: AdvancedPaginationDto = {
@@ -193,14 +237,26 @@ describe('UsersController', () => {
   });
 
   describe('getUserById', () => {
-    it('should return user by id', async () => {
+    it('should return the profile as seen by the viewer', async () => {
       const userId = '123';
-      usersService.findById.mockResolvedValue(mockUser as User);
+      userProfileService.getProfile.mockResolvedValue(mockUser as User);
 
-      const result = await controller.getUserById(userId);
+      const result = await controller.getUserById(userId, mockRequest);
 
-      expect(usersService?.findById).toHaveBeenCalledWith(userId);
+      expect(userProfileService.getProfile).toHaveBeenCalledWith(
+        { id: userId },
+        mockAuthPayload,
+      );
       expect(result).toEqual(mockUser);
     });
+
+    it('should look up anonymous requests by username', async () => {
+      await controller.getUserByUsername('testuser', {} as Request);
+
+      expect(userProfileService.getProfile).toHaveBeenCalledWith(
+        { username: 'testuser' },
+        undefined,
+      );
+    });
   });
 });
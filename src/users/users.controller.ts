@@ -1,16 +1,26 @@
-import { Auth } from 'src/common/decorators';
+import { ReauthenticateDto } from 'src/auth/dto';
+import { Auth, NoImpersonation, OptionalAuth } from 'src/common/decorators';
 import { AdvancedPaginationDto, CursorPaginationDto } from 'src/common/dto';
 import { AuthPayload } from 'src/common/interface';
 import { SnowflakeIdPipe } from 'src/common/pipes';
 import { USER_CONSTANTS } from 'src/shared/constants';
+import { buildResponse } from 'src/shared/helpers/build-response';
+import { UpdatePrivacySettingsDto, UpdateProfileDto } from 'src/users/dto';
 import { RegisterDto } from 'src/users/dto/register.dto';
+import { UserDataExportService } from 'src/users/user-data-export.service';
+import { UserDeletionService } from 'src/users/user-deletion.service';
+import { UserProfileService } from 'src/users/user-profile.service';
 import { UsersService } from 'src/users/users.service';
 
 import {
   Body,
   Controller,
+  Delete,
   Get,
+  HttpCode,
+  HttpStatus,
   Param,
+  Patch,
   Post,
   Query,
   Request,
@@ -18,7 +28,12 @@ import {
 
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly userProfileService: UserProfileService,
+    private readonly userDataExportService: UserDataExportService,
+    private readonly userDeletionService: UserDeletionService,
+  ) {}
 
   @Post('register')
   register(@Body() registerDto: RegisterDto) {
@@ -36,6 +51,61 @@ export class UsersController {
     );
   }
 
+  @Patch(['@me', 'me'])
+  @Auth()
+  async updateMe(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() updateProfileDto: UpdateProfileDto,
+  ) {
+    return this.userProfileService.updateProfile(
+      req.user.uid,
+      updateProfileDto,
+    );
+  }
+
+  @Get(['@me/privacy', 'me/privacy'])
+  @Auth()
+  async getPrivacy(@Request() req: Request & { user: AuthPayload }) {
+    return this.usersService.getPrivacySettings(req.user.uid);
+  }
+
+  @Patch(['@me/privacy', 'me/privacy'])
+  @Auth()
+  async updatePrivacy(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() dto: UpdatePrivacySettingsDto,
+  ) {
+    return buildResponse({
+      messageKey: 'user.PRIVACY_UPDATED',
+      data: await this.usersService.updatePrivacySettings(req.user.uid, dto),
+    });
+  }
+
+  /**
+   * Queue an export of the user's data, the download link comes by email
+   */
+  @Post(['@me/export', 'me/export'])
+  @Auth()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @NoImpersonation()
+  async exportMe(@Request() req: Request & { user: AuthPayload }) {
+    return this.userDataExportService.requestExport(req.user.uid);
+  }
+
+  /**
+   * Delete the user's account, it is purged after the grace period
+   * Requires the current password, a 2FA code or a passkey assertion
+   */
+  @Delete(['@me', 'me'])
+  @Auth()
+  @NoImpersonation()
+  async deleteMe(
+    @Request() req: Request & { user: AuthPayload },
+    @Body() reauthenticateDto: ReauthenticateDto,
+  ) {
+    return this.userDeletionService.deleteAccount(req.user, reauthenticateDto);
+  }
+
   @Get()
   @Auth(USER_CONSTANTS.ROLES.ADMIN)
   async getUsers(@Query() paginationDto: AdvancedPaginationDto) {
@@ -48,13 +118,31 @@ export class UsersController {
     return await this.usersService.findAllCursor(paginationDto);
   }
 
+  @Get('username/:username')
+  @OptionalAuth()
+  /**
+   * Retrieve a user by their username, see `getUserById`
+   */
+  async getUserByUsername(
+    @Param('username') username: string,
+    @Request() req: Request & { user?: AuthPayload },
+  ) {
+    return this.userProfileService.getProfile({ username }, req.user);
+  }
+
   @Get(':id')
+  @OptionalAuth()
   /**
    * Retrieve a user by their ID.
+   * Users and holders of `users:read:any` get the full profile, everyone
+   * else the fields the user made public.
    * @param id The ID of the user to retrieve.
-   * @returns The user with the specified ID.
+   * @returns The profile of the user with the specified ID.
    */
-  async getUserById(@Param('id', new SnowflakeIdPipe()) id: string) {
-    return await this.usersService.findById(id);
+  async getUserById(
+    @Param('id', new SnowflakeIdPipe()) id: string,
+    @Request() req: Request & { user?: AuthPayload },
+  ) {
+    return this.userProfileService.getProfile({ id }, req.user);
   }
 }
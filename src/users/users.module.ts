@@ -1,18 +1,65 @@
-import { UserDeviceToken, UserSession, User } from 'src/users/entities';
+import {
+  UserDeviceToken,
+  UserRecoveryCode,
+  UserSession,
+  UserWebAuthnCredential,
+  User,
+} from 'src/users/entities';
 import {
   UserDeviceTokensService,
   UserSessionsService,
 } from 'src/users/services';
+import { AuthModule } from 'src/auth/auth.module';
+import { FriendshipsModule } from 'src/friendships/friendships.module';
+import { Media } from 'src/media/entities/media.entity';
+import { MediaModule } from 'src/media/media.module';
+import { QrTicket } from 'src/qr/entities/qr.entity';
+import { ApiKey } from 'src/rate-limit/entities/api-key.entity';
+import { RabbitmqModule } from 'src/shared/services/rabbitmq/rabbitmq.module';
+import { StorageModule } from 'src/shared/services/storage/storage.module';
+import { UserDataExportService } from 'src/users/user-data-export.service';
+import { UserDeletionService } from 'src/users/user-deletion.service';
+import { UserPolicy } from 'src/users/user.policy';
+import { UserProfileService } from 'src/users/user-profile.service';
 import { UsersController } from 'src/users/users.controller';
 import { UsersService } from 'src/users/users.service';
 
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User, UserSession, UserDeviceToken])],
+  imports: [
+    TypeOrmModule.forFeature([
+      User,
+      UserSession,
+      UserDeviceToken,
+      UserRecoveryCode,
+      UserWebAuthnCredential,
+      Media,
+      QrTicket,
+      ApiKey,
+    ]),
+    forwardRef(() => MediaModule),
+    forwardRef(() => FriendshipsModule),
+    forwardRef(() => AuthModule),
+    StorageModule,
+    RabbitmqModule,
+  ],
   controllers: [UsersController],
-  providers: [UsersService, UserSessionsService, UserDeviceTokensService],
-  exports: [UsersService, UserSessionsService, UserDeviceTokensService],
+  providers: [
+    UsersService,
+    UserSessionsService,
+    UserDeviceTokensService,
+    UserPolicy,
+    UserProfileService,
+    UserDataExportService,
+    UserDeletionService,
+  ],
+  exports: [
+    UsersService,
+    UserSessionsService,
+    UserDeviceTokensService,
+    UserDataExportService,
+  ],
 })
 export class UsersModule {}
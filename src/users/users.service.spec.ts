@@ -2,11 +2,13 @@
 import 'reflect-metadata';
 import { Test, TestingModule } from '@nestjs/testing';
 import { getRepositoryToken } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { UsersService } from './users.service';
 import { User } from './entities/user.entity';
 import { UserSession } from './entities/user-sessions.entity';
 import { UserDeviceToken } from './entities/user-device-tokens.entity';
+import { UserRecoveryCode } from './entities/user-recovery-codes.entity';
+import { UserWebAuthnCredential } from './entities/user-webauthn-credentials.entity';
 import { CacheService } from 'src/shared/services/cache/cache.service';
 import { UserSessionsService } from './services/user-sessions.service';
 import { UserDeviceTokensService } from './services/user-device-tokens.service';
@@ -15,7 +17,9 @@ import { CreateSessionDto } from './dto/session.dto';
 import { CreateDeviceTokenDto } from './dto/create-device-token.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { USER_CONSTANTS } from 'src/shared/constants';
-import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConflictException, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OAuthProfile } from 'src/auth/interfaces';
 
 describe('UsersService', () => {
   let service: UsersService;
@@ -24,6 +28,9 @@ describe('UsersService', () => {
   let userSessionRepository: jest.Mocked<Repository<UserSession>>;
   let userDeviceTokenRepository: jest.Mocked<Repository<UserDeviceToken>>;
   let cacheService: jest.Mocked<CacheService>;
+  let webAuthnCredentialRepository: jest.Mocked<
+    Repository<UserWebAuthnCredential>
+  >;
 
   const mockUser: Partial<User> = {
     id: '123',
@@ -57,6 +64,9 @@ describe('UsersService', () => {
       findOne: jest.fn(),
       update: jest.fn(),
       upsert: jest.fn(),
+      manager: {
+        transaction: jest.fn(),
+      },
       metadata: {
         columns: [
           { propertyName: 'id' },
@@ -79,6 +89,20 @@ describe('UsersService', () => {
     const mockUserDeviceTokenRepo = {
       upsert: jest.fn(),
       update: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    const mockUserRecoveryCodeRepo = {
+      update: jest.fn(),
+      count: jest.fn(),
+    };
+
+    const mockWebAuthnCredentialRepo = {
+      findOne: jest.fn(),
+      create: jest.fn(),
+      save: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
     };
 
     const mockCacheService = {
@@ -95,6 +119,7 @@ describe('UsersService', () => {
       findOne: jest.fn(),
       revoke: jest.fn(),
       revokeByUserId: jest.fn(),
+      invalidateListCache: jest.fn(),
     };
 
     const mockUserDeviceTokensService = {
@@ -117,6 +142,14 @@ describe('UsersService', () => {
           provide: getRepositoryToken(UserDeviceToken),
           useValue: mockUserDeviceTokenRepo,
         },
+        {
+          provide: getRepositoryToken(UserRecoveryCode),
+          useValue: mockUserRecoveryCodeRepo,
+        },
+        {
+          provide: getRepositoryToken(UserWebAuthnCredential),
+          useValue: mockWebAuthnCredentialRepo,
+        },
         {
           provide: UserSessionsService,
           useValue: mockUserSessionsService,
@@ -129,6 +162,10 @@ describe('UsersService', () => {
           provide: CacheService,
           useValue: mockCacheService,
         },
+        {
+          provide: ConfigService,
+          useValue: { get: () => 'test-jwt-secret-of-at-least-32-chars' },
+        },
       ],
     }).compile();
 
@@ -137,6 +174,9 @@ describe('UsersService', () => {
     userSessionRepository = module.get(getRepositoryToken(UserSession));
     userDeviceTokenRepository = module.get(getRepositoryToken(UserDeviceToken));
     cacheService = module.get(CacheService);
+    webAuthnCredentialRepository = module.get(
+      getRepositoryToken(UserWebAuthnCredential),
+    );
   });
 
   it('should be defined', () => {
@@ -326,6 +366,127 @@ describe('UsersService', () => {
     });
   });
 
+  describe('rotateSessionRefreshToken', () => {
+    it('should only rotate when the stored hash still matches', async () => {
+      userSessionRepository.update.mockResolvedValue({ affected: 1 } as never);
+
+      const result = await service.rotateSessionRefreshToken(
+        'session123',
+        'old-hash',
+        'new-hash',
+      );
+
+      expect(userSessionRepository.update).toHaveBeenCalledWith(
+        { id: 'session123', revoked: false, refreshTokenHash: 'old-hash' },
+        {
+          refreshTokenHash: 'new-hash',
+          lastRefreshedAt: expect.any(Date) as Date,
+          lastActiveAt: expect.any(Date) as Date,
+        },
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should report a lost race when nothing was updated', async () => {
+      userSessionRepository.update.mockResolvedValue({ affected: 0 } as never);
+
+      await expect(
+        service.rotateSessionRefreshToken('session123', 'old-hash', 'new-hash'),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('WebAuthn credentials', () => {
+    it('should reject a credential ID that is already registered', async () => {
+      webAuthnCredentialRepository.findOne.mockResolvedValue({
+        id: '1',
+      } as UserWebAuthnCredential);
+
+      await expect(
+        service.createWebAuthnCredential({
+          userId: '123',
+          credentialId: 'cred-1',
+          publicKey: 'key',
+          algorithm: -7,
+          signCount: 0,
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(webAuthnCredentialRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should only advance the counter it was verified against', async () => {
+      webAuthnCredentialRepository.update.mockResolvedValue({
+        affected: 0,
+      } as never);
+
+      await expect(
+        service.updateWebAuthnCredentialCounter('1', 4, 5),
+      ).resolves.toBe(false);
+      expect(webAuthnCredentialRepository.update).toHaveBeenCalledWith(
+        { id: '1', signCount: 4 },
+        { signCount: 5, lastUsedAt: expect.any(Date) as Date },
+      );
+    });
+
+    it('should scope deletion to the owner', async () => {
+      webAuthnCredentialRepository.delete.mockResolvedValue({
+        affected: 0,
+      } as never);
+
+      await expect(
+        service.deleteWebAuthnCredential('123', '1'),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.WEBAUTHN_CREDENTIAL_NOT_FOUND' },
+      });
+      expect(webAuthnCredentialRepository.delete).toHaveBeenCalledWith({
+        id: '1',
+        userId: '123',
+      });
+    });
+  });
+
+  describe('two-factor secret', () => {
+    it('should store the TOTP secret encrypted and read it back', async () => {
+      const manager = {
+        update: jest.fn(),
+        delete: jest.fn(),
+        insert: jest.fn(),
+      };
+      (userRepository.manager.transaction as jest.Mock).mockImplementation(
+        (work: (m: typeof manager) => Promise<void>) => work(manager),
+      );
+
+      await service.enableTwoFactor('123', 'JBSWY3DPEHPK3PXP', ['hash']);
+
+      const [, , { twoFactorSecret }] = manager.update.mock.calls[0] as [
+        unknown,
+        string,
+        { twoFactorSecret: string },
+      ];
+      expect(twoFactorSecret).toMatch(/^v1\./);
+      expect(twoFactorSecret).not.toContain('JBSWY3DPEHPK3PXP');
+
+      userRepository.findOne.mockResolvedValue({
+        id: '123',
+        twoFactorSecret,
+      } as User);
+      await expect(service.getTwoFactorSecret('123')).resolves.toBe(
+        'JBSWY3DPEHPK3PXP',
+      );
+    });
+
+    it('should still read a secret stored before encryption', async () => {
+      userRepository.findOne.mockResolvedValue({
+        id: '123',
+        twoFactorSecret: 'JBSWY3DPEHPK3PXP',
+      } as User);
+
+      await expect(service.getTwoFactorSecret('123')).resolves.toBe(
+        'JBSWY3DPEHPK3PXP',
+      );
+    });
+  });
+
   describe('revokeSessionsByUserId', () => {
     it('should revoke all sessions for a user', async () => {
       const userId = '123';
@@ -340,6 +501,48 @@ describe('UsersService', () => {
     });
   });
 
+  describe('expireSessions', () => {
+    it('should revoke the sessions and delete their device tokens', async () => {
+      await service.expireSessions(['session123', 'session456']);
+
+      expect(userSessionRepository.update).toHaveBeenCalledWith(
+        { id: In(['session123', 'session456']) },
+        { revoked: true },
+      );
+      expect(userDeviceTokenRepository.delete).toHaveBeenCalledWith({
+        sessionId: In(['session123', 'session456']),
+      });
+    });
+
+    it('should do nothing without sessions', async () => {
+      await service.expireSessions([]);
+
+      expect(userSessionRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markEmailVerified', () => {
+    it('should only verify the email the token was issued for', async () => {
+      userRepository.update.mockResolvedValue({ affected: 1 } as any);
+
+      const result = await service.markEmailVerified('123', 'test@example.com');
+
+      expect(result).toBe(true);
+      expect(userRepository.update).toHaveBeenCalledWith(
+        { id: '123', email: 'test@example.com' },
+        { isEmailVerified: true },
+      );
+    });
+
+    it('should return false when the email has changed', async () => {
+      userRepository.update.mockResolvedValue({ affected: 0 } as any);
+
+      await expect(
+        service.markEmailVerified('123', 'old@example.com'),
+      ).resolves.toBe(false);
+    });
+  });
+
   describe('updateUser', () => {
     it('should update user successfully', async () => {
       const userId = '123';
@@ -421,4 +624,89 @@ describe('UsersService', () => {
       expect(result).toEqual({ affected: 1 });
     });
   });
+
+  describe('findOrCreateOAuthUser', () => {
+    const profile: OAuthProfile = {
+      provider: USER_CONSTANTS.OAUTH_PROVIDERS.GOOGLE,
+      providerId: 'google-sub-1',
+      email: 'Test@Example.com',
+      emailVerified: true,
+      name: 'Test User',
+    };
+
+    it('should return the user already linked to the provider account', async () => {
+      userRepository.findOne.mockResolvedValueOnce(mockUser as User);
+
+      const result = await service.findOrCreateOAuthUser(profile);
+
+      expect(userRepository.findOne).toHaveBeenCalledWith({
+        where: { oauthProvider: 'google', oauthId: 'google-sub-1' },
+      });
+      expect(userRepository.update).not.toHaveBeenCalled();
+      expect(result).toEqual(mockUser);
+    });
+
+    it('should link an existing user when the provider verified the email', async () => {
+      userRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...mockUser, isEmailVerified: true } as User);
+
+      const result = await service.findOrCreateOAuthUser(profile);
+
+      expect(userRepository.findOne).toHaveBeenLastCalledWith({
+        where: { email: 'test@example.com' },
+      });
+      expect(userRepository.update).toHaveBeenCalledWith('123', {
+        oauthProvider: 'google',
+        oauthId: 'google-sub-1',
+      });
+      expect(cacheService.delete).toHaveBeenCalledWith('users:id:123');
+      expect(result.oauthId).toBe('google-sub-1');
+    });
+
+    it('should refuse to link when the provider did not verify the email', async () => {
+      userRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(mockUser as User);
+
+      await expect(
+        service.findOrCreateOAuthUser({ ...profile, emailVerified: false }),
+      ).rejects.toThrow(ConflictException);
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to link an account that never verified its email', async () => {
+      // Whoever registered the email could keep signing in with a password
+      userRepository.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...mockUser, isEmailVerified: false } as User);
+
+      await expect(
+        service.findOrCreateOAuthUser(profile),
+      ).rejects.toMatchObject({
+        response: { messageKey: 'auth.OAUTH_ACCOUNT_EMAIL_NOT_VERIFIED' },
+      });
+      expect(userRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should create a new OAuth user when nothing matches', async () => {
+      userRepository.findOne.mockResolvedValue(null);
+      userRepository.create.mockImplementation((data) => data as User);
+      userRepository.save.mockImplementation((data) =>
+        Promise.resolve(data as User),
+      );
+
+      const result = await service.findOrCreateOAuthUser(profile);
+
+      expect(result).toMatchObject({
+        email: 'test@example.com',
+        name: 'Test User',
+        oauthProvider: 'google',
+        oauthId: 'google-sub-1',
+        authMethod: USER_CONSTANTS.AUTH_METHODS.OAUTH,
+        isEmailVerified: true,
+      });
+      expect(result.username).toMatch(/^test_\d{5}$/);
+    });
+  });
 });
@@ -1,4 +1,12 @@
 import * as bcrypt from 'bcrypt';
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+  randomInt,
+} from 'crypto';
+import { OAuthProfile } from 'src/auth/interfaces';
 import { AdvancedPaginationDto, CursorPaginationDto } from 'src/common/dto';
 import {
   AuthPayload,
@@ -7,7 +15,20 @@ import {
 } from 'src/common/interface';
 import { TypeOrmBaseRepository } from 'src/common/repositories/typeorm.base-repo';
 import { BaseService } from 'src/common/services';
-import { USER_CONSTANTS } from 'src/shared/constants';
+import { Friendship } from 'src/friendships/entities/friendship.entity';
+import {
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+} from 'src/organizations/entities';
+import { PairedDevice } from 'src/paired-devices/entities';
+import { QrTicket } from 'src/qr/entities/qr.entity';
+import { ApiKey } from 'src/rate-limit/entities/api-key.entity';
+import {
+  ORGANIZATION_CONSTANTS,
+  PrivacySettings,
+  USER_CONSTANTS,
+} from 'src/shared/constants';
 import { CacheService } from 'src/shared/services';
 import {
   CreateDeviceTokenDto,
@@ -15,18 +36,38 @@ import {
   RegisterDto,
   UpdateUserDto,
 } from 'src/users/dto';
-import { User, UserDeviceToken, UserSession } from 'src/users/entities';
-import { FindOptionsWhere, Repository } from 'typeorm';
+import {
+  User,
+  UserDeviceToken,
+  UserRecoveryCode,
+  UserSession,
+  UserWebAuthnCredential,
+} from 'src/users/entities';
+import {
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThan,
+  MoreThanOrEqual,
+  Not,
+  Repository,
+} from 'typeorm';
 import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 
 import {
+  ConflictException,
   ForbiddenException,
   HttpException,
   HttpStatus,
   Injectable,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
 import { UserDeviceTokensService, UserSessionsService } from './services';
+import { resolvePrivacySettings } from './users.utils';
+
+// Format version of sealed TOTP secrets, `v1.{iv}.{tag}.{ciphertext}`
+const SEALED_SECRET_VERSION = 'v1';
 
 @Injectable()
 export class UsersService extends BaseService<User> {
@@ -40,8 +81,15 @@ export class UsersService extends BaseService<User> {
     @InjectRepository(UserDeviceToken)
     private readonly userDeviceTokenRepository: Repository<UserDeviceToken>,
 
+    @InjectRepository(UserRecoveryCode)
+    private readonly userRecoveryCodeRepository: Repository<UserRecoveryCode>,
+
+    @InjectRepository(UserWebAuthnCredential)
+    private readonly webAuthnCredentialRepository: Repository<UserWebAuthnCredential>,
+
     private readonly userSessionService: UserSessionsService,
     private readonly userDeviceTokenService: UserDeviceTokensService,
+    private readonly configService: ConfigService,
 
     cacheService: CacheService,
   ) {
@@ -99,9 +147,266 @@ export class UsersService extends BaseService<User> {
     return await this.userRepository.findOne({ where: { email } });
   }
 
+  async findByOAuthId(provider: string, oauthId: string) {
+    return await this.userRepository.findOne({
+      where: { oauthProvider: provider, oauthId },
+    });
+  }
+
+  /**
+   * Resolve the local user for a verified OAuth identity
+   * Lookup order: linked provider account, then verified email, then create
+   * An account is linked through its email only once it verified that email,
+   * otherwise whoever registered it could keep signing in with a password
+   * @param profile - Identity verified by the provider strategy
+   * @returns The linked, matched or newly created user
+   */
+  async findOrCreateOAuthUser(profile: OAuthProfile): Promise<User> {
+    const linked = await this.findByOAuthId(
+      profile.provider,
+      profile.providerId,
+    );
+    if (linked) {
+      return linked;
+    }
+
+    const email = profile.email?.toLowerCase().trim();
+    if (email) {
+      const existing = await this.findByEmail(email);
+      if (existing) {
+        // Never take over an account through an email the provider did not verify
+        if (!profile.emailVerified) {
+          throw new ConflictException({
+            messageKey: 'auth.OAUTH_EMAIL_NOT_VERIFIED',
+          });
+        }
+
+        if (!existing.isEmailVerified) {
+          throw new ConflictException({
+            messageKey: 'auth.OAUTH_ACCOUNT_EMAIL_NOT_VERIFIED',
+          });
+        }
+
+        // Only one provider can be linked through oauthProvider/oauthId
+        if (!existing.oauthProvider) {
+          const patch: Partial<User> = {
+            oauthProvider: profile.provider,
+            oauthId: profile.providerId,
+          };
+          await this.userRepository.update(existing.id, patch);
+          await this.invalidateCacheForEntity(existing.id);
+          Object.assign(existing, patch);
+        }
+        return existing;
+      }
+    }
+
+    const newUser = this.userRepository.create({
+      email,
+      name: profile.name,
+      username: await this.generateUniqueUsername(email ?? profile.name),
+      oauthProvider: profile.provider,
+      oauthId: profile.providerId,
+      authMethod: USER_CONSTANTS.AUTH_METHODS.OAUTH,
+      isEmailVerified: !!email && profile.emailVerified,
+    });
+    return await this.userRepository.save(newUser);
+  }
+
+  /**
+   * Generate a unique username from an email local part or display name
+   * @param seed - Email or name to derive the username from
+   * @returns Username that is not taken yet
+   */
+  private async generateUniqueUsername(seed?: string): Promise<string> {
+    const base =
+      (seed ?? '')
+        .split('@')[0]
+        .toLowerCase()
+        .replace(/[^a-z0-9_]/g, '')
+        .slice(0, 14) || 'user';
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = `${base}_${randomInt(10000, 100000)}`;
+      const taken = await this.userRepository.findOne({
+        where: { username: candidate },
+      });
+      if (!taken) {
+        return candidate;
+      }
+    }
+
+    throw new ConflictException({ messageKey: 'user.USERNAME_ALREADY_EXISTS' });
+  }
+
   // Inherit BaseService.findOne
   // Inherit BaseService.findById
 
+  /**
+   * Read the TOTP secret of a user with 2FA enabled
+   * Always read from the database, the secret is never cached
+   * @param userId - User ID
+   * @returns Base32 secret or null when 2FA is not enabled
+   */
+  async getTwoFactorSecret(userId: string): Promise<string | null> {
+    const user = await this.userRepository.findOne({
+      where: { id: userId, twoFactorEnabled: true },
+      select: { id: true, twoFactorSecret: true },
+    });
+    return user?.twoFactorSecret
+      ? this.openTwoFactorSecret(user.twoFactorSecret)
+      : null;
+  }
+
+  /**
+   * Enable TOTP 2FA and replace the recovery codes
+   * @param userId - User ID
+   * @param secret - Confirmed base32 TOTP secret
+   * @param recoveryCodeHashes - Hashes of the new recovery codes
+   */
+  async enableTwoFactor(
+    userId: string,
+    secret: string,
+    recoveryCodeHashes: string[],
+  ): Promise<void> {
+    await this.userRepository.manager.transaction(async (manager) => {
+      await manager.update(User, userId, {
+        twoFactorEnabled: true,
+        twoFactorSecret: this.sealTwoFactorSecret(secret),
+      });
+      await manager.delete(UserRecoveryCode, { userId });
+      await manager.insert(
+        UserRecoveryCode,
+        recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })),
+      );
+    });
+    await this.invalidateCacheForEntity(userId);
+  }
+
+  /**
+   * Disable TOTP 2FA and drop all recovery codes
+   * @param userId - User ID
+   */
+  async disableTwoFactor(userId: string): Promise<void> {
+    await this.userRepository.manager.transaction(async (manager) => {
+      await manager.update(User, userId, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+      });
+      await manager.delete(UserRecoveryCode, { userId });
+    });
+    await this.invalidateCacheForEntity(userId);
+  }
+
+  /**
+   * Consume a recovery code
+   * The conditional update makes each code usable exactly once
+   * @param userId - User ID
+   * @param codeHash - Hash of the presented recovery code
+   * @returns true when an unused code matched
+   */
+  async consumeRecoveryCode(
+    userId: string,
+    codeHash: string,
+  ): Promise<boolean> {
+    const result = await this.userRecoveryCodeRepository.update(
+      { userId, codeHash, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Count recovery codes that have not been used yet
+   * @param userId - User ID
+   */
+  async countRemainingRecoveryCodes(userId: string): Promise<number> {
+    return await this.userRecoveryCodeRepository.count({
+      where: { userId, usedAt: IsNull() },
+    });
+  }
+
+  /**
+   * Store a verified WebAuthn credential
+   * @param data - Credential fields produced by the registration ceremony
+   */
+  async createWebAuthnCredential(
+    data: Pick<
+      UserWebAuthnCredential,
+      'userId' | 'credentialId' | 'publicKey' | 'algorithm' | 'signCount'
+    > &
+      Partial<
+        Pick<UserWebAuthnCredential, 'transports' | 'nickname' | 'aaguid'>
+      >,
+  ): Promise<UserWebAuthnCredential> {
+    const existing = await this.webAuthnCredentialRepository.findOne({
+      where: { credentialId: data.credentialId },
+    });
+    if (existing) {
+      throw new ConflictException({
+        messageKey: 'auth.WEBAUTHN_CREDENTIAL_EXISTS',
+      });
+    }
+    const credential = this.webAuthnCredentialRepository.create(data);
+    return await this.webAuthnCredentialRepository.save(credential);
+  }
+
+  async findWebAuthnCredentialsByUserId(
+    userId: string,
+  ): Promise<UserWebAuthnCredential[]> {
+    return await this.webAuthnCredentialRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findWebAuthnCredentialByCredentialId(
+    credentialId: string,
+  ): Promise<UserWebAuthnCredential | null> {
+    return await this.webAuthnCredentialRepository.findOne({
+      where: { credentialId },
+    });
+  }
+
+  /**
+   * Record a successful assertion
+   * The update only applies while the stored counter is still the one that
+   * was verified, so a replayed assertion cannot move the counter back
+   * @param id - Credential row ID
+   * @param previousCount - Counter the assertion was verified against
+   * @param signCount - New counter reported by the authenticator
+   * @returns true when the counter was updated
+   */
+  async updateWebAuthnCredentialCounter(
+    id: string,
+    previousCount: number,
+    signCount: number,
+  ): Promise<boolean> {
+    const result = await this.webAuthnCredentialRepository.update(
+      { id, signCount: previousCount },
+      { signCount, lastUsedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Delete a WebAuthn credential owned by a user
+   * @param userId - Owner user ID
+   * @param id - Credential row ID
+   */
+  async deleteWebAuthnCredential(userId: string, id: string): Promise<void> {
+    const result = await this.webAuthnCredentialRepository.delete({
+      id,
+      userId,
+    });
+    if (!result.affected) {
+      throw new HttpException(
+        { messageKey: 'auth.WEBAUTHN_CREDENTIAL_NOT_FOUND' },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+  }
+
   async createSession(
     createSessionDto: CreateSessionDto,
   ): Promise<UserSession> {
@@ -121,13 +426,346 @@ export class UsersService extends BaseService<User> {
     }
     session.revoked = true;
     await this.userSessionRepository.save(session);
+    await this.userSessionService.invalidateListCache();
   }
 
-  async revokeSessionsByUserId(userId: string): Promise<void> {
+  /**
+   * Swap the refresh token hash of an active session
+   * The update only applies when the stored hash still matches, so two
+   * concurrent refreshes with the same token cannot both succeed
+   * @param id - Session ID
+   * @param currentHash - Hash of the refresh token being rotated
+   * @param nextHash - Hash of the newly issued refresh token
+   * @param expiresAt - New expiry when the session slides
+   * @returns true when the rotation was applied
+   */
+  async rotateSessionRefreshToken(
+    id: string,
+    currentHash: string | null,
+    nextHash: string,
+    expiresAt?: Date,
+  ): Promise<boolean> {
+    const now = new Date();
+    const result = await this.userSessionRepository.update(
+      { id, revoked: false, refreshTokenHash: currentHash ?? IsNull() },
+      {
+        refreshTokenHash: nextHash,
+        lastRefreshedAt: now,
+        lastActiveAt: now,
+        ...(expiresAt && { expiresAt }),
+      },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Set the organization a session acts for, the next refreshed access
+   * token carries it
+   * @param id - Session ID
+   * @param orgId - Organization ID, null to act for no organization
+   */
+  async setSessionOrganization(
+    id: string,
+    orgId: string | null,
+  ): Promise<void> {
+    await this.userSessionRepository.update(
+      { id, revoked: false },
+      { activeOrgId: orgId },
+    );
+  }
+
+  /**
+   * Stop sessions acting for an organization the user left or that was
+   * deleted
+   * @param orgId - Organization ID
+   * @param userId - Only the sessions of this user, all sessions when omitted
+   */
+  async clearSessionOrganization(
+    orgId: string,
+    userId?: string,
+  ): Promise<void> {
+    await this.userSessionRepository.update(
+      { activeOrgId: orgId, ...(userId && { userId }) },
+      { activeOrgId: null },
+    );
+  }
+
+  /**
+   * Record activity on a session and slide its expiry, sessions that
+   * already expired are left to the cleanup
+   * @param id - Session ID
+   * @param expiresAt - New expiry, capped by the absolute lifetime
+   * @param absoluteLifetimeSeconds - Maximum lifetime from the sign-in
+   * @param at - Time of the activity
+   */
+  async touchSession(
+    id: string,
+    expiresAt: Date,
+    absoluteLifetimeSeconds: number,
+    at: Date = new Date(),
+  ): Promise<void> {
+    await this.userSessionRepository
+      .createQueryBuilder()
+      .update()
+      .set({
+        lastActiveAt: at,
+        expiresAt: () =>
+          `LEAST(:expiresAt, "createdAt" + make_interval(secs => :absoluteLifetimeSeconds))`,
+      })
+      .where('id = :id AND revoked = false', { id })
+      .andWhere('("expiresAt" IS NULL OR "expiresAt" > :at)', { at })
+      .setParameters({ expiresAt, absoluteLifetimeSeconds })
+      .execute();
+  }
+
+  /**
+   * Get sessions that are not revoked yet but expired or went idle
+   * @param now - Sessions with expiresAt before this are expired
+   * @param idleSince - Sessions without activity since this are idle
+   * @param limit - Maximum number of sessions
+   */
+  async findExpiredSessions(
+    now: Date,
+    idleSince: Date,
+    limit: number,
+  ): Promise<Pick<UserSession, 'id' | 'userId'>[]> {
+    return this.userSessionRepository.find({
+      where: [
+        { revoked: false, expiresAt: LessThan(now) },
+        { revoked: false, lastActiveAt: LessThan(idleSince) },
+        {
+          revoked: false,
+          lastActiveAt: IsNull(),
+          createdAt: LessThan(idleSince),
+        },
+      ],
+      select: ['id', 'userId'],
+      order: { id: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Revoke expired sessions and delete the device tokens registered on them
+   * @param ids - Session IDs
+   */
+  async expireSessions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.userSessionRepository.update({ id: In(ids) }, { revoked: true });
+    await this.userDeviceTokenRepository.delete({ sessionId: In(ids) });
+    await this.userSessionService.invalidateListCache();
+  }
+
+  async revokeSessionsByUserId(
+    userId: string,
+    exceptSessionId?: string,
+  ): Promise<void> {
     await this.userSessionRepository.update(
-      { userId: userId, revoked: false },
+      {
+        userId: userId,
+        revoked: false,
+        ...(exceptSessionId && { id: Not(exceptSessionId) }),
+      },
       { revoked: true },
     );
+    await this.userSessionService.invalidateListCache();
+  }
+
+  /**
+   * Get the IDs of the sessions of a user that are not revoked
+   * @param userId - User ID
+   */
+  async findActiveSessionIdsByUserId(userId: string): Promise<string[]> {
+    const sessions = await this.userSessionRepository.find({
+      where: { userId, revoked: false },
+      select: ['id'],
+    });
+    return sessions.map((session) => session.id);
+  }
+
+  /**
+   * Mark the email of a user as verified
+   * Only applies while the user still has the email that was verified
+   * @param id - User ID
+   * @param email - Verified email address
+   * @returns true when the flag was set
+   */
+  async markEmailVerified(id: string, email: string): Promise<boolean> {
+    const result = await this.userRepository.update(
+      { id, email },
+      { isEmailVerified: true },
+    );
+    await this.invalidateCacheForEntity(id);
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Move a user to a verified new email address
+   * Only applies while the user still has the previous address
+   * @param id - User ID
+   * @param previousEmail - Address the change was requested from
+   * @param email - New, verified address
+   * @returns true when the address was changed
+   */
+  async changeEmail(
+    id: string,
+    previousEmail: string | null,
+    email: string,
+  ): Promise<boolean> {
+    const result = await this.userRepository.update(
+      { id, email: previousEmail ?? IsNull() },
+      { email, isEmailVerified: true },
+    );
+    await this.invalidateCacheForEntity(id);
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Mark the phone number of a user as verified
+   * Only applies while the user still has the number that was verified
+   * @param id - User ID
+   * @param phoneNumber - Verified phone number
+   * @returns true when the flag was set
+   */
+  async markPhoneVerified(id: string, phoneNumber: string): Promise<boolean> {
+    const result = await this.userRepository.update(
+      { id, phoneNumber },
+      { isPhoneVerified: true },
+    );
+    await this.invalidateCacheForEntity(id);
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Replace the password hash of a user
+   * The cached user is dropped so later reads never see the old hash
+   * @param id - User ID
+   * @param passwordHash - bcrypt hash of the new password
+   */
+  async setPassword(id: string, passwordHash: string): Promise<void> {
+    await this.userRepository.update(id, { password: passwordHash });
+    await this.invalidateCacheForEntity(id);
+  }
+
+  /**
+   * Privacy settings of a user, defaults filled in
+   * @param id - User ID
+   */
+  async getPrivacySettings(id: string): Promise<PrivacySettings> {
+    const user = await this.findById(id);
+    return resolvePrivacySettings(user.privacySettings);
+  }
+
+  /**
+   * Change the privacy of some profile fields, the others keep their setting
+   * @param id - User ID
+   * @param changes - New level per field
+   * @returns The complete settings
+   */
+  async updatePrivacySettings(
+    id: string,
+    changes: Partial<PrivacySettings>,
+  ): Promise<PrivacySettings> {
+    const settings = await this.getPrivacySettings(id);
+    for (const field of USER_CONSTANTS.PRIVACY_FIELDS) {
+      const level = changes[field];
+      if (level) settings[field] = level;
+    }
+    await this.update(id, { privacySettings: settings });
+    return settings;
+  }
+
+  /**
+   * Find a soft-deleted user that has not been purged yet
+   * @param id - User ID
+   */
+  async findDeletedUser(id: string): Promise<User | null> {
+    return await this.userRepository.findOne({
+      where: { id, deletedAt: Not(IsNull()) },
+      withDeleted: true,
+    });
+  }
+
+  /**
+   * Soft-deleted users whose deletion is older than the given date
+   * @param deletedBefore - End of the grace period
+   * @param limit - Maximum number of users to return
+   */
+  async findUsersDeletedBefore(
+    deletedBefore: Date,
+    limit: number,
+  ): Promise<Pick<User, 'id'>[]> {
+    return await this.userRepository.find({
+      where: { deletedAt: LessThan(deletedBefore) },
+      select: ['id'],
+      withDeleted: true,
+      order: { id: 'ASC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Unset the avatar of a user, deleted users included
+   * @param id - User ID
+   */
+  async detachAvatar(id: string): Promise<void> {
+    await this.userRepository.update(id, { avatarId: () => 'NULL' });
+    await this.invalidateCacheForEntity(id);
+  }
+
+  /**
+   * Permanently delete a user with their friendships, memberships, sessions,
+   * devices, paired devices, credentials, API keys and QR tickets
+   * Organizations the user owns are deleted with them. Tickets of other
+   * users the user scanned or approved are kept without their reference.
+   * Media go through MediaService first for their files.
+   * @param id - User ID
+   */
+  async purgeUser(id: string): Promise<void> {
+    await this.userRepository.manager.transaction(async (manager) => {
+      await manager.delete(Friendship, { userId: id });
+      await manager.delete(Friendship, { friendId: id });
+      const owned = await manager.find(OrganizationMember, {
+        where: { userId: id, role: ORGANIZATION_CONSTANTS.ROLES.OWNER },
+        select: ['organizationId'],
+      });
+      const ownedIds = owned.map((member) => member.organizationId);
+      if (ownedIds.length > 0) {
+        await manager.delete(OrganizationInvitation, {
+          organizationId: In(ownedIds),
+        });
+        await manager.delete(OrganizationMember, {
+          organizationId: In(ownedIds),
+        });
+        await manager.update(
+          UserSession,
+          { activeOrgId: In(ownedIds) },
+          { activeOrgId: null },
+        );
+        await manager.delete(Organization, { id: In(ownedIds) });
+      }
+      await manager.delete(OrganizationMember, { userId: id });
+      await manager.delete(UserDeviceToken, { userId: id });
+      await manager.delete(PairedDevice, { userId: id });
+      await manager.delete(UserSession, { userId: id });
+      await manager.delete(UserRecoveryCode, { userId: id });
+      await manager.delete(UserWebAuthnCredential, { userId: id });
+      await manager.delete(ApiKey, { userId: id });
+      await manager.delete(QrTicket, { createdById: id });
+      await manager.update(
+        QrTicket,
+        { scannedById: id },
+        { scannedById: () => 'NULL' },
+      );
+      await manager.update(
+        QrTicket,
+        { approvedById: id },
+        { approvedById: () => 'NULL' },
+      );
+      await manager.delete(User, id);
+    });
+    await this.invalidateCacheForEntity(id);
+    await this.userSessionService.invalidateListCache();
   }
 
   async updateUser(id: string, updateUserDto: UpdateUserDto) {
@@ -139,7 +777,9 @@ export class UsersService extends BaseService<User> {
       );
     }
     Object.assign(user, updateUserDto);
-    return await this.userRepository.update(id, updateUserDto);
+    const result = await this.userRepository.update(id, updateUserDto);
+    await this.invalidateCacheForEntity(id);
+    return result;
   }
 
   async findAll(
@@ -191,6 +831,39 @@ export class UsersService extends BaseService<User> {
     return await this.userSessionService.listCursor(paginationDto);
   }
 
+  /**
+   * Get the sessions a user created since a given date, newest first
+   * Includes revoked sessions, they are still part of the sign-in history
+   * @param userId - User ID
+   * @param since - Oldest creation date to include
+   * @param limit - Maximum number of sessions (default: 50)
+   */
+  async findRecentSessionsByUserId(
+    userId: string,
+    since: Date,
+    limit: number = 50,
+  ): Promise<UserSession[]> {
+    return this.userSessionRepository.find({
+      where: { userId, createdAt: MoreThanOrEqual(since) },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get the push tokens of the active devices of a user
+   * @param userId - User ID
+   */
+  async findActiveDeviceTokensByUserId(userId: string): Promise<string[]> {
+    const deviceTokens = await this.userDeviceTokenRepository.find({
+      where: { userId, isActive: true },
+      select: ['token'],
+    });
+    return deviceTokens
+      .map((deviceToken) => deviceToken.token)
+      .filter((token): token is string => !!token);
+  }
+
   async findSessionById(id: string): Promise<UserSession | null> {
     return await this.userSessionService.findOne({ id, revoked: false });
   }
@@ -209,4 +882,54 @@ export class UsersService extends BaseService<User> {
     }
     return true;
   }
+
+  /**
+   * Encrypt a TOTP secret for storage
+   * @returns `v1.{iv}.{tag}.{ciphertext}`, base64url parts
+   */
+  private sealTwoFactorSecret(secret: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.getSealingKey(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+    return [
+      SEALED_SECRET_VERSION,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join('.');
+  }
+
+  private openTwoFactorSecret(sealed: string): string {
+    const [version, iv, tag, ciphertext] = sealed.split('.');
+    if (!iv) {
+      // Stored before secrets were encrypted, base32 never contains a dot
+      return sealed;
+    }
+    if (version !== SEALED_SECRET_VERSION) {
+      throw new Error(`Unsupported sealed secret version ${version}`);
+    }
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.getSealingKey(),
+      Buffer.from(iv, 'base64url'),
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private getSealingKey(): Buffer {
+    const secret = this.configService.get<string>('app.jwt.secret');
+    if (!secret) {
+      throw new Error('JWT secret is not configured');
+    }
+    return Buffer.from(
+      hkdfSync('sha256', secret, '', 'two-factor-secrets', 32),
+    );
+  }
 }
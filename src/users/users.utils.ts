@@ -0,0 +1,83 @@
+import {
+  PrivacyField,
+  PrivacySettings,
+  USER_CONSTANTS,
+} from 'src/shared/constants';
+
+/**
+ * Users Utilities - Privacy projections of user profiles
+ * The helpers work on entities and on cached plain objects alike, so any
+ * module embedding a user can apply them
+ */
+
+/** Who is looking at a profile, `friends` also sees friends-only fields */
+export type ProfileAudience = 'public' | 'friends';
+
+/** Fields needed to project a user */
+export interface ProjectableUser {
+  id: string;
+  username: string;
+  name?: string | null;
+  avatar?: unknown;
+  email?: string | null;
+  phoneNumber?: string | null;
+  dob?: Date | string | null;
+  privacySettings?: Partial<PrivacySettings> | null;
+}
+
+export interface PublicUserProfile {
+  id: string;
+  username: string;
+  name?: string;
+  avatar?: unknown;
+  email?: string;
+  phoneNumber?: string;
+  dob?: Date | string;
+}
+
+/**
+ * Privacy settings of a user, missing fields fall back to the defaults
+ * @param settings - Stored settings, may be partial or null
+ */
+export function resolvePrivacySettings(
+  settings?: Partial<PrivacySettings> | null,
+): PrivacySettings {
+  return { ...USER_CONSTANTS.DEFAULT_PRIVACY, ...(settings ?? {}) };
+}
+
+/**
+ * Whether a field with the given settings is visible to the audience
+ */
+export function isFieldVisible(
+  settings: PrivacySettings,
+  field: PrivacyField,
+  audience: ProfileAudience,
+): boolean {
+  const level = settings[field];
+  return (
+    level === USER_CONSTANTS.PRIVACY_LEVELS.PUBLIC ||
+    (audience === 'friends' && level === USER_CONSTANTS.PRIVACY_LEVELS.FRIENDS)
+  );
+}
+
+/**
+ * Public projection of a user: id, username and the fields the user shares
+ * with the audience
+ * @param user - User entity or cached user
+ * @param audience - Viewer relation (default: public)
+ */
+export function toPublicProfile(
+  user: ProjectableUser,
+  audience: ProfileAudience = 'public',
+): PublicUserProfile {
+  const settings = resolvePrivacySettings(user.privacySettings);
+  const profile: PublicUserProfile = { id: user.id, username: user.username };
+
+  for (const field of USER_CONSTANTS.PRIVACY_FIELDS) {
+    const value = user[field];
+    if (value != null && isFieldVisible(settings, field, audience)) {
+      Object.assign(profile, { [field]: value });
+    }
+  }
+  return profile;
+}
@@ -14,6 +14,7 @@ import {
   TemplateEmailQueueJob,
   OtpEmailQueueJob,
 } from 'src/shared/services/mail/mail-queue.interface';
+import { UserDataExportJob } from 'src/users/user-data-export.service';
 
 @Controller()
 export class WorkerController {
@@ -115,4 +116,28 @@ export class WorkerController {
       channel.nack(originalMsg, false, true);
     }
   }
+
+  @MessagePattern(JOB_NAME.USER_DATA_EXPORT)
+  async processUserDataExport(
+    @Payload() job: UserDataExportJob | string,
+    @Ctx() context: RmqContext,
+  ) {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    const channel = context.getChannelRef();
+    const originalMsg = context.getMessage();
+    try {
+      await this.workerService.processUserDataExport(job);
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+      channel.ack(originalMsg);
+    } catch (error) {
+      console.log('Error processing user data export:', error);
+      // Requeue until the attempts of the request are used up, then drop
+      // it. Without Redis the attempts cannot be counted, keep the job
+      const requeue = await this.workerService
+        .retryUserDataExport(job)
+        .catch(() => true);
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+      channel.nack(originalMsg, false, requeue);
+    }
+  }
 }
@@ -3,9 +3,10 @@ import { Module } from '@nestjs/common';
 import { WorkerController } from './worker.controller';
 import { WorkerService } from './worker.service';
 import { MailModule } from 'src/shared/services/mail/mail.module';
+import { UsersModule } from 'src/users/users.module';
 
 @Module({
-  imports: [MailModule],
+  imports: [MailModule, UsersModule],
   controllers: [WorkerController],
   providers: [WorkerService],
 })
@@ -8,12 +8,19 @@ import {
   OtpEmailQueueJob,
   MailQueueJobResult,
 } from 'src/shared/services/mail/mail-queue.interface';
+import {
+  UserDataExportJob,
+  UserDataExportService,
+} from 'src/users/user-data-export.service';
 
 @Injectable()
 export class WorkerService {
   private readonly logger = new Logger(WorkerService.name);
 
-  constructor(private readonly mailService: MailService) {}
+  constructor(
+    private readonly mailService: MailService,
+    private readonly userDataExportService: UserDataExportService,
+  ) {}
 
   testRABBIT(id: number) {
     return `This action removes a #${id} worker`;
@@ -202,4 +209,33 @@ export class WorkerService {
       };
     }
   }
+
+  /**
+   * Process user data export job
+   * Failures are thrown so the message is requeued
+   */
+  async processUserDataExport(job: UserDataExportJob | string): Promise<void> {
+    const jobData =
+      typeof job === 'string' ? (JSON.parse(job) as UserDataExportJob) : job;
+    this.logger.log(`Processing data export of user ${jobData.userId}`);
+
+    await this.userDataExportService.processExport(jobData);
+  }
+
+  /**
+   * Count a failed data export attempt
+   * A payload that cannot be parsed is never retried
+   * @returns true when the job should be requeued
+   */
+  async retryUserDataExport(job: UserDataExportJob | string): Promise<boolean> {
+    let jobData: UserDataExportJob;
+    try {
+      jobData =
+        typeof job === 'string' ? (JSON.parse(job) as UserDataExportJob) : job;
+    } catch {
+      this.logger.error('Dropping malformed data export job');
+      return false;
+    }
+    return this.userDataExportService.recordFailedAttempt(jobData);
+  }
 }